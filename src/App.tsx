@@ -27,6 +27,8 @@ const SewingUpdate = lazy(() => import("./pages/SewingUpdate"));
 const FinishingUpdate = lazy(() => import("./pages/FinishingUpdate"));
 const SewingMorningTargets = lazy(() => import("./pages/SewingMorningTargets"));
 const SewingEndOfDay = lazy(() => import("./pages/SewingEndOfDay"));
+const SewingHourlyBoard = lazy(() => import("./pages/SewingHourlyBoard"));
+const PendingSync = lazy(() => import("./pages/PendingSync"));
 const FinishingDailyTarget = lazy(() => import("./pages/FinishingDailyTarget"));
 const FinishingDailyOutput = lazy(() => import("./pages/FinishingDailyOutput"));
 const FinishingMySubmissions = lazy(() => import("./pages/FinishingMySubmissions"));
@@ -63,10 +65,22 @@ const CuttingForm = lazy(() => import("./pages/CuttingForm"));
 const CuttingMorningTargets = lazy(() => import("./pages/CuttingMorningTargets"));
 const CuttingEndOfDay = lazy(() => import("./pages/CuttingEndOfDay"));
 const CuttingSummary = lazy(() => import("./pages/CuttingSummary"));
+const CuttingPlans = lazy(() => import("./pages/CuttingPlans"));
+const CuttingBundles = lazy(() => import("./pages/CuttingBundles"));
 const CuttingAllSubmissions = lazy(() => import("./pages/CuttingAllSubmissions"));
 const CuttingHandoffs = lazy(() => import("./pages/CuttingHandoffs"));
+const BundleScan = lazy(() => import("./pages/BundleScan"));
 const ErrorLogs = lazy(() => import("./pages/ErrorLogs"));
 const Finances = lazy(() => import("./pages/Finances"));
+const LetterOfCredits = lazy(() => import("./pages/LetterOfCredits"));
+const LetterOfCreditDetail = lazy(() => import("./pages/LetterOfCreditDetail"));
+const CostSheets = lazy(() => import("./pages/CostSheets"));
+const CostSheetBuilder = lazy(() => import("./pages/CostSheetBuilder"));
+const Invoices = lazy(() => import("./pages/Invoices"));
+const InvoiceDetail = lazy(() => import("./pages/InvoiceDetail"));
+const SalesContracts = lazy(() => import("./pages/SalesContracts"));
+const SalesContractDetail = lazy(() => import("./pages/SalesContractDetail"));
+const BankLedger = lazy(() => import("./pages/BankLedger"));
 const GateDispatchForm = lazy(() => import("./pages/GateDispatchForm"));
 const MyDispatchHistory = lazy(() => import("./pages/MyDispatchHistory"));
 const PendingApprovals = lazy(() => import("./pages/PendingApprovals"));
@@ -87,6 +101,13 @@ const QCDailySheetDetail = lazy(() => import("./pages/quality/QCDailySheetDetail
 const QCMyRecords = lazy(() => import("./pages/quality/QCMyRecords"));
 const QCAdminTrackers = lazy(() => import("./pages/quality/QCAdminTrackers"));
 const QCAdminSheets = lazy(() => import("./pages/quality/QCAdminSheets"));
+const QCTemplates = lazy(() => import("./pages/quality/QCTemplates"));
+const QCTemplateEditor = lazy(() => import("./pages/quality/QCTemplateEditor"));
+const QCAqlList = lazy(() => import("./pages/quality/QCAqlList"));
+const QCDefectLog = lazy(() => import("./pages/quality/QCDefectLog"));
+const QCSpecSheets = lazy(() => import("./pages/quality/QCSpecSheets"));
+const QCSpecSheetDetail = lazy(() => import("./pages/quality/QCSpecSheetDetail"));
+const QCAqlDetail = lazy(() => import("./pages/quality/QCAqlDetail"));
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
@@ -177,6 +198,7 @@ function AppRoutes() {
         <Route path="/update/finishing" element={<SubscriptionGate><ProtectedRoute adminOnly><FinishingUpdate /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/sewing/morning-targets" element={<SubscriptionGate><ProtectedRoute allowedRoles={['worker', 'sewing']}><SewingMorningTargets /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/sewing/end-of-day" element={<SubscriptionGate><ProtectedRoute allowedRoles={['worker', 'sewing']}><SewingEndOfDay /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/sewing/hourly" element={<SubscriptionGate><ProtectedRoute allowedRoles={['worker', 'sewing']}><SewingHourlyBoard /></ProtectedRoute></SubscriptionGate>} />
 
         <Route path="/finishing/daily-target" element={<SubscriptionGate><ProtectedRoute allowedRoles={['worker', 'finishing']}><FinishingDailyTarget /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/finishing/daily-output" element={<SubscriptionGate><ProtectedRoute allowedRoles={['worker', 'finishing']}><FinishingDailyOutput /></ProtectedRoute></SubscriptionGate>} />
@@ -195,6 +217,15 @@ function AppRoutes() {
         <Route path="/work-orders" element={<SubscriptionGate><ProtectedRoute adminOnly><WorkOrdersView /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/insights" element={<SubscriptionGate><ProtectedRoute adminOnly><Insights /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/finances" element={<SubscriptionGate><ProtectedRoute adminOnly><Finances /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/finances/lcs" element={<SubscriptionGate><ProtectedRoute adminOnly><LetterOfCredits /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/finances/lcs/:lcId" element={<SubscriptionGate><ProtectedRoute adminOnly><LetterOfCreditDetail /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/finances/costing" element={<SubscriptionGate><ProtectedRoute adminOnly><CostSheets /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/finances/costing/:sheetId" element={<SubscriptionGate><ProtectedRoute adminOnly><CostSheetBuilder /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/finances/invoices" element={<SubscriptionGate><ProtectedRoute adminOnly><Invoices /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/finances/invoices/:invoiceId" element={<SubscriptionGate><ProtectedRoute adminOnly><InvoiceDetail /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/finances/contracts" element={<SubscriptionGate><ProtectedRoute adminOnly><SalesContracts /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/finances/contracts/:contractId" element={<SubscriptionGate><ProtectedRoute adminOnly><SalesContractDetail /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/finances/bank" element={<SubscriptionGate><ProtectedRoute adminOnly><BankLedger /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/schedule" element={<SubscriptionGate><ProtectedRoute adminOnly><Schedule /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/setup" element={<SubscriptionGate><ProtectedRoute adminOnly><SetupHome /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/setup/factory" element={<SubscriptionGate><ProtectedRoute adminOnly><FactorySetup /></ProtectedRoute></SubscriptionGate>} />
@@ -208,6 +239,7 @@ function AppRoutes() {
         <Route path="/my-submissions" element={<SubscriptionGate><LegacyMySubmissionsRedirect /></SubscriptionGate>} />
 
         <Route path="/preferences" element={<SubscriptionGate><Preferences /></SubscriptionGate>} />
+        <Route path="/pending-sync" element={<SubscriptionGate><PendingSync /></SubscriptionGate>} />
         <Route path="/billing" element={isNative ? <Navigate to="/dashboard" replace /> : <ProtectedRoute adminOnly><Billing /></ProtectedRoute>} />
         <Route path="/billing-plan" element={isNative ? <Navigate to="/dashboard" replace /> : <ProtectedRoute adminOnly><BillingPlan /></ProtectedRoute>} />
         {/* Storage module routes */}
@@ -219,9 +251,12 @@ function AppRoutes() {
         <Route path="/cutting/end-of-day" element={<SubscriptionGate><ProtectedRoute allowedRoles={['cutting']}><CuttingEndOfDay /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/cutting/form" element={<SubscriptionGate><ProtectedRoute allowedRoles={['cutting']}><CuttingForm /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/cutting/summary" element={<SubscriptionGate><ProtectedRoute allowedRoles={['cutting']}><CuttingSummary /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/cutting/plans" element={<SubscriptionGate><ProtectedRoute allowedRoles={['cutting']}><CuttingPlans /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/cutting/bundles" element={<SubscriptionGate><ProtectedRoute allowedRoles={['cutting']}><CuttingBundles /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/cutting/submissions" element={<SubscriptionGate><ProtectedRoute allowedRoles={['cutting']}><CuttingAllSubmissions /></ProtectedRoute></SubscriptionGate>} />
         {/* Sewing module routes */}
         <Route path="/sewing/cutting-handoffs" element={<SubscriptionGate><ProtectedRoute allowedRoles={['worker', 'sewing']}><CuttingHandoffs /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/sewing/bundles" element={<SubscriptionGate><ProtectedRoute allowedRoles={['worker', 'sewing']}><BundleScan /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/sewing/my-submissions" element={<SubscriptionGate><ProtectedRoute allowedRoles={['worker', 'sewing']}><SewingMySubmissions /></ProtectedRoute></SubscriptionGate>} />
         {/* Gate Dispatch module routes */}
         <Route path="/dispatch/new" element={<SubscriptionGate><ProtectedRoute allowedRoles={['gate_officer']}><GateDispatchForm /></ProtectedRoute></SubscriptionGate>} />
@@ -240,10 +275,19 @@ function AppRoutes() {
         <Route path="/quality/order-manager/:trackerId" element={<SubscriptionGate><ProtectedRoute allowedRoles={['qc']}><QCOrderManagerDetail /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/quality/daily-sheet" element={<SubscriptionGate><ProtectedRoute allowedRoles={['qc']}><QCDailySheetList /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/quality/daily-sheet/:sheetId" element={<SubscriptionGate><ProtectedRoute allowedRoles={['qc']}><QCDailySheetDetail /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/quality/aql" element={<SubscriptionGate><ProtectedRoute allowedRoles={['qc']}><QCAqlList /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/quality/aql/:inspectionId" element={<SubscriptionGate><ProtectedRoute allowedRoles={['qc']}><QCAqlDetail /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/quality/defects" element={<SubscriptionGate><ProtectedRoute allowedRoles={['qc']}><QCDefectLog /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/quality/specs" element={<SubscriptionGate><ProtectedRoute allowedRoles={['qc']}><QCSpecSheets /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/quality/specs/:specId" element={<SubscriptionGate><ProtectedRoute allowedRoles={['qc']}><QCSpecSheetDetail /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/quality/records" element={<SubscriptionGate><ProtectedRoute allowedRoles={['qc']}><QCMyRecords /></ProtectedRoute></SubscriptionGate>} />
         {/* Admin review pages — admin-only, distinct from the QC inspector list pages. */}
         <Route path="/quality/admin/trackers" element={<SubscriptionGate><ProtectedRoute adminOnly><QCAdminTrackers /></ProtectedRoute></SubscriptionGate>} />
         <Route path="/quality/admin/sheets" element={<SubscriptionGate><ProtectedRoute adminOnly><QCAdminSheets /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/quality/admin/sheets/templates" element={<SubscriptionGate><ProtectedRoute adminOnly><QCTemplates kind="daily_qc" /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/quality/admin/sheets/templates/:templateId" element={<SubscriptionGate><ProtectedRoute adminOnly><QCTemplateEditor /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/quality/admin/trackers/templates" element={<SubscriptionGate><ProtectedRoute adminOnly><QCTemplates kind="order_manager" /></ProtectedRoute></SubscriptionGate>} />
+        <Route path="/quality/admin/trackers/templates/:templateId" element={<SubscriptionGate><ProtectedRoute adminOnly><QCTemplateEditor /></ProtectedRoute></SubscriptionGate>} />
       </Route>
 
       {/* Buyer portal routes */}
@@ -11,6 +11,8 @@ import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { usePOSizeRollup } from "@/hooks/useSizeMatrix";
+import { SizeRollupTable } from "@/components/size-matrix/SizeRollupTable";
 import { toast } from "sonner";
 import { format, parseISO } from "date-fns";
 import { Plus, Loader2, Package, AlertCircle, ShoppingCart, Truck, RefreshCw, Trash2, Gift, Settings } from "lucide-react";
@@ -69,6 +71,7 @@ export function ExtrasLedgerModal({
   const [referenceNumber, setReferenceNumber] = useState('');
 
   const isAdmin = isAdminOrHigher();
+  const { data: sizeRollup } = usePOSizeRollup(open ? workOrderId : null);
 
   useEffect(() => {
     if (open && workOrderId) {
@@ -195,6 +198,14 @@ export function ExtrasLedgerModal({
           </div>
         </div>
 
+        {/* Where the extras sit: "+n" cells are finished beyond the ordered size/colour */}
+        {sizeRollup?.breakdown && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">{t('sizeMatrix.title')}</h4>
+            <SizeRollupTable rollup={sizeRollup.rollup} />
+          </div>
+        )}
+
         <Separator />
 
         {/* Add entry form */}
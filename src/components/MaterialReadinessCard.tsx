@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { differenceInDays, format, parseISO } from "date-fns";
+import { Check, Loader2, PackageCheck, PackageX, Pencil, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { MATERIAL_LOOKAHEAD_DAYS, MATERIAL_STATUS_LABELS, type MaterialStatus } from "@/lib/material-readiness";
+import { useMaterialRequirementMutations, useScheduledMaterials, type ScheduledMaterialRow } from "@/hooks/useMaterialReadiness";
+
+const STATUS_CLASS: Record<MaterialStatus, string> = {
+  ready: "bg-green-100 text-green-700 border-green-200",
+  partial: "bg-amber-100 text-amber-700 border-amber-200",
+  missing: "bg-red-100 text-red-700 border-red-200",
+  unknown: "bg-muted text-muted-foreground border-transparent",
+};
+
+type View = "blocking" | "all";
+
+function startsIn(startDate: string): string {
+  const days = differenceInDays(parseISO(startDate), parseISO(format(new Date(), "yyyy-MM-dd")));
+  if (days < 0) return "started";
+  if (days === 0) return "today";
+  return `in ${days}d`;
+}
+
+/** Received vs required materials for scheduled POs, leading with shortages that block upcoming bookings. */
+export function MaterialReadinessCard() {
+  const { scheduled, isLoading } = useScheduledMaterials();
+  const { setRequirement } = useMaterialRequirementMutations();
+  const [view, setView] = useState<View>("blocking");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const blocking = scheduled.filter((m) => m.blocking);
+  const rows = view === "blocking" ? blocking : scheduled;
+
+  const startEdit = (m: ScheduledMaterialRow) => {
+    setEditingId(m.readiness.workOrderId);
+    setDraft(m.readiness.source === "manual" && m.readiness.required != null ? String(m.readiness.required) : "");
+  };
+
+  const save = (workOrderId: string, requiredQty: number | null) =>
+    setRequirement.mutate({ workOrderId, requiredQty }, { onSuccess: () => setEditingId(null) });
+
+  const draftQty = parseFloat(draft);
+  const draftValid = draft.trim() !== "" && draftQty > 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            {blocking.length > 0 ? (
+              <PackageX className="h-5 w-5 text-red-600" />
+            ) : (
+              <PackageCheck className="h-5 w-5 text-green-600" />
+            )}
+            Material Readiness
+            {blocking.length > 0 && (
+              <Badge variant="destructive" className="ml-1">{blocking.length} blocking</Badge>
+            )}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Scheduled POs whose materials are not in-house, with bookings in the next {MATERIAL_LOOKAHEAD_DAYS} days.
+          </p>
+        </div>
+        <div className="flex rounded-md border p-0.5">
+          {(["blocking", "all"] as View[]).map((v) => (
+            <Button
+              key={v}
+              variant={view === v ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setView(v)}
+            >
+              {v === "blocking" ? "Blocking" : `All scheduled (${scheduled.length})`}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            {view === "blocking" ? "No upcoming booking is waiting on materials." : "No POs on the production schedule."}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO</TableHead>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Starts</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Required</TableHead>
+                  <TableHead className="text-right">Short</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((m) => {
+                  const r = m.readiness;
+                  const editing = editingId === r.workOrderId;
+                  return (
+                    <TableRow key={r.workOrderId} className={cn(m.blocking && view === "all" && "bg-red-50/50")}>
+                      <TableCell>
+                        <div className="font-medium">{m.poNumber}</div>
+                        <div className="text-xs text-muted-foreground">{m.buyer} · {m.style}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{m.lineName}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(parseISO(m.startDate), "dd MMM")}
+                        <span className="block text-xs text-muted-foreground">{startsIn(m.startDate)}</span>
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{r.received.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">
+                        {editing ? (
+                          <div className="flex items-center justify-end gap-1">
+                            <Input
+                              type="number"
+                              min={0}
+                              autoFocus
+                              value={draft}
+                              onChange={(e) => setDraft(e.target.value)}
+                              className="h-8 w-24 text-right"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              disabled={!draftValid || setRequirement.isPending}
+                              onClick={() => save(r.workOrderId, draftQty)}
+                            >
+                              <Check className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                              <X className="h-3.5 w-3.5" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-end gap-1">
+                            <div>
+                              <span className="font-mono">{r.required != null ? r.required.toLocaleString() : "—"}</span>
+                              {r.source && (
+                                <span className="block text-[10px] text-muted-foreground">
+                                  {r.source === "manual" ? "entered" : "cost sheet"}
+                                </span>
+                              )}
+                            </div>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEdit(m)}>
+                              <Pencil className="h-3 w-3 text-muted-foreground" />
+                            </Button>
+                          </div>
+                        )}
+                        {editing && r.source === "manual" && (
+                          <button
+                            className="text-[10px] text-muted-foreground underline"
+                            disabled={setRequirement.isPending}
+                            onClick={() => save(r.workOrderId, null)}
+                          >
+                            Use cost sheet instead
+                          </button>
+                        )}
+                      </TableCell>
+                      <TableCell className={cn("text-right font-mono", r.shortfall > 0 && "text-red-600 font-semibold")}>
+                        {r.shortfall > 0 ? r.shortfall.toLocaleString() : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_CLASS[r.status]}>
+                          {MATERIAL_STATUS_LABELS[r.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,7 +4,8 @@
  */
 
 import { useState } from 'react';
-import { Wifi, WifiOff, Cloud, CloudOff, RefreshCw, AlertTriangle, X } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Wifi, WifiOff, Cloud, RefreshCw, AlertTriangle, X, GitCompare, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -13,8 +14,8 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { useNetworkStatus } from '@/hooks/useNetworkStatus';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
 import { cn } from '@/lib/utils';
-import { getQueuedSubmissions } from '@/lib/offline-queue';
 import { format } from 'date-fns';
 
 export function NetworkStatusIndicator() {
@@ -22,6 +23,7 @@ export function NetworkStatusIndicator() {
     isOnline,
     pendingCount,
     failedCount,
+    conflictCount,
     isSyncing,
     manualSync,
     retryFailed,
@@ -29,9 +31,10 @@ export function NetworkStatusIndicator() {
   } = useNetworkStatus();
 
   const [open, setOpen] = useState(false);
-  const submissions = getQueuedSubmissions();
+  const { submissions } = useOfflineQueue();
 
-  const showIndicator = !isOnline || pendingCount > 0 || failedCount > 0;
+  const attentionCount = failedCount + conflictCount;
+  const showIndicator = !isOnline || pendingCount > 0 || attentionCount > 0;
 
   if (!showIndicator && isOnline) {
     return null;
@@ -46,12 +49,12 @@ export function NetworkStatusIndicator() {
           className={cn(
             'relative h-8 gap-1.5 px-2',
             !isOnline && 'text-destructive',
-            failedCount > 0 && 'text-destructive',
-            pendingCount > 0 && isOnline && !failedCount && 'text-amber-600'
+            attentionCount > 0 && 'text-destructive',
+            pendingCount > 0 && isOnline && !attentionCount && 'text-amber-600'
           )}
         >
           {isOnline ? (
-            pendingCount > 0 || failedCount > 0 ? (
+            pendingCount > 0 || attentionCount > 0 ? (
               <Cloud className={cn('h-4 w-4', isSyncing && 'animate-pulse')} />
             ) : (
               <Wifi className="h-4 w-4" />
@@ -60,12 +63,12 @@ export function NetworkStatusIndicator() {
             <WifiOff className="h-4 w-4" />
           )}
           
-          {(pendingCount > 0 || failedCount > 0) && (
+          {(pendingCount > 0 || attentionCount > 0) && (
             <Badge 
-              variant={failedCount > 0 ? 'destructive' : 'secondary'} 
+              variant={attentionCount > 0 ? 'destructive' : 'secondary'} 
               className="h-5 min-w-5 px-1 text-xs"
             >
-              {pendingCount + failedCount}
+              {pendingCount + attentionCount}
             </Badge>
           )}
 
@@ -98,7 +101,7 @@ export function NetworkStatusIndicator() {
           </div>
 
           {/* Pending/Failed Counts */}
-          {(pendingCount > 0 || failedCount > 0) && (
+          {(pendingCount > 0 || attentionCount > 0) && (
             <div className="flex gap-4 text-sm">
               {pendingCount > 0 && (
                 <div className="flex items-center gap-1.5">
@@ -112,6 +115,12 @@ export function NetworkStatusIndicator() {
                   <span>{failedCount} failed</span>
                 </div>
               )}
+              {conflictCount > 0 && (
+                <div className="flex items-center gap-1.5">
+                  <GitCompare className="h-4 w-4 text-amber-600" />
+                  <span>{conflictCount} to review</span>
+                </div>
+              )}
             </div>
           )}
 
@@ -138,6 +147,7 @@ export function NetworkStatusIndicator() {
                     <Badge
                       variant={
                         sub.status === 'failed' ? 'destructive' :
+                        sub.status === 'conflict' ? 'outline' :
                         sub.status === 'syncing' ? 'default' : 'secondary'
                       }
                       className="text-[10px] h-5"
@@ -152,6 +162,14 @@ export function NetworkStatusIndicator() {
                   </div>
                 )}
               </div>
+              <Link
+                to="/pending-sync"
+                onClick={() => setOpen(false)}
+                className="mt-2 flex items-center justify-center gap-1 text-xs font-medium text-primary hover:underline"
+              >
+                View all & review
+                <ChevronRight className="h-3 w-3" />
+              </Link>
             </div>
           )}
 
@@ -77,6 +77,10 @@ export function NotificationBell() {
       case "work_order_updates":
         return "/work-orders";
 
+      // Overdue T&A milestone → PO Control Room
+      case "tna_overdue":
+        return "/work-orders";
+
       // Dispatch notifications
       case "dispatch_submitted": {
         const dispatchId = data?.dispatch_request_id as string | undefined;
@@ -230,6 +234,8 @@ export function NotificationBell() {
         return <Scissors className="h-4 w-4 text-primary" />;
       case "work_order_updates":
         return <FileText className="h-4 w-4 text-primary" />;
+      case "tna_overdue":
+        return <Clock className="h-4 w-4 text-destructive" />;
       case "target_achieved":
         return <Target className="h-4 w-4 text-success" />;
       case "po_production_update":
@@ -90,6 +90,13 @@ const ALL_NOTIFICATION_TYPES: NotificationType[] = [
     icon: Target,
     roles: ["worker", "supervisor", "admin", "owner", "superadmin", "storage", "cutting"], // Everyone
   },
+  {
+    type: "tna_overdue",
+    label: "Overdue T&A Milestones",
+    description: "Get notified when a PO milestone you own passes its planned date",
+    icon: Clock,
+    roles: ["supervisor", "admin", "owner", "superadmin"], // Management only
+  },
   {
     type: "daily_summary",
     label: "Daily Summary",
@@ -0,0 +1,120 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BANK_ACCOUNT_CURRENCIES } from "@/lib/bank-reconciliation";
+import type { BankAccount, BankAccountInput } from "@/hooks/useBankLedger";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  account: BankAccount | null;
+  onSubmit: (input: BankAccountInput) => void;
+  onDelete: () => void;
+  isPending: boolean;
+}
+
+const EMPTY: BankAccountInput = {
+  account_label: "",
+  bank_name: "",
+  branch: "",
+  account_name: "",
+  account_number: "",
+  swift_bic: "",
+  currency: "USD",
+  is_default: false,
+};
+
+export function BankAccountDialog({ open, onOpenChange, account, onSubmit, onDelete, isPending }: Props) {
+  const [form, setForm] = useState<BankAccountInput>(EMPTY);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      account
+        ? {
+            id: account.id,
+            account_label: account.account_label,
+            bank_name: account.bank_name,
+            branch: account.branch,
+            account_name: account.account_name,
+            account_number: account.account_number,
+            swift_bic: account.swift_bic,
+            currency: account.currency,
+            is_default: account.is_default,
+          }
+        : EMPTY,
+    );
+  }, [open, account]);
+
+  const set = (patch: Partial<BankAccountInput>) => setForm((f) => ({ ...f, ...patch }));
+  const canSubmit = form.account_label?.trim() && form.bank_name?.trim();
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">{account ? "Edit Bank Account" : "Add Bank Account"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Label</Label>
+              <Input value={form.account_label ?? ""} onChange={(e) => set({ account_label: e.target.value })} placeholder="USD ERQ account" className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Currency</Label>
+              <Select value={form.currency ?? "USD"} onValueChange={(v) => set({ currency: v })}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {BANK_ACCOUNT_CURRENCIES.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Bank</Label>
+              <Input value={form.bank_name ?? ""} onChange={(e) => set({ bank_name: e.target.value })} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Branch</Label>
+              <Input value={form.branch ?? ""} onChange={(e) => set({ branch: e.target.value || null })} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Account Name</Label>
+              <Input value={form.account_name ?? ""} onChange={(e) => set({ account_name: e.target.value || null })} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Account No</Label>
+              <Input value={form.account_number ?? ""} onChange={(e) => set({ account_number: e.target.value || null })} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>SWIFT / BIC</Label>
+              <Input value={form.swift_bic ?? ""} onChange={(e) => set({ swift_bic: e.target.value || null })} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Default</Label>
+              <div className="h-9 flex items-center">
+                <Switch checked={!!form.is_default} onCheckedChange={(v) => set({ is_default: v })} />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          {account && (
+            <Button variant="ghost" onClick={onDelete} className="h-9 sm:mr-auto text-destructive hover:text-destructive">Remove</Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={() => canSubmit && onSubmit(form)} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Saving..." : account ? "Save" : "Add Account"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
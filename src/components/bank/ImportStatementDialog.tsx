@@ -0,0 +1,138 @@
+import { useState, useEffect, useRef } from "react";
+import { format, parseISO } from "date-fns";
+import { Upload, AlertTriangle } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { detectStatementFormat, parseStatement, type ParsedStatement } from "@/lib/bank-reconciliation";
+import { formatMoney } from "@/lib/lc-utils";
+import type { BankAccount } from "@/hooks/useBankLedger";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: BankAccount[];
+  defaultAccountId: string | null;
+  onSubmit: (data: { accountId: string; fileName: string; lines: ParsedStatement["lines"] }) => void;
+  isPending: boolean;
+}
+
+export function ImportStatementDialog({ open, onOpenChange, accounts, defaultAccountId, onSubmit, isPending }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [accountId, setAccountId] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<ParsedStatement | null>(null);
+  const [formatLabel, setFormatLabel] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setAccountId(defaultAccountId ?? accounts[0]?.id ?? "");
+    setFileName("");
+    setParsed(null);
+  }, [open, defaultAccountId, accounts]);
+
+  async function readFile(file: File) {
+    const text = await file.text();
+    setFileName(file.name);
+    setFormatLabel(detectStatementFormat(text, file.name) === "mt940" ? "MT940" : "CSV");
+    setParsed(parseStatement(text, file.name));
+  }
+
+  const account = accounts.find((a) => a.id === accountId);
+  const currency = account?.currency || "USD";
+  const lines = parsed?.lines ?? [];
+  const credits = lines.reduce((s, l) => s + l.credit, 0);
+  const debits = lines.reduce((s, l) => s + l.debit, 0);
+  const first = lines.reduce<string | null>((d, l) => (!d || l.transaction_date < d ? l.transaction_date : d), null);
+  const last = lines.reduce<string | null>((d, l) => (!d || l.transaction_date > d ? l.transaction_date : d), null);
+  const canSubmit = accountId && lines.length > 0;
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">Import Bank Statement</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Account</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger className="h-9"><SelectValue placeholder="Select account" /></SelectTrigger>
+              <SelectContent>
+                {accounts.map((a) => (
+                  <SelectItem key={a.id} value={a.id}>{a.account_label} · {a.currency || "USD"}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Statement File</Label>
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              className="w-full rounded-lg border border-dashed p-4 text-center hover:bg-muted/40 transition-colors"
+            >
+              <Upload className="h-5 w-5 mx-auto text-muted-foreground mb-1.5" />
+              <div className="text-sm font-medium">{fileName || "Choose CSV or MT940 file"}</div>
+              {fileName && <div className="text-xs text-muted-foreground">{formatLabel}</div>}
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".csv,.txt,.sta,.940,.mt940"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) readFile(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          {parsed && (
+            <div className="rounded-lg border bg-muted/20 p-3 space-y-1.5 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Lines</span>
+                <span className="font-medium tabular-nums">{lines.length}</span>
+              </div>
+              {first && last && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Period</span>
+                  <span className="tabular-nums">{format(parseISO(first), "d MMM yyyy")} – {format(parseISO(last), "d MMM yyyy")}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Credits</span>
+                <span className="tabular-nums text-emerald-600 dark:text-emerald-400">{formatMoney(credits, currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Debits</span>
+                <span className="tabular-nums">{formatMoney(debits, currency)}</span>
+              </div>
+              {parsed.errors.length > 0 && (
+                <div className="pt-1.5 border-t text-xs text-amber-700 dark:text-amber-400 space-y-0.5">
+                  <div className="flex items-center gap-1.5 font-medium">
+                    <AlertTriangle className="h-3.5 w-3.5" />
+                    {parsed.errors.length} line{parsed.errors.length === 1 ? "" : "s"} skipped
+                  </div>
+                  {parsed.errors.slice(0, 3).map((e) => <div key={e}>{e}</div>)}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={() => canSubmit && onSubmit({ accountId, fileName, lines })} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Importing..." : `Import ${lines.length || ""} Lines`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
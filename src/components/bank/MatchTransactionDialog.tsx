@@ -0,0 +1,125 @@
+import { useState, useEffect, useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { Search } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { rankCandidates, type MatchCandidate, type LedgerLine } from "@/lib/bank-reconciliation";
+import { formatMoney } from "@/lib/lc-utils";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  line: LedgerLine | null;
+  candidates: MatchCandidate[];
+  onSubmit: (candidate: MatchCandidate) => void;
+  isPending: boolean;
+}
+
+const CONFIDENCE_STYLES: Record<string, string> = {
+  high: "text-emerald-600 dark:text-emerald-400",
+  medium: "text-blue-600 dark:text-blue-400",
+  low: "text-amber-600 dark:text-amber-400",
+};
+
+/**
+ * Manual matching. Candidates the matcher rates are listed first; searching
+ * also lists same-direction items whose amount differs (e.g. short receipts).
+ */
+export function MatchTransactionDialog({ open, onOpenChange, line, candidates, onSubmit, isPending }: Props) {
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<MatchCandidate | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setSearch("");
+    setSelected(null);
+  }, [open]);
+
+  const rows = useMemo(() => {
+    if (!line) return [];
+    const ranked = rankCandidates(line, candidates);
+    const q = search.trim().toLowerCase();
+    if (!q) return ranked;
+    const direction = (line.credit || 0) > 0 ? "in" : "out";
+    const rankedKeys = new Set(ranked.map((r) => `${r.candidate.kind}:${r.candidate.id}`));
+    const others = candidates
+      .filter((c) => c.direction === direction && !rankedKeys.has(`${c.kind}:${c.id}`))
+      .map((candidate) => ({ candidate, confidence: null }));
+    return [...ranked, ...others].filter(
+      ({ candidate: c }) => c.label.toLowerCase().includes(q) || (c.reference ?? "").toLowerCase().includes(q) || String(c.amount).includes(q),
+    );
+  }, [line, candidates, search]);
+
+  if (!line) return null;
+  const amount = (line.credit || 0) > 0 ? line.credit || 0 : line.debit || 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">Match Transaction</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          <div className="rounded-lg border bg-muted/20 p-3 text-sm flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="font-medium truncate">{line.description || line.reference || "—"}</div>
+              <div className="text-xs text-muted-foreground">
+                {format(parseISO(line.transaction_date), "d MMM yyyy")}
+                {line.reference ? ` · ${line.reference}` : ""}
+              </div>
+            </div>
+            <div className={`font-semibold tabular-nums shrink-0 ${(line.credit || 0) > 0 ? "text-emerald-600 dark:text-emerald-400" : ""}`}>
+              {(line.credit || 0) > 0 ? "+" : "−"}{formatMoney(amount, line.currency || "USD")}
+            </div>
+          </div>
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input placeholder="Search payments and LC charges…" value={search} onChange={(e) => setSearch(e.target.value)} className="pl-9 h-9" />
+          </div>
+
+          <div className="max-h-[300px] overflow-y-auto divide-y rounded-lg border">
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground p-4 text-center">
+                No payment or LC charge with this amount. Search to pick one with a different amount.
+              </p>
+            ) : (
+              rows.map(({ candidate: c, confidence }) => {
+                const isSelected = selected?.kind === c.kind && selected.id === c.id;
+                return (
+                  <button
+                    key={`${c.kind}:${c.id}`}
+                    type="button"
+                    onClick={() => setSelected(c)}
+                    className={`w-full flex items-center justify-between gap-3 px-3 py-2.5 text-left text-sm transition-colors ${isSelected ? "bg-primary/10" : "hover:bg-muted/40"}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{c.label}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {c.kind === "payment" ? "Payment" : "LC charge"} · {format(parseISO(c.date), "d MMM yyyy")}
+                        {c.reference ? ` · ${c.reference}` : ""}
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <div className="tabular-nums">{formatMoney(c.amount, c.currency || "USD")}</div>
+                      {confidence && <div className={`text-[11px] font-medium capitalize ${CONFIDENCE_STYLES[confidence]}`}>{confidence}</div>}
+                    </div>
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={() => selected && onSubmit(selected)} disabled={!selected || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Matching..." : "Match"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,7 @@ import { LiveDot } from "@/components/ui/live-dot";
 import { ChevronDown, ChevronRight, ChevronUp, Scissors, TrendingUp, PackageCheck, Warehouse } from "lucide-react";
 import { computeHealth, healthColors, type HealthStatus, POAggregates } from "@/lib/buyer-health";
 import { formatTimeInTimezone } from "@/lib/date-utils";
+import type { WorkingCalendar } from "@/lib/working-days";
 import { BuyerWorkOrder } from "@/hooks/useBuyerPOAccess";
 
 interface DeptEntry {
@@ -21,6 +22,7 @@ interface TodayPOCardProps {
   timeline: DeptEntry[];
   timezone: string;
   lastSubmittedAt?: string | null;
+  calendar?: WorkingCalendar;
 }
 
 const healthAccent: Record<HealthStatus, string> = {
@@ -52,10 +54,10 @@ const DEPT_DOT_COLOR: Record<string, string> = {
   storage: "bg-orange-500",
 };
 
-export function TodayPOCard({ wo, aggregates, timeline, timezone, lastSubmittedAt }: TodayPOCardProps) {
+export function TodayPOCard({ wo, aggregates, timeline, timezone, lastSubmittedAt, calendar }: TodayPOCardProps) {
   const navigate = useNavigate();
   const [expanded, setExpanded] = useState(false);
-  const health = computeHealth(wo, aggregates);
+  const health = computeHealth(wo, aggregates, calendar);
   const accent = healthAccent[health.status] || healthAccent.no_deadline;
 
   const hasStorageEntries = timeline.some(e => e.department === "storage");
@@ -0,0 +1,66 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ContractChangeList } from "@/components/contracts/ContractChangeList";
+import type { ContractChanges } from "@/lib/sales-contract";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  amendmentNumber: number;
+  changes: ContractChanges;
+  onSubmit: (data: { date: string; description: string }) => void;
+  isPending: boolean;
+}
+
+export function ContractAmendmentDialog({ open, onOpenChange, amendmentNumber, changes, onSubmit, isPending }: Props) {
+  const [date, setDate] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setDate(format(new Date(), "yyyy-MM-dd"));
+    setDescription("");
+  }, [open]);
+
+  const canSubmit = date && description.trim();
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[540px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">Amendment #{amendmentNumber}</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Amendment Date</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="h-9 w-[180px]" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Reason</Label>
+            <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2} placeholder="e.g. Buyer added PO-1234, quantity revised" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Changes</Label>
+            <div className="rounded-lg border bg-muted/20 p-3 max-h-[240px] overflow-y-auto">
+              <ContractChangeList changes={changes} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={() => canSubmit && onSubmit({ date, description: description.trim() })} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Saving..." : "Record Amendment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
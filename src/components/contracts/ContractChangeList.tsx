@@ -0,0 +1,42 @@
+import { fieldLabel, type ContractChanges, type FieldChange } from "@/lib/sales-contract";
+
+function show(v: FieldChange["from"]) {
+  if (v == null || v === "") return "—";
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  return String(v);
+}
+
+function ChangeLine({ change }: { change: FieldChange }) {
+  return (
+    <li>
+      <span className="text-muted-foreground">{fieldLabel(change.field)}:</span>{" "}
+      <span className="line-through text-muted-foreground">{show(change.from)}</span> → <span className="font-medium">{show(change.to)}</span>
+    </li>
+  );
+}
+
+export function ContractChangeList({ changes }: { changes: ContractChanges }) {
+  const empty =
+    changes.fields.length + changes.itemsAdded.length + changes.itemsRemoved.length + changes.itemsChanged.length === 0;
+  if (empty) return <p className="text-sm text-muted-foreground">No tracked changes.</p>;
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {changes.fields.map((c) => <ChangeLine key={c.field} change={c} />)}
+      {changes.itemsAdded.map((label) => (
+        <li key={`add-${label}`}><span className="text-emerald-600 dark:text-emerald-400 font-medium">Added</span> {label}</li>
+      ))}
+      {changes.itemsRemoved.map((label) => (
+        <li key={`rm-${label}`}><span className="text-destructive font-medium">Removed</span> {label}</li>
+      ))}
+      {changes.itemsChanged.map((ic) => (
+        <li key={`chg-${ic.item}`}>
+          <span className="font-medium">{ic.item}</span>
+          <ul className="pl-4 space-y-0.5">
+            {ic.changes.map((c) => <ChangeLine key={c.field} change={c} />)}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,92 @@
+import { useRef, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { FileText, Upload, ExternalLink, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { getContractDocumentUrl, type SalesContractDocument } from "@/hooks/useSalesContracts";
+import { toast } from "sonner";
+
+interface Props {
+  documents: SalesContractDocument[];
+  onUpload: (file: File) => void;
+  onDelete: (doc: SalesContractDocument) => void;
+  isUploading: boolean;
+}
+
+export function ContractDocuments({ documents, onUpload, onDelete, isUploading }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [deleteTarget, setDeleteTarget] = useState<SalesContractDocument | null>(null);
+
+  async function open(doc: SalesContractDocument) {
+    try {
+      window.open(await getContractDocumentUrl(doc), "_blank", "noopener");
+    } catch (err) {
+      toast.error(`Failed to open document: ${err instanceof Error ? err.message : "unknown error"}`);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-base">Signed Documents</CardTitle>
+        <Button size="sm" variant="outline" className="h-8 gap-1.5" disabled={isUploading} onClick={() => inputRef.current?.click()}>
+          <Upload className="h-3.5 w-3.5" />
+          {isUploading ? "Uploading..." : "Upload"}
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".pdf,image/*,.doc,.docx"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onUpload(file);
+            e.target.value = "";
+          }}
+        />
+      </CardHeader>
+      <CardContent>
+        {documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No documents yet. Upload the signed contract and any buyer correspondence.</p>
+        ) : (
+          <div className="divide-y">
+            {documents.map((doc) => (
+              <div key={doc.id} className="flex items-center gap-3 py-2.5 group">
+                <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-medium truncate">{doc.file_name}</div>
+                  {doc.created_at && <div className="text-xs text-muted-foreground">Uploaded {format(parseISO(doc.created_at), "d MMM yyyy")}</div>}
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => open(doc)}>
+                  <ExternalLink className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                  onClick={() => setDeleteTarget(doc)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(o) => !o && setDeleteTarget(null)}
+        title="Remove document?"
+        description={`"${deleteTarget?.file_name ?? ""}" will be deleted from storage.`}
+        confirmLabel="Remove"
+        variant="destructive"
+        onConfirm={() => {
+          if (deleteTarget) onDelete(deleteTarget);
+          setDeleteTarget(null);
+        }}
+      />
+    </Card>
+  );
+}
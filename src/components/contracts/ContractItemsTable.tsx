@@ -0,0 +1,168 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ContractItemDraft, ContractWorkOrderOption } from "@/hooks/useSalesContracts";
+import { itemValue, type ContractPosition } from "@/lib/sales-contract";
+import { formatMoney } from "@/lib/lc-utils";
+
+const NONE = "__none";
+
+interface Props {
+  items: ContractItemDraft[];
+  onChange: (items: ContractItemDraft[]) => void;
+  workOrders: ContractWorkOrderOption[];
+  /** Saved position, matched to rows by item id. */
+  position: ContractPosition | null;
+  currency: string;
+  readOnly: boolean;
+}
+
+export function ContractItemsTable({ items, onChange, workOrders, position, currency, readOnly }: Props) {
+  const byItem = new Map(position?.items.map((p) => [p.itemId, p]) ?? []);
+  const totalQty = items.reduce((s, i) => s + (i.quantity || 0), 0);
+  const totalValue = items.reduce((s, i) => s + itemValue({ quantity: i.quantity, unit_price: i.unit_price, subtotal_value: i.subtotal_value ?? null }), 0);
+
+  function update(index: number, patch: Partial<ContractItemDraft>) {
+    onChange(items.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  }
+
+  function linkWorkOrder(index: number, woId: string) {
+    if (woId === NONE) {
+      update(index, { work_order_id: null });
+      return;
+    }
+    const wo = workOrders.find((w) => w.id === woId);
+    if (!wo) return;
+    const row = items[index];
+    update(index, {
+      work_order_id: wo.id,
+      po_number: wo.po_number,
+      style_ref: row.style_ref || wo.style_number || wo.style,
+      style_description: row.style_description || wo.style,
+      color: row.color || wo.color,
+      hs_code: row.hs_code || wo.hs_code,
+      quantity: row.quantity || wo.order_qty,
+      unit_price: row.unit_price || wo.selling_price || 0,
+      ex_factory_date: row.ex_factory_date || wo.planned_ex_factory,
+    });
+  }
+
+  const newRow = (): ContractItemDraft => ({ style_ref: "", quantity: 0, unit_price: 0, subtotal_value: null });
+  const num = (v: string) => (v === "" ? 0 : parseFloat(v));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-base">Items</CardTitle>
+        {!readOnly && (
+          <Button size="sm" variant="outline" className="h-8 gap-1.5" onClick={() => onChange([...items, newRow()])}>
+            <Plus className="h-3.5 w-3.5" />
+            Add
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No items. Add the styles and POs covered by this contract.</p>
+        ) : (
+          <div className="rounded-lg border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-[11px] uppercase tracking-wide min-w-[180px]">PO</TableHead>
+                  <TableHead className="text-[11px] uppercase tracking-wide min-w-[120px]">Style</TableHead>
+                  <TableHead className="text-[11px] uppercase tracking-wide min-w-[90px]">Colour</TableHead>
+                  <TableHead className="text-[11px] uppercase tracking-wide w-[130px]">Ship Date</TableHead>
+                  <TableHead className="text-[11px] uppercase tracking-wide text-right w-[100px]">Qty</TableHead>
+                  <TableHead className="text-[11px] uppercase tracking-wide text-right w-[100px]">Price</TableHead>
+                  <TableHead className="text-[11px] uppercase tracking-wide text-right w-[110px]">Value</TableHead>
+                  <TableHead className="text-[11px] uppercase tracking-wide text-right w-[90px]">Shipped</TableHead>
+                  <TableHead className="text-[11px] uppercase tracking-wide text-right w-[90px]">Open</TableHead>
+                  {!readOnly && <TableHead className="w-[44px]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((row, i) => {
+                  const pos = row.id ? byItem.get(row.id) : undefined;
+                  return (
+                    <TableRow key={row.id ?? `new-${i}`}>
+                      <TableCell className="py-1.5">
+                        {readOnly ? (
+                          row.po_number || "—"
+                        ) : (
+                          <Select value={row.work_order_id ?? NONE} onValueChange={(v) => linkWorkOrder(i, v)}>
+                            <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NONE}>{row.po_number ? `${row.po_number} (not linked)` : "Not linked"}</SelectItem>
+                              {workOrders.map((w) => (
+                                <SelectItem key={w.id} value={w.id}>{w.po_number} – {w.style}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                      <TableCell className="py-1.5">
+                        {readOnly ? row.style_ref : <Input value={row.style_ref} onChange={(e) => update(i, { style_ref: e.target.value })} className="h-8" />}
+                      </TableCell>
+                      <TableCell className="py-1.5">
+                        {readOnly ? row.color || "—" : <Input value={row.color ?? ""} onChange={(e) => update(i, { color: e.target.value || null })} className="h-8" />}
+                      </TableCell>
+                      <TableCell className="py-1.5">
+                        {readOnly ? row.ship_date || "—" : <Input type="date" value={row.ship_date ?? ""} onChange={(e) => update(i, { ship_date: e.target.value || null })} className="h-8" />}
+                      </TableCell>
+                      <TableCell className="py-1.5 text-right tabular-nums">
+                        {readOnly ? row.quantity.toLocaleString() : (
+                          <Input type="number" value={String(row.quantity ?? "")} onChange={(e) => update(i, { quantity: num(e.target.value), subtotal_value: null })} className="h-8 text-right tabular-nums" />
+                        )}
+                      </TableCell>
+                      <TableCell className="py-1.5 text-right tabular-nums">
+                        {readOnly ? row.unit_price.toFixed(3) : (
+                          <Input type="number" value={String(row.unit_price ?? "")} onChange={(e) => update(i, { unit_price: num(e.target.value), subtotal_value: null })} className="h-8 text-right tabular-nums" />
+                        )}
+                      </TableCell>
+                      <TableCell className="py-1.5 text-right tabular-nums font-medium">
+                        {itemValue({ quantity: row.quantity, unit_price: row.unit_price, subtotal_value: row.subtotal_value ?? null }).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </TableCell>
+                      <TableCell className="py-1.5 text-right tabular-nums text-muted-foreground">
+                        {pos ? pos.shippedQty.toLocaleString() : "—"}
+                      </TableCell>
+                      <TableCell className="py-1.5 text-right tabular-nums">
+                        {pos ? pos.openQty.toLocaleString() : "—"}
+                      </TableCell>
+                      {!readOnly && (
+                        <TableCell className="py-1.5">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                            onClick={() => onChange(items.filter((_, j) => j !== i))}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={4} className="font-semibold">Total</TableCell>
+                  <TableCell className="text-right tabular-nums font-semibold">{totalQty.toLocaleString()}</TableCell>
+                  <TableCell />
+                  <TableCell className="text-right tabular-nums font-semibold">{formatMoney(totalValue, currency)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{position ? position.shippedQty.toLocaleString() : "—"}</TableCell>
+                  <TableCell className="text-right tabular-nums">{position ? position.openQty.toLocaleString() : "—"}</TableCell>
+                  {!readOnly && <TableCell />}
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
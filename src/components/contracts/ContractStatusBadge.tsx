@@ -0,0 +1,12 @@
+import { Badge } from "@/components/ui/badge";
+import { CONTRACT_STATUS_COLORS, CONTRACT_STATUS_LABELS, type ContractStatus } from "@/lib/sales-contract";
+import { cn } from "@/lib/utils";
+
+export function ContractStatusBadge({ status }: { status: string | null }) {
+  const s = (status as ContractStatus) || "draft";
+  return (
+    <Badge variant="outline" className={cn("text-[10px] font-semibold", CONTRACT_STATUS_COLORS[s] ?? CONTRACT_STATUS_COLORS.draft)}>
+      {CONTRACT_STATUS_LABELS[s] ?? status}
+    </Badge>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ContractHeader } from "@/hooks/useSalesContracts";
+import { INVOICE_CURRENCIES } from "@/lib/invoice-utils";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (header: ContractHeader) => void;
+  isPending: boolean;
+}
+
+export function NewContractDialog({ open, onOpenChange, onSubmit, isPending }: Props) {
+  const [contractNumber, setContractNumber] = useState("");
+  const [buyerName, setBuyerName] = useState("");
+  const [contractDate, setContractDate] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [season, setSeason] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setContractNumber("");
+    setBuyerName("");
+    setContractDate(format(new Date(), "yyyy-MM-dd"));
+    setExpiryDate("");
+    setCurrency("USD");
+    setSeason("");
+  }, [open]);
+
+  const canSubmit = contractNumber.trim() && buyerName.trim() && contractDate;
+
+  function handleSubmit() {
+    if (!canSubmit) return;
+    onSubmit({
+      contract_number: contractNumber.trim(),
+      buyer_name: buyerName.trim(),
+      contract_date: contractDate,
+      expiry_date: expiryDate || null,
+      currency,
+      season: season.trim() || null,
+    });
+  }
+
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">New Sales Contract</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Contract No</Label>
+              <Input value={contractNumber} onChange={(e) => setContractNumber(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Buyer</Label>
+              <Input value={buyerName} onChange={(e) => setBuyerName(e.target.value)} className="h-9" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Contract Date</Label>
+              <Input type="date" value={contractDate} onChange={(e) => setContractDate(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Expiry</Label>
+              <Input type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} className="h-9" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {INVOICE_CURRENCIES.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Season</Label>
+              <Input value={season} onChange={(e) => setSeason(e.target.value)} placeholder="e.g. SS27" className="h-9" />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Creating..." : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
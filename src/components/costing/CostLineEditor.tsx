@@ -0,0 +1,151 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatMoney } from "@/lib/lc-utils";
+
+export interface CostColumn<T> {
+  key: keyof T & string;
+  label: string;
+  type: "text" | "number" | "select" | "checkbox";
+  options?: string[];
+  placeholder?: string;
+  className?: string;
+}
+
+interface Props<T> {
+  title: string;
+  rows: T[];
+  columns: CostColumn<T>[];
+  onChange: (rows: T[]) => void;
+  newRow: () => T;
+  /** Cost per dozen in sheet currency for one row. */
+  rowTotal: (row: T) => number;
+  currency: string;
+  readOnly?: boolean;
+  emptyText: string;
+  /** Header for the computed column; defaults to cost per dozen. */
+  totalLabel?: string;
+  totalSuffix?: string;
+}
+
+export function CostLineEditor<T extends object>({
+  title,
+  rows,
+  columns,
+  onChange,
+  newRow,
+  rowTotal,
+  currency,
+  readOnly,
+  emptyText,
+  totalLabel = "Cost /dz",
+  totalSuffix = " /dz",
+}: Props<T>) {
+  const total = rows.reduce((s, r) => s + rowTotal(r), 0);
+
+  function update(index: number, key: keyof T, value: unknown) {
+    onChange(rows.map((r, i) => (i === index ? { ...r, [key]: value } : r)));
+  }
+
+  function renderCell(row: T, index: number, col: CostColumn<T>) {
+    const value = row[col.key] as unknown;
+    if (readOnly) {
+      if (col.type === "checkbox") return value ? "Yes" : "—";
+      return value == null || value === "" ? "—" : String(value);
+    }
+    switch (col.type) {
+      case "number":
+        return (
+          <Input
+            type="number"
+            value={value == null ? "" : String(value)}
+            onChange={(e) => update(index, col.key, e.target.value === "" ? null : parseFloat(e.target.value))}
+            placeholder={col.placeholder}
+            className="h-8 text-right tabular-nums"
+          />
+        );
+      case "select":
+        return (
+          <Select value={(value as string) || ""} onValueChange={(v) => update(index, col.key, v)}>
+            <SelectTrigger className="h-8"><SelectValue placeholder={col.placeholder} /></SelectTrigger>
+            <SelectContent>
+              {col.options?.map((o) => <SelectItem key={o} value={o}>{o}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        );
+      case "checkbox":
+        return <Checkbox checked={!!value} onCheckedChange={(v) => update(index, col.key, v === true)} />;
+      default:
+        return (
+          <Input
+            value={(value as string) ?? ""}
+            onChange={(e) => update(index, col.key, e.target.value)}
+            placeholder={col.placeholder}
+            className="h-8"
+          />
+        );
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <div className="flex items-center gap-3">
+          <span className="text-sm font-semibold tabular-nums">{formatMoney(total, currency)}{totalSuffix && <span className="text-xs font-normal text-muted-foreground">{totalSuffix}</span>}</span>
+          {!readOnly && (
+            <Button size="sm" variant="outline" className="h-8 gap-1.5" onClick={() => onChange([...rows, newRow()])}>
+              <Plus className="h-3.5 w-3.5" />
+              Add
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">{emptyText}</p>
+        ) : (
+          <div className="rounded-lg border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {columns.map((c) => (
+                    <TableHead key={c.key} className={`text-[11px] uppercase tracking-wide ${c.className ?? ""}`}>{c.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right text-[11px] uppercase tracking-wide w-[110px]">{totalLabel}</TableHead>
+                  {!readOnly && <TableHead className="w-[44px]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, i) => (
+                  <TableRow key={i}>
+                    {columns.map((c) => (
+                      <TableCell key={c.key} className={`py-1.5 ${c.className ?? ""}`}>{renderCell(row, i, c)}</TableCell>
+                    ))}
+                    <TableCell className="text-right tabular-nums font-medium py-1.5">{rowTotal(row).toFixed(2)}</TableCell>
+                    {!readOnly && (
+                      <TableCell className="py-1.5">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                          onClick={() => onChange(rows.filter((_, j) => j !== i))}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,12 @@
+import { Badge } from "@/components/ui/badge";
+import { COST_SHEET_STATUS_COLORS, COST_SHEET_STATUS_LABELS, type CostSheetStatus } from "@/lib/cost-sheet";
+import { cn } from "@/lib/utils";
+
+export function CostSheetStatusBadge({ status }: { status: string | null }) {
+  const s = (status as CostSheetStatus) || "draft";
+  return (
+    <Badge variant="outline" className={cn("text-[10px] font-semibold", COST_SHEET_STATUS_COLORS[s] ?? COST_SHEET_STATUS_COLORS.draft)}>
+      {COST_SHEET_STATUS_LABELS[s] ?? status}
+    </Badge>
+  );
+}
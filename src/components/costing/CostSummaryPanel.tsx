@@ -0,0 +1,89 @@
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { formatMoney } from "@/lib/lc-utils";
+import type { CostBreakdown, PricingAnalysis } from "@/lib/cost-sheet";
+import { cn } from "@/lib/utils";
+
+interface Props {
+  breakdown: CostBreakdown;
+  pricing: PricingAnalysis;
+  currency: string;
+  desiredMarginPct: number | null;
+}
+
+function Row({ label, value, bold, muted }: { label: string; value: string; bold?: boolean; muted?: boolean }) {
+  return (
+    <div className={cn("flex justify-between text-sm", bold && "font-semibold", muted && "text-muted-foreground")}>
+      <span>{label}</span>
+      <span className="tabular-nums">{value}</span>
+    </div>
+  );
+}
+
+export function CostSummaryPanel({ breakdown: b, pricing: p, currency, desiredMarginPct }: Props) {
+  const money = (v: number) => formatMoney(v, currency);
+  const share = (v: number) => (b.totalPerDozen > 0 ? `${Math.round((v / b.totalPerDozen) * 100)}%` : "—");
+  const sections: [string, number][] = [
+    ["Fabric", b.fabric],
+    ["Trims", b.trims],
+    ["Wash / Print", b.processes],
+    ["CM", b.cm],
+    ["Commercial", b.commercial],
+  ];
+
+  return (
+    <Card className="lg:sticky lg:top-4">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Cost Summary</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {sections.map(([label, v]) => (
+            <div key={label} className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{label}</span>
+              <span className="tabular-nums">
+                {money(v)} <span className="text-[11px] text-muted-foreground w-9 inline-block text-right">{share(v)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+        <Separator />
+        <div className="space-y-1.5">
+          <Row label="Total cost / dozen" value={money(b.totalPerDozen)} bold />
+          <Row label="Total cost / piece" value={`${currency} ${b.totalPerPiece.toFixed(3)}`} bold />
+        </div>
+        <Separator />
+        <div className="space-y-1.5">
+          <Row
+            label={`Suggested price${desiredMarginPct != null ? ` @ ${desiredMarginPct}%` : ""}`}
+            value={p.suggestedPrice != null ? money(p.suggestedPrice) : "—"}
+          />
+          <Row label="Quoted price / pc" value={p.quotedPerPiece != null ? money(p.quotedPerPiece) : "—"} />
+          <Row label="Margin at quote" value={p.quotedMarginPct != null ? `${p.quotedMarginPct}%` : "—"} bold />
+          <Row label="Buyer target / pc" value={p.targetPerPiece != null ? money(p.targetPerPiece) : "—"} muted />
+          <Row label="Margin at target" value={p.targetMarginPct != null ? `${p.targetMarginPct}%` : "—"} muted />
+          {p.gapToTarget != null && (
+            <Row
+              label="Quote vs target"
+              value={`${p.gapToTarget > 0 ? "+" : p.gapToTarget < 0 ? "−" : ""}${money(Math.abs(p.gapToTarget))}`}
+              muted
+            />
+          )}
+        </div>
+        {p.belowDesiredMargin && (
+          <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30 px-3 py-2 text-xs text-amber-800 dark:text-amber-300">
+            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            Quoted price is below the desired {desiredMarginPct}% margin.
+          </div>
+        )}
+        {p.targetMarginPct != null && p.targetMarginPct < 0 && (
+          <div className="flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/30 px-3 py-2 text-xs text-red-700 dark:text-red-400">
+            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+            Buyer's target price is below cost.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
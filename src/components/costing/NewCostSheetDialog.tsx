@@ -0,0 +1,131 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CostSheet, CostSheetHeader } from "@/hooks/useCostSheets";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: CostSheet[];
+  workOrders: { id: string; po_number: string; buyer: string; style: string; order_qty: number }[];
+  onSubmit: (data: { header: CostSheetHeader; templateId: string | null }) => void;
+  isPending: boolean;
+}
+
+const NONE = "__none";
+
+export function NewCostSheetDialog({ open, onOpenChange, templates, workOrders, onSubmit, isPending }: Props) {
+  const [workOrderId, setWorkOrderId] = useState(NONE);
+  const [templateId, setTemplateId] = useState(NONE);
+  const [styleRef, setStyleRef] = useState("");
+  const [buyerName, setBuyerName] = useState("");
+  const [season, setSeason] = useState("");
+  const [targetQty, setTargetQty] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setWorkOrderId(NONE);
+    setTemplateId(NONE);
+    setStyleRef("");
+    setBuyerName("");
+    setSeason("");
+    setTargetQty("");
+  }, [open]);
+
+  function handleWorkOrder(id: string) {
+    setWorkOrderId(id);
+    const wo = workOrders.find((w) => w.id === id);
+    if (!wo) return;
+    setStyleRef(wo.style);
+    setBuyerName(wo.buyer);
+    setTargetQty(String(wo.order_qty));
+  }
+
+  const canSubmit = styleRef.trim() && buyerName.trim();
+
+  function handleSubmit() {
+    if (!canSubmit) return;
+    onSubmit({
+      header: {
+        style_ref: styleRef.trim(),
+        buyer_name: buyerName.trim(),
+        season: season.trim() || null,
+        target_quantity: targetQty ? parseInt(targetQty) : null,
+        work_order_id: workOrderId === NONE ? null : workOrderId,
+      },
+      templateId: templateId === NONE ? null : templateId,
+    });
+  }
+
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">New Cost Sheet</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          <div className="space-y-1.5">
+            <Label className={labelCls}>PO (optional)</Label>
+            <Select value={workOrderId} onValueChange={handleWorkOrder}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Not linked yet</SelectItem>
+                {workOrders.map((w) => (
+                  <SelectItem key={w.id} value={w.id}>{w.po_number} – {w.buyer} · {w.style}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Style Ref</Label>
+              <Input value={styleRef} onChange={(e) => setStyleRef(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Buyer</Label>
+              <Input value={buyerName} onChange={(e) => setBuyerName(e.target.value)} className="h-9" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Season</Label>
+              <Input value={season} onChange={(e) => setSeason(e.target.value)} placeholder="e.g. SS27" className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Quantity</Label>
+              <Input type="number" value={targetQty} onChange={(e) => setTargetQty(e.target.value)} className="h-9" />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Start From</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Blank sheet</SelectItem>
+                {templates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>{t.template_name || t.style_ref}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Creating..." : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { format, parseISO } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { DEFAULT_PIECES_PER_BUNDLE, planBundles, type BundleDraft, type CutBundle } from "@/lib/bundles";
+import { breakdownTotal, compactBreakdown, emptyBreakdown, sortSizes, type ColourBreakdown } from "@/lib/size-matrix";
+import type { CuttingOutput } from "@/hooks/useBundles";
+import type { POSizeMatrix } from "@/hooks/useSizeMatrix";
+import { SizeMatrixEditor } from "@/components/size-matrix/SizeMatrixEditor";
+
+interface BundleGenerateDialogProps {
+  output: CuttingOutput | null;
+  poNumber: string;
+  poMatrix: POSizeMatrix | null;
+  /** The PO's existing bundles, to continue numbering and ply ranges */
+  existing: CutBundle[];
+  isPending: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (bundles: BundleDraft[]) => void;
+}
+
+function Generator({ output, poNumber, poMatrix, existing, isPending, onOpenChange, onCreate }: BundleGenerateDialogProps & { output: CuttingOutput }) {
+  const { t } = useTranslation();
+  const alreadyBundled = existing.filter((b) => b.cutting_actual_id === output.id).reduce((s, b) => s + b.quantity, 0);
+  const remaining = Math.max(0, output.day_cutting - alreadyBundled);
+
+  // Outputs entered by size and colour are bundled as recorded; the rest are split here
+  const [sizes, setSizes] = useState<string[]>(
+    output.breakdown
+      ? sortSizes(output.breakdown.flatMap((b) => Object.keys(b.quantities)))
+      : poMatrix?.sizes.length ? poMatrix.sizes : ["S", "M", "L", "XL"]
+  );
+  const [rows, setRows] = useState<ColourBreakdown[]>(
+    output.breakdown && alreadyBundled === 0
+      ? output.breakdown
+      : poMatrix?.breakdown
+        ? emptyBreakdown(poMatrix.breakdown)
+        : [{ colour: output.colour || "", quantities: {} }]
+  );
+  const [perBundle, setPerBundle] = useState(String(DEFAULT_PIECES_PER_BUNDLE));
+  const [shade, setShade] = useState("");
+
+  const nextNo = existing.reduce((n, b) => Math.max(n, b.bundle_no), 0) + 1;
+  const cut = compactBreakdown(rows) ?? [];
+  const total = breakdownTotal(cut);
+  const drafts = planBundles(cut, sizes, { pieces_per_bundle: parseInt(perBundle) || 0, shade }, poNumber, nextNo, existing);
+  const over = total > remaining;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{t("bundles.generateTitle")}</DialogTitle>
+        <DialogDescription>
+          {t("bundles.generateDescription", {
+            date: format(parseISO(output.production_date), "dd MMM yyyy"),
+            remaining: remaining.toLocaleString(),
+          })}
+        </DialogDescription>
+      </DialogHeader>
+
+      <SizeMatrixEditor sizes={sizes} rows={rows} onSizesChange={setSizes} onRowsChange={setRows} />
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">{t("bundles.piecesPerBundle")}</Label>
+          <Input type="number" min={1} value={perBundle} onChange={(e) => setPerBundle(e.target.value)} className="h-9" />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">{t("bundles.shade")}</Label>
+          <Input value={shade} onChange={(e) => setShade(e.target.value)} placeholder="A" className="h-9" />
+        </div>
+      </div>
+
+      <p className={cn("text-sm text-right", over ? "text-destructive" : "text-muted-foreground")}>
+        {over
+          ? t("bundles.overRemaining", { total: total.toLocaleString(), remaining: remaining.toLocaleString() })
+          : t("bundles.preview", { count: drafts.length, total: total.toLocaleString() })}
+      </p>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)}>{t("common.cancel")}</Button>
+        <Button disabled={drafts.length === 0 || over || isPending} onClick={() => onCreate(drafts)}>
+          {isPending && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+          {t("bundles.create")}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+/** Split one cutting submission into numbered bundles. */
+export function BundleGenerateDialog(props: BundleGenerateDialogProps) {
+  return (
+    <Dialog open={!!props.output} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {props.output && <Generator key={props.output.id} {...props} output={props.output} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
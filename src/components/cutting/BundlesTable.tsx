@@ -0,0 +1,85 @@
+import { useTranslation } from "react-i18next";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type { BundleStatus, CutBundle } from "@/lib/bundles";
+
+const STATUS_KEYS: Record<BundleStatus, string> = {
+  cut: "bundles.statusCut",
+  issued: "bundles.statusIssued",
+  completed: "bundles.statusCompleted",
+};
+
+const STATUS_CLASS: Record<BundleStatus, string> = {
+  cut: "bg-muted text-muted-foreground",
+  issued: "bg-blue-500/10 text-blue-700 dark:text-blue-400",
+  completed: "bg-green-500/10 text-green-700 dark:text-green-400",
+};
+
+interface BundlesTableProps {
+  bundles: CutBundle[];
+  lineNames: Map<string, string>;
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+}
+
+export function BundlesTable({ bundles, lineNames, selected, onSelectedChange }: BundlesTableProps) {
+  const { t } = useTranslation();
+  const allSelected = bundles.length > 0 && bundles.every((b) => selected.has(b.id));
+
+  const toggle = (id: string, on: boolean) => {
+    const next = new Set(selected);
+    if (on) next.add(id);
+    else next.delete(id);
+    onSelectedChange(next);
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-muted/50">
+            <TableHead className="w-[40px]">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(on) => onSelectedChange(on ? new Set(bundles.map((b) => b.id)) : new Set())}
+              />
+            </TableHead>
+            <TableHead>#</TableHead>
+            <TableHead>{t("bundles.code")}</TableHead>
+            <TableHead>{t("cutting.colour")}</TableHead>
+            <TableHead>{t("bundles.size")}</TableHead>
+            <TableHead>{t("bundles.shade")}</TableHead>
+            <TableHead>{t("bundles.plies")}</TableHead>
+            <TableHead className="text-right">{t("bundles.quantity")}</TableHead>
+            <TableHead>{t("bundles.status")}</TableHead>
+            <TableHead>{t("bundles.line")}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {bundles.map((b) => (
+            <TableRow key={b.id} className={cn(selected.has(b.id) && "bg-muted/40")}>
+              <TableCell>
+                <Checkbox checked={selected.has(b.id)} onCheckedChange={(on) => toggle(b.id, !!on)} />
+              </TableCell>
+              <TableCell className="font-mono text-sm">{b.bundle_no}</TableCell>
+              <TableCell className="font-mono text-xs">{b.code}</TableCell>
+              <TableCell className="text-sm">{b.colour}</TableCell>
+              <TableCell className="text-sm font-medium">{b.size}</TableCell>
+              <TableCell className="text-sm">{b.shade || "—"}</TableCell>
+              <TableCell className="font-mono text-sm">{b.ply_from}–{b.ply_to}</TableCell>
+              <TableCell className="text-right font-mono text-sm">{b.quantity}</TableCell>
+              <TableCell>
+                <Badge variant="secondary" className={cn("text-xs font-medium", STATUS_CLASS[b.status])}>
+                  {t(STATUS_KEYS[b.status])}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-sm">{b.line_id ? lineNames.get(b.line_id) ?? "—" : "—"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useTranslation } from "react-i18next";
+import { Layers } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { formatRatio, markerPieces, type CutLay } from "@/lib/cut-plan";
+
+export interface LayResultDraft {
+  plies: string;
+  fabric: string;
+}
+
+interface CutLayResultsProps {
+  lays: CutLay[];
+  sizes: string[];
+  results: Record<string, LayResultDraft>;
+  onChange: (results: Record<string, LayResultDraft>) => void;
+  onUseAsDayCutting: (pieces: number) => void;
+}
+
+/** Pieces the ticked lays gave, at the plies actually spread. */
+function layResultsPieces(lays: CutLay[], results: Record<string, LayResultDraft>): number {
+  return lays.reduce((sum, lay) => {
+    const r = results[lay.id];
+    return r ? sum + markerPieces(lay.marker_ratio) * (parseInt(r.plies) || 0) : sum;
+  }, 0);
+}
+
+/** The PO's planned lays on the end-of-day report: tick the ones cut today and record what they gave. */
+export function CutLayResults({ lays, sizes, results, onChange, onUseAsDayCutting }: CutLayResultsProps) {
+  const { t } = useTranslation();
+  const pieces = layResultsPieces(lays, results);
+
+  const toggle = (lay: CutLay, checked: boolean) => {
+    const next = { ...results };
+    if (checked) next[lay.id] = { plies: String(lay.plies), fabric: "" };
+    else delete next[lay.id];
+    onChange(next);
+  };
+
+  const set = (id: string, patch: Partial<LayResultDraft>) => onChange({ ...results, [id]: { ...results[id], ...patch } });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Layers className="h-4 w-4 text-muted-foreground" />
+        <p className="text-xs font-semibold uppercase tracking-wider text-foreground">{t("cutPlan.laysCutToday")}</p>
+      </div>
+      <div className="space-y-2">
+        {lays.map((lay) => {
+          const r = results[lay.id];
+          return (
+            <div key={lay.id} className="rounded-lg border border-border/50 p-3 space-y-2">
+              <label className="flex items-center gap-3 cursor-pointer">
+                <Checkbox checked={!!r} onCheckedChange={(c) => toggle(lay, c === true)} />
+                <span className="text-sm font-medium">
+                  {t("cutPlan.layNo", { no: lay.lay_no })} · {lay.colour}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatRatio(lay.marker_ratio, sizes)} × {lay.plies}
+                </span>
+              </label>
+              {r && (
+                <div className="grid grid-cols-2 gap-3 pl-7">
+                  <div className="space-y-1">
+                    <p className="text-[11px] text-muted-foreground">{t("cutPlan.actualPlies")}</p>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={r.plies}
+                      onChange={(e) => set(lay.id, { plies: e.target.value })}
+                      className="h-9"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-[11px] text-muted-foreground">{t("cutPlan.fabricUsed")}</p>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={r.fabric}
+                      onChange={(e) => set(lay.id, { fabric: e.target.value })}
+                      placeholder={lay.marker_length ? String(Math.round(lay.marker_length * (parseInt(r.plies) || 0) * 100) / 100) : "0"}
+                      className="h-9"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {pieces > 0 && (
+        <div className="flex items-center justify-between gap-3 text-sm">
+          <span className="text-muted-foreground">{t("cutPlan.piecesFromLays", { count: pieces })}</span>
+          <Button type="button" variant="outline" size="sm" onClick={() => onUseAsDayCutting(pieces)}>
+            {t("cutPlan.useAsDayCutting")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
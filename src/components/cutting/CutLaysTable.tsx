@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { useTranslation } from "react-i18next";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatRatio, layMetrics, markerPieces, type CutLay } from "@/lib/cut-plan";
+
+type LayPatch = Partial<Pick<CutLay, "plies" | "marker_length" | "marker_efficiency">>;
+
+interface CutLaysTableProps {
+  lays: CutLay[];
+  sizes: string[];
+  onUpdate: (id: string, patch: LayPatch) => void;
+  onDelete: (id: string) => void;
+}
+
+/** Commits on blur so each keystroke isn't a save. */
+function NumberCell({
+  value,
+  step,
+  min,
+  max,
+  onCommit,
+}: {
+  value: number | null;
+  step?: string;
+  min?: number;
+  max?: number;
+  onCommit: (value: number | null) => void;
+}) {
+  const [draft, setDraft] = useState(value != null ? String(value) : "");
+  const commit = () => {
+    const next = draft.trim() === "" ? null : parseFloat(draft);
+    if (next != null && (isNaN(next) || (min != null && next < min) || (max != null && next > max))) {
+      setDraft(value != null ? String(value) : "");
+      return;
+    }
+    if (next !== value) onCommit(next);
+  };
+  return (
+    <Input
+      type="number"
+      step={step}
+      min={min}
+      max={max}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      placeholder="—"
+      className="h-8 w-20 text-right ml-auto"
+    />
+  );
+}
+
+const fmt = (n: number | null, digits = 2) =>
+  n != null ? n.toLocaleString(undefined, { maximumFractionDigits: digits }) : "—";
+
+/** Planned and cut lays with marker details, fabric per dozen and fabric variance. */
+export function CutLaysTable({ lays, sizes, onUpdate, onDelete }: CutLaysTableProps) {
+  const { t } = useTranslation();
+  const metrics = lays.map(layMetrics);
+
+  const totals = metrics.reduce(
+    (acc, m, i) => {
+      acc.plannedPieces += m.plannedPieces;
+      acc.plannedFabric += m.plannedFabric ?? 0;
+      acc.actualPieces += m.actualPieces;
+      acc.fabricUsed += lays[i].fabric_used ?? 0;
+      return acc;
+    },
+    { plannedPieces: 0, plannedFabric: 0, actualPieces: 0, fabricUsed: 0 }
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>#</TableHead>
+            <TableHead>{t("cutting.colour")}</TableHead>
+            <TableHead>{t("cutPlan.markerRatio")}</TableHead>
+            <TableHead className="text-right">{t("cutPlan.plies")}</TableHead>
+            <TableHead className="text-right">{t("cutPlan.pieces")}</TableHead>
+            <TableHead className="text-right">{t("cutPlan.markerLength")}</TableHead>
+            <TableHead className="text-right">{t("cutPlan.markerEfficiency")}</TableHead>
+            <TableHead className="text-right">{t("cutPlan.fabricPlanned")}</TableHead>
+            <TableHead className="text-right">{t("cutPlan.perDozen")}</TableHead>
+            <TableHead>{t("cutting.status")}</TableHead>
+            <TableHead className="text-right">{t("cutPlan.fabricUsed")}</TableHead>
+            <TableHead className="text-right">{t("cutPlan.fabricVariance")}</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lays.map((lay, i) => {
+            const m = metrics[i];
+            const cut = lay.status === "cut";
+            return (
+              <TableRow key={lay.id}>
+                <TableCell className="font-mono">{lay.lay_no}</TableCell>
+                <TableCell className="font-medium">{lay.colour}</TableCell>
+                <TableCell className="text-sm whitespace-nowrap">
+                  {formatRatio(lay.marker_ratio, sizes)}
+                  <span className="block text-[10px] text-muted-foreground">
+                    {t("cutPlan.piecesPerPly", { count: markerPieces(lay.marker_ratio) })}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right">
+                  {cut ? (
+                    <span className="font-mono">
+                      {lay.actual_plies ?? lay.plies}
+                      <span className="text-muted-foreground"> / {lay.plies}</span>
+                    </span>
+                  ) : (
+                    <NumberCell key={lay.plies} value={lay.plies} min={1} onCommit={(v) => v && onUpdate(lay.id, { plies: v })} />
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {cut ? m.actualPieces.toLocaleString() : m.plannedPieces.toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right">
+                  <NumberCell
+                    key={lay.marker_length ?? "none"}
+                    value={lay.marker_length}
+                    step="0.01"
+                    min={0.01}
+                    onCommit={(v) => onUpdate(lay.id, { marker_length: v })}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <NumberCell
+                    key={lay.marker_efficiency ?? "none"}
+                    value={lay.marker_efficiency}
+                    step="0.1"
+                    min={0.1}
+                    max={100}
+                    onCommit={(v) => onUpdate(lay.id, { marker_efficiency: v })}
+                  />
+                </TableCell>
+                <TableCell className="text-right font-mono">{fmt(m.plannedFabric)}</TableCell>
+                <TableCell className="text-right font-mono whitespace-nowrap">
+                  {fmt(cut ? m.actualPerDozen ?? m.plannedPerDozen : m.plannedPerDozen)}
+                </TableCell>
+                <TableCell>
+                  {cut ? (
+                    <Badge variant="outline" className="bg-green-100 text-green-700 border-green-200 whitespace-nowrap">
+                      {t("cutPlan.statusCut")}
+                      {lay.cut_date && ` · ${format(parseISO(lay.cut_date), "dd MMM")}`}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">{t("cutPlan.statusPlanned")}</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-mono">{fmt(lay.fabric_used)}</TableCell>
+                <TableCell
+                  className={cn(
+                    "text-right font-mono",
+                    m.fabricVariance != null && (m.fabricVariance > 0 ? "text-red-600" : "text-green-600")
+                  )}
+                >
+                  {m.fabricVariance != null ? `${m.fabricVariance > 0 ? "+" : ""}${fmt(m.fabricVariance)}` : "—"}
+                </TableCell>
+                <TableCell>
+                  {!cut && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDelete(lay.id)}>
+                      <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={4}>{t("cutPlan.total")}</TableCell>
+            <TableCell className="text-right font-mono whitespace-nowrap">
+              {totals.actualPieces.toLocaleString()}
+              <span className="text-muted-foreground"> / {totals.plannedPieces.toLocaleString()}</span>
+            </TableCell>
+            <TableCell colSpan={2} />
+            <TableCell className="text-right font-mono">{fmt(totals.plannedFabric)}</TableCell>
+            <TableCell colSpan={2} />
+            <TableCell className="text-right font-mono">{fmt(totals.fabricUsed)}</TableCell>
+            <TableCell colSpan={2} />
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useTranslation } from "react-i18next";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type { CutMatrixCell, CutMatrixRow } from "@/lib/cut-plan";
+
+interface CutMatrixTableProps {
+  rows: CutMatrixRow[];
+  sizes: string[];
+}
+
+function Cell({ cell }: { cell: CutMatrixCell }) {
+  const { t } = useTranslation();
+  if (cell.ordered === 0 && cell.planned === 0 && cell.cut === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  const short = cell.cut < cell.ordered;
+  return (
+    <div className="leading-tight">
+      <span className={cn("font-mono font-medium", cell.cut > 0 && (short ? "text-amber-600" : "text-green-600"))}>
+        {cell.cut.toLocaleString()}
+      </span>
+      <span className="text-muted-foreground font-mono"> / {cell.ordered.toLocaleString()}</span>
+      {cell.planned > 0 && (
+        <span className="block text-[10px] text-muted-foreground">{t("cutPlan.plannedPieces", { count: cell.planned })}</span>
+      )}
+    </div>
+  );
+}
+
+/** Cut against ordered pieces for every colour and size, with planned lay cover underneath. */
+export function CutMatrixTable({ rows, sizes }: CutMatrixTableProps) {
+  const { t } = useTranslation();
+
+  const total: Record<string, CutMatrixCell> = {};
+  for (const s of [...sizes, "__all"]) total[s] = { ordered: 0, planned: 0, cut: 0 };
+  for (const r of rows) {
+    for (const s of sizes) {
+      const c = r.cells[s];
+      if (!c) continue;
+      total[s].ordered += c.ordered;
+      total[s].planned += c.planned;
+      total[s].cut += c.cut;
+    }
+    total.__all.ordered += r.total.ordered;
+    total.__all.planned += r.total.planned;
+    total.__all.cut += r.total.cut;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{t("cutting.colour")}</TableHead>
+            {sizes.map((s) => (
+              <TableHead key={s} className="text-right">{s}</TableHead>
+            ))}
+            <TableHead className="text-right">{t("cutPlan.total")}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((r) => (
+            <TableRow key={r.colour}>
+              <TableCell className="font-medium">{r.colour}</TableCell>
+              {sizes.map((s) => (
+                <TableCell key={s} className="text-right text-sm">
+                  <Cell cell={r.cells[s] ?? { ordered: 0, planned: 0, cut: 0 }} />
+                </TableCell>
+              ))}
+              <TableCell className="text-right text-sm">
+                <Cell cell={r.total} />
+              </TableCell>
+            </TableRow>
+          ))}
+          {rows.length > 1 && (
+            <TableRow className="bg-muted/50 font-semibold">
+              <TableCell>{t("cutPlan.total")}</TableCell>
+              {sizes.map((s) => (
+                <TableCell key={s} className="text-right text-sm">
+                  <Cell cell={total[s]} />
+                </TableCell>
+              ))}
+              <TableCell className="text-right text-sm">
+                <Cell cell={total.__all} />
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-muted-foreground mt-2">{t("cutPlan.matrixHint")}</p>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { SizeMatrixEditor } from "@/components/size-matrix/SizeMatrixEditor";
+import { DEFAULT_CUT_PLAN_SETTINGS, type CutPlan, type CutPlanSettings } from "@/lib/cut-plan";
+import { breakdownTotal, compactBreakdown, isValidBreakdown, type ColourBreakdown } from "@/lib/size-matrix";
+import type { CutPlanInput } from "@/hooks/useCutPlans";
+
+interface CutPlanEditorProps {
+  plan: CutPlan | null;
+  orderQty: number;
+  defaultColour: string | null;
+  /** The PO's own size × colour matrix, used to start a new plan */
+  poSizes: string[];
+  poBreakdown: ColourBreakdown[] | null;
+  isPending: boolean;
+  onSave: (input: CutPlanInput) => void;
+}
+
+/**
+ * Colour × size quantities and lay limits for one PO. Starts from the saved
+ * plan, else the PO's matrix; the page remounts it when the PO or plan changes.
+ */
+export function CutPlanEditor({ plan, orderQty, defaultColour, poSizes, poBreakdown, isPending, onSave }: CutPlanEditorProps) {
+  const { t } = useTranslation();
+  const [sizes, setSizes] = useState<string[]>(
+    plan?.sizes.length ? plan.sizes : poSizes.length ? poSizes : ["S", "M", "L", "XL"]
+  );
+  const [rows, setRows] = useState<ColourBreakdown[]>(
+    plan?.breakdown.length ? plan.breakdown : poBreakdown?.length ? poBreakdown : [{ colour: defaultColour || "", quantities: {} }]
+  );
+  const [settings, setSettings] = useState<CutPlanSettings>(
+    plan
+      ? { allowance_pct: plan.allowance_pct, max_plies: plan.max_plies, max_marker_pieces: plan.max_marker_pieces }
+      : DEFAULT_CUT_PLAN_SETTINGS
+  );
+  const [notes, setNotes] = useState(plan?.notes ?? "");
+
+  const total = breakdownTotal(rows);
+  const valid =
+    isValidBreakdown(sizes, rows) &&
+    settings.max_plies > 0 &&
+    settings.max_marker_pieces > 0 &&
+    settings.allowance_pct >= 0;
+
+  const save = () =>
+    onSave({
+      sizes,
+      breakdown: compactBreakdown(rows) ?? [],
+      ...settings,
+      notes: notes.trim() || null,
+    });
+
+  return (
+    <div className="space-y-5">
+      <SizeMatrixEditor sizes={sizes} rows={rows} onSizesChange={setSizes} onRowsChange={setRows} />
+
+      <p className={cn("text-sm text-right", total !== orderQty ? "text-amber-600" : "text-muted-foreground")}>
+        {t("cutPlan.breakdownVsOrder", { total: total.toLocaleString(), order: orderQty.toLocaleString() })}
+      </p>
+
+      {/* Lay limits */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">{t("cutPlan.allowance")}</Label>
+          <Input
+            type="number"
+            min={0}
+            max={50}
+            step="0.5"
+            value={settings.allowance_pct}
+            onChange={(e) => setSettings({ ...settings, allowance_pct: parseFloat(e.target.value) || 0 })}
+            className="h-10"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">{t("cutPlan.maxPlies")}</Label>
+          <Input
+            type="number"
+            min={1}
+            value={settings.max_plies}
+            onChange={(e) => setSettings({ ...settings, max_plies: parseInt(e.target.value) || 0 })}
+            className="h-10"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">{t("cutPlan.maxMarkerPieces")}</Label>
+          <Input
+            type="number"
+            min={1}
+            value={settings.max_marker_pieces}
+            onChange={(e) => setSettings({ ...settings, max_marker_pieces: parseInt(e.target.value) || 0 })}
+            className="h-10"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs font-medium">{t("cutting.remarks")}</Label>
+        <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={save} disabled={!valid || isPending}>
+          {isPending ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Save className="h-4 w-4 mr-1.5" />}
+          {t("cutPlan.savePlan")}
+        </Button>
+      </div>
+    </div>
+  );
+}
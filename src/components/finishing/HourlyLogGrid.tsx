@@ -2,11 +2,13 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Lock, Unlock, Plus, Edit2, CheckCircle2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { HourSlot } from "@/lib/shifts";
 
 interface HourlyLog {
   id: string;
   sheet_id: string;
   hour_slot: string;
+  shift_id: string | null;
   thread_cutting_target: number;
   thread_cutting_actual: number;
   inside_check_target: number;
@@ -30,7 +32,9 @@ interface HourlyLog {
 }
 
 interface HourlyLogGridProps {
-  hourSlots: string[];
+  /** Slots of the shift being shown, from buildHourSlots */
+  hourSlots: HourSlot[];
+  /** Logs for that shift only */
   hourlyLogs: HourlyLog[];
   currentHourSlot: string | null;
   isAdmin: boolean;
@@ -86,14 +90,14 @@ export function HourlyLogGrid({
         </thead>
         <tbody>
           {hourSlots.map(slot => {
-            const log = getLogForSlot(slot);
-            const isCurrent = slot === currentHourSlot;
+            const log = getLogForSlot(slot.key);
+            const isCurrent = slot.key === currentHourSlot;
             const isSubmitted = !!log;
             const editable = canEdit(log);
 
             return (
               <tr 
-                key={slot} 
+                key={slot.key} 
                 className={cn(
                   "hover:bg-muted/30 transition-colors",
                   isCurrent && !isSubmitted && "bg-primary/5",
@@ -102,8 +106,8 @@ export function HourlyLogGrid({
               >
                 <td className="border p-2 font-medium">
                   <div className="flex items-center gap-2">
-                    <span className={cn(slot.startsWith("OT-") && "text-amber-600 dark:text-amber-400")}>
-                      {slot}
+                    <span className={cn(slot.overtime && "text-amber-600 dark:text-amber-400")}>
+                      {slot.key}
                     </span>
                     {isCurrent && !isSubmitted && (
                       <Badge variant="outline" className="text-xs">Now</Badge>
@@ -146,7 +150,7 @@ export function HourlyLogGrid({
                             variant="ghost"
                             size="icon"
                             className="h-7 w-7"
-                            onClick={() => onAddHour(slot)}
+                            onClick={() => onAddHour(slot.key)}
                           >
                             <Edit2 className="h-3.5 w-3.5" />
                           </Button>
@@ -171,7 +175,7 @@ export function HourlyLogGrid({
                         variant="ghost"
                         size="sm"
                         className="h-7 text-xs"
-                        onClick={() => onAddHour(slot)}
+                        onClick={() => onAddHour(slot.key)}
                       >
                         <Plus className="h-3.5 w-3.5 mr-1" />
                         Log
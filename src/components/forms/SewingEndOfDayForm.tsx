@@ -30,6 +30,7 @@ import {
 import { getTodayInTimezone } from "@/lib/date-utils";
 import { useOfflineSubmission } from "@/hooks/useOfflineSubmission";
 import { useHeadcountCost } from "@/hooks/useHeadcountCost";
+import { useHourlyEndOfDay } from "@/hooks/useSewingHourlyLogs";
 import { EstimatedCostDisplay } from "@/components/EstimatedCostDisplay";
 
 interface Line {
@@ -120,6 +121,20 @@ export default function SewingEndOfDayForm() {
     return workOrders.find(wo => wo.id === selectedWorkOrderId);
   }, [workOrders, selectedWorkOrderId]);
 
+  // Lines that log on the hourly board get good/reject/rework from there
+  const { fromHourly, hoursLogged } = useHourlyEndOfDay({
+    lineId: selectedLineId,
+    workOrderId: selectedWorkOrderId,
+    date: getTodayInTimezone(factory?.timezone || "Asia/Dhaka"),
+  });
+
+  useEffect(() => {
+    if (!fromHourly) return;
+    setGoodToday(String(fromHourly.good_today));
+    setRejectToday(String(fromHourly.reject_today));
+    setReworkToday(String(fromHourly.rework_today));
+  }, [fromHourly]);
+
   useEffect(() => {
     if (profile?.factory_id) {
       fetchFormData();
@@ -437,6 +452,9 @@ export default function SewingEndOfDayForm() {
       <Card>
         <CardHeader className="pb-3">
           <CardTitle className="text-base">{t("forms.todaysOutput")}</CardTitle>
+          {fromHourly && (
+            <p className="text-sm text-muted-foreground">{t("sewingHourly.fromHourly", { count: hoursLogged })}</p>
+          )}
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-2 gap-4">
@@ -446,8 +464,9 @@ export default function SewingEndOfDayForm() {
                 type="number"
                 value={goodToday}
                 onChange={(e) => setGoodToday(e.target.value)}
+                readOnly={!!fromHourly}
                 placeholder="0"
-                className={errors.goodToday ? "border-destructive" : ""}
+                className={`${fromHourly ? "bg-muted" : ""} ${errors.goodToday ? "border-destructive" : ""}`}
               />
               {errors.goodToday && <p className="text-sm text-destructive">{errors.goodToday}</p>}
             </div>
@@ -458,8 +477,9 @@ export default function SewingEndOfDayForm() {
                 type="number"
                 value={rejectToday}
                 onChange={(e) => setRejectToday(e.target.value)}
+                readOnly={!!fromHourly}
                 placeholder="0"
-                className={errors.rejectToday ? "border-destructive" : ""}
+                className={`${fromHourly ? "bg-muted" : ""} ${errors.rejectToday ? "border-destructive" : ""}`}
               />
               {errors.rejectToday && <p className="text-sm text-destructive">{errors.rejectToday}</p>}
             </div>
@@ -472,8 +492,9 @@ export default function SewingEndOfDayForm() {
                 type="number"
                 value={reworkToday}
                 onChange={(e) => setReworkToday(e.target.value)}
+                readOnly={!!fromHourly}
                 placeholder="0"
-                className={errors.reworkToday ? "border-destructive" : ""}
+                className={`${fromHourly ? "bg-muted" : ""} ${errors.reworkToday ? "border-destructive" : ""}`}
               />
               {errors.reworkToday && <p className="text-sm text-destructive">{errors.reworkToday}</p>}
             </div>
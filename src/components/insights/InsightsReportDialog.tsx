@@ -9,6 +9,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useHeadcountCost } from "@/hooks/useHeadcountCost";
 import { supabase } from "@/integrations/supabase/client";
 import { getTodayInTimezone } from "@/lib/date-utils";
+import { toEfficiencyRecord, summarizeEfficiency, efficiencyByDate, efficiencyByLine, efficiencyValue } from "@/lib/efficiency";
 import { format, subDays } from "date-fns";
 import { toast } from "sonner";
 import { downloadInsightsPdf, type ExportData } from "./ExportInsights";
@@ -53,7 +54,7 @@ export function InsightsReportDialog() {
       // Fetch sewing actuals
       const { data: sewingActuals } = await supabase
         .from("sewing_actuals")
-        .select("*, lines(name, line_id), work_orders(po_number, buyer, style, order_qty, cm_per_dozen), blocker_types:blocker_type_id(name)")
+        .select("*, lines(name, line_id), work_orders(po_number, buyer, style, order_qty, cm_per_dozen, smv), blocker_types:blocker_type_id(name)")
         .eq("factory_id", profile.factory_id)
         .gte("production_date", startDateStr)
         .lte("production_date", endDateStr);
@@ -99,6 +100,11 @@ export function InsightsReportDialog() {
         .gte("production_date", prevStartStr)
         .lt("production_date", startDateStr);
 
+      // ── SMV efficiency ──
+      const efficiencyRecords = (sewingActuals || []).map(u => toEfficiencyRecord(u, u.work_orders?.smv));
+      const dailyEfficiency = efficiencyByDate(efficiencyRecords);
+      const lineEfficiency = efficiencyByLine(efficiencyRecords);
+
       // ── Build daily data ──
       const dailyMap = new Map<string, { sewingOutput: number; sewingTarget: number; finishingQcPass: number; efficiency: number; blockers: number; manpower: number }>();
       const getDay = (date: string) => dailyMap.get(date) || { sewingOutput: 0, sewingTarget: 0, finishingQcPass: 0, efficiency: 0, blockers: 0, manpower: 0 };
@@ -131,7 +137,7 @@ export function InsightsReportDialog() {
           sewingOutput: d.sewingOutput,
           sewingTarget: d.sewingTarget,
           finishingQcPass: d.finishingQcPass,
-          efficiency: d.sewingTarget > 0 ? Math.round((d.sewingOutput / d.sewingTarget) * 100) : 0,
+          efficiency: efficiencyValue(dailyEfficiency.get(date)),
           blockers: d.blockers,
         }))
         .sort((a, b) => a.date.localeCompare(b.date));
@@ -158,12 +164,12 @@ export function InsightsReportDialog() {
         lineMap.set(id, l);
       });
 
-      const linePerformance = Array.from(lineMap.values())
-        .map(l => ({
+      const linePerformance = Array.from(lineMap.entries())
+        .map(([id, l]) => ({
           lineName: l.lineName,
           totalOutput: l.totalOutput,
           totalTarget: l.totalTarget,
-          efficiency: l.totalTarget > 0 ? Math.round((l.totalOutput / l.totalTarget) * 100) : 0,
+          efficiency: efficiencyValue(lineEfficiency.get(id)),
           avgManpower: l.submissions > 0 ? Math.round(l.avgManpower / l.submissions) : 0,
           blockers: l.blockers,
         }))
@@ -304,7 +310,7 @@ export function InsightsReportDialog() {
         summary: {
           totalSewingOutput,
           totalFinishingQcPass,
-          avgEfficiency: linePerformance.length > 0 ? Math.round(linePerformance.reduce((s, l) => s + l.efficiency, 0) / linePerformance.length) : 0,
+          avgEfficiency: efficiencyValue(summarizeEfficiency(efficiencyRecords)),
           totalBlockers: allBlockers.length,
           openBlockers: allBlockers.filter(b => (b as any).blocker_status !== "resolved").length,
           resolvedBlockers: allBlockers.filter(b => (b as any).blocker_status === "resolved").length,
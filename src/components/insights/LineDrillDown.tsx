@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Loader2, TrendingUp, Target, Users, AlertTriangle, Calendar } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { toEfficiencyRecord, summarizeEfficiency, efficiencyByDate, efficiencyValue } from "@/lib/efficiency";
 import {
   LineChart, Line, BarChart, Bar,
   XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
@@ -56,7 +57,7 @@ export function LineDrillDown({ lineId, lineName, factoryId, startDate, endDate,
       const [actualsRes, targetsRes] = await Promise.all([
         supabase
           .from('sewing_actuals')
-          .select('production_date, good_today, manpower_actual, has_blocker')
+          .select('production_date, line_id, work_order_id, good_today, manpower_actual, hours_actual, ot_manpower_actual, ot_hours_actual, has_blocker, work_orders(smv)')
           .eq('factory_id', factoryId)
           .eq('line_id', lineId)
           .gte('production_date', startDate)
@@ -102,9 +103,12 @@ export function LineDrillDown({ lineId, lineName, factoryId, startDate, endDate,
         dailyMap.set(t.production_date, existing);
       });
 
+      const efficiencyRecords = sewingActuals.map(u => toEfficiencyRecord(u, u.work_orders?.smv));
+      const dailyEfficiency = efficiencyByDate(efficiencyRecords);
+
       const dailyDataArray = Array.from(dailyMap.values()).map(d => ({
         ...d,
-        efficiency: d.target > 0 ? Math.round((d.output / d.target) * 100) : 0,
+        efficiency: efficiencyValue(dailyEfficiency.get(d.date)),
       })).sort((a, b) => a.date.localeCompare(b.date));
 
       setDailyData(dailyDataArray);
@@ -122,7 +126,7 @@ export function LineDrillDown({ lineId, lineName, factoryId, startDate, endDate,
       setSummary({
         totalOutput,
         totalTarget,
-        avgEfficiency: totalTarget > 0 ? Math.round((totalOutput / totalTarget) * 100) : 0,
+        avgEfficiency: efficiencyValue(summarizeEfficiency(efficiencyRecords)),
         totalBlockers,
         avgManpower,
         bestDay: sortedByEfficiency[0]?.displayDate || '-',
@@ -9,6 +9,8 @@ interface PeriodData {
   totalBlockers: number;
   avgManpower: number;
   daysWithData: number;
+  /** Working days in the period per the factory calendar */
+  workingDays: number;
 }
 
 interface PeriodComparisonProps {
@@ -26,11 +28,23 @@ function calculateChange(current: number, previous: number): { value: number; tr
   };
 }
 
+// Totals are compared per working day so holidays don't read as a drop
+const perWorkingDay = (total: number, period: PeriodData) => total / Math.max(1, period.workingDays);
+
 export function PeriodComparison({ currentPeriod, previousPeriod, periodDays }: PeriodComparisonProps) {
-  const outputChange = calculateChange(currentPeriod.totalOutput, previousPeriod.totalOutput);
-  const qcPassChange = calculateChange(currentPeriod.totalQcPass, previousPeriod.totalQcPass);
+  const outputChange = calculateChange(
+    perWorkingDay(currentPeriod.totalOutput, currentPeriod),
+    perWorkingDay(previousPeriod.totalOutput, previousPeriod)
+  );
+  const qcPassChange = calculateChange(
+    perWorkingDay(currentPeriod.totalQcPass, currentPeriod),
+    perWorkingDay(previousPeriod.totalQcPass, previousPeriod)
+  );
   const efficiencyChange = calculateChange(currentPeriod.avgEfficiency, previousPeriod.avgEfficiency);
-  const blockerChange = calculateChange(currentPeriod.totalBlockers, previousPeriod.totalBlockers);
+  const blockerChange = calculateChange(
+    perWorkingDay(currentPeriod.totalBlockers, currentPeriod),
+    perWorkingDay(previousPeriod.totalBlockers, previousPeriod)
+  );
   const manpowerChange = calculateChange(currentPeriod.avgManpower, previousPeriod.avgManpower);
 
   const metrics = [
@@ -103,6 +117,9 @@ export function PeriodComparison({ currentPeriod, previousPeriod, periodDays }:
           <span className="text-[10px] font-semibold text-muted-foreground ml-1 bg-muted/60 px-2.5 py-1 rounded-full uppercase tracking-wider">
             {periodDays}d vs prev {periodDays}d
           </span>
+          <span className="text-[10px] text-muted-foreground">
+            {currentPeriod.workingDays} vs {previousPeriod.workingDays} working days
+          </span>
         </CardTitle>
       </CardHeader>
       <CardContent>
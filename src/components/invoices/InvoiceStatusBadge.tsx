@@ -0,0 +1,12 @@
+import { Badge } from "@/components/ui/badge";
+import { INVOICE_STATUS_COLORS, INVOICE_STATUS_LABELS, type InvoiceStatus } from "@/lib/invoice-utils";
+import { cn } from "@/lib/utils";
+
+export function InvoiceStatusBadge({ status }: { status: string | null }) {
+  const s = (status as InvoiceStatus) || "draft";
+  return (
+    <Badge variant="outline" className={cn("text-[10px] font-semibold", INVOICE_STATUS_COLORS[s] ?? INVOICE_STATUS_COLORS.draft)}>
+      {INVOICE_STATUS_LABELS[s] ?? status}
+    </Badge>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect, useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { InvoiceableDispatch } from "@/hooks/useInvoices";
+import { INVOICE_CURRENCIES, INVOICE_TYPE_LABELS, type InvoiceType } from "@/lib/invoice-utils";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dispatches: InvoiceableDispatch[];
+  onSubmit: (data: { invoiceType: InvoiceType; buyerName: string; currency: string; dispatches: InvoiceableDispatch[] }) => void;
+  isPending: boolean;
+}
+
+export function NewInvoiceDialog({ open, onOpenChange, dispatches, onSubmit, isPending }: Props) {
+  const [invoiceType, setInvoiceType] = useState<InvoiceType>("commercial");
+  const [buyerName, setBuyerName] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+    setInvoiceType("commercial");
+    setBuyerName("");
+    setCurrency("USD");
+    setSelected(new Set());
+  }, [open]);
+
+  const buyerOf = (d: InvoiceableDispatch) => d.buyer_name || d.work_orders?.buyer || "";
+
+  // Only dispatches for the chosen buyer can go on one invoice
+  const visible = useMemo(() => {
+    const q = buyerName.trim().toLowerCase();
+    return q ? dispatches.filter((d) => buyerOf(d).toLowerCase().includes(q)) : dispatches;
+  }, [dispatches, buyerName]);
+
+  function toggle(d: InvoiceableDispatch, checked: boolean) {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(d.id);
+      if (!buyerName.trim()) setBuyerName(buyerOf(d));
+    } else {
+      next.delete(d.id);
+    }
+    setSelected(next);
+  }
+
+  const canSubmit = buyerName.trim();
+
+  function handleSubmit() {
+    if (!canSubmit) return;
+    onSubmit({
+      invoiceType,
+      buyerName: buyerName.trim(),
+      currency,
+      dispatches: dispatches.filter((d) => selected.has(d.id)),
+    });
+  }
+
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">New Invoice</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Type</Label>
+              <Select value={invoiceType} onValueChange={(v) => setInvoiceType(v as InvoiceType)}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(INVOICE_TYPE_LABELS) as InvoiceType[]).map((t) => (
+                    <SelectItem key={t} value={t}>{INVOICE_TYPE_LABELS[t]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Currency</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {INVOICE_CURRENCIES.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Buyer</Label>
+            <Input value={buyerName} onChange={(e) => setBuyerName(e.target.value)} className="h-9" />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Approved Dispatches (optional)</Label>
+            {visible.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-3">No uninvoiced dispatches{buyerName.trim() ? " for this buyer" : ""}.</p>
+            ) : (
+              <div className="rounded-lg border divide-y max-h-[240px] overflow-y-auto">
+                {visible.map((d) => (
+                  <label key={d.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-muted/40">
+                    <Checkbox checked={selected.has(d.id)} onCheckedChange={(v) => toggle(d, v === true)} />
+                    <div className="min-w-0 flex-1">
+                      <div className="font-medium truncate">{d.reference_number} · PO {d.work_orders?.po_number}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {buyerOf(d)} · {d.work_orders?.style} · {format(parseISO(d.submitted_at), "d MMM yyyy")}
+                      </div>
+                    </div>
+                    <span className="tabular-nums text-sm font-medium">{d.dispatch_quantity.toLocaleString()} pcs</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">Selected dispatches become one line per PO, priced at the PO selling price.</p>
+          </div>
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Creating..." : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
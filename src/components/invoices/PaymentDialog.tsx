@@ -0,0 +1,218 @@
+import { useState, useEffect, useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { Wand2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { InvoiceWithTotals } from "@/hooks/useInvoices";
+import type { AllocationInput, PaymentInput } from "@/hooks/usePayments";
+import { INVOICE_CURRENCIES, PAYMENT_METHODS, suggestAllocations } from "@/lib/invoice-utils";
+import { formatMoney } from "@/lib/lc-utils";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Issued invoices with an outstanding balance. */
+  openInvoices: InvoiceWithTotals[];
+  /** Preselects the buyer, e.g. when recording from an invoice. */
+  defaultBuyer?: string;
+  onSubmit: (data: { payment: PaymentInput; allocations: AllocationInput }) => void;
+  isPending: boolean;
+}
+
+export function PaymentDialog({ open, onOpenChange, openInvoices, defaultBuyer, onSubmit, isPending }: Props) {
+  const [buyer, setBuyer] = useState("");
+  const [paymentDate, setPaymentDate] = useState("");
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [bankDeductions, setBankDeductions] = useState("");
+  const [method, setMethod] = useState("TT");
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+  const [allocations, setAllocations] = useState<Record<string, string>>({});
+
+  const buyers = useMemo(() => Array.from(new Set(openInvoices.map((i) => i.buyer_name))).sort(), [openInvoices]);
+
+  useEffect(() => {
+    if (!open) return;
+    setBuyer(defaultBuyer ?? "");
+    setPaymentDate(format(new Date(), "yyyy-MM-dd"));
+    setAmount("");
+    setCurrency("USD");
+    setBankDeductions("");
+    setMethod("TT");
+    setReference("");
+    setNotes("");
+    setAllocations({});
+  }, [open, defaultBuyer]);
+
+  const buyerInvoices = useMemo(
+    () => openInvoices.filter((i) => i.buyer_name === buyer && i.currency === currency),
+    [openInvoices, buyer, currency],
+  );
+
+  const amountNum = parseFloat(amount) || 0;
+  const allocated = Object.entries(allocations)
+    .filter(([id]) => buyerInvoices.some((i) => i.id === id))
+    .reduce((s, [, v]) => s + (parseFloat(v) || 0), 0);
+  const unallocated = Math.round((amountNum - allocated) * 100) / 100;
+  const overAllocated = buyerInvoices.some((i) => (parseFloat(allocations[i.id]) || 0) > i.outstanding + 0.005);
+
+  function autoAllocate() {
+    const suggested = suggestAllocations(amountNum, buyerInvoices);
+    setAllocations(Object.fromEntries(Object.entries(suggested).map(([id, v]) => [id, String(v)])));
+  }
+
+  const canSubmit = buyer.trim() && paymentDate && amountNum > 0 && unallocated >= -0.005 && !overAllocated;
+
+  function handleSubmit() {
+    if (!canSubmit) return;
+    const deductions = parseFloat(bankDeductions) || 0;
+    onSubmit({
+      payment: {
+        buyer_name: buyer.trim(),
+        payment_date: paymentDate,
+        original_amount: amountNum,
+        original_currency: currency,
+        bank_deductions: deductions || null,
+        net_amount_credited: amountNum - deductions,
+        payment_method: method,
+        bank_reference: reference.trim() || null,
+        notes: notes.trim() || null,
+      },
+      allocations: Object.fromEntries(
+        buyerInvoices.map((i) => [i.id, parseFloat(allocations[i.id]) || 0]).filter(([, v]) => (v as number) > 0),
+      ),
+    });
+  }
+
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[620px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">Record Payment</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4 max-h-[70vh] overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Buyer</Label>
+              {buyers.length > 0 ? (
+                <Select value={buyer} onValueChange={(v) => { setBuyer(v); setAllocations({}); }}>
+                  <SelectTrigger className="h-9"><SelectValue placeholder="Select buyer" /></SelectTrigger>
+                  <SelectContent>
+                    {buyers.map((b) => <SelectItem key={b} value={b}>{b}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input value={buyer} onChange={(e) => setBuyer(e.target.value)} className="h-9" />
+              )}
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Received On</Label>
+              <Input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} className="h-9" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Amount</Label>
+              <Input type="number" value={amount} onChange={(e) => setAmount(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Currency</Label>
+              <Select value={currency} onValueChange={(v) => { setCurrency(v); setAllocations({}); }}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {INVOICE_CURRENCIES.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Bank Charges</Label>
+              <Input type="number" value={bankDeductions} onChange={(e) => setBankDeductions(e.target.value)} className="h-9" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Method</Label>
+              <Select value={method} onValueChange={setMethod}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((m) => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Bank Reference</Label>
+              <Input value={reference} onChange={(e) => setReference(e.target.value)} className="h-9" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className={labelCls}>Apply to Invoices</Label>
+              <Button size="sm" variant="outline" className="h-7 gap-1.5 text-xs" onClick={autoAllocate} disabled={amountNum <= 0 || buyerInvoices.length === 0}>
+                <Wand2 className="h-3.5 w-3.5" />
+                Oldest first
+              </Button>
+            </div>
+            {buyerInvoices.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-2">
+                {buyer ? `No open ${currency} invoices for this buyer. The payment will be recorded as unallocated.` : "Select a buyer to see open invoices."}
+              </p>
+            ) : (
+              <div className="rounded-lg border divide-y">
+                {buyerInvoices.map((inv) => {
+                  const value = allocations[inv.id] ?? "";
+                  const over = (parseFloat(value) || 0) > inv.outstanding + 0.005;
+                  return (
+                    <div key={inv.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <div className="min-w-0 flex-1">
+                        <div className="font-medium">{inv.invoice_number}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {inv.due_date ? `Due ${format(parseISO(inv.due_date), "d MMM yyyy")}` : `Issued ${format(parseISO(inv.issue_date), "d MMM yyyy")}`}
+                          {" · "}Outstanding {formatMoney(inv.outstanding, inv.currency)}
+                        </div>
+                      </div>
+                      <Input
+                        type="number"
+                        value={value}
+                        onChange={(e) => setAllocations({ ...allocations, [inv.id]: e.target.value })}
+                        className={`h-8 w-[120px] text-right tabular-nums ${over ? "border-destructive" : ""}`}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">Allocated {formatMoney(allocated, currency)}</span>
+              <span className={unallocated < -0.005 ? "text-destructive font-medium" : "text-muted-foreground"}>
+                Unallocated {formatMoney(unallocated, currency)}
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Saving..." : "Record Payment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,50 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AGING_BUCKET_LABELS, type AgingBucket, type BuyerReceivable } from "@/lib/invoice-utils";
+import { formatMoney } from "@/lib/lc-utils";
+
+const BUCKETS = Object.keys(AGING_BUCKET_LABELS) as AgingBucket[];
+
+export function ReceivablesTable({ rows }: { rows: BuyerReceivable[] }) {
+  const amount = (v: number) => (v > 0 ? v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : "—");
+
+  return (
+    <div className="rounded-lg border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-[11px] uppercase tracking-wide">Buyer</TableHead>
+            <TableHead className="text-[11px] uppercase tracking-wide text-right">Invoices</TableHead>
+            <TableHead className="text-[11px] uppercase tracking-wide text-right">Invoiced</TableHead>
+            <TableHead className="text-[11px] uppercase tracking-wide text-right">Received</TableHead>
+            <TableHead className="text-[11px] uppercase tracking-wide text-right">Outstanding</TableHead>
+            {BUCKETS.map((b) => (
+              <TableHead key={b} className="text-[11px] uppercase tracking-wide text-right whitespace-nowrap">{AGING_BUCKET_LABELS[b]}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((r) => (
+            <TableRow key={`${r.buyer}|${r.currency}`}>
+              <TableCell className="font-medium">
+                {r.buyer}
+                <span className="ml-1.5 text-xs text-muted-foreground">{r.currency}</span>
+              </TableCell>
+              <TableCell className="text-right tabular-nums">{r.invoiceCount}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatMoney(r.invoiced, r.currency)}</TableCell>
+              <TableCell className="text-right tabular-nums">{formatMoney(r.paid, r.currency)}</TableCell>
+              <TableCell className="text-right tabular-nums font-semibold">{formatMoney(r.outstanding, r.currency)}</TableCell>
+              {BUCKETS.map((b) => (
+                <TableCell
+                  key={b}
+                  className={`text-right tabular-nums ${b === "61_90" || b === "90_plus" ? (r.buckets[b] > 0 ? "text-destructive font-medium" : "") : ""}`}
+                >
+                  {amount(r.buckets[b])}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -31,6 +31,7 @@ import {
   RefreshCw,
   Loader2,
   Bug,
+  Ruler,
   BookOpen,
   BarChart3,
   DollarSign,
@@ -41,6 +42,14 @@ import {
   ShieldCheck,
   ListChecks,
   FolderOpen,
+  Landmark,
+  Calculator,
+  ScrollText,
+  FileSignature,
+  Wallet,
+  Clock,
+  QrCode,
+  ScanLine,
 } from "lucide-react";
 import { toast } from "sonner";
 import {
@@ -99,6 +108,7 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   ClipboardCheck,
   Scissors,
   Bug,
+  Ruler,
   BookOpen,
   BarChart3,
   DollarSign,
@@ -109,6 +119,14 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   ShieldCheck,
   ListChecks,
   FolderOpen,
+  Landmark,
+  Calculator,
+  ScrollText,
+  FileSignature,
+  Wallet,
+  Clock,
+  QrCode,
+  ScanLine,
 };
 
 const navLabelKeys: Record<string, string> = {
@@ -117,11 +135,15 @@ const navLabelKeys: Record<string, string> = {
   'Finishing Update': 'nav.finishingUpdate',
   'Sewing Morning Targets': 'nav.sewingMorningTargets',
   'Sewing End of Day': 'nav.sewingEndOfDay',
+  'Hourly Board': 'nav.hourlyBoard',
   'Finishing Morning Targets': 'nav.finishingMorningTargets',
   'Finishing End of Day': 'nav.finishingEndOfDay',
   'Finishing Daily Sheet': 'nav.finishingDailySheet',
   'Cutting Morning Targets': 'nav.cuttingMorningTargets',
   'Cutting End of Day': 'nav.cuttingEndOfDay',
+  'Cut Plans': 'nav.cutPlans',
+  'Bundles': 'nav.bundles',
+  'Bundle Scan': 'nav.bundleScan',
   'Cutting': 'nav.cutting',
   'My Submissions': 'nav.mySubmissions',
   'Sewing Submissions': 'nav.sewingSubmissions',
@@ -168,7 +190,7 @@ export function AppSidebar() {
   const location = useLocation();
   const { state, toggleSidebar } = useSidebar();
   const collapsed = state === "collapsed";
-  const isFinanceTheme = location.pathname === '/finances';
+  const isFinanceTheme = location.pathname.startsWith('/finances');
   const [expandedMenus, setExpandedMenus] = React.useState<string[]>(['/setup']);
   const [isCheckingUpdate, setIsCheckingUpdate] = useState(false);
   const [appVersion, setAppVersion] = useState<string>(WEB_APP_VERSION);
@@ -0,0 +1,106 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { format, parseISO } from "date-fns";
+import type { AmendmentFormData, MasterLC } from "@/hooks/useLetterOfCredits";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lc: MasterLC;
+  onSubmit: (data: AmendmentFormData) => void;
+  isPending: boolean;
+}
+
+export function LCAmendmentDialog({ open, onOpenChange, lc, onSubmit, isPending }: Props) {
+  const [amendmentDate, setAmendmentDate] = useState("");
+  const [description, setDescription] = useState("");
+  const [newExpiry, setNewExpiry] = useState("");
+  const [newShipment, setNewShipment] = useState("");
+  const [valueChange, setValueChange] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setAmendmentDate(format(new Date(), "yyyy-MM-dd"));
+    setDescription("");
+    setNewExpiry("");
+    setNewShipment("");
+    setValueChange("");
+  }, [open]);
+
+  const delta = parseFloat(valueChange) || 0;
+  const hasChange = !!newExpiry || !!newShipment || delta !== 0;
+  const canSubmit = amendmentDate && description.trim() && hasChange && lc.lc_value + delta > 0;
+
+  function handleSubmit() {
+    if (!canSubmit) return;
+    onSubmit({
+      amendment_date: amendmentDate,
+      description: description.trim(),
+      new_expiry_date: newExpiry || null,
+      new_shipment_date: newShipment || null,
+      value_change: delta || null,
+    });
+  }
+
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">Amendment #{(lc.amendment_count ?? 0) + 1}</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Amendment Date</Label>
+              <Input type="date" value={amendmentDate} onChange={(e) => setAmendmentDate(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Value Change (±{lc.currency || "USD"})</Label>
+              <Input type="number" value={valueChange} onChange={(e) => setValueChange(e.target.value)} placeholder="0" className="h-9" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>New Expiry</Label>
+              <Input type="date" value={newExpiry} onChange={(e) => setNewExpiry(e.target.value)} className="h-9" />
+              <p className="text-[11px] text-muted-foreground">Currently {format(parseISO(lc.expiry_date), "d MMM yyyy")}</p>
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>New Latest Shipment</Label>
+              <Input type="date" value={newShipment} onChange={(e) => setNewShipment(e.target.value)} className="h-9" />
+              <p className="text-[11px] text-muted-foreground">
+                Currently {lc.latest_shipment_date ? format(parseISO(lc.latest_shipment_date), "d MMM yyyy") : "not set"}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Description</Label>
+            <Textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="What the bank amended and why..." rows={3} className="text-sm resize-none" />
+          </div>
+
+          {delta !== 0 && (
+            <p className="text-xs text-muted-foreground">
+              LC value becomes <span className="font-semibold text-foreground tabular-nums">{(lc.lc_value + delta).toLocaleString()}</span>
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Saving..." : "Record Amendment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
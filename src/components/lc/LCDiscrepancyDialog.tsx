@@ -0,0 +1,165 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format } from "date-fns";
+import { LC_DISCREPANCY_TYPES, parseDiscrepancyItems, type LCDiscrepancyStatus } from "@/lib/lc-utils";
+import type { DiscrepancyFormData, LCDiscrepancy, LCShipment } from "@/hooks/useLetterOfCredits";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shipments: LCShipment[];
+  editDiscrepancy: LCDiscrepancy | null;
+  onSubmit: (data: DiscrepancyFormData) => void;
+  isPending: boolean;
+}
+
+const NO_SHIPMENT = "__none";
+
+export function LCDiscrepancyDialog({ open, onOpenChange, shipments, editDiscrepancy, onSubmit, isPending }: Props) {
+  const [shipmentId, setShipmentId] = useState(NO_SHIPMENT);
+  const [noticeDate, setNoticeDate] = useState("");
+  const [type, setType] = useState("documentary");
+  const [items, setItems] = useState("");
+  const [bankCharges, setBankCharges] = useState("");
+  const [status, setStatus] = useState<LCDiscrepancyStatus>("open");
+  const [resolution, setResolution] = useState("");
+  const [resolutionDate, setResolutionDate] = useState("");
+  const [resolutionNotes, setResolutionNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    const d = editDiscrepancy;
+    setShipmentId(d?.shipment_id ?? NO_SHIPMENT);
+    setNoticeDate(d?.notice_date ?? format(new Date(), "yyyy-MM-dd"));
+    setType(d?.discrepancy_type ?? "documentary");
+    setItems(parseDiscrepancyItems(d?.discrepancy_items).join("\n"));
+    setBankCharges(d?.bank_charges?.toString() ?? "");
+    setStatus((d?.status as LCDiscrepancyStatus) ?? "open");
+    setResolution(d?.resolution ?? "");
+    setResolutionDate(d?.resolution_date ?? "");
+    setResolutionNotes(d?.resolution_notes ?? "");
+  }, [open, editDiscrepancy]);
+
+  const itemList = items.split("\n").map((s) => s.trim()).filter(Boolean);
+  const canSubmit = noticeDate && itemList.length > 0 && (status === "open" || resolutionDate);
+
+  function handleSubmit() {
+    if (!canSubmit) return;
+    onSubmit({
+      ...(editDiscrepancy ? { id: editDiscrepancy.id } : {}),
+      shipment_id: shipmentId === NO_SHIPMENT ? null : shipmentId,
+      notice_date: noticeDate,
+      discrepancy_type: type,
+      items: itemList,
+      bank_charges: bankCharges ? parseFloat(bankCharges) : null,
+      status,
+      resolution: status === "open" ? null : resolution.trim() || null,
+      resolution_date: status === "open" ? null : resolutionDate || null,
+      resolution_notes: resolutionNotes.trim() || null,
+    });
+  }
+
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[540px] p-0 overflow-hidden max-h-[90vh] flex flex-col">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">{editDiscrepancy ? "Update Discrepancy" : "Log Discrepancy"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Notice Date</Label>
+              <Input type="date" value={noticeDate} onChange={(e) => setNoticeDate(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Shipment</Label>
+              <Select value={shipmentId} onValueChange={setShipmentId}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SHIPMENT}>Whole LC</SelectItem>
+                  {shipments.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>#{s.shipment_number}{s.invoice_number ? ` – ${s.invoice_number}` : ""}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Type</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {LC_DISCREPANCY_TYPES.map((t) => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Discrepancy Fee</Label>
+              <Input type="number" value={bankCharges} onChange={(e) => setBankCharges(e.target.value)} placeholder="0.00" className="h-9" />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Discrepancies (one per line)</Label>
+            <Textarea
+              value={items}
+              onChange={(e) => setItems(e.target.value)}
+              placeholder={"Invoice amount differs from LC\nB/L not marked 'freight prepaid'"}
+              rows={4}
+              className="text-sm resize-none"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Status</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as LCDiscrepancyStatus)}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="resolved">Resolved</SelectItem>
+                  <SelectItem value="waived">Waived by applicant</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {status !== "open" && (
+              <div className="space-y-1.5">
+                <Label className={labelCls}>Resolution Date</Label>
+                <Input type="date" value={resolutionDate} onChange={(e) => setResolutionDate(e.target.value)} className="h-9" />
+              </div>
+            )}
+          </div>
+
+          {status !== "open" && (
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Resolution</Label>
+              <Input value={resolution} onChange={(e) => setResolution(e.target.value)} placeholder="e.g. Corrected invoice re-presented" className="h-9" />
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Notes</Label>
+            <Textarea value={resolutionNotes} onChange={(e) => setResolutionNotes(e.target.value)} rows={2} className="text-sm resize-none" />
+          </div>
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Plus, Trash2, FileCheck2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import type { LCDocChecklistItem } from "@/hooks/useLetterOfCredits";
+
+interface Props {
+  items: LCDocChecklistItem[];
+  onToggle: (id: string, completed: boolean) => void;
+  onAdd: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function LCDocChecklist({ items, onToggle, onAdd, onDelete }: Props) {
+  const [newDoc, setNewDoc] = useState("");
+  const done = items.filter((i) => i.status === "completed").length;
+  const pct = items.length > 0 ? Math.round((done / items.length) * 100) : 0;
+
+  function handleAdd() {
+    if (!newDoc.trim()) return;
+    onAdd(newDoc.trim());
+    setNewDoc("");
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <FileCheck2 className="h-4 w-4 text-muted-foreground" />
+        <div className="flex-1">
+          <Progress value={pct} className="h-1.5" />
+        </div>
+        <span className="text-xs text-muted-foreground tabular-nums">{done}/{items.length} ready</span>
+      </div>
+
+      <div className="divide-y rounded-lg border">
+        {items.map((item) => {
+          const completed = item.status === "completed";
+          return (
+            <div key={item.id} className="flex items-center gap-3 px-4 py-3 group">
+              <Checkbox checked={completed} onCheckedChange={(v) => onToggle(item.id, v === true)} />
+              <div className="min-w-0 flex-1">
+                <p className={cn("text-sm font-medium", completed && "line-through text-muted-foreground")}>{item.document_name}</p>
+                <p className="text-[11px] text-muted-foreground">
+                  {item.originals_required ?? 0} original{item.originals_required === 1 ? "" : "s"} · {item.copies_required ?? 0} cop{item.copies_required === 1 ? "y" : "ies"}
+                  {item.special_instructions ? ` · ${item.special_instructions}` : ""}
+                </p>
+              </div>
+              {completed && item.completed_at && (
+                <span className="text-[11px] text-emerald-600 dark:text-emerald-400 shrink-0">
+                  {format(new Date(item.completed_at), "d MMM")}
+                </span>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                onClick={() => onDelete(item.id)}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          );
+        })}
+        {items.length === 0 && (
+          <p className="px-4 py-6 text-sm text-center text-muted-foreground">No documents on the checklist.</p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={newDoc}
+          onChange={(e) => setNewDoc(e.target.value)}
+          onKeyDown={(e) => { if (e.key === "Enter") handleAdd(); }}
+          placeholder="Add a required document, e.g. GSP Form A"
+          className="h-9"
+        />
+        <Button variant="outline" onClick={handleAdd} disabled={!newDoc.trim()} className="h-9 gap-1.5">
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle } from "lucide-react";
+import { DEFAULT_PRESENTATION_PERIOD } from "@/lib/lc-utils";
+import type { LCFormData, MasterLC } from "@/hooks/useLetterOfCredits";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  editLC: MasterLC | null;
+  contracts: { id: string; contract_number: string; buyer_name: string }[];
+  onSubmit: (data: LCFormData & { id?: string }) => void;
+  isPending: boolean;
+}
+
+const NO_CONTRACT = "__none";
+
+const CURRENCIES = ["USD", "EUR", "GBP", "BDT"];
+
+function Field({ label, children, className }: { label: string; children: React.ReactNode; className?: string }) {
+  return (
+    <div className={`space-y-1.5 ${className ?? ""}`}>
+      <Label className="text-[11px] font-semibold text-muted-foreground uppercase tracking-wide">{label}</Label>
+      {children}
+    </div>
+  );
+}
+
+export function LCFormDialog({ open, onOpenChange, editLC, contracts, onSubmit, isPending }: Props) {
+  const isEdit = !!editLC;
+
+  const [lcNumber, setLcNumber] = useState("");
+  const [buyerName, setBuyerName] = useState("");
+  const [applicantName, setApplicantName] = useState("");
+  const [contractId, setContractId] = useState(NO_CONTRACT);
+  const [lcType, setLcType] = useState("irrevocable");
+  const [currency, setCurrency] = useState("USD");
+  const [lcValue, setLcValue] = useState("");
+  const [tolerancePct, setTolerancePct] = useState("");
+  const [issueDate, setIssueDate] = useState("");
+  const [expiryDate, setExpiryDate] = useState("");
+  const [latestShipmentDate, setLatestShipmentDate] = useState("");
+  const [presentationPeriod, setPresentationPeriod] = useState(String(DEFAULT_PRESENTATION_PERIOD));
+  const [paymentType, setPaymentType] = useState("sight");
+  const [tenorDays, setTenorDays] = useState("");
+  const [incoterms, setIncoterms] = useState("");
+  const [portOfLoading, setPortOfLoading] = useState("");
+  const [portOfDischarge, setPortOfDischarge] = useState("");
+  const [issuingBank, setIssuingBank] = useState("");
+  const [advisingBank, setAdvisingBank] = useState("");
+  const [partialShipment, setPartialShipment] = useState(true);
+  const [transhipment, setTranshipment] = useState(false);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setLcNumber(editLC?.lc_number ?? "");
+    setBuyerName(editLC?.buyer_name ?? "");
+    setApplicantName(editLC?.applicant_name ?? "");
+    setContractId(editLC?.contract_id ?? NO_CONTRACT);
+    setLcType(editLC?.lc_type ?? "irrevocable");
+    setCurrency(editLC?.currency ?? "USD");
+    setLcValue(editLC?.lc_value?.toString() ?? "");
+    setTolerancePct(editLC?.tolerance_pct?.toString() ?? "");
+    setIssueDate(editLC?.issue_date ?? "");
+    setExpiryDate(editLC?.expiry_date ?? "");
+    setLatestShipmentDate(editLC?.latest_shipment_date ?? "");
+    setPresentationPeriod((editLC?.presentation_period ?? DEFAULT_PRESENTATION_PERIOD).toString());
+    setPaymentType(editLC?.payment_type ?? "sight");
+    setTenorDays(editLC?.tenor_days?.toString() ?? "");
+    setIncoterms(editLC?.incoterms ?? "");
+    setPortOfLoading(editLC?.port_of_loading ?? "");
+    setPortOfDischarge(editLC?.port_of_discharge ?? "");
+    setIssuingBank(editLC?.applicant_bank_name ?? "");
+    setAdvisingBank(editLC?.advising_bank_name ?? "");
+    setPartialShipment(editLC?.partial_shipment_allowed ?? true);
+    setTranshipment(editLC?.transhipment_allowed ?? false);
+    setNotes(editLC?.notes ?? "");
+  }, [open, editLC]);
+
+  // Pre-fill buyer from the selected contract when creating
+  useEffect(() => {
+    if (isEdit || contractId === NO_CONTRACT || buyerName) return;
+    const c = contracts.find((x) => x.id === contractId);
+    if (c) setBuyerName(c.buyer_name);
+  }, [contractId, contracts, isEdit, buyerName]);
+
+  const dateError =
+    issueDate && expiryDate && expiryDate < issueDate
+      ? "Expiry date is before the issue date"
+      : latestShipmentDate && expiryDate && latestShipmentDate > expiryDate
+        ? "Latest shipment date is after LC expiry"
+        : null;
+
+  const canSubmit = lcNumber.trim() && buyerName.trim() && parseFloat(lcValue) > 0 && issueDate && expiryDate && !dateError;
+
+  function handleSubmit() {
+    if (!canSubmit) return;
+    onSubmit({
+      ...(editLC ? { id: editLC.id } : {}),
+      lc_number: lcNumber.trim(),
+      buyer_name: buyerName.trim(),
+      applicant_name: applicantName.trim() || null,
+      contract_id: contractId === NO_CONTRACT ? null : contractId,
+      lc_type: lcType,
+      currency,
+      lc_value: parseFloat(lcValue),
+      tolerance_pct: tolerancePct ? parseFloat(tolerancePct) : null,
+      issue_date: issueDate,
+      expiry_date: expiryDate,
+      latest_shipment_date: latestShipmentDate || null,
+      presentation_period: presentationPeriod ? parseInt(presentationPeriod) : null,
+      payment_type: paymentType,
+      tenor_days: paymentType === "usance" && tenorDays ? parseInt(tenorDays) : null,
+      incoterms: incoterms.trim() || null,
+      port_of_loading: portOfLoading.trim() || null,
+      port_of_discharge: portOfDischarge.trim() || null,
+      applicant_bank_name: issuingBank.trim() || null,
+      advising_bank_name: advisingBank.trim() || null,
+      partial_shipment_allowed: partialShipment,
+      transhipment_allowed: transhipment,
+      notes: notes.trim() || null,
+      ...(editLC ? {} : { status: "active" }),
+    });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] p-0 overflow-hidden max-h-[90vh] flex flex-col">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">{editLC ? `Edit LC ${editLC.lc_number}` : "New Letter of Credit"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3">
+            <Field label="LC Number">
+              <Input value={lcNumber} onChange={(e) => setLcNumber(e.target.value)} placeholder="e.g. 0012LC2026001" className="h-9" />
+            </Field>
+            <Field label="Sales Contract">
+              <Select value={contractId} onValueChange={setContractId}>
+                <SelectTrigger className="h-9">
+                  <SelectValue placeholder="Not linked" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CONTRACT}>Not linked</SelectItem>
+                  {contracts.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.contract_number} – {c.buyer_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <Field label="Buyer">
+              <Input value={buyerName} onChange={(e) => setBuyerName(e.target.value)} className="h-9" />
+            </Field>
+            <Field label="Applicant">
+              <Input value={applicantName} onChange={(e) => setApplicantName(e.target.value)} placeholder="If different from buyer" className="h-9" />
+            </Field>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <Field label="Currency">
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field label="LC Value">
+              <Input type="number" value={lcValue} onChange={(e) => setLcValue(e.target.value)} placeholder="0.00" className="h-9" />
+            </Field>
+            <Field label="Tolerance ±%">
+              <Input type="number" value={tolerancePct} onChange={(e) => setTolerancePct(e.target.value)} placeholder="e.g. 5" className="h-9" />
+            </Field>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <Field label="Issue Date">
+              <Input type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} className="h-9" />
+            </Field>
+            <Field label="Latest Shipment">
+              <Input type="date" value={latestShipmentDate} onChange={(e) => setLatestShipmentDate(e.target.value)} className="h-9" />
+            </Field>
+            <Field label="Expiry Date">
+              <Input type="date" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} className="h-9" />
+            </Field>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <Field label="LC Type">
+              <Select value={lcType} onValueChange={setLcType}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="irrevocable">Irrevocable</SelectItem>
+                  <SelectItem value="confirmed">Confirmed</SelectItem>
+                  <SelectItem value="transferable">Transferable</SelectItem>
+                  <SelectItem value="revolving">Revolving</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field label="Payment">
+              <Select value={paymentType} onValueChange={setPaymentType}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sight">At sight</SelectItem>
+                  <SelectItem value="usance">Usance / deferred</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+            {paymentType === "usance" ? (
+              <Field label="Tenor (days)">
+                <Input type="number" value={tenorDays} onChange={(e) => setTenorDays(e.target.value)} placeholder="e.g. 90" className="h-9" />
+              </Field>
+            ) : (
+              <Field label="Presentation (days)">
+                <Input type="number" value={presentationPeriod} onChange={(e) => setPresentationPeriod(e.target.value)} className="h-9" />
+              </Field>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <Field label="Incoterms">
+              <Input value={incoterms} onChange={(e) => setIncoterms(e.target.value)} placeholder="FOB" className="h-9" />
+            </Field>
+            <Field label="Port of Loading">
+              <Input value={portOfLoading} onChange={(e) => setPortOfLoading(e.target.value)} placeholder="Chattogram" className="h-9" />
+            </Field>
+            <Field label="Port of Discharge">
+              <Input value={portOfDischarge} onChange={(e) => setPortOfDischarge(e.target.value)} className="h-9" />
+            </Field>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <Field label="Issuing Bank">
+              <Input value={issuingBank} onChange={(e) => setIssuingBank(e.target.value)} className="h-9" />
+            </Field>
+            <Field label="Advising Bank">
+              <Input value={advisingBank} onChange={(e) => setAdvisingBank(e.target.value)} className="h-9" />
+            </Field>
+          </div>
+
+          <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={partialShipment} onCheckedChange={setPartialShipment} />
+              Partial shipment allowed
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={transhipment} onCheckedChange={setTranshipment} />
+              Transhipment allowed
+            </label>
+          </div>
+
+          <Field label="Notes">
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} className="text-sm resize-none" />
+          </Field>
+
+          {dateError && (
+            <div className="flex items-start gap-2.5 p-3 rounded-lg bg-amber-50/60 border border-amber-200/60">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5 text-amber-500" />
+              <span className="text-[11px] text-amber-700/80 leading-relaxed">{dateError}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Saving..." : isEdit ? "Save Changes" : "Create LC"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState, useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { Link2, Unlink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { LCLinkedWorkOrder } from "@/hooks/useLetterOfCredits";
+
+interface Props {
+  linked: LCLinkedWorkOrder[];
+  options: { id: string; po_number: string; buyer: string; style: string }[];
+  contractNumber: string | null;
+  onLink: (workOrderId: string) => void;
+  onUnlink: (linkId: string) => void;
+  isLinking: boolean;
+}
+
+export function LCLinkedOrders({ linked, options, contractNumber, onLink, onUnlink, isLinking }: Props) {
+  const [selected, setSelected] = useState("");
+
+  const available = useMemo(() => {
+    const linkedIds = new Set(linked.map((l) => l.id));
+    return options.filter((o) => !linkedIds.has(o.id));
+  }, [linked, options]);
+
+  const totalQty = linked.reduce((s, l) => s + (l.order_qty || 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={selected} onValueChange={setSelected}>
+          <SelectTrigger className="h-9 sm:max-w-sm">
+            <SelectValue placeholder="Select a PO to link" />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((o) => (
+              <SelectItem key={o.id} value={o.id}>{o.po_number} – {o.buyer} · {o.style}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          className="h-9 gap-1.5"
+          disabled={!selected || isLinking}
+          onClick={() => { onLink(selected); setSelected(""); }}
+        >
+          <Link2 className="h-4 w-4" />
+          Link PO
+        </Button>
+      </div>
+
+      {contractNumber && (
+        <p className="text-xs text-muted-foreground">
+          POs on sales contract <span className="font-medium text-foreground">{contractNumber}</span> are included automatically.
+        </p>
+      )}
+
+      {linked.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-6 text-center">No purchase orders linked to this LC.</p>
+      ) : (
+        <div className="rounded-lg border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO</TableHead>
+                <TableHead>Buyer / Style</TableHead>
+                <TableHead className="text-right">Order Qty</TableHead>
+                <TableHead>Ex-factory</TableHead>
+                <TableHead className="w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {linked.map((wo) => (
+                <TableRow key={wo.id}>
+                  <TableCell className="font-medium">{wo.po_number}</TableCell>
+                  <TableCell className="text-muted-foreground">{wo.buyer} · {wo.style}</TableCell>
+                  <TableCell className="text-right tabular-nums">{wo.order_qty.toLocaleString()}</TableCell>
+                  <TableCell>{wo.planned_ex_factory ? format(parseISO(wo.planned_ex_factory), "d MMM yyyy") : "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {wo.source === "direct" && wo.link_id ? (
+                      <Button variant="ghost" size="sm" className="h-7 gap-1 text-muted-foreground" onClick={() => onUnlink(wo.link_id!)}>
+                        <Unlink className="h-3.5 w-3.5" />
+                        Unlink
+                      </Button>
+                    ) : (
+                      <Badge variant="secondary" className="text-[10px]">Contract</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="bg-muted/30">
+                <TableCell colSpan={2} className="text-xs font-semibold text-muted-foreground">Total</TableCell>
+                <TableCell className="text-right font-semibold tabular-nums">{totalQty.toLocaleString()}</TableCell>
+                <TableCell colSpan={2} />
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
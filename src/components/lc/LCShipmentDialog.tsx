@@ -0,0 +1,206 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { LC_SHIPMENT_STATUS_LABELS, type LCShipmentStatus } from "@/lib/lc-utils";
+import type { LCShipment, MasterLC, ShipmentFormData } from "@/hooks/useLetterOfCredits";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lc: MasterLC;
+  editShipment: LCShipment | null;
+  /** Shipped value on the LC excluding the shipment being edited. */
+  otherShipped: number;
+  onSubmit: (data: ShipmentFormData) => void;
+  isPending: boolean;
+}
+
+export function LCShipmentDialog({ open, onOpenChange, lc, editShipment, otherShipped, onSubmit, isPending }: Props) {
+  const [shipmentDate, setShipmentDate] = useState("");
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [invoiceValue, setInvoiceValue] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [blNumber, setBlNumber] = useState("");
+  const [blDate, setBlDate] = useState("");
+  const [vesselName, setVesselName] = useState("");
+  const [containerNumber, setContainerNumber] = useState("");
+  const [docsSubmitted, setDocsSubmitted] = useState("");
+  const [docsAccepted, setDocsAccepted] = useState("");
+  const [paymentDate, setPaymentDate] = useState("");
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [status, setStatus] = useState<LCShipmentStatus>("shipped");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    const s = editShipment;
+    setShipmentDate(s?.shipment_date ?? format(new Date(), "yyyy-MM-dd"));
+    setInvoiceNumber(s?.invoice_number ?? "");
+    setInvoiceValue(s?.invoice_value?.toString() ?? "");
+    setQuantity(s?.quantity?.toString() ?? "");
+    setBlNumber(s?.bl_number ?? "");
+    setBlDate(s?.bl_date ?? "");
+    setVesselName(s?.vessel_name ?? "");
+    setContainerNumber(s?.container_number ?? "");
+    setDocsSubmitted(s?.docs_submitted_date ?? "");
+    setDocsAccepted(s?.docs_accepted_date ?? "");
+    setPaymentDate(s?.payment_received_date ?? "");
+    setPaymentAmount(s?.payment_amount?.toString() ?? "");
+    setStatus((s?.status as LCShipmentStatus) ?? "shipped");
+    setNotes(s?.notes ?? "");
+  }, [open, editShipment]);
+
+  // Status follows the furthest milestone entered, unless the user picks one
+  useEffect(() => {
+    if (paymentDate) setStatus("paid");
+    else if (docsAccepted) setStatus("docs_accepted");
+    else if (docsSubmitted) setStatus("docs_submitted");
+  }, [docsSubmitted, docsAccepted, paymentDate]);
+
+  const value = parseFloat(invoiceValue) || 0;
+  const ceiling = lc.lc_value * (1 + (lc.tolerance_pct ?? 0) / 100);
+  const remainingAfter = ceiling - otherShipped - value;
+
+  const warnings: string[] = [];
+  if (remainingAfter < 0) warnings.push(`Exceeds the LC value plus tolerance by ${Math.abs(remainingAfter).toLocaleString(undefined, { maximumFractionDigits: 2 })}`);
+  if (lc.latest_shipment_date && shipmentDate > lc.latest_shipment_date) warnings.push("Shipment date is after the LC's latest shipment date");
+  if (shipmentDate > lc.expiry_date) warnings.push("Shipment date is after LC expiry");
+
+  const canSubmit = shipmentDate && value > 0;
+
+  function handleSubmit() {
+    if (!canSubmit) return;
+    onSubmit({
+      ...(editShipment ? { id: editShipment.id } : {}),
+      shipment_date: shipmentDate,
+      invoice_number: invoiceNumber.trim() || null,
+      invoice_value: value,
+      quantity: quantity ? parseInt(quantity) : null,
+      bl_number: blNumber.trim() || null,
+      bl_date: blDate || null,
+      vessel_name: vesselName.trim() || null,
+      container_number: containerNumber.trim() || null,
+      docs_submitted_date: docsSubmitted || null,
+      docs_accepted_date: docsAccepted || null,
+      payment_received_date: paymentDate || null,
+      payment_amount: paymentAmount ? parseFloat(paymentAmount) : null,
+      status,
+      notes: notes.trim() || null,
+    });
+  }
+
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] p-0 overflow-hidden max-h-[90vh] flex flex-col">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">
+            {editShipment ? `Shipment #${editShipment.shipment_number}` : "Record Shipment"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Shipment Date</Label>
+              <Input type="date" value={shipmentDate} onChange={(e) => setShipmentDate(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Invoice No.</Label>
+              <Input value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Invoice Value</Label>
+              <Input type="number" value={invoiceValue} onChange={(e) => setInvoiceValue(e.target.value)} placeholder="0.00" className="h-9" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Quantity (pcs)</Label>
+              <Input type="number" value={quantity} onChange={(e) => setQuantity(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>B/L No.</Label>
+              <Input value={blNumber} onChange={(e) => setBlNumber(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>B/L Date</Label>
+              <Input type="date" value={blDate} onChange={(e) => setBlDate(e.target.value)} className="h-9" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Vessel</Label>
+              <Input value={vesselName} onChange={(e) => setVesselName(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Container No.</Label>
+              <Input value={containerNumber} onChange={(e) => setContainerNumber(e.target.value)} className="h-9" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Docs Submitted</Label>
+              <Input type="date" value={docsSubmitted} onChange={(e) => setDocsSubmitted(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Docs Accepted</Label>
+              <Input type="date" value={docsAccepted} onChange={(e) => setDocsAccepted(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Status</Label>
+              <Select value={status} onValueChange={(v) => setStatus(v as LCShipmentStatus)}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LC_SHIPMENT_STATUS_LABELS) as LCShipmentStatus[]).map((s) => (
+                    <SelectItem key={s} value={s}>{LC_SHIPMENT_STATUS_LABELS[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Payment Received</Label>
+              <Input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Payment Amount</Label>
+              <Input type="number" value={paymentAmount} onChange={(e) => setPaymentAmount(e.target.value)} className="h-9" />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} className="text-sm resize-none" />
+          </div>
+
+          {warnings.map((w) => (
+            <div key={w} className="flex items-start gap-2.5 p-3 rounded-lg bg-amber-50/60 border border-amber-200/60">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5 text-amber-500" />
+              <span className="text-[11px] text-amber-700/80 leading-relaxed">{w}</span>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Saving..." : editShipment ? "Save Shipment" : "Record Shipment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import { AlertTriangle, Clock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { LC_STATUS_COLORS, LC_STATUS_LABELS, type LCStatus, type LCWarning } from "@/lib/lc-utils";
+
+export function LCStatusBadge({ status, className }: { status: LCStatus; className?: string }) {
+  return (
+    <span className={cn("inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border", LC_STATUS_COLORS[status], className)}>
+      {LC_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+/** Compact warning chips for list rows; shows the most urgent first. */
+export function LCWarningChips({ warnings, max = 2 }: { warnings: LCWarning[]; max?: number }) {
+  if (warnings.length === 0) return null;
+  const sorted = [...warnings].sort((a, b) => {
+    if (a.severity !== b.severity) return a.severity === "critical" ? -1 : 1;
+    return (a.daysLeft ?? -999) - (b.daysLeft ?? -999);
+  });
+  const shown = sorted.slice(0, max);
+  const hidden = sorted.length - shown.length;
+
+  return (
+    <div className="flex items-center gap-1.5 flex-wrap">
+      {shown.map((w, i) => (
+        <span
+          key={`${w.kind}-${i}`}
+          className={cn(
+            "inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-medium border",
+            w.severity === "critical"
+              ? "bg-red-50 text-red-700 border-red-200 dark:bg-red-950/40 dark:text-red-400 dark:border-red-800"
+              : "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950/40 dark:text-amber-400 dark:border-amber-800",
+          )}
+        >
+          {w.severity === "critical" ? <AlertTriangle className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+          {w.message}
+        </span>
+      ))}
+      {hidden > 0 && <span className="text-[11px] text-muted-foreground">+{hidden} more</span>}
+    </div>
+  );
+}
@@ -246,6 +246,11 @@ export function LineCardItem({ line, timeRange, qcSummary, onClick }: LineCardIt
           {line.poBreakdown.length > 0 && (
             <span>{line.poBreakdown.length} PO{line.poBreakdown.length !== 1 ? "s" : ""}</span>
           )}
+          {line.efficiencyPct != null && (
+            <span title="Earned minutes (output × SMV) ÷ available minutes">
+              Efficiency: <strong className="text-foreground">{line.efficiencyPct}%</strong>
+            </span>
+          )}
           {line.avgManpower > 0 && (
             <span>Manpower: <strong className="text-foreground">{line.avgManpower}</strong></span>
           )}
@@ -30,6 +30,7 @@ import {
   Stamp,
   Send,
   Loader2,
+  Layers,
 } from "lucide-react";
 import { SewingSubmissionView } from "@/components/SewingSubmissionView";
 import type { SewingTargetData, SewingActualData } from "@/components/SewingSubmissionView";
@@ -37,7 +38,10 @@ import { LinePOTable } from "./LinePOTable";
 import { LineDrilldownTrend } from "./LineDrilldownTrend";
 import { useLineSubmissions } from "./useLineSubmissions";
 import { useLineQCDailySheets, type LineQCDailySheet, type LineQCSheetStatus } from "./useLineQCDailySheets";
+import { WipStatusBadge } from "./LineWipPanel";
+import type { WipPOInfo } from "./useLineWip";
 import { formatShortDate } from "@/lib/date-utils";
+import { formatWipDays, type LineWip, type WipLimits } from "@/lib/line-wip";
 import type { LinePerformanceData, LineTrendData, TimeRange } from "./types";
 
 interface LineDrilldownDrawerProps {
@@ -46,6 +50,10 @@ interface LineDrilldownDrawerProps {
   timeRange: TimeRange;
   dateLabel: string;
   dateRange: { start: string; end: string };
+  /** WIP on this line at the end of the range; null when nothing was fed to it */
+  wip: LineWip | null;
+  wipPOInfo: Map<string, WipPOInfo>;
+  wipLimits: WipLimits;
   open: boolean;
   onClose: () => void;
 }
@@ -62,6 +70,9 @@ export function LineDrilldownDrawer({
   timeRange,
   dateLabel,
   dateRange,
+  wip,
+  wipPOInfo,
+  wipLimits,
   open,
   onClose,
 }: LineDrilldownDrawerProps) {
@@ -264,6 +275,25 @@ export function LineDrilldownDrawer({
             </div>
           )}
 
+          {/* WIP — cutting input not yet sewn */}
+          <Card className="shadow-sm mt-1">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center gap-2">
+                <div className="h-7 w-7 rounded-lg bg-gradient-to-br from-orange-500 to-amber-600 shadow-sm shadow-orange-500/20 flex items-center justify-center">
+                  <Layers className="h-3.5 w-3.5 text-white" />
+                </div>
+                Line WIP
+                {wip && <WipStatusBadge status={wip.status} />}
+                <span className="text-[10px] font-normal text-muted-foreground ml-auto">
+                  Limits {wipLimits.minDays}–{wipLimits.maxDays} days
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <LineWipDetail wip={wip} poInfo={wipPOInfo} />
+            </CardContent>
+          </Card>
+
           {/* PO Contribution */}
           <Card className="shadow-sm mt-1">
             <CardHeader className="pb-3">
@@ -354,6 +384,76 @@ export function LineDrilldownDrawer({
   );
 }
 
+function LineWipDetail({ wip, poInfo }: { wip: LineWip | null; poInfo: Map<string, WipPOInfo> }) {
+  if (!wip) {
+    return (
+      <p className="px-5 pb-6 text-center text-sm text-muted-foreground">
+        No cutting input recorded for this line on active POs.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-3 gap-3 px-5 pb-4">
+        <div>
+          <p className="text-[11px] text-muted-foreground font-medium">Pieces on line</p>
+          <p className="text-xl font-bold font-mono tabular-nums">{wip.wip.toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-[11px] text-muted-foreground font-medium">Run rate / day</p>
+          <p className="text-xl font-bold font-mono tabular-nums">
+            {wip.runRate > 0 ? Math.round(wip.runRate).toLocaleString() : "—"}
+          </p>
+        </div>
+        <div>
+          <p className="text-[11px] text-muted-foreground font-medium">Days of WIP</p>
+          <p className={cn(
+            "text-xl font-bold font-mono tabular-nums",
+            wip.status === "starved" ? "text-red-600 dark:text-red-400"
+              : wip.status === "overloaded" ? "text-amber-600 dark:text-amber-400"
+              : ""
+          )}>
+            {formatWipDays(wip.daysOfWip)}
+          </p>
+        </div>
+      </div>
+      {wip.pos.length > 0 && (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>PO / Buyer · Style</TableHead>
+                <TableHead className="text-right">Input</TableHead>
+                <TableHead className="text-right">Sewn</TableHead>
+                <TableHead className="text-right">WIP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {wip.pos.map((p) => {
+                const info = poInfo.get(p.workOrderId);
+                return (
+                  <TableRow key={p.workOrderId}>
+                    <TableCell className="min-w-0 max-w-[260px]">
+                      <p className="text-xs font-mono font-semibold truncate">{info?.poNumber ?? "—"}</p>
+                      {info && (
+                        <p className="text-[11px] text-muted-foreground truncate">{info.buyer} · {info.style}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-muted-foreground">{p.input.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono text-muted-foreground">{p.output.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono font-semibold">{p.wip.toLocaleString()}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </>
+  );
+}
+
 const QC_STATUS_META: Record<
   LineQCSheetStatus,
   { label: string; icon: typeof BadgeCheck; pillClass: string; rowAccent: string }
@@ -87,7 +87,7 @@ async function exportCsv(lines: LinePerformanceData[], timeRange: TimeRange, dat
   const headers = [
     "Line", "Unit", "Floor", "Status",
     "PO Number", "Buyer", "Style", "Item",
-    "Target (pcs)", "Output (pcs)", "Achievement %", "Variance",
+    "Target (pcs)", "Output (pcs)", "Achievement %", "Efficiency %", "Variance",
     "Avg Output/Day", "Avg Manpower", "Blockers",
     "Target Submitted", "EOD Submitted",
   ];
@@ -110,6 +110,7 @@ async function exportCsv(lines: LinePerformanceData[], timeRange: TimeRange, dat
         status, "", "", "", "",
         line.totalTarget.toLocaleString(), line.totalOutput.toLocaleString(),
         line.totalTarget > 0 ? `${line.achievementPct}%` : "N/A",
+        line.efficiencyPct != null ? `${line.efficiencyPct}%` : "N/A",
         String(line.variance),
         line.avgDailyOutput > 0 ? line.avgDailyOutput.toLocaleString() : "",
         String(line.avgManpower), String(line.totalBlockers),
@@ -125,6 +126,7 @@ async function exportCsv(lines: LinePerformanceData[], timeRange: TimeRange, dat
           po.poNumber, po.buyer, po.style, po.item || "",
           po.target.toLocaleString(), po.output.toLocaleString(),
           po.target > 0 ? `${po.achievementPct}%` : "N/A",
+          po.efficiencyPct != null ? `${po.efficiencyPct}%` : "N/A",
           String(po.output - po.target),
           po.avgDailyOutput > 0 ? po.avgDailyOutput.toLocaleString() : "",
           idx === 0 ? String(line.avgManpower) : "",
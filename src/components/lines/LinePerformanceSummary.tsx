@@ -1,6 +1,6 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
-import { TrendingUp, CheckCircle2, AlertTriangle, BarChart3 } from "lucide-react";
+import { TrendingUp, CheckCircle2, AlertTriangle, BarChart3, Gauge } from "lucide-react";
 import type { FactorySummary } from "./types";
 
 interface LinePerformanceSummaryProps {
@@ -25,6 +25,14 @@ const kpis = [
     border: "border-blue-200/60 dark:border-blue-800/40",
     bg: "from-blue-50 via-white to-blue-50/50 dark:from-blue-950/40 dark:via-card dark:to-blue-950/20",
   },
+  {
+    key: "efficiency",
+    icon: Gauge,
+    gradient: "from-violet-500 to-purple-600",
+    shadow: "shadow-violet-500/20",
+    border: "border-violet-200/60 dark:border-violet-800/40",
+    bg: "from-violet-50 via-white to-violet-50/50 dark:from-violet-950/40 dark:via-card dark:to-violet-950/20",
+  },
   {
     key: "onTarget",
     icon: CheckCircle2,
@@ -54,12 +62,13 @@ export function LinePerformanceSummary({
   const data = [
     { label: "Total Output",    value: summary.totalOutput > 0 ? summary.totalOutput.toLocaleString() : "—", valueClass: "text-emerald-700 dark:text-emerald-300 font-mono tabular-nums" },
     { label: "Avg Output/Line", value: avgDailyOutput > 0 ? avgDailyOutput.toLocaleString() : "—", valueClass: "text-blue-700 dark:text-blue-300 font-mono tabular-nums" },
+    { label: "Efficiency",      value: summary.efficiencyPct != null ? `${summary.efficiencyPct}%` : "—", valueClass: "text-violet-700 dark:text-violet-300 font-mono tabular-nums" },
     { label: "On Target",       value: String(summary.linesOnTarget), valueClass: "text-emerald-700 dark:text-emerald-300" },
     { label: "Below Target",    value: String(summary.linesBelowTarget), valueClass: summary.linesBelowTarget > 0 ? "text-red-600 dark:text-red-400" : "text-muted-foreground" },
   ];
 
   return (
-    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
       {kpis.map((kpi, i) => {
         const Icon = kpi.icon;
         const d = data[i];
@@ -0,0 +1,222 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { cn } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Layers, Loader2, Settings } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatWipDays, poWipTotals, wipAlerts, type LineWip, type WipLimits, type WipStatus } from "@/lib/line-wip";
+import type { LinePerformanceData } from "./types";
+import type { WipPOInfo } from "./useLineWip";
+
+const STATUS_META: Record<WipStatus, { label: string; className: string }> = {
+  starved: {
+    label: "Starved",
+    className: "bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-400",
+  },
+  overloaded: {
+    label: "Overloaded",
+    className: "bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-400",
+  },
+  ok: {
+    label: "Balanced",
+    className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-400",
+  },
+  idle: {
+    label: "Idle",
+    className: "bg-gray-100 text-gray-600 dark:bg-gray-500/20 dark:text-gray-400",
+  },
+};
+
+export function WipStatusBadge({ status }: { status: WipStatus }) {
+  const meta = STATUS_META[status];
+  return (
+    <span className={cn("inline-flex items-center text-[10px] font-semibold px-2 py-0.5 rounded-md whitespace-nowrap", meta.className)}>
+      {meta.label}
+    </span>
+  );
+}
+
+interface LineWipPanelProps {
+  /** Lines visible on the page; WIP for other lines is left out */
+  lines: LinePerformanceData[];
+  wip: LineWip[];
+  poInfo: Map<string, WipPOInfo>;
+  limits: WipLimits;
+  loading: boolean;
+  onLineClick: (lineId: string) => void;
+}
+
+export function LineWipPanel({ lines, wip, poInfo, limits, loading, onLineClick }: LineWipPanelProps) {
+  const { isAdminOrHigher } = useAuth();
+  const [view, setView] = useState<"line" | "po">("line");
+
+  const lineNames = useMemo(
+    () => new Map(lines.map((l) => [l.id, l.name || l.lineId])),
+    [lines]
+  );
+
+  const visible = useMemo(() => wip.filter((w) => lineNames.has(w.lineId)), [wip, lineNames]);
+  const alerts = useMemo(() => wipAlerts(visible), [visible]);
+  const pos = useMemo(() => poWipTotals(visible), [visible]);
+  const totalWip = visible.reduce((s, w) => s + w.wip, 0);
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex flex-wrap items-center gap-2">
+          <div className="h-7 w-7 rounded-lg bg-gradient-to-br from-orange-500 to-amber-600 shadow-sm shadow-orange-500/20 flex items-center justify-center">
+            <Layers className="h-3.5 w-3.5 text-white" />
+          </div>
+          Line WIP
+          {!loading && (
+            <span className="text-sm font-normal text-muted-foreground font-mono tabular-nums">
+              {totalWip.toLocaleString()} pcs
+            </span>
+          )}
+          <span className="text-[10px] font-normal text-muted-foreground ml-auto flex items-center gap-2">
+            Limits {limits.minDays}–{limits.maxDays} days of WIP
+            {isAdminOrHigher() && (
+              <Link to="/setup" className="inline-flex items-center gap-1 text-primary hover:underline">
+                <Settings className="h-3 w-3" />
+                Change
+              </Link>
+            )}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 p-0">
+        {loading ? (
+          <div className="px-5 py-6 flex items-center justify-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Loading WIP…
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="px-5 pb-6 text-center text-sm text-muted-foreground">
+            No cutting input or sewing output on active POs for these lines.
+          </p>
+        ) : (
+          <>
+            {/* Lines outside the limits */}
+            {alerts.length > 0 && (
+              <div className="mx-5 rounded-lg border border-amber-200/60 dark:border-amber-700/40 bg-amber-50 dark:bg-amber-500/10 px-3 py-2.5 space-y-1">
+                {alerts.map((a) => (
+                  <button
+                    key={a.lineId}
+                    type="button"
+                    onClick={() => onLineClick(a.lineId)}
+                    className="flex w-full items-center gap-2 text-left text-xs hover:underline"
+                  >
+                    <AlertTriangle
+                      className={cn(
+                        "h-3.5 w-3.5 shrink-0",
+                        a.status === "starved" ? "text-red-600 dark:text-red-400" : "text-amber-600 dark:text-amber-400"
+                      )}
+                    />
+                    <span className="font-semibold">{lineNames.get(a.lineId)}</span>
+                    <span className="text-muted-foreground">
+                      {a.status === "starved" ? "running out of work" : "holding too much WIP"}
+                      {" — "}
+                      {formatWipDays(a.daysOfWip)} ({a.wip.toLocaleString()} pcs)
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="px-5 flex gap-1">
+              <Button size="sm" variant={view === "line" ? "secondary" : "ghost"} className="h-7 text-xs" onClick={() => setView("line")}>
+                By line
+              </Button>
+              <Button size="sm" variant={view === "po" ? "secondary" : "ghost"} className="h-7 text-xs" onClick={() => setView("po")}>
+                By PO
+              </Button>
+            </div>
+
+            <div className="overflow-x-auto">
+              {view === "line" ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead>Line</TableHead>
+                      <TableHead className="text-right">WIP</TableHead>
+                      <TableHead className="text-right hidden sm:table-cell">Run rate / day</TableHead>
+                      <TableHead className="text-right">Days of WIP</TableHead>
+                      <TableHead className="hidden md:table-cell">POs</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map((w) => (
+                      <TableRow key={w.lineId} className="cursor-pointer hover:bg-muted/40" onClick={() => onLineClick(w.lineId)}>
+                        <TableCell className="font-medium">{lineNames.get(w.lineId)}</TableCell>
+                        <TableCell className="text-right font-mono tabular-nums">{w.wip.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono tabular-nums text-muted-foreground hidden sm:table-cell">
+                          {w.runRate > 0 ? Math.round(w.runRate).toLocaleString() : "—"}
+                        </TableCell>
+                        <TableCell className="text-right font-mono tabular-nums">{formatWipDays(w.daysOfWip)}</TableCell>
+                        <TableCell className="hidden md:table-cell text-xs text-muted-foreground truncate max-w-[220px]">
+                          {w.pos.map((p) => poInfo.get(p.workOrderId)?.poNumber ?? "—").join(", ") || "—"}
+                        </TableCell>
+                        <TableCell>
+                          <WipStatusBadge status={w.status} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : pos.length === 0 ? (
+                <p className="px-5 pb-6 text-center text-sm text-muted-foreground">No POs have pieces waiting on a line.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead>PO</TableHead>
+                      <TableHead className="hidden md:table-cell">Lines</TableHead>
+                      <TableHead className="text-right hidden sm:table-cell">Input</TableHead>
+                      <TableHead className="text-right hidden sm:table-cell">Sewn</TableHead>
+                      <TableHead className="text-right">WIP</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pos.map((p) => {
+                      const info = poInfo.get(p.workOrderId);
+                      return (
+                        <TableRow key={p.workOrderId}>
+                          <TableCell className="min-w-0 max-w-[260px]">
+                            <p className="text-xs font-mono font-semibold truncate">{info?.poNumber ?? "—"}</p>
+                            {info && (
+                              <p className="text-[11px] text-muted-foreground truncate">{info.buyer} · {info.style}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="hidden md:table-cell text-xs text-muted-foreground">
+                            {p.lineIds.map((id) => lineNames.get(id)).join(", ")}
+                          </TableCell>
+                          <TableCell className="text-right font-mono tabular-nums text-muted-foreground hidden sm:table-cell">
+                            {p.input.toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-right font-mono tabular-nums text-muted-foreground hidden sm:table-cell">
+                            {p.output.toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-right font-mono tabular-nums font-semibold">{p.wip.toLocaleString()}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
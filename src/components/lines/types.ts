@@ -21,6 +21,8 @@ export interface POBreakdown {
   target: number;
   output: number;
   achievementPct: number;
+  /** SMV efficiency (earned ÷ available minutes); null without SMV or manpower */
+  efficiencyPct: number | null;
   avgDailyOutput: number;
   activeDays: number;
   targetContributionPct: number;
@@ -38,6 +40,7 @@ export interface LinePerformanceData {
   totalTarget: number;
   totalOutput: number;
   achievementPct: number;
+  efficiencyPct: number | null;
   variance: number;
   avgManpower: number;
   totalOtHours: number;
@@ -60,6 +63,7 @@ export interface DailyTrendPoint {
   target: number;
   output: number;
   achievementPct: number;
+  efficiencyPct: number | null;
   manpower: number;
   blockers: number;
 }
@@ -79,6 +83,7 @@ export interface FactorySummary {
   totalTarget: number;
   totalOutput: number;
   overallAchievement: number;
+  efficiencyPct: number | null;
   linesOnTarget: number;
   linesBelowTarget: number;
   bestLine: { name: string; pct: number } | null;
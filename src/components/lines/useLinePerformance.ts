@@ -16,6 +16,13 @@ import type {
 } from "./types";
 
 import { compareLineNames, lineNumber } from "@/lib/sort-lines";
+import {
+  toEfficiencyRecord,
+  groupEfficiency,
+  efficiencyByLine,
+  summarizeEfficiency,
+  type EfficiencyRecord,
+} from "@/lib/efficiency";
 
 function extractLineNumber(lineId: string): number {
   return lineNumber(lineId);
@@ -115,7 +122,7 @@ export function useLinePerformance() {
 
       let actualsQuery = supabase
         .from("sewing_actuals")
-        .select("line_id, work_order_id, production_date, good_today, manpower_actual, has_blocker, ot_hours_actual, ot_manpower_actual")
+        .select("line_id, work_order_id, production_date, good_today, manpower_actual, hours_actual, has_blocker, ot_hours_actual, ot_manpower_actual, work_orders(smv)")
         .eq("factory_id", factoryId);
 
       if (timeRange === "daily") {
@@ -257,8 +264,18 @@ export function useLinePerformance() {
     return result;
   }, [rawAvgActuals, rawActuals, timeRange]);
 
+  // SMV efficiency inputs, one per actuals row
+  const efficiencyRecords = useMemo((): EfficiencyRecord[] => {
+    const lineLocation = new Map<string, { floor: string | null; unit: string | null }>();
+    rawLines.forEach((l) => lineLocation.set(l.id, { floor: l.floors?.name || null, unit: l.units?.name || null }));
+    return rawActuals.map((a) => toEfficiencyRecord(a, a.work_orders?.smv, lineLocation.get(a.line_id)));
+  }, [rawLines, rawActuals]);
+
   // Compute line performance data
   const lines = useMemo((): LinePerformanceData[] => {
+    const lineEfficiency = efficiencyByLine(efficiencyRecords);
+    const poEfficiency = groupEfficiency(efficiencyRecords, (r) => `${r.lineId}|${r.workOrderId}`);
+
     // Build a set of work_order_ids that have actuals submitted per line
     // so we can exclude target-only POs from achievement/variance stats
     const woIdsWithActuals = new Map<string, Set<string>>();
@@ -364,6 +381,7 @@ export function useLinePerformance() {
           target: poTarget,
           output: poOutput,
           achievementPct: poTarget > 0 ? Math.round((poOutput / poTarget) * 100) : 0,
+          efficiencyPct: poEfficiency.get(`${line.id}|${woId}`)?.efficiency ?? null,
           avgDailyOutput: poOutputDays > 0 ? Math.round(poOutput / poOutputDays) : 0,
           activeDays: poOutputDays,
           targetContributionPct: 0, // computed after totals
@@ -407,6 +425,7 @@ export function useLinePerformance() {
         totalTarget: displayTarget,
         totalOutput,
         achievementPct,
+        efficiencyPct: lineEfficiency.get(line.id)?.efficiency ?? null,
         variance: totalOutput - totalTarget,
         avgManpower,
         totalOtHours,
@@ -426,13 +445,15 @@ export function useLinePerformance() {
     // Sort by line number
     result.sort((a, b) => compareLineNames(a.lineId, b.lineId));
     return result;
-  }, [rawLines, rawTargets, rawActuals, woMap, avgOutputByLine]);
+  }, [rawLines, rawTargets, rawActuals, woMap, avgOutputByLine, efficiencyRecords]);
 
   // Build trend data per line (only for range modes)
   const trendData = useMemo((): Map<string, LineTrendData> => {
     if (timeRange === "daily") return new Map();
 
     const map = new Map<string, LineTrendData>();
+    const dayEfficiency = groupEfficiency(efficiencyRecords, (r) => `${r.lineId}|${r.date}`);
+    const poDayEfficiency = groupEfficiency(efficiencyRecords, (r) => `${r.lineId}|${r.workOrderId}|${r.date}`);
 
     // Group actuals by line_id + date (build first so we can pair targets)
     const actualsByLineDate = new Map<string, Map<string, { output: number; manpower: number; blockers: number }>>();
@@ -493,6 +514,7 @@ export function useLinePerformance() {
           target,
           output: actual.output,
           achievementPct: target > 0 ? Math.round((actual.output / target) * 100) : 0,
+          efficiencyPct: dayEfficiency.get(`${lineId}|${date}`)?.efficiency ?? null,
           manpower: actual.manpower,
           blockers: actual.blockers,
         };
@@ -514,6 +536,7 @@ export function useLinePerformance() {
             target: 0,
             output,
             achievementPct: 0,
+            efficiencyPct: poDayEfficiency.get(`${lineId}|${woId}|${date}`)?.efficiency ?? null,
             manpower: 0,
             blockers: 0,
           });
@@ -524,7 +547,7 @@ export function useLinePerformance() {
     });
 
     return map;
-  }, [rawLines, rawTargets, rawActuals, woMap, timeRange]);
+  }, [rawLines, rawTargets, rawActuals, woMap, timeRange, efficiencyRecords]);
 
   // Apply filters (client-side)
   const filteredLines = useMemo(() => {
@@ -588,8 +611,12 @@ export function useLinePerformance() {
       };
     }
 
-    return { totalTarget, totalOutput, overallAchievement, linesOnTarget, linesBelowTarget, bestLine, worstLine };
-  }, [filteredLines]);
+    // Efficiency is pooled from the underlying rows, not averaged across lines
+    const shownLineIds = new Set(activeLines.map((l) => l.id));
+    const efficiencyPct = summarizeEfficiency(efficiencyRecords.filter((r) => shownLineIds.has(r.lineId))).efficiency;
+
+    return { totalTarget, totalOutput, overallAchievement, efficiencyPct, linesOnTarget, linesBelowTarget, bestLine, worstLine };
+  }, [filteredLines, efficiencyRecords]);
 
   return {
     loading,
@@ -0,0 +1,86 @@
+import { useEffect, useMemo, useState } from "react";
+import { format, parseISO, subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  computeLineWip,
+  poWipTotals,
+  resolveWipLimits,
+  RUN_RATE_LOOKBACK_DAYS,
+  type CuttingInputRow,
+  type LineWip,
+  type SewingOutputRow,
+} from "@/lib/line-wip";
+
+export interface WipPOInfo {
+  poNumber: string;
+  buyer: string;
+  style: string;
+}
+
+/**
+ * WIP on each sewing line as of `asOf` (YYYY-MM-DD), from cutting input and
+ * sewing output on active POs. WIP is a running balance over each PO's full
+ * history, so the totals per line and PO are summed server-side; only the
+ * recent days the run rate needs come back as daily rows.
+ */
+export function useLineWip(asOf: string) {
+  const { profile, factory } = useAuth();
+  const [inputs, setInputs] = useState<CuttingInputRow[]>([]);
+  const [outputs, setOutputs] = useState<SewingOutputRow[]>([]);
+  const [poInfo, setPOInfo] = useState<Map<string, WipPOInfo>>(new Map());
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const factoryId = profile?.factory_id;
+    if (!factoryId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    (async () => {
+      const since = format(subDays(parseISO(asOf), RUN_RATE_LOOKBACK_DAYS), "yyyy-MM-dd");
+      const [cuttingRes, sewingRes] = await Promise.all([
+        supabase.rpc("line_wip_input", { p_factory_id: factoryId, p_as_of: asOf }),
+        supabase.rpc("line_wip_output", { p_factory_id: factoryId, p_as_of: asOf, p_since: since }),
+      ]);
+
+      if (cancelled) return;
+      const failed = [cuttingRes, sewingRes].find((r) => r.error);
+      if (failed) {
+        console.error("Error loading line WIP:", failed.error);
+        setLoading(false);
+        return;
+      }
+
+      const info = new Map<string, WipPOInfo>();
+      for (const row of [...(cuttingRes.data ?? []), ...(sewingRes.data ?? [])]) {
+        if (!info.has(row.work_order_id)) {
+          info.set(row.work_order_id, { poNumber: row.po_number, buyer: row.buyer, style: row.style });
+        }
+      }
+
+      setInputs(cuttingRes.data ?? []);
+      setOutputs(sewingRes.data ?? []);
+      setPOInfo(info);
+      setLoading(false);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile?.factory_id, asOf]);
+
+  const limits = useMemo(
+    () => resolveWipLimits(factory?.wip_min_days, factory?.wip_max_days),
+    [factory?.wip_min_days, factory?.wip_max_days]
+  );
+
+  const lines = useMemo(() => computeLineWip(inputs, outputs, limits, asOf), [inputs, outputs, limits, asOf]);
+
+  const byLineId = useMemo(() => new Map<string, LineWip>(lines.map((l) => [l.lineId, l])), [lines]);
+
+  const pos = useMemo(() => poWipTotals(lines), [lines]);
+
+  return { lines, byLineId, pos, poInfo, limits, loading };
+}
@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { diffFields, type MergeChoice } from "@/lib/offline-conflicts";
+import type { ConflictResolution, QueuedSubmission } from "@/lib/offline-queue";
+
+interface ConflictReviewDialogProps {
+  submission: QueuedSubmission | null;
+  onOpenChange: (open: boolean) => void;
+  isPending: boolean;
+  onResolve: (resolution: ConflictResolution, choices?: Record<string, MergeChoice>) => void;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length === 0 ? "—" : `${value.length} item(s)`;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function fieldLabel(field: string): string {
+  return field.replace(/_/g, " ");
+}
+
+export function ConflictReviewDialog({ submission, onOpenChange, isPending, onResolve }: ConflictReviewDialogProps) {
+  const serverRow = submission?.conflict?.serverRow;
+  const diffs = useMemo(
+    () => (submission && serverRow ? diffFields(submission.payload, serverRow) : []),
+    [submission, serverRow],
+  );
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [submission?.id]);
+
+  const choiceFor = (field: string): MergeChoice => choices[field] ?? "queued";
+  const keepsServer = diffs.some((d) => choiceFor(d.field) === "server");
+
+  return (
+    <Dialog open={!!submission} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Review Conflict</DialogTitle>
+          <DialogDescription>
+            {submission && (
+              <>
+                Your {submission.formType.replace(/_/g, " ")} from {format(new Date(submission.timestamp), "MMM d, h:mm a")} doesn't
+                match the record already on the server. Pick which value to keep for each field.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[50vh] overflow-y-auto rounded-lg border border-border/50">
+          <div className="grid grid-cols-[1fr_1fr_1fr] gap-px bg-border/50 text-xs">
+            <div className="bg-muted px-3 py-2 font-medium">Field</div>
+            <div className="bg-muted px-3 py-2 font-medium">On server</div>
+            <div className="bg-muted px-3 py-2 font-medium">Queued on this device</div>
+            {diffs.map((d) => (
+              <div key={d.field} className="contents">
+                <div className="bg-background px-3 py-2 capitalize text-muted-foreground">{fieldLabel(d.field)}</div>
+                {(["server", "queued"] as const).map((side) => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => setChoices((prev) => ({ ...prev, [d.field]: side }))}
+                    className={cn(
+                      "bg-background px-3 py-2 text-left font-mono break-all transition-colors",
+                      choiceFor(d.field) === side ? "bg-primary/10 text-foreground ring-1 ring-inset ring-primary" : "text-muted-foreground hover:bg-muted/50",
+                    )}
+                  >
+                    {formatValue(side === "server" ? d.server : d.queued)}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+        <p className="text-[11px] text-muted-foreground">
+          Fields not listed are the same on both sides.
+        </p>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" className="text-destructive" disabled={isPending} onClick={() => onResolve("discard")}>
+            Discard Mine
+          </Button>
+          <Button variant="outline" disabled={isPending || !keepsServer} onClick={() => onResolve("merge", choices)}>
+            Save Merge
+          </Button>
+          <Button disabled={isPending} onClick={() => onResolve("overwrite")}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Overwrite Server
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { formatShortDate } from "@/lib/date-utils";
+import type { MilestoneState, TnAStatus } from "@/lib/tna";
+
+export const MILESTONE_STATE_CLASS: Record<MilestoneState, string> = {
+  done:      "bg-success/10 text-success border-success/20",
+  done_late: "bg-warning/10 text-warning border-warning/20",
+  overdue:   "bg-destructive/10 text-destructive border-destructive/20",
+  due_soon:  "bg-warning/10 text-warning border-warning/20",
+  open:      "bg-muted text-muted-foreground border-transparent",
+};
+
+interface Props {
+  tna: TnAStatus | null;
+}
+
+/** Next open T&A milestone for a PO, coloured by how it stands. */
+export function MilestoneBadge({ tna }: Props) {
+  if (!tna) return <span className="text-muted-foreground text-xs">—</span>;
+
+  const next = tna.next;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          {next ? (
+            <span
+              className={cn(
+                "inline-flex flex-col items-start whitespace-nowrap rounded-md border px-2 py-0.5 text-[11px] leading-4 max-w-[140px]",
+                MILESTONE_STATE_CLASS[next.state],
+              )}
+            >
+              <span className="flex items-center gap-1 font-medium max-w-full truncate">
+                {next.state === "overdue" && <AlertTriangle className="h-3 w-3 shrink-0" />}
+                <span className="truncate">{next.label}</span>
+              </span>
+              <span className="text-[10px] opacity-80">{formatShortDate(next.planned_date)}</span>
+            </span>
+          ) : (
+            <span className="inline-flex items-center gap-1 text-[11px] font-medium text-success">
+              <CheckCircle2 className="h-3 w-3" />
+              All done
+            </span>
+          )}
+        </TooltipTrigger>
+        <TooltipContent side="top" className="max-w-[240px]">
+          <ul className="text-xs space-y-0.5">
+            <li>{tna.done} of {tna.total} milestones done</li>
+            {tna.overdue > 0 && <li>• {tna.overdue} overdue</li>}
+            {tna.slipDays > 0 && tna.projectedExFactory && (
+              <li>• {tna.slipDays} working day{tna.slipDays !== 1 ? "s" : ""} behind — ex-factory at risk of slipping to {formatShortDate(tna.projectedExFactory)}</li>
+            )}
+          </ul>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
@@ -52,6 +52,7 @@ interface Props {
   detailLoading: boolean;
   onToggleExpand: (id: string) => void;
   onViewExtras?: (po: POControlRoomData) => void;
+  onMilestonesChange?: () => void;
 }
 
 export function POClusterSection({
@@ -62,10 +63,11 @@ export function POClusterSection({
   detailLoading,
   onToggleExpand,
   onViewExtras,
+  onMilestonesChange,
 }: Props) {
   const meta = CLUSTER_META[cluster];
-  // chevron + PO# + Order + Buyer/Style + Line + Qty + Sewing + Finishing + Remaining + Ex-Factory + Avg/day + Need/day + Actions = 13
-  const colSpan = 13;
+  // chevron + PO# + Order + Buyer/Style + Line + Qty + Sewing + Finishing + Remaining + Ex-Factory + Milestone + Avg/day + Need/day + Actions = 14
+  const colSpan = 14;
 
   return (
     <div className="rounded-lg border overflow-hidden">
@@ -93,6 +95,7 @@ export function POClusterSection({
               <TableHead className="text-right whitespace-nowrap">Finishing</TableHead>
               <TableHead className="text-right whitespace-nowrap">Remaining</TableHead>
               <TableHead className="whitespace-nowrap">Ex-Factory</TableHead>
+              <TableHead className="whitespace-nowrap">Milestone</TableHead>
               <TableHead className="text-right whitespace-nowrap">Avg/day</TableHead>
               <TableHead className="text-right whitespace-nowrap">Need/day</TableHead>
               <TableHead className="w-8" />
@@ -116,6 +119,7 @@ export function POClusterSection({
                         po={po}
                         detailData={detailData}
                         loading={detailLoading}
+                        onMilestonesChange={onMilestonesChange}
                       />
                     </TableCell>
                   </TableRow>
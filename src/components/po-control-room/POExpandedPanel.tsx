@@ -4,23 +4,29 @@ import { cn } from "@/lib/utils";
 import { POSubmissionsTab } from "./POSubmissionsTab";
 import { POPipelineTab } from "./POPipelineTab";
 import { POQualityTab } from "./POQualityTab";
+import { POMilestonesTab } from "./POMilestonesTab";
+import { POSizesTab } from "./POSizesTab";
 import type { POControlRoomData, PODetailData } from "./types";
 
 interface Props {
   po: POControlRoomData;
   detailData: PODetailData | null;
   loading: boolean;
+  /** Called after a T&A milestone is created or edited */
+  onMilestonesChange?: () => void;
 }
 
 const TABS = [
   { id: "pipeline", label: "Pipeline" },
   { id: "submissions", label: "Submissions" },
+  { id: "sizes", label: "Sizes" },
   { id: "quality", label: "Quality" },
+  { id: "milestones", label: "T&A" },
 ] as const;
 
 type TabId = (typeof TABS)[number]["id"];
 
-export function POExpandedPanel({ po, detailData, loading }: Props) {
+export function POExpandedPanel({ po, detailData, loading, onMilestonesChange }: Props) {
   const [activeTab, setActiveTab] = useState<TabId>("pipeline");
 
   if (loading || !detailData) {
@@ -61,8 +67,14 @@ export function POExpandedPanel({ po, detailData, loading }: Props) {
       {activeTab === "pipeline" && (
         <POPipelineTab stages={detailData.pipeline} />
       )}
+      {activeTab === "sizes" && (
+        <POSizesTab po={po} />
+      )}
       {activeTab === "quality" && (
-        <POQualityTab quality={detailData.quality} orderQty={po.order_qty} />
+        <POQualityTab workOrderId={po.id} quality={detailData.quality} orderQty={po.order_qty} />
+      )}
+      {activeTab === "milestones" && (
+        <POMilestonesTab po={po} onChange={onMilestonesChange} />
       )}
     </div>
   );
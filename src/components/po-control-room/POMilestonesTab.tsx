@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { CalendarClock, ListChecks, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { formatShortDate } from "@/lib/date-utils";
+import { useAuth } from "@/contexts/AuthContext";
+import { useWorkingCalendar } from "@/hooks/useFactoryHolidays";
+import { useMilestoneOwners, usePOMilestoneMutations, useTnATemplates } from "@/hooks/useTnA";
+import { MILESTONE_STATE_LABELS, planMilestones, replanMilestones, resolveTemplate, type TrackedMilestone } from "@/lib/tna";
+import { MILESTONE_STATE_CLASS } from "./MilestoneBadge";
+import type { POControlRoomData } from "./types";
+
+interface Props {
+  po: POControlRoomData;
+  onChange?: () => void;
+}
+
+const NO_OWNER = "none";
+
+export function POMilestonesTab({ po, onChange }: Props) {
+  const { user, isAdminOrHigher } = useAuth();
+  const { calendar } = useWorkingCalendar();
+  const { templates } = useTnATemplates();
+  const { owners } = useMilestoneOwners();
+  const { generateMilestones, updateMilestone, replanMilestones: replan } = usePOMilestoneMutations();
+  const [templateId, setTemplateId] = useState("");
+
+  useEffect(() => {
+    if (!templateId) setTemplateId(resolveTemplate(templates, po.item)?.id ?? "");
+  }, [templates, po.item, templateId]);
+
+  const canManage = isAdminOrHigher();
+  const tna = po.tna;
+
+  // ── No plan yet ──
+  if (!tna) {
+    const template = templates.find((t) => t.id === templateId) ?? null;
+    return (
+      <div className="flex flex-col items-center gap-3 py-8 text-center">
+        <ListChecks className="h-6 w-6 text-muted-foreground" />
+        {!po.planned_ex_factory ? (
+          <p className="text-sm text-muted-foreground">Set an ex-factory date on this PO to plan its milestones.</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No T&A templates yet — add one under Setup to plan this PO.</p>
+        ) : !canManage ? (
+          <p className="text-sm text-muted-foreground">No T&A plan for this PO yet.</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Count milestones back from ex-factory {formatShortDate(po.planned_ex_factory)}.
+            </p>
+            <div className="flex items-center gap-2">
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger className="h-9 w-[200px]">
+                  <SelectValue placeholder="Choose a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                className="h-9"
+                disabled={!template || generateMilestones.isPending}
+                onClick={() =>
+                  template &&
+                  generateMilestones.mutate(
+                    {
+                      workOrderId: po.id,
+                      poNumber: po.po_number,
+                      templateId: template.id,
+                      plan: planMilestones(template.items, po.planned_ex_factory!, calendar),
+                    },
+                    { onSuccess: () => onChange?.() }
+                  )
+                }
+              >
+                {generateMilestones.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create T&A plan
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  // ── Plan ──
+  const replanUpdates = po.planned_ex_factory ? replanMilestones(tna.milestones, po.planned_ex_factory, calendar) : [];
+  const save = (m: TrackedMilestone, patch: { actual_date?: string | null; owner_id?: string | null }) =>
+    updateMilestone.mutate({ milestone: m, patch }, { onSuccess: () => onChange?.() });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <span>
+          <span className="font-semibold text-foreground">{tna.done}</span> of {tna.total} done
+        </span>
+        {tna.overdue > 0 && <span className="text-destructive font-medium">{tna.overdue} overdue</span>}
+        {tna.slipDays > 0 && tna.projectedExFactory && (
+          <span className="flex items-center gap-1 text-destructive">
+            <CalendarClock className="h-3.5 w-3.5" />
+            {tna.slipDays} working day{tna.slipDays !== 1 ? "s" : ""} behind — ex-factory projected {formatShortDate(tna.projectedExFactory)}
+          </span>
+        )}
+        {canManage && replanUpdates.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto h-7 text-xs"
+            disabled={replan.isPending}
+            onClick={() => replan.mutate(replanUpdates, { onSuccess: () => onChange?.() })}
+          >
+            Re-plan from ex-factory
+          </Button>
+        )}
+      </div>
+
+      <div className="rounded-lg border divide-y">
+        <div className="grid grid-cols-[1fr_70px_140px_70px_160px_80px] gap-2 px-3 py-2 text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
+          <span>Milestone</span>
+          <span>Planned</span>
+          <span>Actual</span>
+          <span>Projected</span>
+          <span>Owner</span>
+          <span className="text-right">Status</span>
+        </div>
+        {tna.milestones.map((m) => {
+          const canRecord = canManage || (!!user && m.owner_id === user.id);
+          return (
+            <div key={m.id} className="grid grid-cols-[1fr_70px_140px_70px_160px_80px] items-center gap-2 px-3 py-1.5 text-sm">
+              <span className="font-medium truncate" title={m.label}>{m.label}</span>
+              <span className="text-xs tabular-nums">{formatShortDate(m.planned_date)}</span>
+              <Input
+                type="date"
+                value={m.actual_date ?? ""}
+                disabled={!canRecord || updateMilestone.isPending}
+                onChange={(e) => save(m, { actual_date: e.target.value || null })}
+                className="h-8 text-xs"
+              />
+              <span className={cn("text-xs tabular-nums", m.projectedDate !== m.planned_date && !m.actual_date && "text-destructive")}>
+                {m.actual_date ? "—" : formatShortDate(m.projectedDate)}
+              </span>
+              <Select
+                value={m.owner_id ?? NO_OWNER}
+                disabled={!canManage}
+                onValueChange={(v) => save(m, { owner_id: v === NO_OWNER ? null : v })}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_OWNER}>Unassigned</SelectItem>
+                  {owners.map((o) => (
+                    <SelectItem key={o.id} value={o.id}>{o.full_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-right">
+                <span className={cn("inline-flex rounded-full border px-2 py-0.5 text-[10px] font-medium", MILESTONE_STATE_CLASS[m.state])}>
+                  {MILESTONE_STATE_LABELS[m.state]}
+                </span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        Owners get an alert when a milestone passes its planned date without an actual date.
+      </p>
+    </div>
+  );
+}
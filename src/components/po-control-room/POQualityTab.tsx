@@ -1,12 +1,19 @@
+import { useNavigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { usePOAqlInspections } from "@/hooks/useQCAqlInspections";
+import { AqlResultsTable } from "@/components/quality/AqlResultsTable";
 import type { POQualityData } from "./types";
 
 interface Props {
+  workOrderId: string;
   quality: POQualityData;
   orderQty: number;
 }
 
-export function POQualityTab({ quality, orderQty }: Props) {
+export function POQualityTab({ workOrderId, quality, orderQty }: Props) {
+  const navigate = useNavigate();
+  const { rows: aqlInspections, loading: aqlLoading } = usePOAqlInspections(workOrderId);
   const progressPct = orderQty > 0 ? Math.min((quality.totalOutput / orderQty) * 100, 100) : 0;
 
   const stats = [
@@ -72,6 +79,22 @@ export function POQualityTab({ quality, orderQty }: Props) {
           </div>
         ))}
       </div>
+
+      {/* AQL inspections */}
+      <div>
+        <span className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">AQL Inspections</span>
+        <div className="mt-2">
+          {aqlLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : aqlInspections.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-3">No pre-final or final inspections yet.</p>
+          ) : (
+            <AqlResultsTable rows={aqlInspections} onRowClick={(r) => navigate(`/quality/aql/${r.id}`)} />
+          )}
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,33 @@
+import { Grid3X3, Loader2 } from "lucide-react";
+import { SizeRollupTable } from "@/components/size-matrix/SizeRollupTable";
+import { usePOSizeRollup } from "@/hooks/useSizeMatrix";
+import type { POControlRoomData } from "./types";
+
+interface Props {
+  po: POControlRoomData;
+}
+
+export function POSizesTab({ po }: Props) {
+  const { data, isLoading } = usePOSizeRollup(po.id);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!data?.breakdown) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-8 text-center">
+        <Grid3X3 className="h-6 w-6 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          No size breakdown for this PO yet — add one from Work Orders to track balance by size and colour.
+        </p>
+      </div>
+    );
+  }
+
+  return <SizeRollupTable rollup={data.rollup} />;
+}
@@ -27,6 +27,7 @@ interface Props {
   detailLoading: boolean;
   onToggleExpand: (id: string) => void;
   onViewExtras?: (po: POControlRoomData) => void;
+  onMilestonesChange?: () => void;
   showVelocity?: boolean;
   /**
    * Optional colored band above the table — same vocabulary as POClusterSection
@@ -44,6 +45,7 @@ export function POTable({
   detailLoading,
   onToggleExpand,
   onViewExtras,
+  onMilestonesChange,
   showVelocity,
   header,
 }: Props) {
@@ -81,6 +83,7 @@ export function POTable({
                 <TableHead className="text-right whitespace-nowrap">Finishing</TableHead>
                 <TableHead className="text-right whitespace-nowrap">Remaining</TableHead>
                 <TableHead className="whitespace-nowrap">Ex-Factory</TableHead>
+                <TableHead className="whitespace-nowrap">Milestone</TableHead>
                 {showVelocity && (
                   <>
                     <TableHead className="text-right whitespace-nowrap">Avg/day</TableHead>
@@ -103,11 +106,12 @@ export function POTable({
                   />
                   {expandedId === po.id && (
                     <TableRow key={`${po.id}-detail`}>
-                      <TableCell colSpan={showVelocity ? 13 : 11} className="p-0 border-b border-border/60 bg-card">
+                      <TableCell colSpan={showVelocity ? 14 : 12} className="p-0 border-b border-border/60 bg-card">
                         <POExpandedPanel
                           po={po}
                           detailData={detailData}
                           loading={detailLoading}
+                          onMilestonesChange={onMilestonesChange}
                         />
                       </TableCell>
                     </TableRow>
@@ -117,7 +121,7 @@ export function POTable({
               {orders.length === 0 && (
                 <TableRow>
                   <TableCell
-                    colSpan={showVelocity ? 13 : 11}
+                    colSpan={showVelocity ? 14 : 12}
                     className="text-center py-8 text-muted-foreground"
                   >
                     No work orders found
@@ -4,6 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { formatShortDate } from "@/lib/date-utils";
 import { POQuickActions } from "./POQuickActions";
+import { MilestoneBadge } from "./MilestoneBadge";
 import type { POControlRoomData } from "./types";
 
 interface Props {
@@ -153,6 +154,11 @@ export function POTableRow({ po, isExpanded, onToggle, onViewExtras, showVelocit
         )}
       </TableCell>
 
+      {/* T&A: next milestone */}
+      <TableCell>
+        <MilestoneBadge tna={po.tna} />
+      </TableCell>
+
       {/* Velocity: Avg/day + Need/day (Running tab only) */}
       {showVelocity && (
         <>
@@ -11,6 +11,7 @@ import {
   Receipt,
   TrendingUp,
   Clock,
+  ListChecks,
 } from "lucide-react";
 import {
   Dialog,
@@ -24,6 +25,8 @@ import { AnimatedNumber } from "@/components/ui/animated-number";
 import { SewingMachine } from "@/components/icons/SewingMachine";
 import { cn } from "@/lib/utils";
 import { formatShortDate } from "@/lib/date-utils";
+import { MILESTONE_STATE_LABELS } from "@/lib/tna";
+import { MilestoneBadge, MILESTONE_STATE_CLASS } from "./MilestoneBadge";
 import type { StyleOrderRollup, POControlRoomData } from "./types";
 
 interface Props {
@@ -232,6 +235,7 @@ export function StyleOrderDetailDrawer({ open, onOpenChange, styleOrder, today,
                 { v: "overview", label: "Overview" },
                 { v: "pos", label: "Purchase Orders" },
                 { v: "production", label: "Production" },
+                { v: "milestones", label: "T&A" },
                 { v: "schedule", label: "Schedule" },
               ].map((t) => (
                 <TabsTrigger
@@ -517,6 +521,11 @@ export function StyleOrderDetailDrawer({ open, onOpenChange, styleOrder, today,
                 </div>
               </TabsContent>
 
+              {/* ─────────────── T&A MILESTONES ─────────────── */}
+              <TabsContent value="milestones" className="mt-0">
+                <MilestoneMatrix pos={styleOrder.pos} onViewPO={onViewPO} />
+              </TabsContent>
+
               {/* ─────────────── SCHEDULE (placeholder) ─────────────── */}
               <TabsContent value="schedule" className="mt-0">
                 <PlaceholderTab
@@ -705,10 +714,19 @@ function POListItem({
         <MiniProgress label="Finishing" pct={finishingPct} fill="bg-gradient-to-r from-violet-500 to-purple-600" />
       </div>
 
-      {po.planned_ex_factory && (
+      {(po.planned_ex_factory || po.tna) && (
         <div className="flex items-center gap-1.5 text-[11px] text-muted-foreground mt-3 pt-3 border-t border-border/50">
-          <Calendar className="h-3 w-3 shrink-0 opacity-70" />
-          <span>Ex-Factory <span className="font-medium text-foreground/80">{formatShortDate(po.planned_ex_factory)}</span></span>
+          {po.planned_ex_factory && (
+            <>
+              <Calendar className="h-3 w-3 shrink-0 opacity-70" />
+              <span>Ex-Factory <span className="font-medium text-foreground/80">{formatShortDate(po.planned_ex_factory)}</span></span>
+            </>
+          )}
+          {po.tna && (
+            <span className="ml-auto">
+              <MilestoneBadge tna={po.tna} />
+            </span>
+          )}
         </div>
       )}
     </Element>
@@ -816,6 +834,96 @@ function ProductionStageRow({
   );
 }
 
+/** One row per PO, one column per T&A milestone, in template order. */
+function MilestoneMatrix({
+  pos,
+  onViewPO,
+}: {
+  pos: POControlRoomData[];
+  onViewPO?: (poId: string) => void;
+}) {
+  const columns = useMemo(() => {
+    const byCode = new Map<string, { code: string; label: string; order: number }>();
+    for (const po of pos) {
+      for (const m of po.tna?.milestones ?? []) {
+        if (!byCode.has(m.milestone_code)) {
+          byCode.set(m.milestone_code, { code: m.milestone_code, label: m.label, order: m.item_order });
+        }
+      }
+    }
+    return Array.from(byCode.values()).sort((a, b) => a.order - b.order);
+  }, [pos]);
+
+  if (columns.length === 0) {
+    return (
+      <PlaceholderTab
+        Icon={ListChecks}
+        title="No T&A plans yet"
+        description="Create a T&A plan from a template in a PO's expanded row to track lab dips, samples, materials and inspections here."
+      />
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-border/60">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b bg-muted/40">
+            <th className="px-3 py-2 text-left font-semibold text-muted-foreground whitespace-nowrap">PO</th>
+            {columns.map((c) => (
+              <th key={c.code} className="px-2 py-2 text-left font-semibold text-muted-foreground whitespace-nowrap">
+                {c.label}
+              </th>
+            ))}
+            <th className="px-3 py-2 text-left font-semibold text-muted-foreground whitespace-nowrap">Ex-Factory</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {pos.map((po) => {
+            const byCode = new Map((po.tna?.milestones ?? []).map((m) => [m.milestone_code, m]));
+            return (
+              <tr key={po.id}>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {onViewPO ? (
+                    <button type="button" className="font-mono font-semibold hover:underline" onClick={() => onViewPO(po.id)}>
+                      {po.po_number}
+                    </button>
+                  ) : (
+                    <span className="font-mono font-semibold">{po.po_number}</span>
+                  )}
+                </td>
+                {columns.map((c) => {
+                  const m = byCode.get(c.code);
+                  return (
+                    <td key={c.code} className="px-2 py-2 whitespace-nowrap">
+                      {m ? (
+                        <span
+                          className={cn("inline-flex rounded-md border px-1.5 py-0.5 tabular-nums", MILESTONE_STATE_CLASS[m.state])}
+                          title={`${MILESTONE_STATE_LABELS[m.state]} · planned ${formatShortDate(m.planned_date)}`}
+                        >
+                          {formatShortDate(m.actual_date ?? m.projectedDate)}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="px-3 py-2 whitespace-nowrap tabular-nums">
+                  {po.planned_ex_factory ? formatShortDate(po.planned_ex_factory) : "—"}
+                  {po.tna && po.tna.slipDays > 0 && po.tna.projectedExFactory && (
+                    <span className="ml-1.5 text-destructive">→ {formatShortDate(po.tna.projectedExFactory)}</span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
 function PlaceholderTab({
   Icon,
   title,
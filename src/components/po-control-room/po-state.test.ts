@@ -5,7 +5,11 @@ import {
   computeNeededPerDay,
   computeForecastFinish,
   computeCluster,
+  estimatePeakPerDay,
 } from "./po-state";
+import { EMPTY_CALENDAR } from "../../lib/working-days";
+
+const ramp = (daysIn: number) => ({ steps: [40, 60, 80, 100], daysIn });
 
 // ── computeWorkflowState ──────────────────────────────────────────────────────
 
@@ -107,6 +111,13 @@ describe("computeNeededPerDay", () => {
     const pastResult = computeNeededPerDay(500, "2026-02-20", today); // past → clamp to 1
     expect(pastResult).toBe(500);
   });
+
+  it("counts ramp-up days for their share of peak", () => {
+    // 14 days: 0.4 + 0.6 + 0.8 + 11 full days
+    expect(computeNeededPerDay(700, "2026-03-10", today, EMPTY_CALENDAR, ramp(0))).toBeCloseTo(700 / 12.8);
+    // Past the curve it's the flat rate again
+    expect(computeNeededPerDay(700, "2026-03-10", today, EMPTY_CALENDAR, ramp(4))).toBeCloseTo(700 / 14);
+  });
 });
 
 // ── computeForecastFinish ─────────────────────────────────────────────────────
@@ -131,6 +142,14 @@ describe("computeForecastFinish", () => {
     // 301 / 100 = 3.01 → ceil = 4 days
     expect(computeForecastFinish(301, 100, today)).toBe("2026-02-28");
   });
+
+  it("projects the climb to peak while still ramping", () => {
+    // Two days in, 100/day over the 3-day window = 1/3 of a 300 peak
+    expect(estimatePeakPerDay(100, ramp(2))).toBeCloseTo(300);
+    // 240 tomorrow at 80%, then 300/day: 1800 done on the 7th working day
+    expect(computeForecastFinish(1800, 100, today, EMPTY_CALENDAR, ramp(2))).toBe("2026-03-03");
+    expect(estimatePeakPerDay(100, ramp(10))).toBe(100);
+  });
 });
 
 // ── computeCluster ────────────────────────────────────────────────────────────
@@ -1,4 +1,11 @@
-import { differenceInDays, addDays, format } from "date-fns";
+import {
+  EMPTY_CALENDAR,
+  addWorkingDays,
+  recentWorkingDays,
+  workingDaysBetween,
+  type WorkingCalendar,
+} from "../../lib/working-days";
+import { rampFactor, rampedFinishDate, type RampState } from "../../lib/learning-curve";
 
 // ── Workflow state ────────────────────────────────────────────────────────────
 
@@ -49,25 +56,32 @@ export interface AvgPerDayResult {
 }
 
 /**
- * Compute rolling average daily sewing output.
+ * Compute rolling average daily sewing output over the last 3 and 7 working
+ * days. Output logged on a holiday inside the window still counts.
  * @param actuals  All sewing_actuals rows for this PO (needs good_today + production_date)
  * @param today    YYYY-MM-DD factory today
+ * @param calendar Factory working calendar (defaults to every day working)
  */
 export function computeAvgPerDay(
   actuals: { good_today: number; production_date: string }[],
-  today: string
+  today: string,
+  calendar: WorkingCalendar = EMPTY_CALENDAR
 ): AvgPerDayResult {
+  const window = recentWorkingDays(calendar, today, 7);
+  const start3 = window[Math.min(2, window.length - 1)] ?? today;
+  const start7 = window[window.length - 1] ?? today;
+
   let sum3 = 0;
   let count3 = 0;
   let sum7 = 0;
   let count7 = 0;
 
   for (const a of actuals) {
-    const daysAgo = differenceInDays(new Date(today), new Date(a.production_date));
-    if (daysAgo >= 0 && daysAgo < 7) {
+    const date = a.production_date.slice(0, 10);
+    if (date <= today && date >= start7) {
       sum7 += a.good_today;
       count7++;
-      if (daysAgo < 3) {
+      if (date >= start3) {
         sum3 += a.good_today;
         count3++;
       }
@@ -82,33 +96,62 @@ export function computeAvgPerDay(
 }
 
 /**
- * How many units need to be produced per day to meet ex-factory date.
- * Falls back to remaining / 7 if no ex-factory date set.
+ * Peak daily output implied by a pace measured while the line is still
+ * ramping up. The 3-day window counts days before the style started as zero,
+ * matching how computeAvgPerDay divides by the window.
+ */
+export function estimatePeakPerDay(avgPerDay: number, ramp?: RampState): number {
+  if (!ramp || avgPerDay <= 0) return avgPerDay;
+  let share = 0;
+  for (let i = ramp.daysIn - 3; i < ramp.daysIn; i++) share += i < 0 ? 0 : rampFactor(ramp.steps, i);
+  share /= 3;
+  return share > 0 ? avgPerDay / share : avgPerDay;
+}
+
+/**
+ * How many units need to be produced per working day to meet ex-factory date.
+ * Falls back to remaining / 7 if no ex-factory date set. With a ramp, the
+ * remaining ramp-up days count for their share only, so the result is the
+ * peak rate needed.
  */
 export function computeNeededPerDay(
   remaining: number,
   exFactory: string | null,
-  today: string
+  today: string,
+  calendar: WorkingCalendar = EMPTY_CALENDAR,
+  ramp?: RampState
 ): number {
   if (remaining <= 0) return 0;
   if (!exFactory) return remaining / 7;
 
-  const daysLeft = differenceInDays(new Date(exFactory), new Date(today));
-  return remaining / Math.max(1, daysLeft);
+  const daysLeft = workingDaysBetween(calendar, today, exFactory);
+  let effectiveDays = daysLeft;
+  if (ramp && daysLeft > 0) {
+    effectiveDays = 0;
+    for (let i = 0; i < daysLeft; i++) effectiveDays += rampFactor(ramp.steps, ramp.daysIn + i);
+  }
+  return remaining / Math.max(1, effectiveDays);
 }
 
 /**
- * Estimate completion date based on current pace.
+ * Estimate completion date based on current pace, skipping non-working days.
+ * With a ramp, pace climbs from its current share of peak along the curve.
  * Returns null if avgPerDay is 0 (no pace data).
  */
 export function computeForecastFinish(
   remaining: number,
   avgPerDay: number,
-  today: string
+  today: string,
+  calendar: WorkingCalendar = EMPTY_CALENDAR,
+  ramp?: RampState
 ): string | null {
   if (avgPerDay <= 0 || remaining <= 0) return null;
+  if (ramp && ramp.daysIn < ramp.steps.length) {
+    const tomorrow = addWorkingDays(EMPTY_CALENDAR, today, 1);
+    return rampedFinishDate(calendar, tomorrow, remaining, estimatePeakPerDay(avgPerDay, ramp), ramp.steps, ramp.daysIn);
+  }
   const daysNeeded = Math.ceil(remaining / avgPerDay);
-  return format(addDays(new Date(today), daysNeeded), "yyyy-MM-dd");
+  return addWorkingDays(calendar, today, daysNeeded);
 }
 
 // ── Cluster ───────────────────────────────────────────────────────────────────
@@ -118,7 +161,7 @@ export function computeForecastFinish(
  *
  * Priority (highest wins):
  *   1. no_deadline    — no exFactory set
- *   2. due_soon       — daysToEx ≤ 7 AND remaining > 0
+ *   2. due_soon       — daysToEx ≤ 7 working days AND remaining > 0
  *   3. behind_plan    — forecastFinish > exFactory OR neededPerDay > avgPerDay (when avgPerDay > 0)
  *   4. missing_updates — no EOD submitted today
  *   5. on_track       — everything else
@@ -131,6 +174,7 @@ export function computeCluster(params: {
   forecastFinish: string | null;
   hasEodToday: boolean;
   today: string;
+  calendar?: WorkingCalendar;
 }): POCluster {
   const {
     exFactory,
@@ -140,11 +184,12 @@ export function computeCluster(params: {
     forecastFinish,
     hasEodToday,
     today,
+    calendar = EMPTY_CALENDAR,
   } = params;
 
   if (!exFactory) return "no_deadline";
 
-  const daysToEx = differenceInDays(new Date(exFactory), new Date(today));
+  const daysToEx = workingDaysBetween(calendar, today, exFactory);
 
   if (remaining > 0 && daysToEx <= 7) return "due_soon";
 
@@ -1,4 +1,5 @@
 import type { LucideIcon } from "lucide-react";
+import type { TnAStatus } from "@/lib/tna";
 import type { POWorkflowState, POCluster, POWorkflowTab } from "./po-state";
 
 // Re-export from po-state so consumers can import from one place
@@ -65,6 +66,9 @@ export interface POControlRoomData {
   avgPerDay: number;        // effective (3d or 7d fallback)
   neededPerDay: number;     // remaining / days_to_ex_factory (fallback /7)
   forecastFinishDate: string | null;
+
+  // Time & Action plan; null when the PO has no milestones yet
+  tna: TnAStatus | null;
 }
 
 // ── KPI summary ───────────────────────────────────────
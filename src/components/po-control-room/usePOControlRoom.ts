@@ -3,12 +3,18 @@ import { differenceInDays } from "date-fns";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { getTodayInTimezone } from "@/lib/date-utils";
+import { workingDaysBetween, type WorkingCalendar } from "@/lib/working-days";
+import { useWorkingCalendar } from "@/hooks/useFactoryHolidays";
+import { useLearningCurves } from "@/hooks/useLearningCurves";
+import { resolveCurve } from "@/lib/learning-curve";
+import { trackMilestones, type POMilestone } from "@/lib/tna";
 import {
   computeWorkflowState,
   computeAvgPerDay,
   computeNeededPerDay,
   computeForecastFinish,
   computeCluster,
+  estimatePeakPerDay,
 } from "./po-state";
 import {
   applyFilters,
@@ -70,7 +76,8 @@ function computeHealth(
     totalRework: number;
     hasEodToday: boolean;
   },
-  today: string
+  today: string,
+  calendar: WorkingCalendar
 ): HealthReason {
   const progressPct =
     po.order_qty > 0
@@ -78,7 +85,7 @@ function computeHealth(
       : 0;
 
   const daysToExFactory = po.planned_ex_factory
-    ? differenceInDays(new Date(po.planned_ex_factory), new Date(today))
+    ? workingDaysBetween(calendar, today, po.planned_ex_factory)
     : null;
 
   // Completed: progress >= 100%
@@ -90,7 +97,7 @@ function computeHealth(
   if (daysToExFactory !== null && daysToExFactory < 0) {
     return {
       status: "deadline_passed",
-      reasons: [`Deadline passed ${Math.abs(daysToExFactory)} day${Math.abs(daysToExFactory) !== 1 ? "s" : ""} ago, ${Math.round(progressPct)}% done`],
+      reasons: [`Deadline passed ${Math.abs(daysToExFactory)} working day${Math.abs(daysToExFactory) !== 1 ? "s" : ""} ago, ${Math.round(progressPct)}% done`],
     };
   }
 
@@ -107,7 +114,7 @@ function computeHealth(
   // At Risk conditions (deadline checks don't require isActive)
   if (daysToExFactory !== null && daysToExFactory <= 7 && progressPct < 80) {
     reasons.push(
-      `Ex-factory in ${daysToExFactory} day${daysToExFactory !== 1 ? "s" : ""}, only ${Math.round(progressPct)}% done`
+      `Ex-factory in ${daysToExFactory} working day${daysToExFactory !== 1 ? "s" : ""}, only ${Math.round(progressPct)}% done`
     );
     status = "at_risk";
   }
@@ -128,7 +135,7 @@ function computeHealth(
       progressPct < 60
     ) {
       reasons.push(
-        `Ex-factory in ${daysToExFactory} days, only ${Math.round(progressPct)}% done`
+        `Ex-factory in ${daysToExFactory} working days, only ${Math.round(progressPct)}% done`
       );
       status = "watch";
     }
@@ -139,7 +146,7 @@ function computeHealth(
       progressPct < 10
     ) {
       reasons.push(
-        `Ex-factory in ${daysToExFactory} days, only ${Math.round(progressPct)}% done`
+        `Ex-factory in ${daysToExFactory} working days, only ${Math.round(progressPct)}% done`
       );
       status = "watch";
     }
@@ -178,6 +185,8 @@ export function usePOControlRoom(filters: POFilters = EMPTY_FILTERS) {
   const { profile, factory } = useAuth();
   const timezone = factory?.timezone || "Asia/Dhaka";
   const today = getTodayInTimezone(timezone);
+  const { calendar } = useWorkingCalendar();
+  const { curves } = useLearningCurves();
 
   const [loading, setLoading] = useState(true);
   const [workOrders, setWorkOrders] = useState<POControlRoomData[]>([]);
@@ -192,9 +201,10 @@ export function usePOControlRoom(filters: POFilters = EMPTY_FILTERS) {
   const detailCache = useRef(new Map<string, PODetailData>());
 
   // ── List-level fetch ────────────────────────────────
-  const fetchWorkOrders = useCallback(async () => {
+  // `background` refreshes in place, keeping expanded rows mounted
+  const fetchWorkOrders = useCallback(async ({ background = false }: { background?: boolean } = {}) => {
     if (!profile?.factory_id) return;
-    setLoading(true);
+    if (!background) setLoading(true);
 
     try {
       const factoryId = profile.factory_id;
@@ -213,7 +223,7 @@ export function usePOControlRoom(filters: POFilters = EMPTY_FILTERS) {
         return;
       }
 
-      const [sewingRes, finishingRes, ledgerRes, eodTodayRes, assignRes, targetsRes, styleOrdersRes] =
+      const [sewingRes, finishingRes, ledgerRes, eodTodayRes, assignRes, targetsRes, styleOrdersRes, milestonesRes] =
         await Promise.all([
           // Sewing output + quality (now includes production_date for velocity)
           supabase
@@ -258,6 +268,12 @@ export function usePOControlRoom(filters: POFilters = EMPTY_FILTERS) {
             .from("style_orders")
             .select("id, factory_id, buyer, style_name, style_number, needs_review")
             .eq("factory_id", factoryId),
+          // T&A milestones
+          supabase
+            .from("po_milestones")
+            .select("id, work_order_id, milestone_code, label, days_before, item_order, planned_date, actual_date, owner_id, notes")
+            .eq("factory_id", factoryId)
+            .in("work_order_id", ids),
         ]);
 
       // Aggregate sewing: totals + per-PO actuals array for velocity
@@ -335,6 +351,14 @@ export function usePOControlRoom(filters: POFilters = EMPTY_FILTERS) {
         if (r.work_order_id) hasTargetSet.add(r.work_order_id);
       });
 
+      // T&A milestones per PO
+      const milestonesByPO = new Map<string, POMilestone[]>();
+      milestonesRes.data?.forEach(({ work_order_id, ...m }) => {
+        const list = milestonesByPO.get(work_order_id) || [];
+        list.push(m);
+        milestonesByPO.set(work_order_id, list);
+      });
+
       // Map of parent style_orders for quick PO row enrichment
       const styleOrderById = new Map<string, StyleOrderParent>();
       (styleOrdersRes.data ?? []).forEach((so: StyleOrderParent) => styleOrderById.set(so.id, so));
@@ -391,10 +415,14 @@ export function usePOControlRoom(filters: POFilters = EMPTY_FILTERS) {
 
         // Velocity — sewing-based (how many units left to sew)
         const actuals = sewingActualsByPO.get(wo.id) || [];
-        const { effective: avgPerDay } = computeAvgPerDay(actuals, today);
+        const { effective: avgPerDay } = computeAvgPerDay(actuals, today, calendar);
         const sewingRemaining = Math.max(wo.order_qty - sewing.good, 0);
-        const neededPerDay = computeNeededPerDay(sewingRemaining, wo.planned_ex_factory, today);
-        const forecastFinishDate = computeForecastFinish(sewingRemaining, avgPerDay, today);
+        // Learning curve ramp-up, counted from the first day this PO sewed
+        const steps = resolveCurve(curves, { lineId: wo.line_id, category: wo.item })?.steps ?? [];
+        const daysIn = new Set(actuals.filter((a) => a.good_today > 0).map((a) => a.production_date)).size;
+        const ramp = steps.length > 0 ? { steps, daysIn } : undefined;
+        const neededPerDay = computeNeededPerDay(sewingRemaining, wo.planned_ex_factory, today, calendar, ramp);
+        const forecastFinishDate = computeForecastFinish(sewingRemaining, avgPerDay, today, calendar, ramp);
 
         // Completion / workflow state — finishing-based (PO is done when finishing output meets order_qty)
         const remaining = Math.max(wo.order_qty - finishedOutput, 0);
@@ -412,10 +440,11 @@ export function usePOControlRoom(filters: POFilters = EMPTY_FILTERS) {
           exFactory: wo.planned_ex_factory,
           remaining,
           neededPerDay,
-          avgPerDay,
+          avgPerDay: estimatePeakPerDay(avgPerDay, ramp),
           forecastFinish: forecastFinishDate,
           hasEodToday,
           today,
+          calendar,
         });
 
         const poData: POControlRoomData = {
@@ -458,10 +487,13 @@ export function usePOControlRoom(filters: POFilters = EMPTY_FILTERS) {
           avgPerDay,
           neededPerDay,
           forecastFinishDate,
+          tna: milestonesByPO.has(wo.id)
+            ? trackMilestones(milestonesByPO.get(wo.id)!, wo.planned_ex_factory, today, calendar)
+            : null,
           health: { status: "healthy", reasons: ["On track"] } as HealthReason,
         };
 
-        poData.health = computeHealth(poData, today);
+        poData.health = computeHealth(poData, today, calendar);
         return poData;
       });
 
@@ -505,7 +537,7 @@ export function usePOControlRoom(filters: POFilters = EMPTY_FILTERS) {
     } finally {
       setLoading(false);
     }
-  }, [profile?.factory_id, today]);
+  }, [profile?.factory_id, today, calendar, curves]);
 
   useEffect(() => {
     if (profile?.factory_id) fetchWorkOrders();
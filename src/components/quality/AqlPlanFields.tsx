@@ -0,0 +1,124 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AQL_VALUES,
+  DEFECT_SEVERITIES,
+  INSPECTION_LEVELS,
+  aqlPlanFor,
+  formatAql,
+  type AqlLevels,
+  type AqlValue,
+  type InspectionLevel,
+} from "@/lib/aql";
+
+export interface AqlPlanInput {
+  lotQty: string;
+  level: InspectionLevel;
+  aqls: AqlLevels;
+}
+
+/**
+ * Lot quantity, inspection level and per-class AQL inputs with the resulting
+ * ISO 2859-1 plan previewed underneath, so the inspector sees how many pieces
+ * to pull before starting.
+ */
+export function AqlPlanFields({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: AqlPlanInput;
+  onChange: (next: AqlPlanInput) => void;
+  disabled?: boolean;
+}) {
+  const lotQty = Number(value.lotQty);
+  const plan = lotQty > 0 ? aqlPlanFor(lotQty, value.level, value.aqls) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-[11px] font-semibold">
+            Lot Qty <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            type="number"
+            min={1}
+            value={value.lotQty}
+            onChange={(e) => onChange({ ...value, lotQty: e.target.value })}
+            className="tabular-nums"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-[11px] font-semibold">Inspection Level</Label>
+          <Select
+            value={value.level}
+            onValueChange={(v) => onChange({ ...value, level: v as InspectionLevel })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INSPECTION_LEVELS.map((l) => (
+                <SelectItem key={l} value={l}>
+                  General {l}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {DEFECT_SEVERITIES.map((s) => (
+          <div key={s} className="space-y-1.5">
+            <Label className="text-[11px] font-semibold capitalize">{s} AQL</Label>
+            <Select
+              value={String(value.aqls[s])}
+              onValueChange={(v) => onChange({ ...value, aqls: { ...value.aqls, [s]: Number(v) as AqlValue } })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AQL_VALUES.map((a) => (
+                  <SelectItem key={a} value={String(a)}>
+                    {formatAql(a)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {plan && (
+        <div className="rounded-md border border-border/60 bg-background px-3 py-2 text-xs">
+          <p>
+            Code letter <span className="font-mono font-semibold">{plan.codeLetter}</span> · sample{" "}
+            <span className="font-mono font-semibold">{plan.sampleSize.toLocaleString()}</span> pcs
+            {plan.sampleSize >= lotQty && <span className="text-muted-foreground"> (100% inspection)</span>}
+          </p>
+          <p className="mt-1 text-muted-foreground">
+            {DEFECT_SEVERITIES.map((s) => (
+              <span key={s} className="mr-3 capitalize">
+                {s} Ac <span className="font-mono text-foreground">{plan.plans[s].ac}</span> / Re{" "}
+                <span className="font-mono text-foreground">{plan.plans[s].re}</span>
+              </span>
+            ))}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { cn } from "@/lib/utils";
+import { formatShortDate } from "@/lib/date-utils";
+import { DEFECT_SEVERITIES } from "@/lib/aql";
+import {
+  INSPECTION_TYPE_LABEL,
+  inspectionPlans,
+  type AqlInspectionResult,
+  type AqlInspectionRow,
+} from "@/hooks/useQCAqlInspections";
+
+const RESULT_META: Record<AqlInspectionResult, { label: string; className: string }> = {
+  pass: {
+    label: "Pass",
+    className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-400",
+  },
+  fail: {
+    label: "Fail",
+    className: "bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-400",
+  },
+  pending: {
+    label: "In progress",
+    className: "bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-400",
+  },
+};
+
+export function AqlVerdictBadge({ result, className }: { result: AqlInspectionResult; className?: string }) {
+  const meta = RESULT_META[result];
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center text-[10px] font-semibold uppercase tracking-wide px-2 py-0.5 rounded-md whitespace-nowrap",
+        meta.className,
+        className
+      )}
+    >
+      {meta.label}
+    </span>
+  );
+}
+
+/**
+ * Compact AQL outcome per inspection: the plan it was sampled under and the
+ * defects found against each class's accept/reject numbers.
+ */
+export function AqlResultsTable({
+  rows,
+  onRowClick,
+}: {
+  rows: AqlInspectionRow[];
+  onRowClick?: (row: AqlInspectionRow) => void;
+}) {
+  return (
+    <div className="overflow-x-auto rounded-lg border">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="bg-muted/50 text-[10px] uppercase tracking-wide text-muted-foreground">
+            <th className="px-3 py-2 text-left font-medium">Inspection</th>
+            <th className="px-3 py-2 text-right font-medium">Lot</th>
+            <th className="px-3 py-2 text-right font-medium">Sample</th>
+            {DEFECT_SEVERITIES.map((s) => (
+              <th key={s} className="px-3 py-2 text-right font-medium capitalize hidden sm:table-cell">
+                {s}
+              </th>
+            ))}
+            <th className="px-3 py-2 text-right font-medium">Result</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {rows.map((r) => {
+            const plans = inspectionPlans(r);
+            return (
+              <tr
+                key={r.id}
+                onClick={onRowClick ? () => onRowClick(r) : undefined}
+                className={cn(onRowClick && "cursor-pointer hover:bg-muted/40")}
+              >
+                <td className="px-3 py-2">
+                  <p className="font-medium">{INSPECTION_TYPE_LABEL[r.inspection_type]}</p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {formatShortDate(r.inspection_date)} · Level {r.inspection_level} · {r.code_letter}
+                  </p>
+                </td>
+                <td className="px-3 py-2 text-right font-mono tabular-nums">{r.lot_qty.toLocaleString()}</td>
+                <td className="px-3 py-2 text-right font-mono tabular-nums">{r.sample_size.toLocaleString()}</td>
+                {DEFECT_SEVERITIES.map((s) => {
+                  const found = r.defects_found[s];
+                  const rejected = found >= plans[s].re;
+                  return (
+                    <td key={s} className="px-3 py-2 text-right font-mono tabular-nums hidden sm:table-cell">
+                      <span className={cn(rejected && "font-semibold text-red-600 dark:text-red-400")}>{found}</span>
+                      <span className="text-muted-foreground"> / {plans[s].ac}·{plans[s].re}</span>
+                    </td>
+                  );
+                })}
+                <td className="px-3 py-2 text-right">
+                  <AqlVerdictBadge result={r.result} />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="px-3 py-1.5 text-[10px] text-muted-foreground border-t">
+        Defects found / Ac·Re per class. A class fails at its reject number.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Name of the template being cloned */
+  sourceName: string;
+  /** Buyers on the factory's POs, offered as suggestions */
+  buyers: string[];
+  onSubmit: (data: { name: string; buyer: string }) => void;
+  isPending: boolean;
+}
+
+export function CloneTemplateDialog({ open, onOpenChange, sourceName, buyers, onSubmit, isPending }: Props) {
+  const [buyer, setBuyer] = useState("");
+  const [name, setName] = useState("");
+  const [nameTouched, setNameTouched] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setBuyer("");
+    setName(sourceName);
+    setNameTouched(false);
+  }, [open, sourceName]);
+
+  const canSubmit = !!buyer.trim() && !!name.trim();
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">Clone for Buyer</DialogTitle>
+          <DialogDescription className="text-xs">
+            Starts a draft copy of {sourceName}. Once published, new records for this buyer's POs use it
+            instead of the general template.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Buyer</Label>
+            <Input
+              value={buyer}
+              onChange={(e) => {
+                setBuyer(e.target.value);
+                if (!nameTouched) setName(e.target.value.trim() ? `${sourceName} — ${e.target.value.trim()}` : sourceName);
+              }}
+              list="clone-template-buyers"
+              placeholder="Buyer as written on the PO"
+              className="h-11"
+              autoFocus
+            />
+            <datalist id="clone-template-buyers">
+              {buyers.map((b) => <option key={b} value={b} />)}
+            </datalist>
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Template Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setNameTouched(true);
+              }}
+              className="h-11"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button
+            onClick={() => canSubmit && onSubmit({ name: name.trim(), buyer: buyer.trim() })}
+            disabled={!canSubmit || isPending}
+            className="h-9 px-5 font-semibold"
+          >
+            {isPending ? "Cloning..." : "Create draft"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { cn } from "@/lib/utils";
+import type { DhuRow, ParetoRow } from "@/lib/qc-defects";
+
+const TOOLTIP_STYLE = {
+  backgroundColor: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "8px",
+  fontSize: "12px",
+  padding: "8px 12px",
+};
+
+/** Bars scale against the worst row so the outliers stand out at a glance. */
+export function DhuTable({ rows, label, emptyText }: { rows: DhuRow[]; label: string; emptyText: string }) {
+  if (rows.length === 0) {
+    return <p className="py-6 text-center text-xs text-muted-foreground">{emptyText}</p>;
+  }
+  const worst = Math.max(...rows.map((r) => r.dhu ?? 0), 0.1);
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[10px] uppercase tracking-wide text-muted-foreground">
+            <th className="py-1.5 text-left font-medium">{label}</th>
+            <th className="py-1.5 text-right font-medium">Checked</th>
+            <th className="py-1.5 text-right font-medium">Defects</th>
+            <th className="py-1.5 pl-3 text-right font-medium w-[40%]">DHU</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {rows.map((r) => (
+            <tr key={r.key}>
+              <td className="py-1.5 pr-2 font-medium truncate max-w-[10rem]">{r.label}</td>
+              <td className="py-1.5 text-right font-mono tabular-nums text-muted-foreground">{r.checked.toLocaleString()}</td>
+              <td className="py-1.5 text-right font-mono tabular-nums">{r.defects.toLocaleString()}</td>
+              <td className="py-1.5 pl-3">
+                <div className="flex items-center justify-end gap-2">
+                  <div className="h-1.5 flex-1 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className={cn(
+                        "h-full rounded-full",
+                        (r.dhu ?? 0) >= worst * 0.75 ? "bg-red-500" : (r.dhu ?? 0) >= worst * 0.4 ? "bg-amber-500" : "bg-emerald-500"
+                      )}
+                      style={{ width: `${((r.dhu ?? 0) / worst) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-10 text-right font-mono font-semibold tabular-nums">{r.dhu ?? "—"}</span>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/** Defect counts as bars with the running share as a line against an 80% marker. */
+export function DefectParetoChart({ rows, limit = 10 }: { rows: ParetoRow[]; limit?: number }) {
+  const data = rows.slice(0, limit);
+  return (
+    <ResponsiveContainer width="100%" height={280}>
+      <ComposedChart data={data} margin={{ top: 8, right: 8, left: -10, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+        <XAxis
+          dataKey="name"
+          tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 10 }}
+          tickLine={false}
+          axisLine={false}
+          interval={0}
+          angle={-30}
+          textAnchor="end"
+          height={70}
+        />
+        <YAxis
+          yAxisId="count"
+          tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+          tickLine={false}
+          axisLine={false}
+          allowDecimals={false}
+          width={45}
+        />
+        <YAxis
+          yAxisId="share"
+          orientation="right"
+          domain={[0, 100]}
+          tickFormatter={(v) => `${v}%`}
+          tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+          tickLine={false}
+          axisLine={false}
+          width={40}
+        />
+        <Tooltip
+          contentStyle={TOOLTIP_STYLE}
+          formatter={(value: number, name: string) => (name === "Cumulative" ? [`${value}%`, name] : [value, name])}
+        />
+        <ReferenceLine yAxisId="share" y={80} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" strokeOpacity={0.5} />
+        <Bar yAxisId="count" dataKey="count" name="Defects" fill="hsl(0 72% 55%)" radius={[4, 4, 0, 0]} />
+        <Line
+          yAxisId="share"
+          type="monotone"
+          dataKey="cumulative"
+          name="Cumulative"
+          stroke="hsl(var(--primary))"
+          strokeWidth={2}
+          dot={{ r: 3, fill: "hsl(var(--primary))" }}
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+}
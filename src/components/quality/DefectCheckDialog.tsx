@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bug, Loader2, Minus, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { dhu } from "@/lib/sewing-hourly";
+import type { HourSlot } from "@/lib/shifts";
+import { CHECK_POINTS, CHECK_POINT_LABEL, groupByOperation, type CheckPoint, type DefectTypeLike } from "@/lib/qc-defects";
+import type { DefectCheckInput, DefectCheckRow } from "@/hooks/useQCDefectChecks";
+
+type CountType = DefectTypeLike & { id: string | null };
+
+/**
+ * One in-line or end-line check: pieces looked at this hour and a count per
+ * catalogue defect, grouped by operation so the checker can find them fast.
+ */
+export function DefectCheckDialog({
+  open,
+  onOpenChange,
+  hourSlots,
+  defaultSlot,
+  check,
+  defectTypes,
+  submitting,
+  onSave,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  hourSlots: HourSlot[];
+  defaultSlot: string;
+  check: DefectCheckRow | null;
+  defectTypes: CountType[];
+  submitting: boolean;
+  onSave: (input: DefectCheckInput) => void;
+}) {
+  const [hourSlot, setHourSlot] = useState("");
+  const [checkPoint, setCheckPoint] = useState<CheckPoint>("inline");
+  const [operator, setOperator] = useState("");
+  const [pieces, setPieces] = useState("");
+  const [notes, setNotes] = useState("");
+  const [counts, setCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    setHourSlot(check?.hour_slot ?? defaultSlot);
+    setCheckPoint(check?.check_point ?? "inline");
+    setOperator(check?.operator_name ?? "");
+    setPieces(check ? String(check.pieces_checked) : "");
+    setNotes(check?.notes ?? "");
+    setCounts(Object.fromEntries((check?.items ?? []).map((i) => [i.defect_code, i.quantity])));
+  }, [open, check, defaultSlot]);
+
+  // Defects logged before a catalogue entry was removed stay editable on their check
+  const types = useMemo<CountType[]>(() => {
+    const known = new Set(defectTypes.map((t) => t.code));
+    const retired = (check?.items ?? [])
+      .filter((i) => !known.has(i.defect_code))
+      .map((i) => ({
+        id: i.defect_type_id,
+        code: i.defect_code,
+        name: i.defect_name,
+        operation: i.operation,
+        severity: "major" as const,
+      }));
+    return [...defectTypes, ...retired];
+  }, [defectTypes, check]);
+
+  const groups = groupByOperation(types);
+  const piecesChecked = Number(pieces);
+  const totalDefects = Object.values(counts).reduce((sum, n) => sum + n, 0);
+  const preview = piecesChecked > 0 ? dhu(totalDefects, piecesChecked) : null;
+  const canSave =
+    !!hourSlot &&
+    Number.isInteger(piecesChecked) &&
+    piecesChecked > 0 &&
+    (checkPoint === "endline" || operator.trim() !== "") &&
+    !submitting;
+
+  const bump = (code: string, delta: number) =>
+    setCounts((prev) => ({ ...prev, [code]: Math.max(0, (prev[code] ?? 0) + delta) }));
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      hourSlot,
+      checkPoint,
+      operatorName: operator.trim() || null,
+      piecesChecked,
+      notes: notes.trim() || null,
+      counts: types.map((type) => ({ type, quantity: counts[type.code] ?? 0 })),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-lg p-0 gap-0 overflow-hidden flex flex-col",
+          "top-4 translate-y-0 max-h-[calc(100dvh-2rem)]",
+          "sm:top-[50%] sm:-translate-y-[50%] sm:max-h-[90vh]"
+        )}
+      >
+        <div className="h-[3px] bg-gradient-to-r from-rose-500 via-red-500 to-rose-600 shrink-0" />
+
+        <DialogHeader className="px-6 pt-5 pb-4 border-b border-border/60 shrink-0">
+          <div className="flex items-start gap-3">
+            <div className="h-10 w-10 rounded-xl bg-gradient-to-br from-rose-500 to-red-600 flex items-center justify-center shadow-lg shadow-rose-500/25 shrink-0">
+              <Bug className="h-5 w-5 text-white" />
+            </div>
+            <div className="min-w-0 text-left">
+              <DialogTitle className="text-base">{check ? "Edit Defect Check" : "Log Defect Check"}</DialogTitle>
+              <DialogDescription className="text-xs mt-1">
+                In-line checks are made at one operator's station; end-line checks cover finished pieces.
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-[11px] font-semibold">
+                Hour <span className="text-red-500">*</span>
+              </Label>
+              <Select value={hourSlot} onValueChange={setHourSlot}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select hour" />
+                </SelectTrigger>
+                <SelectContent>
+                  {hourSlots.map((s) => (
+                    <SelectItem key={s.key} value={s.key}>
+                      {s.key}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-[11px] font-semibold">Check Point</Label>
+              <div className="grid grid-cols-2 gap-1 rounded-md border p-1">
+                {CHECK_POINTS.map((cp) => (
+                  <button
+                    key={cp}
+                    type="button"
+                    onClick={() => setCheckPoint(cp)}
+                    className={cn(
+                      "rounded px-2 py-1 text-xs font-medium transition-colors",
+                      checkPoint === cp ? "bg-rose-500 text-white" : "text-muted-foreground hover:bg-muted"
+                    )}
+                  >
+                    {CHECK_POINT_LABEL[cp]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {checkPoint === "inline" && (
+              <div className="space-y-1.5">
+                <Label className="text-[11px] font-semibold">
+                  Operator <span className="text-red-500">*</span>
+                </Label>
+                <Input value={operator} onChange={(e) => setOperator(e.target.value)} placeholder="Name or ID" />
+              </div>
+            )}
+            <div className="space-y-1.5">
+              <Label className="text-[11px] font-semibold">
+                Pieces Checked <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                type="number"
+                min={1}
+                value={pieces}
+                onChange={(e) => setPieces(e.target.value)}
+                className="tabular-nums"
+              />
+            </div>
+          </div>
+
+          {types.length === 0 ? (
+            <p className="rounded-md border border-dashed px-3 py-4 text-center text-xs text-muted-foreground">
+              The defect catalogue is empty. An admin can set it up under Setup → Defect Catalogue.
+            </p>
+          ) : (
+            groups.map((g) => (
+              <div key={g.operation} className="space-y-1.5">
+                <p className="text-[10px] uppercase tracking-[0.1em] font-semibold text-muted-foreground">{g.operation}</p>
+                <div className="divide-y rounded-md border">
+                  {g.types.map((t) => {
+                    const n = counts[t.code] ?? 0;
+                    return (
+                      <div key={t.code} className="flex items-center gap-2 px-3 py-1.5">
+                        <span className="font-mono text-[10px] text-muted-foreground w-10 shrink-0">{t.code}</span>
+                        <span className={cn("flex-1 text-sm", n > 0 && "font-medium")}>{t.name}</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={n === 0}
+                          onClick={() => bump(t.code, -1)}
+                        >
+                          <Minus className="h-3.5 w-3.5" />
+                        </Button>
+                        <span className={cn("w-6 text-center font-mono text-sm tabular-nums", n > 0 && "text-red-600 dark:text-red-400 font-semibold")}>
+                          {n}
+                        </span>
+                        <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => bump(t.code, 1)}>
+                          <Plus className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))
+          )}
+
+          <div className="space-y-1.5">
+            <Label className="text-[11px] font-semibold">Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter
+          className="px-6 py-4 border-t border-border/60 bg-muted/30 shrink-0 sm:justify-between items-center gap-2"
+          style={{ paddingBottom: "max(1rem, env(safe-area-inset-bottom))" }}
+        >
+          <p className="text-xs text-muted-foreground tabular-nums">
+            {totalDefects} defect{totalDefects !== 1 ? "s" : ""}
+            {preview !== null && <> · DHU <span className="font-semibold text-foreground">{preview}</span></>}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="gap-1.5 bg-gradient-to-r from-rose-500 to-red-600 hover:from-rose-600 hover:to-red-700 shadow-md shadow-rose-500/25 text-white disabled:opacity-50"
+            >
+              {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save check
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
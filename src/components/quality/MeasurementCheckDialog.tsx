@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MAX_SAMPLES } from "@/lib/measurements";
+import type { SpecSheetRow } from "@/hooks/useQCMeasurements";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Active spec sheets; the ones for `style` are offered first */
+  sheets: SpecSheetRow[];
+  style: string;
+  onSubmit: (data: { specSheetId: string; size: string; colour: string | null; sampleCount: number }) => void;
+  isPending: boolean;
+}
+
+const SAMPLE_OPTIONS = Array.from({ length: MAX_SAMPLES }, (_, i) => i + 1);
+
+export function MeasurementCheckDialog({ open, onOpenChange, sheets, style, onSubmit, isPending }: Props) {
+  const [specSheetId, setSpecSheetId] = useState("");
+  const [size, setSize] = useState("");
+  const [colour, setColour] = useState("");
+  const [sampleCount, setSampleCount] = useState(3);
+
+  // Sheets for this style first, then the rest in case the PO's style was keyed differently
+  const ordered = useMemo(() => {
+    const key = style.trim().toLowerCase();
+    const own = sheets.filter((s) => s.style.trim().toLowerCase() === key);
+    return { own, other: sheets.filter((s) => !own.includes(s)) };
+  }, [sheets, style]);
+
+  useEffect(() => {
+    if (!open) return;
+    const first = ordered.own[0];
+    setSpecSheetId(first?.id ?? "");
+    setSize(first?.sizes[0] ?? "");
+    setColour("");
+    setSampleCount(3);
+  }, [open, ordered]);
+
+  const sheet = sheets.find((s) => s.id === specSheetId);
+  const canSubmit = !!sheet && !!size;
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">New Measurement Check</DialogTitle>
+          <DialogDescription className="text-xs">
+            The spec for the chosen size is copied onto the check, so later spec edits don't change it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          {sheets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No active spec sheets yet.{" "}
+              <Link to="/quality/specs" className="text-primary underline-offset-2 hover:underline">
+                Import one
+              </Link>{" "}
+              first.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-1.5">
+                <Label className={labelCls}>Spec Sheet</Label>
+                <Select
+                  value={specSheetId}
+                  onValueChange={(v) => {
+                    setSpecSheetId(v);
+                    setSize(sheets.find((s) => s.id === v)?.sizes[0] ?? "");
+                  }}
+                >
+                  <SelectTrigger className="h-11"><SelectValue placeholder="Select spec sheet" /></SelectTrigger>
+                  <SelectContent>
+                    {[...ordered.own, ...ordered.other].map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.style} · {s.name} ({s.unit})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {ordered.own.length === 0 && (
+                  <p className="text-[11px] text-amber-700 dark:text-amber-400">No spec sheet for style {style || "—"}.</p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className={labelCls}>Size</Label>
+                  <Select value={size} onValueChange={setSize} disabled={!sheet}>
+                    <SelectTrigger className="h-11"><SelectValue placeholder="Size" /></SelectTrigger>
+                    <SelectContent>
+                      {(sheet?.sizes ?? []).map((s) => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className={labelCls}>Samples</Label>
+                  <Select value={String(sampleCount)} onValueChange={(v) => setSampleCount(Number(v))}>
+                    <SelectTrigger className="h-11"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {SAMPLE_OPTIONS.map((n) => <SelectItem key={n} value={String(n)}>{n}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label className={labelCls}>Colour</Label>
+                <Input value={colour} onChange={(e) => setColour(e.target.value)} placeholder="Optional" className="h-11" />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button
+            onClick={() => canSubmit && onSubmit({ specSheetId, size, colour: colour || null, sampleCount })}
+            disabled={!canSubmit || isPending}
+            className="h-9 px-5 font-semibold"
+          >
+            {isPending ? "Starting..." : "Start check"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
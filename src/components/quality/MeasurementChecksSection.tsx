@@ -0,0 +1,126 @@
+import { useMemo, useState } from "react";
+import { Plus, Ruler } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useQCMeasurementChecks,
+  useQCSpecSheets,
+  startMeasurementCheck,
+  deleteMeasurementCheck,
+  type MeasurementCheckRow,
+  type MeasurementSource,
+} from "@/hooks/useQCMeasurements";
+import { MeasurementCheckDialog } from "@/components/quality/MeasurementCheckDialog";
+import { MeasurementGrid } from "@/components/quality/MeasurementGrid";
+
+interface Props {
+  sourceType: MeasurementSource;
+  sourceId: string;
+  factoryId: string;
+  workOrderId: string;
+  style: string;
+  disabled?: boolean;
+}
+
+/** Point-of-measure checks attached to a daily sheet or order tracker. */
+export function MeasurementChecksSection({ sourceType, sourceId, factoryId, workOrderId, style, disabled }: Props) {
+  const { user } = useAuth();
+  const { rows, loading, refetch } = useQCMeasurementChecks(sourceType, sourceId);
+  const { rows: sheets } = useQCSpecSheets();
+  const activeSheets = useMemo(() => sheets.filter((s) => s.is_active), [sheets]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [deleting, setDeleting] = useState<MeasurementCheckRow | null>(null);
+
+  async function handleStart(data: { specSheetId: string; size: string; colour: string | null; sampleCount: number }) {
+    if (!user?.id) return;
+    setStarting(true);
+    try {
+      await startMeasurementCheck({ ...data, factoryId, workOrderId, sourceType, sourceId, userId: user.id });
+      setDialogOpen(false);
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to start check");
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleting) return;
+    try {
+      await deleteMeasurementCheck(deleting.id);
+      toast.success("Measurement check deleted");
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete");
+    } finally {
+      setDeleting(null);
+    }
+  }
+
+  return (
+    <section className="rounded-xl border border-border/60 overflow-hidden bg-card shadow-sm">
+      <div className="px-4 md:px-5 py-2.5 flex items-center justify-between gap-3 bg-gradient-to-r from-teal-600 to-emerald-600">
+        <div className="flex items-center gap-2 min-w-0">
+          <Ruler className="h-4 w-4 text-white/80 shrink-0" />
+          <h2 className="text-sm md:text-base font-bold text-white uppercase tracking-wide truncate">Measurements</h2>
+          {rows.length > 0 && (
+            <span className="text-[11px] font-mono text-white/70 tabular-nums">
+              · {rows.length} check{rows.length === 1 ? "" : "s"}
+            </span>
+          )}
+        </div>
+        {!disabled && (
+          <Button
+            size="sm"
+            variant="secondary"
+            className="h-8 gap-1.5 shrink-0"
+            onClick={() => setDialogOpen(true)}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Measure
+          </Button>
+        )}
+      </div>
+
+      <div className="p-3 md:p-4 space-y-3">
+        {loading && rows.length === 0 ? (
+          <div className="h-16 bg-muted/40 rounded-lg animate-pulse" />
+        ) : rows.length === 0 ? (
+          <p className="py-4 text-center text-xs text-muted-foreground">
+            No measurements taken yet.{!disabled && " Measure a few samples against the style's spec sheet."}
+          </p>
+        ) : (
+          rows.map((c) => (
+            <MeasurementGrid key={c.id} check={c} disabled={disabled} onDelete={() => setDeleting(c)} />
+          ))
+        )}
+      </div>
+
+      <MeasurementCheckDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        sheets={activeSheets}
+        style={style}
+        onSubmit={handleStart}
+        isPending={starting}
+      />
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete this measurement check?"
+        description={
+          deleting
+            ? `This will permanently delete the size ${deleting.size} check and every reading on it. This cannot be undone.`
+            : ""
+        }
+        confirmLabel="Delete check"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+    </section>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Ruler, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  formatDeviation,
+  formatMeasure,
+  measureStatus,
+  parseMeasure,
+  summarizeMeasurements,
+  type MeasuredPoint,
+} from "@/lib/measurements";
+import { updateMeasuredValues, type MeasurementCheckRow, type MeasurementPointRow } from "@/hooks/useQCMeasurements";
+import { AqlVerdictBadge } from "@/components/quality/AqlResultsTable";
+
+interface Props {
+  check: MeasurementCheckRow;
+  disabled?: boolean;
+  onDelete?: () => void;
+}
+
+/**
+ * One measurement check as a points × samples grid. Readings save on blur;
+ * Enter moves down the sample column, so an inspector can measure a garment
+ * top to bottom without reaching for the screen.
+ */
+export function MeasurementGrid({ check, disabled, onDelete }: Props) {
+  const [points, setPoints] = useState<MeasurementPointRow[]>(check.points);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setPoints(check.points);
+  }, [check.points]);
+
+  const summary = useMemo(() => summarizeMeasurements(points, check.sample_count), [points, check.sample_count]);
+  const samples = Array.from({ length: check.sample_count }, (_, i) => i);
+
+  async function commit(point: MeasurementPointRow, sample: number, value: number | null) {
+    if (point.measured[sample] === value) return;
+    const measured = point.measured.map((v, i) => (i === sample ? value : v));
+    setPoints((prev) => prev.map((p) => (p.id === point.id ? { ...p, measured } : p)));
+    try {
+      await updateMeasuredValues(point.id, measured);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save reading");
+      setPoints((prev) => prev.map((p) => (p.id === point.id ? point : p)));
+    }
+  }
+
+  function focusNext(row: number, sample: number) {
+    const next =
+      row + 1 < points.length ? `${row + 1}:${sample}` : sample + 1 < check.sample_count ? `0:${sample + 1}` : null;
+    if (!next) return;
+    gridRef.current?.querySelector<HTMLInputElement>(`[data-cell="${next}"]`)?.focus();
+  }
+
+  return (
+    <div className="rounded-lg border border-border/60 bg-card overflow-hidden">
+      {/* Header — what was measured and the verdict so far */}
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1.5 px-3 py-2 border-b bg-muted/40">
+        <Ruler className="h-4 w-4 text-teal-600 dark:text-teal-400 shrink-0" />
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-semibold truncate">
+            Size {check.size}
+            {check.colour && <span className="font-normal text-muted-foreground"> · {check.colour}</span>}
+          </p>
+          <p className="text-[11px] text-muted-foreground truncate">
+            {check.spec_name} · {check.sample_count} sample{check.sample_count === 1 ? "" : "s"} · {check.unit}
+          </p>
+        </div>
+        <span className="text-[11px] text-muted-foreground font-mono tabular-nums">
+          {summary.readings}/{summary.expected} read
+        </span>
+        {summary.outOfTolerance > 0 && (
+          <span className="text-[11px] font-medium text-red-600 dark:text-red-400">
+            {summary.outOfTolerance} out of tolerance · {summary.samplesOut} sample{summary.samplesOut === 1 ? "" : "s"}
+          </span>
+        )}
+        <AqlVerdictBadge result={summary.result} />
+        {onDelete && !disabled && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            onClick={onDelete}
+            aria-label="Delete measurement check"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      <div ref={gridRef} className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-wide text-muted-foreground">
+              <th className="px-2 py-2 text-left font-medium min-w-[10rem]">Point of measure</th>
+              <th className="px-2 py-2 text-right font-medium">Spec</th>
+              <th className="px-2 py-2 text-right font-medium whitespace-nowrap">Tol −/+</th>
+              {samples.map((s) => (
+                <th key={s} className="px-1 py-2 text-center font-medium">#{s + 1}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {points.map((p, row) => (
+              <tr key={p.id}>
+                <td className="px-2 py-1.5">
+                  <span className="font-mono text-muted-foreground mr-1.5">{p.code}</span>
+                  <span className="font-medium">{p.name}</span>
+                </td>
+                <td className="px-2 py-1.5 text-right font-mono tabular-nums font-semibold">{formatMeasure(p.spec)}</td>
+                <td className="px-2 py-1.5 text-right font-mono tabular-nums text-muted-foreground whitespace-nowrap">
+                  −{formatMeasure(p.tol_minus)} / +{formatMeasure(p.tol_plus)}
+                </td>
+                {samples.map((s) => (
+                  <td key={s} className="px-1 py-1">
+                    <MeasureCell
+                      cell={`${row}:${s}`}
+                      point={p}
+                      value={p.measured[s]}
+                      disabled={disabled}
+                      onCommit={(v) => commit(p, s, v)}
+                      onEnter={() => focusNext(row, s)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {summary.pointsOut.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 px-3 py-2 border-t bg-red-50/50 dark:bg-red-950/10">
+          {summary.pointsOut.map((p) => (
+            <span
+              key={p.code}
+              className="inline-flex items-center gap-1 rounded-md bg-red-100 dark:bg-red-500/20 px-1.5 py-0.5 text-[11px] text-red-700 dark:text-red-300"
+            >
+              <span className="font-mono">{p.code}</span> {p.name}
+              <span className="font-mono font-semibold">{formatDeviation(p.worst)}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** A reading cell: typed text until blur/Enter, then parsed and coloured against tolerance. */
+function MeasureCell({
+  cell,
+  point,
+  value,
+  disabled,
+  onCommit,
+  onEnter,
+}: {
+  cell: string;
+  point: MeasuredPoint;
+  value: number | null;
+  disabled?: boolean;
+  onCommit: (value: number | null) => void;
+  onEnter: () => void;
+}) {
+  const [text, setText] = useState(value == null ? "" : formatMeasure(value));
+
+  useEffect(() => {
+    setText(value == null ? "" : formatMeasure(value));
+  }, [value]);
+
+  function commit() {
+    if (!text.trim()) {
+      onCommit(null);
+      return;
+    }
+    const parsed = parseMeasure(text);
+    if (parsed == null) {
+      toast.error(`"${text}" is not a measurement`);
+      setText(value == null ? "" : formatMeasure(value));
+      return;
+    }
+    onCommit(parsed);
+  }
+
+  const status = value == null ? null : measureStatus(value, point);
+  const out = status === "over" || status === "under";
+
+  return (
+    <div className="flex flex-col items-center">
+      <input
+        data-cell={cell}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            onEnter();
+          }
+        }}
+        disabled={disabled}
+        inputMode="decimal"
+        autoComplete="off"
+        className={cn(
+          "h-11 w-[4.5rem] rounded-md border text-center text-base font-mono tabular-nums outline-none transition-colors",
+          "focus:ring-2 focus:ring-primary/40 disabled:cursor-not-allowed disabled:opacity-80",
+          status === null && "border-input bg-background",
+          status === "ok" && "border-emerald-300 bg-emerald-50 text-emerald-800 dark:border-emerald-700 dark:bg-emerald-950/30 dark:text-emerald-300",
+          out && "border-red-400 bg-red-50 text-red-700 font-semibold dark:border-red-700 dark:bg-red-950/40 dark:text-red-300"
+        )}
+      />
+      {out && value != null && (
+        <span className="mt-0.5 text-[10px] font-mono text-red-600 dark:text-red-400">{formatDeviation(value - point.spec)}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from "react";
+import { Circle, Loader2, MoveUpRight, Undo2, Eraser } from "lucide-react";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  compressPhoto,
+  drawAnnotations,
+  fitWithin,
+  isTinyAnnotation,
+  type Annotation,
+  type AnnotationKind,
+} from "@/lib/qc-photos";
+
+interface Props {
+  /** Photos just taken; the dialog is open while there are any */
+  files: File[];
+  onCancel: () => void;
+  /** Compressed photos with their annotations drawn in */
+  onDone: (files: File[]) => void;
+  isPending: boolean;
+}
+
+const NO_MARKS: Annotation[] = [];
+
+const TOOLS: { kind: AnnotationKind; label: string; icon: typeof Circle }[] = [
+  { kind: "arrow", label: "Arrow", icon: MoveUpRight },
+  { kind: "circle", label: "Circle", icon: Circle },
+];
+
+/**
+ * Marks up freshly taken photos one at a time — drag to draw an arrow or a
+ * circle over the defect. The preview uses the same drawing as the saved
+ * JPEG, so what the inspector sees is what gets uploaded.
+ */
+export function PhotoAnnotator({ files, onCancel, onDone, isPending }: Props) {
+  const [index, setIndex] = useState(0);
+  const [marks, setMarks] = useState<Annotation[][]>([]);
+  const [tool, setTool] = useState<AnnotationKind>("circle");
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const open = files.length > 0;
+  const file = files[index];
+  const current = marks[index] ?? NO_MARKS;
+
+  useEffect(() => {
+    setIndex(0);
+    setMarks(files.map(() => []));
+    setDraft(null);
+  }, [files]);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    setSize(null);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !size) return;
+    ctx.clearRect(0, 0, size.width, size.height);
+    drawAnnotations(ctx, draft ? [...current, draft] : current, size.width, size.height);
+  }, [current, draft, size]);
+
+  function point(e: React.PointerEvent<HTMLCanvasElement>) {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  }
+
+  function setCurrent(next: Annotation[]) {
+    setMarks((prev) => prev.map((m, i) => (i === index ? next : m)));
+  }
+
+  async function finish() {
+    setProcessing(true);
+    try {
+      const out: File[] = [];
+      for (const [i, f] of files.entries()) out.push(await compressPhoto(f, marks[i] ?? []));
+      onDone(out);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not process photo");
+    } finally {
+      setProcessing(false);
+    }
+  }
+
+  const busy = processing || isPending;
+  const last = index === files.length - 1;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && !busy && onCancel()}>
+      <DialogContent className="sm:max-w-[720px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">
+            Mark the defect{files.length > 1 && ` · ${index + 1} of ${files.length}`}
+          </DialogTitle>
+          <DialogDescription className="text-xs">
+            Drag on the photo to draw an arrow or a circle. Marks are optional.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="px-6 pt-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {TOOLS.map(({ kind, label, icon: Icon }) => (
+              <Button
+                key={kind}
+                size="sm"
+                variant={tool === kind ? "default" : "outline"}
+                className="h-9 gap-1.5"
+                onClick={() => setTool(kind)}
+              >
+                <Icon className="h-3.5 w-3.5" />
+                {label}
+              </Button>
+            ))}
+            <div className="ml-auto flex gap-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-9 gap-1.5"
+                onClick={() => setCurrent(current.slice(0, -1))}
+                disabled={current.length === 0}
+              >
+                <Undo2 className="h-3.5 w-3.5" />
+                Undo
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-9 gap-1.5"
+                onClick={() => setCurrent([])}
+                disabled={current.length === 0}
+              >
+                <Eraser className="h-3.5 w-3.5" />
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <div className="rounded-lg bg-muted/60 flex justify-center overflow-hidden">
+            {previewUrl && (
+              <div className="relative inline-block">
+                <img
+                  src={previewUrl}
+                  alt="Photo to annotate"
+                  className="block max-h-[60vh] w-auto max-w-full select-none"
+                  draggable={false}
+                  onLoad={(e) => setSize(fitWithin(e.currentTarget.naturalWidth, e.currentTarget.naturalHeight, 1200))}
+                />
+                {size && (
+                  <canvas
+                    ref={canvasRef}
+                    width={size.width}
+                    height={size.height}
+                    className={cn("absolute inset-0 h-full w-full touch-none", !busy && "cursor-crosshair")}
+                    onPointerDown={(e) => {
+                      if (busy) return;
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                      const p = point(e);
+                      setDraft({ kind: tool, x1: p.x, y1: p.y, x2: p.x, y2: p.y });
+                    }}
+                    onPointerMove={(e) => {
+                      if (!draft) return;
+                      const p = point(e);
+                      setDraft({ ...draft, x2: p.x, y2: p.y });
+                    }}
+                    onPointerUp={() => {
+                      if (draft && !isTinyAnnotation(draft)) setCurrent([...current, draft]);
+                      setDraft(null);
+                    }}
+                    onPointerCancel={() => setDraft(null)}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="px-6 py-4 mt-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={onCancel} className="h-9" disabled={busy}>Cancel</Button>
+          {index > 0 && (
+            <Button variant="outline" onClick={() => setIndex(index - 1)} className="h-9" disabled={busy}>
+              Back
+            </Button>
+          )}
+          <Button
+            onClick={() => (last ? finish() : setIndex(index + 1))}
+            disabled={busy}
+            className="h-9 px-5 font-semibold gap-1.5"
+          >
+            {busy && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            {last ? `Add ${files.length === 1 ? "photo" : `${files.length} photos`}` : "Next photo"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import {
   AlertTriangle,
@@ -23,6 +23,7 @@ import {
 import { cn } from "@/lib/utils";
 import { formatShortDate, formatTimeInTimezone } from "@/lib/date-utils";
 import { useAuth } from "@/contexts/AuthContext";
+import { QCPhotoStrip } from "@/components/quality/QCPhotoStrip";
 import {
   markIssueReviewed,
   markIssueResolved,
@@ -51,6 +52,8 @@ export function QCIssueCard({ issue, onChange, readOnly }: Props) {
   const tz = factory?.timezone || "Asia/Dhaka";
   const [adminNotes, setAdminNotes] = useState(issue.admin_notes ?? "");
   const [busy, setBusy] = useState(false);
+  const [photos, setPhotos] = useState(issue.photo_urls);
+  useEffect(() => setPhotos(issue.photo_urls), [issue.photo_urls]);
 
   const sevMeta = SEVERITY_META[issue.severity];
 
@@ -129,6 +132,14 @@ export function QCIssueCard({ issue, onChange, readOnly }: Props) {
         <span className="text-muted-foreground/70 ml-auto">{issue.buyer} · {issue.style}</span>
       </div>
 
+      <QCPhotoStrip
+        target="issue"
+        targetId={issue.id}
+        urls={photos}
+        className="mb-3"
+        onChange={setPhotos}
+      />
+
       {!readOnly && (
         <div className="space-y-3 pt-3 border-t border-border/60">
           <div className="grid grid-cols-1 md:grid-cols-12 gap-2">
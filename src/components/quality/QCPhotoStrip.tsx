@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from "react";
+import { Camera, CloudOff, X } from "lucide-react";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { PhotoAnnotator } from "@/components/quality/PhotoAnnotator";
+import { removeQCPhoto, useQCPhotos } from "@/hooks/useQCPhotos";
+import { MAX_QC_PHOTOS, type PhotoTarget } from "@/lib/qc-photos";
+
+interface Props {
+  target: PhotoTarget;
+  targetId: string;
+  urls: string[];
+  disabled?: boolean;
+  /** Called with the row's photo list after an upload or removal */
+  onChange: (urls: string[]) => void;
+  className?: string;
+}
+
+export function QCPhotoStrip({ target, targetId, urls, disabled, onChange, className }: Props) {
+  const { addPhotos } = useQCPhotos();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [captured, setCaptured] = useState<File[]>([]);
+  // Object URLs of photos queued offline, shown until the queue syncs them
+  const [waiting, setWaiting] = useState<string[]>([]);
+  const [viewing, setViewing] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const waitingRef = useRef(waiting);
+  waitingRef.current = waiting;
+  useEffect(() => () => waitingRef.current.forEach((u) => URL.revokeObjectURL(u)), []);
+
+  const room = MAX_QC_PHOTOS - urls.length - waiting.length;
+
+  async function handleAnnotated(files: File[]) {
+    setBusy(true);
+    try {
+      const result = await addPhotos(target, targetId, files);
+      if (result.queued) {
+        setWaiting((prev) => [...prev, ...files.map((f) => URL.createObjectURL(f))]);
+        toast.info("Offline — photos will upload when you're back online");
+      } else {
+        onChange([...urls, ...result.urls]);
+      }
+      setCaptured([]);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add photos");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRemove(url: string) {
+    setBusy(true);
+    try {
+      await removeQCPhoto(target, targetId, url);
+      onChange(urls.filter((u) => u !== url));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove photo");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (disabled && urls.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      {urls.map((url, index) => (
+        <div key={url} className="relative">
+          <button type="button" onClick={() => setViewing(url)} className="block">
+            <img
+              src={url}
+              alt={`Photo ${index + 1}`}
+              loading="lazy"
+              className="h-16 w-16 object-cover rounded-lg border"
+            />
+          </button>
+          {!disabled && (
+            <button
+              type="button"
+              onClick={() => handleRemove(url)}
+              disabled={busy}
+              aria-label="Remove photo"
+              className="absolute -top-1.5 -right-1.5 h-5 w-5 rounded-full bg-destructive text-destructive-foreground flex items-center justify-center"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {waiting.map((url, index) => (
+        <div key={url} className="relative">
+          <img
+            src={url}
+            alt={`Waiting photo ${index + 1}`}
+            className="h-16 w-16 object-cover rounded-lg border border-dashed opacity-70"
+          />
+          <span className="absolute inset-x-0 bottom-0 rounded-b-lg bg-black/60 text-white text-[9px] font-medium flex items-center justify-center gap-0.5 py-0.5">
+            <CloudOff className="h-2.5 w-2.5" />
+            Waiting to sync
+          </span>
+        </div>
+      ))}
+
+      {!disabled && room > 0 && (
+        <>
+          <input
+            type="file"
+            ref={fileInputRef}
+            accept="image/*"
+            capture="environment"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files || []);
+              e.target.value = "";
+              if (files.length > room) {
+                toast.error(`Maximum ${MAX_QC_PHOTOS} photos allowed`);
+                return;
+              }
+              setCaptured(files);
+            }}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-9 gap-1.5 text-xs"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+          >
+            <Camera className="h-3.5 w-3.5" />
+            {urls.length + waiting.length === 0 ? "Add photo" : "More"}
+          </Button>
+        </>
+      )}
+
+      <PhotoAnnotator
+        files={captured}
+        onCancel={() => setCaptured([])}
+        onDone={handleAnnotated}
+        isPending={busy}
+      />
+
+      <Dialog open={!!viewing} onOpenChange={(o) => !o && setViewing(null)}>
+        <DialogContent className="sm:max-w-[860px] p-2">
+          <DialogTitle className="sr-only">Photo</DialogTitle>
+          {viewing && <img src={viewing} alt="Photo" className="w-full max-h-[80vh] object-contain rounded" />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
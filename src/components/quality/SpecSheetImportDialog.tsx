@@ -0,0 +1,163 @@
+import { useState, useEffect, useRef } from "react";
+import { Upload, AlertTriangle } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MEASURE_UNITS, parseSpecCsv, type MeasureUnit, type ParsedSpecSheet } from "@/lib/measurements";
+import type { SpecSheetInput } from "@/hooks/useQCMeasurements";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Styles from the factory's POs, offered as suggestions */
+  styles: string[];
+  onSubmit: (data: { input: SpecSheetInput; points: ParsedSpecSheet["points"] }) => void;
+  isPending: boolean;
+}
+
+export function SpecSheetImportDialog({ open, onOpenChange, styles, onSubmit, isPending }: Props) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [style, setStyle] = useState("");
+  const [buyer, setBuyer] = useState("");
+  const [name, setName] = useState("");
+  const [unit, setUnit] = useState<MeasureUnit>("cm");
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<ParsedSpecSheet | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setStyle("");
+    setBuyer("");
+    setName("");
+    setUnit("cm");
+    setFileName("");
+    setParsed(null);
+  }, [open]);
+
+  async function readFile(file: File) {
+    const text = await file.text();
+    setFileName(file.name);
+    setParsed(parseSpecCsv(text));
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ""));
+  }
+
+  const points = parsed?.points ?? [];
+  const canSubmit = style.trim() && name.trim() && points.length > 0;
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">Import Spec Sheet</DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pb-2 pt-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Style</Label>
+              <Input value={style} onChange={(e) => setStyle(e.target.value)} list="spec-import-styles" className="h-9" />
+              <datalist id="spec-import-styles">
+                {styles.map((s) => <option key={s} value={s} />)}
+              </datalist>
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Buyer</Label>
+              <Input value={buyer} onChange={(e) => setBuyer(e.target.value)} placeholder="Optional" className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. PP sample spec" className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className={labelCls}>Unit</Label>
+              <Select value={unit} onValueChange={(v) => setUnit(v as MeasureUnit)}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {MEASURE_UNITS.map((u) => <SelectItem key={u} value={u}>{u}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Spec File</Label>
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              className="w-full rounded-lg border border-dashed p-4 text-center hover:bg-muted/40 transition-colors"
+            >
+              <Upload className="h-5 w-5 mx-auto text-muted-foreground mb-1.5" />
+              <div className="text-sm font-medium">{fileName || "Choose CSV file"}</div>
+              <div className="text-xs text-muted-foreground">
+                Description, tolerance (± or −/+) and one column per size
+              </div>
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".csv,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) readFile(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          {parsed && (
+            <div className="rounded-lg border bg-muted/20 p-3 space-y-1.5 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Points of measure</span>
+                <span className="font-medium tabular-nums">{points.length}</span>
+              </div>
+              <div className="flex justify-between gap-3">
+                <span className="text-muted-foreground">Sizes</span>
+                <span className="font-medium text-right">{parsed.sizes.join(", ") || "—"}</span>
+              </div>
+              {points.length > 0 && (
+                <div className="pt-1.5 border-t text-xs text-muted-foreground space-y-0.5">
+                  {points.slice(0, 3).map((p) => (
+                    <div key={p.code} className="truncate">
+                      <span className="font-mono">{p.code}</span> · {p.name} · −{p.tol_minus}/+{p.tol_plus}
+                    </div>
+                  ))}
+                  {points.length > 3 && <div>and {points.length - 3} more</div>}
+                </div>
+              )}
+              {parsed.errors.length > 0 && (
+                <div className="pt-1.5 border-t text-xs text-amber-700 dark:text-amber-400 space-y-0.5">
+                  <div className="flex items-center gap-1.5 font-medium">
+                    <AlertTriangle className="h-3.5 w-3.5" />
+                    {parsed.errors.length} problem{parsed.errors.length === 1 ? "" : "s"}
+                  </div>
+                  {parsed.errors.slice(0, 3).map((e) => <div key={e}>{e}</div>)}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button
+            onClick={() =>
+              canSubmit &&
+              onSubmit({
+                input: { style, buyer: buyer || null, name, unit, sizes: parsed!.sizes, notes: null, is_active: true },
+                points,
+              })
+            }
+            disabled={!canSubmit || isPending}
+            className="h-9 px-5 font-semibold"
+          >
+            {isPending ? "Importing..." : `Import ${points.length || ""} Points`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { AlertTriangle, CheckCircle2, MinusCircle, Clock, Calendar, MessageSquare } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { QCPhotoStrip } from "@/components/quality/QCPhotoStrip";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import {
@@ -82,7 +83,21 @@ export function TrackerItemRow({ item, updatedBy, disabled, onLocalUpdate }: Pro
           <span className="font-mono text-xs text-muted-foreground">{item.item_code}</span>
         </div>
         <div className="flex-1 min-w-0">
-          <p className="text-sm font-medium leading-snug">{item.item_label}</p>
+          <p className="text-sm font-medium leading-snug">
+            {item.item_label}
+            {item.is_required && (
+              <span
+                className={cn(
+                  "ml-2 align-middle inline-flex items-center rounded px-1.5 py-px text-[10px] font-semibold uppercase tracking-wide",
+                  item.status === "pending"
+                    ? "bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300"
+                    : "bg-muted text-muted-foreground"
+                )}
+              >
+                Required
+              </span>
+            )}
+          </p>
           {item.item_guidance && (
             <p className="text-[11px] text-muted-foreground mt-0.5 leading-relaxed">
               {item.item_guidance}
@@ -122,7 +137,7 @@ export function TrackerItemRow({ item, updatedBy, disabled, onLocalUpdate }: Pro
                   <AlertTriangle className="h-3.5 w-3.5 text-amber-600" /> Issue
                 </span>
               </SelectItem>
-              <SelectItem value="na">
+              <SelectItem value="na" disabled={item.is_required}>
                 <span className="flex items-center gap-1.5">
                   <MinusCircle className="h-3.5 w-3.5 text-muted-foreground/70" /> N/A
                 </span>
@@ -183,6 +198,15 @@ export function TrackerItemRow({ item, updatedBy, disabled, onLocalUpdate }: Pro
           />
         </div>
       </div>
+
+      <QCPhotoStrip
+        target="tracker_item"
+        targetId={item.id}
+        urls={item.photo_urls ?? []}
+        disabled={disabled}
+        className="mt-3 md:ml-[60px]"
+        onChange={(photo_urls) => onLocalUpdate({ ...item, photo_urls })}
+      />
     </div>
   );
 }
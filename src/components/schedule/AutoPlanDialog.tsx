@@ -0,0 +1,207 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle2, Loader2, Wand2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { useFactoryShifts } from "@/hooks/useFactoryShifts";
+import { workingHours } from "@/lib/shifts";
+import { planOrders, type PlanLine } from "@/lib/auto-schedule";
+import type { LearningCurve } from "@/lib/learning-curve";
+import type { WorkingCalendar } from "@/lib/working-days";
+import type { FactoryLine, ScheduleFormData, ScheduleWithDetails, UnscheduledPO } from "@/hooks/useProductionSchedule";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  unscheduledPOs: UnscheduledPO[];
+  lines: FactoryLine[];
+  lineManpower: Map<string, number> | undefined;
+  learningCurves: LearningCurve[];
+  schedules: ScheduleWithDetails[];
+  calendar: WorkingCalendar;
+  onApply: (rows: ScheduleFormData[]) => void;
+  isPending: boolean;
+}
+
+const fmt = (d: string) => format(parseISO(d), "d MMM");
+
+export function AutoPlanDialog({
+  open, onOpenChange, unscheduledPOs, lines, lineManpower, learningCurves, schedules, calendar, onApply, isPending,
+}: Props) {
+  const { activeShifts } = useFactoryShifts();
+  const [startDate, setStartDate] = useState("");
+  const [maxLines, setMaxLines] = useState("2");
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+    setStartDate(format(new Date(), "yyyy-MM-dd"));
+    setRejected(new Set());
+  }, [open]);
+
+  const minutesPerDay = useMemo(
+    () => activeShifts.reduce((sum, s) => sum + workingHours(s) * 60, 0),
+    [activeShifts]
+  );
+
+  const lineLabels = useMemo(() => new Map(lines.map((l) => [l.id, l.line_id])), [lines]);
+
+  const plan = useMemo(() => {
+    if (!open || !startDate) return null;
+    const planLines: PlanLine[] = lines.map((l) => ({
+      id: l.id,
+      label: l.line_id,
+      manpower: lineManpower?.get(l.id) ?? null,
+      target_efficiency: l.target_efficiency,
+      target_per_day: l.target_per_day,
+    }));
+    const bookings = schedules.map((s) => ({ ...s, style: s.workOrder.style }));
+    return planOrders(unscheduledPOs, planLines, bookings, calendar, {
+      startDate,
+      minutesPerDay,
+      maxLinesPerOrder: parseInt(maxLines),
+      curves: learningCurves,
+    });
+  }, [open, startDate, maxLines, lines, lineManpower, learningCurves, unscheduledPOs, schedules, calendar, minutesPerDay]);
+
+  const accepted = plan?.planned.filter((p) => !rejected.has(p.order.id)) ?? [];
+  const acceptedRows = accepted.flatMap((p) => p.allocations);
+  const lateCount = plan?.planned.filter((p) => p.days_late > 0).length ?? 0;
+
+  const toggle = (id: string) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  function handleApply() {
+    if (acceptedRows.length === 0) return;
+    onApply(acceptedRows.map((a) => ({ ...a, notes: "Auto-planned" })));
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold flex items-center gap-2">
+            <Wand2 className="h-4 w-4 text-blue-600" />
+            Auto-plan Unscheduled Orders
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="px-6 pt-4 grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-[11px] font-semibold text-slate-600 uppercase tracking-wide">Plan From</Label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-[11px] font-semibold text-slate-600 uppercase tracking-wide">Split Across</Label>
+            <Select value={maxLines} onValueChange={setMaxLines}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">One line per PO</SelectItem>
+                <SelectItem value="2">Up to 2 lines</SelectItem>
+                <SelectItem value="3">Up to 3 lines</SelectItem>
+                <SelectItem value="4">Up to 4 lines</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <p className="px-6 pt-2 text-[11px] text-slate-400">
+          Capacity = manpower × {Math.round(minutesPerDay)} min/day × line target efficiency ÷ SMV. Lines are loaded
+          after their existing bookings; off-days and holidays are skipped, and style changeovers ramp up.
+        </p>
+
+        <div className="px-6 py-3 max-h-[50vh] overflow-y-auto space-y-2">
+          {plan && plan.planned.length === 0 && plan.unplaced.length === 0 && (
+            <p className="text-[12px] text-slate-400 text-center py-8">No unscheduled orders to plan</p>
+          )}
+
+          {plan?.planned.map((p) => {
+            const isAccepted = !rejected.has(p.order.id);
+            return (
+              <div
+                key={p.order.id}
+                className={`rounded-lg border px-3 py-2.5 transition-opacity ${isAccepted ? "border-slate-200 bg-white" : "border-slate-100 bg-slate-50/60 opacity-60"}`}
+              >
+                <div className="flex items-center gap-3">
+                  <Checkbox checked={isAccepted} onCheckedChange={() => toggle(p.order.id)} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[13px] font-semibold text-slate-800 truncate">
+                      {p.order.po_number}
+                      <span className="ml-2 text-[11px] font-normal text-slate-400 tabular-nums">
+                        {p.order.order_qty.toLocaleString()} pcs
+                        {p.order.planned_ex_factory && ` · ex-factory ${fmt(p.order.planned_ex_factory)}`}
+                      </span>
+                    </p>
+                  </div>
+                  {p.days_late > 0 ? (
+                    <Badge variant="outline" className="text-[10px] border-red-200 text-red-600 bg-red-50">
+                      {p.days_late} day{p.days_late !== 1 ? "s" : ""} late
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline" className="text-[10px] border-emerald-200 text-emerald-700 bg-emerald-50">
+                      On time
+                    </Badge>
+                  )}
+                </div>
+                <div className="mt-1.5 pl-7 space-y-0.5">
+                  {p.allocations.map((a) => (
+                    <p key={a.line_id} className="text-[11px] text-slate-500 tabular-nums">
+                      <span className="font-medium text-emerald-700">+ {lineLabels.get(a.line_id)}</span>
+                      {" · "}{fmt(a.start_date)} – {fmt(a.end_date)}
+                      {" · "}{a.target_qty.toLocaleString()} pcs ({a.daily_target.toLocaleString()}/day)
+                    </p>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
+          {plan && plan.unplaced.length > 0 && (
+            <div className="pt-2 space-y-1">
+              <p className="text-[11px] font-semibold text-slate-600 uppercase tracking-wide">Could not place</p>
+              {plan.unplaced.map((u) => (
+                <div key={u.order.id} className="flex items-start gap-2 text-[11px] text-slate-500">
+                  <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0 text-amber-500" />
+                  <span>
+                    <span className="font-medium text-slate-700">{u.order.po_number}</span> — {u.reason}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="px-6 py-4 bg-slate-50/50 border-t border-slate-100 sm:justify-between">
+          <span className="flex items-center gap-1.5 text-[11px] text-slate-500">
+            {plan && plan.planned.length > 0 && (
+              <>
+                <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500" />
+                {plan.planned.length - lateCount} of {plan.planned.length} on time
+              </>
+            )}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+            <Button onClick={handleApply} disabled={acceptedRows.length === 0 || isPending} className="h-9">
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply {acceptedRows.length} schedule{acceptedRows.length !== 1 ? "s" : ""}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,16 @@
 import { useMemo } from "react";
-import { eachDayOfInterval, format, parseISO, differenceInDays, isWeekend } from "date-fns";
+import { eachDayOfInterval, format, parseISO, differenceInDays } from "date-fns";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import type { ViewMode } from "@/hooks/useTimelineState";
 import type { ExFactoryDeadline } from "@/hooks/useProductionSchedule";
+import { isWorkingDay, type WorkingCalendar } from "@/lib/working-days";
 
 interface Props {
   deadlines: ExFactoryDeadline[];
   visibleRange: { start: Date; end: Date };
   viewMode: ViewMode;
   dayWidth: number;
+  calendar: WorkingCalendar;
 }
 
 interface DeadlineCard {
@@ -25,7 +27,7 @@ interface DeadlineCard {
   isUrgent: boolean;
 }
 
-export function DeadlineStrip({ deadlines, visibleRange, viewMode, dayWidth }: Props) {
+export function DeadlineStrip({ deadlines, visibleRange, viewMode, dayWidth, calendar }: Props) {
   const days = eachDayOfInterval(visibleRange);
   const isMonth = viewMode === "month";
 
@@ -78,7 +80,7 @@ export function DeadlineStrip({ deadlines, visibleRange, viewMode, dayWidth }: P
               key={day.toISOString()}
               className={`h-full
                 ${day.getDay() === 1 && i > 0 ? "border-l border-slate-200/40" : i > 0 ? "border-l border-slate-100/40" : ""}
-                ${isWeekend(day) ? "bg-slate-50/30" : ""}
+                ${!isWorkingDay(calendar, format(day, "yyyy-MM-dd")) ? "bg-slate-50/30" : ""}
               `}
               style={{ width: dayWidth, minWidth: dayWidth }}
             />
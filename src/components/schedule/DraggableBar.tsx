@@ -1,8 +1,9 @@
 import { useDraggable } from "@dnd-kit/core";
 import { CSS } from "@dnd-kit/utilities";
 import { parseISO, differenceInDays, isAfter, format } from "date-fns";
+import { PackageX } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import type { ScheduleWithDetails } from "@/hooks/useProductionSchedule";
+import { effectiveEndDate, type ScheduleWithDetails } from "@/hooks/useProductionSchedule";
 import type { BarLayout } from "./lane-layout";
 
 interface Props {
@@ -11,6 +12,7 @@ interface Props {
   rowPadding: number;
   laneHeight: number;
   laneGap: number;
+  readOnly?: boolean;
   onClick: () => void;
 }
 
@@ -19,7 +21,7 @@ function getBarStyle(schedule: ScheduleWithDetails): { bg: string; text: string
   if (schedule.colour) return { bg: "", text: "text-white" };
   const ex = schedule.workOrder.planned_ex_factory;
   if (ex) {
-    const end = parseISO(schedule.end_date);
+    const end = parseISO(effectiveEndDate(schedule));
     const exDate = parseISO(ex);
     if (isAfter(end, exDate)) return { bg: "bg-gradient-to-r from-red-500 to-red-600", text: "text-white" };
     if (differenceInDays(exDate, end) <= 7) return { bg: "bg-gradient-to-r from-amber-500 to-amber-600", text: "text-white" };
@@ -27,7 +29,7 @@ function getBarStyle(schedule: ScheduleWithDetails): { bg: string; text: string
   return { bg: "bg-gradient-to-r from-blue-500 to-blue-600", text: "text-white" };
 }
 
-export function DraggableBar({ bar, dayWidth, rowPadding, laneHeight, laneGap, onClick }: Props) {
+export function DraggableBar({ bar, dayWidth, rowPadding, laneHeight, laneGap, readOnly = false, onClick }: Props) {
   const { schedule, startDay, endDay, lane, startsBeforeView, endsAfterView } = bar;
   const isCompleted = schedule.status === "completed";
   const isDelayed = schedule.status === "delayed";
@@ -40,11 +42,25 @@ export function DraggableBar({ bar, dayWidth, rowPadding, laneHeight, laneGap, o
   const rLeft = startsBeforeView ? "" : "rounded-l-md";
   const rRight = endsAfterView ? "" : "rounded-r-md";
 
+  // Changeover: hatch the ramp-up days at the start of the bar
+  const ramp = schedule.ramp;
+  const rampWidth = ramp?.rampEnd && !startsBeforeView
+    ? Math.min(width, (differenceInDays(parseISO(ramp.rampEnd), parseISO(schedule.start_date)) + 1) * dayWidth - 2)
+    : 0;
+
+  // Plan vs actual: filled strip for output, tick for where the plan expects it by now
+  const { progress } = schedule;
+  const hasProgress = progress.targetQty > 0 && (progress.actualQty > 0 || progress.plannedQty > 0) && !isCompleted;
+  const actualPct = hasProgress ? Math.min(1, progress.actualQty / progress.targetQty) : 0;
+  const plannedPct = hasProgress ? Math.min(1, progress.plannedQty / progress.targetQty) : 0;
+
+  const { material, materialBlocked } = schedule;
+
   const showPO = width > 48;
   const showBuyer = width > 110 && laneHeight >= 30;
 
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
-    id: `bar-${schedule.id}`,
+    id: `${readOnly ? "readonly-" : ""}bar-${schedule.id}`,
     data: {
       type: "schedule-bar",
       schedule,
@@ -52,7 +68,7 @@ export function DraggableBar({ bar, dayWidth, rowPadding, laneHeight, laneGap, o
       barHeight: laneHeight,
       durationDays: differenceInDays(parseISO(schedule.end_date), parseISO(schedule.start_date)),
     },
-    disabled: isCompleted,
+    disabled: isCompleted || readOnly,
   });
 
   const s = parseISO(schedule.start_date);
@@ -71,7 +87,7 @@ export function DraggableBar({ bar, dayWidth, rowPadding, laneHeight, laneGap, o
             ${style.bg} ${style.text} ${rLeft} ${rRight}
             ${isCompleted ? "opacity-50 bg-[repeating-linear-gradient(135deg,transparent,transparent_4px,rgba(255,255,255,0.3)_4px,rgba(255,255,255,0.3)_8px)]" : "shadow-sm hover:shadow-md"}
             ${isDelayed ? "ring-1 ring-red-400/40 ring-offset-1" : ""}
-            ${isDragging ? "opacity-30 shadow-none" : "cursor-grab active:cursor-grabbing"}
+            ${isDragging ? "opacity-30 shadow-none" : readOnly ? "cursor-pointer" : "cursor-grab active:cursor-grabbing"}
             transition-shadow duration-150 hover:z-20 hover:brightness-105
           `}
           style={{
@@ -84,8 +100,28 @@ export function DraggableBar({ bar, dayWidth, rowPadding, laneHeight, laneGap, o
             if (!isDragging) onClick();
           }}
         >
+          {rampWidth > 0 && (
+            <div
+              className="absolute inset-y-0 left-0 border-r border-dashed border-white/60 bg-[repeating-linear-gradient(135deg,rgba(255,255,255,0.35),rgba(255,255,255,0.35)_3px,transparent_3px,transparent_7px)]"
+              style={{ width: rampWidth }}
+            />
+          )}
+          {hasProgress && (
+            <div className="absolute inset-x-0 bottom-0 h-[3px] bg-black/15">
+              <div
+                className={`h-full ${progress.variance < 0 && isDelayed ? "bg-red-200" : "bg-white/90"}`}
+                style={{ width: `${actualPct * 100}%` }}
+              />
+              <div className="absolute -top-[2px] h-[5px] w-[2px] bg-slate-900/70" style={{ left: `calc(${plannedPct * 100}% - 1px)` }} />
+            </div>
+          )}
+          {materialBlocked && (
+            <span className="absolute right-1 top-1 flex h-3.5 w-3.5 items-center justify-center rounded-full bg-white text-red-600 shadow-sm">
+              <PackageX className="h-2.5 w-2.5" />
+            </span>
+          )}
           {showPO && (
-            <div className="flex flex-col justify-center h-full px-2.5 min-w-0">
+            <div className={`relative flex flex-col justify-center h-full px-2.5 min-w-0 ${materialBlocked ? "pr-5" : ""}`}>
               <span className="text-[11px] font-semibold truncate leading-none">
                 {schedule.workOrder.po_number}
               </span>
@@ -105,6 +141,31 @@ export function DraggableBar({ bar, dayWidth, rowPadding, laneHeight, laneGap, o
           <div className="h-px bg-border my-2" />
           <p className="text-[11px]">{format(s, "d MMM")} → {format(e, "d MMM yyyy")}</p>
           <p className="text-[11px] text-muted-foreground">{differenceInDays(e, s) + 1} days · {schedule.workOrder.order_qty?.toLocaleString()} pcs</p>
+          {hasProgress && (
+            <p className="text-[11px] mt-1 tabular-nums">
+              Sewn {progress.actualQty.toLocaleString()} / {progress.targetQty.toLocaleString()}
+              <span className="text-muted-foreground"> · plan {progress.plannedQty.toLocaleString()} by now</span>
+              {progress.variance !== 0 && (
+                <span className={`block font-semibold ${progress.variance < 0 ? "text-red-600" : "text-emerald-600"}`}>
+                  {progress.variance > 0 ? "+" : "−"}{Math.abs(progress.variance).toLocaleString()} vs plan
+                  {progress.forecastEnd && progress.forecastEnd > schedule.end_date && ` · finishing ${format(parseISO(progress.forecastEnd), "d MMM")}`}
+                </span>
+              )}
+            </p>
+          )}
+          {ramp && (
+            <p className="text-[11px] text-muted-foreground mt-1">
+              Changeover{ramp.previousStyle ? ` from ${ramp.previousStyle}` : ""} · {ramp.steps.map((p) => `${p}%`).join("/")}
+              {ramp.projectedEnd && ramp.projectedEnd > schedule.end_date && (
+                <span className="block font-semibold text-amber-600">Ramp-up pushes finish to {format(parseISO(ramp.projectedEnd), "d MMM")}</span>
+              )}
+            </p>
+          )}
+          {materialBlocked && material?.required != null && (
+            <p className="text-[11px] font-semibold text-red-600 mt-1 tabular-nums">
+              Materials not in-house · {material.received.toLocaleString()} / {material.required.toLocaleString()} received
+            </p>
+          )}
           {daysLeft !== null && (
             <p className={`text-[11px] font-semibold mt-1 ${daysLeft <= 0 ? "text-red-600" : daysLeft <= 7 ? "text-amber-600" : "text-emerald-600"}`}>
               {daysLeft <= 0 ? `${Math.abs(daysLeft)}d past ex-factory` : `${daysLeft}d to ex-factory`}
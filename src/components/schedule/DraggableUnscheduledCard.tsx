@@ -38,7 +38,12 @@ export function DraggableUnscheduledCard({ po, onSchedule }: Props) {
 
       <div className="pl-4 pr-3 py-2">
         <div className="flex items-center justify-between gap-2">
-          <span className="text-[12px] font-bold text-slate-800 tracking-tight">{po.po_number}</span>
+          <span className="text-[12px] font-bold text-slate-800 tracking-tight">
+            {po.po_number}
+            {po.is_what_if && (
+              <span className="ml-1.5 rounded bg-violet-100 px-1 py-px text-[9px] font-semibold uppercase text-violet-700">What-if</span>
+            )}
+          </span>
           <span className="text-[10px] text-slate-400 truncate">{po.buyer}</span>
         </div>
         <div className="flex items-center justify-between gap-2 mt-1">
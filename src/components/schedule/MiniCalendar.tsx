@@ -2,17 +2,19 @@ import { useEffect, useMemo, useState } from "react";
 import {
   startOfMonth, endOfMonth, startOfWeek, endOfWeek,
   eachDayOfInterval, format, isSameMonth, isToday,
-  isSameDay, addMonths, subMonths, isWithinInterval, isWeekend,
+  isSameDay, addMonths, subMonths, isWithinInterval,
 } from "date-fns";
 import { ChevronLeft, ChevronRight } from "lucide-react";
+import { holidayOn, isWorkingDay, type WorkingCalendar } from "@/lib/working-days";
 
 interface Props {
   anchorDate: Date;
   visibleRange: { start: Date; end: Date };
   onDateClick: (date: Date) => void;
+  calendar: WorkingCalendar;
 }
 
-export function MiniCalendar({ anchorDate, visibleRange, onDateClick }: Props) {
+export function MiniCalendar({ anchorDate, visibleRange, onDateClick, calendar }: Props) {
   const [displayMonth, setDisplayMonth] = useState(() => startOfMonth(anchorDate));
 
   useEffect(() => {
@@ -65,7 +67,9 @@ export function MiniCalendar({ anchorDate, visibleRange, onDateClick }: Props) {
         {calendarDays.map((day) => {
           const inMonth = isSameMonth(day, displayMonth);
           const today = isToday(day);
-          const weekend = isWeekend(day);
+          const key = format(day, "yyyy-MM-dd");
+          const weekend = !isWorkingDay(calendar, key);
+          const holiday = holidayOn(calendar, key);
           const inRange = inMonth && isWithinInterval(day, { start: visibleRange.start, end: visibleRange.end });
           const isAnchor = isSameDay(day, anchorDate);
 
@@ -73,13 +77,14 @@ export function MiniCalendar({ anchorDate, visibleRange, onDateClick }: Props) {
             <button
               key={day.toISOString()}
               className={`h-6 w-full flex items-center justify-center text-[10px] tabular-nums transition-all duration-75
-                ${!inMonth ? "text-slate-200" : weekend ? "text-slate-400" : "text-slate-600"}
+                ${!inMonth ? "text-slate-200" : holiday ? "text-rose-500" : weekend ? "text-slate-400" : "text-slate-600"}
                 ${inMonth && !inRange && !isAnchor && !today ? "hover:bg-slate-50 rounded" : ""}
                 ${inRange && !isAnchor && !today ? "bg-blue-50 text-blue-700 font-medium" : ""}
                 ${today && !isAnchor ? "font-bold text-blue-600 bg-blue-100/60 rounded" : ""}
                 ${isAnchor ? "bg-blue-600 text-white font-bold rounded shadow-sm" : ""}
               `}
               onClick={() => onDateClick(day)}
+              title={holiday?.name}
             >
               {format(day, "d")}
             </button>
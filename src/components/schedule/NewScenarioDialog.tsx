@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { FlaskConical, Loader2 } from "lucide-react";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (input: { name: string; notes: string | null }) => void;
+  isPending: boolean;
+}
+
+export function NewScenarioDialog({ open, onOpenChange, onCreate, isPending }: Props) {
+  const [name, setName] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setName("");
+    setNotes("");
+  }, [open]);
+
+  const canSave = name.trim() !== "" && !isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="h-4 w-4 text-violet-600" />
+            New Scenario
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <p className="text-[12px] text-slate-500">
+            Starts as a copy of the live schedule. Nothing you change here touches the live plan until you promote it.
+          </p>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Name *</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Take the 20k H&M order" className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} className="resize-none" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!canSave} onClick={() => onCreate({ name: name.trim(), notes: notes.trim() || null })}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,205 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { AlertTriangle, FlaskConical, GitCompare, Loader2, Plus, Rocket, Trash2, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { ScenarioLiveChanges, ScheduleScenario } from "@/hooks/useScheduleScenarios";
+import type { WorkOrder } from "@/hooks/useProductionSchedule";
+
+const LIVE = "live";
+const MAX_LISTED_CHANGES = 8;
+
+interface Props {
+  scenarios: ScheduleScenario[];
+  scenario: ScheduleScenario | null;
+  onScenarioChange: (id: string | null) => void;
+  whatIfOrders: WorkOrder[];
+  /** What-if orders still on the timeline block promotion */
+  whatIfBooked: boolean;
+  compare: boolean;
+  onCompareChange: (value: boolean) => void;
+  onNew: () => void;
+  onAddWhatIf: () => void;
+  onRemoveWhatIf: (orderId: string) => void;
+  /** Live-plan changes since the copy, loaded when the promote dialog opens */
+  liveChanges: ScenarioLiveChanges | null;
+  liveChangesLoading: boolean;
+  onReviewPromote: () => void;
+  /** `confirmedRevision` is set when the planner agreed to overwrite live changes */
+  onPromote: (confirmedRevision?: number) => void;
+  onDiscard: () => void;
+  isPromoting: boolean;
+}
+
+export function ScenarioBar({
+  scenarios, scenario, onScenarioChange, whatIfOrders, whatIfBooked, compare, onCompareChange,
+  onNew, onAddWhatIf, onRemoveWhatIf, liveChanges, liveChangesLoading, onReviewPromote, onPromote, onDiscard, isPromoting,
+}: Props) {
+  const overwrites = liveChanges?.changed ?? false;
+
+  return (
+    <div
+      className={`rounded-xl border px-3 py-2 space-y-2 ${
+        scenario ? "border-violet-200 bg-violet-50/60" : "border-slate-200 bg-white"
+      }`}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <FlaskConical className={`h-4 w-4 ${scenario ? "text-violet-600" : "text-slate-400"}`} />
+        <Select value={scenario?.id ?? LIVE} onValueChange={(v) => onScenarioChange(v === LIVE ? null : v)}>
+          <SelectTrigger className="h-8 w-[220px] text-[12px] bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={LIVE}>Live plan</SelectItem>
+            {scenarios.map((s) => (
+              <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {scenario ? (
+          <>
+            <span className="rounded-full bg-violet-600 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-white">
+              Sandbox
+            </span>
+            {scenario.notes && <span className="text-[11px] text-slate-500 truncate max-w-[280px]">{scenario.notes}</span>}
+
+            <div className="ml-auto flex items-center gap-1.5">
+              <Button
+                variant={compare ? "secondary" : "ghost"}
+                size="sm"
+                className="h-8 text-[11px]"
+                onClick={() => onCompareChange(!compare)}
+              >
+                <GitCompare className="h-3.5 w-3.5 mr-1" />
+                Compare with live
+              </Button>
+              <Button variant="outline" size="sm" className="h-8 text-[11px] bg-white" onClick={onAddWhatIf}>
+                <Plus className="h-3.5 w-3.5 mr-1" />
+                What-if order
+              </Button>
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 text-[11px] text-slate-500 hover:text-red-600">
+                    <Trash2 className="h-3.5 w-3.5 mr-1" />
+                    Discard
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Discard "{scenario.name}"?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The scenario and its what-if orders are deleted. The live plan is not affected.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={onDiscard} className="bg-red-600 hover:bg-red-700">
+                      Discard
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+
+              <AlertDialog onOpenChange={(open) => open && onReviewPromote()}>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    size="sm"
+                    className="h-8 text-[11px] bg-violet-600 hover:bg-violet-700"
+                    disabled={whatIfBooked || isPromoting}
+                    title={whatIfBooked ? "Unbook what-if orders before promoting" : undefined}
+                  >
+                    <Rocket className="h-3.5 w-3.5 mr-1" />
+                    Promote to live
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Make "{scenario.name}" the live plan?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Every booking on the live schedule is replaced with this scenario's bookings. Other open scenarios are kept as they are.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+
+                  {liveChangesLoading ? (
+                    <div className="flex items-center gap-2 text-[12px] text-slate-500">
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      Checking the live plan for newer changes…
+                    </div>
+                  ) : overwrites && liveChanges && (
+                    <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 space-y-1.5">
+                      <p className="flex items-center gap-1.5 text-[12px] font-semibold text-amber-800">
+                        <AlertTriangle className="h-3.5 w-3.5" />
+                        The live plan changed after this scenario was copied ({format(new Date(scenario.created_at), "d MMM, HH:mm")})
+                      </p>
+                      {liveChanges.entries.length > 0 ? (
+                        <>
+                          <p className="text-[11px] text-amber-800">These live bookings will be lost:</p>
+                          <ul className="space-y-0.5 text-[11px] text-slate-700">
+                            {liveChanges.entries.slice(0, MAX_LISTED_CHANGES).map((e) => (
+                              <li key={e.schedule_id}>
+                                <span className="font-semibold">{e.po_number}</span>
+                                <span className="text-slate-500"> · {e.line_name} · {format(parseISO(e.start_date), "d MMM")}–{format(parseISO(e.end_date), "d MMM")}</span>
+                                <span className="text-amber-700"> · {e.is_new ? "added" : "replanned"} {format(new Date(e.plan_changed_at), "d MMM, HH:mm")}</span>
+                              </li>
+                            ))}
+                          </ul>
+                          {liveChanges.entries.length > MAX_LISTED_CHANGES && (
+                            <p className="text-[11px] text-slate-500">+{liveChanges.entries.length - MAX_LISTED_CHANGES} more</p>
+                          )}
+                        </>
+                      ) : (
+                        <p className="text-[11px] text-amber-800">
+                          Bookings were removed from the live plan since then. Promoting puts back this scenario's copies of them.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      disabled={liveChangesLoading || !liveChanges}
+                      onClick={() => onPromote(overwrites ? liveChanges?.liveRevision : undefined)}
+                      className={overwrites ? "bg-amber-600 hover:bg-amber-700" : undefined}
+                    >
+                      {overwrites ? "Overwrite and promote" : "Promote"}
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </>
+        ) : (
+          <Button variant="ghost" size="sm" className="ml-auto h-8 text-[11px] text-slate-600" onClick={onNew}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            New scenario
+          </Button>
+        )}
+      </div>
+
+      {scenario && whatIfOrders.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-[10px] font-semibold uppercase tracking-wide text-violet-700">What-if orders</span>
+          {whatIfOrders.map((o) => (
+            <span
+              key={o.id}
+              className="inline-flex items-center gap-1 rounded-md border border-violet-200 bg-white px-1.5 py-0.5 text-[11px] text-slate-700"
+            >
+              <span className="font-semibold">{o.po_number}</span>
+              <span className="text-slate-400">{o.buyer} · {o.order_qty.toLocaleString()} pcs</span>
+              <button
+                className="ml-0.5 text-slate-300 hover:text-red-500"
+                onClick={() => onRemoveWhatIf(o.id)}
+                title="Remove from scenario"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,8 +3,11 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { format, parseISO, differenceInDays } from "date-fns";
-import { Pencil, Trash2 } from "lucide-react";
-import type { ScheduleWithDetails } from "@/hooks/useProductionSchedule";
+import { CalendarClock, Pencil, Trash2 } from "lucide-react";
+import { effectiveEndDate, type ScheduleWithDetails } from "@/hooks/useProductionSchedule";
+import type { RescheduledBooking } from "@/lib/schedule-progress";
+import { MATERIAL_STATUS_LABELS } from "@/lib/material-readiness";
+import { countWorkingDays, type WorkingCalendar } from "@/lib/working-days";
 
 interface Props {
   schedule: ScheduleWithDetails | null;
@@ -12,6 +15,10 @@ interface Props {
   onOpenChange: (open: boolean) => void;
   onEdit: (schedule: ScheduleWithDetails) => void;
   onDelete: (id: string) => void;
+  calendar: WorkingCalendar;
+  reforecastPlan: (schedule: ScheduleWithDetails) => RescheduledBooking[];
+  onReforecast: (changes: RescheduledBooking[]) => void;
+  isReforecasting: boolean;
 }
 
 const statusColors: Record<string, string> = {
@@ -28,12 +35,20 @@ const statusLabels: Record<string, string> = {
   delayed: "Delayed",
 };
 
-export function ScheduleDetailDrawer({ schedule, open, onOpenChange, onEdit, onDelete }: Props) {
+export function ScheduleDetailDrawer({
+  schedule, open, onOpenChange, onEdit, onDelete, calendar, reforecastPlan, onReforecast, isReforecasting,
+}: Props) {
   const wo = schedule?.workOrder;
   const start = schedule ? parseISO(schedule.start_date) : new Date();
   const end = schedule ? parseISO(schedule.end_date) : new Date();
   const duration = differenceInDays(end, start) + 1;
-  const isAtRisk = wo?.planned_ex_factory && schedule && parseISO(schedule.end_date) > parseISO(wo.planned_ex_factory);
+  const workingDays = schedule ? countWorkingDays(calendar, schedule.start_date, schedule.end_date) : 0;
+  const isAtRisk = wo?.planned_ex_factory && schedule && effectiveEndDate(schedule) > wo.planned_ex_factory;
+  const ramp = schedule?.ramp ?? null;
+  const progress = schedule?.progress ?? null;
+  const material = schedule?.material ?? null;
+  const reforecastChanges = schedule && schedule.status === "delayed" ? reforecastPlan(schedule) : [];
+  const pushedCount = Math.max(0, reforecastChanges.length - 1);
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
@@ -55,7 +70,7 @@ export function ScheduleDetailDrawer({ schedule, open, onOpenChange, onEdit, onD
           <DetailSection label="Line" value={`${schedule.line.line_id}${schedule.line.name ? ` – ${schedule.line.name}` : ""}`} />
           <DetailSection label="Start Date" value={format(start, "d MMMM yyyy")} />
           <DetailSection label="End Date" value={format(end, "d MMMM yyyy")} />
-          <DetailSection label="Duration" value={`${duration} day${duration !== 1 ? "s" : ""}`} />
+          <DetailSection label="Duration" value={`${duration} day${duration !== 1 ? "s" : ""}${workingDays !== duration ? ` · ${workingDays} working` : ""}`} />
 
           {wo.planned_ex_factory && (
             <div className="flex items-start justify-between py-2 border-b border-slate-100">
@@ -69,11 +84,136 @@ export function ScheduleDetailDrawer({ schedule, open, onOpenChange, onEdit, onD
 
           {schedule.target_qty && <DetailSection label="Target Qty" value={schedule.target_qty.toLocaleString()} />}
           {schedule.daily_target && <DetailSection label="Daily Target" value={schedule.daily_target.toLocaleString()} />}
+
+          {progress && progress.targetQty > 0 && (
+            <div className="rounded-lg border border-slate-200 p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-semibold text-slate-700">Plan vs actual</span>
+                <span className="text-[11px] text-slate-500 tabular-nums">
+                  {progress.actualQty.toLocaleString()} / {progress.targetQty.toLocaleString()} pcs
+                </span>
+              </div>
+              <div className="relative h-2 rounded-full bg-slate-100 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${schedule.status === "delayed" ? "bg-red-500" : "bg-emerald-500"}`}
+                  style={{ width: `${Math.min(100, (progress.actualQty / progress.targetQty) * 100)}%` }}
+                />
+                <div
+                  className="absolute inset-y-0 w-0.5 bg-slate-800"
+                  style={{ left: `${Math.min(100, (progress.plannedQty / progress.targetQty) * 100)}%` }}
+                />
+              </div>
+              <p className="text-[11px] text-slate-500 tabular-nums">
+                Plan by now {progress.plannedQty.toLocaleString()}
+                {progress.variance !== 0 && (
+                  <span className={`font-semibold ${progress.variance < 0 ? "text-red-600" : "text-emerald-600"}`}>
+                    {" "}({progress.variance > 0 ? "+" : "−"}{Math.abs(progress.variance).toLocaleString()})
+                  </span>
+                )}
+                {progress.recentPerDay > 0 && ` · recent ${Math.round(progress.recentPerDay).toLocaleString()}/day`}
+                {progress.lastOutputDate && ` · last output ${format(parseISO(progress.lastOutputDate), "d MMM")}`}
+              </p>
+              {progress.forecastEnd && progress.forecastEnd > schedule.end_date && schedule.status !== "completed" && (
+                <p className="text-[11px] text-red-600">
+                  At this pace it finishes {format(parseISO(progress.forecastEnd), "d MMM yyyy")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {ramp && (
+            <div className="rounded-lg border border-amber-200/70 bg-amber-50/50 p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-semibold text-amber-800">Style changeover</span>
+                <span className="text-[11px] text-amber-700">{ramp.curveName}</span>
+              </div>
+              <p className="text-[11px] text-amber-700/90">
+                {ramp.previousStyle ? `${ramp.previousStyle} → ${wo.style}` : `First booking on ${schedule.line.line_id}`}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {ramp.steps.map((pct, i) => (
+                  <span key={i} className="rounded bg-white/80 border border-amber-200/70 px-1.5 py-0.5 text-[10px] tabular-nums text-amber-800">
+                    D{i + 1} {pct}%{schedule.daily_target ? ` · ${Math.round((schedule.daily_target * pct) / 100).toLocaleString()}` : ""}
+                  </span>
+                ))}
+              </div>
+              {schedule.daily_target ? (
+                <p className="text-[11px] text-amber-700/90">
+                  Ramp-up loss ≈ {ramp.loss.toLocaleString()} pcs
+                  {ramp.projectedEnd && (
+                    <>
+                      {" · "}projected finish{" "}
+                      <span className={`font-semibold ${ramp.projectedEnd > schedule.end_date ? "text-red-600" : ""}`}>
+                        {format(parseISO(ramp.projectedEnd), "d MMM yyyy")}
+                      </span>
+                    </>
+                  )}
+                </p>
+              ) : (
+                <p className="text-[11px] text-amber-700/90">Set a daily target to project the ramp-up finish.</p>
+              )}
+            </div>
+          )}
+          {material && (
+            <div className={`rounded-lg border p-3 space-y-2 ${schedule.materialBlocked ? "border-red-200 bg-red-50/50" : "border-slate-200"}`}>
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-semibold text-slate-700">Materials</span>
+                <span className={`text-[11px] font-medium ${schedule.materialBlocked ? "text-red-600" : material.status === "ready" ? "text-emerald-600" : "text-slate-500"}`}>
+                  {MATERIAL_STATUS_LABELS[material.status]}
+                </span>
+              </div>
+              {material.required != null ? (
+                <>
+                  <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${material.status === "ready" ? "bg-emerald-500" : "bg-red-500"}`}
+                      style={{ width: `${(material.coverage ?? 0) * 100}%` }}
+                    />
+                  </div>
+                  <p className="text-[11px] text-slate-500 tabular-nums">
+                    Received {material.received.toLocaleString()} of {material.required.toLocaleString()}
+                    {material.shortfall > 0 && <span className="font-semibold text-red-600"> · {material.shortfall.toLocaleString()} short</span>}
+                    {" · "}{material.source === "manual" ? "entered requirement" : "from cost sheet"}
+                  </p>
+                </>
+              ) : (
+                <p className="text-[11px] text-slate-500">
+                  Received {material.received.toLocaleString()} · add fabric consumption to the cost sheet or enter a requirement on the storage dashboard.
+                </p>
+              )}
+            </div>
+          )}
           <DetailSection label="Order Qty" value={wo.order_qty?.toLocaleString() ?? "—"} />
           {schedule.notes && <DetailSection label="Notes" value={schedule.notes} />}
         </div>
 
-        <div className="mt-8 flex items-center gap-2">
+        {reforecastChanges.length > 0 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="mt-8 w-full border-red-200 text-red-600 hover:text-red-700" disabled={isReforecasting}>
+                <CalendarClock className="h-3.5 w-3.5 mr-1.5" />
+                Re-forecast {schedule.line.line_id}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Re-forecast {schedule.line.line_id}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {wo.po_number} will end on {format(parseISO(reforecastChanges[0].end_date), "d MMM yyyy")} at its recent pace.
+                  {pushedCount > 0
+                    ? ` ${pushedCount} booking${pushedCount !== 1 ? "s" : ""} queued behind it on this line will move right, keeping their order and length.`
+                    : " No other bookings on this line need to move."}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => onReforecast(reforecastChanges)}>Re-forecast</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+
+        <div className={`${reforecastChanges.length > 0 ? "mt-2" : "mt-8"} flex items-center gap-2`}>
           <Button variant="outline" className="flex-1" onClick={() => { onOpenChange(false); onEdit(schedule); }}>
             <Pencil className="h-3.5 w-3.5 mr-1.5" />
             Edit Schedule
@@ -6,8 +6,10 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertTriangle, Package, CalendarClock } from "lucide-react";
-import { format, parseISO, addDays } from "date-fns";
+import { format, parseISO } from "date-fns";
 import type { FactoryLine, WorkOrder, ScheduleWithDetails, ScheduleFormData } from "@/hooks/useProductionSchedule";
+import type { WorkingCalendar } from "@/lib/working-days";
+import { rampDays, rampedFinishDate } from "@/lib/learning-curve";
 
 interface Props {
   open: boolean;
@@ -18,9 +20,11 @@ interface Props {
   existingSchedules: ScheduleWithDetails[];
   onSubmit: (data: ScheduleFormData) => void;
   isPending: boolean;
+  calendar: WorkingCalendar;
+  rampStepsFor: (lineId: string, wo: WorkOrder, startDate: string, excludeId?: string) => number[];
 }
 
-export function ScheduleModal({ open, onOpenChange, workOrder, editSchedule, lines, existingSchedules, onSubmit, isPending }: Props) {
+export function ScheduleModal({ open, onOpenChange, workOrder, editSchedule, lines, existingSchedules, onSubmit, isPending, calendar, rampStepsFor }: Props) {
   const isEdit = !!editSchedule;
   const wo = editSchedule?.workOrder ?? workOrder;
 
@@ -50,15 +54,22 @@ export function ScheduleModal({ open, onOpenChange, workOrder, editSchedule, lin
     }
   }, [open, editSchedule, wo]);
 
+  // Changeover ramp-up when this line was sewing a different style before
+  const rampSteps = useMemo(
+    () => (lineId && startDate && wo ? rampStepsFor(lineId, wo, startDate, editSchedule?.id) : []),
+    [lineId, startDate, wo, rampStepsFor, editSchedule]
+  );
+
   useEffect(() => {
     if (!startDate || isEdit) return;
     const qty = parseInt(targetQty) || 0;
     const daily = parseInt(dailyTarget) || 0;
     if (qty > 0 && daily > 0) {
-      const days = Math.ceil(qty / daily) - 1;
-      setEndDate(format(addDays(parseISO(startDate), days), "yyyy-MM-dd"));
+      // Production days needed, skipping off-days and holidays and ramping up on a new style
+      const end = rampedFinishDate(calendar, startDate, qty, daily, rampSteps);
+      if (end) setEndDate(end);
     }
-  }, [startDate, targetQty, dailyTarget, isEdit]);
+  }, [startDate, targetQty, dailyTarget, isEdit, calendar, rampSteps]);
 
   useEffect(() => {
     if (isEdit || !lineId) return;
@@ -178,6 +189,13 @@ export function ScheduleModal({ open, onOpenChange, workOrder, editSchedule, lin
             <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional scheduling notes..." rows={2} className="text-sm resize-none" />
           </div>
 
+          {rampDays(rampSteps) > 0 && (
+            <p className="text-[11px] text-slate-500">
+              Style changeover on this line: {rampSteps.map((p) => `${p}%`).join(" → ")} of daily target over the first{" "}
+              {rampDays(rampSteps)} working day{rampDays(rampSteps) !== 1 ? "s" : ""}.
+            </p>
+          )}
+
           {/* Warnings — refined, not harsh */}
           {overlapWarning && (
             <div className="flex items-start gap-2.5 p-3 rounded-lg bg-amber-50/60 border border-amber-200/60">
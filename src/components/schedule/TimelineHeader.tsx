@@ -1,11 +1,13 @@
 import { useMemo } from "react";
-import { eachDayOfInterval, format, isToday, isWeekend, isSameMonth } from "date-fns";
+import { eachDayOfInterval, format, isToday, isSameMonth } from "date-fns";
 import type { ViewMode } from "@/hooks/useTimelineState";
+import { holidayOn, isWorkingDay, type WorkingCalendar } from "@/lib/working-days";
 
 interface Props {
   visibleRange: { start: Date; end: Date };
   viewMode: ViewMode;
   dayWidth: number;
+  calendar: WorkingCalendar;
 }
 
 interface MonthSpan {
@@ -13,7 +15,7 @@ interface MonthSpan {
   colSpan: number;
 }
 
-export function TimelineHeader({ visibleRange, viewMode, dayWidth }: Props) {
+export function TimelineHeader({ visibleRange, viewMode, dayWidth, calendar }: Props) {
   const days = eachDayOfInterval(visibleRange);
   const isMonth = viewMode === "month";
 
@@ -58,7 +60,9 @@ export function TimelineHeader({ visibleRange, viewMode, dayWidth }: Props) {
         </div>
         <div className="flex">
           {days.map((day, i) => {
-            const weekend = isWeekend(day);
+            const key = format(day, "yyyy-MM-dd");
+            const weekend = !isWorkingDay(calendar, key);
+            const holiday = holidayOn(calendar, key);
             const todayCol = isToday(day);
             const isFirstOfMonth = day.getDate() === 1 && i > 0;
             const isMonday = day.getDay() === 1;
@@ -67,13 +71,14 @@ export function TimelineHeader({ visibleRange, viewMode, dayWidth }: Props) {
                 key={day.toISOString()}
                 className={`flex flex-col items-center justify-center py-1.5
                   ${isFirstOfMonth ? "border-l-2 border-slate-300" : isMonday && i > 0 ? "border-l border-slate-200" : i > 0 ? "border-l border-slate-100" : ""}
-                  ${weekend ? "bg-slate-50/60" : "bg-slate-50/30"}
+                  ${holiday ? "bg-rose-50/70" : weekend ? "bg-slate-50/60" : "bg-slate-50/30"}
                   ${todayCol ? "bg-blue-50/70" : ""}
                 `}
                 style={{ width: dayWidth, minWidth: dayWidth }}
+                title={holiday?.name}
               >
                 <span className={`text-[9px] font-medium uppercase tracking-wider leading-none
-                  ${todayCol ? "text-blue-600" : weekend ? "text-slate-300" : "text-slate-400"}
+                  ${todayCol ? "text-blue-600" : holiday ? "text-rose-400" : weekend ? "text-slate-300" : "text-slate-400"}
                 `}>
                   {isMonth ? format(day, "EEEEE") : format(day, "EEE")}
                 </span>
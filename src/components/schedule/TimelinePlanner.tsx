@@ -4,6 +4,7 @@ import { TimelineHeader } from "./TimelineHeader";
 import { TimelineRow } from "./TimelineRow";
 import { DeadlineStrip } from "./DeadlineStrip";
 import type { ViewMode } from "@/hooks/useTimelineState";
+import type { WorkingCalendar } from "@/lib/working-days";
 import type { FactoryLine, ScheduleWithDetails, ExFactoryDeadline } from "@/hooks/useProductionSchedule";
 import type { RowSize } from "@/pages/Schedule";
 
@@ -15,11 +16,14 @@ interface Props {
   viewMode: ViewMode;
   rowSize: RowSize;
   todayOffset: number;
+  calendar: WorkingCalendar;
   onBarClick: (schedule: ScheduleWithDetails) => void;
   onVisibleMonthChange?: (label: string) => void;
+  /** View only: bars can't be dragged and rows don't accept drops */
+  readOnly?: boolean;
 }
 
-export function TimelinePlanner({ lines, schedulesByLine, deadlines, visibleRange, viewMode, rowSize, todayOffset, onBarClick, onVisibleMonthChange }: Props) {
+export function TimelinePlanner({ lines, schedulesByLine, deadlines, visibleRange, viewMode, rowSize, todayOffset, calendar, onBarClick, onVisibleMonthChange, readOnly = false }: Props) {
   const dayWidth = viewMode === "week" ? 120 : 52;
   const scrollRef = useRef<HTMLDivElement>(null);
   const lineColumnWidth = 148;
@@ -56,13 +60,14 @@ export function TimelinePlanner({ lines, schedulesByLine, deadlines, visibleRang
     <div className="rounded-xl bg-white border border-slate-200/80 shadow-sm overflow-hidden">
       <div ref={scrollRef} className="overflow-x-auto">
         <div style={{ width: lineColumnWidth + (105 * dayWidth) }}>
-          <TimelineHeader visibleRange={visibleRange} viewMode={viewMode} dayWidth={dayWidth} />
+          <TimelineHeader visibleRange={visibleRange} viewMode={viewMode} dayWidth={dayWidth} calendar={calendar} />
 
           <DeadlineStrip
             deadlines={deadlines}
             visibleRange={visibleRange}
             viewMode={viewMode}
             dayWidth={dayWidth}
+            calendar={calendar}
           />
 
           {lines.length === 0 ? (
@@ -80,8 +85,10 @@ export function TimelinePlanner({ lines, schedulesByLine, deadlines, visibleRang
                 viewMode={viewMode}
                 dayWidth={dayWidth}
                 rowSize={rowSize}
+                calendar={calendar}
                 onBarClick={onBarClick}
                 isEven={i % 2 === 0}
+                readOnly={readOnly}
               />
             ))
           )}
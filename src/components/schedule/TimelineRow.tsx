@@ -1,10 +1,11 @@
 import { useMemo } from "react";
-import { eachDayOfInterval, isToday, isWeekend, differenceInDays, parseISO } from "date-fns";
+import { eachDayOfInterval, isToday, differenceInDays, format, parseISO } from "date-fns";
 import { useDroppable } from "@dnd-kit/core";
 import { DraggableBar } from "./DraggableBar";
 import { computeLayout } from "./lane-layout";
 import type { ViewMode } from "@/hooks/useTimelineState";
-import type { FactoryLine, ScheduleWithDetails } from "@/hooks/useProductionSchedule";
+import { holidayOn, isWorkingDay, type WorkingCalendar } from "@/lib/working-days";
+import { effectiveEndDate, type FactoryLine, type ScheduleWithDetails } from "@/hooks/useProductionSchedule";
 import type { RowSize } from "@/pages/Schedule";
 
 const LANE_HEIGHTS: Record<RowSize, number> = { compact: 28, default: 38, expanded: 48 };
@@ -19,11 +20,13 @@ interface Props {
   viewMode: ViewMode;
   dayWidth: number;
   rowSize: RowSize;
+  calendar: WorkingCalendar;
   onBarClick: (schedule: ScheduleWithDetails) => void;
   isEven: boolean;
+  readOnly?: boolean;
 }
 
-export function TimelineRow({ line, schedules, visibleRange, viewMode, dayWidth, rowSize, onBarClick, isEven }: Props) {
+export function TimelineRow({ line, schedules, visibleRange, viewMode, dayWidth, rowSize, calendar, onBarClick, isEven, readOnly = false }: Props) {
   const days = eachDayOfInterval(visibleRange);
   const isEmpty = schedules.length === 0;
 
@@ -42,7 +45,7 @@ export function TimelineRow({ line, schedules, visibleRange, viewMode, dayWidth,
   const rowH = Math.max(ROW_PADDING * 2 + maxLanes * laneH + Math.max(0, maxLanes - 1) * LANE_GAP, MIN_ROW[rowSize]);
 
   const hasRisk = useMemo(() =>
-    schedules.some(s => s.status !== "completed" && s.workOrder.planned_ex_factory && parseISO(s.end_date) > parseISO(s.workOrder.planned_ex_factory)),
+    schedules.some(s => s.status !== "completed" && s.workOrder.planned_ex_factory && effectiveEndDate(s) > s.workOrder.planned_ex_factory),
   [schedules]);
 
   const todayIdx = useMemo(() => {
@@ -52,7 +55,8 @@ export function TimelineRow({ line, schedules, visibleRange, viewMode, dayWidth,
 
   // Droppable — the grid area is a drop target
   const { setNodeRef, isOver } = useDroppable({
-    id: `line-${line.id}`,
+    id: `${readOnly ? "readonly-" : ""}line-${line.id}`,
+    disabled: readOnly,
     data: {
       type: "line-row",
       lineId: line.id,
@@ -90,17 +94,20 @@ export function TimelineRow({ line, schedules, visibleRange, viewMode, dayWidth,
       {/* Grid + bars */}
       <div ref={setNodeRef} className={`relative flex-1 border-b border-slate-100 ${isOver ? "ring-1 ring-inset ring-blue-400/30" : ""}`}>
         <div className="flex h-full">
-          {days.map((day, i) => (
-            <div
-              key={day.toISOString()}
-              className={`h-full
-                ${day.getDay() === 1 && i > 0 ? "border-l border-slate-200/50" : i > 0 ? "border-l border-slate-100/60" : ""}
-                ${isWeekend(day) ? "bg-slate-50/40" : ""}
-                ${isToday(day) ? "bg-blue-50/30" : ""}
-              `}
-              style={{ width: dayWidth, minWidth: dayWidth }}
-            />
-          ))}
+          {days.map((day, i) => {
+            const key = format(day, "yyyy-MM-dd");
+            return (
+              <div
+                key={day.toISOString()}
+                className={`h-full
+                  ${day.getDay() === 1 && i > 0 ? "border-l border-slate-200/50" : i > 0 ? "border-l border-slate-100/60" : ""}
+                  ${holidayOn(calendar, key) ? "bg-rose-50/40" : !isWorkingDay(calendar, key) ? "bg-slate-50/40" : ""}
+                  ${isToday(day) ? "bg-blue-50/30" : ""}
+                `}
+                style={{ width: dayWidth, minWidth: dayWidth }}
+              />
+            );
+          })}
         </div>
 
         {isEmpty && !isOver && (
@@ -130,6 +137,7 @@ export function TimelineRow({ line, schedules, visibleRange, viewMode, dayWidth,
             rowPadding={ROW_PADDING}
             laneHeight={laneH}
             laneGap={LANE_GAP}
+            readOnly={readOnly}
             onClick={() => onBarClick(bar.schedule)}
           />
         ))}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import type { WhatIfOrderInput } from "@/hooks/useScheduleScenarios";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: WhatIfOrderInput) => void;
+  isPending: boolean;
+}
+
+const EMPTY = { po_number: "", buyer: "", style: "", item: "", order_qty: "", planned_ex_factory: "", smv: "", target_per_day: "" };
+
+export function WhatIfOrderDialog({ open, onOpenChange, onSave, isPending }: Props) {
+  const [form, setForm] = useState(EMPTY);
+
+  useEffect(() => {
+    if (open) setForm(EMPTY);
+  }, [open]);
+
+  const set = (key: keyof typeof EMPTY) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((f) => ({ ...f, [key]: e.target.value }));
+
+  const qty = parseInt(form.order_qty);
+  const canSave =
+    form.po_number.trim() !== "" && form.buyer.trim() !== "" && form.style.trim() !== "" && qty > 0 && !isPending;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      po_number: form.po_number.trim(),
+      buyer: form.buyer.trim(),
+      style: form.style.trim(),
+      item: form.item.trim() || null,
+      order_qty: qty,
+      planned_ex_factory: form.planned_ex_factory || null,
+      smv: form.smv ? parseFloat(form.smv) : null,
+      target_per_day: form.target_per_day ? parseInt(form.target_per_day) : null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Add What-if Order</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3 py-2">
+          <p className="col-span-2 text-[12px] text-slate-500">
+            Exists only in this scenario. It shows up with the unscheduled orders so you can book or auto-plan it.
+          </p>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">PO / Reference *</Label>
+            <Input value={form.po_number} onChange={set("po_number")} placeholder="WHATIF-01" className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Buyer *</Label>
+            <Input value={form.buyer} onChange={set("buyer")} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Style *</Label>
+            <Input value={form.style} onChange={set("style")} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Item</Label>
+            <Input value={form.item} onChange={set("item")} placeholder="Polo" className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Order Qty *</Label>
+            <Input type="number" min={1} value={form.order_qty} onChange={set("order_qty")} placeholder="20000" className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Ex-Factory</Label>
+            <Input type="date" value={form.planned_ex_factory} onChange={set("planned_ex_factory")} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">SMV</Label>
+            <Input type="number" min={0} step="0.01" value={form.smv} onChange={set("smv")} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Target / Day</Label>
+            <Input type="number" min={0} value={form.target_per_day} onChange={set("target_per_day")} className="h-9" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add to Scenario
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Bug, Edit2, Loader2, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { groupByOperation } from "@/lib/qc-defects";
+import { useDefectCatalogue, useDefectCatalogueMutations, type DefectType } from "@/hooks/useDefectCatalogue";
+import { DefectTypeDialog } from "./DefectTypeDialog";
+
+export function DefectCatalogueCard() {
+  const { defectTypes, isLoading } = useDefectCatalogue();
+  const { saveType, deleteType, loadStandard } = useDefectCatalogueMutations();
+  const [editing, setEditing] = useState<DefectType | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const groups = groupByOperation(defectTypes);
+
+  const openDialog = (type: DefectType | null) => {
+    setEditing(type);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-sm flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <div className="h-7 w-7 rounded-lg bg-gradient-to-br from-rose-500 to-red-600 shadow-md shadow-rose-500/20 flex items-center justify-center">
+              <Bug className="h-3.5 w-3.5 text-white" />
+            </div>
+            Defect Catalogue
+          </span>
+          <Button size="sm" variant="outline" className="h-8" onClick={() => openDialog(null)}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : defectTypes.length === 0 ? (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              No defects yet — QC checkers log in-line and end-line defects against this list.
+            </p>
+            <Button
+              size="sm"
+              variant="secondary"
+              className="h-8"
+              disabled={loadStandard.isPending}
+              onClick={() => loadStandard.mutate(defectTypes)}
+            >
+              {loadStandard.isPending && <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />}
+              Load standard defects
+            </Button>
+          </div>
+        ) : (
+          groups.map((g) => (
+            <div key={g.operation} className="space-y-1.5">
+              <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">{g.operation}</p>
+              {g.types.map((t) => (
+                <div
+                  key={t.id}
+                  className={cn(
+                    "flex items-center gap-3 rounded-lg border border-border/50 px-3 py-2",
+                    !t.is_active && "opacity-60"
+                  )}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      <span className="font-mono text-xs text-muted-foreground mr-2">{t.code}</span>
+                      {t.name}
+                      <Badge variant="outline" className="ml-2 text-[10px] font-normal capitalize">
+                        {t.severity}
+                      </Badge>
+                      {!t.is_active && (
+                        <Badge variant="secondary" className="ml-1 text-[10px] font-normal">
+                          Inactive
+                        </Badge>
+                      )}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(t)}>
+                    <Edit2 className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={deleteType.isPending}
+                    onClick={() => deleteType.mutate(t)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+        <p className="text-[11px] text-muted-foreground">
+          Logged defects keep their name and operation, so editing or removing one doesn't rewrite past checks.
+          Mark a defect inactive to hide it from checkers.
+        </p>
+      </CardContent>
+
+      <DefectTypeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        defectType={editing}
+        takenCodes={defectTypes.map((t) => t.code)}
+        operations={groups.map((g) => g.operation)}
+        isPending={saveType.isPending}
+        onSave={(input) => saveType.mutate({ id: editing?.id, input }, { onSuccess: () => setDialogOpen(false) })}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { DEFECT_SEVERITIES, type DefectSeverity } from "@/lib/aql";
+import type { DefectType, DefectTypeInput } from "@/hooks/useDefectCatalogue";
+
+interface DefectTypeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defectType: DefectType | null;
+  /** Codes already in the catalogue, to catch duplicates before the database does */
+  takenCodes: string[];
+  /** Existing operations, offered as suggestions */
+  operations: string[];
+  isPending: boolean;
+  onSave: (input: DefectTypeInput) => void;
+}
+
+export function DefectTypeDialog({
+  open,
+  onOpenChange,
+  defectType,
+  takenCodes,
+  operations,
+  isPending,
+  onSave,
+}: DefectTypeDialogProps) {
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [operation, setOperation] = useState("");
+  const [severity, setSeverity] = useState<DefectSeverity>("major");
+  const [isActive, setIsActive] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setCode(defectType?.code ?? "");
+    setName(defectType?.name ?? "");
+    setOperation(defectType?.operation ?? "");
+    setSeverity(defectType?.severity ?? "major");
+    setIsActive(defectType?.is_active ?? true);
+  }, [open, defectType]);
+
+  const trimmedCode = code.trim().toUpperCase();
+  const duplicate = trimmedCode !== defectType?.code && takenCodes.includes(trimmedCode);
+  const canSave = trimmedCode !== "" && !duplicate && name.trim() !== "" && operation.trim() !== "" && !isPending;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      code: trimmedCode,
+      name: name.trim(),
+      operation: operation.trim(),
+      severity,
+      is_active: isActive,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>{defectType ? `Edit ${defectType.name}` : "Add Defect"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Code *</Label>
+              <Input value={code} onChange={(e) => setCode(e.target.value)} placeholder="ST01" className="h-9 font-mono uppercase" />
+            </div>
+            <div className="col-span-2 space-y-1.5">
+              <Label className="text-xs font-medium">Name *</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Broken stitch" className="h-9" />
+            </div>
+          </div>
+          {duplicate && <p className="text-[11px] text-destructive -mt-2">Another defect already uses {trimmedCode}.</p>}
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Operation *</Label>
+            <Input
+              value={operation}
+              onChange={(e) => setOperation(e.target.value)}
+              placeholder="Stitching"
+              list="defect-operations"
+              className="h-9"
+            />
+            <datalist id="defect-operations">
+              {operations.map((o) => (
+                <option key={o} value={o} />
+              ))}
+            </datalist>
+          </div>
+          <div className="grid grid-cols-2 gap-3 items-end">
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Severity</Label>
+              <Select value={severity} onValueChange={(v) => setSeverity(v as DefectSeverity)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEFECT_SEVERITIES.map((s) => (
+                    <SelectItem key={s} value={s} className="capitalize">
+                      {s}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 h-9">
+              <Switch id="defect-active" checked={isActive} onCheckedChange={setIsActive} />
+              <Label htmlFor="defect-active" className="text-sm">Active</Label>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
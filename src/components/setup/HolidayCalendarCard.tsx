@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarOff, Edit2, Loader2, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAuth } from "@/contexts/AuthContext";
+import { getTodayInTimezone } from "@/lib/date-utils";
+import { HOLIDAY_KIND_LABELS } from "@/lib/working-days";
+import { useFactoryHolidays, useFactoryHolidayMutations, type FactoryHoliday } from "@/hooks/useFactoryHolidays";
+import { HolidayEditDialog } from "./HolidayEditDialog";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function formatRange(h: FactoryHoliday): string {
+  const start = format(parseISO(h.start_date), "d MMM yyyy");
+  if (!h.end_date || h.end_date === h.start_date) return start;
+  return `${start} – ${format(parseISO(h.end_date), "d MMM yyyy")}`;
+}
+
+export function HolidayCalendarCard() {
+  const { factory } = useAuth();
+  const { holidays, isLoading } = useFactoryHolidays();
+  const { saveHoliday, deleteHoliday, setNonWorkingDays } = useFactoryHolidayMutations();
+  const [editing, setEditing] = useState<FactoryHoliday | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [showPast, setShowPast] = useState(false);
+
+  const today = getTodayInTimezone(factory?.timezone || "Asia/Dhaka");
+  const offDays = factory?.non_working_days ?? [];
+  const upcoming = holidays.filter((h) => (h.end_date ?? h.start_date) >= today);
+  const past = holidays.filter((h) => (h.end_date ?? h.start_date) < today);
+  const visible = showPast ? [...past, ...upcoming] : upcoming;
+
+  const openDialog = (holiday: FactoryHoliday | null) => {
+    setEditing(holiday);
+    setDialogOpen(true);
+  };
+
+  const toggleDay = (day: number) => {
+    const next = offDays.includes(day) ? offDays.filter((d) => d !== day) : [...offDays, day];
+    // Keep at least one working day in the week
+    if (next.length >= 7) return;
+    setNonWorkingDays.mutate(next);
+  };
+
+  return (
+    <Card className="border-border/50 lg:col-span-2">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-sm flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <div className="h-7 w-7 rounded-lg bg-gradient-to-br from-rose-500 to-pink-600 shadow-md shadow-rose-500/20 flex items-center justify-center">
+              <CalendarOff className="h-3.5 w-3.5 text-white" />
+            </div>
+            Holidays & Working Days
+          </span>
+          <Button size="sm" variant="outline" className="h-8" onClick={() => openDialog(null)}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add Holiday
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Weekly off-days</p>
+          <div className="flex flex-wrap gap-1.5">
+            {WEEKDAYS.map((label, day) => (
+              <Button
+                key={label}
+                type="button"
+                size="sm"
+                variant={offDays.includes(day) ? "default" : "outline"}
+                className="h-8 w-12 text-xs"
+                disabled={setNonWorkingDays.isPending}
+                onClick={() => toggleDay(day)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-medium text-muted-foreground">
+                {showPast ? "All holidays" : "Upcoming holidays"}
+              </p>
+              {past.length > 0 && (
+                <button type="button" className="text-xs text-primary hover:underline" onClick={() => setShowPast((v) => !v)}>
+                  {showPast ? "Hide past" : `Show past (${past.length})`}
+                </button>
+              )}
+            </div>
+            {visible.length === 0 && <p className="text-xs text-muted-foreground">No holidays planned</p>}
+            {visible.map((h) => (
+              <div
+                key={h.id}
+                className={cn(
+                  "flex items-center gap-3 rounded-lg border border-border/50 px-3 py-2.5",
+                  (h.end_date ?? h.start_date) < today && "opacity-60",
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {h.name}
+                    <Badge variant="outline" className="ml-2 text-[10px] font-normal">
+                      {HOLIDAY_KIND_LABELS[h.kind]}
+                    </Badge>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatRange(h)}
+                    {h.notes && ` · ${h.notes}`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(h)}>
+                  <Edit2 className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={deleteHoliday.isPending}
+                  onClick={() => deleteHoliday.mutate(h)}
+                >
+                  <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <p className="text-[11px] text-muted-foreground">
+          Ex-factory countdowns, PO projections, the schedule and late-submission alerts skip off-days and holidays.
+        </p>
+      </CardContent>
+
+      <HolidayEditDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        holiday={editing}
+        isPending={saveHoliday.isPending}
+        onSave={(input) => saveHoliday.mutate({ id: editing?.id, input }, { onSuccess: () => setDialogOpen(false) })}
+      />
+    </Card>
+  );
+}
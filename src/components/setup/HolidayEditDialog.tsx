@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { HOLIDAY_KIND_LABELS, type HolidayKind } from "@/lib/working-days";
+import type { FactoryHoliday, HolidayInput } from "@/hooks/useFactoryHolidays";
+
+interface HolidayEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  holiday: FactoryHoliday | null;
+  isPending: boolean;
+  onSave: (input: HolidayInput) => void;
+}
+
+export function HolidayEditDialog({ open, onOpenChange, holiday, isPending, onSave }: HolidayEditDialogProps) {
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<HolidayKind>("public");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setName(holiday?.name ?? "");
+    setKind(holiday?.kind ?? "public");
+    setStartDate(holiday?.start_date ?? "");
+    setEndDate(holiday?.end_date ?? "");
+    setNotes(holiday?.notes ?? "");
+  }, [open, holiday]);
+
+  const rangeValid = !endDate || endDate >= startDate;
+  const canSave = name.trim() !== "" && startDate !== "" && rangeValid && !isPending;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      name: name.trim(),
+      kind,
+      start_date: startDate,
+      end_date: endDate && endDate !== startDate ? endDate : null,
+      notes: notes.trim() || null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>{holiday ? `Edit ${holiday.name}` : "Add Holiday"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Name *</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Eid-ul-Adha" className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Type</Label>
+            <Select value={kind} onValueChange={(v) => setKind(v as HolidayKind)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(HOLIDAY_KIND_LABELS) as HolidayKind[]).map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {HOLIDAY_KIND_LABELS[k]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">From *</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">To</Label>
+              <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className="h-9" />
+            </div>
+          </div>
+          {!rangeValid && <p className="text-[11px] text-destructive">End date is before the start date.</p>}
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Notes</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
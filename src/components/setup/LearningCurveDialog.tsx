@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { LearningCurve } from "@/lib/learning-curve";
+import type { LearningCurveInput } from "@/hooks/useLearningCurves";
+
+type Scope = "default" | "category" | "line";
+
+interface LearningCurveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  curve: LearningCurve | null;
+  lines: { id: string; line_id: string; name: string | null }[];
+  isPending: boolean;
+  onSave: (input: LearningCurveInput) => void;
+}
+
+function parseSteps(text: string): number[] | null {
+  const parts = text.split(/[\s,/]+/).filter(Boolean);
+  if (parts.length === 0 || parts.length > 30) return null;
+  const steps = parts.map((p) => Number(p.replace("%", "")));
+  if (steps.some((s) => !Number.isFinite(s) || s <= 0 || s > 100)) return null;
+  return steps;
+}
+
+export function LearningCurveDialog({ open, onOpenChange, curve, lines, isPending, onSave }: LearningCurveDialogProps) {
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<Scope>("default");
+  const [category, setCategory] = useState("");
+  const [lineId, setLineId] = useState("");
+  const [stepsText, setStepsText] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setName(curve?.name ?? "");
+    setScope(curve?.line_id ? "line" : curve?.product_category ? "category" : "default");
+    setCategory(curve?.product_category ?? "");
+    setLineId(curve?.line_id ?? "");
+    setStepsText(curve ? curve.steps.join(", ") : "40, 60, 80, 100");
+  }, [open, curve]);
+
+  const steps = parseSteps(stepsText);
+  const scopeValid = scope === "default" || (scope === "category" ? category.trim() !== "" : lineId !== "");
+  const canSave = name.trim() !== "" && steps !== null && scopeValid && !isPending;
+
+  const handleSave = () => {
+    if (!canSave || !steps) return;
+    onSave({
+      name: name.trim(),
+      steps,
+      line_id: scope === "line" ? lineId : null,
+      product_category: scope === "category" ? category.trim() : null,
+      is_default: scope === "default",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>{curve ? `Edit ${curve.name}` : "Add Learning Curve"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Name *</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Knit tops" className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Applies to</Label>
+            <Select value={scope} onValueChange={(v) => setScope(v as Scope)}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Factory default</SelectItem>
+                <SelectItem value="category">Product category</SelectItem>
+                <SelectItem value="line">One line</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {scope === "category" && (
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Category *</Label>
+              <Input value={category} onChange={(e) => setCategory(e.target.value)} placeholder="Matches the PO item, e.g. Polo" className="h-9" />
+            </div>
+          )}
+          {scope === "line" && (
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Line *</Label>
+              <Select value={lineId} onValueChange={setLineId}>
+                <SelectTrigger className="h-9">
+                  <SelectValue placeholder="Select a line" />
+                </SelectTrigger>
+                <SelectContent>
+                  {lines.map((l) => (
+                    <SelectItem key={l.id} value={l.id}>
+                      {l.line_id}{l.name ? ` – ${l.name}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Daily output, % of peak *</Label>
+            <Input value={stepsText} onChange={(e) => setStepsText(e.target.value)} placeholder="40, 60, 80, 100" className="h-9" />
+            {steps ? (
+              <p className="text-[11px] text-muted-foreground">
+                {steps.map((s, i) => `Day ${i + 1}: ${s}%`).join(" · ")}
+              </p>
+            ) : (
+              <p className="text-[11px] text-destructive">Enter 1–30 percentages between 1 and 100.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Edit2, Loader2, Plus, Trash2, TrendingUp } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { sortByLineName } from "@/lib/sort-lines";
+import type { LearningCurve } from "@/lib/learning-curve";
+import { useLearningCurves, useLearningCurveMutations } from "@/hooks/useLearningCurves";
+import { LearningCurveDialog } from "./LearningCurveDialog";
+
+export function LearningCurvesCard() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const { curves, isLoading } = useLearningCurves();
+  const { saveCurve, deleteCurve } = useLearningCurveMutations();
+  const [editing, setEditing] = useState<LearningCurve | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: lines = [] } = useQuery({
+    queryKey: ["learning_curve_lines", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("lines")
+        .select("id, line_id, name")
+        .eq("factory_id", factoryId!)
+        .eq("is_active", true);
+      if (error) throw error;
+      return sortByLineName(data ?? [], (l) => l.line_id);
+    },
+    enabled: !!factoryId,
+  });
+
+  const lineLabel = (id: string) => lines.find((l) => l.id === id)?.line_id ?? "Line";
+
+  const scopeLabel = (c: LearningCurve) =>
+    c.line_id ? lineLabel(c.line_id) : c.product_category ? c.product_category : "Default";
+
+  const openDialog = (curve: LearningCurve | null) => {
+    setEditing(curve);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-sm flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <div className="h-7 w-7 rounded-lg bg-gradient-to-br from-teal-500 to-cyan-600 shadow-md shadow-teal-500/20 flex items-center justify-center">
+              <TrendingUp className="h-3.5 w-3.5 text-white" />
+            </div>
+            Style Changeover Ramp-up
+          </span>
+          <Button size="sm" variant="outline" className="h-8" onClick={() => openDialog(null)}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : curves.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No learning curves — schedules assume full output from the first day of a new style.
+          </p>
+        ) : (
+          curves.map((c) => (
+            <div key={c.id} className="flex items-center gap-3 rounded-lg border border-border/50 px-3 py-2.5">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {c.name}
+                  <Badge variant="outline" className="ml-2 text-[10px] font-normal">
+                    {scopeLabel(c)}
+                  </Badge>
+                </p>
+                <p className="text-xs text-muted-foreground tabular-nums">{c.steps.map((s) => `${s}%`).join(" → ")}</p>
+              </div>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(c)}>
+                <Edit2 className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={deleteCurve.isPending}
+                onClick={() => deleteCurve.mutate(c)}
+              >
+                <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+              </Button>
+            </div>
+          ))
+        )}
+        <p className="text-[11px] text-muted-foreground">
+          A line's own curve wins over a product category's, which wins over the default.
+        </p>
+      </CardContent>
+
+      <LearningCurveDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        curve={editing}
+        lines={lines}
+        isPending={saveCurve.isPending}
+        onSave={(input) => saveCurve.mutate({ id: editing?.id, input }, { onSuccess: () => setDialogOpen(false) })}
+      />
+    </Card>
+  );
+}
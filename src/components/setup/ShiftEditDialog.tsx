@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  MAX_OT_SLOTS,
+  buildHourSlots,
+  crossesMidnight,
+  parseTime,
+  workingHours,
+  type ShiftBreak,
+  type ShiftDefinition,
+} from "@/lib/shifts";
+import type { FactoryShift, ShiftInput } from "@/hooks/useFactoryShifts";
+
+interface ShiftEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shift: FactoryShift | null;
+  nextSortOrder: number;
+  isPending: boolean;
+  onSave: (input: ShiftInput) => void;
+}
+
+export function ShiftEditDialog({ open, onOpenChange, shift, nextSortOrder, isPending, onSave }: ShiftEditDialogProps) {
+  const [name, setName] = useState("");
+  const [startTime, setStartTime] = useState("08:00");
+  const [endTime, setEndTime] = useState("17:00");
+  const [breaks, setBreaks] = useState<ShiftBreak[]>([]);
+  const [otSlots, setOtSlots] = useState("0");
+
+  useEffect(() => {
+    if (!open) return;
+    setName(shift?.name ?? "");
+    setStartTime(shift?.start_time ?? "08:00");
+    setEndTime(shift?.end_time ?? "17:00");
+    setBreaks(shift?.breaks ?? [{ start: "13:00", end: "14:00", label: "Lunch" }]);
+    setOtSlots(String(shift?.ot_slots ?? 0));
+  }, [open, shift]);
+
+  const ot = Math.min(MAX_OT_SLOTS, Math.max(0, parseInt(otSlots) || 0));
+  const validBreaks = breaks.filter((b) => parseTime(b.start) !== null && parseTime(b.end) !== null);
+  const draft: ShiftDefinition = { id: null, name, start_time: startTime, end_time: endTime, breaks: validBreaks, ot_slots: ot };
+  const timesValid = parseTime(startTime) !== null && parseTime(endTime) !== null && startTime !== endTime;
+  const preview = timesValid ? buildHourSlots(draft) : [];
+  const canSave = name.trim() !== "" && timesValid && !isPending;
+
+  const updateBreak = (index: number, patch: Partial<ShiftBreak>) =>
+    setBreaks((prev) => prev.map((b, i) => (i === index ? { ...b, ...patch } : b)));
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      name: name.trim(),
+      start_time: startTime,
+      end_time: endTime,
+      breaks: validBreaks.map((b) => ({ start: b.start, end: b.end, label: b.label?.trim() || null })),
+      ot_slots: ot,
+      sort_order: shift?.sort_order ?? nextSortOrder,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{shift ? `Edit ${shift.name} Shift` : "Add Shift"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1.5 col-span-3 sm:col-span-1">
+              <Label className="text-xs font-medium">Name *</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Day" className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Start *</Label>
+              <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">End *</Label>
+              <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className="h-9" />
+            </div>
+          </div>
+          {timesValid && crossesMidnight(draft) && (
+            <p className="text-[11px] text-muted-foreground">
+              Runs past midnight. Hours after midnight count toward the date the shift started.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs font-medium">Breaks</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setBreaks((prev) => [...prev, { start: "", end: "", label: "" }])}
+              >
+                <Plus className="h-3.5 w-3.5 mr-1" />
+                Add Break
+              </Button>
+            </div>
+            {breaks.length === 0 && <p className="text-xs text-muted-foreground">No breaks</p>}
+            {breaks.map((b, i) => (
+              <div key={i} className="grid grid-cols-[1fr_1fr_1.4fr_auto] gap-2">
+                <Input type="time" value={b.start} onChange={(e) => updateBreak(i, { start: e.target.value })} className="h-9" />
+                <Input type="time" value={b.end} onChange={(e) => updateBreak(i, { end: e.target.value })} className="h-9" />
+                <Input value={b.label ?? ""} onChange={(e) => updateBreak(i, { label: e.target.value })} placeholder="Lunch" className="h-9" />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9"
+                  onClick={() => setBreaks((prev) => prev.filter((_, j) => j !== i))}
+                >
+                  <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1.5 w-32">
+            <Label className="text-xs font-medium">Overtime Slots</Label>
+            <Input type="number" min="0" max={MAX_OT_SLOTS} value={otSlots} onChange={(e) => setOtSlots(e.target.value)} className="h-9" />
+          </div>
+
+          {preview.length > 0 && (
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium text-muted-foreground">
+                Hour Slots &middot; {workingHours(draft)} working hours
+              </Label>
+              <div className="flex flex-wrap gap-1.5">
+                {preview.map((s) => (
+                  <Badge
+                    key={s.key}
+                    variant="outline"
+                    className={cn("font-mono text-[11px]", s.overtime && "text-amber-600 dark:text-amber-400 border-amber-300")}
+                  >
+                    {s.key}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
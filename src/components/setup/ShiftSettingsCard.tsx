@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Edit2, Loader2, Plus, Timer } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { DEFAULT_SHIFT, crossesMidnight, workingHours } from "@/lib/shifts";
+import { useFactoryShifts, useFactoryShiftMutations, type FactoryShift } from "@/hooks/useFactoryShifts";
+import { ShiftEditDialog } from "./ShiftEditDialog";
+
+export function ShiftSettingsCard() {
+  const { shifts, isConfigured, isLoading } = useFactoryShifts();
+  const { saveShift, toggleActive } = useFactoryShiftMutations();
+  const [editing, setEditing] = useState<FactoryShift | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const openDialog = (shift: FactoryShift | null) => {
+    setEditing(shift);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card className="border-border/50 lg:col-span-2">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-sm flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <div className="h-7 w-7 rounded-lg bg-gradient-to-br from-violet-500 to-purple-600 shadow-md shadow-violet-500/20 flex items-center justify-center">
+              <Timer className="h-3.5 w-3.5 text-white" />
+            </div>
+            Shifts & Hour Slots
+          </span>
+          <Button size="sm" variant="outline" className="h-8" onClick={() => openDialog(null)}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add Shift
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {!isConfigured && (
+              <p className="text-xs text-muted-foreground">
+                Using the default {DEFAULT_SHIFT.start_time}–{DEFAULT_SHIFT.end_time} day with a 13:00–14:00 lunch
+                and {DEFAULT_SHIFT.ot_slots} overtime hours. Add shifts to match your factory's timings.
+              </p>
+            )}
+            {shifts.map((s) => (
+              <div
+                key={s.id}
+                className={cn(
+                  "flex items-center gap-3 rounded-lg border border-border/50 px-3 py-2.5",
+                  !s.is_active && "opacity-60",
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">
+                    {s.name}
+                    <span className="ml-2 font-mono text-xs text-muted-foreground">
+                      {s.start_time}–{s.end_time}
+                      {crossesMidnight(s) && " (+1)"}
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {workingHours(s)}h working
+                    {s.breaks.length > 0 && ` · ${s.breaks.map((b) => `${b.label || "Break"} ${b.start}–${b.end}`).join(", ")}`}
+                    {s.ot_slots > 0 && ` · ${s.ot_slots} OT`}
+                  </p>
+                </div>
+                <Switch
+                  checked={s.is_active}
+                  disabled={toggleActive.isPending}
+                  onCheckedChange={() => toggleActive.mutate(s)}
+                />
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(s)}>
+                  <Edit2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+            <p className="text-[11px] text-muted-foreground">
+              Hour slots on the sewing and finishing hourly boards, shift reminders and the editing cutoff follow these shifts.
+            </p>
+          </>
+        )}
+      </CardContent>
+
+      <ShiftEditDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        shift={editing}
+        nextSortOrder={shifts.length}
+        isPending={saveShift.isPending}
+        onSave={(input) => saveShift.mutate({ id: editing?.id, input }, { onSuccess: () => setDialogOpen(false) })}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, X } from "lucide-react";
+import { STANDARD_TNA_ITEMS, milestoneCode, type TnATemplate } from "@/lib/tna";
+import type { TnATemplateInput } from "@/hooks/useTnA";
+
+type Scope = "default" | "category";
+
+interface TnATemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template: TnATemplate | null;
+  isPending: boolean;
+  onSave: (input: TnATemplateInput) => void;
+}
+
+interface ItemDraft {
+  label: string;
+  daysBefore: string;
+}
+
+export function TnATemplateDialog({ open, onOpenChange, template, isPending, onSave }: TnATemplateDialogProps) {
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<Scope>("default");
+  const [category, setCategory] = useState("");
+  const [items, setItems] = useState<ItemDraft[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? "");
+    setScope(template?.product_category ? "category" : "default");
+    setCategory(template?.product_category ?? "");
+    setItems(
+      (template?.items ?? STANDARD_TNA_ITEMS).map((i) => ({ label: i.label, daysBefore: String(i.days_before) }))
+    );
+  }, [open, template]);
+
+  const setItem = (index: number, patch: Partial<ItemDraft>) =>
+    setItems((list) => list.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+  const codes = items.map((i) => milestoneCode(i.label));
+  const itemsValid =
+    items.length > 0 &&
+    items.every((i, idx) => codes[idx] !== "" && /^\d+$/.test(i.daysBefore.trim())) &&
+    new Set(codes).size === codes.length;
+  const scopeValid = scope === "default" || category.trim() !== "";
+  const canSave = name.trim() !== "" && itemsValid && scopeValid && !isPending;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      name: name.trim(),
+      product_category: scope === "category" ? category.trim() : null,
+      is_default: scope === "default",
+      items: items.map((i, idx) => ({
+        milestone_code: codes[idx],
+        label: i.label.trim(),
+        days_before: parseInt(i.daysBefore),
+        item_order: idx + 1,
+      })),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? `Edit ${template.name}` : "Add T&A Template"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Name *</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Standard knit" className="h-9" />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Applies to</Label>
+              <Select value={scope} onValueChange={(v) => setScope(v as Scope)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Factory default</SelectItem>
+                  <SelectItem value="category">Product category</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {scope === "category" && (
+            <div className="space-y-1.5">
+              <Label className="text-xs font-medium">Category *</Label>
+              <Input value={category} onChange={(e) => setCategory(e.target.value)} placeholder="Matches the PO item, e.g. Polo" className="h-9" />
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs font-medium">Milestones, in order *</Label>
+              <span className="text-[11px] text-muted-foreground">Working days before ex-factory</span>
+            </div>
+            {items.map((item, idx) => (
+              <div key={idx} className="flex items-center gap-2">
+                <span className="w-5 text-right text-[11px] text-muted-foreground tabular-nums">{idx + 1}</span>
+                <Input
+                  value={item.label}
+                  onChange={(e) => setItem(idx, { label: e.target.value })}
+                  placeholder="Milestone"
+                  className="h-8 flex-1"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={item.daysBefore}
+                  onChange={(e) => setItem(idx, { daysBefore: e.target.value })}
+                  className="h-8 w-20 text-right"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setItems((list) => list.filter((_, i) => i !== idx))}
+                >
+                  <X className="h-3.5 w-3.5 text-muted-foreground" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 text-xs"
+              onClick={() => setItems((list) => [...list, { label: "", daysBefore: "0" }])}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              Add milestone
+            </Button>
+            {!itemsValid && (
+              <p className="text-[11px] text-destructive">Each milestone needs a unique name and a whole number of days.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Edit2, ListChecks, Loader2, Plus, Trash2 } from "lucide-react";
+import type { TnATemplate } from "@/lib/tna";
+import { useTnATemplates, useTnATemplateMutations } from "@/hooks/useTnA";
+import { TnATemplateDialog } from "./TnATemplateDialog";
+
+export function TnATemplatesCard() {
+  const { templates, isLoading } = useTnATemplates();
+  const { saveTemplate, deleteTemplate } = useTnATemplateMutations();
+  const [editing, setEditing] = useState<TnATemplate | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const openDialog = (template: TnATemplate | null) => {
+    setEditing(template);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-sm flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <div className="h-7 w-7 rounded-lg bg-gradient-to-br from-indigo-500 to-blue-600 shadow-md shadow-indigo-500/20 flex items-center justify-center">
+              <ListChecks className="h-3.5 w-3.5 text-white" />
+            </div>
+            Time & Action Templates
+          </span>
+          <Button size="sm" variant="outline" className="h-8" onClick={() => openDialog(null)}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No T&A templates — add one to plan lab dips, samples, materials and inspections for each PO.
+          </p>
+        ) : (
+          templates.map((t) => (
+            <div key={t.id} className="flex items-center gap-3 rounded-lg border border-border/50 px-3 py-2.5">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {t.name}
+                  <Badge variant="outline" className="ml-2 text-[10px] font-normal">
+                    {t.product_category ?? "Default"}
+                  </Badge>
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {t.items.length} milestone{t.items.length !== 1 ? "s" : ""}
+                  {t.items.length > 0 && ` · first ${t.items[0].days_before} working days before ex-factory`}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(t)}>
+                <Edit2 className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={deleteTemplate.isPending}
+                onClick={() => deleteTemplate.mutate(t)}
+              >
+                <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+              </Button>
+            </div>
+          ))
+        )}
+        <p className="text-[11px] text-muted-foreground">
+          Plans count back from each PO's ex-factory date. A product category's template wins over the default.
+        </p>
+      </CardContent>
+
+      <TnATemplateDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        template={editing}
+        isPending={saveTemplate.isPending}
+        onSave={(input) => saveTemplate.mutate({ id: editing?.id, input }, { onSuccess: () => setDialogOpen(false) })}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { checkedQty, dhu } from "@/lib/sewing-hourly";
+import type { SewingHourlyInput, SewingHourlyLog } from "@/hooks/useSewingHourlyLogs";
+
+interface SewingHourlyEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  hourSlot: string;
+  existingLog: SewingHourlyLog | null;
+  /** Morning per-hour target, prefilled for a new hour */
+  defaultTarget: number | null;
+  isAdmin: boolean;
+  isPending: boolean;
+  onSave: (input: SewingHourlyInput) => void;
+}
+
+type NumericField = "target_qty" | "good_qty" | "reject_qty" | "rework_qty" | "defect_count";
+
+const FIELDS: { key: NumericField; label: string }[] = [
+  { key: "target_qty", label: "sewingHourly.target" },
+  { key: "good_qty", label: "sewingHourly.good" },
+  { key: "reject_qty", label: "sewingHourly.reject" },
+  { key: "rework_qty", label: "sewingHourly.rework" },
+  { key: "defect_count", label: "sewingHourly.defects" },
+];
+
+export function SewingHourlyEntryDialog({
+  open,
+  onOpenChange,
+  hourSlot,
+  existingLog,
+  defaultTarget,
+  isAdmin,
+  isPending,
+  onSave,
+}: SewingHourlyEntryDialogProps) {
+  const { t } = useTranslation();
+  const [values, setValues] = useState<Record<NumericField, string>>({
+    target_qty: "",
+    good_qty: "",
+    reject_qty: "",
+    rework_qty: "",
+    defect_count: "",
+  });
+  const [remarks, setRemarks] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setValues({
+      target_qty: String(existingLog?.target_qty ?? defaultTarget ?? ""),
+      good_qty: existingLog ? String(existingLog.good_qty) : "",
+      reject_qty: String(existingLog?.reject_qty ?? 0),
+      rework_qty: String(existingLog?.rework_qty ?? 0),
+      defect_count: String(existingLog?.defect_count ?? 0),
+    });
+    setRemarks(existingLog?.remarks ?? "");
+  }, [open, existingLog, defaultTarget]);
+
+  const num = (key: NumericField) => Math.max(0, parseInt(values[key]) || 0);
+  const previewDhu = dhu(num("defect_count"), checkedQty({ good_qty: num("good_qty"), reject_qty: num("reject_qty"), rework_qty: num("rework_qty") }));
+  const isLocked = !!existingLog?.is_locked && !isAdmin;
+  const canSubmit = values.good_qty !== "" && !isLocked;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSave({
+      hour_slot: hourSlot,
+      target_qty: num("target_qty"),
+      good_qty: num("good_qty"),
+      reject_qty: num("reject_qty"),
+      rework_qty: num("rework_qty"),
+      defect_count: num("defect_count"),
+      remarks: remarks.trim() || null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>
+            {existingLog ? t("sewingHourly.editHour") : t("sewingHourly.logHour")}: {hourSlot}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {isLocked && (
+            <div className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-md p-3 text-sm text-amber-800 dark:text-amber-200">
+              {t("sewingHourly.locked")}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            {FIELDS.map((f) => (
+              <div key={f.key} className="space-y-1">
+                <Label className="text-xs font-medium">{t(f.label)}{f.key === "good_qty" ? " *" : ""}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  inputMode="numeric"
+                  value={values[f.key]}
+                  onChange={(e) => setValues((v) => ({ ...v, [f.key]: e.target.value }))}
+                  disabled={isLocked}
+                  className="h-10"
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label className="text-xs font-medium">{t("sewingHourly.dhu")}</Label>
+              <div className="h-10 flex items-center px-3 rounded-md bg-muted font-mono text-sm">
+                {previewDhu != null ? `${previewDhu}%` : "-"}
+              </div>
+            </div>
+          </div>
+          <p className="text-[11px] text-muted-foreground">{t("sewingHourly.defectsHint")}</p>
+
+          <div className="space-y-1">
+            <Label className="text-xs font-medium">{t("forms.remarks")}</Label>
+            <Textarea value={remarks} onChange={(e) => setRemarks(e.target.value)} rows={2} disabled={isLocked} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("common.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
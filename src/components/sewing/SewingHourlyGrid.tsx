@@ -0,0 +1,154 @@
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Lock, Unlock, Plus, Edit2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  checkedQty,
+  dhu,
+  hourSlotStatus,
+  runningVariance,
+  type HourSlotStatus,
+} from "@/lib/sewing-hourly";
+import type { HourSlot } from "@/lib/shifts";
+import type { SewingHourlyLog } from "@/hooks/useSewingHourlyLogs";
+
+interface SewingHourlyGridProps {
+  hourSlots: HourSlot[];
+  /** Rows for the shift being shown */
+  logs: SewingHourlyLog[];
+  /** Minutes on the shift timeline in factory time; null when viewing a past date */
+  now: number | null;
+  isAdmin: boolean;
+  userId: string;
+  onLogHour: (slot: string) => void;
+  onToggleLock: (log: SewingHourlyLog) => void;
+}
+
+const STATUS_STYLES: Record<HourSlotStatus, { row: string; badge: string }> = {
+  upcoming: { row: "", badge: "bg-muted text-muted-foreground" },
+  current: { row: "bg-primary/5", badge: "bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-300" },
+  missing: { row: "bg-amber-50/60 dark:bg-amber-950/20", badge: "bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300" },
+  "on-target": { row: "bg-emerald-50/60 dark:bg-emerald-950/20", badge: "bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-300" },
+  "slightly-behind": { row: "bg-amber-50/60 dark:bg-amber-950/20", badge: "bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300" },
+  behind: { row: "bg-red-50/70 dark:bg-red-950/20", badge: "bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300" },
+};
+
+const STATUS_KEYS: Record<HourSlotStatus, string> = {
+  upcoming: "sewingHourly.statusUpcoming",
+  current: "sewingHourly.statusCurrent",
+  missing: "sewingHourly.statusMissing",
+  "on-target": "sewingHourly.statusOnTarget",
+  "slightly-behind": "sewingHourly.statusSlightlyBehind",
+  behind: "sewingHourly.statusBehind",
+};
+
+export function SewingHourlyGrid({
+  hourSlots,
+  logs,
+  now,
+  isAdmin,
+  userId,
+  onLogHour,
+  onToggleLock,
+}: SewingHourlyGridProps) {
+  const { t } = useTranslation();
+  const bySlot = new Map(logs.map((l) => [l.hour_slot, l]));
+  const cumulative = runningVariance(logs, hourSlots);
+
+  const canEdit = (log: SewingHourlyLog | undefined) => {
+    if (!log) return true;
+    if (isAdmin) return true;
+    if (log.is_locked) return false;
+    return log.submitted_by === userId;
+  };
+
+  return (
+    <div className="min-w-[760px]">
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr className="bg-muted/50">
+            <th className="border p-2 text-left font-medium w-24">{t("sewingHourly.hour")}</th>
+            <th className="border p-2 text-right font-medium">{t("sewingHourly.target")}</th>
+            <th className="border p-2 text-right font-medium">{t("sewingHourly.good")}</th>
+            <th className="border p-2 text-right font-medium">{t("sewingHourly.reject")}</th>
+            <th className="border p-2 text-right font-medium">{t("sewingHourly.rework")}</th>
+            <th className="border p-2 text-right font-medium">{t("sewingHourly.defects")}</th>
+            <th className="border p-2 text-right font-medium">{t("sewingHourly.dhu")}</th>
+            <th className="border p-2 text-right font-medium">{t("sewingHourly.cumulativeVariance")}</th>
+            <th className="border p-2 text-center font-medium w-32">{t("sewingHourly.status")}</th>
+            <th className="border p-2 text-center font-medium w-24"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {hourSlots.map((slot) => {
+            const log = bySlot.get(slot.key);
+            const status = hourSlotStatus(slot, log, now);
+            const style = STATUS_STYLES[status];
+            const hourDhu = log ? dhu(log.defect_count, checkedQty(log)) : null;
+            const cum = cumulative.get(slot.key);
+
+            return (
+              <tr key={slot.key} className={cn("hover:bg-muted/30 transition-colors", style.row)}>
+                <td className="border p-2 font-medium">
+                  <span className={cn(slot.overtime && "text-amber-600 dark:text-amber-400")}>{slot.key}</span>
+                </td>
+                <td className="border p-2 text-right font-mono tabular-nums text-muted-foreground">{log ? log.target_qty : "-"}</td>
+                <td
+                  className={cn(
+                    "border p-2 text-right font-mono tabular-nums font-semibold",
+                    (status === "behind" || status === "slightly-behind") && "text-destructive",
+                  )}
+                >
+                  {log ? log.good_qty : "-"}
+                </td>
+                <td className="border p-2 text-right font-mono tabular-nums">{log ? log.reject_qty : "-"}</td>
+                <td className="border p-2 text-right font-mono tabular-nums">{log ? log.rework_qty : "-"}</td>
+                <td className="border p-2 text-right font-mono tabular-nums">{log ? log.defect_count : "-"}</td>
+                <td className="border p-2 text-right font-mono tabular-nums">{hourDhu != null ? `${hourDhu}%` : "-"}</td>
+                <td
+                  className={cn(
+                    "border p-2 text-right font-mono tabular-nums",
+                    cum != null && (cum < 0 ? "text-destructive" : "text-emerald-600 dark:text-emerald-400"),
+                  )}
+                >
+                  {cum != null ? `${cum > 0 ? "+" : ""}${cum}` : "-"}
+                </td>
+                <td className="border p-2 text-center">
+                  <Badge className={cn("border-0 text-[11px]", style.badge)}>{t(STATUS_KEYS[status])}</Badge>
+                </td>
+                <td className="border p-2">
+                  <div className="flex items-center justify-center gap-1">
+                    {log ? (
+                      <>
+                        {canEdit(log) && (
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onLogHour(slot.key)}>
+                            <Edit2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                        {isAdmin && (
+                          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onToggleLock(log)}>
+                            {log.is_locked ? (
+                              <Lock className="h-3.5 w-3.5 text-amber-600" />
+                            ) : (
+                              <Unlock className="h-3.5 w-3.5 text-muted-foreground" />
+                            )}
+                          </Button>
+                        )}
+                      </>
+                    ) : status !== "upcoming" ? (
+                      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onLogHour(slot.key)}>
+                        <Plus className="h-3.5 w-3.5 mr-1" />
+                        {t("sewingHourly.log")}
+                      </Button>
+                    ) : null}
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
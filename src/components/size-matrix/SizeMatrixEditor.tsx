@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { STANDARD_SIZES, breakdownTotal, type ColourBreakdown } from "@/lib/size-matrix";
+
+interface SizeMatrixEditorProps {
+  sizes: string[];
+  rows: ColourBreakdown[];
+  onSizesChange: (sizes: string[]) => void;
+  onRowsChange: (rows: ColourBreakdown[]) => void;
+}
+
+/** Editable sizes and colour rows with a quantity per colour and size. */
+export function SizeMatrixEditor({ sizes, rows, onSizesChange, onRowsChange }: SizeMatrixEditorProps) {
+  const { t } = useTranslation();
+  const [newSize, setNewSize] = useState("");
+
+  const colours = rows.map((r) => r.colour.trim());
+  const duplicateColour = colours.some((c, i) => c && colours.indexOf(c) !== i);
+
+  const addSize = (size: string) => {
+    const s = size.trim().toUpperCase();
+    if (!s || sizes.includes(s)) return;
+    onSizesChange([...sizes, s]);
+    setNewSize("");
+  };
+
+  const removeSize = (size: string) => {
+    onSizesChange(sizes.filter((s) => s !== size));
+    onRowsChange(rows.map((r) => {
+      const quantities = { ...r.quantities };
+      delete quantities[size];
+      return { ...r, quantities };
+    }));
+  };
+
+  const setQty = (index: number, size: string, value: string) => {
+    const qty = Math.max(0, parseInt(value) || 0);
+    onRowsChange(rows.map((r, i) => (i === index ? { ...r, quantities: { ...r.quantities, [size]: qty } } : r)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Sizes */}
+      <div className="space-y-2">
+        <Label className="text-xs font-medium">{t("sizeMatrix.sizes")}</Label>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {sizes.map((s) => (
+            <span key={s} className="inline-flex items-center gap-1 rounded-md border bg-muted/50 px-2 py-1 text-sm font-medium">
+              {s}
+              <button type="button" onClick={() => removeSize(s)} className="text-muted-foreground hover:text-foreground">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          {STANDARD_SIZES.filter((s) => !sizes.includes(s)).map((s) => (
+            <Button key={s} type="button" variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground" onClick={() => addSize(s)}>
+              + {s}
+            </Button>
+          ))}
+          <Input
+            value={newSize}
+            onChange={(e) => setNewSize(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addSize(newSize);
+              }
+            }}
+            placeholder={t("sizeMatrix.otherSize")}
+            className="h-7 w-24 text-xs"
+          />
+        </div>
+      </div>
+
+      {/* Colour × size quantities */}
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[140px]">{t("cutting.colour")}</TableHead>
+              {sizes.map((s) => (
+                <TableHead key={s} className="text-right min-w-[80px]">{s}</TableHead>
+              ))}
+              <TableHead className="text-right">{t("sizeMatrix.total")}</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((r, i) => (
+              <TableRow key={i}>
+                <TableCell>
+                  <Input
+                    value={r.colour}
+                    onChange={(e) => onRowsChange(rows.map((row, j) => (j === i ? { ...row, colour: e.target.value } : row)))}
+                    placeholder={t("cutting.colour")}
+                    className={cn("h-8", r.colour.trim() && colours.indexOf(r.colour.trim()) !== i && "border-destructive")}
+                  />
+                </TableCell>
+                {sizes.map((s) => (
+                  <TableCell key={s}>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={r.quantities[s] || ""}
+                      onChange={(e) => setQty(i, s, e.target.value)}
+                      placeholder="0"
+                      className="h-8 text-right"
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="text-right font-mono">
+                  {breakdownTotal([r]).toLocaleString()}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={rows.length === 1}
+                    onClick={() => onRowsChange(rows.filter((_, j) => j !== i))}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onRowsChange([...rows, { colour: "", quantities: {} }])}>
+        <Plus className="h-4 w-4 mr-1" />
+        {t("sizeMatrix.addColour")}
+      </Button>
+      {duplicateColour && <p className="text-xs text-destructive">{t("sizeMatrix.duplicateColour")}</p>}
+    </div>
+  );
+}
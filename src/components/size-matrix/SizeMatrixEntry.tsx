@@ -0,0 +1,98 @@
+import { useTranslation } from "react-i18next";
+import { Grid3X3 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { breakdownTotal, emptyBreakdown, type ColourBreakdown } from "@/lib/size-matrix";
+import type { POSizeMatrix } from "@/hooks/useSizeMatrix";
+
+interface SizeMatrixEntryProps {
+  /** The PO's matrix; entry is only offered when it has one */
+  matrix: POSizeMatrix | null;
+  /** null while the quantity is entered as a plain total */
+  value: ColourBreakdown[] | null;
+  onChange: (value: ColourBreakdown[] | null) => void;
+  /** Gets the grid total whenever a cell changes */
+  onTotalChange: (total: number) => void;
+}
+
+/**
+ * Optional size × colour entry for a submission form. Off by default; when
+ * switched on, the form's total comes from the grid.
+ */
+export function SizeMatrixEntry({ matrix, value, onChange, onTotalChange }: SizeMatrixEntryProps) {
+  const { t } = useTranslation();
+  if (!matrix?.breakdown || matrix.sizes.length === 0) return null;
+
+  const enabled = value !== null;
+  const toggle = (on: boolean) => {
+    if (on) {
+      onChange(emptyBreakdown(matrix.breakdown!));
+      onTotalChange(0);
+    } else {
+      onChange(null);
+    }
+  };
+
+  const setQty = (colour: string, size: string, raw: string) => {
+    const qty = Math.max(0, parseInt(raw) || 0);
+    const current = value ?? [];
+    const next = current.some((r) => r.colour === colour)
+      ? current.map((r) => (r.colour === colour ? { ...r, quantities: { ...r.quantities, [size]: qty } } : r))
+      : [...current, { colour, quantities: { [size]: qty } }];
+    onChange(next);
+    onTotalChange(breakdownTotal(next));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Switch id="size-matrix-entry" checked={enabled} onCheckedChange={toggle} />
+        <Label htmlFor="size-matrix-entry" className="text-sm flex items-center gap-1.5">
+          <Grid3X3 className="h-3.5 w-3.5 text-muted-foreground" />
+          {t("sizeMatrix.enterBySize")}
+        </Label>
+      </div>
+      {enabled && (
+        <div className="overflow-x-auto rounded-lg border border-border/50">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/40">
+                <th className="px-2 py-1.5 text-left text-xs font-medium">{t("cutting.colour")}</th>
+                {matrix.sizes.map((s) => (
+                  <th key={s} className="px-2 py-1.5 text-right text-xs font-medium">{s}</th>
+                ))}
+                <th className="px-2 py-1.5 text-right text-xs font-medium">{t("sizeMatrix.total")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.breakdown.map(({ colour, quantities: ordered }) => {
+                // A saved entry may be compacted, so read cells by the PO's colours
+                const r = value!.find((v) => v.colour === colour) ?? { colour, quantities: {} };
+                return (
+                  <tr key={r.colour} className="border-b last:border-0">
+                    <td className="px-2 py-1.5 font-medium whitespace-nowrap">{r.colour}</td>
+                    {matrix.sizes.map((s) => (
+                      <td key={s} className="px-1 py-1">
+                        <Input
+                          type="number"
+                          min={0}
+                          inputMode="numeric"
+                          value={r.quantities[s] || ""}
+                          onChange={(e) => setQty(r.colour, s, e.target.value)}
+                          placeholder={ordered[s] ? "0" : "—"}
+                          className="h-9 min-w-[64px] text-right"
+                        />
+                      </td>
+                    ))}
+                    <td className="px-2 py-1.5 text-right font-mono">{breakdownTotal([r]).toLocaleString()}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
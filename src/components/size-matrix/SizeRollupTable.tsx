@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { sizeColumnTotal, type SizeRollup, type SizeRollupCell } from "@/lib/size-matrix";
+
+type Metric = keyof SizeRollupCell;
+
+const METRICS: Metric[] = ["balance", "ordered", "cut", "sewn", "finished"];
+
+const METRIC_KEYS: Record<Metric, string> = {
+  balance: "sizeMatrix.balance",
+  ordered: "sizeMatrix.ordered",
+  cut: "sizeMatrix.cut",
+  sewn: "sizeMatrix.sewn",
+  finished: "sizeMatrix.finished",
+};
+
+interface SizeRollupTableProps {
+  rollup: SizeRollup;
+  /** Starting metric; the balance to produce unless set */
+  defaultMetric?: Metric;
+}
+
+function CellValue({ cell, metric }: { cell: SizeRollupCell; metric: Metric }) {
+  const v = cell[metric];
+  if (metric !== "balance") {
+    return <span className={cn("font-mono", v === 0 && "text-muted-foreground")}>{v === 0 ? "—" : v.toLocaleString()}</span>;
+  }
+  if (cell.ordered === 0 && cell.finished === 0) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span className={cn("font-mono font-medium", v > 0 ? "text-amber-600" : v < 0 ? "text-blue-600" : "text-green-600")}>
+      {v < 0 ? `+${Math.abs(v).toLocaleString()}` : v.toLocaleString()}
+    </span>
+  );
+}
+
+/** A PO's size × colour roll-up, one metric at a time. Balance is ordered less finished; "+n" is over-produced. */
+export function SizeRollupTable({ rollup, defaultMetric = "balance" }: SizeRollupTableProps) {
+  const { t } = useTranslation();
+  const [metric, setMetric] = useState<Metric>(defaultMetric);
+  const unallocated = Object.entries(rollup.unallocated).filter(([, qty]) => qty > 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap rounded-md border p-0.5 w-fit">
+        {METRICS.map((m) => (
+          <Button
+            key={m}
+            type="button"
+            variant={metric === m ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setMetric(m)}
+          >
+            {t(METRIC_KEYS[m])}
+          </Button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="py-2 pr-3 text-left text-xs font-medium text-muted-foreground">{t("cutting.colour")}</th>
+              {rollup.sizes.map((s) => (
+                <th key={s} className="py-2 px-2 text-right text-xs font-medium text-muted-foreground">{s}</th>
+              ))}
+              <th className="py-2 pl-2 text-right text-xs font-medium text-muted-foreground">{t("sizeMatrix.total")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rollup.rows.map((r) => (
+              <tr key={r.colour} className="border-b border-border/50">
+                <td className="py-2 pr-3 font-medium whitespace-nowrap">{r.colour}</td>
+                {rollup.sizes.map((s) => (
+                  <td key={s} className="py-2 px-2 text-right">
+                    <CellValue cell={r.cells[s]} metric={metric} />
+                  </td>
+                ))}
+                <td className="py-2 pl-2 text-right">
+                  <CellValue cell={r.total} metric={metric} />
+                </td>
+              </tr>
+            ))}
+            {rollup.rows.length > 1 && (
+              <tr className="bg-muted/40 font-semibold">
+                <td className="py-2 pr-3">{t("sizeMatrix.total")}</td>
+                {rollup.sizes.map((s) => (
+                  <td key={s} className="py-2 px-2 text-right">
+                    <CellValue cell={sizeColumnTotal(rollup, s)} metric={metric} />
+                  </td>
+                ))}
+                <td className="py-2 pl-2 text-right">
+                  <CellValue cell={rollup.total} metric={metric} />
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {unallocated.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {t("sizeMatrix.unallocated", {
+            detail: unallocated.map(([stage, qty]) => `${t(METRIC_KEYS[stage as Metric])} ${qty.toLocaleString()}`).join(", "),
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
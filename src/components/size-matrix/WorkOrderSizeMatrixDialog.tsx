@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { breakdownTotal, compactBreakdown, isValidBreakdown, type ColourBreakdown } from "@/lib/size-matrix";
+import { toPOSizeMatrix, useWorkOrderSizeMatrixMutation } from "@/hooks/useSizeMatrix";
+import type { Json } from "@/integrations/supabase/types";
+import { SizeMatrixEditor } from "./SizeMatrixEditor";
+
+interface WorkOrderSizeMatrixDialogProps {
+  workOrder: {
+    id: string;
+    po_number: string;
+    color: string | null;
+    order_qty: number;
+    sizes: string[] | null;
+    size_breakdown: Json | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+function Editor({ workOrder, onOpenChange, onSaved }: WorkOrderSizeMatrixDialogProps & { workOrder: NonNullable<WorkOrderSizeMatrixDialogProps["workOrder"]> }) {
+  const { t } = useTranslation();
+  const saveMatrix = useWorkOrderSizeMatrixMutation();
+  const initial = toPOSizeMatrix(workOrder);
+  const [sizes, setSizes] = useState<string[]>(initial.sizes.length ? initial.sizes : ["S", "M", "L", "XL"]);
+  const [rows, setRows] = useState<ColourBreakdown[]>(
+    initial.breakdown ?? [{ colour: workOrder.color || "", quantities: {} }]
+  );
+  const total = breakdownTotal(rows);
+
+  const save = (breakdown: ColourBreakdown[] | null) =>
+    saveMatrix.mutate(
+      { workOrderId: workOrder.id, sizes, breakdown },
+      {
+        onSuccess: () => {
+          onSaved?.();
+          onOpenChange(false);
+        },
+      }
+    );
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{t("sizeMatrix.dialogTitle", { po: workOrder.po_number })}</DialogTitle>
+        <DialogDescription>{t("sizeMatrix.dialogDescription")}</DialogDescription>
+      </DialogHeader>
+
+      <SizeMatrixEditor sizes={sizes} rows={rows} onSizesChange={setSizes} onRowsChange={setRows} />
+
+      <p className={cn("text-sm text-right", total !== workOrder.order_qty ? "text-amber-600" : "text-muted-foreground")}>
+        {t("sizeMatrix.totalVsOrder", { total: total.toLocaleString(), order: workOrder.order_qty.toLocaleString() })}
+      </p>
+
+      <DialogFooter className="gap-2 sm:justify-between">
+        {initial.breakdown ? (
+          <Button variant="ghost" className="text-destructive" disabled={saveMatrix.isPending} onClick={() => save(null)}>
+            {t("sizeMatrix.remove")}
+          </Button>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{t("common.cancel")}</Button>
+          <Button disabled={!isValidBreakdown(sizes, rows) || saveMatrix.isPending} onClick={() => save(compactBreakdown(rows))}>
+            {saveMatrix.isPending && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+            {t("common.save")}
+          </Button>
+        </div>
+      </DialogFooter>
+    </>
+  );
+}
+
+/** Edit a PO's ordered quantity by colour and size. */
+export function WorkOrderSizeMatrixDialog(props: WorkOrderSizeMatrixDialogProps) {
+  return (
+    <Dialog open={!!props.workOrder} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        {props.workOrder && <Editor key={props.workOrder.id} {...props} workOrder={props.workOrder} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
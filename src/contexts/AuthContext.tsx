@@ -54,6 +54,10 @@ const factorySchema = z.object({
   payment_failed_at: z.string().nullable().optional(),
   headcount_cost_value: numericFromDb,
   headcount_cost_currency: z.string().nullable().optional().transform(v => v ?? 'BDT'),
+  bdt_to_usd_rate: numericFromDb,
+  non_working_days: z.array(z.number()).nullable().optional().transform(v => v ?? []),
+  wip_min_days: numericFromDb,
+  wip_max_days: numericFromDb,
 });
 
 type Profile = z.infer<typeof profileSchema>;
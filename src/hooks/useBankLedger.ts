@@ -0,0 +1,353 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  autoMatch,
+  paymentBankAmount,
+  newStatementLines,
+  type MatchCandidate,
+  type MatchConfidence,
+  type StatementLine,
+} from "@/lib/bank-reconciliation";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+
+export type BankAccount = PublicTables["factory_bank_accounts"]["Row"];
+export type BankAccountInput = Omit<PublicTables["factory_bank_accounts"]["Insert"], "factory_id" | "created_at">;
+export type BankTransaction = PublicTables["bank_transactions"]["Row"];
+
+export interface LedgerTransaction extends BankTransaction {
+  payments: { id: string; payment_date: string; buyer_name: string | null; payee_name: string | null; category: string; original_amount: number; original_currency: string | null } | null;
+  lc_banking_costs: { id: string; cost_type: string; amount: number; date_incurred: string; master_lcs: { lc_number: string } | null } | null;
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+export function useBankAccounts() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["factory_bank_accounts", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("factory_bank_accounts")
+        .select("*")
+        .eq("factory_id", factoryId!)
+        .order("sort_order")
+        .order("created_at");
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!factoryId,
+  });
+
+  return { accounts: query.data ?? [], isLoading: query.isLoading };
+}
+
+/** Every imported statement line with what it was matched to. */
+export function useBankTransactions() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["bank_transactions", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("bank_transactions")
+        .select(
+          "*, payments(id, payment_date, buyer_name, payee_name, category, original_amount, original_currency), lc_banking_costs(id, cost_type, amount, date_incurred, master_lcs(lc_number))",
+        )
+        .eq("factory_id", factoryId!)
+        .order("transaction_date", { ascending: false })
+        .order("imported_at", { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as unknown as LedgerTransaction[];
+    },
+    enabled: !!factoryId,
+  });
+
+  return { transactions: query.data ?? [], isLoading: query.isLoading };
+}
+
+async function fetchMatchCandidates(factoryId: string): Promise<MatchCandidate[]> {
+  const [paymentsRes, costsRes] = await Promise.all([
+    supabase
+      .from("payments")
+      .select("id, payment_date, direction, original_amount, original_currency, net_amount_credited, bank_deductions, bank_reference, buyer_name, payee_name, category")
+      .eq("factory_id", factoryId)
+      .is("deleted_at", null),
+    supabase
+      .from("lc_banking_costs")
+      .select("id, date_incurred, amount, currency, reference, cost_type, master_lcs(lc_number)")
+      .eq("factory_id", factoryId),
+  ]);
+  if (paymentsRes.error) throw paymentsRes.error;
+  if (costsRes.error) throw costsRes.error;
+
+  const payments: MatchCandidate[] = (paymentsRes.data ?? []).map((p) => ({
+    kind: "payment",
+    id: p.id,
+    date: p.payment_date,
+    amount: paymentBankAmount(p),
+    direction: p.direction === "inbound" ? "in" : "out",
+    currency: p.original_currency,
+    reference: p.bank_reference,
+    label: `${p.buyer_name || p.payee_name || p.category} · ${p.category}`,
+  }));
+  const costs: MatchCandidate[] = (costsRes.data ?? []).map((c) => ({
+    kind: "lc_cost",
+    id: c.id,
+    date: c.date_incurred,
+    amount: c.amount,
+    direction: "out",
+    currency: c.currency,
+    reference: c.reference,
+    label: `${c.cost_type}${c.master_lcs?.lc_number ? ` · LC ${c.master_lcs.lc_number}` : ""}`,
+  }));
+  return [...payments, ...costs];
+}
+
+/** Payments and LC banking costs not yet matched to a statement line. */
+export function useMatchCandidates() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const { transactions } = useBankTransactions();
+
+  const query = useQuery({
+    queryKey: ["bank_match_candidates", factoryId],
+    queryFn: () => fetchMatchCandidates(factoryId!),
+    enabled: !!factoryId,
+  });
+
+  const candidates = useMemo(() => {
+    const used = new Set(
+      transactions.flatMap((t) => [t.matched_payment_id && `payment:${t.matched_payment_id}`, t.matched_lc_cost_id && `lc_cost:${t.matched_lc_cost_id}`]),
+    );
+    return (query.data ?? []).filter((c) => !used.has(`${c.kind}:${c.id}`));
+  }, [query.data, transactions]);
+
+  return { candidates, isLoading: query.isLoading };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+function matchColumns(candidate: MatchCandidate, confidence: MatchConfidence) {
+  return {
+    matched_payment_id: candidate.kind === "payment" ? candidate.id : null,
+    matched_lc_cost_id: candidate.kind === "lc_cost" ? candidate.id : null,
+    match_confidence: confidence,
+    reconciliation_status: "matched",
+  };
+}
+
+export function useBankLedgerMutations() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const factoryId = profile?.factory_id;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["bank_transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["bank_match_candidates"] });
+  };
+
+  /**
+   * Matches every unmatched line it can with high or medium confidence.
+   * Returns how many lines were matched.
+   */
+  const runAutoMatch = async (): Promise<number> => {
+    const [linesRes, matchedRes, candidates, accountsRes] = await Promise.all([
+      supabase
+        .from("bank_transactions")
+        .select("id, bank_account_id, transaction_date, debit, credit, reference, description")
+        .eq("factory_id", factoryId!)
+        .eq("reconciliation_status", "unmatched"),
+      supabase
+        .from("bank_transactions")
+        .select("matched_payment_id, matched_lc_cost_id")
+        .eq("factory_id", factoryId!)
+        .eq("reconciliation_status", "matched"),
+      fetchMatchCandidates(factoryId!),
+      supabase.from("factory_bank_accounts").select("id, currency").eq("factory_id", factoryId!),
+    ]);
+    if (linesRes.error) throw linesRes.error;
+    if (matchedRes.error) throw matchedRes.error;
+    if (accountsRes.error) throw accountsRes.error;
+
+    const currencyOf = new Map((accountsRes.data ?? []).map((a) => [a.id, a.currency]));
+    const used = new Set(
+      (matchedRes.data ?? []).flatMap((t) => [t.matched_payment_id && `payment:${t.matched_payment_id}`, t.matched_lc_cost_id && `lc_cost:${t.matched_lc_cost_id}`]),
+    );
+    const lines = (linesRes.data ?? []).map((l) => ({ ...l, currency: l.bank_account_id ? currencyOf.get(l.bank_account_id) : null }));
+    const suggestions = autoMatch(lines, candidates.filter((c) => !used.has(`${c.kind}:${c.id}`)));
+
+    for (const s of suggestions) {
+      const { error } = await supabase
+        .from("bank_transactions")
+        .update(matchColumns(s.candidate, s.confidence))
+        .eq("id", s.transactionId);
+      if (error) throw error;
+    }
+    return suggestions.length;
+  };
+
+  const saveAccount = useMutation({
+    mutationFn: async (input: BankAccountInput) => {
+      if (input.is_default) {
+        const { error } = await supabase.from("factory_bank_accounts").update({ is_default: false }).eq("factory_id", factoryId!);
+        if (error) throw error;
+      }
+      const { error } = input.id
+        ? await supabase.from("factory_bank_accounts").update(input).eq("id", input.id)
+        : await supabase.from("factory_bank_accounts").insert({ ...input, factory_id: factoryId! });
+      if (error) throw error;
+    },
+    onSuccess: (_d, input) => {
+      queryClient.invalidateQueries({ queryKey: ["factory_bank_accounts"] });
+      toast.success(input.id ? "Bank account updated" : "Bank account added");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save bank account: ${err.message}`);
+    },
+  });
+
+  const deleteAccount = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("factory_bank_accounts").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["factory_bank_accounts"] });
+      invalidate();
+      toast.success("Bank account removed");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to remove bank account: ${err.message}`);
+    },
+  });
+
+  /** Inserts statement lines not already on the account's ledger, then auto-matches. */
+  const importStatement = useMutation({
+    mutationFn: async ({ accountId, fileName, lines }: { accountId: string; fileName: string; lines: StatementLine[] }) => {
+      const { data: existing, error: existingError } = await supabase
+        .from("bank_transactions")
+        .select("transaction_date, debit, credit, reference, description")
+        .eq("bank_account_id", accountId);
+      if (existingError) throw existingError;
+
+      const fresh = newStatementLines(
+        (existing ?? []).map((t) => ({ ...t, debit: t.debit || 0, credit: t.credit || 0 })),
+        lines,
+      );
+
+      if (fresh.length > 0) {
+        const now = new Date().toISOString();
+        const { error } = await supabase.from("bank_transactions").insert(
+          fresh.map((l) => ({
+            ...l,
+            factory_id: factoryId!,
+            bank_account_id: accountId,
+            imported_from: fileName,
+            imported_by: profile?.id,
+            imported_at: now,
+            reconciliation_status: "unmatched",
+          })),
+        );
+        if (error) throw error;
+      }
+      const matched = fresh.length > 0 ? await runAutoMatch() : 0;
+      return { imported: fresh.length, skipped: lines.length - fresh.length, matched };
+    },
+    onSuccess: ({ imported, skipped, matched }) => {
+      invalidate();
+      toast.success(
+        `Imported ${imported} line${imported === 1 ? "" : "s"}${skipped ? `, ${skipped} already on file` : ""}${matched ? ` · ${matched} matched` : ""}`,
+      );
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to import statement: ${err.message}`);
+    },
+  });
+
+  const autoMatchAll = useMutation({
+    mutationFn: runAutoMatch,
+    onSuccess: (matched) => {
+      invalidate();
+      toast.success(matched ? `${matched} transaction${matched === 1 ? "" : "s"} matched` : "No new matches found");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to match transactions: ${err.message}`);
+    },
+  });
+
+  const matchTransaction = useMutation({
+    mutationFn: async ({ transactionId, candidate }: { transactionId: string; candidate: MatchCandidate }) => {
+      const { error } = await supabase.from("bank_transactions").update(matchColumns(candidate, "manual")).eq("id", transactionId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Transaction matched");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to match transaction: ${err.message}`);
+    },
+  });
+
+  /** Clears a match, or restores an ignored line, back to unmatched. */
+  const unmatchTransaction = useMutation({
+    mutationFn: async (transactionId: string) => {
+      const { error } = await supabase
+        .from("bank_transactions")
+        .update({ matched_payment_id: null, matched_lc_cost_id: null, match_confidence: null, reconciliation_status: "unmatched" })
+        .eq("id", transactionId);
+      if (error) throw error;
+    },
+    onSuccess: () => invalidate(),
+    onError: (err: Error) => {
+      toast.error(`Failed to update transaction: ${err.message}`);
+    },
+  });
+
+  /** Marks a line as needing no match, e.g. interest or an internal transfer. */
+  const ignoreTransaction = useMutation({
+    mutationFn: async (transactionId: string) => {
+      const { error } = await supabase.from("bank_transactions").update({ reconciliation_status: "ignored" }).eq("id", transactionId);
+      if (error) throw error;
+    },
+    onSuccess: () => invalidate(),
+    onError: (err: Error) => {
+      toast.error(`Failed to update transaction: ${err.message}`);
+    },
+  });
+
+  const deleteTransaction = useMutation({
+    mutationFn: async (transactionId: string) => {
+      const { error } = await supabase.from("bank_transactions").delete().eq("id", transactionId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Transaction deleted");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to delete transaction: ${err.message}`);
+    },
+  });
+
+  return {
+    saveAccount,
+    deleteAccount,
+    importStatement,
+    autoMatchAll,
+    matchTransaction,
+    unmatchTransaction,
+    ignoreTransaction,
+    deleteTransaction,
+  };
+}
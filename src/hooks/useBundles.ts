@@ -0,0 +1,226 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import { parseBreakdown, type ColourBreakdown } from "@/lib/size-matrix";
+import {
+  SCAN_REJECTIONS,
+  applyScan,
+  normaliseScan,
+  type BundleDraft,
+  type BundleScanAction,
+  type BundleStatus,
+  type CutBundle,
+} from "@/lib/bundles";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type CutBundleRow = Database["public"]["Tables"]["cut_bundles"]["Row"];
+
+export interface BundleWithPO extends CutBundle {
+  poNumber: string;
+  style: string;
+}
+
+/** A cutting end-of-day submission bundles can be made from. */
+export interface CuttingOutput {
+  id: string;
+  production_date: string;
+  colour: string | null;
+  day_cutting: number;
+  breakdown: ColourBreakdown[] | null;
+  lineName: string | null;
+}
+
+export interface BundleScanInput {
+  raw: string;
+  action: BundleScanAction;
+  lineId: string | null;
+}
+
+export function toCutBundle(row: CutBundleRow): CutBundle {
+  return {
+    id: row.id,
+    work_order_id: row.work_order_id,
+    cutting_actual_id: row.cutting_actual_id,
+    bundle_no: row.bundle_no,
+    code: row.code,
+    colour: row.colour,
+    size: row.size,
+    shade: row.shade,
+    ply_from: row.ply_from,
+    ply_to: row.ply_to,
+    quantity: row.quantity,
+    status: row.status as BundleStatus,
+    line_id: row.line_id,
+    issued_at: row.issued_at,
+    completed_at: row.completed_at,
+    created_at: row.created_at,
+  };
+}
+
+const toBundleWithPO = (row: CutBundleRow & { work_orders: { po_number: string; style: string } | null }): BundleWithPO => ({
+  ...toCutBundle(row),
+  poNumber: row.work_orders?.po_number ?? "",
+  style: row.work_orders?.style ?? "",
+});
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+/** A PO's bundles in bundle order. */
+export function useWorkOrderBundles(workOrderId: string | null | undefined) {
+  const query = useQuery({
+    queryKey: ["cut_bundles", workOrderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("cut_bundles")
+        .select("*")
+        .eq("work_order_id", workOrderId!)
+        .order("bundle_no");
+      if (error) throw error;
+      return (data ?? []).map(toCutBundle);
+    },
+    enabled: !!workOrderId,
+  });
+
+  return { bundles: query.data ?? [], isLoading: query.isLoading };
+}
+
+/** A PO's cutting submissions, latest first. */
+export function useCuttingOutputs(workOrderId: string | null | undefined) {
+  const query = useQuery({
+    queryKey: ["cutting_outputs", workOrderId],
+    queryFn: async (): Promise<CuttingOutput[]> => {
+      const { data, error } = await supabase
+        .from("cutting_actuals")
+        .select("id, production_date, colour, day_cutting, size_breakdown, lines!cutting_actuals_line_id_fkey(line_id, name)")
+        .eq("work_order_id", workOrderId!)
+        .gt("day_cutting", 0)
+        .order("production_date", { ascending: false });
+      if (error) throw error;
+      return (data ?? []).map((r) => ({
+        id: r.id,
+        production_date: r.production_date,
+        colour: r.colour,
+        day_cutting: r.day_cutting,
+        breakdown: parseBreakdown(r.size_breakdown),
+        lineName: r.lines?.name || r.lines?.line_id || null,
+      }));
+    },
+    enabled: !!workOrderId,
+  });
+
+  return { outputs: query.data ?? [], isLoading: query.isLoading };
+}
+
+/** Every bundle in the factory still in cutting or on a line. */
+export function useOpenBundles() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["cut_bundles_open", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("cut_bundles")
+        .select("*, work_orders(po_number, style)")
+        .eq("factory_id", factoryId!)
+        .neq("status", "completed")
+        .order("created_at");
+      if (error) throw error;
+      return (data ?? []).map(toBundleWithPO);
+    },
+    enabled: !!factoryId,
+  });
+
+  return { bundles: query.data ?? [], isLoading: query.isLoading };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useBundleMutations(workOrderId?: string | null) {
+  const { user, profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const queryClient = useQueryClient();
+  const invalidate = () => {
+    if (workOrderId) queryClient.invalidateQueries({ queryKey: ["cut_bundles", workOrderId] });
+    queryClient.invalidateQueries({ queryKey: ["cut_bundles_open"] });
+  };
+
+  const createBundles = useMutation({
+    mutationFn: async ({ cuttingActualId, bundles }: { cuttingActualId: string | null; bundles: BundleDraft[] }) => {
+      const { error } = await supabase.from("cut_bundles").insert(
+        bundles.map((b) => ({
+          ...b,
+          factory_id: factoryId!,
+          work_order_id: workOrderId!,
+          cutting_actual_id: cuttingActualId,
+          created_by: user?.id ?? null,
+        }))
+      );
+      if (error) throw error;
+    },
+    onSuccess: (_d, { bundles }) => {
+      invalidate();
+      toast.success(`${bundles.length} bundles created`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to create bundles: ${err.message}`);
+    },
+  });
+
+  // Only bundles still in cutting can be removed; scanned ones are history
+  const deleteBundles = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase.from("cut_bundles").delete().in("id", ids).eq("status", "cut");
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Bundles deleted");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to delete bundles: ${err.message}`);
+    },
+  });
+
+  const scanBundle = useMutation({
+    mutationFn: async ({ raw, action, lineId }: BundleScanInput): Promise<BundleWithPO> => {
+      const code = normaliseScan(raw);
+      const { data: row, error } = await supabase
+        .from("cut_bundles")
+        .select("*, work_orders(po_number, style)")
+        .eq("factory_id", factoryId!)
+        .eq("code", code)
+        .maybeSingle();
+      if (error) throw error;
+      if (!row) throw new Error(`No bundle with code ${code}`);
+
+      const bundle = toBundleWithPO(row);
+      const result = applyScan(bundle, action, lineId);
+      if (!result.ok) throw new Error(`Bundle ${code} ${SCAN_REJECTIONS[result.reason]}`);
+
+      const now = new Date().toISOString();
+      const stamp =
+        action === "issue" ? { issued_at: now, issued_by: user?.id ?? null } : { completed_at: now, completed_by: user?.id ?? null };
+      // Guard on the status read above so two scanners can't both move it
+      const { data: updated, error: updateError } = await supabase
+        .from("cut_bundles")
+        .update({ ...result.update, ...stamp })
+        .eq("id", bundle.id)
+        .eq("status", bundle.status)
+        .select("id");
+      if (updateError) throw updateError;
+      if (!updated?.length) throw new Error(`Bundle ${code} was just scanned by someone else`);
+
+      return { ...bundle, ...result.update, ...stamp };
+    },
+    onSuccess: (bundle) => {
+      queryClient.invalidateQueries({ queryKey: ["cut_bundles", bundle.work_order_id] });
+      queryClient.invalidateQueries({ queryKey: ["cut_bundles_open"] });
+    },
+  });
+
+  return { createBundles, deleteBundles, scanBundle };
+}
@@ -0,0 +1,362 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  analysePricing,
+  applyToWorkOrderBlocker,
+  calcCostBreakdown,
+  formatExchangeRateIssue,
+  missingExchangeRates,
+  workOrderCostingUpdate,
+  type CostSheetStatus,
+} from "@/lib/cost-sheet";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+
+export type CostSheet = PublicTables["cost_sheets"]["Row"];
+export type CostSheetFabric = PublicTables["cost_sheet_fabrics"]["Row"];
+export type CostSheetTrim = PublicTables["cost_sheet_trims"]["Row"];
+export type CostSheetProcess = PublicTables["cost_sheet_processes"]["Row"];
+export type CostSheetCM = PublicTables["cost_sheet_cm"]["Row"];
+export type CostSheetCommercial = PublicTables["cost_sheet_commercial"]["Row"];
+
+type LineInsert<T extends keyof PublicTables> = Omit<PublicTables[T]["Insert"], "cost_sheet_id" | "id" | "created_at">;
+
+export type FabricDraft = LineInsert<"cost_sheet_fabrics">;
+export type TrimDraft = LineInsert<"cost_sheet_trims">;
+export type ProcessDraft = LineInsert<"cost_sheet_processes">;
+export type CMDraft = LineInsert<"cost_sheet_cm">;
+export type CommercialDraft = LineInsert<"cost_sheet_commercial">;
+
+export type CostSheetHeader = Omit<
+  PublicTables["cost_sheets"]["Insert"],
+  "id" | "factory_id" | "created_by" | "created_at" | "updated_at" | "approved_by" | "approved_at" | "status"
+>;
+
+/** Everything the builder edits; saved as one unit. */
+export interface CostSheetDraft {
+  header: CostSheetHeader;
+  fabrics: FabricDraft[];
+  trims: TrimDraft[];
+  processes: ProcessDraft[];
+  cm: CMDraft;
+  commercial: CommercialDraft[];
+}
+
+export interface CostSheetListItem extends CostSheet {
+  work_orders: { po_number: string } | null;
+}
+
+export interface CostSheetDetail {
+  sheet: CostSheet;
+  fabrics: CostSheetFabric[];
+  trims: CostSheetTrim[];
+  processes: CostSheetProcess[];
+  cm: CostSheetCM | null;
+  commercial: CostSheetCommercial[];
+  workOrder: { id: string; po_number: string; cm_per_dozen: number | null; selling_price: number | null } | null;
+}
+
+function stripLine<T extends { id?: string; cost_sheet_id?: string; created_at?: string | null }>(row: T) {
+  const { id, cost_sheet_id, created_at, ...rest } = row;
+  return rest;
+}
+
+/** Turns a loaded sheet into an editable draft. */
+export function detailToDraft(d: CostSheetDetail): CostSheetDraft {
+  const { id, factory_id, created_by, created_at, updated_at, approved_by, approved_at, status, ...header } = d.sheet;
+  return {
+    header,
+    fabrics: d.fabrics.map(stripLine),
+    trims: d.trims.map(stripLine),
+    processes: d.processes.map(stripLine),
+    cm: d.cm ? stripLine(d.cm) : {},
+    commercial: d.commercial.map(stripLine),
+  };
+}
+
+async function fetchCostSheetDetail(sheetId: string): Promise<CostSheetDetail> {
+  const [sheetRes, fabRes, trimRes, procRes, cmRes, comRes] = await Promise.all([
+    supabase.from("cost_sheets").select("*").eq("id", sheetId).single(),
+    supabase.from("cost_sheet_fabrics").select("*").eq("cost_sheet_id", sheetId).order("sort_order"),
+    supabase.from("cost_sheet_trims").select("*").eq("cost_sheet_id", sheetId).order("sort_order"),
+    supabase.from("cost_sheet_processes").select("*").eq("cost_sheet_id", sheetId).order("sort_order"),
+    supabase.from("cost_sheet_cm").select("*").eq("cost_sheet_id", sheetId).maybeSingle(),
+    supabase.from("cost_sheet_commercial").select("*").eq("cost_sheet_id", sheetId).order("sort_order"),
+  ]);
+  if (sheetRes.error) throw sheetRes.error;
+  for (const r of [fabRes, trimRes, procRes, cmRes, comRes]) {
+    if (r.error) throw r.error;
+  }
+
+  let workOrder: CostSheetDetail["workOrder"] = null;
+  if (sheetRes.data.work_order_id) {
+    const { data } = await supabase
+      .from("work_orders")
+      .select("id, po_number, cm_per_dozen, selling_price")
+      .eq("id", sheetRes.data.work_order_id)
+      .maybeSingle();
+    workOrder = data ?? null;
+  }
+
+  return {
+    sheet: sheetRes.data,
+    fabrics: fabRes.data ?? [],
+    trims: trimRes.data ?? [],
+    processes: procRes.data ?? [],
+    cm: cmRes.data ?? null,
+    commercial: comRes.data ?? [],
+    workOrder,
+  };
+}
+
+/** The draft's lines in the shape replace_cost_sheet_lines takes. */
+function linesArg({ fabrics, trims, processes, cm, commercial }: Omit<CostSheetDraft, "header">) {
+  return { fabrics, trims, processes, cm, commercial };
+}
+
+// ── List hook ──────────────────────────────────────────────────────────
+
+export function useCostSheets() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["cost_sheets", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("cost_sheets")
+        .select("*, work_orders(po_number)")
+        .eq("factory_id", factoryId!)
+        .order("updated_at", { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as CostSheetListItem[];
+    },
+    enabled: !!factoryId,
+  });
+
+  const all = query.data ?? [];
+  return {
+    sheets: all.filter((s) => !s.is_template),
+    templates: all.filter((s) => s.is_template),
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+// ── Detail hook ────────────────────────────────────────────────────────
+
+export function useCostSheet(sheetId: string | undefined) {
+  const { profile } = useAuth();
+
+  const query = useQuery({
+    queryKey: ["cost_sheet", sheetId],
+    queryFn: () => fetchCostSheetDetail(sheetId!),
+    enabled: !!sheetId && !!profile?.factory_id,
+  });
+
+  return {
+    detail: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+/** Active POs a cost sheet can be linked to. */
+export function useCostingWorkOrders() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["work_orders_costing_options", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("work_orders")
+        .select("id, po_number, buyer, style, order_qty, smv")
+        .eq("factory_id", factoryId!)
+        .eq("is_active", true)
+        .order("po_number");
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!factoryId,
+  });
+
+  return { workOrders: query.data ?? [] };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useCostSheetMutations() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+
+  const invalidate = (sheetId?: string) => {
+    queryClient.invalidateQueries({ queryKey: ["cost_sheets"] });
+    if (sheetId) queryClient.invalidateQueries({ queryKey: ["cost_sheet", sheetId] });
+  };
+
+  /** Creates a sheet, optionally copying every line from a template. */
+  const createSheet = useMutation({
+    mutationFn: async ({ header, templateId }: { header: CostSheetHeader; templateId?: string | null }) => {
+      let lines: Omit<CostSheetDraft, "header"> = { fabrics: [], trims: [], processes: [], cm: {}, commercial: [] };
+      let fromTemplate: Partial<CostSheetHeader> = {};
+      if (templateId) {
+        const draft = detailToDraft(await fetchCostSheetDetail(templateId));
+        lines = draft;
+        const t = draft.header;
+        fromTemplate = {
+          currency: t.currency,
+          exchange_rate: t.exchange_rate,
+          desired_margin_pct: t.desired_margin_pct,
+          garment_type: t.garment_type,
+          fabric_composition: t.fabric_composition,
+          gsm: t.gsm,
+          target_price_type: t.target_price_type,
+        };
+      }
+
+      const { data, error } = await supabase.rpc("create_cost_sheet", {
+        p_header: { ...fromTemplate, ...header, is_template: false, template_name: null },
+        p_lines: linesArg(lines),
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Cost sheet created");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to create cost sheet: ${err.message}`);
+    },
+  });
+
+  const saveSheet = useMutation({
+    mutationFn: async ({ id, draft }: { id: string; draft: CostSheetDraft }) => {
+      const { error } = await supabase.rpc("save_cost_sheet", {
+        p_sheet_id: id,
+        p_header: draft.header,
+        p_lines: linesArg(draft),
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_d, vars) => {
+      invalidate(vars.id);
+      toast.success("Cost sheet saved");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save cost sheet: ${err.message}`);
+    },
+  });
+
+  const saveAsTemplate = useMutation({
+    mutationFn: async ({ id, templateName }: { id: string; templateName: string }) => {
+      const draft = detailToDraft(await fetchCostSheetDetail(id));
+      const { data, error } = await supabase.rpc("create_cost_sheet", {
+        p_header: {
+          ...draft.header,
+          is_template: true,
+          template_name: templateName,
+          work_order_id: null,
+          quoted_price: null,
+          buyer_target_price: null,
+          target_quantity: null,
+        },
+        p_lines: linesArg(draft),
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Template saved");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save template: ${err.message}`);
+    },
+  });
+
+  /** Moves a sheet through draft → submitted → approved / rejected. Back to draft clears the approval. */
+  const setStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: CostSheetStatus }) => {
+      if (status === "submitted" || status === "approved") {
+        const d = await fetchCostSheetDetail(id);
+        const issues = missingExchangeRates({ currency: d.sheet.currency, ...d });
+        if (issues.length > 0) throw new Error(formatExchangeRateIssue(issues[0], d.sheet.currency));
+      }
+      const approval = status === "approved"
+        ? { approved_by: profile?.id ?? null, approved_at: new Date().toISOString() }
+        : { approved_by: null, approved_at: null };
+      const { error } = await supabase.from("cost_sheets").update({ status, ...approval }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_d, vars) => {
+      invalidate(vars.id);
+      const messages: Record<CostSheetStatus, string> = {
+        draft: "Cost sheet reopened for editing",
+        submitted: "Submitted for approval",
+        approved: "Cost sheet approved",
+        rejected: "Cost sheet rejected",
+      };
+      toast.success(messages[vars.status]);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to update status: ${err.message}`);
+    },
+  });
+
+  /** Writes the approved CM/dozen and selling price into the linked work order. */
+  const applyToWorkOrder = useMutation({
+    mutationFn: async (id: string) => {
+      const d = await fetchCostSheetDetail(id);
+      if (d.sheet.status !== "approved") throw new Error("Only approved cost sheets can be applied");
+      if (!d.sheet.work_order_id) throw new Error("Cost sheet is not linked to a PO");
+      const blocker = applyToWorkOrderBlocker(d.sheet.currency, missingExchangeRates({ currency: d.sheet.currency, ...d }));
+      if (blocker) throw new Error(blocker);
+
+      const breakdown = calcCostBreakdown({ currency: d.sheet.currency, ...d });
+      const pricing = analysePricing(d.sheet, breakdown.totalPerPiece);
+      const { error } = await supabase
+        .from("work_orders")
+        .update(workOrderCostingUpdate(breakdown, pricing))
+        .eq("id", d.sheet.work_order_id);
+      if (error) throw error;
+      return d.workOrder?.po_number ?? null;
+    },
+    onSuccess: (po, id) => {
+      invalidate(id);
+      toast.success(po ? `CM and price applied to ${po}` : "CM and price applied to PO");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to apply costing: ${err.message}`);
+    },
+  });
+
+  const deleteSheet = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("cost_sheets").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Cost sheet deleted");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to delete cost sheet: ${err.message}`);
+    },
+  });
+
+  return {
+    createSheet,
+    saveSheet,
+    saveAsTemplate,
+    setStatus,
+    applyToWorkOrder,
+    deleteSheet,
+  };
+}
@@ -0,0 +1,261 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database, Json } from "@/integrations/supabase/types";
+import type { CutLay, CutPlan, CutPlanSettings, LayStatus, PlannedLay } from "@/lib/cut-plan";
+import type { ColourBreakdown, SizeQuantities } from "@/lib/size-matrix";
+import { queueRpcSubmission } from "@/lib/offline-queue";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+type CutPlanRow = PublicTables["cut_plans"]["Row"];
+type CutLayRow = PublicTables["cut_lays"]["Row"];
+
+export interface CutPlanInput extends CutPlanSettings {
+  sizes: string[];
+  breakdown: ColourBreakdown[];
+  notes: string | null;
+}
+
+export interface PlanWithLays {
+  plan: CutPlan;
+  poNumber: string;
+  buyer: string;
+  style: string;
+  lays: CutLay[];
+}
+
+export interface LayResult {
+  id: string;
+  actual_plies: number;
+  fabric_used: number | null;
+}
+
+export function toCutPlan(row: CutPlanRow): CutPlan {
+  return {
+    id: row.id,
+    work_order_id: row.work_order_id,
+    sizes: row.sizes ?? [],
+    breakdown: (row.breakdown as unknown as ColourBreakdown[]) ?? [],
+    allowance_pct: Number(row.allowance_pct),
+    max_plies: row.max_plies,
+    max_marker_pieces: row.max_marker_pieces,
+    notes: row.notes,
+  };
+}
+
+export function toCutLay(row: CutLayRow): CutLay {
+  return {
+    id: row.id,
+    lay_no: row.lay_no,
+    colour: row.colour,
+    marker_ratio: (row.marker_ratio as unknown as SizeQuantities) ?? {},
+    plies: row.plies,
+    marker_length: row.marker_length != null ? Number(row.marker_length) : null,
+    marker_efficiency: row.marker_efficiency != null ? Number(row.marker_efficiency) : null,
+    status: row.status as LayStatus,
+    actual_plies: row.actual_plies,
+    fabric_used: row.fabric_used != null ? Number(row.fabric_used) : null,
+    cut_date: row.cut_date,
+  };
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+/** A PO's cut plan and its lays in lay order; plan is null until one is saved. */
+export function useCutPlan(workOrderId: string | null | undefined) {
+  const query = useQuery({
+    queryKey: ["cut_plan", workOrderId],
+    queryFn: async () => {
+      const [planRes, laysRes] = await Promise.all([
+        supabase.from("cut_plans").select("*").eq("work_order_id", workOrderId!).maybeSingle(),
+        supabase.from("cut_lays").select("*").eq("work_order_id", workOrderId!).order("lay_no"),
+      ]);
+      if (planRes.error) throw planRes.error;
+      if (laysRes.error) throw laysRes.error;
+      return {
+        plan: planRes.data ? toCutPlan(planRes.data) : null,
+        lays: (laysRes.data ?? []).map(toCutLay),
+      };
+    },
+    enabled: !!workOrderId,
+  });
+
+  return { plan: query.data?.plan ?? null, lays: query.data?.lays ?? [], isLoading: query.isLoading };
+}
+
+/** Every cut plan in the factory with its lays, by PO number. */
+export function useFactoryCutPlans() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["cut_plans", factoryId],
+    queryFn: async () => {
+      const [plansRes, laysRes] = await Promise.all([
+        supabase.from("cut_plans").select("*, work_orders(po_number, buyer, style)").eq("factory_id", factoryId!),
+        supabase.from("cut_lays").select("*").eq("factory_id", factoryId!).order("lay_no"),
+      ]);
+      const failed = [plansRes, laysRes].find((r) => r.error);
+      if (failed?.error) throw failed.error;
+
+      const laysByOrder = new Map<string, CutLay[]>();
+      for (const row of laysRes.data ?? []) {
+        const list = laysByOrder.get(row.work_order_id) ?? [];
+        list.push(toCutLay(row));
+        laysByOrder.set(row.work_order_id, list);
+      }
+      return (plansRes.data ?? [])
+        .map((row): PlanWithLays => ({
+          plan: toCutPlan(row),
+          poNumber: row.work_orders?.po_number ?? "",
+          buyer: row.work_orders?.buyer ?? "",
+          style: row.work_orders?.style ?? "",
+          lays: laysByOrder.get(row.work_order_id) ?? [],
+        }))
+        .sort((a, b) => a.poNumber.localeCompare(b.poNumber));
+    },
+    enabled: !!factoryId,
+  });
+
+  return { plans: query.data ?? [], isLoading: query.isLoading };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useCutPlanMutations(workOrderId: string | null | undefined) {
+  const { user, profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const queryClient = useQueryClient();
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["cut_plan", workOrderId] });
+    queryClient.invalidateQueries({ queryKey: ["cut_plans"] });
+  };
+
+  const savePlan = useMutation({
+    mutationFn: async (input: CutPlanInput) => {
+      const { error } = await supabase.from("cut_plans").upsert(
+        {
+          factory_id: factoryId!,
+          work_order_id: workOrderId!,
+          sizes: input.sizes,
+          breakdown: input.breakdown as unknown as Json,
+          allowance_pct: input.allowance_pct,
+          max_plies: input.max_plies,
+          max_marker_pieces: input.max_marker_pieces,
+          notes: input.notes,
+          created_by: user?.id,
+        },
+        { onConflict: "work_order_id" }
+      );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Cut plan saved");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save cut plan: ${err.message}`);
+    },
+  });
+
+  /** Replace the lays still to cut with `lays`, numbered after the ones already cut. */
+  const replaceLays = useMutation({
+    mutationFn: async ({ planId, lays, existing }: { planId: string; lays: PlannedLay[]; existing: CutLay[] }) => {
+      const { error: deleteError } = await supabase
+        .from("cut_lays")
+        .delete()
+        .eq("cut_plan_id", planId)
+        .eq("status", "planned");
+      if (deleteError) throw deleteError;
+
+      const firstNo = existing.filter((l) => l.status === "cut").reduce((max, l) => Math.max(max, l.lay_no), 0) + 1;
+      if (lays.length === 0) return;
+      const { error } = await supabase.from("cut_lays").insert(
+        lays.map((l, i) => ({
+          factory_id: factoryId!,
+          cut_plan_id: planId,
+          work_order_id: workOrderId!,
+          lay_no: firstNo + i,
+          colour: l.colour,
+          marker_ratio: l.marker_ratio as unknown as Json,
+          plies: l.plies,
+        }))
+      );
+      if (error) throw error;
+    },
+    onSuccess: (_d, { lays }) => {
+      invalidate();
+      toast.success(`${lays.length} lay${lays.length !== 1 ? "s" : ""} planned`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to plan lays: ${err.message}`);
+    },
+  });
+
+  const updateLay = useMutation({
+    mutationFn: async ({
+      id,
+      patch,
+    }: {
+      id: string;
+      patch: Partial<Pick<CutLay, "plies" | "marker_length" | "marker_efficiency" | "actual_plies" | "fabric_used">>;
+    }) => {
+      const { error } = await supabase.from("cut_lays").update(patch).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast.error(`Failed to update lay: ${err.message}`);
+    },
+  });
+
+  const deleteLay = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("cut_lays").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast.error(`Failed to remove lay: ${err.message}`);
+    },
+  });
+
+  return { savePlan, replaceLays, updateLay, deleteLay };
+}
+
+function layResultArgs(results: LayResult[], cutDate: string, lineId: string) {
+  return {
+    p_cut_date: cutDate,
+    p_line_id: lineId,
+    p_results: results.map((r) => ({ ...r })),
+  };
+}
+
+/**
+ * Mark lays cut with what they actually gave, all in one call. Called from
+ * the cutting end-of-day report, which saves outside react-query.
+ */
+export async function recordLayResults(results: LayResult[], cutDate: string, lineId: string) {
+  const { error } = await supabase.rpc("record_cut_lay_results", layResultArgs(results, cutDate, lineId));
+  if (error) throw error;
+}
+
+/** Queue lay results to be recorded when the end-of-day report they belong to syncs. */
+export async function queueLayResults(
+  results: LayResult[],
+  cutDate: string,
+  lineId: string,
+  factoryId: string,
+  userId: string
+) {
+  await queueRpcSubmission(
+    "cut_lay_results",
+    "record_cut_lay_results",
+    layResultArgs(results, cutDate, lineId),
+    factoryId,
+    userId
+  );
+}
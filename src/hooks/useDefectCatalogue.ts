@@ -0,0 +1,140 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import type { DefectSeverity } from "@/lib/aql";
+import { STANDARD_DEFECT_TYPES, type DefectTypeLike } from "@/lib/qc-defects";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+type DefectTypeRow = PublicTables["qc_defect_types"]["Row"];
+
+export interface DefectType extends DefectTypeLike {
+  id: string;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export interface DefectTypeInput {
+  code: string;
+  name: string;
+  operation: string;
+  severity: DefectSeverity;
+  is_active: boolean;
+}
+
+function toDefectType(row: DefectTypeRow): DefectType {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    operation: row.operation,
+    severity: row.severity as DefectSeverity,
+    sort_order: row.sort_order,
+    is_active: row.is_active,
+  };
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+/** The factory's defect catalogue, in operation then sort order. */
+export function useDefectCatalogue() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["qc_defect_types", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("qc_defect_types")
+        .select("*")
+        .eq("factory_id", factoryId!)
+        .order("operation")
+        .order("sort_order")
+        .order("code");
+      if (error) throw error;
+      return (data ?? []).map(toDefectType);
+    },
+    enabled: !!factoryId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const defectTypes = useMemo(() => query.data ?? [], [query.data]);
+  const activeTypes = useMemo(() => defectTypes.filter((t) => t.is_active), [defectTypes]);
+
+  return { defectTypes, activeTypes, isLoading: query.isLoading };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useDefectCatalogueMutations() {
+  const { user, profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const queryClient = useQueryClient();
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["qc_defect_types"] });
+
+  const saveType = useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: DefectTypeInput }) => {
+      if (id) {
+        const { error } = await supabase.from("qc_defect_types").update(input).eq("id", id);
+        if (error) throw error;
+        return;
+      }
+      const { error } = await supabase
+        .from("qc_defect_types")
+        .insert({ ...input, factory_id: factoryId!, created_by: user?.id ?? null });
+      if (error) throw error;
+    },
+    onSuccess: (_d, { input }) => {
+      invalidate();
+      toast.success(`${input.name} saved`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save defect: ${err.message}`);
+    },
+  });
+
+  const deleteType = useMutation({
+    mutationFn: async (type: DefectType) => {
+      const { error } = await supabase.from("qc_defect_types").delete().eq("id", type.id);
+      if (error) throw error;
+    },
+    onSuccess: (_d, type) => {
+      invalidate();
+      toast.success(`${type.name} removed`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to remove defect: ${err.message}`);
+    },
+  });
+
+  /** Seeds the standard catalogue, skipping codes the factory already has */
+  const loadStandard = useMutation({
+    mutationFn: async (existing: DefectType[]) => {
+      const taken = new Set(existing.map((t) => t.code));
+      const rows = STANDARD_DEFECT_TYPES.filter((t) => !taken.has(t.code)).map((t, i) => ({
+        ...t,
+        sort_order: i,
+        factory_id: factoryId!,
+        created_by: user?.id ?? null,
+      }));
+      if (rows.length === 0) return 0;
+      const { error } = await supabase.from("qc_defect_types").insert(rows);
+      if (error) throw error;
+      return rows.length;
+    },
+    onSuccess: (count) => {
+      invalidate();
+      toast.success(count > 0 ? `${count} standard defects added` : "Standard defects already loaded");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to load standard defects: ${err.message}`);
+    },
+  });
+
+  return { saveType, deleteType, loadStandard };
+}
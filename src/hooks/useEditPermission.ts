@@ -1,15 +1,20 @@
 import { useMemo } from "react";
+import { differenceInCalendarDays, parseISO } from "date-fns";
 import { useAuth } from "@/contexts/AuthContext";
-import { getCurrentTimeInTimezone, formatCutoffTime, isTodayInTimezone } from "@/lib/date-utils";
+import { getCurrentTimeInTimezone, formatCutoffTime, getTodayInTimezone } from "@/lib/date-utils";
+import { editDeadline, formatTime, isWithinEditWindow, parseTime } from "@/lib/shifts";
+import { useFactoryShifts } from "@/hooks/useFactoryShifts";
 
 /**
  * Hook to determine if a submission can be edited based on:
- * 1. Production date is today
+ * 1. Production date is today (or yesterday, while a night shift that
+ *    started yesterday is still inside its cutoff)
  * 2. Current time is before the factory's cutoff time
  * 3. User has the appropriate role
  */
 export function useEditPermission() {
   const { factory, user, profile } = useAuth();
+  const { activeShifts } = useFactoryShifts();
 
   const canEditSubmission = useMemo(() => {
     return (productionDate: string, submittedBy?: string | null): { canEdit: boolean; reason: string } => {
@@ -18,52 +23,40 @@ export function useEditPermission() {
         return { canEdit: false, reason: "Not logged in" };
       }
 
-      // Check if production date is today (in factory timezone)
+      // Days between the production date and today (in factory timezone)
       const timezone = factory?.timezone || "Asia/Dhaka";
-      if (!isTodayInTimezone(productionDate, timezone)) {
+      const daysAgo = differenceInCalendarDays(parseISO(getTodayInTimezone(timezone)), parseISO(productionDate));
+
+      // Cutoff on the production date's timeline; a night shift can push it past midnight.
+      // No cutoff (or 00:00) means the production day runs until the last shift ends.
+      const deadline = editDeadline(activeShifts, factory?.cutoff_time);
+      if (daysAgo !== 0 && !(daysAgo === 1 && deadline > 1440)) {
         return { canEdit: false, reason: "Can only edit today's submissions" };
       }
 
-      // Get cutoff time from factory settings (default to 23:59 if not set)
-      const cutoffTimeStr = factory?.cutoff_time || "23:59";
-      const [cutoffHour, cutoffMinute] = cutoffTimeStr.split(":").map(Number);
-
       // Use factory timezone for comparison
       const now = getCurrentTimeInTimezone(timezone);
+      const nowMinutes = now.getHours() * 60 + now.getMinutes();
 
-      // Handle midnight (00:00) cutoff - means end of day
-      if (cutoffHour === 0 && cutoffMinute === 0) {
-        // Cutoff at midnight means submissions can be edited all day
-        return { canEdit: true, reason: "" };
-      }
-
-      // Check if current time in factory timezone is before cutoff
-      const currentHour = now.getHours();
-      const currentMinute = now.getMinutes();
-
-      const isPastCutoff = currentHour > cutoffHour ||
-        (currentHour === cutoffHour && currentMinute >= cutoffMinute);
-
-      if (isPastCutoff) {
+      if (!isWithinEditWindow(daysAgo, nowMinutes, deadline)) {
         return {
           canEdit: false,
-          reason: `Editing closed after ${formatCutoffTime(cutoffTimeStr)}`
+          reason: `Editing closed after ${formatCutoffTime(factory?.cutoff_time || formatTime(deadline))}`
         };
       }
 
       return { canEdit: true, reason: "" };
     };
-  }, [factory, user, profile]);
+  }, [factory, user, profile, activeShifts]);
 
   const getTimeUntilCutoff = useMemo(() => {
     return (): string | null => {
       if (!factory?.cutoff_time) return null;
 
-      const cutoffTimeStr = factory.cutoff_time;
-      const [cutoffHour, cutoffMinute] = cutoffTimeStr.split(":").map(Number);
+      const deadline = editDeadline(activeShifts, factory.cutoff_time);
 
-      // Handle midnight cutoff
-      if (cutoffHour === 0 && cutoffMinute === 0) {
+      // Midnight cutoff with no night shift: editable for the whole day
+      if (parseTime(factory.cutoff_time) === 0 && deadline === 1440) {
         return "End of day";
       }
 
@@ -71,19 +64,12 @@ export function useEditPermission() {
       const timezone = factory?.timezone || "Asia/Dhaka";
       const now = getCurrentTimeInTimezone(timezone);
 
-      const currentHour = now.getHours();
-      const currentMinute = now.getMinutes();
-
-      // Check if past cutoff
-      const isPastCutoff = currentHour > cutoffHour ||
-        (currentHour === cutoffHour && currentMinute >= cutoffMinute);
-
-      if (isPastCutoff) {
+      // Calculate time remaining for today's submissions
+      let diffMins = deadline - (now.getHours() * 60 + now.getMinutes());
+      if (diffMins <= 0) {
         return null;
       }
 
-      // Calculate time remaining
-      let diffMins = (cutoffHour * 60 + cutoffMinute) - (currentHour * 60 + currentMinute);
       const diffHrs = Math.floor(diffMins / 60);
       diffMins = diffMins % 60;
 
@@ -92,7 +78,7 @@ export function useEditPermission() {
       }
       return `${diffMins}m left`;
     };
-  }, [factory]);
+  }, [factory, activeShifts]);
 
   return { canEditSubmission, getTimeUntilCutoff };
 }
@@ -0,0 +1,144 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import { buildWorkingCalendar, type FactoryHolidayRange, type HolidayKind } from "@/lib/working-days";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+type FactoryHolidayRow = PublicTables["factory_holidays"]["Row"];
+
+export interface FactoryHoliday extends FactoryHolidayRange {
+  id: string;
+  notes: string | null;
+}
+
+export interface HolidayInput {
+  name: string;
+  kind: HolidayKind;
+  start_date: string;
+  end_date: string | null;
+  notes: string | null;
+}
+
+function toHoliday(row: FactoryHolidayRow): FactoryHoliday {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind as HolidayKind,
+    start_date: row.start_date,
+    end_date: row.end_date,
+    notes: row.notes,
+  };
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+// Stable fallback so the working calendar isn't rebuilt every render while loading
+const NO_HOLIDAYS: FactoryHoliday[] = [];
+
+export function useFactoryHolidays() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["factory_holidays", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("factory_holidays")
+        .select("*")
+        .eq("factory_id", factoryId!)
+        .order("start_date");
+      if (error) throw error;
+      return (data ?? []).map(toHoliday);
+    },
+    enabled: !!factoryId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { holidays: query.data ?? NO_HOLIDAYS, isLoading: query.isLoading };
+}
+
+/**
+ * The factory's working calendar: weekly off-days from the factory account
+ * plus the holiday table. Until both have loaded every day counts as working.
+ */
+export function useWorkingCalendar() {
+  const { factory } = useAuth();
+  const { holidays, isLoading } = useFactoryHolidays();
+  const nonWorkingDays = factory?.non_working_days;
+
+  const calendar = useMemo(
+    () => buildWorkingCalendar(nonWorkingDays, holidays),
+    [nonWorkingDays, holidays],
+  );
+
+  return { calendar, isLoading };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useFactoryHolidayMutations() {
+  const { user, profile, refreshFactory } = useAuth();
+  const factoryId = profile?.factory_id;
+  const queryClient = useQueryClient();
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["factory_holidays"] });
+
+  const saveHoliday = useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: HolidayInput }) => {
+      if (id) {
+        const { error } = await supabase.from("factory_holidays").update(input).eq("id", id);
+        if (error) throw error;
+        return;
+      }
+      const { error } = await supabase
+        .from("factory_holidays")
+        .insert({ ...input, factory_id: factoryId!, created_by: user?.id ?? null });
+      if (error) throw error;
+    },
+    onSuccess: (_d, { input }) => {
+      invalidate();
+      toast.success(`${input.name} saved`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save holiday: ${err.message}`);
+    },
+  });
+
+  const deleteHoliday = useMutation({
+    mutationFn: async (holiday: FactoryHoliday) => {
+      const { error } = await supabase.from("factory_holidays").delete().eq("id", holiday.id);
+      if (error) throw error;
+    },
+    onSuccess: (_d, holiday) => {
+      invalidate();
+      toast.success(`${holiday.name} removed`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to remove holiday: ${err.message}`);
+    },
+  });
+
+  const setNonWorkingDays = useMutation({
+    mutationFn: async (days: number[]) => {
+      const { error } = await supabase
+        .from("factory_accounts")
+        .update({ non_working_days: [...days].sort() })
+        .eq("id", factoryId!);
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      await refreshFactory();
+      toast.success("Weekly off-days updated");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to update off-days: ${err.message}`);
+    },
+  });
+
+  return { saveHoliday, deleteHoliday, setNonWorkingDays };
+}
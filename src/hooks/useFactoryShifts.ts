@@ -0,0 +1,131 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { DEFAULT_SHIFT, type ShiftBreak, type ShiftDefinition } from "@/lib/shifts";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+type FactoryShiftRow = PublicTables["factory_shifts"]["Row"];
+
+export interface FactoryShift extends ShiftDefinition {
+  id: string;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export interface ShiftInput {
+  name: string;
+  start_time: string;
+  end_time: string;
+  breaks: ShiftBreak[];
+  ot_slots: number;
+  sort_order: number;
+}
+
+function toShift(row: FactoryShiftRow): FactoryShift {
+  return {
+    id: row.id,
+    name: row.name,
+    start_time: row.start_time.slice(0, 5),
+    end_time: row.end_time.slice(0, 5),
+    breaks: Array.isArray(row.breaks) ? (row.breaks as unknown as ShiftBreak[]) : [],
+    ot_slots: row.ot_slots,
+    sort_order: row.sort_order,
+    is_active: row.is_active,
+  };
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+/**
+ * The factory's shift definitions. `activeShifts` falls back to the built-in
+ * 8 am–7 pm default so callers always have at least one shift to build hour
+ * slots from.
+ */
+export function useFactoryShifts() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["factory_shifts", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("factory_shifts")
+        .select("*")
+        .eq("factory_id", factoryId!)
+        .order("sort_order")
+        .order("start_time");
+      if (error) throw error;
+      return (data ?? []).map(toShift);
+    },
+    enabled: !!factoryId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const shifts = useMemo(() => query.data ?? [], [query.data]);
+  const activeShifts = useMemo<ShiftDefinition[]>(() => {
+    const active = shifts.filter((s) => s.is_active);
+    return active.length > 0 ? active : [DEFAULT_SHIFT];
+  }, [shifts]);
+
+  return {
+    shifts,
+    activeShifts,
+    /** True once the factory has set up its own shifts */
+    isConfigured: shifts.some((s) => s.is_active),
+    isLoading: query.isLoading,
+  };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useFactoryShiftMutations() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const queryClient = useQueryClient();
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["factory_shifts"] });
+
+  const saveShift = useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: ShiftInput }) => {
+      const payload = { ...input, breaks: input.breaks as unknown as Json };
+      if (id) {
+        const { error } = await supabase.from("factory_shifts").update(payload).eq("id", id);
+        if (error) throw error;
+        return;
+      }
+      const { error } = await supabase.from("factory_shifts").insert({ ...payload, factory_id: factoryId! });
+      if (error) throw error;
+    },
+    onSuccess: (_d, { input }) => {
+      invalidate();
+      toast.success(`${input.name} shift saved`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save shift: ${err.message}`);
+    },
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: async (shift: FactoryShift) => {
+      const { error } = await supabase
+        .from("factory_shifts")
+        .update({ is_active: !shift.is_active })
+        .eq("id", shift.id);
+      if (error) throw error;
+    },
+    onSuccess: (_d, shift) => {
+      invalidate();
+      toast.success(shift.is_active ? `${shift.name} shift deactivated` : `${shift.name} shift activated`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to update shift: ${err.message}`);
+    },
+  });
+
+  return { saveShift, toggleActive };
+}
@@ -0,0 +1,320 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database, Json } from "@/integrations/supabase/types";
+import {
+  calcInvoiceTotals,
+  deriveInvoiceStatus,
+  taxAmount,
+  type DispatchForInvoice,
+  type InvoiceStatus,
+  type InvoiceTotals,
+} from "@/lib/invoice-utils";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+
+export type Invoice = PublicTables["invoices"]["Row"];
+export type InvoiceLineItem = PublicTables["invoice_line_items"]["Row"];
+export type InvoiceTaxLine = PublicTables["invoice_tax_lines"]["Row"];
+export type InvoiceCharge = PublicTables["invoice_charges"]["Row"];
+export type PaymentAllocation = PublicTables["payment_allocations"]["Row"];
+
+export type InvoiceHeader = Omit<
+  PublicTables["invoices"]["Insert"],
+  "id" | "factory_id" | "created_by" | "created_at" | "updated_at" | "status"
+>;
+
+type ChildDraft<T extends keyof PublicTables> = Omit<PublicTables[T]["Insert"], "id" | "invoice_id" | "created_at" | "sort_order">;
+
+export type LineItemDraft = ChildDraft<"invoice_line_items">;
+export type TaxLineDraft = ChildDraft<"invoice_tax_lines">;
+export type ChargeDraft = ChildDraft<"invoice_charges">;
+
+export interface InvoiceDraft {
+  header: InvoiceHeader;
+  lines: LineItemDraft[];
+  taxes: TaxLineDraft[];
+  charges: ChargeDraft[];
+  /** dispatch_requests the lines were built from; kept in custom_fields. */
+  dispatchIds: string[];
+}
+
+export interface InvoiceWithTotals extends Invoice {
+  totals: InvoiceTotals;
+  paid: number;
+  outstanding: number;
+  derivedStatus: InvoiceStatus;
+}
+
+export interface InvoiceAllocation extends PaymentAllocation {
+  payments: { payment_date: string; bank_reference: string | null; payment_method: string | null } | null;
+}
+
+export interface InvoiceableDispatch extends DispatchForInvoice {
+  reference_number: string;
+  submitted_at: string;
+  buyer_name: string | null;
+  destination: string;
+  work_orders: (NonNullable<DispatchForInvoice["work_orders"]> & { buyer: string }) | null;
+}
+
+const INVOICE_TOTALS_SELECT =
+  "*, invoice_line_items(quantity, unit_price, discount_type, discount_pct, discount_value), invoice_tax_lines(amount, rate_pct), invoice_charges(amount, is_deduct), payment_allocations(allocated_amount)";
+
+interface InvoiceTotalsRow extends Invoice {
+  invoice_line_items: { quantity: number; unit_price: number; discount_type: string | null; discount_pct: number | null; discount_value: number | null }[];
+  invoice_tax_lines: { amount: number; rate_pct: number | null }[];
+  invoice_charges: { amount: number; is_deduct: boolean | null }[];
+  payment_allocations: { allocated_amount: number }[];
+}
+
+function withTotals(row: InvoiceTotalsRow): InvoiceWithTotals {
+  const { invoice_line_items, invoice_tax_lines, invoice_charges, payment_allocations, ...invoice } = row;
+  const totals = calcInvoiceTotals({ lines: invoice_line_items, taxes: invoice_tax_lines, charges: invoice_charges, discount: invoice });
+  const paid = Math.round(payment_allocations.reduce((s, a) => s + (a.allocated_amount || 0), 0) * 100) / 100;
+  return {
+    ...invoice,
+    totals,
+    paid,
+    outstanding: Math.round(Math.max(totals.total - paid, 0) * 100) / 100,
+    derivedStatus: deriveInvoiceStatus(invoice.status, totals.total, paid),
+  };
+}
+
+/** Dispatch ids recorded on an invoice's custom_fields. */
+export function invoiceDispatchIds(invoice: Pick<Invoice, "custom_fields">): string[] {
+  const cf = invoice.custom_fields;
+  if (!cf || typeof cf !== "object" || Array.isArray(cf)) return [];
+  const ids = (cf as Record<string, Json | undefined>).dispatch_request_ids;
+  return Array.isArray(ids) ? ids.filter((v): v is string => typeof v === "string") : [];
+}
+
+export type InvoiceDetail = NonNullable<ReturnType<typeof useInvoice>["detail"]>;
+
+function stripLine<T extends { id?: string; invoice_id?: string; created_at?: string | null; sort_order?: number }>(row: T) {
+  const { id, invoice_id, created_at, sort_order, ...rest } = row;
+  return rest;
+}
+
+/** Turns a loaded invoice into an editable draft. */
+export function invoiceDetailToDraft(d: InvoiceDetail): InvoiceDraft {
+  const { id, factory_id, created_by, created_at, updated_at, status, ...header } = d.invoice;
+  return {
+    header,
+    lines: d.lines.map(stripLine),
+    taxes: d.taxes.map(stripLine),
+    charges: d.charges.map(stripLine),
+    dispatchIds: invoiceDispatchIds(d.invoice),
+  };
+}
+
+/**
+ * Re-derives paid / partially_paid for invoices after allocations change.
+ * Drafts and cancelled invoices are left alone.
+ */
+export async function syncInvoicePaymentStatus(invoiceIds: string[]) {
+  if (invoiceIds.length === 0) return;
+  const { data, error } = await supabase.from("invoices").select(INVOICE_TOTALS_SELECT).in("id", invoiceIds);
+  if (error) throw error;
+  for (const row of (data ?? []) as unknown as InvoiceTotalsRow[]) {
+    const inv = withTotals(row);
+    if (inv.derivedStatus !== inv.status) {
+      await supabase.from("invoices").update({ status: inv.derivedStatus }).eq("id", inv.id);
+    }
+  }
+}
+
+// ── List hook ──────────────────────────────────────────────────────────
+
+export function useInvoices() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["invoices", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("invoices")
+        .select(INVOICE_TOTALS_SELECT)
+        .eq("factory_id", factoryId!)
+        .order("issue_date", { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as unknown as InvoiceTotalsRow[];
+    },
+    enabled: !!factoryId,
+  });
+
+  const invoices = useMemo(() => (query.data ?? []).map(withTotals), [query.data]);
+
+  return {
+    invoices,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+// ── Detail hook ────────────────────────────────────────────────────────
+
+export function useInvoice(invoiceId: string | undefined) {
+  const { profile } = useAuth();
+
+  const query = useQuery({
+    queryKey: ["invoice", invoiceId],
+    queryFn: async () => {
+      const [invRes, lineRes, taxRes, chargeRes, allocRes] = await Promise.all([
+        supabase.from("invoices").select("*").eq("id", invoiceId!).single(),
+        supabase.from("invoice_line_items").select("*").eq("invoice_id", invoiceId!).order("sort_order"),
+        supabase.from("invoice_tax_lines").select("*").eq("invoice_id", invoiceId!).order("sort_order"),
+        supabase.from("invoice_charges").select("*").eq("invoice_id", invoiceId!).order("sort_order"),
+        supabase
+          .from("payment_allocations")
+          .select("*, payments(payment_date, bank_reference, payment_method)")
+          .eq("invoice_id", invoiceId!),
+      ]);
+      if (invRes.error) throw invRes.error;
+      for (const r of [lineRes, taxRes, chargeRes, allocRes]) {
+        if (r.error) throw r.error;
+      }
+      return {
+        invoice: invRes.data,
+        lines: lineRes.data ?? [],
+        taxes: taxRes.data ?? [],
+        charges: chargeRes.data ?? [],
+        allocations: (allocRes.data ?? []) as unknown as InvoiceAllocation[],
+      };
+    },
+    enabled: !!invoiceId && !!profile?.factory_id,
+  });
+
+  return {
+    detail: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+/** Approved dispatches not yet on a (non-cancelled) invoice. */
+export function useInvoiceableDispatches() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["invoiceable_dispatches", factoryId],
+    queryFn: async () => {
+      const [dispRes, invRes] = await Promise.all([
+        supabase
+          .from("dispatch_requests")
+          .select("id, reference_number, submitted_at, dispatch_quantity, buyer_name, style_name, destination, work_order_id, work_orders(po_number, style, style_number, color, hs_code, item, selling_price, buyer)")
+          .eq("factory_id", factoryId!)
+          .eq("status", "approved")
+          .not("work_order_id", "is", null)
+          .order("submitted_at", { ascending: false }),
+        supabase.from("invoices").select("id, custom_fields, status").eq("factory_id", factoryId!).neq("status", "cancelled"),
+      ]);
+      if (dispRes.error) throw dispRes.error;
+      if (invRes.error) throw invRes.error;
+
+      const invoiced = new Set((invRes.data ?? []).flatMap(invoiceDispatchIds));
+      return (dispRes.data ?? []).filter((d) => !invoiced.has(d.id));
+    },
+    enabled: !!factoryId,
+  });
+
+  return {
+    dispatches: (query.data ?? []) as unknown as InvoiceableDispatch[],
+    isLoading: query.isLoading,
+  };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useInvoiceMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidate = (invoiceId?: string) => {
+    queryClient.invalidateQueries({ queryKey: ["invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["invoiceable_dispatches"] });
+    if (invoiceId) queryClient.invalidateQueries({ queryKey: ["invoice", invoiceId] });
+  };
+
+  /** Inserts or updates an invoice and replaces its lines, tax lines and charges, in one transaction. */
+  const saveInvoice = useMutation({
+    mutationFn: async ({ id, draft }: { id?: string; draft: InvoiceDraft }) => {
+      const cf = draft.header.custom_fields;
+      const header = {
+        ...draft.header,
+        custom_fields: {
+          ...(cf && typeof cf === "object" && !Array.isArray(cf) ? cf : {}),
+          dispatch_request_ids: draft.dispatchIds,
+        },
+      };
+
+      // Percentage taxes are stored with their amount at save time
+      const taxable = calcInvoiceTotals({
+        lines: draft.lines.map((l) => ({ ...l, quantity: l.quantity ?? 0, unit_price: l.unit_price ?? 0 })),
+        taxes: [],
+        charges: [],
+        discount: draft.header,
+      }).taxable;
+
+      // A blank invoice_number on a new invoice is assigned server-side
+      const { data, error } = await supabase.rpc("save_invoice", {
+        p_invoice_id: id,
+        p_header: header,
+        p_lines: draft.lines,
+        p_taxes: draft.taxes.map((t) => ({ ...t, amount: taxAmount({ amount: t.amount ?? 0, rate_pct: t.rate_pct ?? null }, taxable) })),
+        p_charges: draft.charges,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (invoiceId, vars) => {
+      invalidate(invoiceId);
+      toast.success(vars.id ? "Invoice saved" : "Invoice created");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save invoice: ${err.message}`);
+    },
+  });
+
+  /** Issue or cancel an invoice, or reopen a draft. Issuing re-applies payment status. */
+  const setInvoiceStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "draft" | "issued" | "cancelled" }) => {
+      const { error } = await supabase.from("invoices").update({ status }).eq("id", id);
+      if (error) throw error;
+      if (status === "issued") await syncInvoicePaymentStatus([id]);
+    },
+    onSuccess: (_d, vars) => {
+      invalidate(vars.id);
+      const messages = { draft: "Invoice reopened as draft", issued: "Invoice issued", cancelled: "Invoice cancelled" };
+      toast.success(messages[vars.status]);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to update invoice: ${err.message}`);
+    },
+  });
+
+  const deleteInvoice = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("invoices").delete().eq("id", id).eq("status", "draft");
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Invoice deleted");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to delete invoice: ${err.message}`);
+    },
+  });
+
+  return {
+    saveInvoice,
+    setInvoiceStatus,
+    deleteInvoice,
+  };
+}
@@ -0,0 +1,115 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import type { LearningCurve } from "@/lib/learning-curve";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+type LearningCurveRow = PublicTables["learning_curves"]["Row"];
+
+export interface LearningCurveInput {
+  name: string;
+  steps: number[];
+  line_id: string | null;
+  product_category: string | null;
+  is_default: boolean;
+}
+
+function toCurve(row: LearningCurveRow): LearningCurve {
+  return {
+    id: row.id,
+    name: row.name,
+    steps: (row.steps ?? []).map(Number),
+    line_id: row.line_id,
+    product_category: row.product_category,
+    is_default: row.is_default,
+  };
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+// Stable fallback so consumers' memos and callbacks don't change every render while loading
+const NO_CURVES: LearningCurve[] = [];
+
+export function useLearningCurves() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["learning_curves", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("learning_curves")
+        .select("*")
+        .eq("factory_id", factoryId!)
+        .order("name");
+      if (error) throw error;
+      return (data ?? []).map(toCurve);
+    },
+    enabled: !!factoryId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { curves: query.data ?? NO_CURVES, isLoading: query.isLoading };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useLearningCurveMutations() {
+  const { user, profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const queryClient = useQueryClient();
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["learning_curves"] });
+
+  const saveCurve = useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: LearningCurveInput }) => {
+      // Only one default per factory: clear the old one first
+      if (input.is_default) {
+        let clear = supabase
+          .from("learning_curves")
+          .update({ is_default: false })
+          .eq("factory_id", factoryId!)
+          .eq("is_default", true);
+        if (id) clear = clear.neq("id", id);
+        const { error } = await clear;
+        if (error) throw error;
+      }
+      if (id) {
+        const { error } = await supabase.from("learning_curves").update(input).eq("id", id);
+        if (error) throw error;
+        return;
+      }
+      const { error } = await supabase
+        .from("learning_curves")
+        .insert({ ...input, factory_id: factoryId!, created_by: user?.id ?? null });
+      if (error) throw error;
+    },
+    onSuccess: (_d, { input }) => {
+      invalidate();
+      toast.success(`${input.name} saved`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save learning curve: ${err.message}`);
+    },
+  });
+
+  const deleteCurve = useMutation({
+    mutationFn: async (curve: LearningCurve) => {
+      const { error } = await supabase.from("learning_curves").delete().eq("id", curve.id);
+      if (error) throw error;
+    },
+    onSuccess: (_d, curve) => {
+      invalidate();
+      toast.success(`${curve.name} removed`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to remove learning curve: ${err.message}`);
+    },
+  });
+
+  return { saveCurve, deleteCurve };
+}
@@ -0,0 +1,513 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { getTodayInTimezone } from "@/lib/date-utils";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  DEFAULT_LC_DOCUMENTS,
+  computeLCUtilisation,
+  deriveLCStatus,
+  getLCWarnings,
+  warningDaysFromSettings,
+  type LCStatus,
+  type LCUtilisation,
+  type LCWarning,
+} from "@/lib/lc-utils";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+
+export type MasterLC = PublicTables["master_lcs"]["Row"];
+export type MasterLCInsert = PublicTables["master_lcs"]["Insert"];
+export type LCAmendment = PublicTables["lc_amendments"]["Row"];
+export type LCShipment = PublicTables["lc_shipments"]["Row"];
+export type LCDocChecklistItem = PublicTables["lc_doc_checklist"]["Row"];
+export type LCDiscrepancy = PublicTables["lc_discrepancies"]["Row"];
+
+export interface LCLinkedWorkOrder {
+  id: string;
+  po_number: string;
+  buyer: string;
+  style: string;
+  order_qty: number;
+  planned_ex_factory: string | null;
+  /** "direct" = lc_work_orders row, "contract" = via the LC's sales contract items. */
+  source: "direct" | "contract";
+  link_id: string | null;
+}
+
+export interface LCWithStatus extends MasterLC {
+  derivedStatus: LCStatus;
+  utilisation: LCUtilisation;
+  warnings: LCWarning[];
+}
+
+export type LCFormData = Omit<MasterLCInsert, "factory_id" | "created_by" | "id" | "created_at" | "updated_at">;
+
+export interface AmendmentFormData {
+  amendment_date: string;
+  description: string;
+  new_expiry_date: string | null;
+  new_shipment_date: string | null;
+  value_change: number | null;
+}
+
+export interface ShipmentFormData {
+  id?: string;
+  shipment_date: string;
+  invoice_number: string | null;
+  invoice_value: number;
+  quantity: number | null;
+  bl_number: string | null;
+  bl_date: string | null;
+  vessel_name: string | null;
+  container_number: string | null;
+  docs_submitted_date: string | null;
+  docs_accepted_date: string | null;
+  payment_received_date: string | null;
+  payment_amount: number | null;
+  status: string;
+  notes: string | null;
+}
+
+export interface DiscrepancyFormData {
+  id?: string;
+  shipment_id: string | null;
+  notice_date: string;
+  discrepancy_type: string | null;
+  items: string[];
+  bank_charges: number | null;
+  status: string;
+  resolution: string | null;
+  resolution_date: string | null;
+  resolution_notes: string | null;
+}
+
+const SHIPMENT_SUMMARY_SELECT = "lc_id, shipment_number, shipment_date, invoice_value, docs_submitted_date";
+
+function withStatus(lc: MasterLC, shipments: Pick<LCShipment, "shipment_number" | "shipment_date" | "invoice_value" | "docs_submitted_date">[], today: string, warnDays: ReturnType<typeof warningDaysFromSettings>): LCWithStatus {
+  return {
+    ...lc,
+    derivedStatus: deriveLCStatus(lc, shipments, today),
+    utilisation: computeLCUtilisation(lc, shipments),
+    warnings: getLCWarnings(lc, shipments, today, warnDays),
+  };
+}
+
+function useLCNotificationSettings(factoryId: string | null | undefined) {
+  return useQuery({
+    queryKey: ["lc_notification_settings", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("lc_notification_settings")
+        .select("*")
+        .eq("factory_id", factoryId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!factoryId,
+  });
+}
+
+// ── List hook ──────────────────────────────────────────────────────────
+
+export function useLetterOfCredits() {
+  const { profile, factory } = useAuth();
+  const factoryId = profile?.factory_id;
+  const today = getTodayInTimezone(factory?.timezone || "Asia/Dhaka");
+
+  const settingsQuery = useLCNotificationSettings(factoryId);
+
+  const lcsQuery = useQuery({
+    queryKey: ["master_lcs", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("master_lcs")
+        .select("*")
+        .eq("factory_id", factoryId!)
+        .order("expiry_date", { ascending: true });
+      if (error) throw error;
+
+      const ids = (data ?? []).map((l) => l.id);
+      let shipments: Pick<LCShipment, "lc_id" | "shipment_number" | "shipment_date" | "invoice_value" | "docs_submitted_date">[] = [];
+      if (ids.length > 0) {
+        const { data: sh, error: shErr } = await supabase
+          .from("lc_shipments")
+          .select(SHIPMENT_SUMMARY_SELECT)
+          .in("lc_id", ids);
+        if (shErr) throw shErr;
+        shipments = sh ?? [];
+      }
+      return { lcs: data ?? [], shipments };
+    },
+    enabled: !!factoryId,
+  });
+
+  const listData = lcsQuery.data;
+  const lcs: LCWithStatus[] = useMemo(() => {
+    if (!listData) return [];
+    const warnDays = warningDaysFromSettings(settingsQuery.data);
+    const byLC = new Map<string, typeof listData.shipments>();
+    for (const s of listData.shipments) {
+      const list = byLC.get(s.lc_id) ?? [];
+      list.push(s);
+      byLC.set(s.lc_id, list);
+    }
+    return listData.lcs.map((lc) => withStatus(lc, byLC.get(lc.id) ?? [], today, warnDays));
+  }, [listData, settingsQuery.data, today]);
+
+  return {
+    lcs,
+    isLoading: lcsQuery.isLoading,
+    error: lcsQuery.error,
+  };
+}
+
+// ── Detail hook ────────────────────────────────────────────────────────
+
+export function useLetterOfCredit(lcId: string | undefined) {
+  const { profile, factory } = useAuth();
+  const factoryId = profile?.factory_id;
+  const today = getTodayInTimezone(factory?.timezone || "Asia/Dhaka");
+
+  const settingsQuery = useLCNotificationSettings(factoryId);
+
+  const detailQuery = useQuery({
+    queryKey: ["master_lc", lcId],
+    queryFn: async () => {
+      const [lcRes, amendRes, shipRes, docRes, discRes, linkRes] = await Promise.all([
+        supabase.from("master_lcs").select("*").eq("id", lcId!).single(),
+        supabase.from("lc_amendments").select("*").eq("lc_id", lcId!).order("amendment_number"),
+        supabase.from("lc_shipments").select("*").eq("lc_id", lcId!).order("shipment_number"),
+        supabase.from("lc_doc_checklist").select("*").eq("lc_id", lcId!).order("sort_order"),
+        supabase.from("lc_discrepancies").select("*").eq("lc_id", lcId!).order("notice_date", { ascending: false }),
+        supabase.from("lc_work_orders").select("id, work_order_id").eq("lc_id", lcId!),
+      ]);
+      if (lcRes.error) throw lcRes.error;
+      for (const r of [amendRes, shipRes, docRes, discRes, linkRes]) {
+        if (r.error) throw r.error;
+      }
+      const lc = lcRes.data;
+
+      // Linked POs: direct links plus anything on the LC's sales contract
+      const directLinks = linkRes.data ?? [];
+      let contract: { id: string; contract_number: string; buyer_name: string } | null = null;
+      let contractWoIds: string[] = [];
+      if (lc.contract_id) {
+        const [cRes, itemsRes] = await Promise.all([
+          supabase.from("sales_contracts").select("id, contract_number, buyer_name").eq("id", lc.contract_id).maybeSingle(),
+          supabase.from("sales_contract_items").select("work_order_id").eq("contract_id", lc.contract_id),
+        ]);
+        contract = cRes.data ?? null;
+        contractWoIds = (itemsRes.data ?? []).map((i) => i.work_order_id).filter(Boolean) as string[];
+      }
+
+      const allWoIds = Array.from(new Set([...directLinks.map((l) => l.work_order_id), ...contractWoIds]));
+      let linkedWorkOrders: LCLinkedWorkOrder[] = [];
+      if (allWoIds.length > 0) {
+        const { data: wos, error: woErr } = await supabase
+          .from("work_orders")
+          .select("id, po_number, buyer, style, order_qty, planned_ex_factory")
+          .in("id", allWoIds);
+        if (woErr) throw woErr;
+        const linkByWo = new Map(directLinks.map((l) => [l.work_order_id, l.id]));
+        linkedWorkOrders = (wos ?? []).map((w) => ({
+          ...w,
+          source: linkByWo.has(w.id) ? "direct" : "contract",
+          link_id: linkByWo.get(w.id) ?? null,
+        }));
+        linkedWorkOrders.sort((a, b) => a.po_number.localeCompare(b.po_number));
+      }
+
+      return {
+        lc,
+        amendments: amendRes.data ?? [],
+        shipments: shipRes.data ?? [],
+        checklist: docRes.data ?? [],
+        discrepancies: discRes.data ?? [],
+        contract,
+        linkedWorkOrders,
+      };
+    },
+    enabled: !!lcId && !!factoryId,
+  });
+
+  const lc: LCWithStatus | null = useMemo(() => {
+    if (!detailQuery.data) return null;
+    return withStatus(detailQuery.data.lc, detailQuery.data.shipments, today, warningDaysFromSettings(settingsQuery.data));
+  }, [detailQuery.data, settingsQuery.data, today]);
+
+  return {
+    lc,
+    amendments: detailQuery.data?.amendments ?? [],
+    shipments: detailQuery.data?.shipments ?? [],
+    checklist: detailQuery.data?.checklist ?? [],
+    discrepancies: detailQuery.data?.discrepancies ?? [],
+    contract: detailQuery.data?.contract ?? null,
+    linkedWorkOrders: detailQuery.data?.linkedWorkOrders ?? [],
+    isLoading: detailQuery.isLoading,
+    error: detailQuery.error,
+  };
+}
+
+// ── Link options (POs + contracts) ─────────────────────────────────────
+
+export function useLCLinkOptions() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const workOrdersQuery = useQuery({
+    queryKey: ["work_orders_lc_options", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("work_orders")
+        .select("id, po_number, buyer, style, order_qty")
+        .eq("factory_id", factoryId!)
+        .eq("is_active", true)
+        .order("po_number");
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!factoryId,
+  });
+
+  const contractsQuery = useQuery({
+    queryKey: ["sales_contracts_lc_options", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sales_contracts")
+        .select("id, contract_number, buyer_name, currency, total_value")
+        .eq("factory_id", factoryId!)
+        .order("contract_date", { ascending: false });
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!factoryId,
+  });
+
+  return {
+    workOrders: workOrdersQuery.data ?? [],
+    contracts: contractsQuery.data ?? [],
+  };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useLCMutations(lcId?: string) {
+  const { profile, factory } = useAuth();
+  const queryClient = useQueryClient();
+  const factoryId = profile?.factory_id;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["master_lcs"] });
+    if (lcId) queryClient.invalidateQueries({ queryKey: ["master_lc", lcId] });
+  };
+
+  /** Recomputes the cached total_shipped / status columns after a shipment change. */
+  const syncShipmentTotals = async (id: string) => {
+    const [{ data: lc, error: lcErr }, { data: shipments, error: shipErr }] = await Promise.all([
+      supabase.from("master_lcs").select("*").eq("id", id).single(),
+      supabase.from("lc_shipments").select("invoice_value, payment_amount").eq("lc_id", id),
+    ]);
+    if (lcErr) throw lcErr;
+    if (shipErr) throw shipErr;
+    const list = shipments ?? [];
+    const util = computeLCUtilisation(lc, list);
+    const today = getTodayInTimezone(factory?.timezone || "Asia/Dhaka");
+    const { error } = await supabase
+      .from("master_lcs")
+      .update({
+        total_shipped: util.shipped,
+        total_utilized: list.reduce((s, sh) => s + (sh.payment_amount || 0), 0),
+        status: deriveLCStatus(lc, list, today),
+      })
+      .eq("id", id);
+    if (error) throw error;
+  };
+
+  const saveLC = useMutation({
+    mutationFn: async ({ id, ...data }: LCFormData & { id?: string }) => {
+      if (id) {
+        const { error } = await supabase.from("master_lcs").update(data).eq("id", id);
+        if (error) throw error;
+        return id;
+      }
+      // New LCs are seeded with the standard document checklist
+      const { data: created, error } = await supabase.rpc("create_master_lc", {
+        p_lc: data,
+        p_documents: DEFAULT_LC_DOCUMENTS,
+      });
+      if (error) throw error;
+      return created;
+    },
+    onSuccess: (_id, vars) => {
+      invalidate();
+      if (vars.id) queryClient.invalidateQueries({ queryKey: ["master_lc", vars.id] });
+      toast.success(vars.id ? "LC updated" : "LC created");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save LC: ${err.message}`);
+    },
+  });
+
+  const addAmendment = useMutation({
+    mutationFn: async ({ lc, data }: { lc: MasterLC; data: AmendmentFormData }) => {
+      // Numbered and applied server-side against the locked LC
+      const { data: number, error } = await supabase.rpc("record_lc_amendment", {
+        p_lc_id: lc.id,
+        p_amendment: { ...data },
+      });
+      if (error) throw error;
+      return number;
+    },
+    onSuccess: (number) => {
+      invalidate();
+      toast.success(`Amendment ${number} recorded`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to record amendment: ${err.message}`);
+    },
+  });
+
+  const saveShipment = useMutation({
+    mutationFn: async ({ lcId: id, nextNumber, data }: { lcId: string; nextNumber: number; data: ShipmentFormData }) => {
+      const { id: shipmentId, ...fields } = data;
+      if (shipmentId) {
+        const { error } = await supabase.from("lc_shipments").update(fields).eq("id", shipmentId);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("lc_shipments").insert({ ...fields, lc_id: id, shipment_number: nextNumber });
+        if (error) throw error;
+      }
+      await syncShipmentTotals(id);
+    },
+    onSuccess: (_d, vars) => {
+      invalidate();
+      toast.success(vars.data.id ? "Shipment updated" : "Shipment recorded");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save shipment: ${err.message}`);
+    },
+  });
+
+  const deleteShipment = useMutation({
+    mutationFn: async ({ lcId: id, shipmentId }: { lcId: string; shipmentId: string }) => {
+      const { error } = await supabase.from("lc_shipments").delete().eq("id", shipmentId);
+      if (error) throw error;
+      await syncShipmentTotals(id);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Shipment removed");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to remove shipment: ${err.message}`);
+    },
+  });
+
+  const setChecklistStatus = useMutation({
+    mutationFn: async ({ id, completed }: { id: string; completed: boolean }) => {
+      const { error } = await supabase
+        .from("lc_doc_checklist")
+        .update({ status: completed ? "completed" : "pending", completed_at: completed ? new Date().toISOString() : null })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast.error(`Failed to update checklist: ${err.message}`);
+    },
+  });
+
+  const addChecklistItem = useMutation({
+    mutationFn: async ({ lcId: id, document_name, sortOrder }: { lcId: string; document_name: string; sortOrder: number }) => {
+      const { error } = await supabase
+        .from("lc_doc_checklist")
+        .insert({ lc_id: id, document_name, sort_order: sortOrder, status: "pending", originals_required: 1, copies_required: 0 });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast.error(`Failed to add document: ${err.message}`);
+    },
+  });
+
+  const deleteChecklistItem = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("lc_doc_checklist").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: Error) => {
+      toast.error(`Failed to remove document: ${err.message}`);
+    },
+  });
+
+  const saveDiscrepancy = useMutation({
+    mutationFn: async ({ lcId: id, data }: { lcId: string; data: DiscrepancyFormData }) => {
+      const { id: discId, items, ...fields } = data;
+      const row = { ...fields, discrepancy_items: items };
+      if (discId) {
+        const { error } = await supabase.from("lc_discrepancies").update(row).eq("id", discId);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from("lc_discrepancies").insert({ ...row, lc_id: id });
+        if (error) throw error;
+      }
+    },
+    onSuccess: (_d, vars) => {
+      invalidate();
+      toast.success(vars.data.id ? "Discrepancy updated" : "Discrepancy logged");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save discrepancy: ${err.message}`);
+    },
+  });
+
+  const linkWorkOrder = useMutation({
+    mutationFn: async ({ lcId: id, workOrderId }: { lcId: string; workOrderId: string }) => {
+      const { error } = await supabase
+        .from("lc_work_orders")
+        .insert({ lc_id: id, work_order_id: workOrderId, factory_id: factoryId!, created_by: profile?.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("PO linked");
+    },
+    onError: (err: Error & { code?: string }) => {
+      toast.error(err.code === "23505" ? "PO is already linked to this LC" : `Failed to link PO: ${err.message}`);
+    },
+  });
+
+  const unlinkWorkOrder = useMutation({
+    mutationFn: async (linkId: string) => {
+      const { error } = await supabase.from("lc_work_orders").delete().eq("id", linkId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("PO unlinked");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to unlink PO: ${err.message}`);
+    },
+  });
+
+  return {
+    saveLC,
+    addAmendment,
+    saveShipment,
+    deleteShipment,
+    setChecklistStatus,
+    addChecklistItem,
+    deleteChecklistItem,
+    saveDiscrepancy,
+    linkWorkOrder,
+    unlinkWorkOrder,
+  };
+}
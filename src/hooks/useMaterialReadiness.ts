@@ -0,0 +1,183 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  fabricRequirement,
+  materialReadiness,
+  receivedQty,
+  requirementSheet,
+  scheduledMaterials,
+  upcomingShortages,
+  type BinCardReceipt,
+  type MaterialBooking,
+  type MaterialReadiness,
+  type ScheduledMaterial,
+} from "@/lib/material-readiness";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export interface ScheduledMaterialRow extends ScheduledMaterial {
+  poNumber: string;
+  buyer: string;
+  style: string;
+  lineName: string;
+  /** Short of materials with the first booking inside the lookahead */
+  blocking: boolean;
+}
+
+interface ReadinessInputs {
+  orderQty: Map<string, number>;
+  received: Map<string, number>;
+  manual: Map<string, number>;
+  costSheet: Map<string, number>;
+}
+
+function buildReadiness({ orderQty, received, manual, costSheet }: ReadinessInputs): Map<string, MaterialReadiness> {
+  const map = new Map<string, MaterialReadiness>();
+  for (const id of orderQty.keys()) {
+    map.set(id, materialReadiness(id, received.get(id) ?? 0, manual.get(id) ?? null, costSheet.get(id) ?? null));
+  }
+  return map;
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+/** Received vs required materials for every active PO, keyed by work order id. */
+export function useMaterialReadiness() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["material_readiness", factoryId],
+    queryFn: async () => {
+      const [woRes, cardsRes, sheetsRes, manualRes] = await Promise.all([
+        supabase
+          .from("work_orders")
+          .select("id, order_qty")
+          .eq("factory_id", factoryId!)
+          .eq("is_active", true)
+          .neq("status", "deleted"),
+        supabase
+          .from("storage_bin_cards")
+          .select("work_order_id, storage_bin_card_transactions(ttl_receive, transaction_date, created_at)")
+          .eq("factory_id", factoryId!),
+        supabase
+          .from("cost_sheets")
+          .select("work_order_id, status, updated_at, cost_sheet_fabrics(consumption_per_dozen, wastage_pct)")
+          .eq("factory_id", factoryId!)
+          .not("work_order_id", "is", null),
+        supabase
+          .from("po_material_requirements")
+          .select("work_order_id, required_qty")
+          .eq("factory_id", factoryId!),
+      ]);
+      const failed = [woRes, cardsRes, sheetsRes, manualRes].find((r) => r.error);
+      if (failed?.error) throw failed.error;
+
+      const orderQty = new Map((woRes.data ?? []).map((w) => [w.id, w.order_qty]));
+
+      const received = new Map<string, number>();
+      for (const card of cardsRes.data ?? []) {
+        const txns = (card.storage_bin_card_transactions ?? []) as BinCardReceipt[];
+        received.set(card.work_order_id, (received.get(card.work_order_id) ?? 0) + receivedQty(txns));
+      }
+
+      const sheetsByPO = new Map<string, NonNullable<typeof sheetsRes.data>>();
+      for (const s of sheetsRes.data ?? []) {
+        const list = sheetsByPO.get(s.work_order_id!) ?? [];
+        list.push(s);
+        sheetsByPO.set(s.work_order_id!, list);
+      }
+      const costSheet = new Map<string, number>();
+      for (const [woId, sheets] of sheetsByPO) {
+        const sheet = requirementSheet(sheets.map((s) => ({ ...s, fabrics: s.cost_sheet_fabrics ?? [] })));
+        const qty = sheet ? fabricRequirement(sheet.fabrics, orderQty.get(woId) ?? 0) : null;
+        if (qty != null) costSheet.set(woId, qty);
+      }
+
+      const manual = new Map((manualRes.data ?? []).map((m) => [m.work_order_id, Number(m.required_qty)]));
+
+      return buildReadiness({ orderQty, received, manual, costSheet });
+    },
+    enabled: !!factoryId,
+    staleTime: 60 * 1000,
+  });
+
+  return { readiness: query.data ?? new Map<string, MaterialReadiness>(), isLoading: query.isLoading };
+}
+
+/** Material readiness of every scheduled PO, flagging those that block upcoming bookings. */
+export function useScheduledMaterials() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const { readiness, isLoading: readinessLoading } = useMaterialReadiness();
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const bookingsQuery = useQuery({
+    queryKey: ["production_schedule", factoryId, "material"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("production_schedule")
+        .select("id, work_order_id, line_id, start_date, end_date, status, work_orders(po_number, buyer, style), lines(line_id, name)")
+        .eq("factory_id", factoryId!)
+        .neq("status", "completed")
+        .gte("end_date", today);
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!factoryId,
+  });
+
+  const scheduled: ScheduledMaterialRow[] = useMemo(() => {
+    const rows = bookingsQuery.data ?? [];
+    const byId = new Map(rows.map((r) => [r.id, r]));
+    const blocking = new Set(upcomingShortages(rows as MaterialBooking[], readiness, today).map((m) => m.bookingId));
+    return scheduledMaterials(rows as MaterialBooking[], readiness, today).map((m) => {
+      const row = byId.get(m.bookingId)!;
+      return {
+        ...m,
+        poNumber: row.work_orders?.po_number ?? "—",
+        buyer: row.work_orders?.buyer ?? "",
+        style: row.work_orders?.style ?? "",
+        lineName: row.lines?.name || row.lines?.line_id || "—",
+        blocking: blocking.has(m.bookingId),
+      };
+    });
+  }, [bookingsQuery.data, readiness, today]);
+
+  return { scheduled, isLoading: readinessLoading || bookingsQuery.isLoading };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useMaterialRequirementMutations() {
+  const { user, profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const queryClient = useQueryClient();
+
+  /** Set a PO's required quantity by hand; null goes back to the cost sheet. */
+  const setRequirement = useMutation({
+    mutationFn: async ({ workOrderId, requiredQty }: { workOrderId: string; requiredQty: number | null }) => {
+      const { error } =
+        requiredQty == null
+          ? await supabase.from("po_material_requirements").delete().eq("work_order_id", workOrderId)
+          : await supabase.from("po_material_requirements").upsert(
+              { factory_id: factoryId!, work_order_id: workOrderId, required_qty: requiredQty, updated_by: user?.id },
+              { onConflict: "work_order_id" }
+            );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["material_readiness"] });
+      toast.success("Material requirement saved");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save requirement: ${err.message}`);
+    },
+  });
+
+  return { setRequirement };
+}
@@ -6,10 +6,10 @@ import { useState, useEffect, useCallback } from 'react';
 import { toast } from 'sonner';
 import {
   processQueue,
-  getPendingCount,
-  getFailedCount,
+  getQueueCounts,
   hasPendingSubmissions,
   setupOnlineSync,
+  subscribeToQueue,
   retryFailedSubmissions,
   clearFailedSubmissions,
   type SyncResult,
@@ -19,28 +19,33 @@ export interface NetworkStatus {
   isOnline: boolean;
   pendingCount: number;
   failedCount: number;
+  conflictCount: number;
   isSyncing: boolean;
   lastSyncResult: SyncResult | null;
 }
 
 export function useNetworkStatus() {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [pendingCount, setPendingCount] = useState(getPendingCount());
-  const [failedCount, setFailedCount] = useState(getFailedCount());
+  const [pendingCount, setPendingCount] = useState(0);
+  const [failedCount, setFailedCount] = useState(0);
+  const [conflictCount, setConflictCount] = useState(0);
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncResult, setLastSyncResult] = useState<SyncResult | null>(null);
 
   // Update counts
-  const updateCounts = useCallback(() => {
-    setPendingCount(getPendingCount());
-    setFailedCount(getFailedCount());
+  const updateCounts = useCallback(async () => {
+    const counts = await getQueueCounts();
+    setPendingCount(counts.pending);
+    setFailedCount(counts.failed);
+    setConflictCount(counts.conflict);
   }, []);
 
   useEffect(() => {
-    const handleOnline = () => {
+    const handleOnline = async () => {
       setIsOnline(true);
+      const pending = await hasPendingSubmissions();
       toast.success('Back online', {
-        description: hasPendingSubmissions() ? 'Syncing pending submissions...' : undefined,
+        description: pending ? 'Syncing pending submissions...' : undefined,
       });
     };
 
@@ -51,21 +56,14 @@ export function useNetworkStatus() {
       });
     };
 
-    const handleQueueUpdate = () => {
-      updateCounts();
-    };
-
-    // Cross-tab sync: update counts when another tab modifies the queue in localStorage
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'pp_offline_submission_queue') {
-        updateCounts();
-      }
-    };
-
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
-    window.addEventListener('offline-queue-updated', handleQueueUpdate);
-    window.addEventListener('storage', handleStorageChange);
+
+    // Queue changes from this tab and from other tabs
+    const unsubscribe = subscribeToQueue(() => {
+      updateCounts();
+    });
+    updateCounts();
 
     // Setup automatic sync on online
     const cleanup = setupOnlineSync((result) => {
@@ -80,13 +78,17 @@ export function useNetworkStatus() {
           description: 'Check the sync status for details.',
         });
       }
+      if (result.conflicts.length > 0) {
+        toast.warning(`${result.conflicts.length} submission(s) need review`, {
+          description: 'A different record is already on the server.',
+        });
+      }
     });
 
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
-      window.removeEventListener('offline-queue-updated', handleQueueUpdate);
-      window.removeEventListener('storage', handleStorageChange);
+      unsubscribe();
       cleanup();
     };
   }, [updateCounts]);
@@ -98,7 +100,7 @@ export function useNetworkStatus() {
       return;
     }
 
-    if (!hasPendingSubmissions()) {
+    if (!(await hasPendingSubmissions())) {
       toast.info('No pending submissions to sync');
       return;
     }
@@ -115,30 +117,34 @@ export function useNetworkStatus() {
       if (result.failed.length > 0) {
         toast.error(`Failed to sync ${result.failed.length} submission(s)`);
       }
+      if (result.conflicts.length > 0) {
+        toast.warning(`${result.conflicts.length} submission(s) need review`);
+      }
     } finally {
       setIsSyncing(false);
     }
   }, [updateCounts]);
 
   // Retry failed
-  const retryFailed = useCallback(() => {
-    retryFailedSubmissions();
-    updateCounts();
+  const retryFailed = useCallback(async () => {
+    await retryFailedSubmissions();
+    await updateCounts();
     if (navigator.onLine) {
       manualSync();
     }
   }, [updateCounts, manualSync]);
 
   // Clear failed
-  const clearFailed = useCallback(() => {
-    clearFailedSubmissions();
-    updateCounts();
+  const clearFailed = useCallback(async () => {
+    await clearFailedSubmissions();
+    await updateCounts();
   }, [updateCounts]);
 
   return {
     isOnline,
     pendingCount,
     failedCount,
+    conflictCount,
     isSyncing,
     lastSyncResult,
     manualSync,
@@ -146,5 +152,6 @@ export function useNetworkStatus() {
     clearFailed,
     hasPending: pendingCount > 0,
     hasFailed: failedCount > 0,
+    hasConflicts: conflictCount > 0,
   };
 }
@@ -0,0 +1,71 @@
+/**
+ * Hook for reading the offline queue and acting on individual items
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  getQueuedSubmissions,
+  subscribeToQueue,
+  removeFromQueue,
+  retrySubmission,
+  resolveConflict,
+  processQueue,
+  type ConflictResolution,
+  type QueuedSubmission,
+} from '@/lib/offline-queue';
+import type { MergeChoice } from '@/lib/offline-conflicts';
+
+export function useOfflineQueue() {
+  const [submissions, setSubmissions] = useState<QueuedSubmission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setSubmissions(await getQueuedSubmissions());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToQueue(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  const retry = useCallback(async (id: string) => {
+    await retrySubmission(id);
+    if (navigator.onLine) {
+      await processQueue();
+    }
+  }, []);
+
+  const discard = useCallback(async (id: string) => {
+    await removeFromQueue(id);
+    toast.success('Queued submission discarded');
+  }, []);
+
+  const resolve = useCallback(async (
+    id: string,
+    resolution: ConflictResolution,
+    choices?: Record<string, MergeChoice>
+  ) => {
+    setResolvingId(id);
+    try {
+      const { success, error } = await resolveConflict(id, resolution, choices);
+      if (!success) {
+        toast.error(`Failed to resolve conflict: ${error}`);
+        return false;
+      }
+      toast.success(
+        resolution === 'discard' ? 'Queued submission discarded' :
+        resolution === 'merge' ? 'Merged submission synced' : 'Queued submission synced'
+      );
+      return true;
+    } finally {
+      setResolvingId(null);
+    }
+  }, []);
+
+  return { submissions, isLoading, resolvingId, retry, discard, resolve };
+}
@@ -5,12 +5,17 @@
 
 import { useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNetworkStatus } from './useNetworkStatus';
-import { 
-  queueSubmission, 
+import {
+  queueSubmission,
+  newSubmissionId,
+  attachmentPath,
+  uploadBlob,
   FormType,
-  type QueuedSubmission 
+  type AttachmentInput,
+  type QueuedTable,
 } from '@/lib/offline-queue';
 import { toast } from 'sonner';
 
@@ -23,6 +28,8 @@ interface SubmissionOptions {
   successMessage?: string;
   /** Custom queued message */
   queuedMessage?: string;
+  /** Photos to upload; their public URLs are written to each `field` */
+  attachments?: AttachmentInput[];
 }
 
 interface SubmissionResult {
@@ -39,7 +46,7 @@ export function useOfflineSubmission() {
 
   const submit = useCallback(async <T extends Record<string, unknown>>(
     formType: FormType,
-    tableName: string,
+    tableName: QueuedTable,
     payload: T,
     options: SubmissionOptions = {}
   ): Promise<SubmissionResult> => {
@@ -48,8 +55,13 @@ export function useOfflineSubmission() {
       showSuccessToast = true,
       successMessage = 'Submission saved successfully',
       queuedMessage = 'Saved offline. Will sync when online.',
+      attachments = [],
     } = options;
 
+    // Shared by the direct upload and the queued replay so a retried photo
+    // lands on the same storage path
+    const submissionId = newSubmissionId();
+
     // Validate user context
     if (!user?.id || !profile?.factory_id) {
       return {
@@ -59,20 +71,34 @@ export function useOfflineSubmission() {
       };
     }
 
-    // If offline, queue the submission
-    if (!isOnline) {
-      const queueId = queueSubmission(
-        formType,
-        tableName,
-        payload as Record<string, unknown>,
-        profile.factory_id,
-        user.id
-      );
+    const factoryId = profile.factory_id;
+    const userId = user.id;
+
+    // Queue the submission for later. Writing to IndexedDB can fail too
+    // (storage full, private mode), so report that instead of throwing.
+    const queue = async (description: string): Promise<SubmissionResult> => {
+      let queueId: string;
+      try {
+        queueId = await queueSubmission(
+          formType,
+          tableName,
+          payload as Record<string, unknown>,
+          factoryId,
+          userId,
+          attachments,
+          submissionId
+        );
+      } catch (err) {
+        console.error('[offline-submission] Could not queue submission:', err);
+        return {
+          success: false,
+          queued: false,
+          error: `Could not save offline: ${err instanceof Error ? err.message : String(err)}`,
+        };
+      }
 
       if (showQueuedToast) {
-        toast.info('Saved for later', {
-          description: queuedMessage,
-        });
+        toast.info('Saved for later', { description });
       }
 
       return {
@@ -80,38 +106,33 @@ export function useOfflineSubmission() {
         queued: true,
         queueId,
       };
+    };
+
+    // If offline, queue the submission
+    if (!isOnline) {
+      return queue(queuedMessage);
     }
 
     // Online - try direct submission
     try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const row: Record<string, unknown> = { ...payload };
+      for (const input of attachments) {
+        const urls: string[] = [];
+        for (const [index, file] of input.files.entries()) {
+          urls.push(await uploadBlob(input.bucket, attachmentPath(factoryId, submissionId, input.field, index, file), file));
+        }
+        row[input.field] = urls;
+      }
+
       const { data, error } = await supabase
-        .from(tableName as any)
-        .insert(payload as any)
+        .from(tableName)
+        .insert(row as TablesInsert<QueuedTable>)
         .select();
 
       if (error) {
         // If network error during submission, queue it
         if (error.message.includes('network') || error.message.includes('fetch')) {
-          const queueId = queueSubmission(
-            formType,
-            tableName,
-            payload as Record<string, unknown>,
-            profile.factory_id,
-            user.id
-          );
-
-          if (showQueuedToast) {
-            toast.info('Saved for later', {
-              description: 'Network error. Will sync when connection is restored.',
-            });
-          }
-
-          return {
-            success: true,
-            queued: true,
-            queueId,
-          };
+          return queue('Network error. Will sync when connection is restored.');
         }
 
         return {
@@ -132,25 +153,7 @@ export function useOfflineSubmission() {
       };
     } catch (err) {
       // Network failure - queue the submission
-      const queueId = queueSubmission(
-        formType,
-        tableName,
-        payload as Record<string, unknown>,
-        profile.factory_id,
-        user.id
-      );
-
-      if (showQueuedToast) {
-        toast.info('Saved for later', {
-          description: 'Connection lost. Will sync when online.',
-        });
-      }
-
-      return {
-        success: true,
-        queued: true,
-        queueId,
-      };
+      return queue('Connection lost. Will sync when online.');
     }
   }, [user, profile, isOnline]);
 
@@ -0,0 +1,178 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import { EXPORT_RECEIPT_CATEGORY } from "@/lib/invoice-utils";
+import { syncInvoicePaymentStatus } from "@/hooks/useInvoices";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+
+export type Payment = PublicTables["payments"]["Row"];
+
+export interface PaymentWithAllocations extends Payment {
+  payment_allocations: {
+    id: string;
+    invoice_id: string;
+    allocated_amount: number;
+    invoices: { invoice_number: string } | null;
+  }[];
+}
+
+export type PaymentInput = Pick<
+  PublicTables["payments"]["Insert"],
+  | "buyer_name"
+  | "payment_date"
+  | "original_amount"
+  | "original_currency"
+  | "exchange_rate"
+  | "bank_deductions"
+  | "net_amount_credited"
+  | "bank_reference"
+  | "payment_method"
+  | "notes"
+>;
+
+/** invoice id → amount applied from this payment */
+export type AllocationInput = Record<string, number>;
+
+// ── Hooks ──────────────────────────────────────────────────────────────
+
+/** Export proceeds received from buyers, with their invoice allocations. */
+export function usePayments() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["export_payments", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("*, payment_allocations(id, invoice_id, allocated_amount, invoices(invoice_number))")
+        .eq("factory_id", factoryId!)
+        .eq("direction", "inbound")
+        .eq("category", EXPORT_RECEIPT_CATEGORY)
+        .is("deleted_at", null)
+        .order("payment_date", { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as unknown as PaymentWithAllocations[];
+    },
+    enabled: !!factoryId,
+  });
+
+  return {
+    payments: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+export function usePaymentMutations() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const factoryId = profile?.factory_id;
+
+  const invalidate = (invoiceIds: string[]) => {
+    queryClient.invalidateQueries({ queryKey: ["export_payments"] });
+    queryClient.invalidateQueries({ queryKey: ["invoices"] });
+    invoiceIds.forEach((id) => queryClient.invalidateQueries({ queryKey: ["invoice", id] }));
+  };
+
+  const audit = (entry: Omit<PublicTables["payment_audit_log"]["Insert"], "performed_by">) =>
+    supabase.from("payment_audit_log").insert({ ...entry, performed_by: profile?.id ?? null });
+
+  /** Records a receipt and applies it to one or more invoices. */
+  const recordPayment = useMutation({
+    mutationFn: async ({ payment, allocations }: { payment: PaymentInput; allocations: AllocationInput }) => {
+      const entries = Object.entries(allocations).filter(([, amt]) => amt > 0);
+      const allocated = entries.reduce((s, [, amt]) => s + amt, 0);
+      if (allocated > payment.original_amount + 0.005) {
+        throw new Error("Allocated amount exceeds the payment amount");
+      }
+
+      const { data: created, error } = await supabase
+        .from("payments")
+        .insert({
+          ...payment,
+          factory_id: factoryId!,
+          direction: "inbound",
+          category: EXPORT_RECEIPT_CATEGORY,
+          status: "received",
+          recorded_by: profile?.id,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      if (entries.length > 0) {
+        const { error: allocError } = await supabase.from("payment_allocations").insert(
+          entries.map(([invoiceId, amt]) => ({
+            payment_id: created.id,
+            invoice_id: invoiceId,
+            allocated_amount: amt,
+            allocated_currency: payment.original_currency,
+            created_by: profile?.id,
+          })),
+        );
+        if (allocError) throw allocError;
+      }
+
+      await audit({
+        action: "created",
+        entity_type: "payment",
+        entity_id: created.id,
+        new_value: String(payment.original_amount),
+        notes: entries.length > 0 ? `Allocated ${allocated.toFixed(2)} to ${entries.length} invoice(s)` : null,
+      });
+      await syncInvoicePaymentStatus(entries.map(([id]) => id));
+      return entries.map(([id]) => id);
+    },
+    onSuccess: (invoiceIds) => {
+      invalidate(invoiceIds);
+      toast.success("Payment recorded");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to record payment: ${err.message}`);
+    },
+  });
+
+  /** Soft-deletes a receipt and releases its allocations. */
+  const deletePayment = useMutation({
+    mutationFn: async ({ payment, reason }: { payment: PaymentWithAllocations; reason: string }) => {
+      const invoiceIds = payment.payment_allocations.map((a) => a.invoice_id);
+
+      const { error: allocError } = await supabase.from("payment_allocations").delete().eq("payment_id", payment.id);
+      if (allocError) throw allocError;
+
+      const { error } = await supabase
+        .from("payments")
+        .update({ deleted_at: new Date().toISOString(), deleted_by: profile?.id, deletion_reason: reason || null })
+        .eq("id", payment.id);
+      if (error) throw error;
+
+      await audit({
+        action: "deleted",
+        entity_type: "payment",
+        entity_id: payment.id,
+        old_value: String(payment.original_amount),
+        notes: reason || null,
+      });
+      await syncInvoicePaymentStatus(invoiceIds);
+      return invoiceIds;
+    },
+    onSuccess: (invoiceIds) => {
+      invalidate(invoiceIds);
+      toast.success("Payment deleted");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to delete payment: ${err.message}`);
+    },
+  });
+
+  return {
+    recordPayment,
+    deletePayment,
+  };
+}
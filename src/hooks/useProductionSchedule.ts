@@ -1,13 +1,39 @@
-import { useMemo } from "react";
+import { useCallback, useMemo } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { useWorkingCalendar } from "@/hooks/useFactoryHolidays";
+import { useLearningCurves } from "@/hooks/useLearningCurves";
+import { useMaterialReadiness } from "@/hooks/useMaterialReadiness";
+import {
+  changeoverLoss,
+  isChangeover,
+  rampDays,
+  rampEndDate,
+  rampedFinishDate,
+  resolveCurve,
+  type LearningCurve,
+} from "@/lib/learning-curve";
+import {
+  actualsByBooking,
+  reforecastLine,
+  scheduleProgress,
+  type LineActual,
+  type RescheduledBooking,
+  type ScheduleProgress,
+} from "@/lib/schedule-progress";
+import { KPI_HORIZON_DAYS, planKPIs, type PlanKPIs } from "@/lib/schedule-kpis";
+import { isMaterialShort, type MaterialReadiness } from "@/lib/material-readiness";
+import type { WorkingCalendar } from "@/lib/working-days";
 import { sortByLineName } from "@/lib/sort-lines";
-import { differenceInDays, parseISO, startOfDay } from "date-fns";
+import { addDays, differenceInDays, format, parseISO, startOfDay, subDays } from "date-fns";
 import { toast } from "sonner";
 
 // ── Types ──────────────────────────────────────────────────────────────
 
+/** The live schedule, or an open scenario's bookings */
+type ScheduleTable = "production_schedule" | "schedule_scenario_entries";
+
 export interface ScheduleEntry {
   id: string;
   factory_id: string;
@@ -41,6 +67,8 @@ export interface WorkOrder {
   line_id: string | null;
   smv: number | null;
   target_per_day: number | null;
+  /** A scenario-only order that doesn't exist as a work order */
+  is_what_if?: boolean;
 }
 
 export interface FactoryLine {
@@ -49,11 +77,32 @@ export interface FactoryLine {
   name: string | null;
   is_active: boolean | null;
   target_per_day: number | null;
+  target_efficiency: number | null;
+}
+
+/** Ramp-up of a schedule that starts a new style on its line */
+export interface ScheduleRamp {
+  curveName: string;
+  steps: number[];
+  previousStyle: string | null;
+  /** Last working day below peak output */
+  rampEnd: string | null;
+  /** Finish at daily_target with the ramp applied; null without a daily target */
+  projectedEnd: string | null;
+  /** Pieces lost against sewing at daily_target from day one */
+  loss: number;
 }
 
 export interface ScheduleWithDetails extends ScheduleEntry {
   workOrder: WorkOrder;
   line: FactoryLine;
+  ramp: ScheduleRamp | null;
+  /** Output against plan; `status` is derived from it */
+  progress: ScheduleProgress;
+  /** Received vs required materials for the PO; null for what-if orders */
+  material: MaterialReadiness | null;
+  /** Sewing hasn't started and the PO's materials aren't all in-house */
+  materialBlocked: boolean;
 }
 
 export type UrgencyGroup = "at_risk" | "upcoming" | "later";
@@ -85,10 +134,155 @@ export interface ScheduleKPIs {
   nextDeadlineDays: number | null;
   startingThisWeek: number;
   exFactoryRisks: number;
+  plan: PlanKPIs;
 }
 
+type ScheduleFilters = NonNullable<UseProductionScheduleOptions["filters"]>;
+type LineBooking = { id: string; start_date: string; style: string | null };
+
 // ── Helpers ────────────────────────────────────────────────────────────
 
+/**
+ * Planned end, pushed out when output is running behind or, before any
+ * output, when the changeover ramp-up can't make it.
+ */
+export function effectiveEndDate(s: ScheduleWithDetails): string {
+  const projected = s.progress.lastOutputDate ? s.progress.forecastEnd : s.ramp?.projectedEnd;
+  return projected && projected > s.end_date ? projected : s.end_date;
+}
+
+/** Curve steps for a line starting `wo` after the booking before `startDate`; [] without a changeover. */
+function changeoverSteps(
+  curves: LearningCurve[],
+  lineSchedules: { start_date: string; style: string | null; id: string }[],
+  lineId: string,
+  wo: Pick<WorkOrder, "style" | "item">,
+  startDate: string,
+  excludeId?: string,
+): { curve: LearningCurve | null; steps: number[]; previousStyle: string | null } {
+  const previous = lineSchedules
+    .filter((s) => s.id !== excludeId && s.start_date < startDate)
+    .reduce<{ start_date: string; style: string | null } | null>((latest, s) => (!latest || s.start_date > latest.start_date ? s : latest), null);
+  const previousStyle = previous?.style ?? null;
+  if (!isChangeover(previousStyle, wo.style)) return { curve: null, steps: [], previousStyle };
+  const curve = resolveCurve(curves, { lineId, category: wo.item });
+  return { curve, steps: curve?.steps ?? [], previousStyle };
+}
+
+function bookingsByLine(rows: ScheduleEntry[], workOrders: WorkOrder[]): Map<string, LineBooking[]> {
+  const map = new Map<string, LineBooking[]>();
+  const styles = new Map(workOrders.map((w) => [w.id, w.style]));
+  for (const s of rows) {
+    const list = map.get(s.line_id) ?? [];
+    list.push({ id: s.id, start_date: s.start_date, style: styles.get(s.work_order_id) ?? null });
+    map.set(s.line_id, list);
+  }
+  return map;
+}
+
+/** Join bookings with their PO and line, and work out changeover ramp, progress and material readiness. */
+function buildScheduleDetails(
+  rows: ScheduleEntry[],
+  workOrders: WorkOrder[],
+  lines: FactoryLine[],
+  curves: LearningCurve[],
+  actuals: LineActual[],
+  materials: Map<string, MaterialReadiness>,
+  today: string,
+  calendar: WorkingCalendar,
+): ScheduleWithDetails[] {
+  const woMap = new Map(workOrders.map((w) => [w.id, w]));
+  const lineMap = new Map(lines.map((l) => [l.id, l]));
+  const lineBookings = bookingsByLine(rows, workOrders);
+  const bookingActuals = actualsByBooking(rows, actuals);
+
+  return rows
+    .map((s) => {
+      const workOrder = woMap.get(s.work_order_id);
+      const line = lineMap.get(s.line_id);
+      if (!workOrder || !line) return null;
+      const { curve, steps, previousStyle } = changeoverSteps(
+        curves, lineBookings.get(s.line_id) ?? [], s.line_id, workOrder, s.start_date, s.id
+      );
+      let ramp: ScheduleRamp | null = null;
+      if (curve && rampDays(steps) > 0) {
+        const qty = s.target_qty ?? workOrder.order_qty;
+        ramp = {
+          curveName: curve.name,
+          steps,
+          previousStyle,
+          rampEnd: rampEndDate(calendar, s.start_date, steps),
+          projectedEnd: s.daily_target ? rampedFinishDate(calendar, s.start_date, qty, s.daily_target, steps) : null,
+          loss: s.daily_target ? changeoverLoss(s.daily_target, steps) : 0,
+        };
+      }
+      const progress = scheduleProgress(
+        s, bookingActuals.get(s.id) ?? [], workOrder.order_qty, today, calendar, ramp?.steps
+      );
+      const material = materials.get(s.work_order_id) ?? null;
+      const materialBlocked =
+        progress.status !== "completed" && progress.actualQty === 0 && isMaterialShort(material);
+      return { ...s, status: progress.status, workOrder, line, ramp, progress, material, materialBlocked } as ScheduleWithDetails;
+    })
+    .filter(Boolean) as ScheduleWithDetails[];
+}
+
+function filterVisible(
+  schedules: ScheduleWithDetails[],
+  visibleRange: { start: Date; end: Date },
+  filters: ScheduleFilters | undefined,
+): ScheduleWithDetails[] {
+  return schedules.filter((s) => {
+    const start = parseISO(s.start_date);
+    const end = parseISO(s.end_date);
+    const overlaps = start <= visibleRange.end && end >= visibleRange.start;
+    if (!overlaps) return false;
+
+    if (filters?.lineId && s.line_id !== filters.lineId) return false;
+    if (filters?.buyer && s.workOrder.buyer !== filters.buyer) return false;
+    if (filters?.search) {
+      const q = filters.search.toLowerCase();
+      if (
+        !s.workOrder.po_number.toLowerCase().includes(q) &&
+        !s.workOrder.buyer.toLowerCase().includes(q) &&
+        !s.workOrder.style.toLowerCase().includes(q)
+      ) return false;
+    }
+    if (filters?.riskOnly) {
+      const exFactory = s.workOrder.planned_ex_factory;
+      if (!exFactory) return false;
+      if (effectiveEndDate(s) <= exFactory) return false;
+    }
+    return true;
+  });
+}
+
+function groupByLine(schedules: ScheduleWithDetails[]): Map<string, ScheduleWithDetails[]> {
+  const map = new Map<string, ScheduleWithDetails[]>();
+  for (const s of schedules) {
+    const list = map.get(s.line_id) ?? [];
+    list.push(s);
+    map.set(s.line_id, list);
+  }
+  return map;
+}
+
+function kpisForPlan(
+  schedules: ScheduleWithDetails[],
+  workOrders: WorkOrder[],
+  lines: FactoryLine[],
+  today: Date,
+  calendar: WorkingCalendar,
+): PlanKPIs {
+  return planKPIs(
+    schedules.map((s) => ({ ...s, end_date: effectiveEndDate(s) })),
+    workOrders,
+    lines.map((l) => l.id),
+    { start: format(today, "yyyy-MM-dd"), end: format(addDays(today, KPI_HORIZON_DAYS - 1), "yyyy-MM-dd") },
+    calendar,
+  );
+}
+
 function classifyUrgency(wo: WorkOrder, today: Date): { urgency: UrgencyGroup; daysToExFactory: number | null } {
   if (!wo.planned_ex_factory) return { urgency: "later", daysToExFactory: null };
   const exDate = parseISO(wo.planned_ex_factory);
@@ -108,12 +302,17 @@ interface UseProductionScheduleOptions {
     riskOnly?: boolean;
     search?: string;
   };
+  /** Work on a what-if scenario instead of the live schedule */
+  scenarioId?: string | null;
 }
 
-export function useProductionSchedule({ visibleRange, filters }: UseProductionScheduleOptions) {
+export function useProductionSchedule({ visibleRange, filters, scenarioId = null }: UseProductionScheduleOptions) {
   const { profile } = useAuth();
   const queryClient = useQueryClient();
   const factoryId = profile?.factory_id;
+  const { calendar } = useWorkingCalendar();
+  const { curves } = useLearningCurves();
+  const { readiness: materials } = useMaterialReadiness();
 
   // ── Queries ──────────────────────────────────────────────────────────
 
@@ -130,6 +329,65 @@ export function useProductionSchedule({ visibleRange, filters }: UseProductionSc
     enabled: !!factoryId,
   });
 
+  // Scenario bookings, shaped like live ones; what-if orders stand in for work orders
+  const scenarioEntriesQuery = useQuery({
+    queryKey: ["production_schedule", factoryId, "scenario", scenarioId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("schedule_scenario_entries")
+        .select("*")
+        .eq("scenario_id", scenarioId!);
+      if (error) throw error;
+      return (data ?? []).map((e): ScheduleEntry => ({
+        id: e.id,
+        factory_id: e.factory_id,
+        work_order_id: e.work_order_id ?? e.scenario_order_id!,
+        line_id: e.line_id,
+        start_date: e.start_date,
+        end_date: e.end_date,
+        status: "not_started",
+        target_qty: e.target_qty,
+        daily_target: e.daily_target,
+        priority: e.priority ?? 0,
+        colour: e.colour,
+        notes: e.notes,
+        created_by: null,
+        created_at: e.created_at,
+        updated_at: e.updated_at,
+      }));
+    },
+    enabled: !!factoryId && !!scenarioId,
+  });
+
+  const scenarioOrdersQuery = useQuery({
+    queryKey: ["schedule_scenario_orders", scenarioId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("schedule_scenario_orders")
+        .select("*")
+        .eq("scenario_id", scenarioId!);
+      if (error) throw error;
+      return (data ?? []).map((o): WorkOrder => ({
+        id: o.id,
+        po_number: o.po_number,
+        buyer: o.buyer,
+        style: o.style,
+        item: o.item,
+        color: null,
+        order_qty: o.order_qty,
+        planned_ex_factory: o.planned_ex_factory,
+        actual_ex_factory: null,
+        status: null,
+        is_active: true,
+        line_id: null,
+        smv: o.smv,
+        target_per_day: o.target_per_day,
+        is_what_if: true,
+      }));
+    },
+    enabled: !!scenarioId,
+  });
+
   const workOrdersQuery = useQuery({
     queryKey: ["work_orders_schedule", factoryId],
     queryFn: async () => {
@@ -150,7 +408,7 @@ export function useProductionSchedule({ visibleRange, filters }: UseProductionSc
     queryFn: async () => {
       const { data, error } = await supabase
         .from("lines")
-        .select("id, line_id, name, is_active, target_per_day")
+        .select("id, line_id, name, is_active, target_per_day, target_efficiency")
         .eq("factory_id", factoryId!)
         .eq("is_active", true);
       if (error) throw error;
@@ -159,61 +417,118 @@ export function useProductionSchedule({ visibleRange, filters }: UseProductionSc
     enabled: !!factoryId,
   });
 
+  // Planned operators per line from the latest sewing target, for auto-plan capacity
+  const manpowerQuery = useQuery({
+    queryKey: ["line_manpower_schedule", factoryId],
+    queryFn: async () => {
+      const since = format(subDays(new Date(), 30), "yyyy-MM-dd");
+      const { data, error } = await supabase
+        .from("sewing_targets")
+        .select("line_id, manpower_planned, production_date")
+        .eq("factory_id", factoryId!)
+        .gte("production_date", since)
+        .order("production_date", { ascending: false });
+      if (error) throw error;
+      const map = new Map<string, number>();
+      for (const row of data ?? []) {
+        if (!map.has(row.line_id) && row.manpower_planned > 0) map.set(row.line_id, row.manpower_planned);
+      }
+      return map;
+    },
+    enabled: !!factoryId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // The plan being edited: a scenario when one is open, otherwise live
+  const rows = scenarioId ? scenarioEntriesQuery.data : schedulesQuery.data;
+  const whatIfOrders = scenarioOrdersQuery.data;
+  const workOrders = useMemo(
+    () => (scenarioId ? [...(workOrdersQuery.data ?? []), ...(whatIfOrders ?? [])] : workOrdersQuery.data ?? []),
+    [scenarioId, workOrdersQuery.data, whatIfOrders]
+  );
+  const whatIfIds = useMemo(() => new Set(whatIfOrders?.map((o) => o.id) ?? []), [whatIfOrders]);
+
+  // Sewing output on scheduled lines, for plan vs actual
+  const actualsSince = useMemo(() => {
+    const floor = format(subDays(new Date(), 120), "yyyy-MM-dd");
+    const starts = [...(schedulesQuery.data ?? []), ...(scenarioEntriesQuery.data ?? [])]
+      .filter((s) => s.end_date >= floor)
+      .map((s) => s.start_date);
+    if (starts.length === 0) return null;
+    const earliest = starts.reduce((min, d) => (d < min ? d : min));
+    return earliest > floor ? earliest : floor;
+  }, [schedulesQuery.data, scenarioEntriesQuery.data]);
+
+  const actualsQuery = useQuery({
+    queryKey: ["schedule_actuals", factoryId, actualsSince],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sewing_actuals")
+        .select("line_id, work_order_id, good_today, production_date")
+        .eq("factory_id", factoryId!)
+        .gte("production_date", actualsSince!);
+      if (error) throw error;
+      return (data ?? []) as LineActual[];
+    },
+    enabled: !!factoryId && !!actualsSince,
+  });
+
   // ── Derived State ────────────────────────────────────────────────────
 
   const today = useMemo(() => startOfDay(new Date()), []);
+  const todayKey = format(today, "yyyy-MM-dd");
+
+  // Bookings per line with their style, for spotting changeovers
+  const lineBookings = useMemo(() => bookingsByLine(rows ?? [], workOrders), [rows, workOrders]);
 
   const schedulesWithDetails: ScheduleWithDetails[] = useMemo(() => {
+    if (!rows || !linesQuery.data) return [];
+    return buildScheduleDetails(
+      rows, workOrders, linesQuery.data, curves, actualsQuery.data ?? [], materials, todayKey, calendar
+    );
+  }, [rows, workOrders, linesQuery.data, curves, actualsQuery.data, materials, todayKey, calendar]);
+
+  // The live plan alongside an open scenario, for comparison
+  const liveSchedulesWithDetails: ScheduleWithDetails[] | null = useMemo(() => {
+    if (!scenarioId) return null;
     if (!schedulesQuery.data || !workOrdersQuery.data || !linesQuery.data) return [];
-    const woMap = new Map(workOrdersQuery.data.map((w) => [w.id, w]));
-    const lineMap = new Map(linesQuery.data.map((l) => [l.id, l]));
-
-    return schedulesQuery.data
-      .map((s) => {
-        const workOrder = woMap.get(s.work_order_id);
-        const line = lineMap.get(s.line_id);
-        if (!workOrder || !line) return null;
-        return { ...s, workOrder, line } as ScheduleWithDetails;
-      })
-      .filter(Boolean) as ScheduleWithDetails[];
-  }, [schedulesQuery.data, workOrdersQuery.data, linesQuery.data]);
+    return buildScheduleDetails(
+      schedulesQuery.data, workOrdersQuery.data, linesQuery.data, curves, actualsQuery.data ?? [], materials, todayKey, calendar
+    );
+  }, [scenarioId, schedulesQuery.data, workOrdersQuery.data, linesQuery.data, curves, actualsQuery.data, materials, todayKey, calendar]);
+
+  /** Ramp-up steps for placing `wo` on a line from `startDate`; [] when it continues the same style. */
+  const rampStepsFor = useCallback(
+    (lineId: string, wo: Pick<WorkOrder, "style" | "item">, startDate: string, excludeId?: string) =>
+      changeoverSteps(curves, lineBookings.get(lineId) ?? [], lineId, wo, startDate, excludeId).steps,
+    [curves, lineBookings]
+  );
+
+  /** Bookings that move if `schedule` is stretched to its forecast finish; [] when it isn't slipping. */
+  const reforecastPlan = useCallback(
+    (schedule: ScheduleWithDetails): RescheduledBooking[] => {
+      const forecast = schedule.progress.forecastEnd;
+      if (!forecast || schedule.status === "completed") return [];
+      const sameLine = (rows ?? []).filter((s) => s.line_id === schedule.line_id);
+      return reforecastLine(sameLine, schedule.id, forecast, calendar);
+    },
+    [rows, calendar]
+  );
 
   // Filter schedules for visible range
-  const visibleSchedules = useMemo(() => {
-    return schedulesWithDetails.filter((s) => {
-      const start = parseISO(s.start_date);
-      const end = parseISO(s.end_date);
-      const overlaps = start <= visibleRange.end && end >= visibleRange.start;
-      if (!overlaps) return false;
-
-      if (filters?.lineId && s.line_id !== filters.lineId) return false;
-      if (filters?.buyer && s.workOrder.buyer !== filters.buyer) return false;
-      if (filters?.search) {
-        const q = filters.search.toLowerCase();
-        if (
-          !s.workOrder.po_number.toLowerCase().includes(q) &&
-          !s.workOrder.buyer.toLowerCase().includes(q) &&
-          !s.workOrder.style.toLowerCase().includes(q)
-        ) return false;
-      }
-      if (filters?.riskOnly) {
-        const exFactory = s.workOrder.planned_ex_factory;
-        if (!exFactory) return false;
-        if (parseISO(s.end_date) <= parseISO(exFactory)) return false;
-      }
-      return true;
-    });
-  }, [schedulesWithDetails, visibleRange, filters]);
+  const visibleSchedules = useMemo(
+    () => filterVisible(schedulesWithDetails, visibleRange, filters),
+    [schedulesWithDetails, visibleRange, filters]
+  );
 
   // Unscheduled POs
   const scheduledWoIds = useMemo(
-    () => new Set(schedulesQuery.data?.map((s) => s.work_order_id) ?? []),
-    [schedulesQuery.data]
+    () => new Set(rows?.map((s) => s.work_order_id) ?? []),
+    [rows]
   );
 
   const unscheduledPOs: UnscheduledPO[] = useMemo(() => {
-    if (!workOrdersQuery.data) return [];
-    return workOrdersQuery.data
+    return workOrders
       .filter((wo) => !scheduledWoIds.has(wo.id))
       .map((wo) => ({ ...wo, ...classifyUrgency(wo, today) }))
       .sort((a, b) => {
@@ -224,20 +539,19 @@ export function useProductionSchedule({ visibleRange, filters }: UseProductionSc
         if (b.daysToExFactory === null) return -1;
         return a.daysToExFactory - b.daysToExFactory;
       });
-  }, [workOrdersQuery.data, scheduledWoIds, today]);
+  }, [workOrders, scheduledWoIds, today]);
 
   // KPIs
   const kpis: ScheduleKPIs = useMemo(() => {
     const riskyCount = schedulesWithDetails.filter((s) => {
       if (s.status === "completed") return false;
       if (!s.workOrder.planned_ex_factory) return false;
-      return parseISO(s.end_date) > parseISO(s.workOrder.planned_ex_factory);
+      return effectiveEndDate(s) > s.workOrder.planned_ex_factory;
     }).length;
 
     // Next upcoming ex-factory deadline (days from now)
     let nextDeadlineDays: number | null = null;
-    const allWOs = workOrdersQuery.data ?? [];
-    for (const wo of allWOs) {
+    for (const wo of workOrders) {
       if (!wo.planned_ex_factory) continue;
       const days = differenceInDays(parseISO(wo.planned_ex_factory), today);
       if (days >= 0 && (nextDeadlineDays === null || days < nextDeadlineDays)) {
@@ -260,31 +574,36 @@ export function useProductionSchedule({ visibleRange, filters }: UseProductionSc
       nextDeadlineDays,
       startingThisWeek,
       exFactoryRisks: riskyCount,
+      plan: kpisForPlan(schedulesWithDetails, workOrders, linesQuery.data ?? [], today, calendar),
     };
-  }, [workOrdersQuery.data, scheduledWoIds, unscheduledPOs, schedulesWithDetails, today]);
+  }, [workOrders, scheduledWoIds, unscheduledPOs, schedulesWithDetails, linesQuery.data, today, calendar]);
+
+  const livePlanKpis: PlanKPIs | null = useMemo(
+    () =>
+      liveSchedulesWithDetails
+        ? kpisForPlan(liveSchedulesWithDetails, workOrdersQuery.data ?? [], linesQuery.data ?? [], today, calendar)
+        : null,
+    [liveSchedulesWithDetails, workOrdersQuery.data, linesQuery.data, today, calendar]
+  );
 
   // Group schedules by line for timeline rendering
-  const schedulesByLine = useMemo(() => {
-    const map = new Map<string, ScheduleWithDetails[]>();
-    for (const s of visibleSchedules) {
-      const list = map.get(s.line_id) ?? [];
-      list.push(s);
-      map.set(s.line_id, list);
-    }
-    return map;
-  }, [visibleSchedules]);
+  const schedulesByLine = useMemo(() => groupByLine(visibleSchedules), [visibleSchedules]);
+
+  const liveSchedulesByLine = useMemo(
+    () => (liveSchedulesWithDetails ? groupByLine(filterVisible(liveSchedulesWithDetails, visibleRange, filters)) : null),
+    [liveSchedulesWithDetails, visibleRange, filters]
+  );
 
   // Unique buyers for filter dropdown
   const buyers = useMemo(() => {
-    const set = new Set(workOrdersQuery.data?.map((w) => w.buyer) ?? []);
+    const set = new Set(workOrders.map((w) => w.buyer));
     return Array.from(set).sort();
-  }, [workOrdersQuery.data]);
+  }, [workOrders]);
 
   // Ex-factory deadlines grouped by date (for deadline strip)
   const deadlines: ExFactoryDeadline[] = useMemo(() => {
-    if (!workOrdersQuery.data) return [];
     const byDate = new Map<string, ExFactoryDeadline["workOrders"]>();
-    for (const wo of workOrdersQuery.data) {
+    for (const wo of workOrders) {
       if (!wo.planned_ex_factory) continue;
       const list = byDate.get(wo.planned_ex_factory) ?? [];
       list.push({
@@ -300,17 +619,31 @@ export function useProductionSchedule({ visibleRange, filters }: UseProductionSc
     return Array.from(byDate.entries())
       .map(([date, workOrders]) => ({ date, workOrders }))
       .sort((a, b) => a.date.localeCompare(b.date));
-  }, [workOrdersQuery.data, scheduledWoIds]);
+  }, [workOrders, scheduledWoIds]);
 
   // ── Mutations ────────────────────────────────────────────────────────
 
+  // Writes go to the open scenario's bookings instead of the live schedule
+  const table: ScheduleTable = scenarioId ? "schedule_scenario_entries" : "production_schedule";
+
+  const toRow = <T extends Partial<ScheduleFormData>>(data: T) => {
+    if (!scenarioId || !data.work_order_id) return data;
+    const whatIf = whatIfIds.has(data.work_order_id);
+    return {
+      ...data,
+      work_order_id: whatIf ? null : data.work_order_id,
+      scenario_order_id: whatIf ? data.work_order_id : null,
+    };
+  };
+
+  const newRow = (data: ScheduleFormData) =>
+    scenarioId
+      ? { ...toRow(data), factory_id: factoryId!, scenario_id: scenarioId }
+      : { ...data, factory_id: factoryId!, created_by: profile?.id };
+
   const createSchedule = useMutation({
     mutationFn: async (data: ScheduleFormData) => {
-      const { error } = await supabase.from("production_schedule" as any).insert({
-        ...data,
-        factory_id: factoryId!,
-        created_by: profile?.id,
-      } as any);
+      const { error } = await supabase.from(table).insert(newRow(data));
       if (error) throw error;
     },
     onSuccess: () => {
@@ -325,8 +658,8 @@ export function useProductionSchedule({ visibleRange, filters }: UseProductionSc
   const updateSchedule = useMutation({
     mutationFn: async ({ id, ...data }: ScheduleFormData & { id: string }) => {
       const { error } = await supabase
-        .from("production_schedule" as any)
-        .update(data as any)
+        .from(table)
+        .update(toRow(data))
         .eq("id", id);
       if (error) throw error;
     },
@@ -342,7 +675,7 @@ export function useProductionSchedule({ visibleRange, filters }: UseProductionSc
   const deleteSchedule = useMutation({
     mutationFn: async (id: string) => {
       const { error } = await supabase
-        .from("production_schedule" as any)
+        .from(table)
         .delete()
         .eq("id", id);
       if (error) throw error;
@@ -356,16 +689,62 @@ export function useProductionSchedule({ visibleRange, filters }: UseProductionSc
     },
   });
 
+  const applyPlan = useMutation({
+    mutationFn: async (planRows: ScheduleFormData[]) => {
+      const { error } = await supabase.from(table).insert(planRows.map(newRow));
+      if (error) throw error;
+    },
+    onSuccess: (_d, planRows) => {
+      queryClient.invalidateQueries({ queryKey: ["production_schedule"] });
+      toast.success(`${planRows.length} schedule${planRows.length !== 1 ? "s" : ""} added`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to apply plan: ${err.message}`);
+    },
+  });
+
+  const reforecast = useMutation({
+    mutationFn: async (changes: RescheduledBooking[]) => {
+      const results = await Promise.all(
+        changes.map(({ id, start_date, end_date }) =>
+          supabase
+            .from(table)
+            .update({ start_date, end_date })
+            .eq("id", id)
+        )
+      );
+      const failed = results.find((r) => r.error);
+      if (failed?.error) throw failed.error;
+    },
+    onSuccess: (_d, changes) => {
+      queryClient.invalidateQueries({ queryKey: ["production_schedule"] });
+      const moved = changes.length - 1;
+      toast.success(moved > 0 ? `Re-forecast: ${moved} booking${moved !== 1 ? "s" : ""} pushed back` : "Re-forecast applied");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to re-forecast: ${err.message}`);
+    },
+  });
+
   // ── Return ───────────────────────────────────────────────────────────
 
-  const isLoading = schedulesQuery.isLoading || workOrdersQuery.isLoading || linesQuery.isLoading;
+  const isLoading =
+    schedulesQuery.isLoading || workOrdersQuery.isLoading || linesQuery.isLoading ||
+    (!!scenarioId && (scenarioEntriesQuery.isLoading || scenarioOrdersQuery.isLoading));
 
   return {
     lines: linesQuery.data ?? [],
+    lineManpower: manpowerQuery.data,
+    learningCurves: curves,
+    rampStepsFor,
+    reforecastPlan,
     schedulesByLine,
     visibleSchedules,
     unscheduledPOs,
     schedulesWithDetails,
+    liveSchedulesByLine,
+    livePlanKpis,
+    whatIfOrders: whatIfOrders ?? [],
     deadlines,
     buyers,
     kpis,
@@ -373,5 +752,7 @@ export function useProductionSchedule({ visibleRange, filters }: UseProductionSc
     createSchedule,
     updateSchedule,
     deleteSchedule,
+    applyPlan,
+    reforecast,
   };
 }
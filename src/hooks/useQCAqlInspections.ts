@@ -0,0 +1,424 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  aqlPlanFor,
+  aqlVerdict,
+  countDefects,
+  type AqlLevels,
+  type AqlValue,
+  type DefectCatalogueEntry,
+  type DefectCounts,
+  type DefectSeverity,
+  type InspectionLevel,
+  type SamplingPlan,
+} from "@/lib/aql";
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+type InspectionSelectRow = Omit<
+  PublicTables["qc_aql_inspections"]["Row"],
+  "factory_id" | "created_by" | "updated_at" | "updated_by"
+> & {
+  work_orders: Pick<PublicTables["work_orders"]["Row"], "po_number" | "buyer" | "style"> | null;
+  qc_aql_defects: Pick<PublicTables["qc_aql_defects"]["Row"], "severity" | "quantity">[] | null;
+};
+
+export type AqlInspectionType = "pre_final" | "final";
+export type AqlInspectionStatus = "in_progress" | "submitted";
+export type AqlInspectionResult = "pending" | "pass" | "fail";
+
+export interface AqlInspectionRow {
+  id: string;
+  work_order_id: string;
+  inspection_type: AqlInspectionType;
+  inspection_date: string;
+  lot_qty: number;
+  inspection_level: InspectionLevel;
+  aql_critical: AqlValue;
+  aql_major: AqlValue;
+  aql_minor: AqlValue;
+  code_letter: string;
+  sample_size: number;
+  critical_ac: number;
+  critical_re: number;
+  major_ac: number;
+  major_re: number;
+  minor_ac: number;
+  minor_re: number;
+  result: AqlInspectionResult;
+  status: AqlInspectionStatus;
+  inspector_id: string;
+  submitted_at: string | null;
+  notes: string | null;
+  created_at: string;
+  // joined
+  po_number: string;
+  buyer: string;
+  style: string;
+  inspector_name: string | null;
+  // aggregated
+  defects_found: DefectCounts;
+}
+
+export interface AqlDefect {
+  id: string;
+  inspection_id: string;
+  defect_code: string;
+  defect_name: string;
+  severity: DefectSeverity;
+  quantity: number;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface AqlInspectionDetail extends AqlInspectionRow {
+  factory_id: string;
+  order_qty: number;
+  planned_ex_factory: string | null;
+  defects: AqlDefect[];
+}
+
+export const INSPECTION_TYPE_LABEL: Record<AqlInspectionType, string> = {
+  pre_final: "Pre-final",
+  final: "Final",
+};
+
+const INSPECTION_COLUMNS = `id, work_order_id, inspection_type, inspection_date, lot_qty,
+  inspection_level, aql_critical, aql_major, aql_minor, code_letter, sample_size,
+  critical_ac, critical_re, major_ac, major_re, minor_ac, minor_re,
+  result, status, inspector_id, submitted_at, notes, created_at`;
+
+/** The Ac/Re an inspection was planned with, per defect class */
+export function inspectionPlans(row: AqlInspectionRow): Record<DefectSeverity, SamplingPlan> {
+  return {
+    critical: { aql: row.aql_critical, sampleSize: row.sample_size, ac: row.critical_ac, re: row.critical_re },
+    major: { aql: row.aql_major, sampleSize: row.sample_size, ac: row.major_ac, re: row.major_re },
+    minor: { aql: row.aql_minor, sampleSize: row.sample_size, ac: row.minor_ac, re: row.minor_re },
+  };
+}
+
+function toRow(r: InspectionSelectRow, inspectorNames: Map<string, string | null>): AqlInspectionRow {
+  return {
+    id: r.id,
+    work_order_id: r.work_order_id,
+    inspection_type: r.inspection_type as AqlInspectionType,
+    inspection_date: r.inspection_date,
+    lot_qty: r.lot_qty,
+    inspection_level: r.inspection_level as InspectionLevel,
+    aql_critical: Number(r.aql_critical) as AqlValue,
+    aql_major: Number(r.aql_major) as AqlValue,
+    aql_minor: Number(r.aql_minor) as AqlValue,
+    code_letter: r.code_letter,
+    sample_size: r.sample_size,
+    critical_ac: r.critical_ac,
+    critical_re: r.critical_re,
+    major_ac: r.major_ac,
+    major_re: r.major_re,
+    minor_ac: r.minor_ac,
+    minor_re: r.minor_re,
+    result: r.result as AqlInspectionResult,
+    status: r.status as AqlInspectionStatus,
+    inspector_id: r.inspector_id,
+    submitted_at: r.submitted_at,
+    notes: r.notes,
+    created_at: r.created_at,
+    po_number: r.work_orders?.po_number ?? "",
+    buyer: r.work_orders?.buyer ?? "",
+    style: r.work_orders?.style ?? "",
+    inspector_name: inspectorNames.get(r.inspector_id) ?? null,
+    defects_found: countDefects((r.qc_aql_defects ?? []) as Pick<AqlDefect, "severity" | "quantity">[]),
+  };
+}
+
+async function fetchInspectorNames(ids: string[]): Promise<Map<string, string | null>> {
+  const names = new Map<string, string | null>();
+  const unique = Array.from(new Set(ids.filter(Boolean)));
+  if (unique.length === 0) return names;
+  const { data: profiles } = await supabase
+    .from("profiles")
+    .select("id, full_name")
+    .in("id", unique);
+  for (const p of profiles || []) names.set(p.id, p.full_name);
+  return names;
+}
+
+// ── List hook ───────────────────────────────────────────────────────────
+
+export function useQCAqlInspections(options: { sinceDays?: number } = {}) {
+  const { profile } = useAuth();
+  const sinceDays = options.sinceDays ?? 90;
+  const [rows, setRows] = useState<AqlInspectionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRows = useCallback(async () => {
+    if (!profile?.factory_id) return;
+    setLoading(true);
+    try {
+      const sinceDate = new Date();
+      sinceDate.setDate(sinceDate.getDate() - sinceDays);
+      const sinceStr = sinceDate.toISOString().slice(0, 10);
+
+      const { data } = await supabase
+        .from("qc_aql_inspections")
+        .select(`${INSPECTION_COLUMNS}, work_orders(po_number, buyer, style), qc_aql_defects(severity, quantity)`)
+        .eq("factory_id", profile.factory_id)
+        .gte("inspection_date", sinceStr)
+        .order("inspection_date", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      const inspectorNames = await fetchInspectorNames((data || []).map((r) => r.inspector_id));
+      setRows((data || []).map((r) => toRow(r, inspectorNames)));
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.factory_id, sinceDays]);
+
+  useEffect(() => {
+    if (profile?.factory_id) fetchRows();
+  }, [fetchRows, profile?.factory_id]);
+
+  return { rows, loading, refetch: fetchRows };
+}
+
+// ── Per-PO hook (PO control room, buyer portal) ─────────────────────────
+
+/**
+ * AQL inspections on one PO, newest first. Buyers only ever receive
+ * submitted inspections (RLS), and pass `submittedOnly` so drafts never show.
+ */
+export function usePOAqlInspections(workOrderId: string | undefined, options: { submittedOnly?: boolean } = {}) {
+  const submittedOnly = options.submittedOnly ?? false;
+  const [rows, setRows] = useState<AqlInspectionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!workOrderId) return;
+    let cancelled = false;
+    setLoading(true);
+
+    (async () => {
+      let query = supabase
+        .from("qc_aql_inspections")
+        .select(`${INSPECTION_COLUMNS}, work_orders(po_number, buyer, style), qc_aql_defects(severity, quantity)`)
+        .eq("work_order_id", workOrderId);
+      if (submittedOnly) query = query.eq("status", "submitted");
+      const { data, error } = await query
+        .order("inspection_date", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error loading AQL inspections:", error);
+        setLoading(false);
+        return;
+      }
+      setRows((data || []).map((r) => toRow(r, new Map())));
+      setLoading(false);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workOrderId, submittedOnly]);
+
+  return { rows, loading };
+}
+
+// ── Detail hook ─────────────────────────────────────────────────────────
+
+export function useQCAqlInspection(inspectionId: string | undefined) {
+  const [data, setData] = useState<AqlInspectionDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInspection = useCallback(async () => {
+    if (!inspectionId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data: row, error: iErr } = await supabase
+        .from("qc_aql_inspections")
+        .select(`${INSPECTION_COLUMNS}, factory_id, work_orders(po_number, buyer, style, order_qty, planned_ex_factory)`)
+        .eq("id", inspectionId)
+        .single();
+
+      if (iErr || !row) {
+        setError(iErr?.message ?? "Inspection not found");
+        setData(null);
+        return;
+      }
+
+      const { data: defects } = await supabase
+        .from("qc_aql_defects")
+        .select("id, inspection_id, defect_code, defect_name, severity, quantity, notes, created_at")
+        .eq("inspection_id", inspectionId)
+        .order("created_at");
+
+      const inspectorNames = await fetchInspectorNames([row.inspector_id]);
+      const wo = row.work_orders;
+      const list = (defects as AqlDefect[]) || [];
+      setData({
+        ...toRow({ ...row, qc_aql_defects: list }, inspectorNames),
+        factory_id: row.factory_id,
+        order_qty: wo?.order_qty ?? 0,
+        planned_ex_factory: wo?.planned_ex_factory ?? null,
+        defects: list,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [inspectionId]);
+
+  useEffect(() => {
+    if (inspectionId) fetchInspection();
+  }, [fetchInspection, inspectionId]);
+
+  return { data, loading, error, refetch: fetchInspection };
+}
+
+// ── Mutations ───────────────────────────────────────────────────────────
+
+/** Plan columns for a lot, ready to write to qc_aql_inspections */
+function planColumns(lotQty: number, level: InspectionLevel, aqls: AqlLevels) {
+  const plan = aqlPlanFor(lotQty, level, aqls);
+  return {
+    lot_qty: lotQty,
+    inspection_level: level,
+    aql_critical: aqls.critical,
+    aql_major: aqls.major,
+    aql_minor: aqls.minor,
+    code_letter: plan.codeLetter,
+    sample_size: plan.sampleSize,
+    critical_ac: plan.plans.critical.ac,
+    critical_re: plan.plans.critical.re,
+    major_ac: plan.plans.major.ac,
+    major_re: plan.plans.major.re,
+    minor_ac: plan.plans.minor.ac,
+    minor_re: plan.plans.minor.re,
+  };
+}
+
+export async function startAqlInspection(args: {
+  factoryId: string;
+  workOrderId: string;
+  inspectionType: AqlInspectionType;
+  inspectionDate: string;
+  lotQty: number;
+  level: InspectionLevel;
+  aqls: AqlLevels;
+  inspectorId: string;
+}): Promise<string> {
+  const { data, error } = await supabase
+    .from("qc_aql_inspections")
+    .insert({
+      factory_id: args.factoryId,
+      work_order_id: args.workOrderId,
+      inspection_type: args.inspectionType,
+      inspection_date: args.inspectionDate,
+      inspector_id: args.inspectorId,
+      created_by: args.inspectorId,
+      ...planColumns(args.lotQty, args.level, args.aqls),
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+}
+
+/** Re-plans an in-progress inspection after the lot, level or AQLs change */
+export async function updateAqlPlan(
+  inspectionId: string,
+  args: { lotQty: number; level: InspectionLevel; aqls: AqlLevels },
+  userId: string
+) {
+  const { error } = await supabase
+    .from("qc_aql_inspections")
+    .update({ ...planColumns(args.lotQty, args.level, args.aqls), updated_by: userId })
+    .eq("id", inspectionId);
+  if (error) throw error;
+}
+
+export async function updateAqlNotes(inspectionId: string, notes: string | null, userId: string) {
+  const { error } = await supabase
+    .from("qc_aql_inspections")
+    .update({ notes, updated_by: userId })
+    .eq("id", inspectionId);
+  if (error) throw error;
+}
+
+export async function addAqlDefect(args: {
+  inspectionId: string;
+  defect: DefectCatalogueEntry;
+  quantity: number;
+  notes?: string | null;
+  createdBy: string;
+}) {
+  const { error } = await supabase.from("qc_aql_defects").insert({
+    inspection_id: args.inspectionId,
+    defect_code: args.defect.code,
+    defect_name: args.defect.name,
+    severity: args.defect.severity,
+    quantity: args.quantity,
+    notes: args.notes ?? null,
+    created_by: args.createdBy,
+  });
+  if (error) throw error;
+}
+
+export async function updateAqlDefectQty(defectId: string, quantity: number) {
+  const { error } = await supabase
+    .from("qc_aql_defects")
+    .update({ quantity })
+    .eq("id", defectId);
+  if (error) throw error;
+}
+
+export async function deleteAqlDefect(defectId: string) {
+  const { error } = await supabase
+    .from("qc_aql_defects")
+    .delete()
+    .eq("id", defectId);
+  if (error) throw error;
+}
+
+/** Locks the inspection and records its verdict against the stored plan */
+export async function submitAqlInspection(inspection: AqlInspectionDetail, userId: string) {
+  const { result } = aqlVerdict(inspectionPlans(inspection), countDefects(inspection.defects));
+  const { error } = await supabase
+    .from("qc_aql_inspections")
+    .update({
+      status: "submitted",
+      result,
+      submitted_at: new Date().toISOString(),
+      updated_by: userId,
+    })
+    .eq("id", inspection.id);
+  if (error) throw error;
+  return result;
+}
+
+/** Admin-only. Returns the inspection to the inspector with its verdict cleared. */
+export async function reopenAqlInspection(inspectionId: string, userId: string) {
+  const { error } = await supabase
+    .from("qc_aql_inspections")
+    .update({
+      status: "in_progress",
+      result: "pending",
+      submitted_at: null,
+      updated_by: userId,
+    })
+    .eq("id", inspectionId);
+  if (error) throw error;
+}
+
+/** Admin-only. ON DELETE CASCADE removes the logged defects. */
+export async function deleteAqlInspection(inspectionId: string) {
+  const { error } = await supabase
+    .from("qc_aql_inspections")
+    .delete()
+    .eq("id", inspectionId);
+  if (error) throw error;
+}
@@ -46,8 +46,10 @@ export interface DailySheetItem {
   item_label: string;
   item_guidance: string | null;
   item_order: number;
+  is_required: boolean;
   status: DailyItemStatus;
   notes: string | null;
+  photo_urls: string[];
   updated_by: string | null;
   updated_at: string;
 }
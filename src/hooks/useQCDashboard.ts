@@ -27,6 +27,7 @@ export interface QCIssueRow {
   resolved_by: string | null;
   resolved_at: string | null;
   admin_notes: string | null;
+  photo_urls: string[];
   created_at: string;
   updated_at: string;
   // joined
@@ -138,7 +139,7 @@ export function useQCDashboard() {
             `id, factory_id, source_type, source_record_id, source_item_id,
              work_order_id, line_id, title, description, severity, status,
              raised_by, reviewed_by, reviewed_at, resolved_by, resolved_at,
-             admin_notes, created_at, updated_at,
+             admin_notes, photo_urls, created_at, updated_at,
              work_orders(po_number, buyer, style),
              lines(name, line_id)`
           )
@@ -212,6 +213,7 @@ export function useQCDashboard() {
         resolved_by: r.resolved_by,
         resolved_at: r.resolved_at,
         admin_notes: r.admin_notes,
+        photo_urls: r.photo_urls ?? [],
         created_at: r.created_at,
         updated_at: r.updated_at,
         po_number: r.work_orders?.po_number ?? "",
@@ -0,0 +1,192 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import type { CheckPoint, DefectCheckItemLike, DefectCheckLike, DefectTypeLike } from "@/lib/qc-defects";
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+type CheckSelectRow = Omit<PublicTables["qc_defect_checks"]["Row"], "factory_id" | "updated_at"> & {
+  work_orders: Pick<PublicTables["work_orders"]["Row"], "po_number" | "style"> | null;
+  lines: Pick<PublicTables["lines"]["Row"], "line_id" | "name"> | null;
+  qc_defect_check_items: Omit<PublicTables["qc_defect_check_items"]["Row"], "check_id" | "created_at">[] | null;
+};
+
+export interface DefectCheckItem extends DefectCheckItemLike {
+  id: string;
+  defect_type_id: string | null;
+}
+
+export interface DefectCheckRow extends DefectCheckLike {
+  id: string;
+  check_date: string;
+  shift_id: string | null;
+  hour_slot: string;
+  notes: string | null;
+  checked_by: string;
+  created_at: string;
+  items: DefectCheckItem[];
+  // joined
+  po_number: string;
+  style: string;
+  line_name: string;
+}
+
+export interface DefectCheckInput {
+  hourSlot: string;
+  checkPoint: CheckPoint;
+  operatorName: string | null;
+  piecesChecked: number;
+  notes: string | null;
+  /** Defects found, keyed by catalogue entry; zero counts are dropped */
+  counts: { type: DefectTypeLike & { id: string | null }; quantity: number }[];
+}
+
+const CHECK_SELECT = `id, line_id, work_order_id, check_date, shift_id, hour_slot, check_point,
+  operator_name, pieces_checked, notes, checked_by, created_at,
+  work_orders(po_number, style), lines(line_id, name),
+  qc_defect_check_items(id, defect_type_id, defect_code, defect_name, operation, quantity)`;
+
+function toRow(r: CheckSelectRow): DefectCheckRow {
+  return {
+    id: r.id,
+    line_id: r.line_id,
+    work_order_id: r.work_order_id,
+    check_date: r.check_date,
+    shift_id: r.shift_id,
+    hour_slot: r.hour_slot,
+    check_point: r.check_point as CheckPoint,
+    operator_name: r.operator_name,
+    pieces_checked: r.pieces_checked,
+    notes: r.notes,
+    checked_by: r.checked_by,
+    created_at: r.created_at,
+    items: r.qc_defect_check_items ?? [],
+    po_number: r.work_orders?.po_number ?? "",
+    style: r.work_orders?.style ?? "",
+    line_name: r.lines?.name || r.lines?.line_id || "",
+  };
+}
+
+// ── Factory-wide hook (QC dashboard) ────────────────────────────────────
+
+export function useQCDefectChecks(options: { sinceDays?: number } = {}) {
+  const { profile } = useAuth();
+  const sinceDays = options.sinceDays ?? 30;
+  const [rows, setRows] = useState<DefectCheckRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRows = useCallback(async () => {
+    if (!profile?.factory_id) return;
+    setLoading(true);
+    try {
+      const sinceDate = new Date();
+      sinceDate.setDate(sinceDate.getDate() - sinceDays);
+      const sinceStr = sinceDate.toISOString().slice(0, 10);
+
+      const { data } = await supabase
+        .from("qc_defect_checks")
+        .select(CHECK_SELECT)
+        .eq("factory_id", profile.factory_id)
+        .gte("check_date", sinceStr)
+        .order("check_date", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      setRows((data || []).map(toRow));
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.factory_id, sinceDays]);
+
+  useEffect(() => {
+    if (profile?.factory_id) fetchRows();
+  }, [fetchRows, profile?.factory_id]);
+
+  return { rows, loading, refetch: fetchRows };
+}
+
+// ── Line/PO/day hook (checker board) ────────────────────────────────────
+
+export function useLineDefectChecks(scope: { lineId: string; workOrderId: string; date: string }) {
+  const { lineId, workOrderId, date } = scope;
+  const [rows, setRows] = useState<DefectCheckRow[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchRows = useCallback(async () => {
+    if (!lineId || !workOrderId) {
+      setRows([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const { data } = await supabase
+        .from("qc_defect_checks")
+        .select(CHECK_SELECT)
+        .eq("line_id", lineId)
+        .eq("work_order_id", workOrderId)
+        .eq("check_date", date)
+        .order("created_at");
+
+      setRows((data || []).map(toRow));
+    } finally {
+      setLoading(false);
+    }
+  }, [lineId, workOrderId, date]);
+
+  useEffect(() => {
+    fetchRows();
+  }, [fetchRows]);
+
+  return { rows, loading, refetch: fetchRows };
+}
+
+// ── Mutations ───────────────────────────────────────────────────────────
+
+function itemRows(counts: DefectCheckInput["counts"]) {
+  return counts
+    .filter((c) => c.quantity > 0)
+    .map((c) => ({
+      defect_type_id: c.type.id,
+      defect_code: c.type.code,
+      defect_name: c.type.name,
+      operation: c.type.operation,
+      quantity: c.quantity,
+    }));
+}
+
+/**
+ * Records a check with its defect counts, or rewrites an existing one. The
+ * header and its items are saved together by qc_save_defect_check.
+ */
+export async function saveDefectCheck(args: {
+  id?: string;
+  factoryId: string;
+  lineId: string;
+  workOrderId: string;
+  date: string;
+  shiftId: string | null;
+  input: DefectCheckInput;
+}) {
+  const { input } = args;
+  const { error } = await supabase.rpc("qc_save_defect_check", {
+    p_check_id: args.id,
+    p_factory_id: args.factoryId,
+    p_line_id: args.lineId,
+    p_work_order_id: args.workOrderId,
+    p_check_date: args.date,
+    p_shift_id: args.shiftId ?? undefined,
+    p_hour_slot: input.hourSlot,
+    p_check_point: input.checkPoint,
+    p_operator_name: input.operatorName ?? undefined,
+    p_pieces_checked: input.piecesChecked,
+    p_notes: input.notes ?? undefined,
+    p_items: itemRows(input.counts),
+  });
+  if (error) throw error;
+}
+
+export async function deleteDefectCheck(checkId: string) {
+  const { error } = await supabase.from("qc_defect_checks").delete().eq("id", checkId);
+  if (error) throw error;
+}
@@ -0,0 +1,379 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import { pointsForSize, type MeasuredPoint, type MeasureUnit, type SpecPoint } from "@/lib/measurements";
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+type SheetColumns = Pick<
+  PublicTables["qc_spec_sheets"]["Row"],
+  "id" | "style" | "buyer" | "name" | "unit" | "sizes" | "notes" | "is_active" | "created_at" | "updated_at"
+>;
+type SpecPointColumns = Pick<
+  PublicTables["qc_spec_points"]["Row"],
+  "code" | "name" | "tol_minus" | "tol_plus" | "specs" | "sort_order"
+>;
+type CheckSelectRow = Omit<PublicTables["qc_measurement_checks"]["Row"], "factory_id" | "updated_at"> & {
+  qc_measurement_points: Omit<PublicTables["qc_measurement_points"]["Row"], "check_id" | "updated_at">[];
+};
+
+/** Where a measurement check is attached — same polymorphic source as qc_issues */
+export type MeasurementSource = "daily_sheet" | "order_tracker";
+
+export interface SpecSheetRow {
+  id: string;
+  style: string;
+  buyer: string | null;
+  name: string;
+  unit: MeasureUnit;
+  sizes: string[];
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  // aggregated
+  points_count: number;
+}
+
+export interface SpecSheetPoint extends SpecPoint {
+  id: string;
+  sort_order: number;
+}
+
+export interface SpecSheetDetail extends SpecSheetRow {
+  factory_id: string;
+  points: SpecSheetPoint[];
+}
+
+export interface SpecSheetInput {
+  style: string;
+  buyer: string | null;
+  name: string;
+  unit: MeasureUnit;
+  sizes: string[];
+  notes: string | null;
+  is_active: boolean;
+}
+
+export interface MeasurementPointRow extends MeasuredPoint {
+  id: string;
+  sort_order: number;
+}
+
+export interface MeasurementCheckRow {
+  id: string;
+  work_order_id: string;
+  source_type: MeasurementSource;
+  source_record_id: string;
+  spec_sheet_id: string | null;
+  spec_name: string;
+  unit: MeasureUnit;
+  size: string;
+  colour: string | null;
+  sample_count: number;
+  notes: string | null;
+  inspector_id: string;
+  created_at: string;
+  points: MeasurementPointRow[];
+}
+
+const SHEET_COLUMNS = "id, style, buyer, name, unit, sizes, notes, is_active, created_at, updated_at";
+
+const CHECK_SELECT = `id, work_order_id, source_type, source_record_id, spec_sheet_id, spec_name, unit,
+  size, colour, sample_count, notes, inspector_id, created_at,
+  qc_measurement_points(id, code, name, spec, tol_minus, tol_plus, sort_order, measured)`;
+
+/** specs JSONB → {size: value}, dropping anything that isn't a number */
+function toSpecs(value: unknown): Record<string, number> {
+  const specs: Record<string, number> = {};
+  if (!value || typeof value !== "object" || Array.isArray(value)) return specs;
+  for (const [size, v] of Object.entries(value as Record<string, unknown>)) {
+    const n = typeof v === "number" ? v : typeof v === "string" && v.trim() ? Number(v) : NaN;
+    if (Number.isFinite(n)) specs[size] = n;
+  }
+  return specs;
+}
+
+function toSpecPoint(p: SpecPointColumns): SpecPoint {
+  return {
+    code: p.code,
+    name: p.name,
+    tol_minus: Number(p.tol_minus),
+    tol_plus: Number(p.tol_plus),
+    specs: toSpecs(p.specs),
+  };
+}
+
+function toSheetRow(r: SheetColumns, pointsCount: number): SpecSheetRow {
+  return {
+    id: r.id,
+    style: r.style,
+    buyer: r.buyer,
+    name: r.name,
+    unit: r.unit as MeasureUnit,
+    sizes: r.sizes ?? [],
+    notes: r.notes,
+    is_active: r.is_active,
+    created_at: r.created_at,
+    updated_at: r.updated_at,
+    points_count: pointsCount,
+  };
+}
+
+function toCheckRow(r: CheckSelectRow): MeasurementCheckRow {
+  const points: MeasurementPointRow[] = (r.qc_measurement_points ?? [])
+    .map((p) => ({
+      id: p.id,
+      code: p.code,
+      name: p.name,
+      spec: Number(p.spec),
+      tol_minus: Number(p.tol_minus),
+      tol_plus: Number(p.tol_plus),
+      sort_order: p.sort_order,
+      // Pad to the sample count so the grid always has a cell per sample
+      measured: Array.from({ length: r.sample_count }, (_, i) =>
+        p.measured?.[i] == null ? null : Number(p.measured[i])
+      ),
+    }))
+    .sort((a, b) => a.sort_order - b.sort_order);
+  return {
+    id: r.id,
+    work_order_id: r.work_order_id,
+    source_type: r.source_type as MeasurementSource,
+    source_record_id: r.source_record_id,
+    spec_sheet_id: r.spec_sheet_id,
+    spec_name: r.spec_name,
+    unit: r.unit as MeasureUnit,
+    size: r.size,
+    colour: r.colour,
+    sample_count: r.sample_count,
+    notes: r.notes,
+    inspector_id: r.inspector_id,
+    created_at: r.created_at,
+    points,
+  };
+}
+
+/** Checks attached to one sheet / tracker, oldest first */
+async function fetchMeasurementChecks(sourceType: MeasurementSource, sourceId: string) {
+  const { data, error } = await supabase
+    .from("qc_measurement_checks")
+    .select(CHECK_SELECT)
+    .eq("source_type", sourceType)
+    .eq("source_record_id", sourceId)
+    .order("created_at");
+  if (error) throw error;
+  return (data || []).map(toCheckRow);
+}
+
+// ── Spec sheets ─────────────────────────────────────────────────────────
+
+export function useQCSpecSheets() {
+  const { profile } = useAuth();
+  const [rows, setRows] = useState<SpecSheetRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRows = useCallback(async () => {
+    if (!profile?.factory_id) return;
+    setLoading(true);
+    try {
+      const { data } = await supabase
+        .from("qc_spec_sheets")
+        .select(`${SHEET_COLUMNS}, qc_spec_points(count)`)
+        .eq("factory_id", profile.factory_id)
+        .order("style")
+        .order("name");
+
+      setRows((data || []).map((r) => toSheetRow(r, r.qc_spec_points[0]?.count ?? 0)));
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.factory_id]);
+
+  useEffect(() => {
+    if (profile?.factory_id) fetchRows();
+  }, [fetchRows, profile?.factory_id]);
+
+  return { rows, loading, refetch: fetchRows };
+}
+
+export function useQCSpecSheet(specId: string | undefined) {
+  const [data, setData] = useState<SpecSheetDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSheet = useCallback(async () => {
+    if (!specId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data: row, error: sErr } = await supabase
+        .from("qc_spec_sheets")
+        .select(`${SHEET_COLUMNS}, factory_id, qc_spec_points(id, code, name, tol_minus, tol_plus, specs, sort_order)`)
+        .eq("id", specId)
+        .single();
+
+      if (sErr || !row) {
+        setError(sErr?.message ?? "Spec sheet not found");
+        setData(null);
+        return;
+      }
+
+      const points: SpecSheetPoint[] = (row.qc_spec_points ?? [])
+        .map((p) => ({ ...toSpecPoint(p), id: p.id, sort_order: p.sort_order }))
+        .sort((a, b) => a.sort_order - b.sort_order);
+
+      setData({ ...toSheetRow(row, points.length), factory_id: row.factory_id, points });
+    } finally {
+      setLoading(false);
+    }
+  }, [specId]);
+
+  useEffect(() => {
+    if (specId) fetchSheet();
+  }, [fetchSheet, specId]);
+
+  return { data, loading, error, refetch: fetchSheet };
+}
+
+/**
+ * Creates a spec sheet or rewrites an existing one. Points are replaced
+ * wholesale — checks already taken keep their own snapshot.
+ */
+export async function saveSpecSheet(args: {
+  id?: string;
+  factoryId: string;
+  input: SpecSheetInput;
+  points: SpecPoint[];
+}): Promise<string> {
+  const { input } = args;
+  const { data, error } = await supabase.rpc("qc_save_spec_sheet", {
+    p_factory_id: args.factoryId,
+    p_style: input.style,
+    p_buyer: input.buyer ?? undefined,
+    p_name: input.name,
+    p_unit: input.unit,
+    p_sizes: input.sizes,
+    p_notes: input.notes ?? undefined,
+    p_is_active: input.is_active,
+    p_points: args.points.map(({ code, name, tol_minus, tol_plus, specs }) => ({ code, name, tol_minus, tol_plus, specs })),
+    p_sheet_id: args.id,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function setSpecSheetActive(specId: string, isActive: boolean) {
+  const { error } = await supabase.from("qc_spec_sheets").update({ is_active: isActive }).eq("id", specId);
+  if (error) throw error;
+}
+
+export async function deleteSpecSheet(specId: string) {
+  const { error } = await supabase.from("qc_spec_sheets").delete().eq("id", specId);
+  if (error) throw error;
+}
+
+// ── Measurement checks ──────────────────────────────────────────────────
+
+export function useQCMeasurementChecks(sourceType: MeasurementSource, sourceId: string | undefined) {
+  const [rows, setRows] = useState<MeasurementCheckRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRows = useCallback(async () => {
+    if (!sourceId) return;
+    setLoading(true);
+    try {
+      setRows(await fetchMeasurementChecks(sourceType, sourceId));
+    } catch {
+      setRows([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [sourceType, sourceId]);
+
+  useEffect(() => {
+    if (sourceId) fetchRows();
+  }, [fetchRows, sourceId]);
+
+  return { rows, loading, refetch: fetchRows };
+}
+
+/** Starts a check by snapshotting the spec sheet's points for one size */
+export async function startMeasurementCheck(args: {
+  factoryId: string;
+  workOrderId: string;
+  sourceType: MeasurementSource;
+  sourceId: string;
+  specSheetId: string;
+  size: string;
+  colour: string | null;
+  sampleCount: number;
+  userId: string;
+}) {
+  const { data: sheet, error: sErr } = await supabase
+    .from("qc_spec_sheets")
+    .select("name, unit, qc_spec_points(code, name, tol_minus, tol_plus, specs, sort_order)")
+    .eq("id", args.specSheetId)
+    .single();
+  if (sErr || !sheet) throw sErr ?? new Error("Spec sheet not found");
+
+  const specPoints: SpecPoint[] = [...(sheet.qc_spec_points ?? [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(toSpecPoint);
+  const points = pointsForSize(specPoints, args.size, args.sampleCount);
+  if (points.length === 0) throw new Error(`The spec sheet has no measurements for size ${args.size}.`);
+
+  const { data: check, error } = await supabase
+    .from("qc_measurement_checks")
+    .insert({
+      factory_id: args.factoryId,
+      work_order_id: args.workOrderId,
+      source_type: args.sourceType,
+      source_record_id: args.sourceId,
+      spec_sheet_id: args.specSheetId,
+      spec_name: sheet.name,
+      unit: sheet.unit,
+      size: args.size,
+      colour: args.colour?.trim() || null,
+      sample_count: args.sampleCount,
+      inspector_id: args.userId,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  const { error: pErr } = await supabase.from("qc_measurement_points").insert(
+    points.map((p, idx) => ({
+      check_id: check.id,
+      code: p.code,
+      name: p.name,
+      spec: p.spec,
+      tol_minus: p.tol_minus,
+      tol_plus: p.tol_plus,
+      sort_order: idx + 1,
+      measured: p.measured as number[],
+    }))
+  );
+  if (pErr) {
+    // Don't leave an empty check behind
+    await supabase.from("qc_measurement_checks").delete().eq("id", check.id);
+    throw pErr;
+  }
+  return check.id;
+}
+
+/** Writes every sample's reading for one point; nulls are samples not measured yet */
+export async function updateMeasuredValues(pointId: string, measured: (number | null)[]) {
+  const { error } = await supabase
+    .from("qc_measurement_points")
+    .update({ measured: measured as number[] })
+    .eq("id", pointId);
+  if (error) throw error;
+}
+
+export async function deleteMeasurementCheck(checkId: string) {
+  const { error } = await supabase.from("qc_measurement_checks").delete().eq("id", checkId);
+  if (error) throw error;
+}
@@ -49,9 +49,11 @@ export interface OrderTrackerItem {
   item_label: string;
   item_guidance: string | null;
   item_order: number;
+  is_required: boolean;
   status: "pending" | "done" | "issue" | "na";
   target_date: string | null;
   notes: string | null;
+  photo_urls: string[];
   updated_by: string | null;
   updated_at: string;
 }
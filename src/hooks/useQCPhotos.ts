@@ -0,0 +1,83 @@
+/**
+ * Adds photo evidence to QC items and issues. Online, photos upload straight
+ * to storage and are appended with qc_add_photos; offline (or when the
+ * connection drops mid-upload) the call is queued with its photos and
+ * replayed by the offline queue.
+ */
+
+import { useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useNetworkStatus } from "./useNetworkStatus";
+import { isNetworkError } from "@/lib/network-utils";
+import { attachmentPath, newSubmissionId, queueRpcSubmission, uploadBlob } from "@/lib/offline-queue";
+import { QC_PHOTOS_BUCKET, type PhotoTarget } from "@/lib/qc-photos";
+
+export interface AddPhotosResult {
+  /** True when the photos were queued to sync later */
+  queued: boolean;
+  /** Public URLs of the uploaded photos; empty when queued */
+  urls: string[];
+}
+
+export function useQCPhotos() {
+  const { user, profile } = useAuth();
+  const { isOnline } = useNetworkStatus();
+
+  const addPhotos = useCallback(
+    async (target: PhotoTarget, targetId: string, files: File[]): Promise<AddPhotosResult> => {
+      const factoryId = profile?.factory_id;
+      if (!user?.id || !factoryId) throw new Error("User not authenticated or no factory assigned");
+
+      // Shared by the direct upload and the queued replay so a retried photo
+      // lands on the same storage path
+      const submissionId = newSubmissionId();
+
+      const queue = async () => {
+        await queueRpcSubmission(
+          "qc_photos",
+          "qc_add_photos",
+          { p_target: target, p_id: targetId, p_urls: [] },
+          factoryId,
+          user.id,
+          [{ field: "p_urls", bucket: QC_PHOTOS_BUCKET, files }],
+          submissionId
+        );
+        return { queued: true, urls: [] };
+      };
+
+      if (!isOnline) return queue();
+
+      let urls: string[];
+      try {
+        urls = [];
+        for (const [index, file] of files.entries()) {
+          urls.push(
+            await uploadBlob(QC_PHOTOS_BUCKET, attachmentPath(factoryId, submissionId, "p_urls", index, file), file)
+          );
+        }
+      } catch (err) {
+        // Connection dropped mid-upload — the queued replay re-uploads over the
+        // same paths. Anything else (denied, too large, wrong type) would only
+        // fail again on replay, so it goes back to the inspector.
+        if (isNetworkError(err)) return queue();
+        throw err;
+      }
+
+      const { error } = await supabase.rpc("qc_add_photos", { p_target: target, p_id: targetId, p_urls: urls });
+      if (error) {
+        if (isNetworkError(error)) return queue();
+        throw error;
+      }
+      return { queued: false, urls };
+    },
+    [user?.id, profile?.factory_id, isOnline]
+  );
+
+  return { addPhotos, isOnline };
+}
+
+export async function removeQCPhoto(target: PhotoTarget, targetId: string, url: string) {
+  const { error } = await supabase.rpc("qc_remove_photo", { p_target: target, p_id: targetId, p_url: url });
+  if (error) throw error;
+}
@@ -0,0 +1,311 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { TemplateItemLike, TemplateKind, TemplateStatus } from "@/lib/qc-templates";
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+export interface TemplateRow {
+  id: string;
+  factory_id: string | null;
+  family_id: string;
+  kind: TemplateKind;
+  name: string;
+  buyer: string | null;
+  version: number;
+  status: TemplateStatus;
+  is_active: boolean;
+  change_note: string | null;
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+  // aggregated
+  items_count: number;
+  /** Sheets / trackers on this version that aren't signed off yet */
+  open_records: number;
+}
+
+/** Every version of one template, newest first */
+export interface TemplateFamily {
+  family_id: string;
+  name: string;
+  buyer: string | null;
+  /** Built-in templates are shared by all factories and can only be customised, not edited */
+  builtIn: boolean;
+  live: TemplateRow | null;
+  draft: TemplateRow | null;
+  versions: TemplateRow[];
+}
+
+export interface TemplateDetail extends Omit<TemplateRow, "items_count" | "open_records"> {
+  items: TemplateItemLike[];
+  /** For a draft: the live version it will replace, if any */
+  previous: { version: number; items: TemplateItemLike[] } | null;
+}
+
+export interface TemplateHeaderInput {
+  name: string;
+  buyer: string | null;
+  change_note: string | null;
+}
+
+const TEMPLATE_COLUMNS =
+  "id, factory_id, family_id, kind, name, buyer, version, status, is_active, change_note, published_at, created_at, updated_at";
+
+const ITEM_COLUMNS = "section_label, section_order, item_code, item_label, item_guidance, item_order, is_required";
+
+const RECORD_TABLE: Record<TemplateKind, "qc_daily_sheets" | "qc_order_trackers"> = {
+  daily_qc: "qc_daily_sheets",
+  order_manager: "qc_order_trackers",
+};
+
+/** Groups versions by family. Live families first, buyer-specific after the general one. */
+function groupFamilies(rows: TemplateRow[]): TemplateFamily[] {
+  const map = new Map<string, TemplateRow[]>();
+  for (const r of rows) {
+    const list = map.get(r.family_id) ?? [];
+    list.push(r);
+    map.set(r.family_id, list);
+  }
+
+  const families = [...map.values()].map((versions) => {
+    versions.sort((a, b) => b.version - a.version);
+    const head = versions.find((v) => v.status === "draft") ?? versions.find((v) => v.is_active) ?? versions[0];
+    return {
+      family_id: head.family_id,
+      name: head.name,
+      buyer: head.buyer,
+      builtIn: head.factory_id === null,
+      live: versions.find((v) => v.is_active) ?? null,
+      draft: versions.find((v) => v.status === "draft") ?? null,
+      versions,
+    };
+  });
+
+  return families.sort(
+    (a, b) =>
+      Number(!a.live) - Number(!b.live) ||
+      Number(a.builtIn) - Number(b.builtIn) ||
+      Number(!!a.buyer) - Number(!!b.buyer) ||
+      (a.buyer ?? "").localeCompare(b.buyer ?? "") ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+// ── Template list ───────────────────────────────────────────────────────
+
+export function useQCTemplates(kind: TemplateKind) {
+  const { profile } = useAuth();
+  const [rows, setRows] = useState<TemplateFamily[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRows = useCallback(async () => {
+    if (!profile?.factory_id) return;
+    setLoading(true);
+    try {
+      const { data: templates } = await supabase
+        .from("qc_checklist_templates")
+        .select(`${TEMPLATE_COLUMNS}, qc_checklist_template_items(count)`)
+        .eq("kind", kind)
+        .or(`factory_id.eq.${profile.factory_id},factory_id.is.null`)
+        .order("version", { ascending: false });
+
+      const { data: records } = await supabase
+        .from(RECORD_TABLE[kind])
+        .select("template_id")
+        .eq("factory_id", profile.factory_id)
+        .neq("status", "signed_off");
+
+      const open = new Map<string, number>();
+      for (const r of records || []) open.set(r.template_id, (open.get(r.template_id) ?? 0) + 1);
+
+      setRows(
+        groupFamilies(
+          (templates || []).map((t) => ({
+            id: t.id,
+            factory_id: t.factory_id,
+            family_id: t.family_id,
+            kind: t.kind as TemplateKind,
+            name: t.name,
+            buyer: t.buyer,
+            version: t.version,
+            status: t.status as TemplateStatus,
+            is_active: t.is_active,
+            change_note: t.change_note,
+            published_at: t.published_at,
+            created_at: t.created_at,
+            updated_at: t.updated_at,
+            items_count: t.qc_checklist_template_items?.[0]?.count ?? 0,
+            open_records: open.get(t.id) ?? 0,
+          }))
+        )
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [profile?.factory_id, kind]);
+
+  useEffect(() => {
+    if (profile?.factory_id) fetchRows();
+  }, [fetchRows, profile?.factory_id]);
+
+  return { rows, loading, refetch: fetchRows };
+}
+
+// ── Single version ──────────────────────────────────────────────────────
+
+export function useQCTemplate(templateId: string | undefined) {
+  const [data, setData] = useState<TemplateDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTemplate = useCallback(async () => {
+    if (!templateId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { data: row, error: tErr } = await supabase
+        .from("qc_checklist_templates")
+        .select(`${TEMPLATE_COLUMNS}, qc_checklist_template_items(${ITEM_COLUMNS})`)
+        .eq("id", templateId)
+        .single();
+
+      if (tErr || !row) {
+        setError(tErr?.message ?? "Template not found");
+        setData(null);
+        return;
+      }
+
+      let previous: TemplateDetail["previous"] = null;
+      if (row.status === "draft") {
+        const { data: live } = await supabase
+          .from("qc_checklist_templates")
+          .select(`version, qc_checklist_template_items(${ITEM_COLUMNS})`)
+          .eq("family_id", row.family_id)
+          .eq("is_active", true)
+          .maybeSingle();
+        if (live) previous = { version: live.version, items: live.qc_checklist_template_items ?? [] };
+      }
+
+      const { qc_checklist_template_items: items, ...rest } = row;
+      setData({
+        ...rest,
+        kind: rest.kind as TemplateKind,
+        status: rest.status as TemplateStatus,
+        items: items ?? [],
+        previous,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    if (templateId) fetchTemplate();
+  }, [fetchTemplate, templateId]);
+
+  return { data, loading, error, refetch: fetchTemplate };
+}
+
+// ── Mutations ───────────────────────────────────────────────────────────
+
+/**
+ * Opens a draft copied from `sourceId`. By default the draft is the next
+ * version of the same template, and an existing draft is reused. A built-in
+ * template, or `newFamily` (cloning for a buyer), starts a factory-owned
+ * template at version 1 instead. Returns the draft's id.
+ */
+export async function createTemplateDraft(args: {
+  sourceId: string;
+  factoryId: string;
+  userId: string;
+  newFamily?: { name: string; buyer: string | null };
+}): Promise<string> {
+  const { data: source, error: sErr } = await supabase
+    .from("qc_checklist_templates")
+    .select(`${TEMPLATE_COLUMNS}, qc_checklist_template_items(${ITEM_COLUMNS})`)
+    .eq("id", args.sourceId)
+    .single();
+  if (sErr) throw sErr;
+
+  const fork = !!args.newFamily || source.factory_id === null;
+  let familyId: string | undefined;
+  let version = 1;
+
+  if (!fork) {
+    const { data: versions, error } = await supabase
+      .from("qc_checklist_templates")
+      .select("id, version, status")
+      .eq("family_id", source.family_id);
+    if (error) throw error;
+    const draft = (versions || []).find((v) => v.status === "draft");
+    if (draft) return draft.id;
+    familyId = source.family_id;
+    version = Math.max(0, ...(versions || []).map((v) => v.version)) + 1;
+  }
+
+  const { data: created, error: cErr } = await supabase
+    .from("qc_checklist_templates")
+    .insert({
+      factory_id: args.factoryId,
+      family_id: familyId,
+      kind: source.kind,
+      name: args.newFamily?.name.trim() || source.name,
+      buyer: args.newFamily ? args.newFamily.buyer?.trim() || null : source.buyer,
+      version,
+      status: "draft",
+      is_active: false,
+      created_by: args.userId,
+    })
+    .select("id")
+    .single();
+  if (cErr) throw cErr;
+
+  const items = source.qc_checklist_template_items ?? [];
+  if (items.length > 0) {
+    const { error } = await supabase
+      .from("qc_checklist_template_items")
+      .insert(items.map((it) => ({ ...it, template_id: created.id })));
+    if (error) throw error;
+  }
+  return created.id;
+}
+
+/** Saves a draft's header and replaces its items wholesale, in one transaction. */
+export async function saveTemplateDraft(templateId: string, header: TemplateHeaderInput, items: TemplateItemLike[]) {
+  const { error } = await supabase.rpc("qc_save_template_draft", {
+    p_template_id: templateId,
+    p_name: header.name,
+    p_buyer: header.buyer ?? undefined,
+    p_change_note: header.change_note ?? undefined,
+    p_items: items.map((it) => ({ ...it })),
+  });
+  if (error) throw error;
+}
+
+/** Makes a draft the live version; sheets and trackers already started keep theirs. */
+export async function publishTemplate(templateId: string, changeNote: string | null) {
+  const { error } = await supabase.rpc("qc_publish_template", {
+    p_template_id: templateId,
+    p_change_note: changeNote ?? undefined,
+  });
+  if (error) throw error;
+}
+
+export async function discardTemplateDraft(templateId: string) {
+  const { error } = await supabase
+    .from("qc_checklist_templates")
+    .delete()
+    .eq("id", templateId)
+    .eq("status", "draft");
+  if (error) throw error;
+}
+
+/** Takes a template out of use — new records fall back to the general (or built-in) template. */
+export async function retireTemplate(templateId: string) {
+  const { error } = await supabase
+    .from("qc_checklist_templates")
+    .update({ status: "archived", is_active: false })
+    .eq("id", templateId);
+  if (error) throw error;
+}
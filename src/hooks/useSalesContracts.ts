@@ -0,0 +1,345 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database, Json } from "@/integrations/supabase/types";
+import {
+  CONTRACT_DOCUMENTS_BUCKET,
+  contractPosition,
+  contractTotals,
+  diffContract,
+  type ContractPosition,
+  type ContractStatus,
+} from "@/lib/sales-contract";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+
+export type SalesContract = PublicTables["sales_contracts"]["Row"];
+export type SalesContractItem = PublicTables["sales_contract_items"]["Row"];
+export type SalesContractAmendment = PublicTables["sales_contract_amendments"]["Row"];
+export type SalesContractDocument = PublicTables["sales_contract_documents"]["Row"];
+
+export type ContractHeader = Omit<
+  PublicTables["sales_contracts"]["Insert"],
+  "id" | "factory_id" | "created_by" | "created_at" | "updated_at" | "status" | "total_quantity" | "total_value"
+>;
+
+/** An editable item; `id` is kept for rows that already exist so amendments can diff them. */
+export type ContractItemDraft = Omit<PublicTables["sales_contract_items"]["Insert"], "contract_id" | "created_at" | "sort_order">;
+
+export interface ContractListItem extends SalesContract {
+  position: ContractPosition;
+  amendmentCount: number;
+}
+
+export interface ContractWorkOrderOption {
+  id: string;
+  po_number: string;
+  buyer: string;
+  style: string;
+  style_number: string | null;
+  color: string | null;
+  hs_code: string | null;
+  order_qty: number;
+  selling_price: number | null;
+  planned_ex_factory: string | null;
+  style_order_id: string | null;
+}
+
+/** Approved dispatch quantity per work order. */
+async function fetchShippedByWorkOrder(workOrderIds: string[]): Promise<Record<string, number>> {
+  if (workOrderIds.length === 0) return {};
+  const { data, error } = await supabase
+    .from("dispatch_requests")
+    .select("work_order_id, dispatch_quantity")
+    .eq("status", "approved")
+    .in("work_order_id", workOrderIds);
+  if (error) throw error;
+  const shipped: Record<string, number> = {};
+  for (const d of data ?? []) {
+    if (!d.work_order_id) continue;
+    shipped[d.work_order_id] = (shipped[d.work_order_id] ?? 0) + (d.dispatch_quantity || 0);
+  }
+  return shipped;
+}
+
+// ── List hook ──────────────────────────────────────────────────────────
+
+export function useSalesContracts() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["sales_contracts", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sales_contracts")
+        .select("*, sales_contract_items(id, work_order_id, quantity, unit_price, subtotal_value, sort_order), sales_contract_amendments(id)")
+        .eq("factory_id", factoryId!)
+        .order("contract_date", { ascending: false });
+      if (error) throw error;
+      const rows = data ?? [];
+      const woIds = Array.from(
+        new Set(rows.flatMap((c) => c.sales_contract_items.map((i) => i.work_order_id)).filter((id): id is string => !!id)),
+      );
+      return { rows, shipped: await fetchShippedByWorkOrder(woIds) };
+    },
+    enabled: !!factoryId,
+  });
+
+  const listData = query.data;
+  const contracts: ContractListItem[] = useMemo(() => {
+    if (!listData) return [];
+    return listData.rows.map(({ sales_contract_items, sales_contract_amendments, ...c }) => ({
+      ...c,
+      position: contractPosition(sales_contract_items, listData.shipped, c.tolerance_pct),
+      amendmentCount: sales_contract_amendments.length,
+    }));
+  }, [listData]);
+
+  return {
+    contracts,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+// ── Detail hook ────────────────────────────────────────────────────────
+
+export function useSalesContract(contractId: string | undefined) {
+  const { profile } = useAuth();
+
+  const query = useQuery({
+    queryKey: ["sales_contract", contractId],
+    queryFn: async () => {
+      const [cRes, itemRes, amendRes, docRes, lcRes] = await Promise.all([
+        supabase.from("sales_contracts").select("*").eq("id", contractId!).single(),
+        supabase.from("sales_contract_items").select("*").eq("contract_id", contractId!).order("sort_order"),
+        supabase.from("sales_contract_amendments").select("*").eq("contract_id", contractId!).order("amendment_number", { ascending: false }),
+        supabase.from("sales_contract_documents").select("*").eq("contract_id", contractId!).order("created_at", { ascending: false }),
+        supabase.from("master_lcs").select("id, lc_number, lc_value, currency, expiry_date").eq("contract_id", contractId!),
+      ]);
+      if (cRes.error) throw cRes.error;
+      for (const r of [itemRes, amendRes, docRes, lcRes]) {
+        if (r.error) throw r.error;
+      }
+      const items = itemRes.data ?? [];
+      const woIds = items.map((i) => i.work_order_id).filter((id): id is string => !!id);
+      return {
+        contract: cRes.data,
+        items,
+        amendments: amendRes.data ?? [],
+        documents: docRes.data ?? [],
+        lcs: lcRes.data ?? [],
+        shipped: await fetchShippedByWorkOrder(woIds),
+      };
+    },
+    enabled: !!contractId && !!profile?.factory_id,
+  });
+
+  const data = query.data;
+  const position = useMemo(
+    () => (data ? contractPosition(data.items, data.shipped, data.contract.tolerance_pct) : null),
+    [data],
+  );
+
+  return {
+    detail: data ?? null,
+    position,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+/** Active POs with the fields a contract item copies. */
+export function useContractWorkOrders() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["work_orders_contract_options", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("work_orders")
+        .select("id, po_number, buyer, style, style_number, color, hs_code, order_qty, selling_price, planned_ex_factory, style_order_id")
+        .eq("factory_id", factoryId!)
+        .eq("is_active", true)
+        .order("po_number");
+      if (error) throw error;
+      return (data ?? []) as ContractWorkOrderOption[];
+    },
+    enabled: !!factoryId,
+  });
+
+  return {
+    workOrders: query.data ?? [],
+  };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useSalesContractMutations() {
+  const { profile } = useAuth();
+  const queryClient = useQueryClient();
+  const factoryId = profile?.factory_id;
+
+  const invalidate = (contractId?: string) => {
+    queryClient.invalidateQueries({ queryKey: ["sales_contracts"] });
+    queryClient.invalidateQueries({ queryKey: ["sales_contracts_lc_options"] });
+    if (contractId) queryClient.invalidateQueries({ queryKey: ["sales_contract", contractId] });
+  };
+
+  const createContract = useMutation({
+    mutationFn: async ({ header, items }: { header: ContractHeader; items: ContractItemDraft[] }) => {
+      const { data, error } = await supabase.rpc("create_sales_contract", {
+        p_header: { ...header, ...contractTotals(items) },
+        p_items: items,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (id) => {
+      invalidate(id);
+      toast.success("Sales contract created");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to create contract: ${err.message}`);
+    },
+  });
+
+  /**
+   * Saves header and items in one transaction. Edits to a contract that is no
+   * longer a draft are recorded as the next amendment with a diff of what
+   * changed; the server assigns its number.
+   */
+  const saveContract = useMutation({
+    mutationFn: async ({
+      contract,
+      savedItems,
+      header,
+      items,
+      amendment,
+    }: {
+      contract: SalesContract;
+      savedItems: SalesContractItem[];
+      header: ContractHeader;
+      items: ContractItemDraft[];
+      amendment?: { date: string; description: string };
+    }) => {
+      const changes = amendment
+        ? diffContract({ header: contract, items: savedItems }, { header: { ...contract, ...header }, items })
+        : null;
+      const { data, error } = await supabase.rpc("save_sales_contract", {
+        p_contract_id: contract.id,
+        p_header: { ...header, ...contractTotals(items) },
+        p_items: items,
+        p_amendment: amendment
+          ? { amendment_date: amendment.date, description: amendment.description, changes: changes as unknown as Json }
+          : undefined,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (amendmentNumber, vars) => {
+      invalidate(vars.contract.id);
+      toast.success(amendmentNumber ? `Amendment #${amendmentNumber} recorded` : "Contract saved");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save contract: ${err.message}`);
+    },
+  });
+
+  const setStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: ContractStatus }) => {
+      const { error } = await supabase.from("sales_contracts").update({ status }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_d, vars) => {
+      invalidate(vars.id);
+      toast.success("Contract status updated");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to update contract: ${err.message}`);
+    },
+  });
+
+  const deleteContract = useMutation({
+    mutationFn: async (id: string) => {
+      const { data: docs } = await supabase.from("sales_contract_documents").select("file_url").eq("contract_id", id);
+      const { error } = await supabase.from("sales_contracts").delete().eq("id", id).eq("status", "draft");
+      if (error) throw error;
+      const paths = (docs ?? []).map((d) => d.file_url);
+      if (paths.length > 0) await supabase.storage.from(CONTRACT_DOCUMENTS_BUCKET).remove(paths);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Contract deleted");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to delete contract: ${err.message}`);
+    },
+  });
+
+  const uploadDocument = useMutation({
+    mutationFn: async ({ contractId, file }: { contractId: string; file: File }) => {
+      const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
+      const path = `${factoryId}/${contractId}/${Date.now()}_${safeName}`;
+      const { error: uploadError } = await supabase.storage.from(CONTRACT_DOCUMENTS_BUCKET).upload(path, file, { upsert: false });
+      if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+
+      const { error } = await supabase.from("sales_contract_documents").insert({
+        contract_id: contractId,
+        factory_id: factoryId!,
+        file_name: file.name,
+        file_type: file.type || null,
+        file_url: path,
+        uploaded_by: profile?.id,
+      });
+      if (error) {
+        await supabase.storage.from(CONTRACT_DOCUMENTS_BUCKET).remove([path]);
+        throw error;
+      }
+    },
+    onSuccess: (_d, vars) => {
+      invalidate(vars.contractId);
+      toast.success("Document uploaded");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to upload document: ${err.message}`);
+    },
+  });
+
+  const deleteDocument = useMutation({
+    mutationFn: async (doc: SalesContractDocument) => {
+      const { error } = await supabase.from("sales_contract_documents").delete().eq("id", doc.id);
+      if (error) throw error;
+      await supabase.storage.from(CONTRACT_DOCUMENTS_BUCKET).remove([doc.file_url]);
+    },
+    onSuccess: (_d, doc) => {
+      invalidate(doc.contract_id ?? undefined);
+      toast.success("Document removed");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to remove document: ${err.message}`);
+    },
+  });
+
+  return {
+    createContract,
+    saveContract,
+    setStatus,
+    deleteContract,
+    uploadDocument,
+    deleteDocument,
+  };
+}
+
+/** Short-lived link for viewing a stored contract document. */
+export async function getContractDocumentUrl(doc: SalesContractDocument): Promise<string> {
+  const { data, error } = await supabase.storage.from(CONTRACT_DOCUMENTS_BUCKET).createSignedUrl(doc.file_url, 300);
+  if (error) throw error;
+  return data.signedUrl;
+}
@@ -0,0 +1,199 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+export type ScheduleScenario = PublicTables["schedule_scenarios"]["Row"];
+export type LiveScheduleChange =
+  Database["public"]["Functions"]["schedule_scenario_live_changes"]["Returns"][number];
+
+/** What promoting a scenario would overwrite on the live plan. */
+export interface ScenarioLiveChanges {
+  /** The live plan has moved since the scenario was copied */
+  changed: boolean;
+  /** Live revision to confirm when promoting over the changes */
+  liveRevision: number;
+  /** Live bookings added or replanned since the copy */
+  entries: LiveScheduleChange[];
+}
+
+export interface WhatIfOrderInput {
+  po_number: string;
+  buyer: string;
+  style: string;
+  item: string | null;
+  order_qty: number;
+  planned_ex_factory: string | null;
+  smv: number | null;
+  target_per_day: number | null;
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+/** Draft scenarios for the factory, newest first. */
+export function useScheduleScenarios() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["schedule_scenarios", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("schedule_scenarios")
+        .select("*")
+        .eq("factory_id", factoryId!)
+        .eq("status", "draft")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!factoryId,
+  });
+
+  return { scenarios: query.data ?? [], isLoading: query.isLoading };
+}
+
+/**
+ * Live-plan changes made since the scenario was copied. Always refetched so
+ * the promote dialog shows the plan as it is now.
+ */
+export function useScenarioLiveChanges(scenario: ScheduleScenario | null) {
+  const query = useQuery({
+    queryKey: ["schedule_scenario_live_changes", scenario?.id],
+    queryFn: async (): Promise<ScenarioLiveChanges> => {
+      const [revisionRes, changesRes] = await Promise.all([
+        supabase
+          .from("production_schedule_revisions")
+          .select("revision")
+          .eq("factory_id", scenario!.factory_id)
+          .maybeSingle(),
+        supabase.rpc("schedule_scenario_live_changes", { p_scenario_id: scenario!.id }),
+      ]);
+      if (revisionRes.error) throw revisionRes.error;
+      if (changesRes.error) throw changesRes.error;
+
+      const liveRevision = revisionRes.data?.revision ?? 0;
+      const entries = changesRes.data ?? [];
+      return {
+        // Scenarios copied before revisions were tracked have no base: assume changed
+        changed: scenario!.base_revision !== liveRevision || entries.length > 0,
+        liveRevision,
+        entries,
+      };
+    },
+    enabled: !!scenario,
+    staleTime: 0,
+  });
+
+  // isFetching, not isLoading: a stale answer must not be confirmed while a recheck is in flight
+  return { liveChanges: query.data ?? null, isChecking: query.isFetching, refetch: query.refetch };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useScheduleScenarioMutations() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["schedule_scenarios"] });
+    queryClient.invalidateQueries({ queryKey: ["schedule_scenario_orders"] });
+    queryClient.invalidateQueries({ queryKey: ["production_schedule"] });
+    queryClient.invalidateQueries({ queryKey: ["schedule_scenario_live_changes"] });
+  };
+
+  /** Copy the live schedule into a new draft; resolves to its id. */
+  const createScenario = useMutation({
+    mutationFn: async ({ name, notes }: { name: string; notes: string | null }) => {
+      const { data, error } = await supabase.rpc("create_schedule_scenario", {
+        p_name: name,
+        ...(notes ? { p_notes: notes } : {}),
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (_id, { name }) => {
+      invalidate();
+      toast.success(`Scenario "${name}" created from the live plan`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to create scenario: ${err.message}`);
+    },
+  });
+
+  const deleteScenario = useMutation({
+    mutationFn: async (scenario: ScheduleScenario) => {
+      const { error } = await supabase.from("schedule_scenarios").delete().eq("id", scenario.id);
+      if (error) throw error;
+    },
+    onSuccess: (_d, scenario) => {
+      invalidate();
+      toast.success(`Scenario "${scenario.name}" discarded`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to discard scenario: ${err.message}`);
+    },
+  });
+
+  /**
+   * Replace the live schedule with the scenario's bookings. If the live plan
+   * changed since the copy, `confirmedRevision` must be the live revision the
+   * planner reviewed; the server refuses if it has moved on again.
+   */
+  const promoteScenario = useMutation({
+    mutationFn: async ({ scenario, confirmedRevision }: { scenario: ScheduleScenario; confirmedRevision?: number }) => {
+      const { data, error } = await supabase.rpc("promote_schedule_scenario", {
+        p_scenario_id: scenario.id,
+        ...(confirmedRevision !== undefined ? { p_confirmed_revision: confirmedRevision } : {}),
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count, { scenario }) => {
+      invalidate();
+      toast.success(`"${scenario.name}" is now the live plan (${count} booking${count !== 1 ? "s" : ""})`);
+    },
+    onError: (err: Error) => {
+      // The live plan may have moved while the dialog was open
+      queryClient.invalidateQueries({ queryKey: ["schedule_scenario_live_changes"] });
+      toast.error(`Failed to promote scenario: ${err.message}`);
+    },
+  });
+
+  const addWhatIfOrder = useMutation({
+    mutationFn: async ({ scenarioId, input }: { scenarioId: string; input: WhatIfOrderInput }) => {
+      const { error } = await supabase
+        .from("schedule_scenario_orders")
+        .insert({ ...input, scenario_id: scenarioId, factory_id: factoryId! });
+      if (error) throw error;
+    },
+    onSuccess: (_d, { input }) => {
+      invalidate();
+      toast.success(`${input.po_number} added to the scenario`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to add what-if order: ${err.message}`);
+    },
+  });
+
+  const removeWhatIfOrder = useMutation({
+    mutationFn: async (orderId: string) => {
+      const { error } = await supabase.from("schedule_scenario_orders").delete().eq("id", orderId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("What-if order removed");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to remove what-if order: ${err.message}`);
+    },
+  });
+
+  return { createScenario, deleteScenario, promoteScenario, addWhatIfOrder, removeWhatIfOrder };
+}
@@ -0,0 +1,174 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+import { endOfDayFromHourly } from "@/lib/sewing-hourly";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+
+export type SewingHourlyLog = PublicTables["sewing_hourly_logs"]["Row"];
+
+export interface SewingHourlyInput {
+  hour_slot: string;
+  target_qty: number;
+  good_qty: number;
+  reject_qty: number;
+  rework_qty: number;
+  defect_count: number;
+  remarks: string | null;
+}
+
+export interface SewingHourlyScope {
+  lineId: string;
+  workOrderId: string;
+  /** Production date, yyyy-MM-dd */
+  date: string;
+}
+
+const isComplete = (scope: SewingHourlyScope) => !!(scope.lineId && scope.workOrderId && scope.date);
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+/** Hourly rows for one line / PO / day, across all shifts. */
+export function useSewingHourlyLogs(scope: SewingHourlyScope) {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["sewing_hourly_logs", factoryId, scope.date, scope.lineId, scope.workOrderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sewing_hourly_logs")
+        .select("*")
+        .eq("factory_id", factoryId!)
+        .eq("production_date", scope.date)
+        .eq("line_id", scope.lineId)
+        .eq("work_order_id", scope.workOrderId);
+      if (error) throw error;
+      return data ?? [];
+    },
+    enabled: !!factoryId && isComplete(scope),
+  });
+
+  return { logs: query.data ?? [], isLoading: query.isLoading };
+}
+
+/**
+ * End-of-day good/reject/rework summed from the hourly board, or null when the
+ * line didn't log hourly for that PO and the numbers must be typed in.
+ */
+export function useHourlyEndOfDay(scope: SewingHourlyScope) {
+  const { logs } = useSewingHourlyLogs(scope);
+  const fromHourly = useMemo(() => endOfDayFromHourly(logs), [logs]);
+  return { fromHourly, hoursLogged: logs.length };
+}
+
+/** The morning per-hour target for the line / PO, used to prefill each hour. */
+export function useSewingPerHourTarget(scope: SewingHourlyScope) {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["sewing_hourly_target", factoryId, scope.date, scope.lineId, scope.workOrderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sewing_targets")
+        .select("per_hour_target")
+        .eq("factory_id", factoryId!)
+        .eq("production_date", scope.date)
+        .eq("line_id", scope.lineId)
+        .eq("work_order_id", scope.workOrderId)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.per_hour_target ?? null;
+    },
+    enabled: !!factoryId && isComplete(scope),
+  });
+
+  return { perHourTarget: query.data ?? null };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useSewingHourlyMutations(scope: SewingHourlyScope) {
+  const { user, profile } = useAuth();
+  const factoryId = profile?.factory_id;
+  const queryClient = useQueryClient();
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["sewing_hourly_logs"] });
+
+  const saveLog = useMutation({
+    mutationFn: async ({
+      input,
+      shiftId,
+      existing,
+    }: {
+      input: SewingHourlyInput;
+      shiftId: string | null;
+      existing: SewingHourlyLog | null;
+    }) => {
+      if (existing) {
+        const { error } = await supabase
+          .from("sewing_hourly_logs")
+          .update({ ...input, updated_at: new Date().toISOString(), updated_by: user!.id })
+          .eq("id", existing.id);
+        if (error) throw error;
+        return;
+      }
+      const { error } = await supabase.from("sewing_hourly_logs").insert({
+        ...input,
+        factory_id: factoryId!,
+        production_date: scope.date,
+        line_id: scope.lineId,
+        work_order_id: scope.workOrderId,
+        shift_id: shiftId,
+        submitted_by: user!.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_d, { input }) => {
+      invalidate();
+      toast.success(`Hour ${input.hour_slot} saved`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save hour: ${err.message}`);
+    },
+  });
+
+  const toggleLock = useMutation({
+    mutationFn: async (log: SewingHourlyLog) => {
+      const { error } = await supabase
+        .from("sewing_hourly_logs")
+        .update({ is_locked: !log.is_locked })
+        .eq("id", log.id);
+      if (error) throw error;
+    },
+    onSuccess: (_d, log) => {
+      invalidate();
+      toast.success(log.is_locked ? `Hour ${log.hour_slot} unlocked` : `Hour ${log.hour_slot} locked`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to update lock: ${err.message}`);
+    },
+  });
+
+  const deleteLog = useMutation({
+    mutationFn: async (log: SewingHourlyLog) => {
+      const { error } = await supabase.from("sewing_hourly_logs").delete().eq("id", log.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success("Hour removed");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to remove hour: ${err.message}`);
+    },
+  });
+
+  return { saveLog, toggleLock, deleteLog };
+}
@@ -0,0 +1,113 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  parseBreakdown,
+  sizeRollup,
+  sortSizes,
+  type ColourBreakdown,
+  type SizeRollup,
+} from "@/lib/size-matrix";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export interface POSizeMatrix {
+  sizes: string[];
+  breakdown: ColourBreakdown[] | null;
+}
+
+export interface POSizeRollupData extends POSizeMatrix {
+  orderQty: number;
+  rollup: SizeRollup;
+}
+
+/** A work order's size columns, falling back to the sizes its matrix uses. */
+export function toPOSizeMatrix(row: { sizes: string[] | null; size_breakdown: Json | null }): POSizeMatrix {
+  const breakdown = parseBreakdown(row.size_breakdown);
+  const sizes = row.sizes?.length
+    ? row.sizes
+    : sortSizes((breakdown ?? []).flatMap((b) => Object.keys(b.quantities)));
+  return { sizes, breakdown };
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+/** A PO's size × colour matrix, for forms offering entry by matrix. */
+export function usePOSizeMatrix(workOrderId: string | null | undefined) {
+  const query = useQuery({
+    queryKey: ["po_size_matrix", workOrderId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("work_orders")
+        .select("sizes, size_breakdown")
+        .eq("id", workOrderId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data ? toPOSizeMatrix(data) : null;
+    },
+    enabled: !!workOrderId,
+  });
+
+  return { matrix: query.data ?? null, isLoading: query.isLoading };
+}
+
+/**
+ * Ordered, cut, sewn and finished pieces by size and colour for one PO.
+ * Finishing counts packed (poly) pieces from end-of-day output logs.
+ */
+export function usePOSizeRollup(workOrderId: string | null | undefined) {
+  const query = useQuery({
+    queryKey: ["po_size_rollup", workOrderId],
+    queryFn: async (): Promise<POSizeRollupData | null> => {
+      const [woRes, cuttingRes, sewingRes, finishingRes] = await Promise.all([
+        supabase.from("work_orders").select("order_qty, sizes, size_breakdown").eq("id", workOrderId!).maybeSingle(),
+        supabase.from("cutting_actuals").select("day_cutting, size_breakdown").eq("work_order_id", workOrderId!),
+        supabase.from("sewing_actuals").select("good_today, size_breakdown").eq("work_order_id", workOrderId!),
+        supabase
+          .from("finishing_daily_logs")
+          .select("poly, size_breakdown")
+          .eq("work_order_id", workOrderId!)
+          .eq("log_type", "OUTPUT"),
+      ]);
+      const failed = [woRes, cuttingRes, sewingRes, finishingRes].find((r) => r.error);
+      if (failed?.error) throw failed.error;
+      if (!woRes.data) return null;
+
+      const matrix = toPOSizeMatrix(woRes.data);
+      const rollup = sizeRollup(matrix.breakdown ?? [], matrix.sizes, {
+        cut: (cuttingRes.data ?? []).map((r) => ({ qty: r.day_cutting, breakdown: parseBreakdown(r.size_breakdown) })),
+        sewn: (sewingRes.data ?? []).map((r) => ({ qty: r.good_today, breakdown: parseBreakdown(r.size_breakdown) })),
+        finished: (finishingRes.data ?? []).map((r) => ({ qty: r.poly ?? 0, breakdown: parseBreakdown(r.size_breakdown) })),
+      });
+      return { ...matrix, orderQty: woRes.data.order_qty, rollup };
+    },
+    enabled: !!workOrderId,
+  });
+
+  return { data: query.data ?? null, isLoading: query.isLoading };
+}
+
+// ── Mutations ──────────────────────────────────────────────────────────
+
+export function useWorkOrderSizeMatrixMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workOrderId, sizes, breakdown }: { workOrderId: string; sizes: string[]; breakdown: ColourBreakdown[] | null }) => {
+      const { error } = await supabase
+        .from("work_orders")
+        .update({ sizes: breakdown ? sizes : [], size_breakdown: breakdown as unknown as Json })
+        .eq("id", workOrderId);
+      if (error) throw error;
+    },
+    onSuccess: (_d, { workOrderId }) => {
+      queryClient.invalidateQueries({ queryKey: ["po_size_rollup", workOrderId] });
+      queryClient.invalidateQueries({ queryKey: ["po_size_matrix", workOrderId] });
+      toast.success("Size breakdown saved");
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save size breakdown: ${err.message}`);
+    },
+  });
+}
@@ -0,0 +1,200 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database, Json } from "@/integrations/supabase/types";
+import type { POMilestone, PlannedMilestone, TnATemplate, TnATemplateItem } from "@/lib/tna";
+import { toast } from "sonner";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+type PublicTables = Database["public"]["Tables"];
+type TemplateRow = PublicTables["tna_templates"]["Row"] & {
+  tna_template_items: PublicTables["tna_template_items"]["Row"][];
+};
+type MilestoneUpdate = PublicTables["po_milestones"]["Update"];
+
+export interface TnATemplateInput {
+  name: string;
+  product_category: string | null;
+  is_default: boolean;
+  items: TnATemplateItem[];
+}
+
+export interface MilestoneOwner {
+  id: string;
+  full_name: string;
+}
+
+function toTemplate(row: TemplateRow): TnATemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    product_category: row.product_category,
+    is_default: row.is_default,
+    items: (row.tna_template_items ?? [])
+      .map(({ milestone_code, label, days_before, item_order }) => ({ milestone_code, label, days_before, item_order }))
+      .sort((a, b) => a.item_order - b.item_order),
+  };
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+export function useTnATemplates() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["tna_templates", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("tna_templates")
+        .select("*, tna_template_items(*)")
+        .eq("factory_id", factoryId!)
+        .order("name");
+      if (error) throw error;
+      return ((data ?? []) as TemplateRow[]).map(toTemplate);
+    },
+    enabled: !!factoryId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { templates: query.data ?? [], isLoading: query.isLoading };
+}
+
+/** Active people in the factory who can own a milestone. */
+export function useMilestoneOwners() {
+  const { profile } = useAuth();
+  const factoryId = profile?.factory_id;
+
+  const query = useQuery({
+    queryKey: ["milestone_owners", factoryId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .eq("factory_id", factoryId!)
+        .eq("is_active", true)
+        .order("full_name");
+      if (error) throw error;
+      return (data ?? []) as MilestoneOwner[];
+    },
+    enabled: !!factoryId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { owners: query.data ?? [] };
+}
+
+// ── Template mutations ─────────────────────────────────────────────────
+
+export function useTnATemplateMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["tna_templates"] });
+
+  const saveTemplate = useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: TnATemplateInput }) => {
+      const { items, ...template } = input;
+      // Clears any other default and matches items by milestone code
+      const { error } = await supabase.rpc("save_tna_template", {
+        p_template: template,
+        p_items: items as unknown as Json,
+        p_template_id: id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_d, { input }) => {
+      invalidate();
+      toast.success(`${input.name} saved`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save T&A template: ${err.message}`);
+    },
+  });
+
+  const deleteTemplate = useMutation({
+    mutationFn: async (template: TnATemplate) => {
+      const { error } = await supabase.from("tna_templates").delete().eq("id", template.id);
+      if (error) throw error;
+    },
+    onSuccess: (_d, template) => {
+      invalidate();
+      toast.success(`${template.name} removed`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to remove T&A template: ${err.message}`);
+    },
+  });
+
+  return { saveTemplate, deleteTemplate };
+}
+
+// ── PO milestone mutations ─────────────────────────────────────────────
+
+export function usePOMilestoneMutations() {
+  const { user } = useAuth();
+
+  /**
+   * Snapshot a template's plan onto a PO. Milestones already on the PO are
+   * updated by code, so actual dates, owners and notes survive a re-run.
+   */
+  const generateMilestones = useMutation({
+    mutationFn: async ({
+      workOrderId,
+      templateId,
+      plan,
+    }: {
+      workOrderId: string;
+      poNumber: string;
+      templateId: string;
+      plan: PlannedMilestone[];
+    }) => {
+      const { error } = await supabase.rpc("apply_tna_plan", {
+        p_work_order_id: workOrderId,
+        p_template_id: templateId,
+        p_plan: plan as unknown as Json,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_d, { poNumber, plan }) => {
+      toast.success(`T&A plan with ${plan.length} milestones created for ${poNumber}`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to create T&A plan: ${err.message}`);
+    },
+  });
+
+  const updateMilestone = useMutation({
+    mutationFn: async ({ milestone, patch }: { milestone: POMilestone; patch: MilestoneUpdate }) => {
+      const { error } = await supabase
+        .from("po_milestones")
+        .update({ ...patch, updated_by: user?.id ?? null })
+        .eq("id", milestone.id);
+      if (error) throw error;
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to update milestone: ${err.message}`);
+    },
+  });
+
+  /** Move open milestones to new planned dates, e.g. after ex-factory changed. */
+  const replanMilestones = useMutation({
+    mutationFn: async (updates: { id: string; planned_date: string }[]) => {
+      const results = await Promise.all(
+        updates.map(({ id, planned_date }) =>
+          supabase.from("po_milestones").update({ planned_date, updated_by: user?.id ?? null }).eq("id", id)
+        )
+      );
+      const failed = results.find((r) => r.error);
+      if (failed?.error) throw failed.error;
+    },
+    onSuccess: (_d, updates) => {
+      toast.success(`${updates.length} milestone${updates.length !== 1 ? "s" : ""} re-planned from ex-factory`);
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to re-plan milestones: ${err.message}`);
+    },
+  });
+
+  return { generateMilestones, updateMilestone, replanMilestones };
+}
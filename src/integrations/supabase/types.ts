@@ -207,6 +207,7 @@ export type Database = {
           imported_by: string | null
           imported_from: string | null
           match_confidence: string | null
+          matched_lc_cost_id: string | null
           matched_payment_id: string | null
           reconciliation_period_id: string | null
           reconciliation_status: string | null
@@ -225,6 +226,7 @@ export type Database = {
           imported_by?: string | null
           imported_from?: string | null
           match_confidence?: string | null
+          matched_lc_cost_id?: string | null
           matched_payment_id?: string | null
           reconciliation_period_id?: string | null
           reconciliation_status?: string | null
@@ -243,6 +245,7 @@ export type Database = {
           imported_by?: string | null
           imported_from?: string | null
           match_confidence?: string | null
+          matched_lc_cost_id?: string | null
           matched_payment_id?: string | null
           reconciliation_period_id?: string | null
           reconciliation_status?: string | null
@@ -250,6 +253,13 @@ export type Database = {
           transaction_date?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "bank_transactions_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "factory_bank_accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bank_transactions_factory_id_fkey"
             columns: ["factory_id"]
@@ -257,6 +267,13 @@ export type Database = {
             referencedRelation: "factory_accounts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bank_transactions_matched_lc_cost_id_fkey"
+            columns: ["matched_lc_cost_id"]
+            isOneToOne: false
+            referencedRelation: "lc_banking_costs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bank_transactions_matched_payment_id_fkey"
             columns: ["matched_payment_id"]
@@ -1391,6 +1408,259 @@ export type Database = {
           },
         ]
       }
+      cut_bundles: {
+        Row: {
+          bundle_no: number
+          code: string
+          colour: string
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          created_by: string | null
+          cutting_actual_id: string | null
+          factory_id: string
+          id: string
+          issued_at: string | null
+          issued_by: string | null
+          line_id: string | null
+          ply_from: number
+          ply_to: number
+          quantity: number
+          shade: string | null
+          size: string
+          status: string
+          updated_at: string
+          work_order_id: string
+        }
+        Insert: {
+          bundle_no: number
+          code: string
+          colour: string
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          cutting_actual_id?: string | null
+          factory_id: string
+          id?: string
+          issued_at?: string | null
+          issued_by?: string | null
+          line_id?: string | null
+          ply_from: number
+          ply_to: number
+          quantity: number
+          shade?: string | null
+          size: string
+          status?: string
+          updated_at?: string
+          work_order_id: string
+        }
+        Update: {
+          bundle_no?: number
+          code?: string
+          colour?: string
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          cutting_actual_id?: string | null
+          factory_id?: string
+          id?: string
+          issued_at?: string | null
+          issued_by?: string | null
+          line_id?: string | null
+          ply_from?: number
+          ply_to?: number
+          quantity?: number
+          shade?: string | null
+          size?: string
+          status?: string
+          updated_at?: string
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cut_bundles_cutting_actual_id_fkey"
+            columns: ["cutting_actual_id"]
+            isOneToOne: false
+            referencedRelation: "cutting_actuals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cut_bundles_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cut_bundles_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cut_bundles_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cut_lays: {
+        Row: {
+          actual_plies: number | null
+          colour: string
+          created_at: string
+          cut_date: string | null
+          cut_plan_id: string
+          fabric_used: number | null
+          factory_id: string
+          id: string
+          lay_no: number
+          line_id: string | null
+          marker_efficiency: number | null
+          marker_length: number | null
+          marker_ratio: Json
+          plies: number
+          recorded_by: string | null
+          status: string
+          updated_at: string
+          work_order_id: string
+        }
+        Insert: {
+          actual_plies?: number | null
+          colour: string
+          created_at?: string
+          cut_date?: string | null
+          cut_plan_id: string
+          fabric_used?: number | null
+          factory_id: string
+          id?: string
+          lay_no: number
+          line_id?: string | null
+          marker_efficiency?: number | null
+          marker_length?: number | null
+          marker_ratio?: Json
+          plies: number
+          recorded_by?: string | null
+          status?: string
+          updated_at?: string
+          work_order_id: string
+        }
+        Update: {
+          actual_plies?: number | null
+          colour?: string
+          created_at?: string
+          cut_date?: string | null
+          cut_plan_id?: string
+          fabric_used?: number | null
+          factory_id?: string
+          id?: string
+          lay_no?: number
+          line_id?: string | null
+          marker_efficiency?: number | null
+          marker_length?: number | null
+          marker_ratio?: Json
+          plies?: number
+          recorded_by?: string | null
+          status?: string
+          updated_at?: string
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cut_lays_cut_plan_id_fkey"
+            columns: ["cut_plan_id"]
+            isOneToOne: false
+            referencedRelation: "cut_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cut_lays_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cut_lays_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cut_lays_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cut_plans: {
+        Row: {
+          allowance_pct: number
+          breakdown: Json
+          created_at: string
+          created_by: string | null
+          factory_id: string
+          id: string
+          max_marker_pieces: number
+          max_plies: number
+          notes: string | null
+          sizes: string[]
+          updated_at: string
+          work_order_id: string
+        }
+        Insert: {
+          allowance_pct?: number
+          breakdown?: Json
+          created_at?: string
+          created_by?: string | null
+          factory_id: string
+          id?: string
+          max_marker_pieces?: number
+          max_plies?: number
+          notes?: string | null
+          sizes?: string[]
+          updated_at?: string
+          work_order_id: string
+        }
+        Update: {
+          allowance_pct?: number
+          breakdown?: Json
+          created_at?: string
+          created_by?: string | null
+          factory_id?: string
+          id?: string
+          max_marker_pieces?: number
+          max_plies?: number
+          notes?: string | null
+          sizes?: string[]
+          updated_at?: string
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cut_plans_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cut_plans_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cutting_actuals: {
         Row: {
           acknowledged: boolean | null
@@ -1428,6 +1698,7 @@ export type Database = {
           ot_manpower_actual: number | null
           po_no: string | null
           production_date: string
+          size_breakdown: Json | null
           style: string | null
           submitted_at: string | null
           submitted_by: string | null
@@ -1473,6 +1744,7 @@ export type Database = {
           ot_manpower_actual?: number | null
           po_no?: string | null
           production_date?: string
+          size_breakdown?: Json | null
           style?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -1518,6 +1790,7 @@ export type Database = {
           ot_manpower_actual?: number | null
           po_no?: string | null
           production_date?: string
+          size_breakdown?: Json | null
           style?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -2181,6 +2454,8 @@ export type Database = {
           trial_start_date: string | null
           updated_at: string | null
           use_dynamic_forms: boolean | null
+          wip_max_days: number | null
+          wip_min_days: number | null
         }
         Insert: {
           bdt_to_usd_rate?: number | null
@@ -2213,6 +2488,8 @@ export type Database = {
           trial_start_date?: string | null
           updated_at?: string | null
           use_dynamic_forms?: boolean | null
+          wip_max_days?: number | null
+          wip_min_days?: number | null
         }
         Update: {
           bdt_to_usd_rate?: number | null
@@ -2245,6 +2522,8 @@ export type Database = {
           trial_start_date?: string | null
           updated_at?: string | null
           use_dynamic_forms?: boolean | null
+          wip_max_days?: number | null
+          wip_min_days?: number | null
         }
         Relationships: []
       }
@@ -2408,6 +2687,103 @@ export type Database = {
           },
         ]
       }
+      factory_holidays: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          end_date: string | null
+          factory_id: string
+          id: string
+          kind: string
+          name: string
+          notes: string | null
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          end_date?: string | null
+          factory_id: string
+          id?: string
+          kind?: string
+          name: string
+          notes?: string | null
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          end_date?: string | null
+          factory_id?: string
+          id?: string
+          kind?: string
+          name?: string
+          notes?: string | null
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "factory_holidays_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      factory_shifts: {
+        Row: {
+          breaks: Json
+          created_at: string
+          end_time: string
+          factory_id: string
+          id: string
+          is_active: boolean
+          name: string
+          ot_slots: number
+          sort_order: number
+          start_time: string
+          updated_at: string
+        }
+        Insert: {
+          breaks?: Json
+          created_at?: string
+          end_time: string
+          factory_id: string
+          id?: string
+          is_active?: boolean
+          name: string
+          ot_slots?: number
+          sort_order?: number
+          start_time: string
+          updated_at?: string
+        }
+        Update: {
+          breaks?: Json
+          created_at?: string
+          end_time?: string
+          factory_id?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          ot_slots?: number
+          sort_order?: number
+          start_time?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "factory_shifts_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       finishing_actuals: {
         Row: {
           action_taken_today: string | null
@@ -2628,6 +3004,7 @@ export type Database = {
           production_date: string
           remarks: string | null
           shift: string | null
+          size_breakdown: Json | null
           submitted_at: string
           submitted_by: string
           thread_cutting: number | null
@@ -2662,6 +3039,7 @@ export type Database = {
           production_date?: string
           remarks?: string | null
           shift?: string | null
+          size_breakdown?: Json | null
           submitted_at?: string
           submitted_by: string
           thread_cutting?: number | null
@@ -2696,6 +3074,7 @@ export type Database = {
           production_date?: string
           remarks?: string | null
           shift?: string | null
+          size_breakdown?: Json | null
           submitted_at?: string
           submitted_by?: string
           thread_cutting?: number | null
@@ -2812,7 +3191,7 @@ export type Database = {
           carton_target: number | null
           get_up_actual: number | null
           get_up_target: number | null
-          hour_slot: Database["public"]["Enums"]["finishing_hour_slot"]
+          hour_slot: string
           id: string
           inside_check_actual: number | null
           inside_check_target: number | null
@@ -2823,6 +3202,7 @@ export type Database = {
           poly_target: number | null
           remarks: string | null
           sheet_id: string
+          shift_id: string | null
           submitted_at: string | null
           submitted_by: string | null
           thread_cutting_actual: number | null
@@ -2839,7 +3219,7 @@ export type Database = {
           carton_target?: number | null
           get_up_actual?: number | null
           get_up_target?: number | null
-          hour_slot: Database["public"]["Enums"]["finishing_hour_slot"]
+          hour_slot: string
           id?: string
           inside_check_actual?: number | null
           inside_check_target?: number | null
@@ -2850,6 +3230,7 @@ export type Database = {
           poly_target?: number | null
           remarks?: string | null
           sheet_id: string
+          shift_id?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
           thread_cutting_actual?: number | null
@@ -2866,7 +3247,7 @@ export type Database = {
           carton_target?: number | null
           get_up_actual?: number | null
           get_up_target?: number | null
-          hour_slot?: Database["public"]["Enums"]["finishing_hour_slot"]
+          hour_slot?: string
           id?: string
           inside_check_actual?: number | null
           inside_check_target?: number | null
@@ -2877,6 +3258,7 @@ export type Database = {
           poly_target?: number | null
           remarks?: string | null
           sheet_id?: string
+          shift_id?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
           thread_cutting_actual?: number | null
@@ -2894,6 +3276,13 @@ export type Database = {
             referencedRelation: "finishing_daily_sheets"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "finishing_hourly_logs_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "factory_shifts"
+            referencedColumns: ["id"]
+          },
         ]
       }
       finishing_targets: {
@@ -4113,7 +4502,110 @@ export type Database = {
           },
         ]
       }
-      lines: {
+      lc_work_orders: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          factory_id: string
+          id: string
+          lc_id: string
+          work_order_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          factory_id: string
+          id?: string
+          lc_id: string
+          work_order_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          factory_id?: string
+          id?: string
+          lc_id?: string
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lc_work_orders_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lc_work_orders_lc_id_fkey"
+            columns: ["lc_id"]
+            isOneToOne: false
+            referencedRelation: "master_lcs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lc_work_orders_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_curves: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          factory_id: string
+          id: string
+          is_default: boolean
+          line_id: string | null
+          name: string
+          product_category: string | null
+          steps: number[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          factory_id: string
+          id?: string
+          is_default?: boolean
+          line_id?: string | null
+          name: string
+          product_category?: string | null
+          steps?: number[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          factory_id?: string
+          id?: string
+          is_default?: boolean
+          line_id?: string | null
+          name?: string
+          product_category?: string | null
+          steps?: number[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_curves_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "learning_curves_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lines: {
         Row: {
           created_at: string | null
           deactivated_at: string | null
@@ -4725,6 +5217,140 @@ export type Database = {
           },
         ]
       }
+      po_material_requirements: {
+        Row: {
+          created_at: string
+          factory_id: string
+          id: string
+          notes: string | null
+          required_qty: number
+          updated_at: string
+          updated_by: string | null
+          work_order_id: string
+        }
+        Insert: {
+          created_at?: string
+          factory_id: string
+          id?: string
+          notes?: string | null
+          required_qty: number
+          updated_at?: string
+          updated_by?: string | null
+          work_order_id: string
+        }
+        Update: {
+          created_at?: string
+          factory_id?: string
+          id?: string
+          notes?: string | null
+          required_qty?: number
+          updated_at?: string
+          updated_by?: string | null
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "po_material_requirements_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "po_material_requirements_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      po_milestones: {
+        Row: {
+          actual_date: string | null
+          created_at: string
+          days_before: number
+          factory_id: string
+          id: string
+          item_order: number
+          label: string
+          milestone_code: string
+          notes: string | null
+          overdue_notified_at: string | null
+          owner_id: string | null
+          planned_date: string
+          template_id: string | null
+          updated_at: string
+          updated_by: string | null
+          work_order_id: string
+        }
+        Insert: {
+          actual_date?: string | null
+          created_at?: string
+          days_before: number
+          factory_id: string
+          id?: string
+          item_order: number
+          label: string
+          milestone_code: string
+          notes?: string | null
+          overdue_notified_at?: string | null
+          owner_id?: string | null
+          planned_date: string
+          template_id?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          work_order_id: string
+        }
+        Update: {
+          actual_date?: string | null
+          created_at?: string
+          days_before?: number
+          factory_id?: string
+          id?: string
+          item_order?: number
+          label?: string
+          milestone_code?: string
+          notes?: string | null
+          overdue_notified_at?: string | null
+          owner_id?: string | null
+          planned_date?: string
+          template_id?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "po_milestones_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "po_milestones_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "po_milestones_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "tna_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "po_milestones_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       production_note_comments: {
         Row: {
           body: string
@@ -4847,6 +5473,7 @@ export type Database = {
           id: string
           line_id: string
           notes: string | null
+          plan_changed_at: string
           priority: number | null
           start_date: string
           status: string
@@ -4864,6 +5491,7 @@ export type Database = {
           id?: string
           line_id: string
           notes?: string | null
+          plan_changed_at?: string
           priority?: number | null
           start_date: string
           status?: string
@@ -4881,6 +5509,7 @@ export type Database = {
           id?: string
           line_id?: string
           notes?: string | null
+          plan_changed_at?: string
           priority?: number | null
           start_date?: string
           status?: string
@@ -4912,6 +5541,32 @@ export type Database = {
           },
         ]
       }
+      production_schedule_revisions: {
+        Row: {
+          changed_at: string
+          factory_id: string
+          revision: number
+        }
+        Insert: {
+          changed_at?: string
+          factory_id: string
+          revision?: number
+        }
+        Update: {
+          changed_at?: string
+          factory_id?: string
+          revision?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "production_schedule_revisions_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: true
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       production_updates_finishing: {
         Row: {
           average_production: number | null
@@ -5381,81 +6036,254 @@ export type Database = {
           },
         ]
       }
-      qc_checklist_template_items: {
+      qc_aql_defects: {
         Row: {
           created_at: string
+          created_by: string | null
+          defect_code: string
+          defect_name: string
           id: string
-          item_code: string
-          item_guidance: string | null
-          item_label: string
-          item_order: number
-          section_label: string
-          section_order: number
-          template_id: string
-          updated_at: string
+          inspection_id: string
+          notes: string | null
+          quantity: number
+          severity: string
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
+          defect_code: string
+          defect_name: string
           id?: string
-          item_code: string
-          item_guidance?: string | null
-          item_label: string
-          item_order: number
-          section_label: string
-          section_order: number
-          template_id: string
-          updated_at?: string
+          inspection_id: string
+          notes?: string | null
+          quantity?: number
+          severity: string
         }
         Update: {
           created_at?: string
+          created_by?: string | null
+          defect_code?: string
+          defect_name?: string
           id?: string
-          item_code?: string
-          item_guidance?: string | null
-          item_label?: string
-          item_order?: number
-          section_label?: string
-          section_order?: number
-          template_id?: string
-          updated_at?: string
+          inspection_id?: string
+          notes?: string | null
+          quantity?: number
+          severity?: string
         }
         Relationships: [
           {
-            foreignKeyName: "qc_checklist_template_items_template_id_fkey"
-            columns: ["template_id"]
+            foreignKeyName: "qc_aql_defects_inspection_id_fkey"
+            columns: ["inspection_id"]
             isOneToOne: false
-            referencedRelation: "qc_checklist_templates"
+            referencedRelation: "qc_aql_inspections"
             referencedColumns: ["id"]
           },
         ]
       }
-      qc_checklist_templates: {
+      qc_aql_inspections: {
         Row: {
+          aql_critical: number
+          aql_major: number
+          aql_minor: number
+          code_letter: string
           created_at: string
-          factory_id: string | null
+          created_by: string
+          critical_ac: number
+          critical_re: number
+          factory_id: string
+          id: string
+          inspection_date: string
+          inspection_level: string
+          inspection_type: string
+          inspector_id: string
+          lot_qty: number
+          major_ac: number
+          major_re: number
+          minor_ac: number
+          minor_re: number
+          notes: string | null
+          result: string
+          sample_size: number
+          status: string
+          submitted_at: string | null
+          updated_at: string
+          updated_by: string | null
+          work_order_id: string
+        }
+        Insert: {
+          aql_critical?: number
+          aql_major?: number
+          aql_minor?: number
+          code_letter: string
+          created_at?: string
+          created_by: string
+          critical_ac: number
+          critical_re: number
+          factory_id: string
+          id?: string
+          inspection_date: string
+          inspection_level?: string
+          inspection_type?: string
+          inspector_id: string
+          lot_qty: number
+          major_ac: number
+          major_re: number
+          minor_ac: number
+          minor_re: number
+          notes?: string | null
+          result?: string
+          sample_size: number
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          work_order_id: string
+        }
+        Update: {
+          aql_critical?: number
+          aql_major?: number
+          aql_minor?: number
+          code_letter?: string
+          created_at?: string
+          created_by?: string
+          critical_ac?: number
+          critical_re?: number
+          factory_id?: string
+          id?: string
+          inspection_date?: string
+          inspection_level?: string
+          inspection_type?: string
+          inspector_id?: string
+          lot_qty?: number
+          major_ac?: number
+          major_re?: number
+          minor_ac?: number
+          minor_re?: number
+          notes?: string | null
+          result?: string
+          sample_size?: number
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_aql_inspections_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qc_aql_inspections_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qc_checklist_template_items: {
+        Row: {
+          created_at: string
+          id: string
+          is_required: boolean
+          item_code: string
+          item_guidance: string | null
+          item_label: string
+          item_order: number
+          section_label: string
+          section_order: number
+          template_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_required?: boolean
+          item_code: string
+          item_guidance?: string | null
+          item_label: string
+          item_order: number
+          section_label: string
+          section_order: number
+          template_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_required?: boolean
+          item_code?: string
+          item_guidance?: string | null
+          item_label?: string
+          item_order?: number
+          section_label?: string
+          section_order?: number
+          template_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_checklist_template_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "qc_checklist_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qc_checklist_templates: {
+        Row: {
+          buyer: string | null
+          change_note: string | null
+          created_at: string
+          created_by: string | null
+          factory_id: string | null
+          family_id: string
           id: string
           is_active: boolean
           kind: string
           name: string
+          published_at: string | null
+          published_by: string | null
+          status: string
           updated_at: string
           version: number
         }
         Insert: {
+          buyer?: string | null
+          change_note?: string | null
           created_at?: string
+          created_by?: string | null
           factory_id?: string | null
+          family_id?: string
           id?: string
           is_active?: boolean
           kind: string
           name: string
+          published_at?: string | null
+          published_by?: string | null
+          status?: string
           updated_at?: string
           version?: number
         }
         Update: {
+          buyer?: string | null
+          change_note?: string | null
           created_at?: string
+          created_by?: string | null
           factory_id?: string | null
+          family_id?: string
           id?: string
           is_active?: boolean
           kind?: string
           name?: string
+          published_at?: string | null
+          published_by?: string | null
+          status?: string
           updated_at?: string
           version?: number
         }
@@ -5473,11 +6301,13 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          is_required: boolean
           item_code: string
           item_guidance: string | null
           item_label: string
           item_order: number
           notes: string | null
+          photo_urls: string[]
           section_label: string
           section_order: number
           sheet_id: string
@@ -5488,11 +6318,13 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
+          is_required?: boolean
           item_code: string
           item_guidance?: string | null
           item_label: string
           item_order: number
           notes?: string | null
+          photo_urls?: string[]
           section_label: string
           section_order: number
           sheet_id: string
@@ -5503,11 +6335,13 @@ export type Database = {
         Update: {
           created_at?: string
           id?: string
+          is_required?: boolean
           item_code?: string
           item_guidance?: string | null
           item_label?: string
           item_order?: number
           notes?: string | null
+          photo_urls?: string[]
           section_label?: string
           section_order?: number
           sheet_id?: string
@@ -5629,6 +6463,184 @@ export type Database = {
           },
         ]
       }
+      qc_defect_check_items: {
+        Row: {
+          check_id: string
+          created_at: string
+          defect_code: string
+          defect_name: string
+          defect_type_id: string | null
+          id: string
+          operation: string
+          quantity: number
+        }
+        Insert: {
+          check_id: string
+          created_at?: string
+          defect_code: string
+          defect_name: string
+          defect_type_id?: string | null
+          id?: string
+          operation: string
+          quantity: number
+        }
+        Update: {
+          check_id?: string
+          created_at?: string
+          defect_code?: string
+          defect_name?: string
+          defect_type_id?: string | null
+          id?: string
+          operation?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_defect_check_items_check_id_fkey"
+            columns: ["check_id"]
+            isOneToOne: false
+            referencedRelation: "qc_defect_checks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qc_defect_check_items_defect_type_id_fkey"
+            columns: ["defect_type_id"]
+            isOneToOne: false
+            referencedRelation: "qc_defect_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qc_defect_checks: {
+        Row: {
+          check_date: string
+          check_point: string
+          checked_by: string
+          created_at: string
+          factory_id: string
+          hour_slot: string
+          id: string
+          line_id: string
+          notes: string | null
+          operator_name: string | null
+          pieces_checked: number
+          shift_id: string | null
+          updated_at: string
+          work_order_id: string
+        }
+        Insert: {
+          check_date: string
+          check_point: string
+          checked_by: string
+          created_at?: string
+          factory_id: string
+          hour_slot: string
+          id?: string
+          line_id: string
+          notes?: string | null
+          operator_name?: string | null
+          pieces_checked: number
+          shift_id?: string | null
+          updated_at?: string
+          work_order_id: string
+        }
+        Update: {
+          check_date?: string
+          check_point?: string
+          checked_by?: string
+          created_at?: string
+          factory_id?: string
+          hour_slot?: string
+          id?: string
+          line_id?: string
+          notes?: string | null
+          operator_name?: string | null
+          pieces_checked?: number
+          shift_id?: string | null
+          updated_at?: string
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_defect_checks_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qc_defect_checks_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qc_defect_checks_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "factory_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qc_defect_checks_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qc_defect_types: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          factory_id: string
+          id: string
+          is_active: boolean
+          name: string
+          operation: string
+          severity: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          factory_id: string
+          id?: string
+          is_active?: boolean
+          name: string
+          operation: string
+          severity?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          factory_id?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          operation?: string
+          severity?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_defect_types_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       qc_issues: {
         Row: {
           admin_notes: string | null
@@ -5637,6 +6649,7 @@ export type Database = {
           factory_id: string
           id: string
           line_id: string | null
+          photo_urls: string[]
           raised_by: string | null
           resolved_at: string | null
           resolved_by: string | null
@@ -5658,6 +6671,7 @@ export type Database = {
           factory_id: string
           id?: string
           line_id?: string | null
+          photo_urls?: string[]
           raised_by?: string | null
           resolved_at?: string | null
           resolved_by?: string | null
@@ -5679,6 +6693,7 @@ export type Database = {
           factory_id?: string
           id?: string
           line_id?: string | null
+          photo_urls?: string[]
           raised_by?: string | null
           resolved_at?: string | null
           resolved_by?: string | null
@@ -5712,7 +6727,130 @@ export type Database = {
             foreignKeyName: "qc_issues_work_order_id_fkey"
             columns: ["work_order_id"]
             isOneToOne: false
-            referencedRelation: "work_orders"
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qc_measurement_checks: {
+        Row: {
+          colour: string | null
+          created_at: string
+          factory_id: string
+          id: string
+          inspector_id: string
+          notes: string | null
+          sample_count: number
+          size: string
+          source_record_id: string
+          source_type: string
+          spec_name: string
+          spec_sheet_id: string | null
+          unit: string
+          updated_at: string
+          work_order_id: string
+        }
+        Insert: {
+          colour?: string | null
+          created_at?: string
+          factory_id: string
+          id?: string
+          inspector_id: string
+          notes?: string | null
+          sample_count: number
+          size: string
+          source_record_id: string
+          source_type: string
+          spec_name: string
+          spec_sheet_id?: string | null
+          unit: string
+          updated_at?: string
+          work_order_id: string
+        }
+        Update: {
+          colour?: string | null
+          created_at?: string
+          factory_id?: string
+          id?: string
+          inspector_id?: string
+          notes?: string | null
+          sample_count?: number
+          size?: string
+          source_record_id?: string
+          source_type?: string
+          spec_name?: string
+          spec_sheet_id?: string | null
+          unit?: string
+          updated_at?: string
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_measurement_checks_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qc_measurement_checks_spec_sheet_id_fkey"
+            columns: ["spec_sheet_id"]
+            isOneToOne: false
+            referencedRelation: "qc_spec_sheets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "qc_measurement_checks_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qc_measurement_points: {
+        Row: {
+          check_id: string
+          code: string
+          id: string
+          measured: number[]
+          name: string
+          sort_order: number
+          spec: number
+          tol_minus: number
+          tol_plus: number
+          updated_at: string
+        }
+        Insert: {
+          check_id: string
+          code: string
+          id?: string
+          measured?: number[]
+          name: string
+          sort_order?: number
+          spec: number
+          tol_minus: number
+          tol_plus: number
+          updated_at?: string
+        }
+        Update: {
+          check_id?: string
+          code?: string
+          id?: string
+          measured?: number[]
+          name?: string
+          sort_order?: number
+          spec?: number
+          tol_minus?: number
+          tol_plus?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_measurement_points_check_id_fkey"
+            columns: ["check_id"]
+            isOneToOne: false
+            referencedRelation: "qc_measurement_checks"
             referencedColumns: ["id"]
           },
         ]
@@ -5721,11 +6859,13 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          is_required: boolean
           item_code: string
           item_guidance: string | null
           item_label: string
           item_order: number
           notes: string | null
+          photo_urls: string[]
           section_label: string
           section_order: number
           status: string
@@ -5737,11 +6877,13 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
+          is_required?: boolean
           item_code: string
           item_guidance?: string | null
           item_label: string
           item_order: number
           notes?: string | null
+          photo_urls?: string[]
           section_label: string
           section_order: number
           status?: string
@@ -5753,11 +6895,13 @@ export type Database = {
         Update: {
           created_at?: string
           id?: string
+          is_required?: boolean
           item_code?: string
           item_guidance?: string | null
           item_label?: string
           item_order?: number
           notes?: string | null
+          photo_urls?: string[]
           section_label?: string
           section_order?: number
           status?: string
@@ -5864,6 +7008,103 @@ export type Database = {
           },
         ]
       }
+      qc_spec_points: {
+        Row: {
+          code: string
+          created_at: string
+          id: string
+          name: string
+          sort_order: number
+          spec_sheet_id: string
+          specs: Json
+          tol_minus: number
+          tol_plus: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          name: string
+          sort_order?: number
+          spec_sheet_id: string
+          specs?: Json
+          tol_minus?: number
+          tol_plus?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          name?: string
+          sort_order?: number
+          spec_sheet_id?: string
+          specs?: Json
+          tol_minus?: number
+          tol_plus?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_spec_points_spec_sheet_id_fkey"
+            columns: ["spec_sheet_id"]
+            isOneToOne: false
+            referencedRelation: "qc_spec_sheets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      qc_spec_sheets: {
+        Row: {
+          buyer: string | null
+          created_at: string
+          created_by: string | null
+          factory_id: string
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          sizes: string[]
+          style: string
+          unit: string
+          updated_at: string
+        }
+        Insert: {
+          buyer?: string | null
+          created_at?: string
+          created_by?: string | null
+          factory_id: string
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          sizes?: string[]
+          style: string
+          unit?: string
+          updated_at?: string
+        }
+        Update: {
+          buyer?: string | null
+          created_at?: string
+          created_by?: string | null
+          factory_id?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          sizes?: string[]
+          style?: string
+          unit?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qc_spec_sheets_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rate_limits: {
         Row: {
           action_type: string
@@ -6273,26 +7514,226 @@ export type Database = {
           lc_number?: string | null
           lc_required?: boolean | null
           notes?: string | null
-          notify_party_address?: string | null
-          notify_party_contact?: string | null
-          notify_party_name?: string | null
-          notify_party_note?: string | null
-          payment_terms?: string | null
-          place_of_delivery?: string | null
-          port_of_discharge?: string | null
-          port_of_loading?: string | null
-          season?: string | null
-          shipment_mode?: string | null
-          status?: string | null
-          tolerance_pct?: number | null
-          total_quantity?: number | null
-          total_value?: number | null
-          total_value_text?: string | null
-          updated_at?: string | null
+          notify_party_address?: string | null
+          notify_party_contact?: string | null
+          notify_party_name?: string | null
+          notify_party_note?: string | null
+          payment_terms?: string | null
+          place_of_delivery?: string | null
+          port_of_discharge?: string | null
+          port_of_loading?: string | null
+          season?: string | null
+          shipment_mode?: string | null
+          status?: string | null
+          tolerance_pct?: number | null
+          total_quantity?: number | null
+          total_value?: number | null
+          total_value_text?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_contracts_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_scenario_entries: {
+        Row: {
+          colour: string | null
+          created_at: string
+          daily_target: number | null
+          end_date: string
+          factory_id: string
+          id: string
+          line_id: string
+          notes: string | null
+          priority: number | null
+          scenario_id: string
+          scenario_order_id: string | null
+          start_date: string
+          target_qty: number | null
+          updated_at: string
+          work_order_id: string | null
+        }
+        Insert: {
+          colour?: string | null
+          created_at?: string
+          daily_target?: number | null
+          end_date: string
+          factory_id: string
+          id?: string
+          line_id: string
+          notes?: string | null
+          priority?: number | null
+          scenario_id: string
+          scenario_order_id?: string | null
+          start_date: string
+          target_qty?: number | null
+          updated_at?: string
+          work_order_id?: string | null
+        }
+        Update: {
+          colour?: string | null
+          created_at?: string
+          daily_target?: number | null
+          end_date?: string
+          factory_id?: string
+          id?: string
+          line_id?: string
+          notes?: string | null
+          priority?: number | null
+          scenario_id?: string
+          scenario_order_id?: string | null
+          start_date?: string
+          target_qty?: number | null
+          updated_at?: string
+          work_order_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_scenario_entries_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_scenario_entries_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_scenario_entries_scenario_id_fkey"
+            columns: ["scenario_id"]
+            isOneToOne: false
+            referencedRelation: "schedule_scenarios"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_scenario_entries_scenario_order_id_fkey"
+            columns: ["scenario_order_id"]
+            isOneToOne: false
+            referencedRelation: "schedule_scenario_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_scenario_entries_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_scenario_orders: {
+        Row: {
+          buyer: string
+          created_at: string
+          factory_id: string
+          id: string
+          item: string | null
+          order_qty: number
+          planned_ex_factory: string | null
+          po_number: string
+          scenario_id: string
+          smv: number | null
+          style: string
+          target_per_day: number | null
+        }
+        Insert: {
+          buyer: string
+          created_at?: string
+          factory_id: string
+          id?: string
+          item?: string | null
+          order_qty: number
+          planned_ex_factory?: string | null
+          po_number: string
+          scenario_id: string
+          smv?: number | null
+          style: string
+          target_per_day?: number | null
+        }
+        Update: {
+          buyer?: string
+          created_at?: string
+          factory_id?: string
+          id?: string
+          item?: string | null
+          order_qty?: number
+          planned_ex_factory?: string | null
+          po_number?: string
+          scenario_id?: string
+          smv?: number | null
+          style?: string
+          target_per_day?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_scenario_orders_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_scenario_orders_scenario_id_fkey"
+            columns: ["scenario_id"]
+            isOneToOne: false
+            referencedRelation: "schedule_scenarios"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_scenarios: {
+        Row: {
+          base_revision: number | null
+          created_at: string
+          created_by: string | null
+          factory_id: string
+          id: string
+          name: string
+          notes: string | null
+          promoted_at: string | null
+          promoted_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          base_revision?: number | null
+          created_at?: string
+          created_by?: string | null
+          factory_id: string
+          id?: string
+          name: string
+          notes?: string | null
+          promoted_at?: string | null
+          promoted_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          base_revision?: number | null
+          created_at?: string
+          created_by?: string | null
+          factory_id?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          promoted_at?: string | null
+          promoted_by?: string | null
+          status?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "sales_contracts_factory_id_fkey"
+            foreignKeyName: "schedule_scenarios_factory_id_fkey"
             columns: ["factory_id"]
             isOneToOne: false
             referencedRelation: "factory_accounts"
@@ -6367,6 +7808,7 @@ export type Database = {
           reject_today: number
           remarks: string | null
           rework_today: number
+          size_breakdown: Json | null
           style_code: string | null
           submitted_at: string | null
           submitted_by: string | null
@@ -6406,6 +7848,7 @@ export type Database = {
           reject_today?: number
           remarks?: string | null
           rework_today?: number
+          size_breakdown?: Json | null
           style_code?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -6445,6 +7888,7 @@ export type Database = {
           reject_today?: number
           remarks?: string | null
           rework_today?: number
+          size_breakdown?: Json | null
           style_code?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -6489,6 +7933,98 @@ export type Database = {
           },
         ]
       }
+      sewing_hourly_logs: {
+        Row: {
+          defect_count: number
+          factory_id: string
+          good_qty: number
+          hour_slot: string
+          id: string
+          is_locked: boolean
+          line_id: string
+          production_date: string
+          reject_qty: number
+          remarks: string | null
+          rework_qty: number
+          shift_id: string | null
+          submitted_at: string
+          submitted_by: string | null
+          target_qty: number
+          updated_at: string | null
+          updated_by: string | null
+          work_order_id: string
+        }
+        Insert: {
+          defect_count?: number
+          factory_id: string
+          good_qty?: number
+          hour_slot: string
+          id?: string
+          is_locked?: boolean
+          line_id: string
+          production_date: string
+          reject_qty?: number
+          remarks?: string | null
+          rework_qty?: number
+          shift_id?: string | null
+          submitted_at?: string
+          submitted_by?: string | null
+          target_qty?: number
+          updated_at?: string | null
+          updated_by?: string | null
+          work_order_id: string
+        }
+        Update: {
+          defect_count?: number
+          factory_id?: string
+          good_qty?: number
+          hour_slot?: string
+          id?: string
+          is_locked?: boolean
+          line_id?: string
+          production_date?: string
+          reject_qty?: number
+          remarks?: string | null
+          rework_qty?: number
+          shift_id?: string | null
+          submitted_at?: string
+          submitted_by?: string | null
+          target_qty?: number
+          updated_at?: string | null
+          updated_by?: string | null
+          work_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sewing_hourly_logs_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sewing_hourly_logs_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sewing_hourly_logs_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "factory_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sewing_hourly_logs_work_order_id_fkey"
+            columns: ["work_order_id"]
+            isOneToOne: false
+            referencedRelation: "work_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sewing_targets: {
         Row: {
           buyer_name: string | null
@@ -6861,6 +8397,95 @@ export type Database = {
           },
         ]
       }
+      tna_template_items: {
+        Row: {
+          created_at: string
+          days_before: number
+          factory_id: string
+          id: string
+          item_order: number
+          label: string
+          milestone_code: string
+          template_id: string
+        }
+        Insert: {
+          created_at?: string
+          days_before: number
+          factory_id: string
+          id?: string
+          item_order: number
+          label: string
+          milestone_code: string
+          template_id: string
+        }
+        Update: {
+          created_at?: string
+          days_before?: number
+          factory_id?: string
+          id?: string
+          item_order?: number
+          label?: string
+          milestone_code?: string
+          template_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tna_template_items_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tna_template_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "tna_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tna_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          factory_id: string
+          id: string
+          is_default: boolean
+          name: string
+          product_category: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          factory_id: string
+          id?: string
+          is_default?: boolean
+          name: string
+          product_category?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          factory_id?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          product_category?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tna_templates_factory_id_fkey"
+            columns: ["factory_id"]
+            isOneToOne: false
+            referencedRelation: "factory_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       units: {
         Row: {
           code: string
@@ -7073,6 +8698,8 @@ export type Database = {
           planned_ex_factory: string | null
           po_number: string
           selling_price: number | null
+          size_breakdown: Json | null
+          sizes: string[]
           smv: number | null
           status: string | null
           style: string
@@ -7105,6 +8732,8 @@ export type Database = {
           planned_ex_factory?: string | null
           po_number: string
           selling_price?: number | null
+          size_breakdown?: Json | null
+          sizes?: string[]
           smv?: number | null
           status?: string | null
           style: string
@@ -7137,6 +8766,8 @@ export type Database = {
           planned_ex_factory?: string | null
           po_number?: string
           selling_price?: number | null
+          size_breakdown?: Json | null
+          sizes?: string[]
           smv?: number | null
           status?: string | null
           style?: string
@@ -7177,6 +8808,22 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_cost_sheet_header: {
+        Args: { p_header: Json; p_sheet_id: string }
+        Returns: undefined
+      }
+      apply_invoice_header: {
+        Args: { p_header: Json; p_invoice_id: string }
+        Returns: undefined
+      }
+      apply_sales_contract_header: {
+        Args: { p_contract_id: string; p_header: Json }
+        Returns: undefined
+      }
+      apply_tna_plan: {
+        Args: { p_plan: Json; p_template_id: string; p_work_order_id: string }
+        Returns: undefined
+      }
       broadcast_notification: {
         Args: { p_data?: Json; p_message: string; p_title: string }
         Returns: number
@@ -7193,6 +8840,22 @@ export type Database = {
         Returns: Json
       }
       count_active_lines: { Args: { _factory_id: string }; Returns: number }
+      create_cost_sheet: {
+        Args: { p_header: Json; p_lines: Json }
+        Returns: string
+      }
+      create_master_lc: {
+        Args: { p_documents?: Json; p_lc: Json }
+        Returns: string
+      }
+      create_sales_contract: {
+        Args: { p_header: Json; p_items?: Json }
+        Returns: string
+      }
+      create_schedule_scenario: {
+        Args: { p_name: string; p_notes?: string }
+        Returns: string
+      }
       factory_has_active_access: {
         Args: { _factory_id: string }
         Returns: boolean
@@ -7224,9 +8887,39 @@ export type Database = {
       }
       is_admin_or_higher: { Args: { _user_id: string }; Returns: boolean }
       is_buyer_role: { Args: { _user_id: string }; Returns: boolean }
+      is_factory_working_day: {
+        Args: { p_date: string; p_factory_id: string }
+        Returns: boolean
+      }
       is_qc_role: { Args: { _user_id: string }; Returns: boolean }
       is_superadmin: { Args: { _user_id: string }; Returns: boolean }
       is_supervisor_or_higher: { Args: { _user_id: string }; Returns: boolean }
+      line_wip_input: {
+        Args: { p_as_of: string; p_factory_id: string }
+        Returns: {
+          buyer: string
+          day_input: number
+          line_id: string
+          po_number: string
+          production_date: string
+          style: string
+          work_order_id: string
+        }[]
+      }
+      line_wip_output: {
+        Args: { p_as_of: string; p_factory_id: string; p_since: string }
+        Returns: {
+          buyer: string
+          cumulative_good_total: number
+          good_today: number
+          line_id: string
+          po_number: string
+          production_date: string
+          rework_today: number
+          style: string
+          work_order_id: string
+        }[]
+      }
       log_security_event: {
         Args: {
           p_details?: Json
@@ -7239,6 +8932,10 @@ export type Database = {
         Returns: undefined
       }
       notify_schedule_start: { Args: never; Returns: undefined }
+      next_invoice_number: {
+        Args: { p_factory_id: string; p_invoice_type: string; p_issue_date: string }
+        Returns: string
+      }
       process_daily_summary: {
         Args: { p_factory_id: string; p_factory_name: string; p_today: string }
         Returns: undefined
@@ -7253,10 +8950,71 @@ export type Database = {
           p_factory_id: string
           p_factory_name: string
           p_morning_cutoff: string
+          p_shift_id?: string
+          p_shift_name?: string
+          p_shift_start?: string
           p_today: string
         }
         Returns: undefined
       }
+      promote_schedule_scenario: {
+        Args: { p_confirmed_revision?: number; p_scenario_id: string }
+        Returns: number
+      }
+      qc_add_photos: {
+        Args: { p_id: string; p_target: string; p_urls: string[] }
+        Returns: undefined
+      }
+      qc_publish_template: {
+        Args: { p_change_note?: string; p_template_id: string }
+        Returns: undefined
+      }
+      qc_remove_photo: {
+        Args: { p_id: string; p_target: string; p_url: string }
+        Returns: undefined
+      }
+      qc_save_defect_check: {
+        Args: {
+          p_check_date: string
+          p_check_id?: string
+          p_check_point: string
+          p_factory_id: string
+          p_hour_slot: string
+          p_items: Json
+          p_line_id: string
+          p_notes?: string
+          p_operator_name?: string
+          p_pieces_checked: number
+          p_shift_id?: string
+          p_work_order_id: string
+        }
+        Returns: string
+      }
+      qc_save_spec_sheet: {
+        Args: {
+          p_buyer?: string
+          p_factory_id: string
+          p_is_active: boolean
+          p_name: string
+          p_notes?: string
+          p_points: Json
+          p_sheet_id?: string
+          p_sizes: string[]
+          p_style: string
+          p_unit: string
+        }
+        Returns: string
+      }
+      qc_save_template_draft: {
+        Args: {
+          p_buyer?: string
+          p_change_note?: string
+          p_items: Json
+          p_name: string
+          p_template_id: string
+        }
+        Returns: undefined
+      }
       qc_start_daily_sheet: {
         Args: {
           p_fabric?: string
@@ -7279,6 +9037,66 @@ export type Database = {
         }
         Returns: string
       }
+      record_cut_lay_results: {
+        Args: { p_cut_date: string; p_line_id: string; p_results: Json }
+        Returns: number
+      }
+      record_lc_amendment: {
+        Args: { p_amendment: Json; p_lc_id: string }
+        Returns: number
+      }
+      replace_cost_sheet_lines: {
+        Args: { p_lines: Json; p_sheet_id: string }
+        Returns: undefined
+      }
+      replace_invoice_lines: {
+        Args: {
+          p_charges: Json
+          p_invoice_id: string
+          p_lines: Json
+          p_taxes: Json
+        }
+        Returns: undefined
+      }
+      save_cost_sheet: {
+        Args: { p_header: Json; p_lines: Json; p_sheet_id: string }
+        Returns: undefined
+      }
+      save_invoice: {
+        Args: {
+          p_charges: Json
+          p_header: Json
+          p_invoice_id?: string
+          p_lines: Json
+          p_taxes: Json
+        }
+        Returns: string
+      }
+      save_sales_contract: {
+        Args: {
+          p_amendment?: Json
+          p_contract_id: string
+          p_header: Json
+          p_items: Json
+        }
+        Returns: number
+      }
+      save_tna_template: {
+        Args: { p_items: Json; p_template: Json; p_template_id?: string }
+        Returns: string
+      }
+      schedule_scenario_live_changes: {
+        Args: { p_scenario_id: string }
+        Returns: {
+          end_date: string
+          is_new: boolean
+          line_name: string
+          plan_changed_at: string
+          po_number: string
+          schedule_id: string
+          start_date: string
+        }[]
+      }
       search_knowledge: {
         Args: {
           match_count?: number
@@ -7303,6 +9121,10 @@ export type Database = {
         Args: { _factory_id: string; _user_id: string }
         Returns: boolean
       }
+      write_sales_contract_items: {
+        Args: { p_contract_id: string; p_items: Json }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role:
@@ -7327,22 +9149,6 @@ export type Database = {
         | "scrapped"
         | "donated"
         | "adjustment"
-      finishing_hour_slot:
-        | "08-09"
-        | "09-10"
-        | "10-11"
-        | "11-12"
-        | "12-01"
-        | "02-03"
-        | "03-04"
-        | "04-05"
-        | "05-06"
-        | "06-07"
-        | "OT-1"
-        | "OT-2"
-        | "OT-3"
-        | "OT-4"
-        | "OT-5"
       finishing_log_type: "TARGET" | "OUTPUT"
       subscription_tier:
         | "starter"
@@ -7504,23 +9310,6 @@ export const Constants = {
         "donated",
         "adjustment",
       ],
-      finishing_hour_slot: [
-        "08-09",
-        "09-10",
-        "10-11",
-        "11-12",
-        "12-01",
-        "02-03",
-        "03-04",
-        "04-05",
-        "05-06",
-        "06-07",
-        "OT-1",
-        "OT-2",
-        "OT-3",
-        "OT-4",
-        "OT-5",
-      ],
       finishing_log_type: ["TARGET", "OUTPUT"],
       subscription_tier: [
         "starter",
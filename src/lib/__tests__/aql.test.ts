@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  aqlPlanFor,
+  aqlVerdict,
+  codeLetterFor,
+  countDefects,
+  DEFAULT_AQL_LEVELS,
+  formatAql,
+  samplingPlanFor,
+} from "../aql";
+
+describe("codeLetterFor", () => {
+  it("reads Table I by lot size and inspection level", () => {
+    expect(codeLetterFor(8, "II")).toBe("A");
+    expect(codeLetterFor(9, "II")).toBe("B");
+    expect(codeLetterFor(1000, "I")).toBe("G");
+    expect(codeLetterFor(1000, "II")).toBe("J");
+    expect(codeLetterFor(1000, "III")).toBe("K");
+    expect(codeLetterFor(3201, "II")).toBe("L");
+    expect(codeLetterFor(1_000_000, "III")).toBe("R");
+  });
+});
+
+describe("samplingPlanFor", () => {
+  it("gives the Table II-A accept and reject numbers", () => {
+    expect(samplingPlanFor("J", 2.5)).toEqual({ aql: 2.5, sampleSize: 80, ac: 5, re: 6 });
+    expect(samplingPlanFor("J", 4)).toMatchObject({ sampleSize: 80, ac: 7, re: 8 });
+    expect(samplingPlanFor("J", 1.5)).toMatchObject({ sampleSize: 80, ac: 3, re: 4 });
+    expect(samplingPlanFor("J", 1)).toMatchObject({ sampleSize: 80, ac: 2, re: 3 });
+    expect(samplingPlanFor("L", 2.5)).toMatchObject({ sampleSize: 200, ac: 10, re: 11 });
+  });
+
+  it("follows the arrows to the nearest plan", () => {
+    // Down arrow above 0/1: use the 0/1 plan's sample
+    expect(samplingPlanFor("A", 2.5)).toMatchObject({ sampleSize: 5, ac: 0, re: 1 });
+    // Up arrow just below 0/1
+    expect(samplingPlanFor("D", 2.5)).toMatchObject({ sampleSize: 5, ac: 0, re: 1 });
+    // Down arrow to 1/2
+    expect(samplingPlanFor("E", 2.5)).toMatchObject({ sampleSize: 20, ac: 1, re: 2 });
+    // Up arrow back to 21/22 at the bottom of the column
+    expect(samplingPlanFor("R", 4)).toMatchObject({ sampleSize: 315, ac: 21, re: 22 });
+  });
+
+  it("accepts no defects at AQL 0", () => {
+    expect(samplingPlanFor("K", 0)).toEqual({ aql: 0, sampleSize: 125, ac: 0, re: 1 });
+  });
+});
+
+describe("aqlPlanFor", () => {
+  it("plans every class and pulls the largest sample", () => {
+    const plan = aqlPlanFor(1000, "II", DEFAULT_AQL_LEVELS);
+    expect(plan.codeLetter).toBe("J");
+    expect(plan.sampleSize).toBe(80);
+    expect(plan.plans.critical).toMatchObject({ ac: 0, re: 1 });
+    expect(plan.plans.major).toMatchObject({ ac: 5, re: 6 });
+    expect(plan.plans.minor).toMatchObject({ ac: 7, re: 8 });
+  });
+
+  it("caps the sample at the lot quantity", () => {
+    const plan = aqlPlanFor(4, "III", { critical: 0, major: 1, minor: 4 });
+    // Code letter B, AQL 1.0 points down to E (13 pcs)
+    expect(plan.codeLetter).toBe("B");
+    expect(plan.plans.major.sampleSize).toBe(4);
+    expect(plan.sampleSize).toBe(4);
+  });
+});
+
+describe("aqlVerdict", () => {
+  const { plans } = aqlPlanFor(1000, "II", DEFAULT_AQL_LEVELS);
+
+  it("passes while every class stays under its reject number", () => {
+    const counts = countDefects([
+      { severity: "major", quantity: 3 },
+      { severity: "major", quantity: 2 },
+      { severity: "minor", quantity: 7 },
+    ]);
+    expect(counts).toEqual({ critical: 0, major: 5, minor: 7 });
+    expect(aqlVerdict(plans, counts)).toEqual({ result: "pass", failedClasses: [] });
+  });
+
+  it("fails on a single critical defect or a class at its reject number", () => {
+    expect(aqlVerdict(plans, { critical: 1, major: 0, minor: 0 }).failedClasses).toEqual(["critical"]);
+    expect(aqlVerdict(plans, { critical: 0, major: 6, minor: 8 })).toEqual({
+      result: "fail",
+      failedClasses: ["major", "minor"],
+    });
+  });
+});
+
+describe("formatAql", () => {
+  it("shows one decimal and spells out zero tolerance", () => {
+    expect(formatAql(0)).toBe("0 (none)");
+    expect(formatAql(4)).toBe("4.0");
+    expect(formatAql(1.5)).toBe("1.5");
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { lineDailyCapacity, lineFreeDates, planOrders, type PlanLine, type PlanOrder } from "../auto-schedule";
+import { EMPTY_CALENDAR, buildWorkingCalendar } from "../working-days";
+
+const line = (id: string, manpower: number | null = 40): PlanLine => ({
+  id,
+  label: id,
+  manpower,
+  target_efficiency: 50,
+  target_per_day: null,
+});
+
+const order = (id: string, qty: number, exFactory: string | null, smv: number | null = 10): PlanOrder => ({
+  id,
+  po_number: id,
+  order_qty: qty,
+  smv,
+  target_per_day: null,
+  planned_ex_factory: exFactory,
+});
+
+// 40 operators × 480 min × 50% ÷ 10 SMV = 960 pcs/day
+const options = { startDate: "2026-03-02", minutesPerDay: 480, maxLinesPerOrder: 1 };
+
+describe("capacity", () => {
+  it("uses manpower, minutes, efficiency and SMV, falling back to flat targets", () => {
+    expect(lineDailyCapacity(line("L1"), order("A", 1000, null), 480)).toBe(960);
+    expect(lineDailyCapacity({ ...line("L1", null), target_per_day: 700 }, order("A", 1000, null), 480)).toBe(700);
+    expect(lineDailyCapacity(line("L1"), order("A", 1000, null, null), 480)).toBe(0);
+  });
+
+  it("loads lines after their open bookings", () => {
+    const free = lineFreeDates([line("L1"), line("L2")], [
+      { line_id: "L1", start_date: "2026-03-01", end_date: "2026-03-05", status: "in_progress" },
+      { line_id: "L2", start_date: "2026-03-01", end_date: "2026-03-09", status: "completed" },
+    ], "2026-03-02");
+    expect(free.get("L1")).toBe("2026-03-06");
+    expect(free.get("L2")).toBe("2026-03-02");
+  });
+});
+
+describe("planOrders", () => {
+  it("places earliest deadlines first and skips non-working days", () => {
+    const cal = buildWorkingCalendar([5], []); // Fridays off
+    const plan = planOrders(
+      [order("LATER", 960, "2026-04-30"), order("SOON", 2880, "2026-03-10")],
+      [line("L1")],
+      [],
+      cal,
+      options,
+    );
+    expect(plan.planned.map((p) => p.order.id)).toEqual(["SOON", "LATER"]);
+    // Mon 2 – Wed 4 covers 3 days of 960
+    expect(plan.planned[0].allocations[0]).toMatchObject({ start_date: "2026-03-02", end_date: "2026-03-04", target_qty: 2880 });
+    // Thu 5 is next; a single day finishes LATER
+    expect(plan.planned[1].allocations[0]).toMatchObject({ start_date: "2026-03-05", end_date: "2026-03-05" });
+  });
+
+  it("splits a late order across lines when that pulls it back on time", () => {
+    const orders = [order("BIG", 3840, "2026-03-03")];
+    const single = planOrders(orders, [line("L1"), line("L2")], [], EMPTY_CALENDAR, options);
+    expect(single.planned[0].days_late).toBe(2);
+
+    const split = planOrders(orders, [line("L1"), line("L2")], [], EMPTY_CALENDAR, { ...options, maxLinesPerOrder: 2 });
+    expect(split.planned[0].allocations).toHaveLength(2);
+    expect(split.planned[0].finish_date).toBe("2026-03-03");
+    expect(split.planned[0].allocations.reduce((s, a) => s + a.target_qty, 0)).toBe(3840);
+  });
+
+  it("ramps a line up when it changes style", () => {
+    const booking = { line_id: "L1", start_date: "2026-02-20", end_date: "2026-03-01", status: "in_progress", style: "TEE" };
+    const curves = [{ id: "c", name: "Default", steps: [50, 100], line_id: null, product_category: null, is_default: true }];
+    const run = (style: string) =>
+      planOrders([{ ...order("A", 1920, null), style }], [line("L1")], [booking], EMPTY_CALENDAR, { ...options, curves });
+    // Same style keeps full speed: 960 + 960
+    expect(run("TEE").planned[0].finish_date).toBe("2026-03-03");
+    // New style: 480 + 960 + 480
+    expect(run("POLO").planned[0].finish_date).toBe("2026-03-04");
+  });
+
+  it("reports orders no line can make", () => {
+    const plan = planOrders([order("NOSMV", 500, null, null)], [line("L1")], [], EMPTY_CALENDAR, options);
+    expect(plan.planned).toHaveLength(0);
+    expect(plan.unplaced[0].order.id).toBe("NOSMV");
+  });
+});
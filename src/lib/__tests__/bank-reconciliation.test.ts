@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseStatementDate,
+  parseStatementAmount,
+  parseCsvStatement,
+  parseMt940,
+  detectStatementFormat,
+  statementLineKey,
+  newStatementLines,
+  paymentBankAmount,
+  scoreMatch,
+  autoMatch,
+  withRunningBalance,
+  toUsd,
+  type MatchCandidate,
+  type LedgerLine,
+} from "../bank-reconciliation";
+
+describe("statement values", () => {
+  it("reads day-first, ISO and month-name dates", () => {
+    expect(parseStatementDate("2026-03-05")).toBe("2026-03-05");
+    expect(parseStatementDate("05/03/2026")).toBe("2026-03-05");
+    expect(parseStatementDate("5-Mar-26")).toBe("2026-03-05");
+    expect(parseStatementDate("05 March 2026")).toBe("2026-03-05");
+    expect(parseStatementDate("Total")).toBeNull();
+  });
+
+  it("reads signed and suffixed amounts", () => {
+    expect(parseStatementAmount("1,234.50")).toBe(1234.5);
+    expect(parseStatementAmount("(50.00)")).toBe(-50);
+    expect(parseStatementAmount("75.25 DR")).toBe(-75.25);
+    expect(parseStatementAmount("")).toBe(0);
+    expect(parseStatementAmount("abc")).toBe(0);
+  });
+});
+
+describe("parseCsvStatement", () => {
+  it("skips preamble rows and reads debit/credit columns", () => {
+    const csv = [
+      "Dhaka Bank Ltd,,,,",
+      "Account,0123456789,,,",
+      "Txn Date,Particulars,Cheque No,Withdrawal,Deposit,Balance",
+      '01/03/2026,"Opening, carried",,,,"10,000.00"',
+      '02/03/2026,TT INWARD INV-001,REF1,,"5,000.00","15,000.00"',
+      "03/03/2026,LC charges,,120.00,,14880.00",
+      "xx/03/2026,Broken,,1.00,,",
+      "Total,,,120.00,5000.00,",
+    ].join("\n");
+    const s = parseCsvStatement(csv);
+    expect(s.lines).toHaveLength(2);
+    expect(s.lines[0]).toEqual({
+      transaction_date: "2026-03-02",
+      description: "TT INWARD INV-001",
+      reference: "REF1",
+      debit: 0,
+      credit: 5000,
+      balance: 15000,
+    });
+    expect(s.lines[1].debit).toBe(120);
+    expect(s.errors).toHaveLength(1);
+  });
+
+  it("splits a signed amount column", () => {
+    const s = parseCsvStatement("Date;Description;Amount\n2026-03-02;Fee;-12,50\n2026-03-03;Receipt;1.100,00");
+    expect(s.lines.map((l) => [l.debit, l.credit])).toEqual([[12.5, 0], [0, 1100]]);
+  });
+
+  it("reports a file without a usable header", () => {
+    expect(parseCsvStatement("foo,bar\n1,2").errors).toHaveLength(1);
+  });
+});
+
+describe("parseMt940", () => {
+  const mt940 = [
+    ":20:STMT001",
+    ":25:DBBLBDDH/0123456789",
+    ":28C:1/1",
+    ":60F:C260301USD10000,00",
+    ":61:2603020302C5000,00NTRFINV-001//BK123",
+    ":86:TT INWARD FROM ACME",
+    "BUYER PAYMENT",
+    ":61:2603030303D120,00NCHGNONREF//BK124",
+    ":86:LC ADVISING CHARGES",
+    ":62F:C260303USD14880,00",
+    "-}",
+  ].join("\n");
+
+  it("is detected by its tags", () => {
+    expect(detectStatementFormat(mt940)).toBe("mt940");
+    expect(detectStatementFormat("Date,Amount\n")).toBe("csv");
+    expect(detectStatementFormat("", "march.sta")).toBe("mt940");
+  });
+
+  it("reads lines, narratives and rolls balances forward", () => {
+    const s = parseMt940(mt940);
+    expect(s.openingBalance).toBe(10000);
+    expect(s.closingBalance).toBe(14880);
+    expect(s.lines).toHaveLength(2);
+    expect(s.lines[0]).toMatchObject({ transaction_date: "2026-03-02", credit: 5000, debit: 0, reference: "INV-001", balance: 15000 });
+    expect(s.lines[0].description).toBe("TT INWARD FROM ACME BUYER PAYMENT");
+    expect(s.lines[1]).toMatchObject({ debit: 120, reference: "BK124", balance: 14880 });
+  });
+});
+
+describe("matching", () => {
+  const line = (id: string, date: string, credit: number, debit = 0, reference: string | null = null): LedgerLine => ({
+    id, transaction_date: date, credit, debit, reference, description: null, currency: "USD",
+  });
+  const cand = (id: string, date: string, amount: number, direction: "in" | "out", reference: string | null = null): MatchCandidate => ({
+    kind: "payment", id, date, amount, direction, currency: "USD", reference, label: id,
+  });
+
+  it("values payments at what hit the bank", () => {
+    expect(paymentBankAmount({ direction: "inbound", original_amount: 1000, net_amount_credited: null, bank_deductions: 25 })).toBe(975);
+    expect(paymentBankAmount({ direction: "inbound", original_amount: 1000, net_amount_credited: 980, bank_deductions: 25 })).toBe(980);
+    expect(paymentBankAmount({ direction: "outbound", original_amount: 300, net_amount_credited: null, bank_deductions: 5 })).toBe(300);
+  });
+
+  it("grades by reference, then date distance", () => {
+    expect(scoreMatch(line("t", "2026-03-02", 500, 0, "TT/INV-001"), cand("p", "2026-02-20", 500, "in", "INV-001"))).toBe("high");
+    expect(scoreMatch(line("t", "2026-03-02", 500), cand("p", "2026-03-04", 500, "in"))).toBe("medium");
+    expect(scoreMatch(line("t", "2026-03-02", 500), cand("p", "2026-03-10", 500, "in"))).toBe("low");
+    expect(scoreMatch(line("t", "2026-03-02", 500), cand("p", "2026-03-02", 500, "out"))).toBeNull();
+    expect(scoreMatch(line("t", "2026-03-02", 500), cand("p", "2026-03-02", 499, "in"))).toBeNull();
+    expect(scoreMatch({ ...line("t", "2026-03-02", 500), currency: "BDT" }, cand("p", "2026-03-02", 500, "in"))).toBeNull();
+  });
+
+  it("pairs one-to-one, closest first, and leaves low confidence for review", () => {
+    const lines = [line("a", "2026-03-05", 100), line("b", "2026-03-02", 100), line("c", "2026-03-20", 100)];
+    const candidates = [cand("p1", "2026-03-02", 100, "in"), cand("p2", "2026-03-12", 100, "in")];
+    const result = autoMatch(lines, candidates);
+    expect(result.map((r) => [r.transactionId, r.candidate.id])).toEqual([["b", "p1"]]);
+    expect(autoMatch(lines, candidates, "low").map((r) => [r.transactionId, r.candidate.id])).toEqual([
+      ["b", "p1"],
+      ["a", "p2"],
+    ]);
+  });
+});
+
+describe("balances", () => {
+  it("follows statement balances and fills gaps", () => {
+    const rows = withRunningBalance([
+      { transaction_date: "2026-03-03", debit: 50, credit: 0, balance: null },
+      { transaction_date: "2026-03-01", debit: 0, credit: 0, balance: 1000 },
+      { transaction_date: "2026-03-02", debit: 0, credit: 200, balance: null },
+    ]);
+    expect(rows.map((r) => r.running)).toEqual([1000, 1200, 1150]);
+  });
+
+  it("keys duplicates and converts BDT", () => {
+    const a = { transaction_date: "2026-03-01", debit: 0, credit: 10, reference: " Ref1 ", description: "x" };
+    expect(statementLineKey(a)).toBe(statementLineKey({ ...a, reference: "ref1", description: "y" }));
+    expect(toUsd(12000, "BDT", 120)).toBe(100);
+    expect(toUsd(50, "USD", null)).toBe(50);
+    expect(toUsd(50, "EUR", 120)).toBeNull();
+  });
+
+  it("keeps identical lines beyond the copies already on file", () => {
+    const fee = { transaction_date: "2026-03-01", debit: 5, credit: 0, reference: null, description: "Charge" };
+    const pay = { transaction_date: "2026-03-01", debit: 0, credit: 80, reference: "INV-1", description: null };
+    expect(newStatementLines([], [fee, fee, pay])).toEqual([fee, fee, pay]);
+    expect(newStatementLines([fee, pay], [fee, fee, pay])).toEqual([fee]);
+    expect(newStatementLines([fee, fee, pay], [fee, fee, pay])).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyScan,
+  bundleCode,
+  lineWip,
+  normaliseScan,
+  planBundles,
+  staleBundles,
+  type CutBundle,
+} from "../bundles";
+
+const bundle = (over: Partial<CutBundle>): CutBundle => ({
+  id: "b",
+  work_order_id: "wo",
+  cutting_actual_id: null,
+  bundle_no: 1,
+  code: "PO1-0001",
+  colour: "Navy",
+  size: "M",
+  shade: null,
+  ply_from: 1,
+  ply_to: 20,
+  quantity: 20,
+  status: "cut",
+  line_id: null,
+  issued_at: null,
+  completed_at: null,
+  created_at: "2026-10-10T08:00:00Z",
+  ...over,
+});
+
+describe("bundle codes", () => {
+  it("numbers bundles through the PO and matches what a scan reads", () => {
+    expect(bundleCode("po 4411", 7)).toBe("PO-4411-0007");
+    expect(normaliseScan("  po-4411-0007\n")).toBe("PO-4411-0007");
+  });
+});
+
+describe("planBundles", () => {
+  it("splits each colour and size into bundles with running ply ranges", () => {
+    const drafts = planBundles(
+      [{ colour: "Navy", quantities: { M: 45, S: 20 } }],
+      ["S", "M"],
+      { pieces_per_bundle: 20, shade: " A " },
+      "PO1",
+      5
+    );
+    expect(drafts.map((d) => [d.bundle_no, d.size, d.ply_from, d.ply_to, d.quantity])).toEqual([
+      [5, "S", 1, 20, 20],
+      [6, "M", 1, 20, 20],
+      [7, "M", 21, 40, 20],
+      [8, "M", 41, 45, 5],
+    ]);
+    expect(drafts[0].shade).toBe("A");
+    expect(drafts[3].code).toBe("PO1-0008");
+  });
+
+  it("continues ply ranges after bundles already made", () => {
+    const drafts = planBundles(
+      [{ colour: "Navy", quantities: { M: 10 } }],
+      ["M"],
+      { pieces_per_bundle: 20, shade: null },
+      "PO1",
+      4,
+      [bundle({ ply_to: 40 }), bundle({ colour: "Red", ply_to: 90 })]
+    );
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0]).toMatchObject({ ply_from: 41, ply_to: 50, quantity: 10 });
+  });
+});
+
+describe("applyScan", () => {
+  it("issues a cut bundle to a line, then completes it there", () => {
+    expect(applyScan(bundle({}), "issue", "L1")).toEqual({ ok: true, update: { status: "issued", line_id: "L1" } });
+    expect(applyScan(bundle({ status: "issued", line_id: "L1" }), "complete", "L1")).toEqual({
+      ok: true,
+      update: { status: "completed" },
+    });
+    expect(applyScan(bundle({ status: "issued", line_id: "L1" }), "complete", null).ok).toBe(true);
+  });
+
+  it("rejects scans out of order", () => {
+    expect(applyScan(bundle({}), "issue", null)).toEqual({ ok: false, reason: "no_line" });
+    expect(applyScan(bundle({}), "complete", "L1")).toEqual({ ok: false, reason: "not_issued" });
+    expect(applyScan(bundle({ status: "issued", line_id: "L1" }), "issue", "L2")).toEqual({ ok: false, reason: "already_issued" });
+    expect(applyScan(bundle({ status: "issued", line_id: "L1" }), "complete", "L2")).toEqual({ ok: false, reason: "wrong_line" });
+    expect(applyScan(bundle({ status: "completed" }), "complete", null)).toEqual({ ok: false, reason: "already_completed" });
+  });
+});
+
+describe("tracking", () => {
+  const bundles = [
+    bundle({ id: "1", status: "issued", line_id: "L1", quantity: 20, issued_at: "2026-10-12T08:00:00Z" }),
+    bundle({ id: "2", status: "issued", line_id: "L1", quantity: 15, issued_at: "2026-10-11T08:00:00Z" }),
+    bundle({ id: "3", status: "issued", line_id: "L2", quantity: 50, issued_at: "2026-10-13T08:00:00Z" }),
+    bundle({ id: "4", status: "cut", created_at: "2026-10-09T08:00:00Z" }),
+    bundle({ id: "5", status: "completed", line_id: "L1" }),
+  ];
+
+  it("sums open bundles per line", () => {
+    expect(lineWip(bundles)).toEqual([
+      { lineId: "L2", bundles: 1, pieces: 50, oldestIssuedAt: "2026-10-13T08:00:00Z" },
+      { lineId: "L1", bundles: 2, pieces: 35, oldestIssuedAt: "2026-10-11T08:00:00Z" },
+    ]);
+  });
+
+  it("flags bundles that stopped moving, oldest first", () => {
+    const stale = staleBundles(bundles, new Date("2026-10-13T12:00:00Z"));
+    expect(stale.map((b) => b.id)).toEqual(["4", "2"]);
+  });
+});
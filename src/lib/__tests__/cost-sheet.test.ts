@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  fabricCostPerDozen,
+  trimCostPerDozen,
+  calcCmPerDozen,
+  calcCostBreakdown,
+  analysePricing,
+  workOrderCostingUpdate,
+  toSheetCurrency,
+  missingExchangeRates,
+  applyToWorkOrderBlocker,
+} from "../cost-sheet";
+
+describe("line calculators", () => {
+  it("applies wastage to fabric consumption", () => {
+    expect(fabricCostPerDozen({ consumption_per_dozen: 2, price_per_unit: 3, wastage_pct: 5 }, "USD")).toBeCloseTo(6.3);
+  });
+
+  it("converts foreign-currency lines using units per sheet currency", () => {
+    expect(toSheetCurrency(1100, { currency: "BDT", exchange_rate: 110 }, "USD")).toBe(10);
+    expect(toSheetCurrency(1100, { currency: "BDT", exchange_rate: null }, "USD")).toBe(1100);
+    expect(toSheetCurrency(5, { currency: null }, "USD")).toBe(5);
+  });
+
+  it("ignores buyer-supplied trims", () => {
+    expect(trimCostPerDozen({ qty_per_garment: 2, unit_price: 0.05, is_buyer_supplied: false }, "USD")).toBeCloseTo(1.2);
+    expect(trimCostPerDozen({ qty_per_garment: 2, unit_price: 0.05, is_buyer_supplied: true }, "USD")).toBe(0);
+  });
+});
+
+describe("calcCmPerDozen", () => {
+  const base = { sam: 10, efficiency_pct: 50, labour_cost_per_minute: 0.05, overhead_type: "percent", overhead_value: 20, cm_per_dozen: null };
+
+  it("derives CM from SAM, efficiency and labour rate with percentage overhead", () => {
+    // 10 × 12 / 0.5 = 240 min × 0.05 = 12, +20% = 14.4
+    expect(calcCmPerDozen(base)).toBeCloseTo(14.4);
+  });
+
+  it("adds a flat per-dozen overhead", () => {
+    expect(calcCmPerDozen({ ...base, overhead_type: "per_dozen", overhead_value: 1.5 })).toBeCloseTo(13.5);
+  });
+
+  it("falls back to the entered CM when SAM is missing", () => {
+    expect(calcCmPerDozen({ ...base, sam: null, cm_per_dozen: 9 })).toBe(9);
+    expect(calcCmPerDozen(null)).toBe(0);
+  });
+});
+
+describe("calcCostBreakdown", () => {
+  it("sums sections and applies percentage commercial on manufacturing cost", () => {
+    const b = calcCostBreakdown({
+      currency: "USD",
+      fabrics: [{ consumption_per_dozen: 2, price_per_unit: 5, wastage_pct: 0 }],
+      trims: [{ qty_per_garment: 1, unit_price: 0.5, is_buyer_supplied: false }],
+      processes: [{ cost_per_piece: 0.25 }],
+      cm: { sam: null, efficiency_pct: null, labour_cost_per_minute: null, overhead_type: null, overhead_value: null, cm_per_dozen: 12 },
+      commercial: [
+        { amount: 10, cost_type: "percent" },
+        { amount: 1, cost_type: "fixed" },
+      ],
+    });
+    expect(b.fabric).toBe(10);
+    expect(b.trims).toBe(6);
+    expect(b.processes).toBe(3);
+    expect(b.cm).toBe(12);
+    expect(b.manufacturing).toBe(31);
+    expect(b.commercial).toBeCloseTo(4.1);
+    expect(b.totalPerDozen).toBeCloseTo(35.1);
+    expect(b.totalPerPiece).toBeCloseTo(2.925);
+  });
+});
+
+describe("analysePricing", () => {
+  it("computes margin at quoted and target prices", () => {
+    const p = analysePricing(
+      { currency: "USD", quoted_price: 4, buyer_target_price: 3.5, target_price_type: "per_piece", desired_margin_pct: 20 },
+      3,
+    );
+    expect(p.quotedMarginPct).toBe(25);
+    expect(p.targetMarginPct).toBeCloseTo(14.3);
+    expect(p.gapToTarget).toBe(0.5);
+    expect(p.suggestedPrice).toBe(3.75);
+    expect(p.belowDesiredMargin).toBe(false);
+  });
+
+  it("normalises per-dozen prices and flags thin margins", () => {
+    const p = analysePricing(
+      { currency: "USD", quoted_price: 36, buyer_target_price: null, target_price_type: "per_dozen", desired_margin_pct: 15 },
+      2.8,
+    );
+    expect(p.quotedPerPiece).toBe(3);
+    expect(p.targetPerPiece).toBeNull();
+    expect(p.belowDesiredMargin).toBe(true);
+  });
+
+  it("pushes CM and per-piece selling price to the work order", () => {
+    const breakdown = calcCostBreakdown({ currency: "USD", fabrics: [], trims: [], processes: [], commercial: [], cm: { sam: null, efficiency_pct: null, labour_cost_per_minute: null, overhead_type: null, overhead_value: null, cm_per_dozen: 8.5 } });
+    const pricing = analysePricing({ currency: "USD", quoted_price: 24, buyer_target_price: null, target_price_type: "per_dozen", desired_margin_pct: null }, breakdown.totalPerPiece);
+    expect(workOrderCostingUpdate(breakdown, pricing)).toEqual({ cm_per_dozen: 8.5, selling_price: 2 });
+  });
+
+  it("leaves the PO's price alone when the sheet has no quote", () => {
+    const breakdown = calcCostBreakdown({ currency: "USD", fabrics: [], trims: [], processes: [], commercial: [], cm: { sam: null, efficiency_pct: null, labour_cost_per_minute: null, overhead_type: null, overhead_value: null, cm_per_dozen: 8.5 } });
+    const pricing = analysePricing({ currency: "USD", quoted_price: null, buyer_target_price: null, target_price_type: null, desired_margin_pct: null }, breakdown.totalPerPiece);
+    expect(workOrderCostingUpdate(breakdown, pricing)).toEqual({ cm_per_dozen: 8.5 });
+  });
+});
+
+describe("validation", () => {
+  it("reports foreign-currency lines without an exchange rate", () => {
+    const issues = missingExchangeRates({
+      currency: "USD",
+      fabrics: [{ currency: "USD" }, { currency: "BDT", exchange_rate: null }],
+      trims: [{ currency: "BDT", exchange_rate: 0, is_buyer_supplied: true }],
+      processes: [{ currency: "BDT", exchange_rate: 110 }],
+      commercial: [{ currency: "EUR", cost_type: "percent" }, { currency: "EUR", cost_type: "fixed" }],
+    });
+    expect(issues).toEqual([
+      { section: "Fabric", row: 2, currency: "BDT" },
+      { section: "Commercial", row: 2, currency: "EUR" },
+    ]);
+  });
+
+  it("only applies complete USD sheets to a PO", () => {
+    expect(applyToWorkOrderBlocker("USD", [])).toBeNull();
+    expect(applyToWorkOrderBlocker(null, [])).toBeNull();
+    expect(applyToWorkOrderBlocker("EUR", [])).toMatch(/in EUR/);
+    expect(applyToWorkOrderBlocker("USD", [{ section: "Fabric", row: 1, currency: "BDT" }])).toMatch(/Fabric row 1/);
+  });
+});
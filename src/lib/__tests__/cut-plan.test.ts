@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  cutMatrix,
+  layMetrics,
+  layPieces,
+  proposeLays,
+  remainingToCut,
+  withAllowance,
+  type CutLay,
+  type PlannedLay,
+} from "../cut-plan";
+
+const SIZES = ["S", "M", "L"];
+
+const covered = (lays: PlannedLay[]) => {
+  const out: Record<string, number> = {};
+  for (const lay of lays) {
+    for (const [size, qty] of Object.entries(layPieces(lay, lay.plies))) out[size] = (out[size] ?? 0) + qty;
+  }
+  return out;
+};
+
+const lay = (overrides: Partial<CutLay>): CutLay => ({
+  id: "x",
+  lay_no: 1,
+  colour: "Navy",
+  marker_ratio: { S: 1, M: 2 },
+  plies: 50,
+  marker_length: 2.4,
+  marker_efficiency: 84,
+  status: "planned",
+  actual_plies: null,
+  fabric_used: null,
+  cut_date: null,
+  ...overrides,
+});
+
+describe("withAllowance", () => {
+  it("rounds each size up after the allowance and drops empty sizes", () => {
+    expect(withAllowance({ S: 100, M: 250, L: 0 }, 3)).toEqual({ S: 103, M: 258 });
+  });
+});
+
+describe("proposeLays", () => {
+  it("runs full-height lays first, then closes the remainder exactly", () => {
+    const lays = proposeLays(
+      [{ colour: "Navy", quantities: { S: 250, M: 400, L: 150 } }],
+      SIZES,
+      { allowance_pct: 0, max_plies: 100, max_marker_pieces: 6 },
+    );
+    expect(lays).toEqual([
+      { colour: "Navy", marker_ratio: { S: 2, M: 3, L: 1 }, plies: 100 },
+      { colour: "Navy", marker_ratio: { M: 1, S: 1, L: 1 }, plies: 50 },
+      { colour: "Navy", marker_ratio: { M: 1 }, plies: 50 },
+    ]);
+    expect(covered(lays)).toEqual({ S: 250, M: 400, L: 150 });
+  });
+
+  it("plans each colour separately with the allowance", () => {
+    const lays = proposeLays(
+      [
+        { colour: "Navy", quantities: { S: 97, M: 194 } },
+        { colour: "Red", quantities: { L: 60 } },
+      ],
+      SIZES,
+      { allowance_pct: 3, max_plies: 80, max_marker_pieces: 4 },
+    );
+    expect(covered(lays.filter((l) => l.colour === "Navy"))).toEqual({ S: 100, M: 200 });
+    expect(covered(lays.filter((l) => l.colour === "Red"))).toEqual({ L: 62 });
+    expect(lays.every((l) => l.plies <= 80 && Object.values(l.marker_ratio).reduce((a, b) => a + b, 0) <= 4)).toBe(true);
+  });
+});
+
+describe("remainingToCut", () => {
+  it("takes what cut lays gave off the quantity to cut, ignoring planned lays", () => {
+    const remaining = remainingToCut(
+      { allowance_pct: 0, max_plies: 100, max_marker_pieces: 6, breakdown: [{ colour: "Navy", quantities: { S: 40, M: 200 } }] },
+      [
+        lay({ status: "cut", actual_plies: 45 }),
+        lay({ lay_no: 2, marker_ratio: { M: 1 }, plies: 100 }),
+      ],
+    );
+    expect(remaining).toEqual([{ colour: "Navy", quantities: { S: 0, M: 110 } }]);
+  });
+});
+
+describe("layMetrics", () => {
+  it("works out fabric per dozen planned and actual", () => {
+    const m = layMetrics(lay({ status: "cut", actual_plies: 48, fabric_used: 118 }));
+    expect(m.plannedPieces).toBe(150);
+    expect(m.plannedFabric).toBe(120);
+    expect(m.plannedPerDozen).toBe(9.6);
+    expect(m.actualPieces).toBe(144);
+    expect(m.actualPerDozen).toBe(9.83);
+    expect(m.fabricVariance).toBe(2.8);
+  });
+
+  it("has no actuals before the lay is cut", () => {
+    const m = layMetrics(lay({ marker_length: null }));
+    expect(m.actualPieces).toBe(0);
+    expect(m.plannedFabric).toBeNull();
+    expect(m.fabricVariance).toBeNull();
+  });
+});
+
+describe("cutMatrix", () => {
+  it("rolls ordered, planned and cut pieces up by colour and size", () => {
+    const rows = cutMatrix(
+      [{ colour: "Navy", quantities: { S: 40, M: 90 } }],
+      SIZES,
+      [
+        lay({ lay_no: 1, status: "cut", actual_plies: 45 }),
+        lay({ lay_no: 2, colour: "Red", marker_ratio: { L: 1 }, plies: 10 }),
+      ],
+    );
+    expect(rows.map((r) => r.colour)).toEqual(["Navy", "Red"]);
+    expect(rows[0].cells.M).toEqual({ ordered: 90, planned: 100, cut: 90 });
+    expect(rows[0].cells.L).toEqual({ ordered: 0, planned: 0, cut: 0 });
+    expect(rows[0].total).toEqual({ ordered: 130, planned: 150, cut: 135 });
+    expect(rows[1].cells.L).toEqual({ ordered: 0, planned: 10, cut: 0 });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  availableMinutes,
+  earnedMinutes,
+  efficiencyPct,
+  summarizeEfficiency,
+  efficiencyByLine,
+  efficiencyByWorkOrder,
+  efficiencyByDate,
+  efficiencyByFloor,
+  toEfficiencyRecord,
+  efficiencyValue,
+  type EfficiencyRecord,
+} from "../efficiency";
+
+const rec = (over: Partial<EfficiencyRecord>): EfficiencyRecord => ({
+  date: "2026-10-01",
+  lineId: "L1",
+  workOrderId: "WO1",
+  floor: "F1",
+  output: 0,
+  smv: 10,
+  manpower: 0,
+  hours: 8,
+  otManpower: null,
+  otHours: null,
+  ...over,
+});
+
+describe("efficiency formula", () => {
+  it("divides earned by available minutes including overtime", () => {
+    expect(earnedMinutes(960, 12.5)).toBe(12000);
+    expect(availableMinutes(30, 8, 10, 2)).toBe((30 * 8 + 10 * 2) * 60);
+    expect(availableMinutes(30, null)).toBe(30 * 8 * 60);
+    expect(efficiencyPct(12000, 15600)).toBe(76.9);
+    expect(efficiencyPct(100, 0)).toBeNull();
+  });
+
+  it("leaves rows without SMV or manpower out of both sides", () => {
+    const t = summarizeEfficiency([
+      rec({ output: 1200, smv: 12, manpower: 40, hours: 8 }),
+      rec({ output: 500, smv: null, manpower: 20 }),
+      rec({ output: 100, smv: 12, manpower: 0 }),
+    ]);
+    expect(t.output).toBe(1800);
+    expect(t.measuredOutput).toBe(1200);
+    expect(t.unmeasuredOutput).toBe(600);
+    expect(t.earnedMinutes).toBe(14400);
+    expect(t.availableMinutes).toBe(19200);
+    expect(t.efficiency).toBe(75);
+    expect(summarizeEfficiency([rec({ output: 10, smv: null, manpower: 5 })]).efficiency).toBeNull();
+  });
+});
+
+describe("grouping", () => {
+  const records = [
+    rec({ lineId: "L1", workOrderId: "A", date: "2026-10-01", floor: "F1", output: 400, smv: 15, manpower: 25, hours: 8 }),
+    rec({ lineId: "L1", workOrderId: "B", date: "2026-10-02", floor: "F1", output: 600, smv: 10, manpower: 25, hours: 8 }),
+    rec({ lineId: "L2", workOrderId: "A", date: "2026-10-01", floor: "F2", output: 300, smv: 15, manpower: 20, hours: 10, otManpower: null }),
+  ];
+
+  it("weights by minutes rather than averaging percentages", () => {
+    const byLine = efficiencyByLine(records);
+    // (400×15 + 600×10) / (2 × 25 × 8 × 60)
+    expect(byLine.get("L1")?.efficiency).toBe(50);
+    expect(byLine.get("L2")?.efficiency).toBe(37.5);
+    expect(summarizeEfficiency(records).efficiency).toBe(Math.round(((6000 + 6000 + 4500) / 36000) * 1000) / 10);
+  });
+
+  it("groups by PO, day and floor", () => {
+    expect(efficiencyByWorkOrder(records).get("A")?.output).toBe(700);
+    expect([...efficiencyByDate(records).keys()]).toEqual(["2026-10-01", "2026-10-02"]);
+    expect(efficiencyByFloor(records).get("F2")?.efficiency).toBe(37.5);
+    expect(efficiencyByFloor([rec({ floor: null, output: 1, manpower: 1 })]).size).toBe(0);
+  });
+
+  it("maps sewing_actuals rows and rounds for display", () => {
+    const r = toEfficiencyRecord(
+      { production_date: "2026-10-01", line_id: "L1", work_order_id: "W", good_today: 50, manpower_actual: 5, hours_actual: null, ot_hours_actual: 1, ot_manpower_actual: 2 },
+      6,
+      { floor: "F1" },
+    );
+    expect(r).toMatchObject({ output: 50, smv: 6, manpower: 5, hours: null, otHours: 1, otManpower: 2, floor: "F1", unit: null });
+    expect(efficiencyValue(summarizeEfficiency([r]))).toBe(Math.round((300 / ((5 * 8 + 2) * 60)) * 100));
+    expect(efficiencyValue(undefined)).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  lineAmount,
+  calcInvoiceTotals,
+  deriveInvoiceStatus,
+  linesFromDispatches,
+  suggestAllocations,
+  agingBucket,
+  receivablesByBuyer,
+} from "../invoice-utils";
+
+describe("invoice totals", () => {
+  it("applies line discounts", () => {
+    expect(lineAmount({ quantity: 100, unit_price: 2.5 })).toBe(250);
+    expect(lineAmount({ quantity: 100, unit_price: 2.5, discount_type: "percent", discount_pct: 10 })).toBe(225);
+    expect(lineAmount({ quantity: 100, unit_price: 2.5, discount_type: "amount", discount_value: 20 })).toBe(230);
+  });
+
+  it("combines discount, percentage tax, charges and deductions", () => {
+    const t = calcInvoiceTotals({
+      lines: [{ quantity: 1000, unit_price: 3 }, { quantity: 500, unit_price: 2 }],
+      discount: { discount_type: "percent", discount_pct: 5, discount_value: null },
+      taxes: [{ amount: 0, rate_pct: 2 }, { amount: 10, rate_pct: null }],
+      charges: [{ amount: 150, is_deduct: false }, { amount: 40, is_deduct: true }],
+    });
+    expect(t.quantity).toBe(1500);
+    expect(t.subtotal).toBe(4000);
+    expect(t.discount).toBe(200);
+    expect(t.taxable).toBe(3800);
+    expect(t.tax).toBe(86);
+    expect(t.total).toBe(3800 + 86 + 150 - 40);
+  });
+});
+
+describe("deriveInvoiceStatus", () => {
+  it("follows payments once issued", () => {
+    expect(deriveInvoiceStatus("issued", 100, 0)).toBe("issued");
+    expect(deriveInvoiceStatus("issued", 100, 40)).toBe("partially_paid");
+    expect(deriveInvoiceStatus("partially_paid", 100, 100)).toBe("paid");
+    expect(deriveInvoiceStatus("paid", 100, 20)).toBe("partially_paid");
+  });
+
+  it("keeps draft and cancelled", () => {
+    expect(deriveInvoiceStatus("draft", 100, 100)).toBe("draft");
+    expect(deriveInvoiceStatus("cancelled", 100, 0)).toBe("cancelled");
+  });
+});
+
+describe("linesFromDispatches", () => {
+  it("sums dispatched quantity per PO at the PO selling price", () => {
+    const wo = { po_number: "PO-1", style: "Tee", style_number: "T-100", color: "Navy", hs_code: "6109", item: null, selling_price: 2.4 };
+    const lines = linesFromDispatches([
+      { id: "d1", dispatch_quantity: 600, work_order_id: "w1", work_orders: wo },
+      { id: "d2", dispatch_quantity: 400, work_order_id: "w1", work_orders: wo },
+      { id: "d3", dispatch_quantity: 50, work_order_id: null, work_orders: null },
+    ]);
+    expect(lines).toHaveLength(1);
+    expect(lines[0].quantity).toBe(1000);
+    expect(lines[0].unit_price).toBe(2.4);
+    expect(lines[0].description).toBe("Tee — PO PO-1");
+  });
+});
+
+describe("suggestAllocations", () => {
+  it("pays the oldest due invoices first", () => {
+    const result = suggestAllocations(1500, [
+      { id: "b", due_date: "2026-03-01", issue_date: "2026-01-15", outstanding: 1000 },
+      { id: "a", due_date: "2026-02-01", issue_date: "2026-01-01", outstanding: 800 },
+      { id: "c", due_date: null, issue_date: "2026-04-01", outstanding: 500 },
+    ]);
+    expect(result).toEqual({ a: 800, b: 700 });
+  });
+});
+
+describe("receivables", () => {
+  it("buckets by days past due", () => {
+    expect(agingBucket("2026-05-01", "2026-04-01", "2026-05-01")).toBe("current");
+    expect(agingBucket("2026-05-01", "2026-04-01", "2026-05-20")).toBe("1_30");
+    expect(agingBucket(null, "2026-01-01", "2026-05-01")).toBe("90_plus");
+  });
+
+  it("groups outstanding per buyer and skips drafts", () => {
+    const rows = receivablesByBuyer(
+      [
+        { buyer_name: "H&M", currency: "USD", due_date: "2026-04-01", issue_date: "2026-03-01", total: 1000, paid: 400, status: "partially_paid" },
+        { buyer_name: "H&M", currency: "USD", due_date: "2026-06-01", issue_date: "2026-05-01", total: 500, paid: 0, status: "issued" },
+        { buyer_name: "Zara", currency: "USD", due_date: null, issue_date: "2026-05-01", total: 900, paid: 900, status: "paid" },
+        { buyer_name: "Zara", currency: "USD", due_date: null, issue_date: "2026-05-01", total: 300, paid: 0, status: "draft" },
+      ],
+      "2026-05-10",
+    );
+    expect(rows[0]).toMatchObject({ buyer: "H&M", invoiced: 1500, paid: 400, outstanding: 1100, invoiceCount: 2 });
+    expect(rows[0].buckets["31_60"]).toBe(600);
+    expect(rows[0].buckets.current).toBe(500);
+    expect(rows[1]).toMatchObject({ buyer: "Zara", outstanding: 0, invoiceCount: 1 });
+  });
+});
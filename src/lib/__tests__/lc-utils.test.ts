@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeLCUtilisation,
+  deriveLCStatus,
+  presentationDeadline,
+  getLCWarnings,
+  warningDaysFromSettings,
+  DEFAULT_LC_WARNING_DAYS,
+  type LCTerms,
+} from "../lc-utils";
+
+const baseLC: LCTerms = {
+  lc_value: 100_000,
+  tolerance_pct: 5,
+  issue_date: "2026-01-01",
+  expiry_date: "2026-06-30",
+  latest_shipment_date: "2026-06-09",
+  presentation_period: 21,
+  status: "active",
+};
+
+const shipment = (n: number, date: string, value: number, docs: string | null = null) => ({
+  shipment_number: n,
+  shipment_date: date,
+  invoice_value: value,
+  docs_submitted_date: docs,
+});
+
+describe("computeLCUtilisation", () => {
+  it("sums shipments against face value and tolerance ceiling", () => {
+    const u = computeLCUtilisation(baseLC, [{ invoice_value: 40_000 }, { invoice_value: 20_000 }]);
+    expect(u.shipped).toBe(60_000);
+    expect(u.remaining).toBe(40_000);
+    expect(u.ceiling).toBeCloseTo(105_000);
+    expect(u.pct).toBe(60);
+    expect(u.overTolerance).toBe(false);
+  });
+
+  it("flags shipments above the tolerance ceiling", () => {
+    expect(computeLCUtilisation(baseLC, [{ invoice_value: 104_000 }]).overTolerance).toBe(false);
+    expect(computeLCUtilisation(baseLC, [{ invoice_value: 106_000 }]).overTolerance).toBe(true);
+  });
+
+  it("handles a zero-value LC", () => {
+    expect(computeLCUtilisation({ lc_value: 0, tolerance_pct: null }, []).pct).toBe(0);
+  });
+});
+
+describe("deriveLCStatus", () => {
+  it("keeps manual draft/closed states", () => {
+    expect(deriveLCStatus({ ...baseLC, status: "draft" }, [], "2026-03-01")).toBe("draft");
+    expect(deriveLCStatus({ ...baseLC, status: "closed" }, [{ invoice_value: 1 }], "2027-01-01")).toBe("closed");
+  });
+
+  it("moves through active → partially → fully shipped", () => {
+    expect(deriveLCStatus(baseLC, [], "2026-03-01")).toBe("active");
+    expect(deriveLCStatus(baseLC, [{ invoice_value: 10_000 }], "2026-03-01")).toBe("partially_shipped");
+    // -5% tolerance: 95k is enough to be fully drawn
+    expect(deriveLCStatus(baseLC, [{ invoice_value: 95_000 }], "2026-03-01")).toBe("fully_shipped");
+  });
+
+  it("reports expired when past expiry with balance open", () => {
+    expect(deriveLCStatus(baseLC, [{ invoice_value: 10_000 }], "2026-07-01")).toBe("expired");
+  });
+});
+
+describe("presentationDeadline", () => {
+  it("adds the presentation period to the shipment date", () => {
+    expect(presentationDeadline(baseLC, "2026-03-01")).toBe("2026-03-22");
+  });
+
+  it("defaults to 21 days and caps at LC expiry", () => {
+    expect(presentationDeadline({ ...baseLC, presentation_period: null }, "2026-03-01")).toBe("2026-03-22");
+    expect(presentationDeadline(baseLC, "2026-06-20")).toBe("2026-06-30");
+  });
+});
+
+describe("getLCWarnings", () => {
+  it("returns nothing for a healthy LC far from its dates", () => {
+    expect(getLCWarnings(baseLC, [], "2026-02-01")).toEqual([]);
+  });
+
+  it("warns on upcoming expiry and latest shipment date", () => {
+    const kinds = getLCWarnings(baseLC, [], "2026-06-01").map((w) => w.kind);
+    expect(kinds).toContain("expiry");
+    expect(kinds).toContain("shipment_date");
+  });
+
+  it("marks a passed expiry as critical", () => {
+    const w = getLCWarnings(baseLC, [], "2026-07-05").find((x) => x.kind === "expiry");
+    expect(w?.severity).toBe("critical");
+    expect(w?.daysLeft).toBe(-5);
+  });
+
+  it("skips the shipment warning once the LC is fully drawn", () => {
+    const w = getLCWarnings(baseLC, [shipment(1, "2026-05-01", 100_000, "2026-05-05")], "2026-06-05");
+    expect(w).toEqual([]);
+  });
+
+  it("warns about shipments whose documents are not yet presented", () => {
+    const w = getLCWarnings(baseLC, [shipment(2, "2026-03-01", 10_000)], "2026-03-19");
+    expect(w).toHaveLength(1);
+    expect(w[0].kind).toBe("presentation");
+    expect(w[0].daysLeft).toBe(3);
+  });
+
+  it("respects custom warning windows", () => {
+    const narrow = { ...DEFAULT_LC_WARNING_DAYS, expiry: 5, shipment: 5 };
+    expect(getLCWarnings(baseLC, [], "2026-06-01", narrow)).toEqual([]);
+  });
+});
+
+describe("warningDaysFromSettings", () => {
+  it("falls back to defaults for missing values", () => {
+    expect(warningDaysFromSettings(null)).toEqual(DEFAULT_LC_WARNING_DAYS);
+    expect(
+      warningDaysFromSettings({ lc_expiry_warning_days: 45, shipment_date_warning_days: null, presentation_deadline_warning_days: 3 }),
+    ).toEqual({ expiry: 45, shipment: DEFAULT_LC_WARNING_DAYS.shipment, presentation: 3 });
+  });
+});
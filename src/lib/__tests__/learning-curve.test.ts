@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  changeoverLoss,
+  isChangeover,
+  rampDays,
+  rampEndDate,
+  rampFactor,
+  rampedFinishDate,
+  resolveCurve,
+  type LearningCurve,
+} from "../learning-curve";
+import { EMPTY_CALENDAR, buildWorkingCalendar } from "../working-days";
+
+const curve = (id: string, overrides: Partial<LearningCurve> = {}): LearningCurve => ({
+  id,
+  name: id,
+  steps: [40, 60, 80, 100],
+  line_id: null,
+  product_category: null,
+  is_default: false,
+  ...overrides,
+});
+
+const curves = [
+  curve("default", { is_default: true, steps: [50, 100] }),
+  curve("polo", { product_category: "Polo" }),
+  curve("line-3", { line_id: "L3", steps: [30, 70] }),
+];
+
+describe("resolveCurve", () => {
+  it("prefers the line's curve, then the category's, then the default", () => {
+    expect(resolveCurve(curves, { lineId: "L3", category: "Polo" })?.id).toBe("line-3");
+    expect(resolveCurve(curves, { lineId: "L1", category: " polo " })?.id).toBe("polo");
+    expect(resolveCurve(curves, { lineId: "L1", category: "Jacket" })?.id).toBe("default");
+    expect(resolveCurve([], { lineId: "L1", category: "Polo" })).toBeNull();
+  });
+
+  it("treats a new or unknown previous style as a changeover", () => {
+    expect(isChangeover(null, "ST-1")).toBe(true);
+    expect(isChangeover("ST-1", "st-1 ")).toBe(false);
+    expect(isChangeover("ST-1", "ST-2")).toBe(true);
+  });
+});
+
+describe("ramp maths", () => {
+  const steps = [40, 60, 80, 100];
+
+  it("runs at peak outside the curve", () => {
+    expect(rampFactor(steps, 0)).toBe(0.4);
+    expect(rampFactor(steps, 4)).toBe(1);
+    expect(rampDays(steps)).toBe(3);
+    // 1000/day peak loses 600 + 400 + 200
+    expect(changeoverLoss(1000, steps)).toBe(1200);
+  });
+
+  it("finishes later than a flat rate would", () => {
+    // 400 + 600 + 800 + 1000 = 2800 by day four
+    expect(rampedFinishDate(EMPTY_CALENDAR, "2026-03-02", 2800, 1000, steps)).toBe("2026-03-05");
+    expect(rampedFinishDate(EMPTY_CALENDAR, "2026-03-02", 2800, 1000, [])).toBe("2026-03-04");
+    // Already two days in: 800 + 1000
+    expect(rampedFinishDate(EMPTY_CALENDAR, "2026-03-02", 1800, 1000, steps, 2)).toBe("2026-03-03");
+    expect(rampedFinishDate(EMPTY_CALENDAR, "2026-03-02", 100, 0, steps)).toBeNull();
+  });
+
+  it("skips non-working days while ramping", () => {
+    const cal = buildWorkingCalendar([5], []); // Fridays off
+    // Thu 5th, (Fri off), Sat 7th, Sun 8th
+    expect(rampEndDate(cal, "2026-03-05", steps)).toBe("2026-03-08");
+    expect(rampEndDate(cal, "2026-03-05", [100])).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeLineWip,
+  DEFAULT_WIP_LIMITS,
+  formatWipDays,
+  poWipTotals,
+  resolveWipLimits,
+  runRate,
+  wipAlerts,
+  type CuttingInputRow,
+  type SewingOutputRow,
+} from "../line-wip";
+
+const input = (line_id: string | null, work_order_id: string, production_date: string, day_input: number): CuttingInputRow => ({
+  line_id,
+  work_order_id,
+  production_date,
+  day_input,
+});
+
+const output = (
+  line_id: string,
+  work_order_id: string,
+  production_date: string,
+  good_today: number,
+  cumulative_good_total: number,
+  rework_today = 0
+): SewingOutputRow => ({ line_id, work_order_id, production_date, good_today, rework_today, cumulative_good_total });
+
+const limits = { minDays: 0.5, maxDays: 3 };
+
+describe("resolveWipLimits", () => {
+  it("uses the factory's limits and falls back for unset or inverted ones", () => {
+    expect(resolveWipLimits(1, 4)).toEqual({ minDays: 1, maxDays: 4 });
+    expect(resolveWipLimits(null, 5)).toEqual({ minDays: 0.5, maxDays: 5 });
+    expect(resolveWipLimits(6, 2)).toEqual(DEFAULT_WIP_LIMITS);
+  });
+});
+
+describe("runRate", () => {
+  it("averages the most recent output days since the cut-off, counting rework", () => {
+    const rows = [
+      output("L1", "A", "2026-10-01", 900, 900),
+      output("L1", "A", "2026-10-14", 400, 1300),
+      output("L1", "B", "2026-10-14", 100, 100, 50),
+      output("L1", "A", "2026-10-15", 0, 1300),
+      output("L1", "A", "2026-10-16", 450, 1750),
+    ];
+    expect(runRate(rows, "2026-10-05")).toBe(500);
+    expect(runRate(rows, "2026-10-05", 1)).toBe(450);
+    expect(runRate(rows, "2026-10-17")).toBe(0);
+  });
+});
+
+describe("computeLineWip", () => {
+  it("subtracts each PO's latest sewn total from what was input to the line", () => {
+    const [line] = computeLineWip(
+      [input("L1", "A", "2026-10-10", 600), input("L1", "A", "2026-10-12", 400), input("L1", "B", "2026-10-12", 300)],
+      [output("L1", "A", "2026-10-12", 200, 200), output("L1", "A", "2026-10-13", 200, 400), output("L1", "B", "2026-10-13", 50, 50)],
+      limits,
+      "2026-10-13"
+    );
+    expect(line.input).toBe(1300);
+    expect(line.output).toBe(450);
+    expect(line.wip).toBe(850);
+    expect(line.pos.map((p) => [p.workOrderId, p.wip])).toEqual([["A", 600], ["B", 250]]);
+    // (200 + 250) / 2 output days
+    expect(line.runRate).toBe(225);
+    expect(line.daysOfWip).toBeCloseTo(3.78, 2);
+    expect(line.status).toBe("overloaded");
+  });
+
+  it("ignores submissions after the as-of date and input without a line", () => {
+    const [line] = computeLineWip(
+      [input("L1", "A", "2026-10-10", 500), input(null, "A", "2026-10-10", 900), input("L1", "A", "2026-10-20", 500)],
+      [output("L1", "A", "2026-10-11", 300, 300), output("L1", "A", "2026-10-20", 200, 500)],
+      limits,
+      "2026-10-11"
+    );
+    expect(line.wip).toBe(200);
+    expect(line.daysOfWip).toBeCloseTo(0.67, 2);
+    expect(line.status).toBe("ok");
+  });
+
+  it("never lets one PO's over-reported output hide another's WIP", () => {
+    const [line] = computeLineWip(
+      [input("L1", "A", "2026-10-10", 100), input("L1", "B", "2026-10-10", 200)],
+      [output("L1", "A", "2026-10-11", 300, 300)],
+      limits,
+      "2026-10-11"
+    );
+    expect(line.wip).toBe(200);
+    expect(line.pos.map((p) => p.workOrderId)).toEqual(["B"]);
+  });
+
+  it("flags starved lines and reads lines without recent output as idle", () => {
+    const lines = computeLineWip(
+      [input("L1", "A", "2026-10-10", 1000), input("L2", "B", "2026-09-01", 500)],
+      [output("L1", "A", "2026-10-12", 950, 950), output("L2", "B", "2026-09-02", 500, 500)],
+      limits,
+      "2026-10-12"
+    );
+    const byId = new Map(lines.map((l) => [l.lineId, l]));
+    expect(byId.get("L1")!.status).toBe("starved");
+    expect(byId.get("L2")!.runRate).toBe(0);
+    expect(byId.get("L2")!.status).toBe("idle");
+  });
+});
+
+describe("roll-ups", () => {
+  const lines = computeLineWip(
+    [
+      input("L1", "A", "2026-10-10", 500),
+      input("L2", "A", "2026-10-10", 400),
+      input("L2", "B", "2026-10-10", 2000),
+      input("L3", "C", "2026-10-10", 110),
+    ],
+    [
+      output("L1", "A", "2026-10-12", 100, 100),
+      output("L2", "A", "2026-10-12", 100, 100),
+      output("L2", "B", "2026-10-12", 200, 200),
+      output("L3", "C", "2026-10-12", 100, 100),
+    ],
+    limits,
+    "2026-10-12"
+  );
+
+  it("sums WIP per PO across the lines it sits on", () => {
+    expect(poWipTotals(lines).map((p) => [p.workOrderId, p.wip, p.lineIds])).toEqual([
+      ["B", 1800, ["L2"]],
+      ["A", 700, ["L2", "L1"]],
+      ["C", 10, ["L3"]],
+    ]);
+  });
+
+  it("lists starved lines first, then overloaded ones", () => {
+    expect(wipAlerts(lines).map((l) => [l.lineId, l.status])).toEqual([
+      ["L3", "starved"],
+      ["L2", "overloaded"],
+      ["L1", "overloaded"],
+    ]);
+  });
+});
+
+describe("formatWipDays", () => {
+  it("rounds to a tenth of a day", () => {
+    expect(formatWipDays(null)).toBe("—");
+    expect(formatWipDays(0.04)).toBe("<0.1 days");
+    expect(formatWipDays(1)).toBe("1 day");
+    expect(formatWipDays(2.345)).toBe("2.3 days");
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  fabricRequirement,
+  materialReadiness,
+  receivedQty,
+  requirementSheet,
+  scheduledMaterials,
+  upcomingShortages,
+  type MaterialBooking,
+} from "../material-readiness";
+
+describe("fabricRequirement", () => {
+  it("scales per-dozen consumption to the order with wastage", () => {
+    // 1200 pcs = 100 dz; 2.5 × 100 × 1.04 + 0.4 × 100
+    expect(
+      fabricRequirement(
+        [
+          { consumption_per_dozen: 2.5, wastage_pct: 4 },
+          { consumption_per_dozen: 0.4, wastage_pct: null },
+        ],
+        1200,
+      ),
+    ).toBe(300);
+  });
+
+  it("is unknown without consumption", () => {
+    expect(fabricRequirement([{ consumption_per_dozen: null, wastage_pct: 5 }], 1200)).toBeNull();
+    expect(fabricRequirement([], 1200)).toBeNull();
+  });
+});
+
+describe("requirementSheet", () => {
+  it("prefers the latest approved sheet", () => {
+    const sheets = [
+      { id: "a", status: "approved", updated_at: "2026-01-01", fabrics: [] },
+      { id: "b", status: "draft", updated_at: "2026-03-01", fabrics: [] },
+      { id: "c", status: "approved", updated_at: "2026-02-01", fabrics: [] },
+    ];
+    expect(requirementSheet(sheets)?.id).toBe("c");
+    expect(requirementSheet(sheets.filter((s) => s.status === "draft"))?.id).toBe("b");
+    expect(requirementSheet([])).toBeNull();
+  });
+});
+
+describe("receivedQty", () => {
+  it("takes ttl_receive from the latest transaction", () => {
+    expect(
+      receivedQty([
+        { ttl_receive: 500, transaction_date: "2026-03-02", created_at: "2026-03-02T08:00:00Z" },
+        { ttl_receive: 800, transaction_date: "2026-03-05", created_at: "2026-03-05T08:00:00Z" },
+        { ttl_receive: 300, transaction_date: "2026-03-01", created_at: "2026-03-06T08:00:00Z" },
+      ]),
+    ).toBe(800);
+    expect(receivedQty([])).toBe(0);
+  });
+});
+
+describe("materialReadiness", () => {
+  it("lets a manual quantity override the cost sheet", () => {
+    const r = materialReadiness("W1", 150, 200, 300);
+    expect(r).toMatchObject({ required: 200, source: "manual", shortfall: 50, coverage: 0.75, status: "partial" });
+  });
+
+  it("classifies ready, missing and unknown", () => {
+    expect(materialReadiness("W1", 320, null, 300)).toMatchObject({ status: "ready", shortfall: 0, coverage: 1 });
+    expect(materialReadiness("W1", 0, null, 300).status).toBe("missing");
+    expect(materialReadiness("W1", 50, null, null)).toMatchObject({ status: "unknown", coverage: null, shortfall: 0 });
+  });
+});
+
+describe("scheduledMaterials and upcomingShortages", () => {
+  const booking = (id: string, wo: string, start: string, end: string, status = "not_started"): MaterialBooking => ({
+    id, work_order_id: wo, line_id: "L1", start_date: start, end_date: end, status,
+  });
+  const readiness = new Map([
+    ["W1", materialReadiness("W1", 100, null, 300)],
+    ["W2", materialReadiness("W2", 0, 500, null)],
+    ["W3", materialReadiness("W3", 300, null, 300)],
+  ]);
+
+  it("lists short POs at their earliest booking within the horizon", () => {
+    const bookings = [
+      booking("b1", "W1", "2026-03-12", "2026-03-20"),
+      booking("b2", "W1", "2026-03-08", "2026-03-11"),
+      booking("b3", "W2", "2026-03-10", "2026-03-15"),
+      booking("b4", "W3", "2026-03-09", "2026-03-15"),
+      booking("b5", "W2", "2026-04-01", "2026-04-05"),
+    ];
+    expect(scheduledMaterials(bookings, readiness, "2026-03-09").map((s) => s.bookingId)).toEqual(["b2", "b4", "b3"]);
+    expect(upcomingShortages(bookings, readiness, "2026-03-09").map((s) => s.bookingId)).toEqual(["b2", "b3"]);
+  });
+
+  it("skips completed, finished and far-off bookings", () => {
+    expect(
+      upcomingShortages(
+        [
+          booking("b1", "W1", "2026-03-01", "2026-03-12", "completed"),
+          booking("b2", "W1", "2026-03-01", "2026-03-08"),
+          booking("b3", "W2", "2026-03-30", "2026-04-05"),
+        ],
+        readiness,
+        "2026-03-09",
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatDeviation,
+  measureStatus,
+  parseMeasure,
+  parseSpecCsv,
+  pointsForSize,
+  summarizeMeasurements,
+  type MeasuredPoint,
+  type SpecPoint,
+} from "../measurements";
+
+describe("parseMeasure", () => {
+  it("reads decimals and inch fractions", () => {
+    expect(parseMeasure("52")).toBe(52);
+    expect(parseMeasure("52.5")).toBe(52.5);
+    expect(parseMeasure("52,5")).toBe(52.5);
+    expect(parseMeasure("1/2")).toBe(0.5);
+    expect(parseMeasure("12 1/4")).toBe(12.25);
+    expect(parseMeasure('3/8"')).toBe(0.375);
+    expect(parseMeasure("-1/4")).toBe(-0.25);
+  });
+
+  it("rejects anything else", () => {
+    expect(parseMeasure("")).toBeNull();
+    expect(parseMeasure("n/a")).toBeNull();
+    expect(parseMeasure("1/0")).toBeNull();
+    expect(parseMeasure("12cm")).toBeNull();
+  });
+});
+
+describe("measureStatus", () => {
+  const point = { spec: 50, tol_minus: 1, tol_plus: 0.5 };
+
+  it("allows readings on the tolerance edge", () => {
+    expect(measureStatus(49, point)).toBe("ok");
+    expect(measureStatus(50.5, point)).toBe("ok");
+    expect(measureStatus(50.2, point)).toBe("ok");
+  });
+
+  it("flags readings outside the asymmetric tolerance", () => {
+    expect(measureStatus(50.6, point)).toBe("over");
+    expect(measureStatus(48.9, point)).toBe("under");
+  });
+
+  it("formats deviations with a sign", () => {
+    expect(formatDeviation(0.5)).toBe("+0.5");
+    expect(formatDeviation(-1.25)).toBe("−1.25");
+    expect(formatDeviation(0)).toBe("0");
+  });
+});
+
+describe("parseSpecCsv", () => {
+  it("reads a buyer spec with split tolerances and skips preamble rows", () => {
+    const csv = [
+      "Buyer,Acme",
+      "Style,TS-100",
+      "POM,Description,Tol -,Tol +,S,M,L",
+      "A,Chest width,1,1,48,50,52",
+      'B,"Body length, HPS",1,1.5,68,70,72',
+      "C,Sleeve opening,1/4,1/4,16,,17",
+    ].join("\n");
+    const parsed = parseSpecCsv(csv);
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.sizes).toEqual(["S", "M", "L"]);
+    expect(parsed.points).toHaveLength(3);
+    expect(parsed.points[1]).toEqual({
+      code: "B",
+      name: "Body length, HPS",
+      tol_minus: 1,
+      tol_plus: 1.5,
+      specs: { S: 68, M: 70, L: 72 },
+    });
+    expect(parsed.points[2].specs).toEqual({ S: 16, L: 17 });
+  });
+
+  it("accepts a single ± column, semicolons and numbers the points itself", () => {
+    const parsed = parseSpecCsv("Description;Tol;S;M\nChest;0,5;48;50\nHem;1;46;48");
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.points.map((p) => [p.code, p.tol_minus, p.tol_plus])).toEqual([
+      ["1", 0.5, 0.5],
+      ["2", 1, 1],
+    ]);
+  });
+
+  it("reports rows it cannot read", () => {
+    const parsed = parseSpecCsv("Description,Tol,S\nChest,,48\nHem,1,abc\nWaist,1,40");
+    expect(parsed.points.map((p) => p.name)).toEqual(["Waist"]);
+    expect(parsed.errors).toHaveLength(3);
+  });
+
+  it("needs a header row", () => {
+    expect(parseSpecCsv("a,b,c\n1,2,3").errors[0]).toMatch(/No header row/);
+  });
+});
+
+describe("checks", () => {
+  const spec: SpecPoint[] = [
+    { code: "A", name: "Chest", tol_minus: 1, tol_plus: 1, specs: { S: 48, M: 50 } },
+    { code: "B", name: "Neck drop", tol_minus: 0.5, tol_plus: 0.5, specs: { S: 8 } },
+  ];
+
+  it("snapshots only the points with a spec for the size", () => {
+    const points = pointsForSize(spec, "M", 3);
+    expect(points).toEqual([{ code: "A", name: "Chest", spec: 50, tol_minus: 1, tol_plus: 1, measured: [null, null, null] }]);
+  });
+
+  it("summarizes readings, failures and the worst deviation", () => {
+    const points: MeasuredPoint[] = pointsForSize(spec, "S", 2);
+    expect(summarizeMeasurements(points, 2).result).toBe("pending");
+
+    points[0].measured = [48.5, 47.5];
+    points[1].measured = [8, 8.5];
+    expect(summarizeMeasurements(points, 2)).toMatchObject({ readings: 4, expected: 4, outOfTolerance: 0, result: "pass" });
+
+    points[0].measured = [49.5, 46];
+    points[1].measured = [8.7, null];
+    const s = summarizeMeasurements(points, 2);
+    expect(s).toMatchObject({ readings: 3, outOfTolerance: 3, samplesOut: 2, result: "fail" });
+    expect(s.pointsOut).toEqual([
+      { code: "A", name: "Chest", worst: -2 },
+      { code: "B", name: "Neck drop", worst: 0.7 },
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { conflictTarget, diffFields, mergeRows, naturalKeyFilter } from "../offline-conflicts";
+
+const target = {
+  factory_id: "f1",
+  production_date: "2026-03-01",
+  line_id: "l1",
+  work_order_id: "w1",
+  per_hour_target: 120,
+  remarks: "",
+};
+
+describe("natural keys", () => {
+  it("builds a key filter for keyed tables", () => {
+    expect(naturalKeyFilter("sewing_targets", target)).toEqual({
+      factory_id: "f1",
+      production_date: "2026-03-01",
+      line_id: "l1",
+      work_order_id: "w1",
+    });
+    expect(conflictTarget("cutting_actuals")).toBe("factory_id,production_date,cutting_section_id,line_id,work_order_id");
+  });
+
+  it("has no key for unkeyed tables or rows with an empty key column", () => {
+    expect(naturalKeyFilter("production_updates_sewing", target)).toBeNull();
+    expect(naturalKeyFilter("sewing_targets", { ...target, work_order_id: null })).toBeNull();
+    expect(naturalKeyFilter("cutting_targets", target)).toBeNull();
+    expect(conflictTarget("production_updates_sewing")).toBeNull();
+  });
+});
+
+describe("diff and merge", () => {
+  const server = { ...target, id: "row-1", created_at: "2026-03-01T08:00:00Z", per_hour_target: "100", remarks: null, manpower: 30 };
+
+  it("lists only queued fields that differ, treating empty and numeric strings loosely", () => {
+    expect(diffFields(target, server)).toEqual([{ field: "per_hour_target", queued: 120, server: "100" }]);
+    expect(diffFields({ ...target, per_hour_target: 100 }, server)).toEqual([]);
+    expect(diffFields({ ...target, id: "other" }, server).map((d) => d.field)).not.toContain("id");
+  });
+
+  it("keeps server values for fields the user picked", () => {
+    const queued = { ...target, manpower: 32 };
+    expect(mergeRows(queued, server, { per_hour_target: "server", manpower: "queued" })).toMatchObject({
+      per_hour_target: "100",
+      manpower: 32,
+    });
+    expect(mergeRows(queued, server, { id: "server" })).not.toHaveProperty("id");
+  });
+});
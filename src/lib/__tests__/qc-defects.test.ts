@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  defectPareto,
+  dhuByLine,
+  dhuByOperation,
+  dhuByOperator,
+  dhuSummary,
+  groupByOperation,
+  STANDARD_DEFECT_TYPES,
+  type DefectCheckLike,
+} from "../qc-defects";
+
+const item = (code: string, operation: string, quantity: number) => ({
+  defect_code: code,
+  defect_name: code,
+  operation,
+  quantity,
+});
+
+const checks: DefectCheckLike[] = [
+  {
+    line_id: "L1",
+    work_order_id: "PO1",
+    check_point: "inline",
+    operator_name: "Rahima",
+    pieces_checked: 20,
+    items: [item("ST01", "Stitching", 2)],
+  },
+  {
+    line_id: "L1",
+    work_order_id: "PO1",
+    check_point: "inline",
+    operator_name: " rahima ",
+    pieces_checked: 20,
+    items: [item("ST02", "Stitching", 1)],
+  },
+  {
+    line_id: "L1",
+    work_order_id: "PO1",
+    check_point: "endline",
+    operator_name: null,
+    pieces_checked: 100,
+    items: [item("ST01", "Stitching", 3), item("HD01", "Handling", 4)],
+  },
+  {
+    line_id: "L2",
+    work_order_id: "PO2",
+    check_point: "endline",
+    operator_name: null,
+    pieces_checked: 60,
+    items: [],
+  },
+];
+
+describe("groupByOperation", () => {
+  it("groups in first-seen order", () => {
+    const groups = groupByOperation(STANDARD_DEFECT_TYPES);
+    expect(groups[0].operation).toBe("Stitching");
+    expect(groups.map((g) => g.operation)).toContain("Measurement");
+    expect(groups.reduce((n, g) => n + g.types.length, 0)).toBe(STANDARD_DEFECT_TYPES.length);
+  });
+});
+
+describe("dhu breakdowns", () => {
+  it("totals defects over pieces checked", () => {
+    expect(dhuSummary(checks)).toEqual({ checked: 200, defects: 10, dhu: 5 });
+    expect(dhuSummary([])).toEqual({ checked: 0, defects: 0, dhu: null });
+  });
+
+  it("ranks lines worst first", () => {
+    const rows = dhuByLine(checks);
+    expect(rows.map((r) => r.key)).toEqual(["L1", "L2"]);
+    expect(rows[0]).toMatchObject({ checked: 140, defects: 10, dhu: 7.1 });
+    expect(rows[1]).toMatchObject({ checked: 60, defects: 0, dhu: 0 });
+  });
+
+  it("only counts an operator's own checks and merges spellings", () => {
+    const rows = dhuByOperator(checks);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ label: "Rahima", checked: 40, defects: 3, dhu: 7.5 });
+  });
+
+  it("measures each operation against every piece checked", () => {
+    const rows = dhuByOperation(checks);
+    expect(rows.map((r) => [r.key, r.defects, r.dhu])).toEqual([
+      ["Stitching", 6, 3],
+      ["Handling", 4, 2],
+    ]);
+  });
+});
+
+describe("defectPareto", () => {
+  it("ranks defects with running share", () => {
+    const rows = defectPareto(checks);
+    expect(rows.map((r) => [r.code, r.count, r.share, r.cumulative])).toEqual([
+      ["ST01", 5, 50, 50],
+      ["HD01", 4, 40, 90],
+      ["ST02", 1, 10, 100],
+    ]);
+  });
+
+  it("is empty when nothing was found", () => {
+    expect(defectPareto([checks[3]])).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { arrowHeadPoints, ellipseFromDrag, fitWithin, isTinyAnnotation } from "../qc-photos";
+
+describe("fitWithin", () => {
+  it("scales the long edge down to the limit", () => {
+    expect(fitWithin(4000, 3000, 1600)).toEqual({ width: 1600, height: 1200 });
+    expect(fitWithin(3000, 4000, 1600)).toEqual({ width: 1200, height: 1600 });
+  });
+
+  it("never scales up", () => {
+    expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+  });
+});
+
+describe("arrowHeadPoints", () => {
+  it("places both corners behind the tip, either side of the shaft", () => {
+    const [left, right] = arrowHeadPoints(0, 0, 100, 0, 10);
+    expect(left[0]).toBeLessThan(100);
+    expect(right[0]).toBeLessThan(100);
+    expect(left[0]).toBeCloseTo(right[0]);
+    expect(left[1]).toBeCloseTo(-right[1]);
+    expect(Math.hypot(100 - left[0], left[1])).toBeCloseTo(10);
+  });
+});
+
+describe("ellipseFromDrag", () => {
+  it("fits the dragged box whichever way it was dragged", () => {
+    expect(ellipseFromDrag(10, 20, 50, 40)).toEqual({ cx: 30, cy: 30, rx: 20, ry: 10 });
+    expect(ellipseFromDrag(50, 40, 10, 20)).toEqual({ cx: 30, cy: 30, rx: 20, ry: 10 });
+  });
+});
+
+describe("isTinyAnnotation", () => {
+  it("treats a tap as nothing", () => {
+    expect(isTinyAnnotation({ kind: "arrow", x1: 0.5, y1: 0.5, x2: 0.505, y2: 0.5 })).toBe(true);
+    expect(isTinyAnnotation({ kind: "circle", x1: 0.2, y1: 0.2, x2: 0.4, y2: 0.3 })).toBe(false);
+  });
+});
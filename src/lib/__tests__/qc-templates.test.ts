@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareTemplates,
+  itemsFromSections,
+  moveEntry,
+  sectionsFromItems,
+  stripSectionPrefix,
+  validateSections,
+  type TemplateItemLike,
+  type TemplateSectionDraft,
+} from "../qc-templates";
+
+const seed: TemplateItemLike[] = [
+  { section_label: "SECTION 2 — PACKING", section_order: 2, item_code: "2.1", item_label: "Carton marks", item_guidance: null, item_order: 1, is_required: false },
+  { section_label: "SECTION 1 — SEWING QUALITY", section_order: 1, item_code: "1.2", item_label: "Seam strength", item_guidance: "Pull test", item_order: 2, is_required: true },
+  { section_label: "SECTION 1 — SEWING QUALITY", section_order: 1, item_code: "1.1", item_label: "SPI", item_guidance: null, item_order: 1, is_required: false },
+];
+
+describe("stripSectionPrefix", () => {
+  it("drops PHASE/SECTION numbering", () => {
+    expect(stripSectionPrefix("PHASE 2 — PRE-PRODUCTION")).toBe("PRE-PRODUCTION");
+    expect(stripSectionPrefix("Section 10: Packing")).toBe("Packing");
+    expect(stripSectionPrefix("Packing")).toBe("Packing");
+  });
+});
+
+describe("sectionsFromItems / itemsFromSections", () => {
+  it("groups rows into ordered sections", () => {
+    const sections = sectionsFromItems(seed);
+    expect(sections.map((s) => s.title)).toEqual(["SEWING QUALITY", "PACKING"]);
+    expect(sections[0].items.map((i) => i.label)).toEqual(["SPI", "Seam strength"]);
+    expect(sections[0].items[1]).toMatchObject({ guidance: "Pull test", required: true });
+  });
+
+  it("round-trips and renumbers from position", () => {
+    const sections = sectionsFromItems(seed);
+    const swapped = moveEntry(sections, 1, -1);
+    const rows = itemsFromSections("order_manager", swapped);
+    expect(rows[0]).toEqual({
+      section_label: "PHASE 1 — PACKING",
+      section_order: 1,
+      item_code: "1.1",
+      item_label: "Carton marks",
+      item_guidance: null,
+      item_order: 1,
+      is_required: false,
+    });
+    expect(rows.map((r) => r.item_code)).toEqual(["1.1", "2.1", "2.2"]);
+    expect(rows[2]).toMatchObject({ section_label: "PHASE 2 — SEWING QUALITY", is_required: true });
+  });
+});
+
+describe("validateSections", () => {
+  it("flags empty templates, titles, sections and labels", () => {
+    expect(validateSections([])).toEqual(["Add at least one section."]);
+    const sections: TemplateSectionDraft[] = [
+      { key: "a", title: " ", items: [{ key: "a1", label: "", guidance: "", required: false }] },
+      { key: "b", title: "Packing", items: [] },
+    ];
+    expect(validateSections(sections)).toEqual([
+      "Section 1 needs a title.",
+      "Section 1 has 1 item without a label.",
+      "Packing has no items.",
+    ]);
+    expect(validateSections(sectionsFromItems(seed))).toEqual([]);
+  });
+});
+
+describe("moveEntry", () => {
+  it("moves within bounds and ignores moves past either end", () => {
+    expect(moveEntry(["a", "b", "c"], 0, 1)).toEqual(["b", "a", "c"]);
+    expect(moveEntry(["a", "b", "c"], 2, -2)).toEqual(["c", "a", "b"]);
+    const list = ["a", "b"];
+    expect(moveEntry(list, 0, -1)).toBe(list);
+    expect(moveEntry(list, 1, 1)).toBe(list);
+  });
+});
+
+describe("compareTemplates", () => {
+  it("counts added, removed and edited items regardless of numbering", () => {
+    const sections = sectionsFromItems(seed);
+    sections[0].items[0].required = true;
+    sections[1].items = [{ key: "n", label: "Shipping marks", guidance: "", required: false }];
+    const next = itemsFromSections("daily_qc", moveEntry(sections, 1, -1));
+    expect(compareTemplates(seed, next)).toEqual({ added: 1, removed: 1, edited: 1 });
+    expect(compareTemplates(seed, seed)).toEqual({ added: 0, removed: 0, edited: 0 });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { contractPosition, contractTotals, diffContract, hasChanges, itemValue, parseContractChanges } from "../sales-contract";
+
+const item = (id: string, wo: string | null, quantity: number, unit_price: number, sort_order = 0) => ({
+  id,
+  work_order_id: wo,
+  quantity,
+  unit_price,
+  subtotal_value: null,
+  sort_order,
+});
+
+describe("itemValue / contractTotals", () => {
+  it("prefers the stored subtotal", () => {
+    expect(itemValue({ quantity: 100, unit_price: 2.5, subtotal_value: null })).toBe(250);
+    expect(itemValue({ quantity: 100, unit_price: 2.5, subtotal_value: 240 })).toBe(240);
+    expect(contractTotals([item("a", null, 100, 2.5), item("b", null, 50, 4)])).toEqual({ total_quantity: 150, total_value: 450 });
+  });
+});
+
+describe("contractPosition", () => {
+  it("compares contracted with shipped per item", () => {
+    const p = contractPosition([item("a", "w1", 1000, 3), item("b", "w2", 500, 4, 1), item("c", null, 200, 5, 2)], { w1: 400, w2: 500 });
+    expect(p.items[0]).toMatchObject({ shippedQty: 400, shippedValue: 1200, openQty: 600, openValue: 1800 });
+    expect(p.items[1]).toMatchObject({ openQty: 0, openValue: 0 });
+    expect(p.items[2]).toMatchObject({ shippedQty: 0, openQty: 200 });
+    expect(p.contractedQty).toBe(1700);
+    expect(p.shippedQty).toBe(900);
+    expect(p.openValue).toBe(1800 + 1000);
+    expect(p.overShipped).toBe(false);
+  });
+
+  it("fills items sharing a PO in order and flags over-shipment", () => {
+    const p = contractPosition([item("a", "w1", 300, 2, 0), item("b", "w1", 200, 2, 1)], { w1: 560 }, 5);
+    expect(p.items[0].shippedQty).toBe(300);
+    expect(p.items[1].shippedQty).toBe(260);
+    expect(p.items[1].openQty).toBe(0);
+    expect(p.overShipped).toBe(true);
+    expect(contractPosition([item("a", "w1", 500, 2)], { w1: 520 }, 5).overShipped).toBe(false);
+  });
+});
+
+describe("diffContract", () => {
+  it("records header and item changes", () => {
+    const changes = diffContract(
+      {
+        header: { buyer_name: "H&M", expiry_date: "2026-12-31", tolerance_pct: 5 },
+        items: [
+          { id: "1", style_ref: "T-100", po_number: "PO-1", quantity: 1000, unit_price: 3 },
+          { id: "2", style_ref: "T-200", po_number: "PO-2", quantity: 500, unit_price: 4 },
+        ],
+      },
+      {
+        header: { buyer_name: "H&M", expiry_date: "2027-01-31", tolerance_pct: 5 },
+        items: [
+          { id: "1", style_ref: "T-100", po_number: "PO-1", quantity: 1200, unit_price: 3 },
+          { style_ref: "T-300", po_number: "PO-3", quantity: 300, unit_price: 5 },
+        ],
+      },
+    );
+    expect(changes.fields).toEqual([{ field: "expiry_date", from: "2026-12-31", to: "2027-01-31" }]);
+    expect(changes.itemsAdded).toEqual(["T-300 / PO PO-3"]);
+    expect(changes.itemsRemoved).toEqual(["T-200 / PO PO-2"]);
+    expect(changes.itemsChanged).toEqual([{ item: "T-100 / PO PO-1", changes: [{ field: "quantity", from: 1000, to: 1200 }] }]);
+    expect(hasChanges(changes)).toBe(true);
+  });
+
+  it("treats null and undefined as equal", () => {
+    const c = diffContract({ header: { season: null }, items: [] }, { header: {}, items: [] });
+    expect(hasChanges(c)).toBe(false);
+    expect(parseContractChanges(null)).toEqual(c);
+  });
+});
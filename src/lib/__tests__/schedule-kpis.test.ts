@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { compareKPIs, planKPIs, type KPIBooking } from "../schedule-kpis";
+import { EMPTY_CALENDAR, buildWorkingCalendar } from "../working-days";
+
+// Mon 2 Mar .. Fri 6 Mar
+const horizon = { start: "2026-03-02", end: "2026-03-06" };
+const orders = [
+  { id: "PO1", planned_ex_factory: "2026-03-10" },
+  { id: "PO2", planned_ex_factory: "2026-03-03" },
+  { id: "PO3", planned_ex_factory: null },
+];
+
+const book = (line_id: string, work_order_id: string, start_date: string, end_date: string, status?: string): KPIBooking => ({
+  line_id,
+  work_order_id,
+  start_date,
+  end_date,
+  status,
+});
+
+describe("planKPIs", () => {
+  it("counts utilised lines and idle working days over the horizon", () => {
+    const kpis = planKPIs(
+      [book("L1", "PO1", "2026-03-02", "2026-03-04"), book("L1", "PO3", "2026-03-04", "2026-03-05")],
+      orders,
+      ["L1", "L2"],
+      horizon,
+      EMPTY_CALENDAR,
+    );
+    expect(kpis).toEqual({ linesUtilised: 1, lineCount: 2, posLate: 0, idleLineDays: 1 + 5 });
+  });
+
+  it("skips non-working days and completed bookings", () => {
+    const fridayOff = buildWorkingCalendar([5], []);
+    const kpis = planKPIs(
+      [book("L1", "PO1", "2026-03-02", "2026-03-06"), book("L2", "PO3", "2026-03-02", "2026-03-06", "completed")],
+      orders,
+      ["L1", "L2"],
+      horizon,
+      fridayOff,
+    );
+    expect(kpis.linesUtilised).toBe(1);
+    expect(kpis.idleLineDays).toBe(4);
+  });
+
+  it("flags a PO late when its last booking ends after ex-factory", () => {
+    const kpis = planKPIs(
+      [book("L1", "PO2", "2026-03-02", "2026-03-03"), book("L2", "PO2", "2026-03-02", "2026-03-05")],
+      orders,
+      ["L1", "L2"],
+      horizon,
+      EMPTY_CALENDAR,
+    );
+    expect(kpis.posLate).toBe(1);
+  });
+});
+
+describe("compareKPIs", () => {
+  it("marks more lines in use and fewer late POs or idle days as improvements", () => {
+    const live = { linesUtilised: 3, lineCount: 5, posLate: 2, idleLineDays: 20 };
+    const plan = { linesUtilised: 4, lineCount: 5, posLate: 3, idleLineDays: 20 };
+    expect(compareKPIs(plan, live)).toEqual([
+      { key: "linesUtilised", value: 4, delta: 1, improved: true },
+      { key: "posLate", value: 3, delta: 1, improved: false },
+      { key: "idleLineDays", value: 20, delta: 0, improved: false },
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  actualsByBooking,
+  plannedOutput,
+  reforecastLine,
+  scheduleProgress,
+  type ProgressBooking,
+} from "../schedule-progress";
+import { EMPTY_CALENDAR, buildWorkingCalendar } from "../working-days";
+
+// Mon 2 Mar .. Fri 6 Mar, 500/day
+const booking: ProgressBooking = {
+  id: "B1",
+  line_id: "L1",
+  work_order_id: "PO1",
+  start_date: "2026-03-02",
+  end_date: "2026-03-06",
+  target_qty: 2500,
+  daily_target: 500,
+};
+
+const sewn = (production_date: string, good_today: number, work_order_id = "PO1") => ({
+  line_id: "L1",
+  work_order_id,
+  production_date,
+  good_today,
+});
+
+describe("plannedOutput", () => {
+  it("accumulates the daily target over working days, capped at the target", () => {
+    expect(plannedOutput(booking, "2026-03-01", EMPTY_CALENDAR)).toBe(0);
+    expect(plannedOutput(booking, "2026-03-03", EMPTY_CALENDAR)).toBe(1000);
+    expect(plannedOutput(booking, "2026-03-20", EMPTY_CALENDAR)).toBe(2500);
+    // Wednesday off: still only two working days by Wednesday
+    expect(plannedOutput(booking, "2026-03-04", buildWorkingCalendar([3], []))).toBe(1000);
+  });
+
+  it("applies the changeover ramp and spreads the target without a daily rate", () => {
+    expect(plannedOutput(booking, "2026-03-03", EMPTY_CALENDAR, [40, 60])).toBe(500);
+    expect(plannedOutput({ ...booking, daily_target: null }, "2026-03-03", EMPTY_CALENDAR)).toBe(1000);
+  });
+});
+
+describe("scheduleProgress", () => {
+  it("is not started before any output is due", () => {
+    expect(scheduleProgress(booking, [], 2500, "2026-03-02", EMPTY_CALENDAR).status).toBe("not_started");
+  });
+
+  it("flags a booking that falls behind plan and forecasts its finish", () => {
+    const p = scheduleProgress(booking, [sewn("2026-03-02", 300), sewn("2026-03-03", 300)], 2500, "2026-03-04", EMPTY_CALENDAR);
+    expect(p.plannedQty).toBe(1000);
+    expect(p.variance).toBe(-400);
+    expect(p.status).toBe("delayed");
+    // 1900 left at 300/day from the 3rd = 7 more days
+    expect(p.forecastEnd).toBe("2026-03-10");
+  });
+
+  it("stays in progress on plan and completes at target", () => {
+    const onPlan = [sewn("2026-03-02", 500), sewn("2026-03-03", 520)];
+    expect(scheduleProgress(booking, onPlan, 2500, "2026-03-04", EMPTY_CALENDAR).status).toBe("in_progress");
+    const done = [...onPlan, sewn("2026-03-04", 1500)];
+    const p = scheduleProgress(booking, done, 2500, "2026-03-05", EMPTY_CALENDAR);
+    expect(p.status).toBe("completed");
+    expect(p.forecastEnd).toBe("2026-03-04");
+  });
+
+  it("splits output between repeat bookings of a PO on the same line", () => {
+    const later = { ...booking, id: "B2", start_date: "2026-03-16", end_date: "2026-03-20" };
+    const split = actualsByBooking([booking, later], [sewn("2026-03-03", 100), sewn("2026-03-17", 200), sewn("2026-03-03", 50, "PO9")]);
+    expect(split.get("B1")!.map((a) => a.good_today)).toEqual([100]);
+    expect(split.get("B2")!.map((a) => a.good_today)).toEqual([200]);
+  });
+});
+
+describe("reforecastLine", () => {
+  const line = [
+    { id: "A", start_date: "2026-03-02", end_date: "2026-03-06" },
+    { id: "B", start_date: "2026-03-07", end_date: "2026-03-09" },
+    { id: "C", start_date: "2026-03-10", end_date: "2026-03-10" },
+    { id: "FAR", start_date: "2026-04-01", end_date: "2026-04-03" },
+    { id: "PARALLEL", start_date: "2026-03-04", end_date: "2026-03-12" },
+  ];
+
+  it("pushes the queue behind a slipping booking in order, keeping lengths", () => {
+    const cal = buildWorkingCalendar([5], []); // Fridays off
+    expect(reforecastLine(line, "A", "2026-03-08", cal)).toEqual([
+      { id: "A", start_date: "2026-03-02", end_date: "2026-03-08" },
+      // Three working days from Mon 9th
+      { id: "B", start_date: "2026-03-09", end_date: "2026-03-11" },
+      { id: "C", start_date: "2026-03-12", end_date: "2026-03-12" },
+    ]);
+  });
+
+  it("does nothing when the booking isn't slipping", () => {
+    expect(reforecastLine(line, "A", "2026-03-05", EMPTY_CALENDAR)).toEqual([]);
+  });
+});
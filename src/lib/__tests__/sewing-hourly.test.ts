@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  hourSlotStatus,
+  summarizeHourly,
+  runningVariance,
+  endOfDayFromHourly,
+  dhu,
+  type HourlyLogLike,
+} from "../sewing-hourly";
+import { DEFAULT_SHIFT, buildHourSlots } from "../shifts";
+
+const SLOTS = buildHourSlots(DEFAULT_SHIFT);
+const slot = (key: string) => SLOTS.find((s) => s.key === key)!;
+
+const log = (hour_slot: string, over: Partial<HourlyLogLike> = {}): HourlyLogLike => ({
+  hour_slot,
+  target_qty: 100,
+  good_qty: 100,
+  reject_qty: 0,
+  rework_qty: 0,
+  defect_count: 0,
+  ...over,
+});
+
+describe("hour status", () => {
+  it("judges logged hours against their target", () => {
+    expect(hourSlotStatus(slot("08-09"), log("08-09", { good_qty: 100 }), 720)).toBe("on-target");
+    expect(hourSlotStatus(slot("08-09"), log("08-09", { good_qty: 92 }), 720)).toBe("slightly-behind");
+    expect(hourSlotStatus(slot("08-09"), log("08-09", { good_qty: 70 }), 720)).toBe("behind");
+    expect(hourSlotStatus(slot("08-09"), log("08-09", { target_qty: 0, good_qty: 5 }), 720)).toBe("on-target");
+  });
+
+  it("flags unlogged hours that have already ended", () => {
+    expect(hourSlotStatus(slot("09-10"), undefined, 630)).toBe("missing");
+    expect(hourSlotStatus(slot("10-11"), undefined, 630)).toBe("current");
+    expect(hourSlotStatus(slot("11-12"), undefined, 630)).toBe("upcoming");
+    expect(hourSlotStatus(slot("11-12"), undefined, null)).toBe("missing");
+  });
+});
+
+describe("totals", () => {
+  const logs = [
+    log("09-10", { target_qty: 120, good_qty: 100, reject_qty: 4, rework_qty: 6, defect_count: 12 }),
+    log("08-09", { target_qty: 120, good_qty: 130, reject_qty: 2, rework_qty: 8, defect_count: 8 }),
+  ];
+
+  it("sums hours and computes DHU over checked pieces", () => {
+    const t = summarizeHourly(logs);
+    expect(t).toMatchObject({ hoursLogged: 2, target: 240, good: 230, reject: 6, rework: 14, defects: 20, checked: 250, variance: -10 });
+    expect(t.dhu).toBe(8);
+    expect(dhu(3, 0)).toBeNull();
+  });
+
+  it("tracks cumulative variance in slot order", () => {
+    const v = runningVariance(logs, SLOTS);
+    expect(v.get("08-09")).toBe(10);
+    expect(v.get("09-10")).toBe(-10);
+  });
+
+  it("derives end-of-day quantities only when hours were logged", () => {
+    expect(endOfDayFromHourly(logs)).toEqual({ good_today: 230, reject_today: 6, rework_today: 14 });
+    expect(endOfDayFromHourly([])).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SHIFT,
+  buildHourSlots,
+  currentShift,
+  editDeadline,
+  isWithinEditWindow,
+  parseTime,
+  shiftClock,
+  shiftProductionDate,
+  slotLabel,
+  sortBySlots,
+  workingHours,
+  type ShiftDefinition,
+} from "../shifts";
+
+const shift = (over: Partial<ShiftDefinition>): ShiftDefinition => ({
+  id: "s",
+  name: "Day",
+  start_time: "08:00",
+  end_time: "17:00",
+  breaks: [],
+  ot_slots: 0,
+  ...over,
+});
+
+const night = shift({ id: "n", name: "Night", start_time: "20:00", end_time: "05:00", breaks: [{ start: "00:00", end: "01:00" }] });
+
+describe("hour slots", () => {
+  it("reproduces the legacy fixed slots from the default shift", () => {
+    expect(buildHourSlots(DEFAULT_SHIFT).map((s) => s.key)).toEqual([
+      "08-09", "09-10", "10-11", "11-12", "12-01",
+      "02-03", "03-04", "04-05", "05-06", "06-07",
+      "OT-1", "OT-2", "OT-3", "OT-4", "OT-5",
+    ]);
+    expect(workingHours(DEFAULT_SHIFT)).toBe(10);
+  });
+
+  it("cuts slots short at breaks and keeps minutes in labels", () => {
+    const slots = buildHourSlots(shift({ start_time: "07:00", end_time: "12:00", breaks: [{ start: "09:30", end: "10:00" }] }));
+    expect(slots.map((s) => s.key)).toEqual(["07-08", "08-09", "09-09:30", "10-11", "11-12"]);
+    expect(workingHours(shift({ start_time: "07:00", end_time: "12:00", breaks: [{ start: "09:30", end: "10:00" }] }))).toBe(4.5);
+  });
+
+  it("runs night shifts past midnight on the same production date", () => {
+    const slots = buildHourSlots(night);
+    expect(slots[0]).toMatchObject({ key: "08-09", start: 1200 });
+    expect(slots.map((s) => s.key)).not.toContain("12-01");
+    expect(slots[slots.length - 1]).toMatchObject({ key: "04-05", end: 1740 });
+    expect(workingHours(night)).toBe(8);
+  });
+
+  it("orders rows by slot position", () => {
+    const slots = buildHourSlots(night);
+    const rows = [{ hour_slot: "02-03" }, { hour_slot: "OT-9" }, { hour_slot: "10-11" }];
+    expect(sortBySlots(rows, slots).map((r) => r.hour_slot)).toEqual(["10-11", "02-03", "OT-9"]);
+  });
+
+  it("formats labels on a 12-hour clock", () => {
+    expect(slotLabel(720, 780)).toBe("12-01");
+    expect(slotLabel(450, 510)).toBe("07:30-08:30");
+    expect(parseTime("18:30:00")).toBe(1110);
+    expect(parseTime("25:00")).toBeNull();
+  });
+});
+
+describe("clock", () => {
+  it("places early-morning time on yesterday's night shift", () => {
+    expect(shiftClock(night, 2, 30)).toBe(1590);
+    expect(shiftClock(night, 21)).toBe(1260);
+    expect(shiftClock(DEFAULT_SHIFT, 2)).toBe(120);
+  });
+
+  it("finds the running shift", () => {
+    const day = shift({ ot_slots: 2 });
+    expect(currentShift([day, night], 10)?.name).toBe("Day");
+    expect(currentShift([day, night], 18, 30)?.name).toBe("Day"); // overtime
+    expect(currentShift([day, night], 3)?.name).toBe("Night");
+    expect(currentShift([day, night], 19, 30)).toBeNull();
+  });
+
+  it("files early-morning night-shift entries under the previous date", () => {
+    expect(shiftProductionDate(night, "2026-03-01", 2)).toBe("2026-02-28");
+    expect(shiftProductionDate(night, "2026-03-01", 22)).toBe("2026-03-01");
+    expect(shiftProductionDate(DEFAULT_SHIFT, "2026-03-01", 2)).toBe("2026-03-01");
+    expect(shiftProductionDate(null, "2026-03-01", 2)).toBe("2026-03-01");
+  });
+});
+
+describe("edit window", () => {
+  it("keeps the factory cutoff for day-only factories", () => {
+    expect(editDeadline([], "16:00")).toBe(960);
+    expect(editDeadline([DEFAULT_SHIFT], "00:00")).toBe(1440);
+    expect(isWithinEditWindow(0, 959, 960)).toBe(true);
+    expect(isWithinEditWindow(0, 960, 960)).toBe(false);
+    expect(isWithinEditWindow(1, 10, 1440)).toBe(false);
+  });
+
+  it("lets a night shift edit yesterday's sheet until the next-morning cutoff", () => {
+    expect(editDeadline([DEFAULT_SHIFT, night], "07:00")).toBe(1860);
+    expect(editDeadline([DEFAULT_SHIFT, night], null)).toBe(1740);
+    expect(isWithinEditWindow(1, 6 * 60, 1860)).toBe(true);
+    expect(isWithinEditWindow(1, 8 * 60, 1860)).toBe(false);
+  });
+
+  it("keeps an evening cutoff on the production day", () => {
+    expect(editDeadline([DEFAULT_SHIFT, night], "18:00")).toBe(1080);
+    expect(editDeadline([DEFAULT_SHIFT, night], "04:00")).toBe(1680);
+    expect(isWithinEditWindow(1, 10 * 60, 1080)).toBe(false);
+    expect(editDeadline([night], "18:00")).toBe(2520);
+  });
+});
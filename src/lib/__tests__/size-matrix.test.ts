@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  breakdownTotal,
+  compactBreakdown,
+  isValidBreakdown,
+  parseBreakdown,
+  sizeColumnTotal,
+  sizeRollup,
+  sortSizes,
+  type ColourBreakdown,
+} from "../size-matrix";
+
+const ORDERED: ColourBreakdown[] = [
+  { colour: "Navy", quantities: { S: 100, M: 200 } },
+  { colour: "Red", quantities: { S: 50, M: 50 } },
+];
+
+describe("parseBreakdown", () => {
+  it("reads stored rows and drops empty quantities", () => {
+    expect(parseBreakdown([{ colour: "Navy", quantities: { S: 10, M: "5", L: 0 } }])).toEqual([
+      { colour: "Navy", quantities: { S: 10, M: 5 } },
+    ]);
+  });
+
+  it("returns null for missing or malformed values", () => {
+    expect(parseBreakdown(null)).toBeNull();
+    expect(parseBreakdown([])).toBeNull();
+    expect(parseBreakdown({ colour: "Navy" })).toBeNull();
+    expect(parseBreakdown([{ colour: 3, quantities: {} }])).toBeNull();
+    expect(parseBreakdown([{ colour: "Navy" }])).toBeNull();
+  });
+});
+
+describe("sortSizes", () => {
+  it("puts standard sizes in their usual order, then the rest as listed", () => {
+    expect(sortSizes(["XL", "32", "S", "28", "M", "S"])).toEqual(["S", "M", "XL", "32", "28"]);
+  });
+});
+
+describe("compactBreakdown", () => {
+  it("drops zero cells and empty colours", () => {
+    expect(
+      compactBreakdown([
+        { colour: " Navy ", quantities: { S: 0, M: 4 } },
+        { colour: "Red", quantities: { S: 0 } },
+      ])
+    ).toEqual([{ colour: "Navy", quantities: { M: 4 } }]);
+  });
+
+  it("returns null when nothing is entered", () => {
+    expect(compactBreakdown([{ colour: "Navy", quantities: { S: 0 } }])).toBeNull();
+  });
+});
+
+describe("isValidBreakdown", () => {
+  it("needs named, unique colours and some quantity", () => {
+    expect(isValidBreakdown(["S", "M"], ORDERED)).toBe(true);
+    expect(isValidBreakdown(["S", "M"], [...ORDERED, { colour: "Navy", quantities: { S: 1 } }])).toBe(false);
+    expect(isValidBreakdown(["S"], [{ colour: "", quantities: { S: 1 } }])).toBe(false);
+    expect(isValidBreakdown(["S"], [{ colour: "Navy", quantities: {} }])).toBe(false);
+  });
+});
+
+describe("sizeRollup", () => {
+  const rollup = sizeRollup(ORDERED, ["S", "M"], {
+    cut: [
+      { qty: 160, breakdown: [{ colour: "Navy", quantities: { S: 110, M: 50 } }] },
+      { qty: 40, breakdown: null },
+    ],
+    sewn: [{ qty: 90, breakdown: [{ colour: "Navy", quantities: { S: 90 } }] }],
+    finished: [
+      { qty: 105, breakdown: [{ colour: "Navy", quantities: { S: 105 } }] },
+      { qty: 20, breakdown: [{ colour: "Red", quantities: { XL: 20 } }] },
+      { qty: 30, breakdown: null },
+    ],
+  });
+
+  it("gives the balance to produce per colour and size", () => {
+    const navy = rollup.rows.find((r) => r.colour === "Navy")!;
+    expect(navy.cells.S).toEqual({ ordered: 100, cut: 110, sewn: 90, finished: 105, balance: -5 });
+    expect(navy.cells.M.balance).toBe(200);
+    expect(navy.total.balance).toBe(195);
+  });
+
+  it("adds sizes only seen in submissions after the PO's own", () => {
+    expect(rollup.sizes).toEqual(["S", "M", "XL"]);
+    const red = rollup.rows.find((r) => r.colour === "Red")!;
+    expect(red.cells.XL).toEqual({ ordered: 0, cut: 0, sewn: 0, finished: 20, balance: -20 });
+  });
+
+  it("counts submissions without a breakdown as unallocated", () => {
+    expect(rollup.unallocated).toEqual({ cut: 40, sewn: 0, finished: 30 });
+    expect(rollup.total.finished).toBe(125);
+    expect(rollup.total.ordered).toBe(breakdownTotal(ORDERED));
+  });
+
+  it("totals each size across colours", () => {
+    expect(sizeColumnTotal(rollup, "S")).toEqual({ ordered: 150, cut: 110, sewn: 90, finished: 105, balance: 45 });
+  });
+});
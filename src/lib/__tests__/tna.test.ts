@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  milestoneCode,
+  milestoneState,
+  planMilestones,
+  replanMilestones,
+  resolveTemplate,
+  trackMilestones,
+  type POMilestone,
+  type TnATemplate,
+} from "../tna";
+import { EMPTY_CALENDAR, buildWorkingCalendar } from "../working-days";
+
+// Fridays off; ex-factory Thu 2 Apr 2026
+const cal = buildWorkingCalendar([5], []);
+const EX = "2026-04-02";
+
+const items = [
+  { milestone_code: "pp_sample", label: "PP sample approval", days_before: 10, item_order: 2 },
+  { milestone_code: "lab_dip", label: "Lab dip approval", days_before: 20, item_order: 1 },
+  { milestone_code: "final_inspection", label: "Final inspection", days_before: 1, item_order: 3 },
+];
+
+const milestone = (
+  id: string,
+  planned_date: string,
+  item_order: number,
+  actual_date: string | null = null,
+): POMilestone => ({
+  id,
+  milestone_code: id,
+  label: id,
+  days_before: 0,
+  item_order,
+  planned_date,
+  actual_date,
+  owner_id: null,
+});
+
+describe("resolveTemplate", () => {
+  const templates: TnATemplate[] = [
+    { id: "T1", name: "Default", product_category: null, is_default: true, items: [] },
+    { id: "T2", name: "Polo", product_category: "Polo", is_default: false, items: [] },
+  ];
+
+  it("prefers the product category's template over the default", () => {
+    expect(resolveTemplate(templates, " polo ")?.id).toBe("T2");
+    expect(resolveTemplate(templates, "Jacket")?.id).toBe("T1");
+    expect(resolveTemplate(templates, null)?.id).toBe("T1");
+    expect(resolveTemplate([], "Polo")).toBeNull();
+  });
+});
+
+describe("milestoneCode", () => {
+  it("slugs a label", () => {
+    expect(milestoneCode("  PP sample / approval ")).toBe("pp_sample_approval");
+  });
+});
+
+describe("planMilestones", () => {
+  it("counts back from ex-factory in working days, in template order", () => {
+    const plan = planMilestones(items, EX, cal);
+    expect(plan.map((m) => m.milestone_code)).toEqual(["lab_dip", "pp_sample", "final_inspection"]);
+    // One working day back from Thu 2 Apr is Wed 1 Apr
+    expect(plan[2].planned_date).toBe("2026-04-01");
+    // Ten working days back skips Fri 27 Mar
+    expect(plan[1].planned_date).toBe("2026-03-22");
+  });
+
+  it("moves only open milestones when ex-factory changes", () => {
+    const plan = planMilestones(items, EX, EMPTY_CALENDAR).map((m, i) => ({
+      ...m,
+      id: `M${i}`,
+      actual_date: i === 0 ? "2026-03-13" : null,
+      owner_id: null,
+    }));
+    expect(replanMilestones(plan, "2026-04-05", EMPTY_CALENDAR)).toEqual([
+      { id: "M1", planned_date: "2026-03-26" },
+      { id: "M2", planned_date: "2026-04-04" },
+    ]);
+    expect(replanMilestones(plan, EX, EMPTY_CALENDAR)).toEqual([]);
+  });
+});
+
+describe("milestoneState", () => {
+  it("classifies done, late, overdue and due soon", () => {
+    const today = "2026-03-10";
+    expect(milestoneState(milestone("a", "2026-03-09", 1, "2026-03-09"), today, EMPTY_CALENDAR)).toBe("done");
+    expect(milestoneState(milestone("a", "2026-03-09", 1, "2026-03-10"), today, EMPTY_CALENDAR)).toBe("done_late");
+    expect(milestoneState(milestone("a", "2026-03-09", 1), today, EMPTY_CALENDAR)).toBe("overdue");
+    expect(milestoneState(milestone("a", "2026-03-13", 1), today, EMPTY_CALENDAR)).toBe("due_soon");
+    expect(milestoneState(milestone("a", "2026-03-20", 1), today, EMPTY_CALENDAR)).toBe("open");
+  });
+});
+
+describe("trackMilestones", () => {
+  it("carries an overdue milestone's lateness down the chain and onto ex-factory", () => {
+    const status = trackMilestones(
+      [milestone("b", "2026-03-20", 2), milestone("a", "2026-03-05", 1), milestone("c", "2026-03-30", 3)],
+      EX,
+      "2026-03-09",
+      EMPTY_CALENDAR,
+    );
+    expect(status.milestones.map((m) => m.id)).toEqual(["a", "b", "c"]);
+    expect(status.overdue).toBe(1);
+    expect(status.next?.id).toBe("a");
+    expect(status.slipDays).toBe(4);
+    expect(status.milestones[1].projectedDate).toBe("2026-03-24");
+    expect(status.projectedExFactory).toBe("2026-04-06");
+  });
+
+  it("restarts the slip from a done milestone's actual lateness", () => {
+    const status = trackMilestones(
+      [milestone("a", "2026-03-05", 1, "2026-03-08"), milestone("b", "2026-03-20", 2, "2026-03-19"), milestone("c", "2026-03-30", 3)],
+      EX,
+      "2026-03-21",
+      EMPTY_CALENDAR,
+    );
+    expect(status.done).toBe(2);
+    expect(status.milestones[0].slipDays).toBe(3);
+    expect(status.milestones[2].projectedDate).toBe("2026-03-30");
+    expect(status.slipDays).toBe(0);
+    expect(status.projectedExFactory).toBe(EX);
+  });
+
+  it("has no projected ex-factory without a deadline", () => {
+    const status = trackMilestones([milestone("a", "2026-03-05", 1, "2026-03-05")], null, "2026-03-09", EMPTY_CALENDAR);
+    expect(status.next).toBeNull();
+    expect(status.projectedExFactory).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_CALENDAR,
+  addWorkingDays,
+  buildWorkingCalendar,
+  countWorkingDays,
+  holidayOn,
+  isWorkingDay,
+  recentWorkingDays,
+  workingDaysBetween,
+} from "../working-days";
+
+// Fridays off, Eid closure Wed 2026-03-18 .. Sat 2026-03-21
+const eid = { name: "Eid-ul-Fitr", kind: "eid" as const, start_date: "2026-03-18", end_date: "2026-03-21" };
+const cal = buildWorkingCalendar([5], [eid]);
+
+describe("buildWorkingCalendar", () => {
+  it("expands holiday ranges to every date inside them", () => {
+    expect(holidayOn(cal, "2026-03-18")?.name).toBe("Eid-ul-Fitr");
+    expect(holidayOn(cal, "2026-03-21")?.name).toBe("Eid-ul-Fitr");
+    expect(holidayOn(cal, "2026-03-22")).toBeNull();
+  });
+
+  it("ignores a week with no working days", () => {
+    expect(buildWorkingCalendar([0, 1, 2, 3, 4, 5, 6], []).nonWorkingWeekdays).toEqual([]);
+  });
+});
+
+describe("working day maths", () => {
+  it("skips weekly off-days and holidays", () => {
+    expect(isWorkingDay(cal, "2026-03-13")).toBe(false); // Friday
+    expect(isWorkingDay(cal, "2026-03-19")).toBe(false); // Eid
+    expect(isWorkingDay(cal, "2026-03-16")).toBe(true);
+    // 14th..22nd: Sat, Sun, Mon, Tue working; Wed..Sat Eid; Sun working
+    expect(countWorkingDays(cal, "2026-03-14", "2026-03-22")).toBe(5);
+  });
+
+  it("counts signed working days between dates", () => {
+    expect(workingDaysBetween(cal, "2026-03-17", "2026-03-22")).toBe(1);
+    expect(workingDaysBetween(cal, "2026-03-22", "2026-03-17")).toBe(-1);
+    expect(workingDaysBetween(cal, "2026-03-17", "2026-03-17")).toBe(0);
+    // Deadline yesterday, today a holiday: still overdue
+    expect(workingDaysBetween(cal, "2026-03-19", "2026-03-18")).toBe(-1);
+  });
+
+  it("adds working days past closures", () => {
+    expect(addWorkingDays(cal, "2026-03-17", 1)).toBe("2026-03-22");
+    expect(addWorkingDays(cal, "2026-03-17", 0)).toBe("2026-03-17");
+    expect(addWorkingDays(cal, "2026-03-22", -1)).toBe("2026-03-17");
+    expect(recentWorkingDays(cal, "2026-03-22", 3)).toEqual(["2026-03-22", "2026-03-17", "2026-03-16"]);
+  });
+
+  it("treats every day as working with the empty calendar", () => {
+    expect(workingDaysBetween(EMPTY_CALENDAR, "2026-03-01", "2026-03-08")).toBe(7);
+    expect(addWorkingDays(EMPTY_CALENDAR, "2026-03-01", 7)).toBe("2026-03-08");
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * AQL sampling for final and pre-final inspections, following ISO 2859-1 /
+ * ANSI Z1.4 single sampling under normal inspection. The lot quantity and
+ * general inspection level give a sample size code letter (Table I); each
+ * defect class's AQL then gives its sample size and accept/reject numbers
+ * (Table II-A), following the table's arrows where a cell has no plan. The
+ * lot passes when every class's defect count stays below its reject number.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export type InspectionLevel = "I" | "II" | "III";
+
+export type CodeLetter =
+  | "A" | "B" | "C" | "D" | "E" | "F" | "G" | "H"
+  | "J" | "K" | "L" | "M" | "N" | "P" | "Q" | "R";
+
+export type DefectSeverity = "critical" | "major" | "minor";
+
+/** 0 means no defects of the class are accepted */
+export type AqlValue = 0 | 1 | 1.5 | 2.5 | 4;
+
+export type AqlResult = "pass" | "fail";
+
+export interface AqlLevels {
+  critical: AqlValue;
+  major: AqlValue;
+  minor: AqlValue;
+}
+
+export interface SamplingPlan {
+  aql: AqlValue;
+  /** Pieces to draw for this class, capped at the lot quantity */
+  sampleSize: number;
+  /** Accept the lot with this many defects or fewer */
+  ac: number;
+  /** Reject the lot at this many defects or more */
+  re: number;
+}
+
+export interface AqlPlan {
+  codeLetter: CodeLetter;
+  /** Largest sample any class calls for — the pieces the inspector pulls */
+  sampleSize: number;
+  plans: Record<DefectSeverity, SamplingPlan>;
+}
+
+export type DefectCounts = Record<DefectSeverity, number>;
+
+export interface AqlVerdict {
+  result: AqlResult;
+  /** Classes whose defect count reached the reject number */
+  failedClasses: DefectSeverity[];
+}
+
+export interface DefectCatalogueEntry {
+  code: string;
+  name: string;
+  severity: DefectSeverity;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+export const INSPECTION_LEVELS: InspectionLevel[] = ["I", "II", "III"];
+
+export const AQL_VALUES: AqlValue[] = [0, 1, 1.5, 2.5, 4];
+
+export const DEFECT_SEVERITIES: DefectSeverity[] = ["critical", "major", "minor"];
+
+export const DEFAULT_AQL_LEVELS: AqlLevels = { critical: 0, major: 2.5, minor: 4 };
+
+export const DEFAULT_INSPECTION_LEVEL: InspectionLevel = "II";
+
+const CODE_LETTERS: CodeLetter[] = ["A", "B", "C", "D", "E", "F", "G", "H", "J", "K", "L", "M", "N", "P", "Q", "R"];
+
+const SAMPLE_SIZES: Record<CodeLetter, number> = {
+  A: 2, B: 3, C: 5, D: 8, E: 13, F: 20, G: 32, H: 50,
+  J: 80, K: 125, L: 200, M: 315, N: 500, P: 800, Q: 1250, R: 2000,
+};
+
+/** Table I — upper lot size bound and the code letter for levels I, II, III */
+const LOT_SIZE_TABLE: Array<[number, CodeLetter, CodeLetter, CodeLetter]> = [
+  [8, "A", "A", "B"],
+  [15, "A", "B", "C"],
+  [25, "B", "C", "D"],
+  [50, "C", "D", "E"],
+  [90, "C", "E", "F"],
+  [150, "D", "F", "G"],
+  [280, "E", "G", "H"],
+  [500, "F", "H", "J"],
+  [1200, "G", "J", "K"],
+  [3200, "H", "K", "L"],
+  [10000, "J", "L", "M"],
+  [35000, "K", "M", "N"],
+  [150000, "L", "N", "P"],
+  [500000, "M", "P", "Q"],
+  [Infinity, "N", "Q", "R"],
+];
+
+/**
+ * Table II-A, one column per AQL. Each column runs 0/1, then an up arrow, a
+ * down arrow, and the accept numbers below, one code letter apart. The
+ * column for an AQL starts at the code letter where it reads 0/1.
+ */
+const ZERO_ACCEPT_LETTER: Record<Exclude<AqlValue, 0>, number> = { 4: 1, 2.5: 2, 1.5: 3, 1: 4 };
+
+const ACCEPT_NUMBERS = [1, 2, 3, 5, 7, 10, 14, 21];
+
+/** Rows between the 0/1 cell and the last plan (21/22) in a column */
+const LAST_PLAN_OFFSET = 3 + ACCEPT_NUMBERS.length - 1;
+
+// ── Defect catalogue ───────────────────────────────────────────────────
+
+/** Standard garment defects offered when logging AQL findings */
+export const DEFECT_CATALOGUE: DefectCatalogueEntry[] = [
+  { code: "CR01", name: "Broken needle / metal contamination", severity: "critical" },
+  { code: "CR02", name: "Sharp point or edge", severity: "critical" },
+  { code: "CR03", name: "Mould or odour", severity: "critical" },
+  { code: "CR04", name: "Missing or wrong care / safety label", severity: "critical" },
+  { code: "MA01", name: "Open or broken seam", severity: "major" },
+  { code: "MA02", name: "Skipped or broken stitch", severity: "major" },
+  { code: "MA03", name: "Hole, cut or fabric flaw", severity: "major" },
+  { code: "MA04", name: "Visible stain", severity: "major" },
+  { code: "MA05", name: "Shade variation between panels", severity: "major" },
+  { code: "MA06", name: "Measurement out of tolerance", severity: "major" },
+  { code: "MA07", name: "Wrong size label", severity: "major" },
+  { code: "MA08", name: "Seam puckering", severity: "major" },
+  { code: "MA09", name: "Missing or defective trim (button, zip, snap)", severity: "major" },
+  { code: "MA10", name: "Print or embroidery defect", severity: "major" },
+  { code: "MI01", name: "Untrimmed thread", severity: "minor" },
+  { code: "MI02", name: "Uneven stitch density", severity: "minor" },
+  { code: "MI03", name: "Slight crease or poor pressing", severity: "minor" },
+  { code: "MI04", name: "Label slightly crooked", severity: "minor" },
+  { code: "MI05", name: "Removable mark or chalk", severity: "minor" },
+];
+
+// ── Functions ──────────────────────────────────────────────────────────
+
+/** Table I code letter for a lot. Lots under 2 pieces read as the smallest lot. */
+export function codeLetterFor(lotQty: number, level: InspectionLevel): CodeLetter {
+  const col = INSPECTION_LEVELS.indexOf(level) + 1;
+  const row = LOT_SIZE_TABLE.find((r) => lotQty <= r[0]) ?? LOT_SIZE_TABLE[LOT_SIZE_TABLE.length - 1];
+  return row[col] as CodeLetter;
+}
+
+export function sampleSizeFor(letter: CodeLetter): number {
+  return SAMPLE_SIZES[letter];
+}
+
+/** Table II-A plan for a code letter and AQL, uncapped by lot size */
+export function samplingPlanFor(letter: CodeLetter, aql: AqlValue): SamplingPlan {
+  const row = CODE_LETTERS.indexOf(letter);
+  if (aql === 0) return { aql, sampleSize: SAMPLE_SIZES[letter], ac: 0, re: 1 };
+
+  const zeroRow = ZERO_ACCEPT_LETTER[aql];
+  const offset = row - zeroRow;
+  let planRow: number;
+  if (offset <= 1) {
+    // Down arrow above the 0/1 cell and up arrow just below it both land on 0/1
+    planRow = zeroRow;
+  } else if (offset === 2) {
+    // Down arrow to the 1/2 plan
+    planRow = zeroRow + 3;
+  } else {
+    // Past 21/22 the column points back up to it
+    planRow = zeroRow + Math.min(offset, LAST_PLAN_OFFSET);
+  }
+
+  const planOffset = planRow - zeroRow;
+  const ac = planOffset === 0 ? 0 : ACCEPT_NUMBERS[planOffset - 3];
+  return { aql, sampleSize: SAMPLE_SIZES[CODE_LETTERS[planRow]], ac, re: ac + 1 };
+}
+
+/** Sampling plans for every defect class of a lot */
+export function aqlPlanFor(lotQty: number, level: InspectionLevel, aqls: AqlLevels): AqlPlan {
+  const codeLetter = codeLetterFor(lotQty, level);
+  const plans = {} as Record<DefectSeverity, SamplingPlan>;
+  for (const severity of DEFECT_SEVERITIES) {
+    const plan = samplingPlanFor(codeLetter, aqls[severity]);
+    // A sample as large as the lot means inspecting every piece
+    plans[severity] = { ...plan, sampleSize: Math.min(plan.sampleSize, Math.max(lotQty, 1)) };
+  }
+  const sampleSize = Math.max(...DEFECT_SEVERITIES.map((s) => plans[s].sampleSize));
+  return { codeLetter, sampleSize, plans };
+}
+
+/** Total defects found per class */
+export function countDefects(defects: Array<{ severity: DefectSeverity; quantity: number }>): DefectCounts {
+  const counts: DefectCounts = { critical: 0, major: 0, minor: 0 };
+  for (const d of defects) counts[d.severity] += d.quantity;
+  return counts;
+}
+
+export function aqlVerdict(plans: Record<DefectSeverity, Pick<SamplingPlan, "re">>, counts: DefectCounts): AqlVerdict {
+  const failedClasses = DEFECT_SEVERITIES.filter((s) => counts[s] >= plans[s].re);
+  return { result: failedClasses.length > 0 ? "fail" : "pass", failedClasses };
+}
+
+/** "2.5", "1.0" or "0 (none)" */
+export function formatAql(aql: AqlValue | number): string {
+  if (aql === 0) return "0 (none)";
+  return Number.isInteger(aql) ? aql.toFixed(1) : String(aql);
+}
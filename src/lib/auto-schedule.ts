@@ -0,0 +1,268 @@
+import { addDays, format, parseISO } from "date-fns";
+import { isWorkingDay, workingDaysBetween, type WorkingCalendar } from "./working-days";
+import { isChangeover, rampFactor, resolveCurve, type LearningCurve } from "./learning-curve";
+
+/**
+ * Capacity-aware line loading for the production schedule.
+ *
+ *   pieces / day = manpower × minutes / day × target efficiency ÷ SMV
+ *
+ * Each line is loaded from the day after its last open booking, so a plan
+ * never overlaps what is already on the board. Orders are placed earliest
+ * ex-factory first; one that would miss its date on the best single line is
+ * split across further lines while that still pulls the finish date in.
+ * A line switching style ramps up along its learning curve.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export interface PlanLine {
+  id: string;
+  label: string;
+  /** Planned operators, usually the line's latest sewing target */
+  manpower: number | null;
+  /** Percent; falls back to DEFAULT_PLAN_EFFICIENCY */
+  target_efficiency: number | null;
+  /** Flat pieces/day used when an order has no SMV */
+  target_per_day: number | null;
+}
+
+export interface PlanOrder {
+  id: string;
+  po_number: string;
+  order_qty: number;
+  smv: number | null;
+  target_per_day: number | null;
+  planned_ex_factory: string | null;
+  style?: string | null;
+  /** Product category for learning curve lookup */
+  item?: string | null;
+}
+
+export interface PlanBooking {
+  line_id: string;
+  start_date: string;
+  end_date: string;
+  status: string;
+  style?: string | null;
+}
+
+export interface PlanOptions {
+  /** First date the plan may use, YYYY-MM-DD */
+  startDate: string;
+  /** Regular minutes a line works per day, across all shifts */
+  minutesPerDay: number;
+  /** Most lines one order may be split across; 1 disables splitting */
+  maxLinesPerOrder: number;
+  /** Style changeover ramp-up; none when omitted */
+  curves?: LearningCurve[];
+}
+
+export interface PlannedAllocation {
+  work_order_id: string;
+  line_id: string;
+  start_date: string;
+  end_date: string;
+  target_qty: number;
+  daily_target: number;
+}
+
+export interface PlannedOrder {
+  order: PlanOrder;
+  allocations: PlannedAllocation[];
+  finish_date: string;
+  /** Working days past ex-factory; 0 when on time or no deadline */
+  days_late: number;
+}
+
+export interface UnplacedOrder {
+  order: PlanOrder;
+  reason: string;
+}
+
+export interface AutoPlan {
+  planned: PlannedOrder[];
+  unplaced: UnplacedOrder[];
+}
+
+export const DEFAULT_PLAN_EFFICIENCY = 60;
+
+// Longest run the planner will book on one line: about a year of days
+const MAX_PLAN_DAYS = 400;
+
+// ── Capacity ───────────────────────────────────────────────────────────
+
+/** Pieces per working day a line can sew of this order; 0 when unknown. */
+export function lineDailyCapacity(line: PlanLine, order: PlanOrder, minutesPerDay: number): number {
+  const eff = (line.target_efficiency || DEFAULT_PLAN_EFFICIENCY) / 100;
+  if (order.smv && order.smv > 0 && line.manpower && line.manpower > 0 && minutesPerDay > 0) {
+    return Math.floor((line.manpower * minutesPerDay * eff) / order.smv);
+  }
+  return line.target_per_day || order.target_per_day || 0;
+}
+
+const toKey = (d: Date) => format(d, "yyyy-MM-dd");
+const nextDay = (date: string) => toKey(addDays(parseISO(date), 1));
+
+/** First date each line is free: the day after its last open booking. */
+export function lineFreeDates(lines: PlanLine[], bookings: PlanBooking[], startDate: string): Map<string, string> {
+  const free = new Map(lines.map((l) => [l.id, startDate]));
+  for (const b of bookings) {
+    if (b.status === "completed" || !free.has(b.line_id)) continue;
+    const after = nextDay(b.end_date);
+    if (after > free.get(b.line_id)!) free.set(b.line_id, after);
+  }
+  return free;
+}
+
+/** Style each line sews last, from its latest-ending booking. */
+function lastStyles(bookings: PlanBooking[]): Map<string, string | null> {
+  const latest = new Map<string, PlanBooking>();
+  for (const b of bookings) {
+    const cur = latest.get(b.line_id);
+    if (!cur || b.end_date > cur.end_date) latest.set(b.line_id, b);
+  }
+  return new Map(Array.from(latest, ([lineId, b]) => [lineId, b.style ?? null]));
+}
+
+interface Candidate {
+  line: PlanLine;
+  from: string;
+  capacity: number;
+  /** Learning curve steps when this order is a changeover on the line */
+  steps: number[];
+}
+
+/**
+ * Run the candidates side by side from their own free dates. Returns the day
+ * the order completes and what each line sews, or null if it doesn't finish
+ * inside MAX_PLAN_DAYS.
+ */
+function simulate(
+  candidates: Candidate[],
+  qty: number,
+  cal: WorkingCalendar,
+): { finish: string; sewn: Map<string, { start: string; end: string; qty: number }> } | null {
+  const earliest = candidates.reduce((min, c) => (c.from < min ? c.from : min), candidates[0].from);
+  const sewn = new Map<string, { start: string; end: string; qty: number }>();
+  const daysSewn = new Map<string, number>();
+  let left = qty;
+  let d = parseISO(earliest);
+  for (let i = 0; i < MAX_PLAN_DAYS; i++, d = addDays(d, 1)) {
+    const key = toKey(d);
+    if (!isWorkingDay(cal, key)) continue;
+    for (const c of candidates) {
+      if (key < c.from || left <= 0) continue;
+      const day = daysSewn.get(c.line.id) ?? 0;
+      daysSewn.set(c.line.id, day + 1);
+      const take = Math.min(Math.floor(c.capacity * rampFactor(c.steps, day)), left);
+      left -= take;
+      const run = sewn.get(c.line.id);
+      if (run) {
+        run.end = key;
+        run.qty += take;
+      } else {
+        sewn.set(c.line.id, { start: key, end: key, qty: take });
+      }
+    }
+    if (left <= 0) return { finish: key, sewn };
+  }
+  return null;
+}
+
+// ── Planning ───────────────────────────────────────────────────────────
+
+function byDeadline(a: PlanOrder, b: PlanOrder): number {
+  if (a.planned_ex_factory && b.planned_ex_factory && a.planned_ex_factory !== b.planned_ex_factory) {
+    return a.planned_ex_factory.localeCompare(b.planned_ex_factory);
+  }
+  if (a.planned_ex_factory && !b.planned_ex_factory) return -1;
+  if (!a.planned_ex_factory && b.planned_ex_factory) return 1;
+  return b.order_qty - a.order_qty;
+}
+
+export function planOrders(
+  orders: PlanOrder[],
+  lines: PlanLine[],
+  bookings: PlanBooking[],
+  cal: WorkingCalendar,
+  options: PlanOptions,
+): AutoPlan {
+  const free = lineFreeDates(lines, bookings, options.startDate);
+  const styles = lastStyles(bookings);
+  const curves = options.curves ?? [];
+  const planned: PlannedOrder[] = [];
+  const unplaced: UnplacedOrder[] = [];
+  const maxLines = Math.max(1, options.maxLinesPerOrder);
+
+  for (const order of [...orders].sort(byDeadline)) {
+    if (order.order_qty <= 0) {
+      unplaced.push({ order, reason: "No order quantity" });
+      continue;
+    }
+
+    const candidates: Candidate[] = lines
+      .map((line) => ({
+        line,
+        from: free.get(line.id)!,
+        capacity: lineDailyCapacity(line, order, options.minutesPerDay),
+        steps: isChangeover(styles.get(line.id), order.style)
+          ? resolveCurve(curves, { lineId: line.id, category: order.item })?.steps ?? []
+          : [],
+      }))
+      .filter((c) => c.capacity > 0);
+    if (candidates.length === 0) {
+      unplaced.push({ order, reason: "No line capacity — set an SMV and line manpower, or a daily target" });
+      continue;
+    }
+
+    // Best single line, then add lines while the order is late and it helps
+    let chosen: Candidate[] = [];
+    let best: ReturnType<typeof simulate> = null;
+    while (chosen.length < maxLines) {
+      let pick: { c: Candidate; result: NonNullable<ReturnType<typeof simulate>> } | null = null;
+      for (const c of candidates) {
+        if (chosen.includes(c)) continue;
+        const result = simulate([...chosen, c], order.order_qty, cal);
+        if (result && (!pick || result.finish < pick.result.finish)) pick = { c, result };
+      }
+      if (!pick || (best && pick.result.finish >= best.finish)) break;
+      chosen = [...chosen, pick.c];
+      best = pick.result;
+      const onTime = !order.planned_ex_factory || best.finish <= order.planned_ex_factory;
+      if (onTime) break;
+    }
+
+    if (!best) {
+      unplaced.push({ order, reason: "Doesn't fit within a year on any line" });
+      continue;
+    }
+
+    const allocations: PlannedAllocation[] = [];
+    for (const c of chosen) {
+      const run = best.sewn.get(c.line.id);
+      if (!run) continue;
+      allocations.push({
+        work_order_id: order.id,
+        line_id: c.line.id,
+        start_date: run.start,
+        end_date: run.end,
+        target_qty: run.qty,
+        daily_target: c.capacity,
+      });
+      free.set(c.line.id, nextDay(run.end));
+      styles.set(c.line.id, order.style ?? null);
+    }
+
+    planned.push({
+      order,
+      allocations,
+      finish_date: best.finish,
+      days_late: order.planned_ex_factory
+        ? Math.max(0, workingDaysBetween(cal, order.planned_ex_factory, best.finish))
+        : 0,
+    });
+  }
+
+  return { planned, unplaced };
+}
@@ -0,0 +1,461 @@
+/**
+ * Bank statement import and reconciliation for the bank ledger.
+ *
+ * Business rules:
+ *  - Statements are imported from CSV exports or SWIFT MT940 files. Lines
+ *    already on the ledger (same date, amounts and reference) are skipped.
+ *  - Credits match inbound payments at the amount actually credited
+ *    (net_amount_credited, else original − bank deductions); debits match
+ *    outbound payments and LC banking costs at their full amount.
+ *  - A match needs the same amount and currency. A shared reference within
+ *    30 days is high confidence, a date within 3 days medium, within 10 days
+ *    low. Only high and medium matches are applied automatically.
+ *  - Running balance follows the statement balance when the bank supplies
+ *    one, otherwise it accumulates credits − debits.
+ *  - BDT converts to USD with factory_accounts.bdt_to_usd_rate (BDT per USD).
+ */
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { detectDelimiter, splitCsvRow } from "./csv";
+
+export type ReconciliationStatus = "unmatched" | "matched" | "ignored";
+
+export const RECONCILIATION_STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  unmatched: "Unmatched",
+  matched: "Matched",
+  ignored: "Ignored",
+};
+
+export const RECONCILIATION_STATUS_COLORS: Record<ReconciliationStatus, string> = {
+  unmatched: "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-950/40 dark:text-amber-400 dark:border-amber-800",
+  matched: "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-950/40 dark:text-emerald-400 dark:border-emerald-800",
+  ignored: "bg-muted text-muted-foreground border-border",
+};
+
+export type MatchConfidence = "high" | "medium" | "low" | "manual";
+
+export const BANK_ACCOUNT_CURRENCIES = ["USD", "BDT", "EUR", "GBP"];
+
+// ── Statement parsing ───────────────────────────────────────────────────────
+
+export interface StatementLine {
+  transaction_date: string;
+  description: string | null;
+  reference: string | null;
+  debit: number;
+  credit: number;
+  balance: number | null;
+}
+
+export interface ParsedStatement {
+  lines: StatementLine[];
+  /** Row-level problems, e.g. "Row 4: unreadable date" */
+  errors: string[];
+  openingBalance: number | null;
+  closingBalance: number | null;
+}
+
+export type StatementFormat = "csv" | "mt940";
+
+export function detectStatementFormat(text: string, fileName = ""): StatementFormat {
+  if (/\.(sta|mt940|940)$/i.test(fileName)) return "mt940";
+  return /^:20:/m.test(text) && /^:61:/m.test(text) ? "mt940" : "csv";
+}
+
+export function parseStatement(text: string, fileName = ""): ParsedStatement {
+  return detectStatementFormat(text, fileName) === "mt940" ? parseMt940(text) : parseCsvStatement(text);
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function iso(y: number, m: number, d: number): string | null {
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  return `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/**
+ * Statement dates as ISO. Numeric dates are read day-first (dd/mm/yyyy), as
+ * local banks export them; yyyy-mm-dd and dd-MMM-yyyy are also accepted.
+ */
+export function parseStatementDate(raw: string): string | null {
+  const s = raw.trim();
+  let m = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (m) return iso(+m[1], +m[2], +m[3]);
+  m = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/);
+  if (m) return iso(m[3].length === 2 ? 2000 + +m[3] : +m[3], +m[2], +m[1]);
+  m = s.match(/^(\d{1,2})[-\s]([A-Za-z]{3})[A-Za-z]*[-\s,]+(\d{2,4})$/);
+  if (m) {
+    const month = MONTHS.indexOf(m[2].toLowerCase()) + 1;
+    return month ? iso(m[3].length === 2 ? 2000 + +m[3] : +m[3], month, +m[1]) : null;
+  }
+  return null;
+}
+
+/**
+ * "1,234.50", "(50.00)", "-50", "50.00 DR" → signed number; blank → 0.
+ * With `decimalComma` (semicolon-separated exports) "1.234,50" is read instead.
+ */
+export function parseStatementAmount(raw: string | undefined, decimalComma = false): number | null {
+  if (raw == null) return 0;
+  let s = raw.trim();
+  if (!s || s === "-") return 0;
+  let sign = 1;
+  if (/^\(.*\)$/.test(s)) { sign = -1; s = s.slice(1, -1); }
+  if (/\bdr\.?$/i.test(s)) { sign = -1; s = s.replace(/\bdr\.?$/i, ""); }
+  s = s.replace(/\bcr\.?$/i, "");
+  if (decimalComma) s = s.replace(/\./g, "").replace(",", ".");
+  s = s.replace(/[^\d.-]/g, "");
+  if (s.startsWith("-")) { sign = -sign; s = s.slice(1); }
+  if (!s) return 0;
+  const n = Number(s);
+  return Number.isFinite(n) ? round2(sign * n) : null;
+}
+
+const CSV_COLUMNS: Record<keyof StatementLine | "amount", string[]> = {
+  transaction_date: ["date", "transaction date", "txn date", "posting date", "value date", "trans date"],
+  description: ["description", "narration", "particulars", "details", "remarks", "transaction details"],
+  reference: ["reference", "ref", "ref no", "reference no", "cheque no", "chq no", "instrument no", "transaction id"],
+  debit: ["debit", "withdrawal", "withdrawals", "dr", "debit amount", "paid out"],
+  credit: ["credit", "deposit", "deposits", "cr", "credit amount", "paid in"],
+  amount: ["amount", "transaction amount"],
+  balance: ["balance", "running balance", "closing balance", "available balance"],
+};
+
+function normalizeHeader(h: string) {
+  return h.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function findColumns(header: string[]) {
+  const names = header.map(normalizeHeader);
+  const cols: Partial<Record<keyof typeof CSV_COLUMNS, number>> = {};
+  for (const [key, aliases] of Object.entries(CSV_COLUMNS) as [keyof typeof CSV_COLUMNS, string[]][]) {
+    const idx = names.findIndex((n) => aliases.includes(n));
+    if (idx >= 0 && !Object.values(cols).includes(idx)) cols[key] = idx;
+  }
+  return cols;
+}
+
+/**
+ * CSV statements: the header row is the first row naming a date column plus
+ * either debit/credit columns or a signed amount column. Rows above it (bank
+ * name, account number) are ignored.
+ */
+export function parseCsvStatement(text: string): ParsedStatement {
+  const rows = text.split(/\r?\n/).filter((r) => r.trim());
+  const delimiter = detectDelimiter(rows[0]);
+  const decimalComma = delimiter === ";";
+  const result: ParsedStatement = { lines: [], errors: [], openingBalance: null, closingBalance: null };
+
+  let headerIdx = -1;
+  let cols: ReturnType<typeof findColumns> = {};
+  for (let i = 0; i < Math.min(rows.length, 20); i++) {
+    const c = findColumns(splitCsvRow(rows[i], delimiter));
+    if (c.transaction_date != null && (c.amount != null || c.debit != null || c.credit != null)) {
+      headerIdx = i;
+      cols = c;
+      break;
+    }
+  }
+  if (headerIdx < 0) {
+    result.errors.push("No header row with a date and an amount, debit or credit column");
+    return result;
+  }
+
+  for (let i = headerIdx + 1; i < rows.length; i++) {
+    const cells = splitCsvRow(rows[i], delimiter);
+    const cell = (key: keyof typeof CSV_COLUMNS) => (cols[key] != null ? cells[cols[key]!] : undefined);
+    const rawDate = cell("transaction_date") ?? "";
+    // Footer rows ("Total", "Closing balance") carry no date
+    if (!rawDate) continue;
+    const date = parseStatementDate(rawDate);
+    if (!date) {
+      if (/\d/.test(rawDate)) result.errors.push(`Row ${i + 1}: unreadable date "${rawDate}"`);
+      continue;
+    }
+
+    let debit = 0;
+    let credit = 0;
+    if (cols.debit != null || cols.credit != null) {
+      const d = parseStatementAmount(cell("debit"), decimalComma);
+      const c = parseStatementAmount(cell("credit"), decimalComma);
+      if (d == null || c == null) {
+        result.errors.push(`Row ${i + 1}: unreadable amount`);
+        continue;
+      }
+      debit = Math.abs(d);
+      credit = Math.abs(c);
+    } else {
+      const a = parseStatementAmount(cell("amount"), decimalComma);
+      if (a == null) {
+        result.errors.push(`Row ${i + 1}: unreadable amount`);
+        continue;
+      }
+      if (a < 0) debit = -a;
+      else credit = a;
+    }
+    if (debit === 0 && credit === 0) continue;
+
+    const balanceRaw = cell("balance");
+    result.lines.push({
+      transaction_date: date,
+      description: cell("description") || null,
+      reference: cell("reference") || null,
+      debit,
+      credit,
+      balance: balanceRaw ? parseStatementAmount(balanceRaw, decimalComma) : null,
+    });
+  }
+  return result;
+}
+
+function mt940Amount(raw: string) {
+  return round2(Number(raw.replace(",", ".")));
+}
+
+function mt940Date(yymmdd: string) {
+  return iso(2000 + +yymmdd.slice(0, 2), +yymmdd.slice(2, 4), +yymmdd.slice(4, 6));
+}
+
+/** Balance tag (:60F:, :62F:) → signed amount. */
+function mt940Balance(value: string): number | null {
+  const m = value.match(/^([CD])\d{6}[A-Z]{3}([\d,]+)/);
+  if (!m) return null;
+  return m[1] === "D" ? -mt940Amount(m[2]) : mt940Amount(m[2]);
+}
+
+/**
+ * SWIFT MT940. Each :61: statement line becomes a transaction and the :86:
+ * that follows it is its description. MT940 carries no per-line balance, so
+ * balances are rolled forward from the :60F: opening balance.
+ */
+export function parseMt940(text: string): ParsedStatement {
+  const result: ParsedStatement = { lines: [], errors: [], openingBalance: null, closingBalance: null };
+
+  // Fold continuation lines into their tag
+  const fields: { tag: string; value: string }[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const m = raw.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (m) fields.push({ tag: m[1], value: m[2] });
+    else if (fields.length && raw.trim() && raw.trim() !== "-}" && raw.trim() !== "-") {
+      fields[fields.length - 1].value += `\n${raw.trim()}`;
+    }
+  }
+
+  let running: number | null = null;
+  let last: StatementLine | null = null;
+  for (const { tag, value } of fields) {
+    if (tag === "60F" || tag === "60M") {
+      const b = mt940Balance(value);
+      if (result.openingBalance == null) result.openingBalance = b;
+      running = b;
+    } else if (tag === "62F" || tag === "62M") {
+      result.closingBalance = mt940Balance(value);
+    } else if (tag === "61") {
+      const m = value.split("\n")[0].match(/^(\d{6})(\d{4})?(R?[CD])[A-Z]?([\d,]+)(?:[NF][A-Z0-9]{3})?([^/]*)(?:\/\/(.*))?$/);
+      const date = m ? mt940Date(m[1]) : null;
+      if (!m || !date) {
+        result.errors.push(`Unreadable :61: line "${value.split("\n")[0]}"`);
+        last = null;
+        continue;
+      }
+      const amount = mt940Amount(m[4]);
+      // RC / RD are reversals of a credit or debit
+      const isCredit = m[3] === "C" || m[3] === "RD";
+      const line: StatementLine = {
+        transaction_date: date,
+        description: null,
+        reference: (m[5] || "").trim() && m[5].trim() !== "NONREF" ? m[5].trim() : m[6]?.trim() || null,
+        debit: isCredit ? 0 : amount,
+        credit: isCredit ? amount : 0,
+        balance: null,
+      };
+      if (running != null) {
+        running = round2(running + line.credit - line.debit);
+        line.balance = running;
+      }
+      result.lines.push(line);
+      last = line;
+    } else if (tag === "86" && last) {
+      last.description = value.replace(/\n/g, " ").trim() || null;
+      last = null;
+    }
+  }
+  if (result.lines.length === 0 && result.errors.length === 0) result.errors.push("No :61: statement lines found");
+  return result;
+}
+
+/** Identity of a statement line, used to skip lines already imported. */
+export function statementLineKey(line: Pick<StatementLine, "transaction_date" | "debit" | "credit" | "reference" | "description">) {
+  const text = (line.reference || line.description || "").trim().toLowerCase();
+  return `${line.transaction_date}|${(line.debit || 0).toFixed(2)}|${(line.credit || 0).toFixed(2)}|${text}`;
+}
+
+/**
+ * Statement lines not yet on the ledger. Identical lines are counted rather
+ * than collapsed: two equal charges on the same day are two transactions, so
+ * a line is only skipped while the ledger still has an unclaimed copy of it.
+ */
+export function newStatementLines<T extends Parameters<typeof statementLineKey>[0]>(
+  existing: Parameters<typeof statementLineKey>[0][],
+  lines: T[],
+): T[] {
+  const onFile = new Map<string, number>();
+  for (const t of existing) {
+    const key = statementLineKey(t);
+    onFile.set(key, (onFile.get(key) ?? 0) + 1);
+  }
+  return lines.filter((l) => {
+    const key = statementLineKey(l);
+    const left = onFile.get(key) ?? 0;
+    if (left === 0) return true;
+    onFile.set(key, left - 1);
+    return false;
+  });
+}
+
+// ── Matching ────────────────────────────────────────────────────────────────
+
+export interface LedgerLine {
+  id: string;
+  transaction_date: string;
+  debit: number | null;
+  credit: number | null;
+  reference: string | null;
+  description: string | null;
+  currency?: string | null;
+}
+
+export interface MatchCandidate {
+  kind: "payment" | "lc_cost";
+  id: string;
+  date: string;
+  /** Amount as it should appear on the statement */
+  amount: number;
+  direction: "in" | "out";
+  currency: string | null;
+  reference: string | null;
+  label: string;
+}
+
+export interface MatchSuggestion {
+  transactionId: string;
+  candidate: MatchCandidate;
+  confidence: Exclude<MatchConfidence, "manual">;
+}
+
+/** What a payment should have moved through the bank. */
+export function paymentBankAmount(p: {
+  direction: string;
+  original_amount: number;
+  net_amount_credited: number | null;
+  bank_deductions: number | null;
+}): number {
+  if (p.direction === "inbound") return round2(p.net_amount_credited ?? p.original_amount - (p.bank_deductions || 0));
+  return round2(p.original_amount);
+}
+
+function normalizeRef(s: string | null | undefined) {
+  return (s ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function sharesReference(line: LedgerLine, candidate: MatchCandidate) {
+  const ref = normalizeRef(candidate.reference);
+  if (ref.length < 4) return false;
+  return normalizeRef(line.reference).includes(ref) || normalizeRef(line.description).includes(ref);
+}
+
+const CONFIDENCE_RANK: Record<MatchSuggestion["confidence"], number> = { high: 0, medium: 1, low: 2 };
+
+export function scoreMatch(line: LedgerLine, candidate: MatchCandidate): MatchSuggestion["confidence"] | null {
+  const lineAmount = (line.credit || 0) > 0 ? line.credit || 0 : line.debit || 0;
+  const direction = (line.credit || 0) > 0 ? "in" : "out";
+  if (direction !== candidate.direction) return null;
+  if (Math.abs(lineAmount - candidate.amount) > 0.01) return null;
+  if (line.currency && candidate.currency && line.currency !== candidate.currency) return null;
+
+  const days = Math.abs(differenceInCalendarDays(parseISO(line.transaction_date), parseISO(candidate.date)));
+  if (days <= 30 && sharesReference(line, candidate)) return "high";
+  if (days <= 3) return "medium";
+  if (days <= 10) return "low";
+  return null;
+}
+
+/** Candidates that could explain a line, best first. */
+export function rankCandidates(line: LedgerLine, candidates: MatchCandidate[]) {
+  const days = (c: MatchCandidate) => Math.abs(differenceInCalendarDays(parseISO(line.transaction_date), parseISO(c.date)));
+  return candidates
+    .map((candidate) => ({ candidate, confidence: scoreMatch(line, candidate) }))
+    .filter((r): r is { candidate: MatchCandidate; confidence: MatchSuggestion["confidence"] } => r.confidence != null)
+    .sort((a, b) => CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] || days(a.candidate) - days(b.candidate));
+}
+
+/**
+ * One-to-one matching of unmatched lines to unmatched candidates. Pairs are
+ * taken best first, so a payment goes to the line it fits most closely.
+ */
+export function autoMatch(lines: LedgerLine[], candidates: MatchCandidate[], minConfidence: MatchSuggestion["confidence"] = "medium"): MatchSuggestion[] {
+  const pairs: (MatchSuggestion & { days: number })[] = [];
+  for (const line of lines) {
+    for (const candidate of candidates) {
+      const confidence = scoreMatch(line, candidate);
+      if (!confidence || CONFIDENCE_RANK[confidence] > CONFIDENCE_RANK[minConfidence]) continue;
+      const days = Math.abs(differenceInCalendarDays(parseISO(line.transaction_date), parseISO(candidate.date)));
+      pairs.push({ transactionId: line.id, candidate, confidence, days });
+    }
+  }
+  pairs.sort((a, b) => CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] || a.days - b.days);
+
+  const usedLines = new Set<string>();
+  const usedCandidates = new Set<string>();
+  const result: MatchSuggestion[] = [];
+  for (const { days, ...pair } of pairs) {
+    const key = `${pair.candidate.kind}:${pair.candidate.id}`;
+    if (usedLines.has(pair.transactionId) || usedCandidates.has(key)) continue;
+    usedLines.add(pair.transactionId);
+    usedCandidates.add(key);
+    result.push(pair);
+  }
+  return result;
+}
+
+// ── Balances ────────────────────────────────────────────────────────────────
+
+export interface BalanceLine {
+  transaction_date: string;
+  debit: number | null;
+  credit: number | null;
+  balance: number | null;
+}
+
+/**
+ * Lines in date order with a running balance. Lines on the same date keep
+ * their given (import) order.
+ */
+export function withRunningBalance<T extends BalanceLine>(lines: T[]): (T & { running: number })[] {
+  const ordered = lines
+    .map((line, i) => ({ line, i }))
+    .sort((a, b) => a.line.transaction_date.localeCompare(b.line.transaction_date) || a.i - b.i);
+  let running = 0;
+  return ordered.map(({ line }) => {
+    running = line.balance != null ? line.balance : round2(running + (line.credit || 0) - (line.debit || 0));
+    return { ...line, running };
+  });
+}
+
+/** Current balance of one account's lines. */
+export function accountBalance(lines: BalanceLine[]): { balance: number; asOf: string | null } {
+  const rows = withRunningBalance(lines);
+  const last = rows[rows.length - 1];
+  return { balance: last?.running ?? 0, asOf: last?.transaction_date ?? null };
+}
+
+/** USD value of an amount; null when no rate is known for the currency. */
+export function toUsd(amount: number, currency: string | null | undefined, bdtToUsdRate: number | null | undefined): number | null {
+  const cur = (currency || "USD").toUpperCase();
+  if (cur === "USD") return amount;
+  if (cur === "BDT" && bdtToUsdRate) return round2(amount / bdtToUsdRate);
+  return null;
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,88 @@
+import { jsPDF } from "jspdf";
+import QRCode from "qrcode";
+import type { BundleDraft } from "@/lib/bundles";
+
+// ── Types ──
+
+export interface BundleTicketPdfInput {
+  factoryName: string;
+  poNumber: string;
+  buyer: string;
+  style: string;
+  bundles: BundleDraft[];
+}
+
+// ── Generate ──
+
+/**
+ * Bundle tickets, ten to an A4 page (2 × 5), each with the bundle's QR code
+ * on the left and its PO, colour, size, shade and ply range on the right.
+ * Dashed borders are the cutting guides.
+ */
+export async function generateBundleTicketsPdf(input: BundleTicketPdfInput): Promise<Blob> {
+  const { factoryName, poNumber, buyer, style, bundles } = input;
+  const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const pw = doc.internal.pageSize.getWidth();
+  const ph = doc.internal.pageSize.getHeight();
+  const m = 8;
+  const cols = 2;
+  const rows = 5;
+  const tw = (pw - m * 2) / cols;
+  const th = (ph - m * 2) / rows;
+  const qr = 32;
+
+  const codes = await Promise.all(
+    bundles.map((b) => QRCode.toDataURL(b.code, { margin: 0, errorCorrectionLevel: "M", width: 256 }))
+  );
+
+  bundles.forEach((b, i) => {
+    const slot = i % (cols * rows);
+    if (i > 0 && slot === 0) doc.addPage();
+    const x = m + (slot % cols) * tw;
+    const y = m + Math.floor(slot / cols) * th;
+
+    // Cutting guide
+    doc.setLineDashPattern([1.5, 1.5], 0);
+    doc.setDrawColor(160);
+    doc.rect(x, y, tw, th);
+    doc.setLineDashPattern([], 0);
+
+    // QR + code underneath
+    const qx = x + 4;
+    const qy = y + (th - qr) / 2 - 2;
+    doc.addImage(codes[i], "PNG", qx, qy, qr, qr);
+    doc.setFont("courier", "bold"); doc.setFontSize(7); doc.setTextColor(0);
+    doc.text(b.code, qx + qr / 2, qy + qr + 4, { align: "center", maxWidth: qr + 6 });
+
+    // Details
+    const dx = qx + qr + 5;
+    const dw = x + tw - dx - 3;
+    let dy = y + 8;
+    doc.setFont("helvetica", "normal"); doc.setFontSize(6.5); doc.setTextColor(110);
+    doc.text(factoryName, dx, dy, { maxWidth: dw });
+    dy += 5;
+    doc.setFont("helvetica", "bold"); doc.setFontSize(11); doc.setTextColor(0);
+    doc.text(`Bundle #${b.bundle_no}`, dx, dy);
+    dy += 5;
+    doc.setFont("helvetica", "normal"); doc.setFontSize(7.5);
+    doc.text(`PO ${poNumber}`, dx, dy, { maxWidth: dw });
+    dy += 3.8;
+    doc.text(`${buyer} / ${style}`, dx, dy, { maxWidth: dw });
+    dy += 6;
+
+    const field = (label: string, value: string) => {
+      doc.setFont("helvetica", "normal"); doc.setFontSize(6.5); doc.setTextColor(110);
+      doc.text(label, dx, dy);
+      doc.setFont("helvetica", "bold"); doc.setFontSize(8.5); doc.setTextColor(0);
+      doc.text(value, dx + 14, dy, { maxWidth: dw - 14 });
+      dy += 4.4;
+    };
+    field("Colour", b.colour);
+    field("Size", b.size);
+    if (b.shade) field("Shade", b.shade);
+    field("Plies", `${b.ply_from}-${b.ply_to}`);
+    field("Qty", `${b.quantity} pcs`);
+  });
+
+  return doc.output("blob");
+}
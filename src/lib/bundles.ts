@@ -0,0 +1,194 @@
+/**
+ * Cut bundles: the tied stacks of cut pieces that travel from cutting to a
+ * sewing line. Bundles are made from a day's cutting output, one colour and
+ * size each, numbered through the PO. `ply_from`–`ply_to` is the stack's
+ * place in that colour and size, so a bundle of plies 21–40 holds 20 pieces.
+ *
+ * Each bundle ticket carries a QR code of the bundle's `code`. The line scans
+ * it when the bundle is issued to it and again when the sewn bundle leaves,
+ * which gives work in progress per line and shows where a bundle stopped.
+ */
+
+import type { ColourBreakdown } from "./size-matrix";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export type BundleStatus = "cut" | "issued" | "completed";
+
+export type BundleScanAction = "issue" | "complete";
+
+export interface BundleDraft {
+  bundle_no: number;
+  code: string;
+  colour: string;
+  size: string;
+  shade: string | null;
+  ply_from: number;
+  ply_to: number;
+  quantity: number;
+}
+
+export interface CutBundle extends BundleDraft {
+  id: string;
+  work_order_id: string;
+  cutting_actual_id: string | null;
+  status: BundleStatus;
+  line_id: string | null;
+  issued_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface BundleSettings {
+  /** Pieces per bundle; the last bundle of a colour and size may hold fewer */
+  pieces_per_bundle: number;
+  shade: string | null;
+}
+
+export interface LineBundleWip {
+  lineId: string;
+  bundles: number;
+  pieces: number;
+  /** Oldest issue time among the line's open bundles */
+  oldestIssuedAt: string | null;
+}
+
+export type BundleScanResult =
+  | { ok: true; update: Partial<Pick<CutBundle, "status" | "line_id">> }
+  | { ok: false; reason: "already_issued" | "not_issued" | "already_completed" | "wrong_line" | "no_line" };
+
+export const DEFAULT_PIECES_PER_BUNDLE = 20;
+
+/** Hours before an issued bundle that has not left its line is flagged */
+export const STALE_ISSUED_HOURS = 48;
+
+/** Hours before a cut bundle that has not been issued is flagged */
+export const STALE_CUT_HOURS = 72;
+
+export const SCAN_REJECTIONS: Record<Extract<BundleScanResult, { ok: false }>["reason"], string> = {
+  already_issued: "already issued to a line",
+  not_issued: "has not been issued to a line yet",
+  already_completed: "has already left sewing",
+  wrong_line: "was issued to a different line",
+  no_line: "needs a line to issue to",
+};
+
+// ── Generation ─────────────────────────────────────────────────────────
+
+/** A bundle's ticket code, e.g. "PO-4411-0007". */
+export function bundleCode(poNumber: string, bundleNo: number): string {
+  return normaliseScan(`${poNumber}-${String(bundleNo).padStart(4, "0")}`);
+}
+
+/** What a scanner or keyboard entry produced, ready to look up. */
+export function normaliseScan(raw: string): string {
+  return raw.trim().replace(/\s+/g, "-").toUpperCase();
+}
+
+/** Pieces already bundled per colour and size, so new ply ranges continue from them. */
+export function bundledPlies(bundles: Pick<BundleDraft, "colour" | "size" | "ply_to">[]): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const b of bundles) {
+    const key = `${b.colour}|${b.size}`;
+    out.set(key, Math.max(out.get(key) ?? 0, b.ply_to));
+  }
+  return out;
+}
+
+/**
+ * Splits cut pieces into bundles of `pieces_per_bundle`, colour by colour in
+ * the order given and size by size, numbering on from `nextNo`.
+ */
+export function planBundles(
+  cut: ColourBreakdown[],
+  sizes: string[],
+  settings: BundleSettings,
+  poNumber: string,
+  nextNo: number,
+  existing: Pick<BundleDraft, "colour" | "size" | "ply_to">[] = []
+): BundleDraft[] {
+  const per = Math.max(1, Math.floor(settings.pieces_per_bundle));
+  const offsets = bundledPlies(existing);
+  const out: BundleDraft[] = [];
+  let no = nextNo;
+
+  for (const { colour, quantities } of cut) {
+    const order = [...sizes, ...Object.keys(quantities).filter((s) => !sizes.includes(s))];
+    for (const size of order) {
+      let left = quantities[size] ?? 0;
+      let ply = offsets.get(`${colour}|${size}`) ?? 0;
+      while (left > 0) {
+        const qty = Math.min(per, left);
+        out.push({
+          bundle_no: no,
+          code: bundleCode(poNumber, no),
+          colour,
+          size,
+          shade: settings.shade?.trim() || null,
+          ply_from: ply + 1,
+          ply_to: ply + qty,
+          quantity: qty,
+        });
+        no += 1;
+        ply += qty;
+        left -= qty;
+      }
+    }
+  }
+  return out;
+}
+
+// ── Scanning ───────────────────────────────────────────────────────────
+
+/**
+ * What a scan does to a bundle. Issuing needs a line and a bundle still in
+ * cutting; completing needs the bundle to be on that line.
+ */
+export function applyScan(
+  bundle: Pick<CutBundle, "status" | "line_id">,
+  action: BundleScanAction,
+  lineId: string | null
+): BundleScanResult {
+  if (bundle.status === "completed") return { ok: false, reason: "already_completed" };
+  if (action === "issue") {
+    if (!lineId) return { ok: false, reason: "no_line" };
+    if (bundle.status === "issued") return { ok: false, reason: "already_issued" };
+    return { ok: true, update: { status: "issued", line_id: lineId } };
+  }
+  if (bundle.status !== "issued") return { ok: false, reason: "not_issued" };
+  if (lineId && bundle.line_id !== lineId) return { ok: false, reason: "wrong_line" };
+  return { ok: true, update: { status: "completed" } };
+}
+
+// ── Tracking ───────────────────────────────────────────────────────────
+
+/** Bundles and pieces issued to each line and not yet sewn, most pieces first. */
+export function lineWip(bundles: Pick<CutBundle, "status" | "line_id" | "quantity" | "issued_at">[]): LineBundleWip[] {
+  const byLine = new Map<string, LineBundleWip>();
+  for (const b of bundles) {
+    if (b.status !== "issued" || !b.line_id) continue;
+    const w = byLine.get(b.line_id) ?? { lineId: b.line_id, bundles: 0, pieces: 0, oldestIssuedAt: null };
+    w.bundles += 1;
+    w.pieces += b.quantity;
+    if (b.issued_at && (!w.oldestIssuedAt || b.issued_at < w.oldestIssuedAt)) w.oldestIssuedAt = b.issued_at;
+    byLine.set(b.line_id, w);
+  }
+  return Array.from(byLine.values()).sort((a, b) => b.pieces - a.pieces);
+}
+
+/**
+ * Bundles that have stopped moving: issued to a line for longer than
+ * `STALE_ISSUED_HOURS` without leaving it, or cut for longer than
+ * `STALE_CUT_HOURS` without being issued. Oldest first.
+ */
+export function staleBundles<T extends Pick<CutBundle, "status" | "issued_at" | "created_at">>(bundles: T[], now: Date): T[] {
+  const hoursSince = (iso: string) => (now.getTime() - new Date(iso).getTime()) / 3_600_000;
+  const since = (b: T) => (b.status === "issued" ? b.issued_at ?? b.created_at : b.created_at);
+  return bundles
+    .filter((b) => {
+      if (b.status === "issued") return hoursSince(since(b)) > STALE_ISSUED_HOURS;
+      if (b.status === "cut") return hoursSince(b.created_at) > STALE_CUT_HOURS;
+      return false;
+    })
+    .sort((a, b) => since(a).localeCompare(since(b)));
+}
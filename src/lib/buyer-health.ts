@@ -1,4 +1,6 @@
+import { format } from "date-fns";
 import { BuyerWorkOrder } from "@/hooks/useBuyerPOAccess";
+import { EMPTY_CALENDAR, workingDaysBetween, type WorkingCalendar } from "@/lib/working-days";
 
 export interface POAggregates {
   sewingOutput: number;
@@ -17,7 +19,8 @@ export type HealthStatus = "healthy" | "watch" | "at_risk" | "no_deadline" | "co
 
 export function computeHealth(
   wo: BuyerWorkOrder,
-  agg: POAggregates
+  agg: POAggregates,
+  calendar: WorkingCalendar = EMPTY_CALENDAR
 ): { status: HealthStatus; label: string } {
   const progressPct = wo.order_qty > 0 ? (agg.cumulativeGood / wo.order_qty) * 100 : 0;
 
@@ -25,9 +28,8 @@ export function computeHealth(
 
   if (!wo.planned_ex_factory) return { status: "no_deadline", label: "No deadline" };
 
-  const deadline = new Date(wo.planned_ex_factory);
-  const now = new Date();
-  const daysLeft = Math.ceil((deadline.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  // Working days, so weekends and factory holidays don't eat into the margin
+  const daysLeft = workingDaysBetween(calendar, format(new Date(), "yyyy-MM-dd"), wo.planned_ex_factory);
 
   if (daysLeft < 0) return { status: "at_risk", label: "Deadline passed" };
   if (daysLeft <= 7 && progressPct < 80) return { status: "at_risk", label: "At risk" };
@@ -167,7 +167,7 @@ export async function initializeCapacitor() {
         // Trigger sync when app comes to foreground
         try {
           const { processQueue, hasPendingSubmissions } = await import('@/lib/offline-queue');
-          if (navigator.onLine && hasPendingSubmissions()) {
+          if (navigator.onLine && (await hasPendingSubmissions())) {
             await processQueue();
           }
         } catch (error) {
@@ -197,9 +197,11 @@ export const DEFAULT_BLOCKER_IMPACT_OPTIONS = [
 export const NAV_ITEMS = {
   worker_sewing: [
     { path: '/sewing/morning-targets', label: 'Sewing Morning Targets', icon: 'Crosshair' },
+    { path: '/sewing/hourly', label: 'Hourly Board', icon: 'Clock' },
     { path: '/sewing/end-of-day', label: 'Sewing End of Day', icon: 'ClipboardCheck' },
     { path: '/sewing/my-submissions', label: 'My Submissions', icon: 'FileText' },
     { path: '/sewing/cutting-handoffs', label: 'Cutting Handoffs', icon: 'Scissors' },
+    { path: '/sewing/bundles', label: 'Bundle Scan', icon: 'ScanLine' },
     { path: '/report-blocker', label: 'Report Blocker', icon: 'AlertTriangle' },
     { path: '/preferences', label: 'My Preferences', icon: 'UserCog' },
   ],
@@ -212,8 +214,10 @@ export const NAV_ITEMS = {
   ],
   worker: [
     { path: '/sewing/morning-targets', label: 'Sewing Morning Targets', icon: 'Crosshair' },
+    { path: '/sewing/hourly', label: 'Hourly Board', icon: 'Clock' },
     { path: '/sewing/end-of-day', label: 'Sewing End of Day', icon: 'ClipboardCheck' },
     { path: '/sewing/cutting-handoffs', label: 'Cutting Handoffs', icon: 'Scissors' },
+    { path: '/sewing/bundles', label: 'Bundle Scan', icon: 'ScanLine' },
     { path: '/finishing/daily-target', label: 'Finishing Daily Target', icon: 'Crosshair' },
     { path: '/finishing/daily-output', label: 'Finishing End of Day', icon: 'ClipboardCheck' },
     { path: '/sewing/my-submissions', label: 'Sewing Submissions', icon: 'FileText' },
@@ -226,15 +230,27 @@ export const NAV_ITEMS = {
     { path: '/today', label: 'Today Updates', icon: 'CalendarDays', group: 'Production' },
     { path: '/week', label: 'This Week', icon: 'Calendar', group: 'Production' },
     { path: '/lines', label: 'Lines', icon: 'Rows3', group: 'Production' },
+    { path: '/sewing/hourly', label: 'Hourly Board', icon: 'Clock', group: 'Production' },
     { path: '/schedule', label: 'Schedule', icon: 'CalendarRange', group: 'Production' },
+    { path: '/cutting/plans', label: 'Cut Plans', icon: 'Scissors', group: 'Production' },
+    { path: '/cutting/bundles', label: 'Bundles', icon: 'QrCode', group: 'Production' },
+    { path: '/sewing/bundles', label: 'Bundle Scan', icon: 'ScanLine', group: 'Production' },
     { path: '/submissions', label: 'All Submissions', icon: 'FileText', group: 'Records' },
     { path: '/work-orders', label: 'Work Orders', icon: 'Receipt', group: 'Records' },
     { path: '/blockers', label: 'Blockers', icon: 'AlertTriangle', group: 'Records' },
     { path: '/quality', label: 'QC Dashboard', icon: 'ShieldCheck', group: 'Quality' },
     { path: '/quality/admin/sheets', label: 'Sheet Review', icon: 'ListChecks', group: 'Quality' },
     { path: '/quality/admin/trackers', label: 'Tracker Review', icon: 'ClipboardList', group: 'Quality' },
+    { path: '/quality/aql', label: 'AQL Inspections', icon: 'ClipboardCheck', group: 'Quality' },
+    { path: '/quality/defects', label: 'Defect Log', icon: 'Bug', group: 'Quality' },
+    { path: '/quality/specs', label: 'Measurement Specs', icon: 'Ruler', group: 'Quality' },
     { path: '/insights', label: 'Insights', icon: 'TrendingUp', group: 'Analytics' },
     { path: '/finances', label: 'Finances', icon: 'DollarSign', group: 'Analytics' },
+    { path: '/finances/costing', label: 'Costing', icon: 'Calculator', group: 'Finance' },
+    { path: '/finances/lcs', label: 'Letters of Credit', icon: 'Landmark', group: 'Finance' },
+    { path: '/finances/invoices', label: 'Invoices', icon: 'ScrollText', group: 'Finance' },
+    { path: '/finances/contracts', label: 'Sales Contracts', icon: 'FileSignature', group: 'Finance' },
+    { path: '/finances/bank', label: 'Bank Ledger', icon: 'Wallet', group: 'Finance' },
     { path: '/dispatch/approvals', label: 'Dispatch Approvals', icon: 'CheckSquare', group: 'Dispatch' },
     { path: '/dispatch/all', label: 'All Dispatches', icon: 'Archive', group: 'Dispatch' },
     { path: '/setup/knowledge-base', label: 'Knowledge Base', icon: 'BookOpen' },
@@ -250,15 +266,27 @@ export const NAV_ITEMS = {
     { path: '/today', label: 'Today Updates', icon: 'CalendarDays', group: 'Production' },
     { path: '/week', label: 'This Week', icon: 'Calendar', group: 'Production' },
     { path: '/lines', label: 'Lines', icon: 'Rows3', group: 'Production' },
+    { path: '/sewing/hourly', label: 'Hourly Board', icon: 'Clock', group: 'Production' },
     { path: '/schedule', label: 'Schedule', icon: 'CalendarRange', group: 'Production' },
+    { path: '/cutting/plans', label: 'Cut Plans', icon: 'Scissors', group: 'Production' },
+    { path: '/cutting/bundles', label: 'Bundles', icon: 'QrCode', group: 'Production' },
+    { path: '/sewing/bundles', label: 'Bundle Scan', icon: 'ScanLine', group: 'Production' },
     { path: '/submissions', label: 'All Submissions', icon: 'FileText', group: 'Records' },
     { path: '/work-orders', label: 'Work Orders', icon: 'Receipt', group: 'Records' },
     { path: '/blockers', label: 'Blockers', icon: 'AlertTriangle', group: 'Records' },
     { path: '/quality', label: 'QC Dashboard', icon: 'ShieldCheck', group: 'Quality' },
     { path: '/quality/admin/sheets', label: 'Sheet Review', icon: 'ListChecks', group: 'Quality' },
     { path: '/quality/admin/trackers', label: 'Tracker Review', icon: 'ClipboardList', group: 'Quality' },
+    { path: '/quality/aql', label: 'AQL Inspections', icon: 'ClipboardCheck', group: 'Quality' },
+    { path: '/quality/defects', label: 'Defect Log', icon: 'Bug', group: 'Quality' },
+    { path: '/quality/specs', label: 'Measurement Specs', icon: 'Ruler', group: 'Quality' },
     { path: '/insights', label: 'Insights', icon: 'TrendingUp', group: 'Analytics' },
     { path: '/finances', label: 'Finances', icon: 'DollarSign', group: 'Analytics' },
+    { path: '/finances/costing', label: 'Costing', icon: 'Calculator', group: 'Finance' },
+    { path: '/finances/lcs', label: 'Letters of Credit', icon: 'Landmark', group: 'Finance' },
+    { path: '/finances/invoices', label: 'Invoices', icon: 'ScrollText', group: 'Finance' },
+    { path: '/finances/contracts', label: 'Sales Contracts', icon: 'FileSignature', group: 'Finance' },
+    { path: '/finances/bank', label: 'Bank Ledger', icon: 'Wallet', group: 'Finance' },
     { path: '/dispatch/approvals', label: 'Dispatch Approvals', icon: 'CheckSquare', group: 'Dispatch' },
     { path: '/dispatch/all', label: 'All Dispatches', icon: 'Archive', group: 'Dispatch' },
     { path: '/setup/knowledge-base', label: 'Knowledge Base', icon: 'BookOpen' },
@@ -278,15 +306,19 @@ export const NAV_ITEMS = {
   cutting: [
     { path: '/cutting/morning-targets', label: 'Cutting Morning Targets', icon: 'Crosshair' },
     { path: '/cutting/end-of-day', label: 'Cutting End of Day', icon: 'ClipboardCheck' },
+    { path: '/cutting/plans', label: 'Cut Plans', icon: 'Scissors' },
+    { path: '/cutting/bundles', label: 'Bundles', icon: 'QrCode' },
     { path: '/cutting/submissions', label: 'All Submissions', icon: 'FileText' },
     { path: '/report-blocker', label: 'Report Blocker', icon: 'AlertTriangle' },
     { path: '/preferences', label: 'My Preferences', icon: 'UserCog' },
   ],
   sewing: [
     { path: '/sewing/morning-targets', label: 'Sewing Morning Targets', icon: 'Crosshair' },
+    { path: '/sewing/hourly', label: 'Hourly Board', icon: 'Clock' },
     { path: '/sewing/end-of-day', label: 'Sewing End of Day', icon: 'ClipboardCheck' },
     { path: '/sewing/my-submissions', label: 'My Submissions', icon: 'FileText' },
     { path: '/sewing/cutting-handoffs', label: 'Cutting Handoffs', icon: 'Scissors' },
+    { path: '/sewing/bundles', label: 'Bundle Scan', icon: 'ScanLine' },
     { path: '/report-blocker', label: 'Report Blocker', icon: 'AlertTriangle' },
     { path: '/preferences', label: 'My Preferences', icon: 'UserCog' },
   ],
@@ -311,6 +343,9 @@ export const NAV_ITEMS = {
   qc: [
     { path: '/quality/daily-sheet', label: 'Daily QC Sheet', icon: 'ListChecks', group: 'Quality' },
     { path: '/quality/order-manager', label: 'Order Manager', icon: 'ClipboardList', group: 'Quality' },
+    { path: '/quality/aql', label: 'AQL Inspections', icon: 'ClipboardCheck', group: 'Quality' },
+    { path: '/quality/defects', label: 'Defect Log', icon: 'Bug', group: 'Quality' },
+    { path: '/quality/specs', label: 'Measurement Specs', icon: 'Ruler', group: 'Quality' },
     { path: '/quality/records', label: 'My QC Records', icon: 'FolderOpen', group: 'Quality' },
     { path: '/preferences', label: 'My Preferences', icon: 'UserCog', bottom: true },
   ],
@@ -0,0 +1,305 @@
+/**
+ * Garment cost sheet calculations.
+ *
+ * Business rules:
+ *  - Every cost is normalised to the sheet currency, per dozen garments.
+ *  - fabric/dz   = consumption_per_dozen × price_per_unit × (1 + wastage_pct / 100)
+ *  - trims/dz    = qty_per_garment × unit_price × 12 (buyer-supplied trims cost nothing)
+ *  - process/dz  = cost_per_piece × 12
+ *  - CM/dz       = SAM × 12 / efficiency × labour_cost_per_minute + overhead,
+ *                  unless SAM is missing, in which case the entered cm_per_dozen is used.
+ *  - Commercial "percent" lines are a percentage of the manufacturing cost
+ *    (fabric + trims + process + CM); "fixed" lines are an amount per dozen.
+ *  - A line in another currency carries `exchange_rate` = units of that
+ *    currency per one unit of the sheet currency (e.g. 110 for BDT on a USD sheet).
+ *    A sheet with such a line and no rate can't be submitted, approved or applied.
+ *  - Work orders hold CM and price in USD, so only USD sheets can be applied to a PO.
+ *  - Prices (quoted, buyer target) are per piece unless target_price_type is "per_dozen".
+ *  - Margin is measured on the selling price: (price − cost) / price.
+ */
+
+export type CostSheetStatus = "draft" | "submitted" | "approved" | "rejected";
+
+export const COST_SHEET_STATUS_LABELS: Record<CostSheetStatus, string> = {
+  draft: "Draft",
+  submitted: "Awaiting Approval",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const COST_SHEET_STATUS_COLORS: Record<CostSheetStatus, string> = {
+  draft: "bg-muted text-muted-foreground border-border",
+  submitted: "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-950/40 dark:text-amber-400 dark:border-amber-800",
+  approved: "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-950/40 dark:text-emerald-400 dark:border-emerald-800",
+  rejected: "bg-red-100 text-red-700 border-red-200 dark:bg-red-950/40 dark:text-red-400 dark:border-red-800",
+};
+
+export const TRIM_CATEGORIES = ["Sewing", "Packing", "Label", "Thread", "Accessory", "Other"];
+export const PROCESS_CATEGORIES = ["Wash", "Print", "Embroidery", "Dyeing", "Finishing", "Other"];
+export const COMMERCIAL_CATEGORIES = ["Freight", "Bank", "Commission", "Inspection", "Testing", "Other"];
+export const COSTING_CURRENCIES = ["USD", "EUR", "GBP", "BDT", "CNY"];
+/** Currency of work_orders.cm_per_dozen and selling_price */
+export const WORK_ORDER_CURRENCY = "USD";
+export const CONSUMPTION_UNITS = ["Kg", "Yard", "Meter"];
+export const GARMENT_TYPES = ["T-Shirt", "Polo", "Sweatshirt", "Hoodie", "Trouser", "Shorts", "Jacket", "Dress", "Other"];
+
+export type OverheadType = "percent" | "per_dozen";
+export type CommercialCostType = "percent" | "fixed";
+export type PriceBasis = "per_piece" | "per_dozen";
+
+// ── Inputs ──────────────────────────────────────────────────────────────────
+
+interface CurrencyLine {
+  currency?: string | null;
+  exchange_rate?: number | null;
+}
+
+export interface FabricLine extends CurrencyLine {
+  consumption_per_dozen: number | null;
+  price_per_unit: number;
+  wastage_pct: number | null;
+}
+
+export interface TrimLine extends CurrencyLine {
+  qty_per_garment: number | null;
+  unit_price: number;
+  is_buyer_supplied: boolean | null;
+}
+
+export interface ProcessLine extends CurrencyLine {
+  cost_per_piece: number;
+}
+
+export interface CommercialLine extends CurrencyLine {
+  amount: number;
+  cost_type: string | null;
+}
+
+export interface CMInput {
+  sam: number | null;
+  efficiency_pct: number | null;
+  labour_cost_per_minute: number | null;
+  overhead_type: string | null;
+  overhead_value: number | null;
+  cm_per_dozen: number | null;
+}
+
+export interface CostSheetPricing {
+  currency: string | null;
+  quoted_price: number | null;
+  buyer_target_price: number | null;
+  target_price_type: string | null;
+  desired_margin_pct: number | null;
+}
+
+// ── Line calculators ────────────────────────────────────────────────────────
+
+/** True when a line is in another currency and has no usable exchange rate. */
+export function isMissingExchangeRate(line: CurrencyLine, sheetCurrency: string | null): boolean {
+  const lineCurrency = line.currency || sheetCurrency || "USD";
+  if (lineCurrency === (sheetCurrency || "USD")) return false;
+  return !line.exchange_rate || line.exchange_rate <= 0;
+}
+
+/**
+ * Converts a line amount into the sheet currency. A line missing its rate is
+ * left unconverted so the builder can still show a running total;
+ * missingExchangeRates reports it and blocks the sheet from going further.
+ */
+export function toSheetCurrency(amount: number, line: CurrencyLine, sheetCurrency: string | null): number {
+  if (isMissingExchangeRate(line, sheetCurrency)) return amount;
+  const lineCurrency = line.currency || sheetCurrency || "USD";
+  if (lineCurrency === (sheetCurrency || "USD")) return amount;
+  return amount / line.exchange_rate!;
+}
+
+export function fabricCostPerDozen(f: FabricLine, sheetCurrency: string | null): number {
+  const raw = (f.consumption_per_dozen ?? 0) * (f.price_per_unit || 0) * (1 + (f.wastage_pct ?? 0) / 100);
+  return toSheetCurrency(raw, f, sheetCurrency);
+}
+
+export function trimCostPerDozen(t: TrimLine, sheetCurrency: string | null): number {
+  if (t.is_buyer_supplied) return 0;
+  return toSheetCurrency((t.qty_per_garment ?? 0) * (t.unit_price || 0) * 12, t, sheetCurrency);
+}
+
+export function processCostPerDozen(p: ProcessLine, sheetCurrency: string | null): number {
+  return toSheetCurrency((p.cost_per_piece || 0) * 12, p, sheetCurrency);
+}
+
+/** CM per dozen from SAM and efficiency; falls back to the entered figure when SAM is missing. */
+export function calcCmPerDozen(cm: CMInput | null | undefined): number {
+  if (!cm) return 0;
+  const sam = cm.sam ?? 0;
+  const eff = cm.efficiency_pct ?? 0;
+  const rate = cm.labour_cost_per_minute ?? 0;
+  if (sam <= 0 || eff <= 0 || rate <= 0) return cm.cm_per_dozen ?? 0;
+
+  const labour = ((sam * 12) / (eff / 100)) * rate;
+  const overhead = cm.overhead_type === "per_dozen"
+    ? cm.overhead_value ?? 0
+    : labour * ((cm.overhead_value ?? 0) / 100);
+  return labour + overhead;
+}
+
+// ── Sheet totals ────────────────────────────────────────────────────────────
+
+export interface CostBreakdown {
+  fabric: number;
+  trims: number;
+  processes: number;
+  cm: number;
+  /** fabric + trims + processes + cm */
+  manufacturing: number;
+  commercial: number;
+  totalPerDozen: number;
+  totalPerPiece: number;
+}
+
+export function calcCostBreakdown(input: {
+  currency: string | null;
+  fabrics: FabricLine[];
+  trims: TrimLine[];
+  processes: ProcessLine[];
+  cm: CMInput | null;
+  commercial: CommercialLine[];
+}): CostBreakdown {
+  const cur = input.currency;
+  const fabric = input.fabrics.reduce((s, f) => s + fabricCostPerDozen(f, cur), 0);
+  const trims = input.trims.reduce((s, t) => s + trimCostPerDozen(t, cur), 0);
+  const processes = input.processes.reduce((s, p) => s + processCostPerDozen(p, cur), 0);
+  const cm = calcCmPerDozen(input.cm);
+  const manufacturing = fabric + trims + processes + cm;
+
+  const commercial = input.commercial.reduce((s, c) => {
+    if (c.cost_type === "percent") return s + manufacturing * ((c.amount || 0) / 100);
+    return s + toSheetCurrency(c.amount || 0, c, cur);
+  }, 0);
+
+  const totalPerDozen = manufacturing + commercial;
+  return {
+    fabric: round2(fabric),
+    trims: round2(trims),
+    processes: round2(processes),
+    cm: round2(cm),
+    manufacturing: round2(manufacturing),
+    commercial: round2(commercial),
+    totalPerDozen: round2(totalPerDozen),
+    totalPerPiece: round4(totalPerDozen / 12),
+  };
+}
+
+export interface PricingAnalysis {
+  /** Price needed per piece to hit desired_margin_pct, or null when no margin is set. */
+  suggestedPrice: number | null;
+  quotedPerPiece: number | null;
+  targetPerPiece: number | null;
+  /** Margin at the quoted price, percent. */
+  quotedMarginPct: number | null;
+  /** Margin at the buyer's target price, percent. */
+  targetMarginPct: number | null;
+  /** quoted − target, per piece. Positive means we're above the buyer's target. */
+  gapToTarget: number | null;
+  belowDesiredMargin: boolean;
+}
+
+function perPiece(price: number | null, basis: string | null): number | null {
+  if (price == null || price <= 0) return null;
+  return basis === "per_dozen" ? price / 12 : price;
+}
+
+function marginAt(price: number | null, cost: number): number | null {
+  if (price == null || price <= 0) return null;
+  return Math.round(((price - cost) / price) * 1000) / 10;
+}
+
+export function analysePricing(sheet: CostSheetPricing, costPerPiece: number): PricingAnalysis {
+  const quotedPerPiece = perPiece(sheet.quoted_price, sheet.target_price_type);
+  const targetPerPiece = perPiece(sheet.buyer_target_price, sheet.target_price_type);
+  const margin = sheet.desired_margin_pct;
+  const suggestedPrice = margin != null && margin < 100 && costPerPiece > 0
+    ? round4(costPerPiece / (1 - margin / 100))
+    : null;
+  const quotedMarginPct = marginAt(quotedPerPiece, costPerPiece);
+
+  return {
+    suggestedPrice,
+    quotedPerPiece,
+    targetPerPiece,
+    quotedMarginPct,
+    targetMarginPct: marginAt(targetPerPiece, costPerPiece),
+    gapToTarget: quotedPerPiece != null && targetPerPiece != null ? round4(quotedPerPiece - targetPerPiece) : null,
+    belowDesiredMargin: margin != null && quotedMarginPct != null && quotedMarginPct < margin,
+  };
+}
+
+// ── Validation ──────────────────────────────────────────────────────────────
+
+export interface ExchangeRateIssue {
+  section: "Fabric" | "Trims" | "Processes" | "Commercial";
+  /** 1-based row number within the section */
+  row: number;
+  currency: string;
+}
+
+/**
+ * Lines whose amounts can't be converted to the sheet currency for lack of an
+ * exchange rate. Buyer-supplied trims and percentage commercial lines carry
+ * no amount of their own, so they never need one.
+ */
+export function missingExchangeRates(input: {
+  currency: string | null;
+  fabrics: CurrencyLine[];
+  trims: (CurrencyLine & { is_buyer_supplied?: boolean | null })[];
+  processes: CurrencyLine[];
+  commercial: (CurrencyLine & { cost_type?: string | null })[];
+}): ExchangeRateIssue[] {
+  const cur = input.currency;
+  const issues: ExchangeRateIssue[] = [];
+  const check = <T extends CurrencyLine>(section: ExchangeRateIssue["section"], lines: T[], skip: (l: T) => boolean = () => false) =>
+    lines.forEach((l, i) => {
+      if (!skip(l) && isMissingExchangeRate(l, cur)) issues.push({ section, row: i + 1, currency: l.currency! });
+    });
+  check("Fabric", input.fabrics);
+  check("Trims", input.trims, (t) => !!t.is_buyer_supplied);
+  check("Processes", input.processes);
+  check("Commercial", input.commercial, (c) => c.cost_type === "percent");
+  return issues;
+}
+
+export function formatExchangeRateIssue(issue: ExchangeRateIssue, sheetCurrency: string | null): string {
+  return `${issue.section} row ${issue.row}: no exchange rate from ${issue.currency} to ${sheetCurrency || "USD"}`;
+}
+
+/** Why a sheet can't be applied to its PO, or null when it can. */
+export function applyToWorkOrderBlocker(sheetCurrency: string | null, issues: ExchangeRateIssue[]): string | null {
+  const cur = sheetCurrency || "USD";
+  if (cur !== WORK_ORDER_CURRENCY) {
+    return `POs hold CM and price in ${WORK_ORDER_CURRENCY}; this sheet is in ${cur}. Cost it in ${WORK_ORDER_CURRENCY} to apply it.`;
+  }
+  if (issues.length > 0) return formatExchangeRateIssue(issues[0], cur);
+  return null;
+}
+
+/**
+ * Values pushed to work_orders when an approved sheet is applied: CM per
+ * dozen and, when the sheet has a quote, the selling price per piece. A
+ * sheet without a quote leaves the PO's existing price alone.
+ */
+export function workOrderCostingUpdate(
+  breakdown: CostBreakdown,
+  pricing: PricingAnalysis,
+): { cm_per_dozen: number; selling_price?: number } {
+  return {
+    cm_per_dozen: breakdown.cm,
+    ...(pricing.quotedPerPiece != null ? { selling_price: pricing.quotedPerPiece } : {}),
+  };
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function round4(n: number) {
+  return Math.round(n * 10000) / 10000;
+}
@@ -0,0 +1,26 @@
+/**
+ * Minimal CSV reading shared by the importers: quoted cells with doubled
+ * quotes, and comma or semicolon delimiters (European Excel exports use ";").
+ */
+
+export function detectDelimiter(headerRow: string | undefined): "," | ";" {
+  return (headerRow?.split(";").length ?? 0) > (headerRow?.split(",").length ?? 0) ? ";" : ",";
+}
+
+export function splitCsvRow(row: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (quoted) {
+      if (ch === '"' && row[i + 1] === '"') { cur += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === delimiter) { cells.push(cur.trim()); cur = ""; }
+    else cur += ch;
+  }
+  cells.push(cur.trim());
+  return cells;
+}
@@ -0,0 +1,221 @@
+/**
+ * Cut planning: turn a PO's colour × size quantities into lays. A lay spreads
+ * one colour `plies` high under a marker that cuts `marker_ratio[size]`
+ * garments of each size per ply, so it yields ratio × plies pieces per size.
+ *
+ * Proposed lays cover the order plus the cutting allowance exactly. While a
+ * size needs more than a full-height lay, lays run at `max_plies` with the
+ * ratio each size can fill; the remainder is closed with shorter lays of one
+ * garment per size. Planners adjust the proposal before cutting.
+ */
+
+import type { ColourBreakdown, SizeQuantities } from "./size-matrix";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export interface CutPlanSettings {
+  allowance_pct: number;
+  max_plies: number;
+  max_marker_pieces: number;
+}
+
+export interface CutPlan extends CutPlanSettings {
+  id: string;
+  work_order_id: string;
+  sizes: string[];
+  breakdown: ColourBreakdown[];
+  notes: string | null;
+}
+
+export type LayStatus = "planned" | "cut";
+
+export interface PlannedLay {
+  colour: string;
+  marker_ratio: SizeQuantities;
+  plies: number;
+}
+
+export interface CutLay extends PlannedLay {
+  id: string;
+  lay_no: number;
+  /** Fabric per ply */
+  marker_length: number | null;
+  /** Marker efficiency from CAD, in percent */
+  marker_efficiency: number | null;
+  status: LayStatus;
+  actual_plies: number | null;
+  fabric_used: number | null;
+  cut_date: string | null;
+}
+
+export interface LayMetrics {
+  plannedPieces: number;
+  /** marker_length × plies; null without a marker length */
+  plannedFabric: number | null;
+  /** Planned fabric per dozen garments */
+  plannedPerDozen: number | null;
+  actualPieces: number;
+  actualPerDozen: number | null;
+  /** fabric_used − marker_length × actual_plies; positive means more fabric than the marker needs */
+  fabricVariance: number | null;
+}
+
+export interface CutMatrixCell {
+  ordered: number;
+  planned: number;
+  cut: number;
+}
+
+export interface CutMatrixRow {
+  colour: string;
+  cells: Record<string, CutMatrixCell>;
+  total: CutMatrixCell;
+}
+
+export const DEFAULT_CUT_PLAN_SETTINGS: CutPlanSettings = {
+  allowance_pct: 3,
+  max_plies: 100,
+  max_marker_pieces: 6,
+};
+
+const sum = (q: SizeQuantities) => Object.values(q).reduce((s, n) => s + n, 0);
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ── Planning ───────────────────────────────────────────────────────────
+
+/** Quantities to cut: each size rounded up after the allowance. */
+export function withAllowance(quantities: SizeQuantities, allowancePct: number): SizeQuantities {
+  const out: SizeQuantities = {};
+  for (const [size, qty] of Object.entries(quantities)) {
+    if (qty > 0) out[size] = Math.ceil(qty * (1 + allowancePct / 100));
+  }
+  return out;
+}
+
+function laysForColour(colour: string, required: SizeQuantities, sizes: string[], settings: CutPlanSettings): PlannedLay[] {
+  const remaining: SizeQuantities = { ...required };
+  const lays: PlannedLay[] = [];
+
+  for (let guard = 0; guard < 500; guard++) {
+    const open = sizes.filter((s) => (remaining[s] ?? 0) > 0);
+    if (open.length === 0) break;
+
+    const top = Math.max(...open.map((s) => remaining[s]));
+    const ratio: SizeQuantities = {};
+    let plies: number;
+    if (top > settings.max_plies) {
+      plies = settings.max_plies;
+      for (const s of open) {
+        const r = Math.floor(remaining[s] / plies);
+        if (r > 0) ratio[s] = r;
+      }
+    } else {
+      const included = [...open]
+        .sort((a, b) => remaining[b] - remaining[a])
+        .slice(0, settings.max_marker_pieces);
+      plies = Math.min(...included.map((s) => remaining[s]));
+      for (const s of included) ratio[s] = 1;
+    }
+
+    // Keep within what one marker can hold, trimming the biggest share first
+    while (sum(ratio) > settings.max_marker_pieces) {
+      const biggest = sizes.reduce<string | null>((b, s) => ((ratio[s] ?? 0) > (b ? ratio[b] : 0) ? s : b), null)!;
+      if (--ratio[biggest] === 0) delete ratio[biggest];
+    }
+
+    for (const [s, r] of Object.entries(ratio)) remaining[s] -= r * plies;
+    lays.push({ colour, marker_ratio: ratio, plies });
+  }
+  return lays;
+}
+
+/** Lays covering every colour's quantities plus the allowance, colour by colour. */
+export function proposeLays(breakdown: ColourBreakdown[], sizes: string[], settings: CutPlanSettings): PlannedLay[] {
+  return breakdown.flatMap((b) => laysForColour(b.colour, withAllowance(b.quantities, settings.allowance_pct), sizes, settings));
+}
+
+/**
+ * Quantities still to lay once the cut lays are counted: the order plus the
+ * allowance, less what the cut lays actually gave. Feed the result back to
+ * `proposeLays` with no allowance to re-plan a part-cut PO.
+ */
+export function remainingToCut(plan: CutPlanSettings & { breakdown: ColourBreakdown[] }, lays: CutLay[]): ColourBreakdown[] {
+  return plan.breakdown.map((b) => {
+    const remaining = withAllowance(b.quantities, plan.allowance_pct);
+    for (const lay of lays) {
+      if (lay.colour !== b.colour || lay.status !== "cut") continue;
+      for (const [size, qty] of Object.entries(layPieces(lay, lay.actual_plies ?? lay.plies))) {
+        if (size in remaining) remaining[size] = Math.max(0, remaining[size] - qty);
+      }
+    }
+    return { colour: b.colour, quantities: remaining };
+  });
+}
+
+export function layPieces(lay: Pick<PlannedLay, "marker_ratio">, plies: number): SizeQuantities {
+  const out: SizeQuantities = {};
+  for (const [size, r] of Object.entries(lay.marker_ratio)) out[size] = r * plies;
+  return out;
+}
+
+export function markerPieces(ratio: SizeQuantities): number {
+  return sum(ratio);
+}
+
+/** "S×1 M×2 L×1", in size order. */
+export function formatRatio(ratio: SizeQuantities, sizes: string[]): string {
+  const order = [...sizes, ...Object.keys(ratio).filter((s) => !sizes.includes(s))];
+  return order.filter((s) => ratio[s]).map((s) => `${s}×${ratio[s]}`).join(" ");
+}
+
+// ── Tracking ───────────────────────────────────────────────────────────
+
+export function layMetrics(lay: CutLay): LayMetrics {
+  const perPly = markerPieces(lay.marker_ratio);
+  const plannedPieces = perPly * lay.plies;
+  const plannedFabric = lay.marker_length != null ? round2(lay.marker_length * lay.plies) : null;
+  const actualPieces = lay.status === "cut" ? perPly * (lay.actual_plies ?? lay.plies) : 0;
+  return {
+    plannedPieces,
+    plannedFabric,
+    plannedPerDozen: plannedFabric != null && plannedPieces > 0 ? round2((plannedFabric / plannedPieces) * 12) : null,
+    actualPieces,
+    actualPerDozen: lay.fabric_used != null && actualPieces > 0 ? round2((lay.fabric_used / actualPieces) * 12) : null,
+    fabricVariance:
+      lay.fabric_used != null && lay.marker_length != null && lay.status === "cut"
+        ? round2(lay.fabric_used - lay.marker_length * (lay.actual_plies ?? lay.plies))
+        : null,
+  };
+}
+
+/** Ordered, planned and cut pieces by colour and size; colours only in lays are added after the breakdown's. */
+export function cutMatrix(breakdown: ColourBreakdown[], sizes: string[], lays: CutLay[]): CutMatrixRow[] {
+  const rows = new Map<string, CutMatrixRow>();
+  const row = (colour: string) => {
+    let r = rows.get(colour);
+    if (!r) {
+      r = { colour, cells: {}, total: { ordered: 0, planned: 0, cut: 0 } };
+      for (const s of sizes) r.cells[s] = { ordered: 0, planned: 0, cut: 0 };
+      rows.set(colour, r);
+    }
+    return r;
+  };
+  const add = (colour: string, size: string, key: keyof CutMatrixCell, qty: number) => {
+    const r = row(colour);
+    r.cells[size] ??= { ordered: 0, planned: 0, cut: 0 };
+    r.cells[size][key] += qty;
+    r.total[key] += qty;
+  };
+
+  for (const b of breakdown) {
+    row(b.colour);
+    for (const [size, qty] of Object.entries(b.quantities)) add(b.colour, size, "ordered", qty);
+  }
+  for (const lay of lays) {
+    for (const [size, qty] of Object.entries(layPieces(lay, lay.plies))) add(lay.colour, size, "planned", qty);
+    if (lay.status === "cut") {
+      for (const [size, qty] of Object.entries(layPieces(lay, lay.actual_plies ?? lay.plies))) add(lay.colour, size, "cut", qty);
+    }
+  }
+  return Array.from(rows.values());
+}
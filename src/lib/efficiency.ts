@@ -0,0 +1,3 @@
+// The engine lives with the edge functions so the chatbot and emailed reports
+// compute exactly the same number as the app.
+export * from "../../supabase/functions/_shared/efficiency.ts";
@@ -0,0 +1,264 @@
+import { jsPDF } from "jspdf";
+import { format, parseISO } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  INVOICE_TYPE_LABELS,
+  calcInvoiceTotals,
+  lineAmount,
+  taxAmount,
+  type InvoiceType,
+} from "@/lib/invoice-utils";
+import type { Invoice, InvoiceCharge, InvoiceLineItem, InvoiceTaxLine } from "@/hooks/useInvoices";
+
+// ── Types ──
+
+export interface InvoicePdfInput {
+  factoryName: string;
+  invoice: Invoice;
+  lines: InvoiceLineItem[];
+  taxes: InvoiceTaxLine[];
+  charges: InvoiceCharge[];
+}
+
+type Col = { label: string; w: number; align?: "left" | "right" | "center" };
+
+/** bank_details is stored either as free text or as a label → value object. */
+export function bankDetailLines(details: Json | null): string[] {
+  if (!details) return [];
+  if (typeof details === "string") return details.split("\n").filter((l) => l.trim());
+  if (typeof details === "object" && !Array.isArray(details)) {
+    return Object.entries(details)
+      .filter(([, v]) => v != null && v !== "")
+      .map(([k, v]) => `${k}: ${String(v)}`);
+  }
+  return [];
+}
+
+// ── Generate ──
+
+export function generateInvoicePdf(input: InvoicePdfInput) {
+  const { factoryName, invoice, lines, taxes, charges } = input;
+  const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const pw = doc.internal.pageSize.getWidth();
+  const ph = doc.internal.pageSize.getHeight();
+  const m = 10;
+  const cw = pw - m * 2;
+  let y = m;
+
+  const cur = invoice.currency;
+  const fMoney = (v: number) => v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const fDate = (d: string | null) => (d ? format(parseISO(d), "dd MMM yyyy") : "-");
+  const title = (INVOICE_TYPE_LABELS[invoice.invoice_type as InvoiceType] ?? "Invoice").toUpperCase();
+
+  const ensureRoom = (need: number) => {
+    if (y + need > ph - 12) {
+      doc.addPage();
+      y = m;
+    }
+  };
+
+  // ── Generic bordered table ──
+  const drawTable = (cols: Col[], rows: string[][], startY: number, opts?: { fs?: number; rh?: number }): number => {
+    const fs = opts?.fs || 7.5;
+    const rh = opts?.rh || 6.5;
+    const totalW = cols.reduce((s, c) => s + c.w, 0);
+    let ty = startY;
+
+    const drawHeader = () => {
+      doc.setFillColor(220, 220, 220);
+      doc.rect(m, ty, totalW, rh, "F");
+      doc.setFont("helvetica", "bold"); doc.setFontSize(fs); doc.setTextColor(0);
+      let hx = m;
+      cols.forEach(c => {
+        doc.rect(hx, ty, c.w, rh);
+        const tx = c.align === "right" ? hx + c.w - 1.5 : hx + 1.5;
+        doc.text(c.label, tx, ty + rh - 1.5, { align: c.align === "right" ? "right" : "left" });
+        hx += c.w;
+      });
+      ty += rh;
+    };
+
+    drawHeader();
+    rows.forEach(row => {
+      if (ty + rh > ph - 12) {
+        doc.addPage();
+        ty = m;
+        drawHeader();
+      }
+      doc.setFont("helvetica", "normal"); doc.setFontSize(fs); doc.setTextColor(0);
+      let rx = m;
+      row.forEach((cell, ci) => {
+        doc.rect(rx, ty, cols[ci].w, rh);
+        const tx = cols[ci].align === "right" ? rx + cols[ci].w - 1.5 : rx + 1.5;
+        doc.text((cell || "").substring(0, Math.floor(cols[ci].w / 1.6)), tx, ty + rh - 1.5, { align: cols[ci].align === "right" ? "right" : "left" });
+        rx += cols[ci].w;
+      });
+      ty += rh;
+    });
+    return ty;
+  };
+
+  // Label / value block; returns the y below the block
+  const infoBlock = (x: number, startY: number, heading: string, rows: [string, string | null | undefined][]): number => {
+    let by = startY;
+    doc.setFont("helvetica", "bold"); doc.setFontSize(8); doc.setTextColor(0);
+    doc.text(heading, x, by);
+    by += 4.5;
+    rows.filter(([, v]) => v).forEach(([label, value]) => {
+      doc.setFont("helvetica", "bold"); doc.setFontSize(7.5);
+      doc.text(`${label}:`, x, by);
+      doc.setFont("helvetica", "normal");
+      const wrapped = doc.splitTextToSize(String(value), cw / 2 - 30);
+      doc.text(wrapped, x + 26, by);
+      by += 4 * wrapped.length;
+    });
+    return by;
+  };
+
+  // ── Header ──
+  doc.setFont("helvetica", "bold"); doc.setFontSize(13); doc.setTextColor(0);
+  doc.text(factoryName, m, y + 2);
+  doc.setFontSize(12);
+  doc.text(title, pw - m, y + 2, { align: "right" });
+  y += 7;
+  doc.setFont("helvetica", "normal"); doc.setFontSize(8);
+  doc.text(`No: ${invoice.invoice_number}`, pw - m, y, { align: "right" });
+  doc.text(`Date: ${fDate(invoice.issue_date)}`, pw - m, y + 4, { align: "right" });
+  if (invoice.copy_marking && invoice.copy_marking !== "none") {
+    doc.setFont("helvetica", "bold");
+    doc.text(invoice.copy_marking.toUpperCase(), m, y);
+  }
+  y += 7;
+  doc.setDrawColor(0); doc.setLineWidth(0.4); doc.line(m, y, pw - m, y);
+  y += 6;
+
+  // ── Buyer & shipment ──
+  const leftEnd = infoBlock(m, y, "BILL TO", [
+    ["Buyer", invoice.buyer_name],
+    ["Address", invoice.buyer_address],
+    ["Contact", invoice.buyer_contact],
+    ["Ship To", invoice.ship_to_address],
+  ]);
+  const rightEnd = infoBlock(m + cw / 2 + 2, y, "SHIPMENT", [
+    ["PO No(s)", invoice.po_numbers?.join(", ")],
+    ["L/C No", invoice.lc_number ? `${invoice.lc_number}${invoice.lc_date ? ` dt. ${fDate(invoice.lc_date)}` : ""}` : null],
+    ["Contract", invoice.contract_number],
+    ["Incoterms", invoice.incoterms],
+    ["Loading", invoice.port_of_loading],
+    ["Discharge", invoice.port_of_discharge],
+    ["Vessel", invoice.vessel_name],
+    ["B/L", invoice.bl_number ? `${invoice.bl_number}${invoice.bl_date ? ` dt. ${fDate(invoice.bl_date)}` : ""}` : null],
+    ["Origin", invoice.country_of_origin],
+    ["Destination", invoice.country_of_dest],
+    ["Due Date", invoice.due_date ? fDate(invoice.due_date) : null],
+  ]);
+  y = Math.max(leftEnd, rightEnd) + 4;
+
+  // ── Line items ──
+  const cols: Col[] = [
+    { label: "#", w: 8, align: "right" },
+    { label: "Description", w: 62 },
+    { label: "Style", w: 24 },
+    { label: "Colour", w: 20 },
+    { label: "HS Code", w: 18 },
+    { label: "Qty", w: 18, align: "right" },
+    { label: `Unit Price (${cur})`, w: 20, align: "right" },
+    { label: `Amount (${cur})`, w: 20, align: "right" },
+  ];
+  const rows = lines.map((l, i) => [
+    String(i + 1),
+    l.description,
+    l.style_number || l.style_name || "",
+    l.color || "",
+    l.hs_code || "",
+    `${l.quantity.toLocaleString()} ${l.unit || ""}`.trim(),
+    l.unit_price.toFixed(3),
+    fMoney(lineAmount(l)),
+  ]);
+  y = drawTable(cols, rows, y);
+
+  // ── Totals ──
+  const totals = calcInvoiceTotals({ lines, taxes, charges, discount: invoice });
+  const summary: [string, string][] = [["Subtotal", fMoney(totals.subtotal)]];
+  if (totals.discount > 0) summary.push(["Less: Discount", `(${fMoney(totals.discount)})`]);
+  taxes.forEach(t => {
+    const label = t.rate_pct != null ? `${t.label || "Tax"} (${t.rate_pct}%)` : t.label || "Tax";
+    summary.push([label, fMoney(taxAmount(t, totals.taxable))]);
+  });
+  charges.forEach(c => {
+    const label = c.label || c.charge_type || "Charge";
+    summary.push(c.is_deduct ? [`Less: ${label}`, `(${fMoney(c.amount)})`] : [label, fMoney(c.amount)]);
+  });
+
+  ensureRoom(summary.length * 5 + 12);
+  y += 2;
+  const labelX = pw - m - 60;
+  doc.setFontSize(8); doc.setTextColor(0);
+  summary.forEach(([label, value]) => {
+    doc.setFont("helvetica", "normal");
+    doc.text(label, labelX, y + 4);
+    doc.text(value, pw - m - 1.5, y + 4, { align: "right" });
+    y += 5;
+  });
+  doc.setFillColor(240, 240, 240);
+  doc.rect(labelX - 2, y, pw - m - labelX + 2, 7, "F");
+  doc.setFont("helvetica", "bold"); doc.setFontSize(9);
+  doc.text(`TOTAL (${cur})`, labelX, y + 5);
+  doc.text(fMoney(totals.total), pw - m - 1.5, y + 5, { align: "right" });
+  y += 10;
+
+  doc.setFont("helvetica", "normal"); doc.setFontSize(7.5);
+  doc.text(`Total quantity: ${totals.quantity.toLocaleString()}`, m, y);
+  y += 6;
+
+  // ── Packing ──
+  const packing = [
+    invoice.total_cartons != null ? `Cartons: ${invoice.total_cartons}` : null,
+    invoice.total_net_weight != null ? `Net wt: ${invoice.total_net_weight} kg` : null,
+    invoice.total_gross_weight != null ? `Gross wt: ${invoice.total_gross_weight} kg` : null,
+    invoice.total_cbm != null ? `CBM: ${invoice.total_cbm}` : null,
+  ].filter(Boolean) as string[];
+  if (packing.length > 0) {
+    ensureRoom(6);
+    doc.text(packing.join("    "), m, y);
+    y += 6;
+  }
+
+  // ── Terms, notes and bank ──
+  const textSection = (heading: string, body: string[]) => {
+    if (body.length === 0) return;
+    const wrapped = body.flatMap(b => doc.splitTextToSize(b, cw));
+    ensureRoom(6 + wrapped.length * 4);
+    doc.setFont("helvetica", "bold"); doc.setFontSize(8);
+    doc.text(heading, m, y);
+    y += 4.5;
+    doc.setFont("helvetica", "normal"); doc.setFontSize(7.5);
+    doc.text(wrapped, m, y);
+    y += wrapped.length * 4 + 3;
+  };
+
+  textSection("PAYMENT TERMS", [invoice.payment_terms_text || invoice.payment_terms || ""].filter(Boolean));
+  if (invoice.show_bank_details !== false) textSection("BANK DETAILS", bankDetailLines(invoice.bank_details));
+  textSection("NOTES", [invoice.notes || ""].filter(Boolean));
+
+  // ── Signature ──
+  ensureRoom(30);
+  y += 14;
+  doc.setDrawColor(0); doc.setLineWidth(0.3);
+  doc.line(pw - m - 60, y, pw - m, y);
+  doc.setFont("helvetica", "normal"); doc.setFontSize(7.5);
+  doc.text(`For ${factoryName}`, pw - m - 30, y + 4, { align: "center" });
+  doc.text("Authorised Signature", pw - m - 30, y + 8, { align: "center" });
+
+  // Page footers
+  const totalPages = doc.getNumberOfPages();
+  for (let p = 1; p <= totalPages; p++) {
+    doc.setPage(p);
+    doc.setFontSize(7); doc.setFont("helvetica", "normal"); doc.setTextColor(120);
+    doc.text(`Page ${p} of ${totalPages}`, pw - m - 20, ph - 5);
+    doc.text(factoryName, m, ph - 5);
+  }
+
+  const safeNumber = invoice.invoice_number.replace(/[^a-zA-Z0-9\-_]/g, "_");
+  doc.save(`${safeNumber}.pdf`);
+}
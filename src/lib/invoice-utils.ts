@@ -0,0 +1,292 @@
+/**
+ * Export invoice and receivables calculations.
+ *
+ * Business rules:
+ *  - line amount = quantity × unit_price, less the line discount
+ *    (discount_type "percent" uses discount_pct, "amount" uses discount_value).
+ *  - The invoice-level discount applies to the line subtotal the same way.
+ *  - Tax lines with rate_pct are charged on the discounted subtotal; otherwise
+ *    their fixed amount is used.
+ *  - Charges add to the total unless is_deduct is set.
+ *  - total = subtotal − discount + tax + charges − deductions
+ *  - Outstanding = total − Σ payment allocations. Status follows automatically
+ *    once an invoice is issued: partially_paid, then paid.
+ */
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+export type InvoiceType = "commercial" | "proforma";
+export type InvoiceStatus = "draft" | "issued" | "partially_paid" | "paid" | "cancelled";
+
+export const INVOICE_TYPE_LABELS: Record<InvoiceType, string> = {
+  commercial: "Commercial Invoice",
+  proforma: "Proforma Invoice",
+};
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: "Draft",
+  issued: "Issued",
+  partially_paid: "Partially Paid",
+  paid: "Paid",
+  cancelled: "Cancelled",
+};
+
+export const INVOICE_STATUS_COLORS: Record<InvoiceStatus, string> = {
+  draft: "bg-muted text-muted-foreground border-border",
+  issued: "bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-950/40 dark:text-blue-400 dark:border-blue-800",
+  partially_paid: "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-950/40 dark:text-amber-400 dark:border-amber-800",
+  paid: "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-950/40 dark:text-emerald-400 dark:border-emerald-800",
+  cancelled: "bg-slate-100 text-slate-600 border-slate-200 dark:bg-slate-900/40 dark:text-slate-400 dark:border-slate-700",
+};
+
+export const INVOICE_CHARGE_TYPES = ["Freight", "Insurance", "Courier", "Bank Charge", "Claim", "Other"];
+export const INVOICE_CURRENCIES = ["USD", "EUR", "GBP", "CAD", "AUD"];
+export const PAYMENT_METHODS = ["TT", "LC", "DP", "DA", "Cheque", "Other"];
+
+/** payments.category used for export proceeds received against invoices. */
+export const EXPORT_RECEIPT_CATEGORY = "export_receipt";
+
+// ── Totals ──────────────────────────────────────────────────────────────────
+
+export interface DiscountFields {
+  discount_type: string | null;
+  discount_pct: number | null;
+  discount_value: number | null;
+}
+
+export interface InvoiceLineLike extends Partial<DiscountFields> {
+  quantity: number;
+  unit_price: number;
+}
+
+export interface InvoiceTaxLike {
+  amount: number;
+  rate_pct: number | null;
+}
+
+export interface InvoiceChargeLike {
+  amount: number;
+  is_deduct: boolean | null;
+}
+
+function discountOn(base: number, d: Partial<DiscountFields>): number {
+  if (d.discount_type === "percent") return base * ((d.discount_pct ?? 0) / 100);
+  if (d.discount_type === "amount") return Math.min(d.discount_value ?? 0, base);
+  return 0;
+}
+
+export function lineAmount(line: InvoiceLineLike): number {
+  const gross = (line.quantity || 0) * (line.unit_price || 0);
+  return round2(gross - discountOn(gross, line));
+}
+
+/** Amount for one tax line given the taxable base. */
+export function taxAmount(tax: InvoiceTaxLike, taxable: number): number {
+  return tax.rate_pct != null ? round2(taxable * (tax.rate_pct / 100)) : tax.amount || 0;
+}
+
+export interface InvoiceTotals {
+  quantity: number;
+  subtotal: number;
+  discount: number;
+  taxable: number;
+  tax: number;
+  charges: number;
+  deductions: number;
+  total: number;
+}
+
+export function calcInvoiceTotals(input: {
+  lines: InvoiceLineLike[];
+  taxes: InvoiceTaxLike[];
+  charges: InvoiceChargeLike[];
+  discount?: Partial<DiscountFields> | null;
+}): InvoiceTotals {
+  const quantity = input.lines.reduce((s, l) => s + (l.quantity || 0), 0);
+  const subtotal = round2(input.lines.reduce((s, l) => s + lineAmount(l), 0));
+  const discount = round2(input.discount ? discountOn(subtotal, input.discount) : 0);
+  const taxable = round2(subtotal - discount);
+  const tax = round2(input.taxes.reduce((s, t) => s + taxAmount(t, taxable), 0));
+  const charges = round2(input.charges.filter((c) => !c.is_deduct).reduce((s, c) => s + (c.amount || 0), 0));
+  const deductions = round2(input.charges.filter((c) => c.is_deduct).reduce((s, c) => s + (c.amount || 0), 0));
+  return {
+    quantity,
+    subtotal,
+    discount,
+    taxable,
+    tax,
+    charges,
+    deductions,
+    total: round2(taxable + tax + charges - deductions),
+  };
+}
+
+/** Payment-driven status. Drafts and cancelled invoices keep their manual status. */
+export function deriveInvoiceStatus(status: string, total: number, paid: number): InvoiceStatus {
+  if (status === "draft" || status === "cancelled") return status;
+  if (paid <= 0) return "issued";
+  if (paid + 0.005 >= total) return "paid";
+  return "partially_paid";
+}
+
+// ── Lines from dispatches ───────────────────────────────────────────────────
+
+export interface DispatchForInvoice {
+  id: string;
+  dispatch_quantity: number;
+  work_order_id: string | null;
+  work_orders: {
+    po_number: string;
+    style: string;
+    style_number: string | null;
+    color: string | null;
+    hs_code: string | null;
+    item: string | null;
+    selling_price: number | null;
+  } | null;
+}
+
+export interface DraftLineItem {
+  description: string;
+  style_name: string | null;
+  style_number: string | null;
+  color: string | null;
+  hs_code: string | null;
+  size_range: string | null;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  discount_type: string | null;
+  discount_pct: number | null;
+  discount_value: number | null;
+}
+
+/**
+ * One invoice line per PO: dispatched quantities are summed and priced at
+ * work_orders.selling_price (0 when not set, for the user to fill in).
+ */
+export function linesFromDispatches(dispatches: DispatchForInvoice[]): DraftLineItem[] {
+  const byWo = new Map<string, { wo: NonNullable<DispatchForInvoice["work_orders"]>; qty: number }>();
+  for (const d of dispatches) {
+    if (!d.work_order_id || !d.work_orders) continue;
+    const entry = byWo.get(d.work_order_id);
+    if (entry) entry.qty += d.dispatch_quantity || 0;
+    else byWo.set(d.work_order_id, { wo: d.work_orders, qty: d.dispatch_quantity || 0 });
+  }
+  return Array.from(byWo.values()).map(({ wo, qty }) => ({
+    description: `${wo.item || wo.style} — PO ${wo.po_number}`,
+    style_name: wo.style,
+    style_number: wo.style_number,
+    color: wo.color,
+    hs_code: wo.hs_code,
+    size_range: null,
+    quantity: qty,
+    unit: "PCS",
+    unit_price: wo.selling_price ?? 0,
+    discount_type: null,
+    discount_pct: null,
+    discount_value: null,
+  }));
+}
+
+// ── Allocation ──────────────────────────────────────────────────────────────
+
+export interface OpenInvoice {
+  id: string;
+  due_date: string | null;
+  issue_date: string;
+  outstanding: number;
+}
+
+/** Spreads a payment over open invoices, oldest due date first. */
+export function suggestAllocations(amount: number, invoices: OpenInvoice[]): Record<string, number> {
+  const sorted = [...invoices].sort((a, b) =>
+    (a.due_date ?? a.issue_date).localeCompare(b.due_date ?? b.issue_date),
+  );
+  const result: Record<string, number> = {};
+  let left = round2(amount);
+  for (const inv of sorted) {
+    if (left <= 0) break;
+    if (inv.outstanding <= 0) continue;
+    const take = round2(Math.min(left, inv.outstanding));
+    result[inv.id] = take;
+    left = round2(left - take);
+  }
+  return result;
+}
+
+// ── Receivables ─────────────────────────────────────────────────────────────
+
+export type AgingBucket = "current" | "1_30" | "31_60" | "61_90" | "90_plus";
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Not due",
+  "1_30": "1–30 days",
+  "31_60": "31–60 days",
+  "61_90": "61–90 days",
+  "90_plus": "90+ days",
+};
+
+export function agingBucket(dueDate: string | null, issueDate: string, today: string): AgingBucket {
+  const overdue = differenceInCalendarDays(parseISO(today), parseISO(dueDate ?? issueDate));
+  if (overdue <= 0) return "current";
+  if (overdue <= 30) return "1_30";
+  if (overdue <= 60) return "31_60";
+  if (overdue <= 90) return "61_90";
+  return "90_plus";
+}
+
+export interface ReceivableInvoice {
+  buyer_name: string;
+  currency: string;
+  due_date: string | null;
+  issue_date: string;
+  total: number;
+  paid: number;
+  status: string;
+}
+
+export interface BuyerReceivable {
+  buyer: string;
+  currency: string;
+  invoiced: number;
+  paid: number;
+  outstanding: number;
+  invoiceCount: number;
+  buckets: Record<AgingBucket, number>;
+}
+
+/** Outstanding per buyer and currency for issued (not draft / cancelled) invoices. */
+export function receivablesByBuyer(invoices: ReceivableInvoice[], today: string): BuyerReceivable[] {
+  const map = new Map<string, BuyerReceivable>();
+  for (const inv of invoices) {
+    if (inv.status === "draft" || inv.status === "cancelled") continue;
+    const key = `${inv.buyer_name}|${inv.currency}`;
+    let row = map.get(key);
+    if (!row) {
+      row = {
+        buyer: inv.buyer_name,
+        currency: inv.currency,
+        invoiced: 0,
+        paid: 0,
+        outstanding: 0,
+        invoiceCount: 0,
+        buckets: { current: 0, "1_30": 0, "31_60": 0, "61_90": 0, "90_plus": 0 },
+      };
+      map.set(key, row);
+    }
+    const outstanding = round2(Math.max(inv.total - inv.paid, 0));
+    row.invoiced = round2(row.invoiced + inv.total);
+    row.paid = round2(row.paid + inv.paid);
+    row.outstanding = round2(row.outstanding + outstanding);
+    row.invoiceCount += 1;
+    if (outstanding > 0) {
+      const b = agingBucket(inv.due_date, inv.issue_date, today);
+      row.buckets[b] = round2(row.buckets[b] + outstanding);
+    }
+  }
+  return Array.from(map.values()).sort((a, b) => b.outstanding - a.outstanding);
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
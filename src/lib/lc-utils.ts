@@ -0,0 +1,246 @@
+/**
+ * Letter of Credit calculations for the LC workspace.
+ *
+ * Business rules:
+ *  - An LC can be drawn up to lc_value × (1 + tolerance_pct / 100).
+ *  - Utilisation = Σ shipment invoice_value / lc_value.
+ *  - Documents must be presented within `presentation_period` days of the
+ *    shipment date (UCP 600 default: 21 days) and never after LC expiry.
+ *  - Warning windows come from lc_notification_settings when configured,
+ *    otherwise DEFAULT_LC_WARNING_DAYS.
+ */
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export type LCStatus = "draft" | "active" | "partially_shipped" | "fully_shipped" | "expired" | "closed";
+
+export const LC_STATUS_LABELS: Record<LCStatus, string> = {
+  draft: "Draft",
+  active: "Active",
+  partially_shipped: "Partially Shipped",
+  fully_shipped: "Fully Shipped",
+  expired: "Expired",
+  closed: "Closed",
+};
+
+export const LC_STATUS_COLORS: Record<LCStatus, string> = {
+  draft: "bg-muted text-muted-foreground border-border",
+  active: "bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-950/40 dark:text-blue-400 dark:border-blue-800",
+  partially_shipped: "bg-violet-100 text-violet-700 border-violet-200 dark:bg-violet-950/40 dark:text-violet-400 dark:border-violet-800",
+  fully_shipped: "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-950/40 dark:text-emerald-400 dark:border-emerald-800",
+  expired: "bg-red-100 text-red-700 border-red-200 dark:bg-red-950/40 dark:text-red-400 dark:border-red-800",
+  closed: "bg-slate-100 text-slate-600 border-slate-200 dark:bg-slate-900/40 dark:text-slate-400 dark:border-slate-700",
+};
+
+export type LCShipmentStatus = "shipped" | "docs_submitted" | "docs_accepted" | "paid";
+
+export const LC_SHIPMENT_STATUS_LABELS: Record<LCShipmentStatus, string> = {
+  shipped: "Shipped",
+  docs_submitted: "Docs Submitted",
+  docs_accepted: "Docs Accepted",
+  paid: "Paid",
+};
+
+export type LCDiscrepancyStatus = "open" | "resolved" | "waived";
+
+export const LC_DISCREPANCY_TYPES = [
+  { value: "documentary", label: "Documentary" },
+  { value: "late_presentation", label: "Late presentation" },
+  { value: "late_shipment", label: "Late shipment" },
+  { value: "overdrawn", label: "Amount overdrawn" },
+  { value: "other", label: "Other" },
+];
+
+/** lc_discrepancies.discrepancy_items is stored as a JSON string array. */
+export function parseDiscrepancyItems(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/** Documents most export LCs call for; seeded into a new LC's checklist. */
+export const DEFAULT_LC_DOCUMENTS: { document_name: string; originals_required: number; copies_required: number }[] = [
+  { document_name: "Commercial Invoice", originals_required: 1, copies_required: 3 },
+  { document_name: "Packing List", originals_required: 1, copies_required: 3 },
+  { document_name: "Bill of Lading", originals_required: 3, copies_required: 3 },
+  { document_name: "Certificate of Origin", originals_required: 1, copies_required: 1 },
+  { document_name: "Inspection Certificate", originals_required: 1, copies_required: 0 },
+  { document_name: "Beneficiary Certificate", originals_required: 1, copies_required: 0 },
+];
+
+/** UCP 600 article 14(c): presentation no later than 21 days after shipment. */
+export const DEFAULT_PRESENTATION_PERIOD = 21;
+
+export interface LCWarningDays {
+  expiry: number;
+  shipment: number;
+  presentation: number;
+}
+
+export const DEFAULT_LC_WARNING_DAYS: LCWarningDays = {
+  expiry: 30,
+  shipment: 14,
+  presentation: 5,
+};
+
+/** Subset of master_lcs used by the calculations below. */
+export interface LCTerms {
+  lc_value: number;
+  tolerance_pct: number | null;
+  issue_date: string;
+  expiry_date: string;
+  latest_shipment_date: string | null;
+  presentation_period: number | null;
+  status: string | null;
+}
+
+/** Subset of lc_shipments used by the calculations below. */
+export interface LCShipmentLike {
+  shipment_number: number;
+  shipment_date: string;
+  invoice_value: number;
+  docs_submitted_date: string | null;
+}
+
+export interface LCUtilisation {
+  shipped: number;
+  /** Balance against the face value (can be negative inside tolerance). */
+  remaining: number;
+  /** Maximum drawable amount including the +tolerance. */
+  ceiling: number;
+  /** Percent of face value shipped, 0–100+. */
+  pct: number;
+  overTolerance: boolean;
+}
+
+export function computeLCUtilisation(lc: Pick<LCTerms, "lc_value" | "tolerance_pct">, shipments: Pick<LCShipmentLike, "invoice_value">[]): LCUtilisation {
+  const shipped = shipments.reduce((s, sh) => s + (sh.invoice_value || 0), 0);
+  const ceiling = lc.lc_value * (1 + (lc.tolerance_pct ?? 0) / 100);
+  return {
+    shipped,
+    remaining: lc.lc_value - shipped,
+    ceiling,
+    pct: lc.lc_value > 0 ? Math.round((shipped / lc.lc_value) * 1000) / 10 : 0,
+    overTolerance: shipped > ceiling + 0.005,
+  };
+}
+
+/**
+ * Status implied by dates and shipments. Draft and closed are manual states
+ * and are never overridden.
+ */
+export function deriveLCStatus(lc: LCTerms, shipments: Pick<LCShipmentLike, "invoice_value">[], today: string): LCStatus {
+  if (lc.status === "draft" || lc.status === "closed") return lc.status;
+  const { shipped } = computeLCUtilisation(lc, shipments);
+  // Within -tolerance of the face value counts as fully drawn.
+  const floor = lc.lc_value * (1 - (lc.tolerance_pct ?? 0) / 100);
+  if (shipped > 0 && shipped >= floor) return "fully_shipped";
+  if (lc.expiry_date < today) return "expired";
+  if (shipped > 0) return "partially_shipped";
+  return "active";
+}
+
+/** Last day documents for a shipment can be presented to the bank. */
+export function presentationDeadline(lc: Pick<LCTerms, "presentation_period" | "expiry_date">, shipmentDate: string): string {
+  const period = lc.presentation_period ?? DEFAULT_PRESENTATION_PERIOD;
+  const byPeriod = format(addDays(parseISO(shipmentDate), period), "yyyy-MM-dd");
+  return byPeriod < lc.expiry_date ? byPeriod : lc.expiry_date;
+}
+
+export type LCWarningKind = "expiry" | "shipment_date" | "presentation" | "over_tolerance";
+
+export interface LCWarning {
+  kind: LCWarningKind;
+  severity: "critical" | "warning";
+  /** Days until the relevant date; negative when already passed. */
+  daysLeft: number | null;
+  message: string;
+}
+
+function plural(n: number) {
+  return `${n} day${Math.abs(n) === 1 ? "" : "s"}`;
+}
+
+/**
+ * Expiry, latest-shipment-date and presentation warnings for one LC.
+ * Closed, draft and fully shipped LCs only report tolerance breaches.
+ */
+export function getLCWarnings(
+  lc: LCTerms,
+  shipments: LCShipmentLike[],
+  today: string,
+  warnDays: LCWarningDays = DEFAULT_LC_WARNING_DAYS,
+): LCWarning[] {
+  const warnings: LCWarning[] = [];
+  const util = computeLCUtilisation(lc, shipments);
+  const status = deriveLCStatus(lc, shipments, today);
+  const todayDate = parseISO(today);
+
+  if (util.overTolerance) {
+    warnings.push({
+      kind: "over_tolerance",
+      severity: "critical",
+      daysLeft: null,
+      message: `Shipments exceed LC value plus ${lc.tolerance_pct ?? 0}% tolerance`,
+    });
+  }
+
+  if (status === "draft" || status === "closed" || status === "fully_shipped") return warnings;
+
+  const daysToExpiry = differenceInCalendarDays(parseISO(lc.expiry_date), todayDate);
+  if (daysToExpiry < 0) {
+    warnings.push({ kind: "expiry", severity: "critical", daysLeft: daysToExpiry, message: `LC expired ${plural(-daysToExpiry)} ago` });
+  } else if (daysToExpiry <= warnDays.expiry) {
+    warnings.push({
+      kind: "expiry",
+      severity: daysToExpiry <= 7 ? "critical" : "warning",
+      daysLeft: daysToExpiry,
+      message: daysToExpiry === 0 ? "LC expires today" : `LC expires in ${plural(daysToExpiry)}`,
+    });
+  }
+
+  if (lc.latest_shipment_date && util.remaining > 0) {
+    const daysToShip = differenceInCalendarDays(parseISO(lc.latest_shipment_date), todayDate);
+    if (daysToShip < 0) {
+      warnings.push({ kind: "shipment_date", severity: "critical", daysLeft: daysToShip, message: `Latest shipment date passed ${plural(-daysToShip)} ago` });
+    } else if (daysToShip <= warnDays.shipment) {
+      warnings.push({
+        kind: "shipment_date",
+        severity: daysToShip <= 3 ? "critical" : "warning",
+        daysLeft: daysToShip,
+        message: daysToShip === 0 ? "Last day to ship" : `Latest shipment date in ${plural(daysToShip)}`,
+      });
+    }
+  }
+
+  for (const sh of shipments) {
+    if (sh.docs_submitted_date) continue;
+    const deadline = presentationDeadline(lc, sh.shipment_date);
+    const daysToPresent = differenceInCalendarDays(parseISO(deadline), todayDate);
+    if (daysToPresent > warnDays.presentation) continue;
+    warnings.push({
+      kind: "presentation",
+      severity: daysToPresent <= 2 ? "critical" : "warning",
+      daysLeft: daysToPresent,
+      message: daysToPresent < 0
+        ? `Shipment #${sh.shipment_number}: presentation deadline missed`
+        : `Shipment #${sh.shipment_number}: present documents within ${plural(daysToPresent)}`,
+    });
+  }
+
+  return warnings;
+}
+
+/** Maps an lc_notification_settings row onto warning windows, keeping defaults for nulls. */
+export function warningDaysFromSettings(settings: {
+  lc_expiry_warning_days: number | null;
+  shipment_date_warning_days: number | null;
+  presentation_deadline_warning_days: number | null;
+} | null | undefined): LCWarningDays {
+  return {
+    expiry: settings?.lc_expiry_warning_days ?? DEFAULT_LC_WARNING_DAYS.expiry,
+    shipment: settings?.shipment_date_warning_days ?? DEFAULT_LC_WARNING_DAYS.shipment,
+    presentation: settings?.presentation_deadline_warning_days ?? DEFAULT_LC_WARNING_DAYS.presentation,
+  };
+}
+
+export function formatMoney(value: number, currency: string | null | undefined) {
+  return `${currency || "USD"} ${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
@@ -0,0 +1,128 @@
+import { addDays, format, parseISO } from "date-fns";
+import { isWorkingDay, type WorkingCalendar } from "./working-days";
+
+/**
+ * Style changeover ramp-up. A learning curve lists the share of peak output
+ * a line reaches on each working day after starting a new style, in percent
+ * (40/60/80/100 …). Days past the last step run at peak.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export interface LearningCurve {
+  id: string;
+  name: string;
+  steps: number[];
+  line_id: string | null;
+  product_category: string | null;
+  is_default: boolean;
+}
+
+/** Where a line stands on a curve: `daysIn` working days already sewn */
+export interface RampState {
+  steps: number[];
+  daysIn: number;
+}
+
+// Guard for the forward walk: about three years of days
+const MAX_RAMP_SCAN_DAYS = 1100;
+
+const normalize = (s: string | null | undefined) => (s ?? "").trim().toLowerCase();
+const toKey = (d: Date) => format(d, "yyyy-MM-dd");
+
+// ── Curves ─────────────────────────────────────────────────────────────
+
+/** The most specific curve: the line's own, then the product category's, then the default. */
+export function resolveCurve(
+  curves: LearningCurve[],
+  target: { lineId: string | null | undefined; category: string | null | undefined },
+): LearningCurve | null {
+  if (target.lineId) {
+    const byLine = curves.find((c) => c.line_id === target.lineId);
+    if (byLine) return byLine;
+  }
+  const category = normalize(target.category);
+  if (category) {
+    const byCategory = curves.find((c) => !c.line_id && normalize(c.product_category) === category);
+    if (byCategory) return byCategory;
+  }
+  return curves.find((c) => c.is_default) ?? null;
+}
+
+/** A line starting `next` after `previous` has to ramp up again. */
+export function isChangeover(previousStyle: string | null | undefined, nextStyle: string | null | undefined): boolean {
+  return !previousStyle || normalize(previousStyle) !== normalize(nextStyle);
+}
+
+/** Share of peak output on working day `day` (0-based) of a run. */
+export function rampFactor(steps: number[], day: number): number {
+  if (day < 0 || day >= steps.length) return 1;
+  return Math.min(1, Math.max(0, steps[day] / 100));
+}
+
+/** Working days before the line reaches peak. */
+export function rampDays(steps: number[]): number {
+  let n = 0;
+  while (n < steps.length && rampFactor(steps, n) < 1) n++;
+  return n;
+}
+
+/** Pieces lost to the ramp-up compared with sewing at `peak` from day one. */
+export function changeoverLoss(peak: number, steps: number[]): number {
+  let loss = 0;
+  for (let i = 0; i < rampDays(steps); i++) loss += peak * (1 - rampFactor(steps, i));
+  return Math.round(loss);
+}
+
+/** Average share of peak over ramp days `from`..`to - 1`; 1 for an empty range. */
+export function meanFactor(steps: number[], from: number, to: number): number {
+  if (to <= from) return 1;
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += rampFactor(steps, i);
+  return sum / (to - from);
+}
+
+// ── Projection ─────────────────────────────────────────────────────────
+
+/**
+ * The working day on which `qty` pieces are done, sewing from `from`
+ * (inclusive) at `peak` × the curve's share, `startDay` days into the curve.
+ * Null when nothing can be sewn.
+ */
+export function rampedFinishDate(
+  cal: WorkingCalendar,
+  from: string,
+  qty: number,
+  peak: number,
+  steps: number[],
+  startDay = 0,
+): string | null {
+  if (peak <= 0) return null;
+  if (qty <= 0) return from;
+  let left = qty;
+  let day = startDay;
+  let d = parseISO(from);
+  for (let i = 0; i < MAX_RAMP_SCAN_DAYS; i++, d = addDays(d, 1)) {
+    const key = toKey(d);
+    if (!isWorkingDay(cal, key)) continue;
+    // Round each day so 3 × 33.3 doesn't leave a phantom extra day
+    left -= Math.round(peak * rampFactor(steps, day) * 100) / 100;
+    day++;
+    if (left <= 0.001) return key;
+  }
+  return null;
+}
+
+/** The last working day of the ramp for a run starting on `from`, or null without one. */
+export function rampEndDate(cal: WorkingCalendar, from: string, steps: number[]): string | null {
+  const n = rampDays(steps);
+  if (n === 0) return null;
+  let seen = 0;
+  let d = parseISO(from);
+  for (let i = 0; i < MAX_RAMP_SCAN_DAYS; i++, d = addDays(d, 1)) {
+    const key = toKey(d);
+    if (!isWorkingDay(cal, key)) continue;
+    if (++seen === n) return key;
+  }
+  return null;
+}
@@ -0,0 +1,208 @@
+import { format, parseISO, subDays } from "date-fns";
+
+/**
+ * Sewing line WIP: pieces cutting has put into a line that the line has not
+ * yet sewn. Input comes from cutting submissions and output from sewing
+ * end-of-day submissions, per line and PO. `cutting_actuals.total_input` is
+ * the PO's running total across every line, so a line's input is the sum of
+ * `day_input` submitted against it. WIP is turned into days at the line's
+ * recent run rate and checked against the factory's limits, so a line about
+ * to run dry or one buried in cut panels stands out.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export type WipStatus = "starved" | "ok" | "overloaded" | "idle";
+
+export interface WipLimits {
+  /** Below this many days of WIP a line is about to run out of work */
+  minDays: number;
+  /** Above this many days of WIP a line is holding too many cut panels */
+  maxDays: number;
+}
+
+export interface CuttingInputRow {
+  line_id: string | null;
+  work_order_id: string;
+  production_date: string;
+  day_input: number | null;
+}
+
+export interface SewingOutputRow {
+  line_id: string;
+  work_order_id: string;
+  production_date: string;
+  good_today: number;
+  rework_today: number | null;
+  cumulative_good_total: number;
+}
+
+export interface POWip {
+  workOrderId: string;
+  input: number;
+  output: number;
+  /** Never negative; output reported ahead of input counts as none on the line */
+  wip: number;
+}
+
+export interface LineWip {
+  lineId: string;
+  input: number;
+  output: number;
+  wip: number;
+  /** Average pieces sewn per day over the line's recent output days */
+  runRate: number;
+  /** null when the line has no recent output to measure against */
+  daysOfWip: number | null;
+  status: WipStatus;
+  /** POs with pieces still on the line, largest first */
+  pos: POWip[];
+}
+
+export interface POWipTotal {
+  workOrderId: string;
+  input: number;
+  output: number;
+  wip: number;
+  lineIds: string[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────
+
+export const DEFAULT_WIP_LIMITS: WipLimits = { minDays: 0.5, maxDays: 3 };
+
+/** Output days averaged for a line's run rate */
+export const RUN_RATE_DAYS = 5;
+
+/** Output older than this is ignored for run rate, so a line that stopped sewing reads as idle */
+export const RUN_RATE_LOOKBACK_DAYS = 14;
+
+// ── Functions ──────────────────────────────────────────────────────────
+
+/** Factory limits, falling back to the defaults for unset or inverted values */
+export function resolveWipLimits(minDays: number | null | undefined, maxDays: number | null | undefined): WipLimits {
+  const min = minDays != null && minDays >= 0 ? minDays : DEFAULT_WIP_LIMITS.minDays;
+  const max = maxDays != null && maxDays > 0 ? maxDays : DEFAULT_WIP_LIMITS.maxDays;
+  return max > min ? { minDays: min, maxDays: max } : DEFAULT_WIP_LIMITS;
+}
+
+/** Average daily output over the most recent `days` dates on or after `since` the line produced */
+export function runRate(rows: SewingOutputRow[], since: string, days = RUN_RATE_DAYS): number {
+  const byDate = new Map<string, number>();
+  for (const r of rows) {
+    if (r.production_date < since) continue;
+    byDate.set(r.production_date, (byDate.get(r.production_date) ?? 0) + r.good_today + (r.rework_today ?? 0));
+  }
+  const recent = [...byDate.entries()]
+    .filter(([, qty]) => qty > 0)
+    .sort(([a], [b]) => b.localeCompare(a))
+    .slice(0, days);
+  if (recent.length === 0) return 0;
+  return recent.reduce((s, [, qty]) => s + qty, 0) / recent.length;
+}
+
+export function wipStatus(wip: number, daysOfWip: number | null, limits: WipLimits): WipStatus {
+  if (daysOfWip === null) return wip > 0 ? "ok" : "idle";
+  if (daysOfWip < limits.minDays) return "starved";
+  if (daysOfWip > limits.maxDays) return "overloaded";
+  return "ok";
+}
+
+/**
+ * WIP per line as of `asOf` (YYYY-MM-DD, inclusive). A line's output for a PO
+ * is its latest cumulative good total, matching what sewing end-of-day carries
+ * forward.
+ */
+export function computeLineWip(
+  inputs: CuttingInputRow[],
+  outputs: SewingOutputRow[],
+  limits: WipLimits,
+  asOf: string
+): LineWip[] {
+  const key = (lineId: string, woId: string) => `${lineId}|${woId}`;
+  const perPO = new Map<string, { lineId: string; workOrderId: string; input: number; output: number; outputDate: string }>();
+  const entry = (lineId: string, workOrderId: string) => {
+    const k = key(lineId, workOrderId);
+    let e = perPO.get(k);
+    if (!e) {
+      e = { lineId, workOrderId, input: 0, output: 0, outputDate: "" };
+      perPO.set(k, e);
+    }
+    return e;
+  };
+
+  for (const r of inputs) {
+    if (!r.line_id || r.production_date > asOf) continue;
+    entry(r.line_id, r.work_order_id).input += r.day_input ?? 0;
+  }
+
+  const outputsByLine = new Map<string, SewingOutputRow[]>();
+  for (const r of outputs) {
+    if (r.production_date > asOf) continue;
+    const e = entry(r.line_id, r.work_order_id);
+    if (r.production_date >= e.outputDate) {
+      e.output = r.cumulative_good_total;
+      e.outputDate = r.production_date;
+    }
+    const list = outputsByLine.get(r.line_id) ?? [];
+    list.push(r);
+    outputsByLine.set(r.line_id, list);
+  }
+
+  const lines = new Map<string, POWip[]>();
+  for (const e of perPO.values()) {
+    const list = lines.get(e.lineId) ?? [];
+    list.push({ workOrderId: e.workOrderId, input: e.input, output: e.output, wip: Math.max(0, e.input - e.output) });
+    lines.set(e.lineId, list);
+  }
+
+  const since = format(subDays(parseISO(asOf), RUN_RATE_LOOKBACK_DAYS), "yyyy-MM-dd");
+  const result: LineWip[] = [];
+  for (const [lineId, pos] of lines) {
+    const wip = pos.reduce((s, p) => s + p.wip, 0);
+    const rate = runRate(outputsByLine.get(lineId) ?? [], since);
+    const daysOfWip = rate > 0 ? wip / rate : null;
+    result.push({
+      lineId,
+      input: pos.reduce((s, p) => s + p.input, 0),
+      output: pos.reduce((s, p) => s + p.output, 0),
+      wip,
+      runRate: rate,
+      daysOfWip,
+      status: wipStatus(wip, daysOfWip, limits),
+      pos: pos.filter((p) => p.wip > 0).sort((a, b) => b.wip - a.wip),
+    });
+  }
+  return result.sort((a, b) => b.wip - a.wip);
+}
+
+/** WIP per PO summed over the lines it sits on, largest first */
+export function poWipTotals(lines: LineWip[]): POWipTotal[] {
+  const totals = new Map<string, POWipTotal>();
+  for (const line of lines) {
+    for (const p of line.pos) {
+      const t = totals.get(p.workOrderId) ?? { workOrderId: p.workOrderId, input: 0, output: 0, wip: 0, lineIds: [] };
+      t.input += p.input;
+      t.output += p.output;
+      t.wip += p.wip;
+      t.lineIds.push(line.lineId);
+      totals.set(p.workOrderId, t);
+    }
+  }
+  return [...totals.values()].sort((a, b) => b.wip - a.wip);
+}
+
+/** Lines outside the limits, worst first: starved by fewest days, overloaded by most */
+export function wipAlerts(lines: LineWip[]): LineWip[] {
+  const starved = lines.filter((l) => l.status === "starved").sort((a, b) => (a.daysOfWip ?? 0) - (b.daysOfWip ?? 0));
+  const overloaded = lines.filter((l) => l.status === "overloaded").sort((a, b) => (b.daysOfWip ?? 0) - (a.daysOfWip ?? 0));
+  return [...starved, ...overloaded];
+}
+
+/** "1.5 days", "<0.1 days" or "—" when the line has no run rate */
+export function formatWipDays(days: number | null): string {
+  if (days === null) return "—";
+  if (days > 0 && days < 0.1) return "<0.1 days";
+  const rounded = Math.round(days * 10) / 10;
+  return `${rounded} day${rounded === 1 ? "" : "s"}`;
+}
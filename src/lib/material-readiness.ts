@@ -0,0 +1,161 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { FabricLine } from "./cost-sheet";
+
+/**
+ * Material readiness for scheduled POs. What the store has received on a PO's
+ * bin card (`ttl_receive`) is compared with what the PO needs: a manually
+ * entered quantity when there is one, otherwise the fabric consumption on the
+ * PO's cost sheet. Bookings that start before their materials are in-house
+ * are flagged on the schedule and listed as shortages for the store.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export type MaterialStatus = "ready" | "partial" | "missing" | "unknown";
+
+export type RequirementSource = "manual" | "cost_sheet";
+
+export interface MaterialReadiness {
+  workOrderId: string;
+  received: number;
+  /** null when neither a manual quantity nor cost sheet consumption is known */
+  required: number | null;
+  source: RequirementSource | null;
+  /** Still to receive; 0 when ready or the requirement is unknown */
+  shortfall: number;
+  /** received / required, capped at 1; null without a requirement */
+  coverage: number | null;
+  status: MaterialStatus;
+}
+
+export interface BinCardReceipt {
+  ttl_receive: number;
+  transaction_date: string;
+  created_at: string | null;
+}
+
+export interface RequirementSheet {
+  status: string | null;
+  updated_at: string | null;
+  fabrics: Pick<FabricLine, "consumption_per_dozen" | "wastage_pct">[];
+}
+
+export interface MaterialBooking {
+  id: string;
+  work_order_id: string;
+  line_id: string;
+  start_date: string;
+  end_date: string;
+  status: string;
+}
+
+/** A scheduled PO at its earliest open booking */
+export interface ScheduledMaterial {
+  bookingId: string;
+  lineId: string;
+  startDate: string;
+  readiness: MaterialReadiness;
+}
+
+/** Days ahead the store is warned about bookings starting short of materials */
+export const MATERIAL_LOOKAHEAD_DAYS = 14;
+
+export const MATERIAL_STATUS_LABELS: Record<MaterialStatus, string> = {
+  ready: "In-house",
+  partial: "Partly received",
+  missing: "Not received",
+  unknown: "No requirement",
+};
+
+// ── Requirement ────────────────────────────────────────────────────────
+
+/** Fabric for `orderQty` pieces from per-dozen consumption plus wastage; null without consumption. */
+export function fabricRequirement(
+  fabrics: Pick<FabricLine, "consumption_per_dozen" | "wastage_pct">[],
+  orderQty: number,
+): number | null {
+  const withConsumption = fabrics.filter((f) => (f.consumption_per_dozen ?? 0) > 0);
+  if (withConsumption.length === 0 || orderQty <= 0) return null;
+  const total = withConsumption.reduce(
+    (sum, f) => sum + (f.consumption_per_dozen! * orderQty / 12) * (1 + (f.wastage_pct ?? 0) / 100),
+    0
+  );
+  return Math.round(total * 100) / 100;
+}
+
+/** The sheet a PO's requirement comes from: the latest approved one, else the latest. */
+export function requirementSheet<T extends RequirementSheet>(sheets: T[]): T | null {
+  const latest = (list: T[]) =>
+    list.reduce<T | null>((best, s) => (!best || (s.updated_at ?? "") > (best.updated_at ?? "") ? s : best), null);
+  return latest(sheets.filter((s) => s.status === "approved")) ?? latest(sheets);
+}
+
+/** Total received on a bin card: `ttl_receive` of its latest transaction. */
+export function receivedQty(transactions: BinCardReceipt[]): number {
+  let latest: BinCardReceipt | null = null;
+  for (const t of transactions) {
+    if (
+      !latest ||
+      t.transaction_date > latest.transaction_date ||
+      (t.transaction_date === latest.transaction_date && (t.created_at ?? "") > (latest.created_at ?? ""))
+    ) latest = t;
+  }
+  return latest?.ttl_receive ?? 0;
+}
+
+// ── Readiness ──────────────────────────────────────────────────────────
+
+export function materialReadiness(
+  workOrderId: string,
+  received: number,
+  manualRequired: number | null,
+  costSheetRequired: number | null,
+): MaterialReadiness {
+  const required = manualRequired ?? costSheetRequired;
+  const source: RequirementSource | null =
+    manualRequired != null ? "manual" : costSheetRequired != null ? "cost_sheet" : null;
+  if (required == null || required <= 0) {
+    return { workOrderId, received, required: null, source: null, shortfall: 0, coverage: null, status: "unknown" };
+  }
+  const shortfall = Math.max(0, Math.round((required - received) * 100) / 100);
+  const status: MaterialStatus = shortfall === 0 ? "ready" : received > 0 ? "partial" : "missing";
+  return { workOrderId, received, required, source, shortfall, coverage: Math.min(1, received / required), status };
+}
+
+export function isMaterialShort(readiness: MaterialReadiness | null | undefined): boolean {
+  return readiness?.status === "partial" || readiness?.status === "missing";
+}
+
+/** Readiness of every PO with an open booking, one per PO at its earliest booking, soonest first. */
+export function scheduledMaterials(
+  bookings: MaterialBooking[],
+  readiness: Map<string, MaterialReadiness>,
+  today: string,
+): ScheduledMaterial[] {
+  const byPO = new Map<string, ScheduledMaterial>();
+  for (const b of bookings) {
+    if (b.status === "completed" || b.end_date < today) continue;
+    const r = readiness.get(b.work_order_id);
+    if (!r) continue;
+    const current = byPO.get(b.work_order_id);
+    if (!current || b.start_date < current.startDate) {
+      byPO.set(b.work_order_id, { bookingId: b.id, lineId: b.line_id, startDate: b.start_date, readiness: r });
+    }
+  }
+  return Array.from(byPO.values()).sort(
+    (a, b) => a.startDate.localeCompare(b.startDate) || b.readiness.shortfall - a.readiness.shortfall
+  );
+}
+
+/** Scheduled POs still short of materials whose first booking runs or starts within `horizonDays`. */
+export function upcomingShortages(
+  bookings: MaterialBooking[],
+  readiness: Map<string, MaterialReadiness>,
+  today: string,
+  horizonDays = MATERIAL_LOOKAHEAD_DAYS,
+): ScheduledMaterial[] {
+  const horizon = format(addDays(parseISO(today), horizonDays), "yyyy-MM-dd");
+  return scheduledMaterials(bookings, readiness, today).filter(
+    (m) => m.startDate <= horizon && isMaterialShort(m.readiness)
+  );
+}
@@ -0,0 +1,264 @@
+/**
+ * Garment measurement spec sheets and point-of-measure (POM) checks. A spec
+ * sheet lists each point of measure with its target per size and a −/+
+ * tolerance; a check measures a few samples of one size against it. Specs
+ * are imported from the buyer's CSV, which usually has a description column,
+ * tolerance column(s) and one column per size.
+ */
+
+import { detectDelimiter, splitCsvRow } from "./csv";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export type MeasureUnit = "cm" | "inch";
+
+export const MEASURE_UNITS: MeasureUnit[] = ["cm", "inch"];
+
+export type MeasureStatus = "ok" | "over" | "under";
+
+export interface SpecPoint {
+  code: string;
+  name: string;
+  tol_minus: number;
+  tol_plus: number;
+  /** Target per size; sizes the buyer left blank are missing */
+  specs: Record<string, number>;
+}
+
+export interface ParsedSpecSheet {
+  sizes: string[];
+  points: SpecPoint[];
+  errors: string[];
+}
+
+/** One point of measure on a check: the spec for the checked size and a reading per sample. */
+export interface MeasuredPoint {
+  code: string;
+  name: string;
+  spec: number;
+  tol_minus: number;
+  tol_plus: number;
+  measured: (number | null)[];
+}
+
+export interface MeasurementSummary {
+  readings: number;
+  expected: number;
+  outOfTolerance: number;
+  /** Samples with at least one reading out of tolerance */
+  samplesOut: number;
+  /** Points out of tolerance on any sample, with the largest deviation seen */
+  pointsOut: { code: string; name: string; worst: number }[];
+  result: "pending" | "pass" | "fail";
+}
+
+export const MAX_SAMPLES = 10;
+
+// ── Values ─────────────────────────────────────────────────────────────
+
+const EPSILON = 1e-6;
+
+function round(n: number, dp = 3): number {
+  const f = 10 ** dp;
+  return Math.round(n * f) / f;
+}
+
+/**
+ * Reads a measurement as typed or exported: decimals with a point or comma,
+ * and inch fractions like "1/2" or "12 1/4". Returns null for anything else.
+ */
+export function parseMeasure(raw: string | null | undefined): number | null {
+  const s = (raw ?? "").trim().replace(/["”]$/, "").trim();
+  if (!s) return null;
+  const fraction = s.match(/^([+-])?(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+  if (fraction) {
+    const [, sign, whole, num, den] = fraction;
+    if (Number(den) === 0) return null;
+    const value = Number(whole ?? 0) + Number(num) / Number(den);
+    return round(sign === "-" ? -value : value, 4);
+  }
+  if (!/^[+-]?(\d+([.,]\d*)?|[.,]\d+)$/.test(s)) return null;
+  return Number(s.replace(",", "."));
+}
+
+/** Trims trailing zeros: 12.50 → "12.5" */
+export function formatMeasure(value: number | null | undefined): string {
+  if (value == null) return "—";
+  return String(round(value, 3));
+}
+
+/** Signed deviation from spec: "+0.5", "−1" */
+export function formatDeviation(dev: number): string {
+  const r = round(dev, 3);
+  if (r === 0) return "0";
+  return r > 0 ? `+${r}` : `−${Math.abs(r)}`;
+}
+
+export function measureStatus(value: number, point: Pick<MeasuredPoint, "spec" | "tol_minus" | "tol_plus">): MeasureStatus {
+  const dev = value - point.spec;
+  if (dev > point.tol_plus + EPSILON) return "over";
+  if (dev < -point.tol_minus - EPSILON) return "under";
+  return "ok";
+}
+
+// ── Checks ─────────────────────────────────────────────────────────────
+
+/** Spec-sheet points that have a target for `size`, ready to snapshot onto a check. */
+export function pointsForSize(points: SpecPoint[], size: string, sampleCount: number): MeasuredPoint[] {
+  return points
+    .filter((p) => p.specs[size] != null)
+    .map((p) => ({
+      code: p.code,
+      name: p.name,
+      spec: p.specs[size],
+      tol_minus: p.tol_minus,
+      tol_plus: p.tol_plus,
+      measured: Array.from({ length: sampleCount }, () => null),
+    }));
+}
+
+/**
+ * A check fails as soon as any reading is out of tolerance, and passes once
+ * every point has been measured on every sample without one.
+ */
+export function summarizeMeasurements(points: MeasuredPoint[], sampleCount: number): MeasurementSummary {
+  let readings = 0;
+  let outOfTolerance = 0;
+  const samplesOut = new Set<number>();
+  const pointsOut: MeasurementSummary["pointsOut"] = [];
+
+  for (const p of points) {
+    let worst: number | null = null;
+    for (let i = 0; i < sampleCount; i++) {
+      const v = p.measured[i];
+      if (v == null) continue;
+      readings += 1;
+      if (measureStatus(v, p) === "ok") continue;
+      outOfTolerance += 1;
+      samplesOut.add(i);
+      const dev = round(v - p.spec, 3);
+      if (worst === null || Math.abs(dev) > Math.abs(worst)) worst = dev;
+    }
+    if (worst !== null) pointsOut.push({ code: p.code, name: p.name, worst });
+  }
+
+  const expected = points.length * sampleCount;
+  return {
+    readings,
+    expected,
+    outOfTolerance,
+    samplesOut: samplesOut.size,
+    pointsOut,
+    result: outOfTolerance > 0 ? "fail" : readings >= expected && expected > 0 ? "pass" : "pending",
+  };
+}
+
+// ── CSV import ─────────────────────────────────────────────────────────
+
+const normalise = (h: string) => h.toLowerCase().replace(/\s+/g, " ").trim();
+
+const HEADER_ALIASES = {
+  code: ["code", "pom", "pom code", "pom #", "pom no", "ref", "#"],
+  name: ["description", "name", "point of measure", "measurement", "pom description", "point"],
+  tol_minus: ["tol-", "tol -", "tol minus", "minus tol", "-tol", "tolerance -", "tolerance minus", "tol (-)"],
+  tol_plus: ["tol+", "tol +", "tol plus", "plus tol", "+tol", "tolerance +", "tolerance plus", "tol (+)"],
+  tol: ["tol", "tolerance", "+/-", "tol +/-", "tol +-", "±", "tol ±"],
+};
+
+type HeaderKey = keyof typeof HEADER_ALIASES;
+
+function headerKey(cell: string): HeaderKey | null {
+  const h = normalise(cell);
+  for (const [key, aliases] of Object.entries(HEADER_ALIASES) as [HeaderKey, string[]][]) {
+    if (aliases.includes(h)) return key;
+  }
+  return null;
+}
+
+/**
+ * Spec sheet CSV: the header row names a description column and either one
+ * ± tolerance column or separate −/+ columns; every other titled column is a
+ * size. Rows above the header (buyer, style) are skipped.
+ */
+export function parseSpecCsv(text: string): ParsedSpecSheet {
+  const rows = text.split(/\r?\n/).filter((r) => r.trim());
+  const result: ParsedSpecSheet = { sizes: [], points: [], errors: [] };
+  if (rows.length === 0) {
+    result.errors.push("The file is empty.");
+    return result;
+  }
+
+  let delimiter: string = ",";
+  let headerIdx = -1;
+  let header: string[] = [];
+  for (let i = 0; i < Math.min(rows.length, 20); i++) {
+    const d = detectDelimiter(rows[i]);
+    const cells = splitCsvRow(rows[i], d);
+    const keys = cells.map(headerKey);
+    if (keys.includes("name") && (keys.includes("tol") || keys.includes("tol_minus") || keys.includes("tol_plus"))) {
+      delimiter = d;
+      headerIdx = i;
+      header = cells;
+      break;
+    }
+  }
+  if (headerIdx < 0) {
+    result.errors.push("No header row found. It needs a description column and a tolerance column.");
+    return result;
+  }
+
+  const cols: Partial<Record<HeaderKey, number>> = {};
+  const sizeCols: { size: string; idx: number }[] = [];
+  header.forEach((cell, idx) => {
+    const key = headerKey(cell);
+    if (key && cols[key] == null) cols[key] = idx;
+    else if (!key && cell.trim()) sizeCols.push({ size: cell.trim(), idx });
+  });
+  if (sizeCols.length === 0) {
+    result.errors.push("No size columns found after the tolerance columns.");
+    return result;
+  }
+  result.sizes = sizeCols.map((c) => c.size);
+
+  const seen = new Set<string>();
+  for (let i = headerIdx + 1; i < rows.length; i++) {
+    const cells = splitCsvRow(rows[i], delimiter);
+    const cell = (key: HeaderKey) => (cols[key] != null ? cells[cols[key]!] : undefined);
+    const name = cell("name")?.trim();
+    if (!name) continue;
+    const rowNo = i + 1;
+
+    const both = parseMeasure(cell("tol"));
+    const minus = parseMeasure(cell("tol_minus"));
+    const plus = parseMeasure(cell("tol_plus"));
+    const tolMinus = minus != null ? Math.abs(minus) : both ?? plus;
+    const tolPlus = plus != null ? Math.abs(plus) : both ?? (minus != null ? Math.abs(minus) : null);
+    if (tolMinus == null || tolPlus == null) {
+      result.errors.push(`Row ${rowNo} (${name}): no readable tolerance.`);
+      continue;
+    }
+
+    const specs: Record<string, number> = {};
+    for (const { size, idx } of sizeCols) {
+      const raw = cells[idx];
+      if (!raw?.trim()) continue;
+      const value = parseMeasure(raw);
+      if (value == null) result.errors.push(`Row ${rowNo} (${name}): "${raw}" is not a measurement for ${size}.`);
+      else specs[size] = value;
+    }
+    if (Object.keys(specs).length === 0) {
+      result.errors.push(`Row ${rowNo} (${name}): no size has a measurement.`);
+      continue;
+    }
+
+    let code = cell("code")?.trim() || String(result.points.length + 1);
+    if (seen.has(code)) code = `${code}-${rowNo}`;
+    seen.add(code);
+    result.points.push({ code, name, tol_minus: Math.abs(tolMinus), tol_plus: Math.abs(tolPlus), specs });
+  }
+
+  if (result.points.length === 0 && result.errors.length === 0) {
+    result.errors.push("No points of measure found under the header row.");
+  }
+  return result;
+}
@@ -0,0 +1,94 @@
+/**
+ * Offline replay conflict helpers
+ * Natural keys for the daily forms, plus diff/merge of a queued row against
+ * the row that reached the server first.
+ */
+
+/**
+ * Columns that identify "the same submission" for forms whose tables carry a
+ * UNIQUE constraint. Replays of these forms look up the server row by key and
+ * upsert on it instead of inserting blindly.
+ */
+export const NATURAL_KEYS: Record<string, string[]> = {
+  sewing_targets: ['factory_id', 'production_date', 'line_id', 'work_order_id'],
+  sewing_actuals: ['factory_id', 'production_date', 'line_id', 'work_order_id'],
+  finishing_targets: ['factory_id', 'production_date', 'line_id', 'work_order_id'],
+  finishing_actuals: ['factory_id', 'production_date', 'line_id', 'work_order_id'],
+  cutting_targets: ['factory_id', 'production_date', 'cutting_section_id', 'line_id', 'work_order_id'],
+  cutting_actuals: ['factory_id', 'production_date', 'cutting_section_id', 'line_id', 'work_order_id'],
+};
+
+/** Server-managed columns that never count as a difference */
+const SYSTEM_FIELDS = new Set(['id', 'created_at', 'updated_at', 'submitted_at']);
+
+export interface FieldDiff {
+  field: string;
+  queued: unknown;
+  server: unknown;
+}
+
+export type MergeChoice = 'queued' | 'server';
+
+/**
+ * The natural-key filter for a payload, or null when the table has no key or
+ * a key column is empty (NULLs never collide under a UNIQUE constraint).
+ */
+export function naturalKeyFilter(
+  tableName: string,
+  payload: Record<string, unknown>
+): Record<string, string> | null {
+  const keys = NATURAL_KEYS[tableName];
+  if (!keys) return null;
+
+  const filter: Record<string, string> = {};
+  for (const key of keys) {
+    const value = payload[key];
+    if (value === null || value === undefined || value === '') return null;
+    filter[key] = String(value);
+  }
+  return filter;
+}
+
+/** `onConflict` column list for a keyed table */
+export function conflictTarget(tableName: string): string | null {
+  return NATURAL_KEYS[tableName]?.join(',') ?? null;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if ((a === null || a === undefined || a === '') && (b === null || b === undefined || b === '')) return true;
+  if (typeof a === 'number' || typeof b === 'number') {
+    // numeric columns come back as numbers or numeric strings
+    return a !== null && b !== null && a !== '' && b !== '' && Number(a) === Number(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Fields the queued payload sets to something different from the server row.
+ * Only fields present in the payload are compared; server-only columns and
+ * system timestamps are ignored.
+ */
+export function diffFields(queued: Record<string, unknown>, server: Record<string, unknown>): FieldDiff[] {
+  return Object.keys(queued)
+    .filter((field) => !SYSTEM_FIELDS.has(field) && !sameValue(queued[field], server[field]))
+    .map((field) => ({ field, queued: queued[field], server: server[field] }));
+}
+
+/**
+ * Build the row to write for a merge: the queued payload, with any field the
+ * user chose to keep from the server taken from the server row instead.
+ */
+export function mergeRows(
+  queued: Record<string, unknown>,
+  server: Record<string, unknown>,
+  choices: Record<string, MergeChoice>
+): Record<string, unknown> {
+  const merged = { ...queued };
+  for (const [field, choice] of Object.entries(choices)) {
+    if (choice === 'server' && !SYSTEM_FIELDS.has(field)) {
+      merged[field] = server[field];
+    }
+  }
+  return merged;
+}
@@ -2,14 +2,33 @@
  * Offline Queue Manager
  * Queues form submissions when offline and syncs when online
  * Supports all form types: sewing, cutting, finishing, storage
+ *
+ * The queue lives in IndexedDB (see offline-store.ts) so photo blobs can be
+ * queued alongside their rows. Photos are uploaded before the row is written;
+ * forms with a natural key are upserted, and a queued row that disagrees with
+ * a row already on the server is parked as a conflict for the user to review.
  */
 
 import { supabase } from '@/integrations/supabase/client';
-
-const QUEUE_KEY = 'pp_offline_submission_queue';
+import type { Database, TablesInsert } from '@/integrations/supabase/types';
+import * as store from '@/lib/offline-store';
+import {
+  conflictTarget,
+  diffFields,
+  mergeRows,
+  naturalKeyFilter,
+  type MergeChoice,
+} from '@/lib/offline-conflicts';
+
+const LEGACY_QUEUE_KEY = 'pp_offline_submission_queue';
 const SYNC_TAG = 'sync-submissions';
 const LOCK_KEY = 'pp_offline_queue_lock';
 const LOCK_TTL_MS = 30_000; // 30 seconds
+const QUEUE_EVENT = 'offline-queue-updated';
+const QUEUE_CHANNEL = 'pp_offline_queue';
+
+/** Public bucket for photos attached to production updates */
+export const PRODUCTION_PHOTOS_BUCKET = 'production-photos';
 
 // Unique ID for this tab instance — used for lock ownership
 const TAB_ID = `${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
@@ -49,84 +68,275 @@ function releaseLock(): void {
   }
 }
 
-export type FormType = 
-  | 'sewing_targets' 
-  | 'sewing_actuals' 
-  | 'finishing_targets' 
+export type FormType =
+  | 'sewing_targets'
+  | 'sewing_actuals'
+  | 'finishing_targets'
   | 'finishing_actuals'
   | 'finishing_daily_sheets'
   | 'finishing_hourly_logs'
-  | 'cutting_targets' 
+  | 'cutting_targets'
   | 'cutting_actuals'
   | 'storage_bin_cards'
   | 'production_updates_sewing'
+  | 'production_updates_finishing'
+  | 'qc_photos'
+  | 'cut_lay_results';
+
+/** Tables a queued submission can be written to */
+export type QueuedTable =
+  | 'sewing_targets'
+  | 'sewing_actuals'
+  | 'finishing_targets'
+  | 'finishing_actuals'
+  | 'cutting_targets'
+  | 'cutting_actuals'
+  | 'storage_bin_card_transactions'
+  | 'production_updates_sewing'
   | 'production_updates_finishing';
 
+/** RPCs a queued submission can be replayed as */
+export type QueuedRpc = 'qc_add_photos' | 'record_cut_lay_results';
+
+export type QueuedRpcArgs<R extends QueuedRpc> = Database['public']['Functions'][R]['Args'];
+
+export type SubmissionStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+/** A queued photo; the blob itself lives in the `blobs` store */
+export interface QueuedAttachment {
+  blobId: string;
+  bucket: string;
+  path: string;
+  /** Array column the public URL is appended to, e.g. `photo_urls` */
+  field: string;
+  /** Set once the upload succeeded so retries don't upload twice */
+  uploadedUrl?: string;
+}
+
+export interface SyncAttempt {
+  at: number;
+  error: string | null;
+}
+
 export interface QueuedSubmission {
   id: string;
   formType: FormType;
-  tableName: string;
+  /** The RPC's name when `rpc` is set */
+  tableName: QueuedTable | QueuedRpc;
   payload: Record<string, unknown>;
   factoryId: string;
   userId: string;
   timestamp: number;
   retryCount: number;
   maxRetries: number;
-  status: 'pending' | 'syncing' | 'failed';
+  status: SubmissionStatus;
   errorMessage?: string;
+  attempts: SyncAttempt[];
+  attachments: QueuedAttachment[];
+  /** Replayed as a call to this RPC, with `payload` as its arguments, instead of a row write */
+  rpc?: QueuedRpc;
+  /** The row that reached the server first, when status is 'conflict' */
+  conflict?: {
+    serverRow: Record<string, unknown>;
+    detectedAt: number;
+  };
 }
 
 export interface SyncResult {
   successful: string[];
   failed: { id: string; error: string }[];
+  conflicts: string[];
+}
+
+export interface AttachmentInput {
+  field: string;
+  bucket: string;
+  files: File[];
+}
+
+export type ConflictResolution = 'overwrite' | 'merge' | 'discard';
+
+// ── Change notifications ────────────────────────────────────────────────
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(QUEUE_CHANNEL);
+  }
+  return channel;
+}
+
+function notifyQueueChanged(): void {
+  window.dispatchEvent(new CustomEvent(QUEUE_EVENT));
+  // IndexedDB has no storage event — tell other tabs ourselves
+  getChannel()?.postMessage('updated');
 }
 
 /**
- * Get all queued submissions
+ * Subscribe to queue changes from this tab and from other tabs.
  */
-export function getQueuedSubmissions(): QueuedSubmission[] {
+export function subscribeToQueue(onChange: () => void): () => void {
+  const bc = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(QUEUE_CHANNEL) : null;
+  window.addEventListener(QUEUE_EVENT, onChange);
+  bc?.addEventListener('message', onChange);
+  return () => {
+    window.removeEventListener(QUEUE_EVENT, onChange);
+    bc?.close();
+  };
+}
+
+// ── Storage ─────────────────────────────────────────────────────────────
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Move a queue left in localStorage by older builds into IndexedDB, once.
+ * The legacy key is only removed after every submission has been written;
+ * if anything fails it stays put and the next read tries again (puts are
+ * keyed by id, so a partial earlier attempt is simply overwritten).
+ */
+function migrateLegacyQueue(): Promise<void> {
+  if (!migration) {
+    migration = (async () => {
+      const raw = localStorage.getItem(LEGACY_QUEUE_KEY);
+      if (!raw) return;
+      try {
+        const legacy = JSON.parse(raw) as Omit<QueuedSubmission, 'attempts' | 'attachments'>[];
+        for (const s of legacy) {
+          await store.put<QueuedSubmission>('submissions', {
+            ...s,
+            status: s.status === 'syncing' ? 'pending' : s.status,
+            attempts: [],
+            attachments: [],
+          });
+        }
+        localStorage.removeItem(LEGACY_QUEUE_KEY);
+      } catch (err) {
+        console.warn('[offline-queue] Could not migrate legacy queue, will retry:', err);
+        migration = null;
+      }
+    })();
+  }
+  return migration;
+}
+
+/**
+ * Get all queued submissions, oldest first
+ */
+export async function getQueuedSubmissions(): Promise<QueuedSubmission[]> {
   try {
-    const data = localStorage.getItem(QUEUE_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch {
+    await migrateLegacyQueue();
+    const all = await store.getAll<QueuedSubmission>('submissions');
+    return all.sort((a, b) => a.timestamp - b.timestamp);
+  } catch (err) {
+    console.warn('[offline-queue] Could not read queue:', err);
     return [];
   }
 }
 
+export async function getSubmission(id: string): Promise<QueuedSubmission | undefined> {
+  await migrateLegacyQueue();
+  return store.getOne<QueuedSubmission>('submissions', id);
+}
+
+async function updateSubmission(id: string, patch: Partial<QueuedSubmission>): Promise<QueuedSubmission | undefined> {
+  const current = await store.getOne<QueuedSubmission>('submissions', id);
+  if (!current) return undefined;
+  const next = { ...current, ...patch };
+  await store.put('submissions', next);
+  notifyQueueChanged();
+  return next;
+}
+
 /**
- * Save queue to localStorage
+ * Storage path for a queued or direct photo upload. Keyed by submission id so
+ * a retried upload overwrites its own object instead of creating another.
  */
-function saveQueue(queue: QueuedSubmission[]): void {
-  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+export function attachmentPath(factoryId: string, submissionId: string, field: string, index: number, file: File): string {
+  const ext = file.name.split('.').pop() || 'jpg';
+  return `${factoryId}/${submissionId}/${field}-${index}.${ext}`;
+}
+
+/**
+ * Upload one photo and return its public URL
+ */
+export async function uploadBlob(bucket: string, path: string, blob: Blob): Promise<string> {
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, blob, { upsert: true, contentType: blob.type || undefined });
+  if (error) throw new Error(`Photo upload failed: ${error.message}`);
+  return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+}
+
+export function newSubmissionId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
 /**
  * Add a submission to the offline queue
  */
-export function queueSubmission(
+export async function queueSubmission(
   formType: FormType,
-  tableName: string,
+  tableName: QueuedTable,
   payload: Record<string, unknown>,
   factoryId: string,
-  userId: string
-): string {
-  const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  userId: string,
+  attachmentInputs: AttachmentInput[] = [],
+  id: string = newSubmissionId()
+): Promise<string> {
+  return enqueue({ formType, tableName, payload, factoryId, userId }, attachmentInputs, id);
+}
+
+/**
+ * Add an RPC call to the offline queue, e.g. appending photos to a row that
+ * already exists. Photo URLs are appended to `payload[field]` before the
+ * call, as they are for row writes.
+ */
+export async function queueRpcSubmission<R extends QueuedRpc>(
+  formType: FormType,
+  rpc: R,
+  payload: QueuedRpcArgs<R>,
+  factoryId: string,
+  userId: string,
+  attachmentInputs: AttachmentInput[] = [],
+  id: string = newSubmissionId()
+): Promise<string> {
+  return enqueue({ formType, tableName: rpc, rpc, payload, factoryId, userId }, attachmentInputs, id);
+}
+
+async function enqueue(
+  fields: Pick<QueuedSubmission, 'formType' | 'tableName' | 'payload' | 'factoryId' | 'userId' | 'rpc'>,
+  attachmentInputs: AttachmentInput[],
+  id: string
+): Promise<string> {
+  const { factoryId } = fields;
+  const attachments: QueuedAttachment[] = [];
+  for (const input of attachmentInputs) {
+    for (const [index, file] of input.files.entries()) {
+      const blobId = `${id}-${input.field}-${index}`;
+      await store.put<store.StoredBlob>('blobs', { id: blobId, blob: file, name: file.name, type: file.type });
+      attachments.push({
+        blobId,
+        bucket: input.bucket,
+        path: attachmentPath(factoryId, id, input.field, index, file),
+        field: input.field,
+      });
+    }
+  }
+
   const submission: QueuedSubmission = {
     id,
-    formType,
-    tableName,
-    payload,
-    factoryId,
-    userId,
+    ...fields,
     timestamp: Date.now(),
     retryCount: 0,
     maxRetries: 5,
     status: 'pending',
+    attempts: [],
+    attachments,
   };
 
-  const queue = getQueuedSubmissions();
-  queue.push(submission);
-  saveQueue(queue);
+  await store.put('submissions', submission);
 
   // Request background sync if available (PWA)
   if ('serviceWorker' in navigator && 'sync' in ServiceWorkerRegistration.prototype) {
@@ -136,72 +346,116 @@ export function queueSubmission(
     }).catch(console.warn);
   }
 
-  // Dispatch custom event for UI updates
-  window.dispatchEvent(new CustomEvent('offline-queue-updated', { detail: { count: queue.length } }));
+  notifyQueueChanged();
 
   return id;
 }
 
 /**
- * Remove a submission from the queue
+ * Remove a submission (and its queued photos) from the queue
  */
-export function removeFromQueue(id: string): void {
-  const queue = getQueuedSubmissions().filter((s) => s.id !== id);
-  saveQueue(queue);
-  window.dispatchEvent(new CustomEvent('offline-queue-updated', { detail: { count: queue.length } }));
+export async function removeFromQueue(id: string): Promise<void> {
+  const submission = await store.getOne<QueuedSubmission>('submissions', id);
+  for (const a of submission?.attachments ?? []) {
+    await store.remove('blobs', a.blobId);
+  }
+  await store.remove('submissions', id);
+  notifyQueueChanged();
 }
 
 /**
  * Update submission status
  */
-export function updateSubmissionStatus(id: string, status: QueuedSubmission['status'], errorMessage?: string): void {
-  const queue = getQueuedSubmissions();
-  const index = queue.findIndex((s) => s.id === id);
-  if (index !== -1) {
-    queue[index].status = status;
-    if (errorMessage) {
-      queue[index].errorMessage = errorMessage;
-    }
-    saveQueue(queue);
-  }
+export async function updateSubmissionStatus(id: string, status: SubmissionStatus, errorMessage?: string): Promise<void> {
+  await updateSubmission(id, errorMessage ? { status, errorMessage } : { status });
 }
 
+// ── Replay ──────────────────────────────────────────────────────────────
+
+type ReplayOutcome =
+  | { outcome: 'synced' }
+  | { outcome: 'conflict'; serverRow: Record<string, unknown> }
+  | { outcome: 'error'; error: string };
+
 /**
- * Update retry count for a submission
+ * Upload any photos not yet uploaded and return the payload with their URLs
+ * appended to the target columns.
  */
-export function incrementRetry(id: string): void {
-  const queue = getQueuedSubmissions();
-  const index = queue.findIndex((s) => s.id === id);
-  if (index !== -1) {
-    queue[index].retryCount++;
-    saveQueue(queue);
+async function uploadAttachments(submission: QueuedSubmission): Promise<Record<string, unknown>> {
+  const payload = { ...submission.payload };
+  const attachments = [...submission.attachments];
+
+  for (const [i, a] of attachments.entries()) {
+    if (!a.uploadedUrl) {
+      const stored = await store.getOne<store.StoredBlob>('blobs', a.blobId);
+      if (!stored) throw new Error('Queued photo is missing from this device');
+      attachments[i] = { ...a, uploadedUrl: await uploadBlob(a.bucket, a.path, stored.blob) };
+      await updateSubmission(submission.id, { attachments });
+    }
+    const existing = Array.isArray(payload[a.field]) ? (payload[a.field] as unknown[]) : [];
+    payload[a.field] = [...existing, attachments[i].uploadedUrl];
   }
+
+  return payload;
 }
 
 /**
- * Process a single submission via Supabase
+ * Write a queued row to the server.
+ * `overwrite` skips the conflict check and upserts over whatever is there.
  */
-async function processSubmission(submission: QueuedSubmission): Promise<{ success: boolean; error?: string }> {
+async function replaySubmission(
+  submission: QueuedSubmission,
+  mode: 'insert' | 'overwrite',
+  payloadOverride?: Record<string, unknown>
+): Promise<ReplayOutcome> {
   try {
-    updateSubmissionStatus(submission.id, 'syncing');
+    const payload = payloadOverride ?? (await uploadAttachments(submission));
 
-    // Insert into the appropriate table using type assertion
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { error } = await supabase
-      .from(submission.tableName as any)
-      .insert(submission.payload as any);
+    if (submission.rpc) {
+      const { error } = await supabase.rpc(submission.rpc, payload as QueuedRpcArgs<typeof submission.rpc>);
+      return error ? { outcome: 'error', error: error.message } : { outcome: 'synced' };
+    }
 
-    if (error) {
-      // Check if it's a duplicate error (already synced)
-      if (error.code === '23505') {
-        return { success: true }; // Treat as success - already exists
+    // RPC submissions were replayed above, so this is a row write
+    const tableName = submission.tableName as QueuedTable;
+    const row = payload as TablesInsert<QueuedTable>;
+    const key = naturalKeyFilter(tableName, payload);
+    const onConflict = conflictTarget(tableName);
+
+    const table = supabase.from(tableName);
+
+    if (key && onConflict) {
+      if (mode === 'insert') {
+        const { data: serverRow, error: lookupError } = await supabase
+          .from(tableName)
+          .select('*')
+          .match(key)
+          .maybeSingle();
+        if (lookupError) return { outcome: 'error', error: lookupError.message };
+
+        if (serverRow) {
+          const row = serverRow as unknown as Record<string, unknown>;
+          // Same values already on the server (e.g. an earlier replay whose
+          // response was lost) — nothing to do
+          if (diffFields(payload, row).length === 0) return { outcome: 'synced' };
+          return { outcome: 'conflict', serverRow: row };
+        }
       }
-      return { success: false, error: error.message };
+
+      const { error } = await table.upsert(row, { onConflict });
+      return error ? { outcome: 'error', error: error.message } : { outcome: 'synced' };
     }
 
-    return { success: true };
+    const { error } = await table.insert(row);
+    if (error) {
+      return {
+        outcome: 'error',
+        error: error.code === '23505' ? `A matching record already exists: ${error.message}` : error.message,
+      };
+    }
+    return { outcome: 'synced' };
   } catch (err) {
-    return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+    return { outcome: 'error', error: err instanceof Error ? err.message : 'Unknown error' };
   }
 }
 
@@ -209,7 +463,7 @@ async function processSubmission(submission: QueuedSubmission): Promise<{ succes
  * Process the entire offline queue
  */
 export async function processQueue(): Promise<SyncResult> {
-  const result: SyncResult = { successful: [], failed: [] };
+  const result: SyncResult = { successful: [], failed: [], conflicts: [] };
 
   // Check if we're online
   if (!navigator.onLine) {
@@ -223,7 +477,7 @@ export async function processQueue(): Promise<SyncResult> {
   }
 
   try {
-    const queue = getQueuedSubmissions();
+    const queue = (await getQueuedSubmissions()).filter((s) => s.status === 'pending' || s.status === 'syncing');
 
     // Check if user is authenticated
     const { data: sessionData } = await supabase.auth.getSession();
@@ -233,17 +487,39 @@ export async function processQueue(): Promise<SyncResult> {
     }
 
     for (const submission of queue) {
-      const { success, error } = await processSubmission(submission);
+      await updateSubmissionStatus(submission.id, 'syncing');
+      const replay = await replaySubmission(submission, 'insert');
+      // Re-read: the attachment upload step may have updated the record
+      const latest = (await getSubmission(submission.id)) ?? submission;
 
-      if (success) {
-        removeFromQueue(submission.id);
+      if (replay.outcome === 'synced') {
+        await removeFromQueue(submission.id);
         result.successful.push(submission.id);
-      } else if (submission.retryCount >= submission.maxRetries) {
-        updateSubmissionStatus(submission.id, 'failed', error);
-        result.failed.push({ id: submission.id, error: error || 'Max retries exceeded' });
+        continue;
+      }
+
+      if (replay.outcome === 'conflict') {
+        await updateSubmission(submission.id, {
+          status: 'conflict',
+          errorMessage: 'A different record for this line and day is already on the server',
+          attempts: [...latest.attempts, { at: Date.now(), error: 'Conflict with server record' }],
+          conflict: { serverRow: replay.serverRow, detectedAt: Date.now() },
+        });
+        result.conflicts.push(submission.id);
+        continue;
+      }
+
+      const attempts = [...latest.attempts, { at: Date.now(), error: replay.error }];
+      if (latest.retryCount >= latest.maxRetries) {
+        await updateSubmission(submission.id, { status: 'failed', errorMessage: replay.error, attempts });
+        result.failed.push({ id: submission.id, error: replay.error || 'Max retries exceeded' });
       } else {
-        incrementRetry(submission.id);
-        updateSubmissionStatus(submission.id, 'pending', error);
+        await updateSubmission(submission.id, {
+          status: 'pending',
+          errorMessage: replay.error,
+          retryCount: latest.retryCount + 1,
+          attempts,
+        });
       }
     }
 
@@ -254,56 +530,105 @@ export async function processQueue(): Promise<SyncResult> {
 }
 
 /**
- * Check if there are pending submissions
+ * Resolve a conflicted submission: write the queued row over the server row,
+ * write a field-by-field merge, or drop the queued row.
  */
-export function hasPendingSubmissions(): boolean {
-  return getQueuedSubmissions().filter(s => s.status === 'pending' || s.status === 'syncing').length > 0;
+export async function resolveConflict(
+  id: string,
+  resolution: ConflictResolution,
+  choices: Record<string, MergeChoice> = {}
+): Promise<{ success: boolean; error?: string }> {
+  const submission = await getSubmission(id);
+  if (!submission) return { success: false, error: 'Submission no longer queued' };
+
+  if (resolution === 'discard') {
+    await removeFromQueue(id);
+    return { success: true };
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = await uploadAttachments(submission);
+  } catch (err) {
+    return { success: false, error: err instanceof Error ? err.message : 'Unknown error' };
+  }
+  if (resolution === 'merge' && submission.conflict) {
+    payload = mergeRows(payload, submission.conflict.serverRow, choices);
+  }
+
+  const replay = await replaySubmission(submission, 'overwrite', payload);
+  if (replay.outcome === 'synced') {
+    await removeFromQueue(id);
+    return { success: true };
+  }
+
+  const error = replay.outcome === 'error' ? replay.error : 'Conflict with server record';
+  const latest = (await getSubmission(id)) ?? submission;
+  await updateSubmission(id, {
+    errorMessage: error,
+    attempts: [...latest.attempts, { at: Date.now(), error }],
+  });
+  return { success: false, error };
 }
 
-/**
- * Get count of pending submissions
- */
-export function getPendingCount(): number {
-  return getQueuedSubmissions().filter(s => s.status === 'pending' || s.status === 'syncing').length;
+// ── Queue queries & maintenance ─────────────────────────────────────────
+
+export interface QueueCounts {
+  pending: number;
+  failed: number;
+  conflict: number;
+}
+
+export async function getQueueCounts(): Promise<QueueCounts> {
+  const queue = await getQueuedSubmissions();
+  return {
+    pending: queue.filter((s) => s.status === 'pending' || s.status === 'syncing').length,
+    failed: queue.filter((s) => s.status === 'failed').length,
+    conflict: queue.filter((s) => s.status === 'conflict').length,
+  };
 }
 
 /**
- * Get count of failed submissions
+ * Check if there are pending submissions
  */
-export function getFailedCount(): number {
-  return getQueuedSubmissions().filter(s => s.status === 'failed').length;
+export async function hasPendingSubmissions(): Promise<boolean> {
+  return (await getQueueCounts()).pending > 0;
 }
 
 /**
  * Clear all queued submissions
  */
-export function clearQueue(): void {
-  localStorage.removeItem(QUEUE_KEY);
-  window.dispatchEvent(new CustomEvent('offline-queue-updated', { detail: { count: 0 } }));
+export async function clearQueue(): Promise<void> {
+  await store.clear('submissions');
+  await store.clear('blobs');
+  notifyQueueChanged();
 }
 
 /**
  * Clear only failed submissions
  */
-export function clearFailedSubmissions(): void {
-  const queue = getQueuedSubmissions().filter(s => s.status !== 'failed');
-  saveQueue(queue);
-  window.dispatchEvent(new CustomEvent('offline-queue-updated', { detail: { count: queue.length } }));
+export async function clearFailedSubmissions(): Promise<void> {
+  const failed = (await getQueuedSubmissions()).filter((s) => s.status === 'failed');
+  for (const s of failed) {
+    await removeFromQueue(s.id);
+  }
+}
+
+/**
+ * Put one failed submission back in line
+ */
+export async function retrySubmission(id: string): Promise<void> {
+  await updateSubmission(id, { status: 'pending', retryCount: 0, errorMessage: undefined });
 }
 
 /**
  * Retry failed submissions
  */
-export function retryFailedSubmissions(): void {
-  const queue = getQueuedSubmissions();
-  queue.forEach(s => {
-    if (s.status === 'failed') {
-      s.status = 'pending';
-      s.retryCount = 0;
-      s.errorMessage = undefined;
-    }
-  });
-  saveQueue(queue);
+export async function retryFailedSubmissions(): Promise<void> {
+  const failed = (await getQueuedSubmissions()).filter((s) => s.status === 'failed');
+  for (const s of failed) {
+    await retrySubmission(s.id);
+  }
 }
 
 /**
@@ -311,7 +636,7 @@ export function retryFailedSubmissions(): void {
  */
 export function setupOnlineSync(onSync: (result: SyncResult) => void): () => void {
   const handleOnline = async () => {
-    if (hasPendingSubmissions()) {
+    if (await hasPendingSubmissions()) {
       const result = await processQueue();
       onSync(result);
     }
@@ -321,7 +646,7 @@ export function setupOnlineSync(onSync: (result: SyncResult) => void): () => voi
   window.addEventListener('online', handleOnline);
 
   // Also check on load if online
-  if (navigator.onLine && hasPendingSubmissions()) {
+  if (navigator.onLine) {
     handleOnline();
   }
 
@@ -333,6 +658,6 @@ export function setupOnlineSync(onSync: (result: SyncResult) => void): () => voi
 /**
  * Get submissions by form type
  */
-export function getSubmissionsByType(formType: FormType): QueuedSubmission[] {
-  return getQueuedSubmissions().filter(s => s.formType === formType);
+export async function getSubmissionsByType(formType: FormType): Promise<QueuedSubmission[]> {
+  return (await getQueuedSubmissions()).filter(s => s.formType === formType);
 }
@@ -0,0 +1,83 @@
+/**
+ * Offline Store
+ * Minimal promise wrapper over IndexedDB for the offline submission queue.
+ * `submissions` holds queued rows, `blobs` holds photos waiting to upload.
+ */
+
+const DB_NAME = 'pp_offline';
+const DB_VERSION = 1;
+
+export type OfflineStoreName = 'submissions' | 'blobs';
+
+export interface StoredBlob {
+  id: string;
+  blob: Blob;
+  name: string;
+  type: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('submissions')) {
+        db.createObjectStore('submissions', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('blobs')) {
+        db.createObjectStore('blobs', { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+async function run<T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function getAll<T>(storeName: OfflineStoreName): Promise<T[]> {
+  return run<T[]>(storeName, 'readonly', (store) => store.getAll());
+}
+
+export function getOne<T>(storeName: OfflineStoreName, id: string): Promise<T | undefined> {
+  return run<T | undefined>(storeName, 'readonly', (store) => store.get(id));
+}
+
+export async function put<T>(storeName: OfflineStoreName, value: T): Promise<void> {
+  await run(storeName, 'readwrite', (store) => store.put(value));
+}
+
+export async function remove(storeName: OfflineStoreName, id: string): Promise<void> {
+  await run(storeName, 'readwrite', (store) => store.delete(id));
+}
+
+export async function clear(storeName: OfflineStoreName): Promise<void> {
+  await run(storeName, 'readwrite', (store) => store.clear());
+}
@@ -0,0 +1,185 @@
+/**
+ * Factory defect catalogue and the DHU breakdowns built from in-line and
+ * end-line checks. A check is one checker's look at a line for an hour: how
+ * many pieces they examined and how many of each catalogue defect they found.
+ * In-line checks are made at an operator's station; end-line checks look at
+ * finished garments and leave the operator blank.
+ */
+
+import type { DefectSeverity } from "./aql";
+import { dhu } from "./sewing-hourly";
+
+export type CheckPoint = "inline" | "endline";
+
+export const CHECK_POINTS: CheckPoint[] = ["inline", "endline"];
+
+export const CHECK_POINT_LABEL: Record<CheckPoint, string> = {
+  inline: "In-line",
+  endline: "End-line",
+};
+
+export interface DefectTypeLike {
+  code: string;
+  name: string;
+  operation: string;
+  severity: DefectSeverity;
+}
+
+/** Starter catalogue offered to factories that haven't set up their own. */
+export const STANDARD_DEFECT_TYPES: DefectTypeLike[] = [
+  { code: "ST01", name: "Broken stitch", operation: "Stitching", severity: "major" },
+  { code: "ST02", name: "Skip stitch", operation: "Stitching", severity: "major" },
+  { code: "ST03", name: "Uneven stitch / SPI", operation: "Stitching", severity: "minor" },
+  { code: "ST04", name: "Loose tension", operation: "Stitching", severity: "minor" },
+  { code: "SJ01", name: "Open seam", operation: "Seam joining", severity: "major" },
+  { code: "SJ02", name: "Puckering", operation: "Seam joining", severity: "minor" },
+  { code: "SJ03", name: "Raw edge", operation: "Seam joining", severity: "major" },
+  { code: "SJ04", name: "Pleat", operation: "Seam joining", severity: "minor" },
+  { code: "HM01", name: "Uneven hem", operation: "Hemming", severity: "minor" },
+  { code: "HM02", name: "Twisted hem", operation: "Hemming", severity: "minor" },
+  { code: "TR01", name: "Wrong / missing label", operation: "Labels & trims", severity: "major" },
+  { code: "TR02", name: "Button / snap defect", operation: "Labels & trims", severity: "major" },
+  { code: "HD01", name: "Stain", operation: "Handling", severity: "major" },
+  { code: "HD02", name: "Needle / pin hole", operation: "Handling", severity: "major" },
+  { code: "MS01", name: "Measurement out of tolerance", operation: "Measurement", severity: "major" },
+];
+
+export interface DefectCheckItemLike {
+  defect_code: string;
+  defect_name: string;
+  operation: string;
+  quantity: number;
+}
+
+export interface DefectCheckLike {
+  line_id: string;
+  work_order_id: string;
+  check_point: CheckPoint;
+  operator_name: string | null;
+  pieces_checked: number;
+  items: DefectCheckItemLike[];
+}
+
+export interface DhuRow {
+  key: string;
+  label: string;
+  checked: number;
+  defects: number;
+  /** Defects per hundred units, one decimal; null when nothing was checked */
+  dhu: number | null;
+}
+
+export interface ParetoRow {
+  code: string;
+  name: string;
+  operation: string;
+  count: number;
+  /** Share of all defects, one decimal */
+  share: number;
+  /** Running share up to and including this defect, one decimal */
+  cumulative: number;
+}
+
+// ── Catalogue ──────────────────────────────────────────────────────────
+
+/** Defect types grouped by operation, keeping the order operations first appear in. */
+export function groupByOperation<T extends { operation: string }>(types: T[]): { operation: string; types: T[] }[] {
+  const groups = new Map<string, T[]>();
+  for (const t of types) {
+    const list = groups.get(t.operation);
+    if (list) list.push(t);
+    else groups.set(t.operation, [t]);
+  }
+  return [...groups].map(([operation, list]) => ({ operation, types: list }));
+}
+
+// ── DHU ────────────────────────────────────────────────────────────────
+
+export function checkDefects(check: Pick<DefectCheckLike, "items">): number {
+  return check.items.reduce((sum, i) => sum + i.quantity, 0);
+}
+
+export function dhuSummary(checks: DefectCheckLike[]): { checked: number; defects: number; dhu: number | null } {
+  const checked = checks.reduce((sum, c) => sum + c.pieces_checked, 0);
+  const defects = checks.reduce((sum, c) => sum + checkDefects(c), 0);
+  return { checked, defects, dhu: dhu(defects, checked) };
+}
+
+function byDhuDesc(a: DhuRow, b: DhuRow): number {
+  return (b.dhu ?? -1) - (a.dhu ?? -1) || b.defects - a.defects || a.label.localeCompare(b.label);
+}
+
+function groupDhu(
+  checks: DefectCheckLike[],
+  keyOf: (c: DefectCheckLike) => { key: string; label: string } | null,
+): DhuRow[] {
+  const rows = new Map<string, DhuRow>();
+  for (const c of checks) {
+    const k = keyOf(c);
+    if (!k) continue;
+    const row = rows.get(k.key) ?? { key: k.key, label: k.label, checked: 0, defects: 0, dhu: null };
+    row.checked += c.pieces_checked;
+    row.defects += checkDefects(c);
+    rows.set(k.key, row);
+  }
+  return [...rows.values()].map((r) => ({ ...r, dhu: dhu(r.defects, r.checked) })).sort(byDhuDesc);
+}
+
+/** DHU per line, worst first. Labels are the line ids; callers swap in names. */
+export function dhuByLine(checks: DefectCheckLike[]): DhuRow[] {
+  return groupDhu(checks, (c) => ({ key: c.line_id, label: c.line_id }));
+}
+
+/**
+ * DHU per operator from the checks made at their station. Names are matched
+ * case-insensitively so "rahima" and "Rahima " count as one operator.
+ */
+export function dhuByOperator(checks: DefectCheckLike[]): DhuRow[] {
+  return groupDhu(checks, (c) => {
+    const name = c.operator_name?.trim();
+    return name ? { key: name.toLowerCase(), label: name } : null;
+  });
+}
+
+/**
+ * DHU per operation. Every piece checked has been through every operation, so
+ * each operation's defects are measured against all pieces checked.
+ */
+export function dhuByOperation(checks: DefectCheckLike[]): DhuRow[] {
+  const checked = checks.reduce((sum, c) => sum + c.pieces_checked, 0);
+  const defects = new Map<string, number>();
+  for (const c of checks) {
+    for (const i of c.items) defects.set(i.operation, (defects.get(i.operation) ?? 0) + i.quantity);
+  }
+  return [...defects]
+    .map(([operation, count]) => ({ key: operation, label: operation, checked, defects: count, dhu: dhu(count, checked) }))
+    .sort(byDhuDesc);
+}
+
+// ── Pareto ─────────────────────────────────────────────────────────────
+
+/**
+ * Defects ranked by count with their share and running share of the total —
+ * the handful at the top that make up ~80% are the ones worth fixing first.
+ */
+export function defectPareto(checks: DefectCheckLike[]): ParetoRow[] {
+  const counts = new Map<string, { code: string; name: string; operation: string; count: number }>();
+  for (const c of checks) {
+    for (const i of c.items) {
+      const row = counts.get(i.defect_code) ?? { code: i.defect_code, name: i.defect_name, operation: i.operation, count: 0 };
+      row.count += i.quantity;
+      counts.set(i.defect_code, row);
+    }
+  }
+  const ranked = [...counts.values()].sort((a, b) => b.count - a.count || a.code.localeCompare(b.code));
+  const total = ranked.reduce((sum, r) => sum + r.count, 0);
+  let running = 0;
+  return ranked.map((r) => {
+    running += r.count;
+    return {
+      ...r,
+      share: Math.round((r.count / total) * 1000) / 10,
+      cumulative: Math.round((running / total) * 1000) / 10,
+    };
+  });
+}
@@ -1,11 +1,22 @@
 // QC PDF generator — produces shippable single-record and bulk PDFs that
-// mirror the on-screen Daily Sheet / Order Tracker detail pages. Each
-// record ends with a sign-off block showing the admin's stored signature
-// image (from user_signatures.signature_url).
+// mirror the on-screen Daily Sheet / Order Tracker / AQL inspection detail
+// pages. Each record ends with a sign-off block showing the signer's stored
+// signature image (from user_signatures.signature_url) — the admin for
+// checklists, the inspector for AQL inspections.
 
 import { jsPDF } from "jspdf";
 import { supabase } from "@/integrations/supabase/client";
 import { formatShortDate, formatTimeInTimezone } from "@/lib/date-utils";
+import { DEFECT_SEVERITIES, formatAql, type AqlValue, type DefectSeverity } from "@/lib/aql";
+import {
+  formatDeviation,
+  formatMeasure,
+  measureStatus,
+  summarizeMeasurements,
+  type MeasuredPoint,
+} from "@/lib/measurements";
+import { stripSectionPrefix } from "@/lib/qc-templates";
+import { photoThumbnail } from "@/lib/qc-photos";
 
 // ──────────────────────────────────────────────────────────────────────
 // Types
@@ -23,6 +34,20 @@ export interface QCPdfItem {
   notes?: string | null;
   /** Tracker items only. */
   target_date?: string | null;
+  /** Photo evidence thumbnails (JPEG data URLs); `photo_count` is the total on the item. */
+  photos?: { dataUrl: string; width: number; height: number }[];
+  photo_count?: number;
+}
+
+/** A point-of-measure check attached to a daily sheet or tracker. */
+export interface QCPdfMeasurementCheck {
+  spec_name: string;
+  unit: string;
+  size: string;
+  colour: string | null;
+  sample_count: number;
+  notes: string | null;
+  points: MeasuredPoint[];
 }
 
 export interface QCDailySheetPdfPayload {
@@ -50,6 +75,7 @@ export interface QCDailySheetPdfPayload {
   signature_url: string | null;
   // Items
   items: QCPdfItem[];
+  measurements?: QCPdfMeasurementCheck[];
 }
 
 export interface QCTrackerPdfPayload {
@@ -73,9 +99,55 @@ export interface QCTrackerPdfPayload {
   signature_url: string | null;
   // Items
   items: QCPdfItem[];
+  measurements?: QCPdfMeasurementCheck[];
+}
+
+export interface QCAqlPdfClass {
+  severity: DefectSeverity;
+  aql: AqlValue;
+  ac: number;
+  re: number;
+  found: number;
 }
 
-export type QCPdfPayload = QCDailySheetPdfPayload | QCTrackerPdfPayload;
+export interface QCAqlPdfDefect {
+  defect_code: string;
+  defect_name: string;
+  severity: DefectSeverity;
+  quantity: number;
+  notes: string | null;
+}
+
+export interface QCAqlInspectionPdfPayload {
+  kind: "aql_inspection";
+  id: string;
+  factory_name: string;
+  factory_timezone: string;
+  // Header fields
+  po_number: string;
+  buyer: string;
+  style: string;
+  order_qty: number | null;
+  inspection_type: "pre_final" | "final";
+  inspection_date: string;
+  inspector_name: string | null;
+  planned_ex_factory: string | null;
+  // Sampling plan
+  lot_qty: number;
+  inspection_level: string;
+  code_letter: string;
+  sample_size: number;
+  classes: QCAqlPdfClass[];
+  result: "pass" | "fail";
+  notes: string | null;
+  // Sign-off — AQL verdicts are signed by the inspector on submit
+  status: "submitted";
+  submitted_at: string | null;
+  signature_url: string | null;
+  defects: QCAqlPdfDefect[];
+}
+
+export type QCPdfPayload = QCDailySheetPdfPayload | QCTrackerPdfPayload | QCAqlInspectionPdfPayload;
 
 // ──────────────────────────────────────────────────────────────────────
 // Helpers
@@ -110,6 +182,9 @@ const PHASE_RGB: Array<{ banner: [number, number, number]; tint: [number, number
 
 const STATUS_LABEL: Record<string, { label: string; rgb: [number, number, number] }> = {
   pass: { label: "PASS", rgb: [16, 185, 129] },
+  critical: { label: "CRITICAL", rgb: [220, 38, 38] },
+  major: { label: "MAJOR", rgb: [217, 119, 6] },
+  minor: { label: "MINOR", rgb: [100, 116, 139] },
   done: { label: "DONE", rgb: [16, 185, 129] },
   fail: { label: "FAIL", rgb: [220, 38, 38] },
   issue: { label: "ISSUE", rgb: [217, 119, 6] },
@@ -165,18 +240,24 @@ function drawHeaderBand(ctx: PageCtx, payload: QCPdfPayload) {
   doc.text(
     payload.kind === "daily_sheet"
       ? "DAILY QC SHEET — Signed off"
-      : "ORDER MANAGER TRACKER — Signed off",
+      : payload.kind === "order_tracker"
+        ? "ORDER MANAGER TRACKER — Signed off"
+        : `${payload.inspection_type === "final" ? "FINAL" : "PRE-FINAL"} AQL INSPECTION — Submitted`,
     margin + 4,
     ctx.y + 17
   );
-  // Status pill on the right
-  doc.setFillColor(16, 185, 129);
+  // Status pill on the right — AQL records show their verdict instead
+  const pill =
+    payload.kind === "aql_inspection"
+      ? STATUS_LABEL[payload.result]
+      : { label: "SIGNED OFF", rgb: [16, 185, 129] as [number, number, number] };
+  doc.setFillColor(...pill.rgb);
   const pillW = 28;
   doc.roundedRect(pageW - margin - pillW - 4, ctx.y + 6, pillW, 9, 2, 2, "F");
   doc.setTextColor(255, 255, 255);
   doc.setFont("helvetica", "bold");
   doc.setFontSize(8);
-  doc.text("SIGNED OFF", pageW - margin - pillW - 4 + pillW / 2, ctx.y + 12, {
+  doc.text(pill.label, pageW - margin - pillW - 4 + pillW / 2, ctx.y + 12, {
     align: "center",
   });
   ctx.y += h + 4;
@@ -200,6 +281,17 @@ function drawDetailsGrid(ctx: PageCtx, payload: QCPdfPayload) {
           { label: "Target Qty", value: payload.target_qty ? `${payload.target_qty.toLocaleString()} pcs` : "—" },
           { label: "FOB / Ex-Factory", value: payload.planned_ex_factory ? formatShortDate(payload.planned_ex_factory) : "—" },
         ]
+      : payload.kind === "aql_inspection"
+      ? [
+          { label: "Order / PO No.", value: payload.po_number },
+          { label: "Buyer", value: payload.buyer },
+          { label: "Style", value: payload.style },
+          { label: "Total Qty", value: payload.order_qty ? `${payload.order_qty.toLocaleString()} pcs` : "—" },
+          { label: "Inspection Date", value: formatShortDate(payload.inspection_date) },
+          { label: "Inspector", value: payload.inspector_name || "—" },
+          { label: "Lot Qty", value: `${payload.lot_qty.toLocaleString()} pcs` },
+          { label: "FOB / Ex-Factory", value: payload.planned_ex_factory ? formatShortDate(payload.planned_ex_factory) : "—" },
+        ]
       : [
           { label: "Order / PO No.", value: payload.po_number },
           { label: "Buyer", value: payload.buyer },
@@ -274,7 +366,7 @@ function drawSectionHeader(
   doc.setFontSize(8);
   // Strip "PHASE N —" / "SECTION N —" prefix the template label may already
   // include — otherwise the phase number renders twice in the banner.
-  const cleanLabel = label.replace(/^(PHASE|SECTION)\s+\d+\s*[—\-:]\s*/i, "");
+  const cleanLabel = stripSectionPrefix(label);
   doc.text(`PHASE ${phaseNum}  —  ${cleanLabel.toUpperCase()}`, margin + 3, ctx.y + 6);
 
   // Right-side summary — ASCII only; jsPDF's default Helvetica is Latin-1
@@ -287,9 +379,16 @@ function drawSectionHeader(
   ctx.y += h;
 }
 
+/** Height added under an item that has photos; thumbnails fill all but the padding. */
+const PHOTO_ROW_H = 26;
+/** Thumbnails embedded per item — enough to show the defect without bloating the file. */
+const PDF_PHOTOS_PER_ITEM = 4;
+
 function drawItem(ctx: PageCtx, item: QCPdfItem, paletteIdx: number) {
   const { doc, pageW, margin } = ctx;
-  const rowH = item.notes && item.notes.trim() ? 12 : 8;
+  const textH = item.notes && item.notes.trim() ? 12 : 8;
+  const photos = item.photos ?? [];
+  const rowH = textH + (photos.length > 0 ? PHOTO_ROW_H : 0);
   ensureSpace(ctx, rowH + 1);
 
   const palette = PHASE_RGB[paletteIdx % PHASE_RGB.length];
@@ -342,6 +441,26 @@ function drawItem(ctx: PageCtx, item: QCPdfItem, paletteIdx: number) {
     doc.text(lines[0] ?? "", margin + 3, ctx.y + 10);
   }
 
+  // Photo evidence thumbnails
+  if (photos.length > 0) {
+    const h = PHOTO_ROW_H - 4;
+    let x = margin + 18;
+    for (const p of photos) {
+      const w = Math.min(h * (p.width / p.height), h * 1.5);
+      doc.addImage(p.dataUrl, "JPEG", x, ctx.y + textH, w, h);
+      doc.setDrawColor(203, 213, 225);
+      doc.rect(x, ctx.y + textH, w, h, "S");
+      x += w + 2;
+    }
+    const more = (item.photo_count ?? photos.length) - photos.length;
+    if (more > 0) {
+      doc.setTextColor(100, 116, 139);
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(7);
+      doc.text(`+${more} more`, x + 1, ctx.y + textH + h / 2 + 1);
+    }
+  }
+
   ctx.y += rowH;
 }
 
@@ -351,6 +470,22 @@ function drawSignoffFooter(
   signatureDataUrl: string | null
 ) {
   const { doc, pageW, margin } = ctx;
+  const signer =
+    payload.kind === "aql_inspection"
+      ? {
+          title: "INSPECTION SIGN-OFF",
+          verb: "Submitted",
+          name: payload.inspector_name,
+          at: payload.submitted_at,
+          signatureLabel: "Inspector Signature",
+        }
+      : {
+          title: "ORDER SIGN-OFF SUMMARY",
+          verb: "Signed off",
+          name: payload.manager_name,
+          at: payload.manager_signoff_at,
+          signatureLabel: "Manager Signature",
+        };
 
   // Push to a stable position near bottom; if not enough space, new page first.
   const needed = 38;
@@ -372,22 +507,22 @@ function drawSignoffFooter(
   doc.setFont("helvetica", "bold");
   doc.setFontSize(9);
   doc.setTextColor(15, 23, 42);
-  doc.text("ORDER SIGN-OFF SUMMARY", margin, ctx.y + 4);
+  doc.text(signer.title, margin, ctx.y + 4);
 
   ctx.y += 7;
 
   doc.setFont("helvetica", "normal");
   doc.setFontSize(8);
   doc.setTextColor(60, 70, 90);
-  const signedAtText = payload.manager_signoff_at
-    ? `${formatShortDate(payload.manager_signoff_at)} ${formatTimeInTimezone(
-        payload.manager_signoff_at,
+  const signedAtText = signer.at
+    ? `${formatShortDate(signer.at)} ${formatTimeInTimezone(
+        signer.at,
         payload.factory_timezone
       )}`
     : "—";
 
-  doc.text(`Signed off by:  ${payload.manager_name || "—"}`, margin, ctx.y);
-  doc.text(`Signed off at:  ${signedAtText}`, margin, ctx.y + 5);
+  doc.text(`${signer.verb} by:  ${signer.name || "—"}`, margin, ctx.y);
+  doc.text(`${signer.verb} at:  ${signedAtText}`, margin, ctx.y + 5);
 
   // Signature on the right
   const sigW = 50;
@@ -407,11 +542,232 @@ function drawSignoffFooter(
   doc.setFont("helvetica", "italic");
   doc.setFontSize(6.5);
   doc.setTextColor(120, 130, 150);
-  doc.text("Manager Signature", sigX + sigW / 2, sigY + sigH + 4, { align: "center" });
+  doc.text(signer.signatureLabel, sigX + sigW / 2, sigY + sigH + 4, { align: "center" });
 
   ctx.y = sigY + sigH + 8;
 }
 
+/** Per-class plan and findings: AQL, Ac, Re, defects found, class result. */
+function drawAqlPlan(ctx: PageCtx, payload: QCAqlInspectionPdfPayload) {
+  const { doc, pageW, margin } = ctx;
+  const rowH = 7;
+  ensureSpace(ctx, 9 + rowH * (payload.classes.length + 1) + 8);
+
+  doc.setFillColor(...PHASE_RGB[0].banner);
+  doc.rect(margin, ctx.y, pageW - margin * 2, 9, "F");
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(8);
+  doc.text("SAMPLING PLAN  -  ISO 2859-1 SINGLE SAMPLING, NORMAL", margin + 3, ctx.y + 6);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(7);
+  doc.text(
+    `Level ${payload.inspection_level}  ·  Code letter ${payload.code_letter}  ·  Sample ${payload.sample_size.toLocaleString()} of ${payload.lot_qty.toLocaleString()}`,
+    pageW - margin - 3,
+    ctx.y + 6,
+    { align: "right" }
+  );
+  ctx.y += 9;
+
+  const cols = [
+    { label: "CLASS", x: margin + 3, align: "left" as const },
+    { label: "AQL", x: margin + 70, align: "right" as const },
+    { label: "AC", x: margin + 95, align: "right" as const },
+    { label: "RE", x: margin + 120, align: "right" as const },
+    { label: "FOUND", x: margin + 150, align: "right" as const },
+    { label: "RESULT", x: pageW - margin - 3, align: "right" as const },
+  ];
+
+  doc.setFillColor(...PHASE_RGB[0].tint);
+  doc.rect(margin, ctx.y, pageW - margin * 2, rowH, "F");
+  doc.setTextColor(100, 116, 139);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(6.5);
+  cols.forEach((c) => doc.text(c.label, c.x, ctx.y + 4.8, { align: c.align }));
+  ctx.y += rowH;
+
+  for (const c of payload.classes) {
+    const failed = c.found >= c.re;
+    const values = [capitalize(c.severity), formatAql(c.aql), String(c.ac), String(c.re), String(c.found)];
+    doc.setDrawColor(220, 226, 240);
+    doc.setLineWidth(0.1);
+    doc.line(margin, ctx.y + rowH, pageW - margin, ctx.y + rowH);
+    doc.setTextColor(15, 23, 42);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    values.forEach((v, i) => doc.text(v, cols[i].x, ctx.y + 4.8, { align: cols[i].align }));
+    const sMeta = STATUS_LABEL[failed ? "fail" : "pass"];
+    doc.setTextColor(...sMeta.rgb);
+    doc.setFont("helvetica", "bold");
+    doc.text(sMeta.label, cols[5].x, ctx.y + 4.8, { align: "right" });
+    ctx.y += rowH;
+  }
+
+  ctx.y += 4;
+}
+
+/** Defects logged in the sample, one row per catalogue defect. */
+function drawAqlDefects(ctx: PageCtx, payload: QCAqlInspectionPdfPayload) {
+  const { doc, pageW, margin } = ctx;
+  const palette = PHASE_RGB[1];
+  ensureSpace(ctx, 9 + 8);
+
+  doc.setFillColor(...palette.banner);
+  doc.rect(margin, ctx.y, pageW - margin * 2, 9, "F");
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(8);
+  doc.text("DEFECTS FOUND", margin + 3, ctx.y + 6);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(7);
+  const totals = DEFECT_SEVERITIES.map(
+    (s) => `${capitalize(s)} ${payload.classes.find((c) => c.severity === s)?.found ?? 0}`
+  ).join("  ·  ");
+  doc.text(totals, pageW - margin - 3, ctx.y + 6, { align: "right" });
+  ctx.y += 9;
+
+  if (payload.defects.length === 0) {
+    doc.setFillColor(...palette.tint);
+    doc.rect(margin, ctx.y, pageW - margin * 2, 8, "F");
+    doc.setTextColor(100, 116, 139);
+    doc.setFont("helvetica", "italic");
+    doc.setFontSize(8);
+    doc.text("No defects found in the sample.", margin + 3, ctx.y + 5);
+    ctx.y += 10;
+    return;
+  }
+
+  for (const d of payload.defects) {
+    drawItem(
+      ctx,
+      {
+        section_label: "",
+        section_order: 0,
+        item_code: d.defect_code,
+        item_label: `${d.defect_name}  x${d.quantity}`,
+        status: d.severity,
+        notes: d.notes,
+      },
+      1
+    );
+  }
+  ctx.y += 2;
+}
+
+/**
+ * One block per measurement check: points down the side, a column per
+ * sample, readings outside tolerance in red.
+ */
+function drawMeasurements(ctx: PageCtx, checks: QCPdfMeasurementCheck[]) {
+  const { doc, pageW, margin } = ctx;
+  const palette = PHASE_RGB[3];
+  const rowH = 6.5;
+  // Latin-1 only — see drawSectionHeader
+  const signed = (dev: number) => formatDeviation(dev).replace("\u2212", "-");
+
+  for (const check of checks) {
+    const summary = summarizeMeasurements(check.points, check.sample_count);
+    ensureSpace(ctx, 9 + rowH * Math.min(check.points.length + 1, 4));
+
+    doc.setFillColor(...palette.banner);
+    doc.rect(margin, ctx.y, pageW - margin * 2, 9, "F");
+    doc.setTextColor(255, 255, 255);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(8);
+    doc.text(
+      `MEASUREMENTS  -  SIZE ${check.size.toUpperCase()}${check.colour ? `  ·  ${check.colour.toUpperCase()}` : ""}`,
+      margin + 3,
+      ctx.y + 6
+    );
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(7);
+    const resultLabel = summary.result === "pending" ? "INCOMPLETE" : summary.result.toUpperCase();
+    doc.text(
+      `${check.spec_name}  ·  ${check.sample_count} sample${check.sample_count === 1 ? "" : "s"}  ·  ${check.unit}  ·  ${resultLabel}`,
+      pageW - margin - 3,
+      ctx.y + 6,
+      { align: "right" }
+    );
+    ctx.y += 9;
+
+    const specX = margin + 92;
+    const tolX = margin + 112;
+    const samplesX = margin + 116;
+    const sampleW = Math.min(16, (pageW - margin - 3 - samplesX) / check.sample_count);
+    const sampleCenter = (i: number) => samplesX + sampleW * i + sampleW / 2;
+
+    const drawColumnHeader = () => {
+      doc.setFillColor(...palette.tint);
+      doc.rect(margin, ctx.y, pageW - margin * 2, rowH, "F");
+      doc.setTextColor(100, 116, 139);
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(6.5);
+      doc.text("POINT OF MEASURE", margin + 3, ctx.y + 4.3);
+      doc.text("SPEC", specX, ctx.y + 4.3, { align: "right" });
+      doc.text("TOL -/+", tolX, ctx.y + 4.3, { align: "right" });
+      for (let i = 0; i < check.sample_count; i++) {
+        doc.text(`#${i + 1}`, sampleCenter(i), ctx.y + 4.3, { align: "center" });
+      }
+      ctx.y += rowH;
+    };
+    drawColumnHeader();
+
+    for (const p of check.points) {
+      if (ctx.y + rowH > ctx.pageH - 18) {
+        ensureSpace(ctx, rowH * 2);
+        drawColumnHeader();
+      }
+      doc.setDrawColor(220, 226, 240);
+      doc.setLineWidth(0.1);
+      doc.line(margin, ctx.y + rowH, pageW - margin, ctx.y + rowH);
+
+      doc.setTextColor(100, 116, 139);
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(7.5);
+      doc.text(p.code, margin + 3, ctx.y + 4.3);
+      doc.setTextColor(15, 23, 42);
+      doc.setFont("helvetica", "normal");
+      doc.text(doc.splitTextToSize(p.name, specX - margin - 30)[0] ?? "", margin + 14, ctx.y + 4.3);
+      doc.setFont("helvetica", "bold");
+      doc.text(formatMeasure(p.spec), specX, ctx.y + 4.3, { align: "right" });
+      doc.setFont("helvetica", "normal");
+      doc.setTextColor(100, 116, 139);
+      doc.text(`-${formatMeasure(p.tol_minus)}/+${formatMeasure(p.tol_plus)}`, tolX, ctx.y + 4.3, { align: "right" });
+
+      for (let i = 0; i < check.sample_count; i++) {
+        const v = p.measured[i];
+        if (v == null) {
+          doc.setTextColor(160, 170, 185);
+          doc.setFont("helvetica", "normal");
+          doc.text("-", sampleCenter(i), ctx.y + 4.3, { align: "center" });
+          continue;
+        }
+        const out = measureStatus(v, p) !== "ok";
+        doc.setTextColor(...(out ? STATUS_LABEL.fail.rgb : ([15, 23, 42] as [number, number, number])));
+        doc.setFont("helvetica", out ? "bold" : "normal");
+        doc.text(formatMeasure(v), sampleCenter(i), ctx.y + 4.3, { align: "center" });
+      }
+      ctx.y += rowH;
+    }
+
+    // Verdict line under the grid
+    const parts = [`Readings ${summary.readings}/${summary.expected}`];
+    if (summary.outOfTolerance > 0) {
+      parts.push(
+        `${summary.outOfTolerance} out of tolerance on ${summary.samplesOut} sample${summary.samplesOut === 1 ? "" : "s"}`,
+        `Worst: ${summary.pointsOut.map((o) => `${o.code} ${signed(o.worst)}`).join(", ")}`
+      );
+    }
+    if (check.notes?.trim()) parts.push(`Note: ${check.notes.trim()}`);
+    ensureSpace(ctx, 6);
+    doc.setTextColor(60, 70, 90);
+    doc.setFont("helvetica", "italic");
+    doc.setFontSize(7);
+    doc.text(doc.splitTextToSize(parts.join("  ·  "), pageW - margin * 2 - 6)[0] ?? "", margin + 3, ctx.y + 4);
+    ctx.y += 8;
+  }
+}
+
 function capitalize(s: string): string {
   if (!s) return "—";
   return s.charAt(0).toUpperCase() + s.slice(1);
@@ -462,12 +818,28 @@ async function renderRecord(ctx: PageCtx, payload: QCPdfPayload) {
   drawHeaderBand(ctx, payload);
   drawDetailsGrid(ctx, payload);
 
-  const grouped = groupSections(payload.items);
-  grouped.forEach((g, idx) => {
-    drawSectionHeader(ctx, g.order, g.label, idx, summarize(g.items));
-    g.items.forEach((it) => drawItem(ctx, it, idx));
-    ctx.y += 2;
-  });
+  if (payload.kind === "aql_inspection") {
+    drawAqlPlan(ctx, payload);
+    drawAqlDefects(ctx, payload);
+    if (payload.notes?.trim()) {
+      const { doc, pageW, margin } = ctx;
+      ensureSpace(ctx, 16);
+      doc.setTextColor(60, 70, 90);
+      doc.setFont("helvetica", "italic");
+      doc.setFontSize(8);
+      const lines = doc.splitTextToSize(`Inspector notes: ${payload.notes.trim()}`, pageW - margin * 2).slice(0, 3);
+      doc.text(lines, margin, ctx.y + 4);
+      ctx.y += 4 + lines.length * 4;
+    }
+  } else {
+    const grouped = groupSections(payload.items);
+    grouped.forEach((g, idx) => {
+      drawSectionHeader(ctx, g.order, g.label, idx, summarize(g.items));
+      g.items.forEach((it) => drawItem(ctx, it, idx));
+      ctx.y += 2;
+    });
+    drawMeasurements(ctx, payload.measurements ?? []);
+  }
 
   drawSignoffFooter(ctx, payload, signatureDataUrl);
 }
@@ -533,6 +905,60 @@ interface LoaderCtx {
   factoryTimezone: string;
 }
 
+/** Measurement checks attached to a sheet / tracker, in the order they were taken. */
+async function loadMeasurements(
+  sourceType: "daily_sheet" | "order_tracker",
+  sourceId: string
+): Promise<QCPdfMeasurementCheck[]> {
+  const { data } = await supabase
+    .from("qc_measurement_checks")
+    .select(
+      `spec_name, unit, size, colour, sample_count, notes,
+       qc_measurement_points(code, name, spec, tol_minus, tol_plus, sort_order, measured)`
+    )
+    .eq("source_type", sourceType)
+    .eq("source_record_id", sourceId)
+    .order("created_at");
+
+  return (data || []).map((c) => ({
+    spec_name: c.spec_name,
+    unit: c.unit,
+    size: c.size,
+    colour: c.colour,
+    sample_count: c.sample_count,
+    notes: c.notes,
+    points: [...(c.qc_measurement_points ?? [])]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map((p) => ({
+        code: p.code,
+        name: p.name,
+        spec: Number(p.spec),
+        tol_minus: Number(p.tol_minus),
+        tol_plus: Number(p.tol_plus),
+        measured: Array.from({ length: c.sample_count }, (_, i) =>
+          p.measured?.[i] == null ? null : Number(p.measured[i])
+        ),
+      })),
+  }));
+}
+
+/** Shapes item rows for the PDF, embedding the first few photos of each as thumbnails. */
+async function withItemPhotos(
+  rows: (Omit<QCPdfItem, "photos" | "photo_count"> & { photo_urls: string[] | null })[]
+): Promise<QCPdfItem[]> {
+  const out: QCPdfItem[] = [];
+  for (const { photo_urls, ...item } of rows) {
+    const urls = photo_urls ?? [];
+    const photos: NonNullable<QCPdfItem["photos"]> = [];
+    for (const url of urls.slice(0, PDF_PHOTOS_PER_ITEM)) {
+      const thumb = await photoThumbnail(url);
+      if (thumb) photos.push(thumb);
+    }
+    out.push({ ...item, photos, photo_count: urls.length });
+  }
+  return out;
+}
+
 export async function loadDailySheetPayload(
   sheetId: string,
   ctxIn: LoaderCtx
@@ -552,11 +978,13 @@ export async function loadDailySheetPayload(
 
   const { data: items } = await supabase
     .from("qc_daily_sheet_items")
-    .select("section_label, section_order, item_code, item_label, item_guidance, status, notes")
+    .select("section_label, section_order, item_code, item_label, item_guidance, status, notes, photo_urls")
     .eq("sheet_id", sheetId)
     .order("section_order")
     .order("item_order");
 
+  const measurements = await loadMeasurements("daily_sheet", sheetId);
+
   // Resolve names for inspector + manager
   const userIds = [sheet.inspector_id, sheet.manager_signoff_by].filter(Boolean) as string[];
   const namesById = new Map<string, string>();
@@ -602,7 +1030,8 @@ export async function loadDailySheetPayload(
     manager_name: sheet.manager_signoff_by ? namesById.get(sheet.manager_signoff_by) ?? null : null,
     manager_signoff_at: sheet.manager_signoff_at,
     signature_url: signatureUrl,
-    items: (items as QCPdfItem[]) || [],
+    items: await withItemPhotos(items || []),
+    measurements,
   };
 }
 
@@ -624,11 +1053,15 @@ export async function loadTrackerPayload(
 
   const { data: items } = await supabase
     .from("qc_order_tracker_items")
-    .select("section_label, section_order, item_code, item_label, item_guidance, status, notes, target_date")
+    .select(
+      "section_label, section_order, item_code, item_label, item_guidance, status, notes, target_date, photo_urls"
+    )
     .eq("tracker_id", trackerId)
     .order("section_order")
     .order("item_order");
 
+  const measurements = await loadMeasurements("order_tracker", trackerId);
+
   const userIds = [t.manager_signoff_by, t.inspector_signoff_by].filter(Boolean) as string[];
   const namesById = new Map<string, string>();
   if (userIds.length > 0) {
@@ -668,7 +1101,82 @@ export async function loadTrackerPayload(
     manager_name: t.manager_signoff_by ? namesById.get(t.manager_signoff_by) ?? null : null,
     manager_signoff_at: t.manager_signoff_at,
     signature_url: signatureUrl,
-    items: (items as QCPdfItem[]) || [],
+    items: await withItemPhotos(items || []),
+    measurements,
+  };
+}
+
+export async function loadAqlInspectionPayload(
+  inspectionId: string,
+  ctxIn: LoaderCtx
+): Promise<QCAqlInspectionPdfPayload> {
+  const { data: i, error } = await supabase
+    .from("qc_aql_inspections")
+    .select(
+      `id, status, result, inspection_type, inspection_date, lot_qty, inspection_level,
+       aql_critical, aql_major, aql_minor, code_letter, sample_size,
+       critical_ac, critical_re, major_ac, major_re, minor_ac, minor_re,
+       inspector_id, submitted_at, notes,
+       work_orders(po_number, buyer, style, order_qty, planned_ex_factory)`
+    )
+    .eq("id", inspectionId)
+    .single();
+  if (error || !i) throw new Error(error?.message || "Inspection not found");
+  if (i.status !== "submitted" || i.result === "pending") {
+    throw new Error("Only submitted inspections can be exported.");
+  }
+
+  const { data: defects } = await supabase
+    .from("qc_aql_defects")
+    .select("defect_code, defect_name, severity, quantity, notes")
+    .eq("inspection_id", inspectionId)
+    .order("created_at");
+
+  const { data: prof } = await supabase
+    .from("profiles")
+    .select("full_name")
+    .eq("id", i.inspector_id)
+    .maybeSingle();
+
+  const { data: sig } = await supabase
+    .from("user_signatures")
+    .select("signature_url")
+    .eq("user_id", i.inspector_id)
+    .maybeSingle();
+
+  const list = (defects as QCAqlPdfDefect[]) || [];
+  const found = (severity: DefectSeverity) =>
+    list.filter((d) => d.severity === severity).reduce((sum, d) => sum + d.quantity, 0);
+  const wo = i.work_orders;
+
+  return {
+    kind: "aql_inspection",
+    id: i.id,
+    factory_name: ctxIn.factoryName,
+    factory_timezone: ctxIn.factoryTimezone,
+    po_number: wo?.po_number ?? "",
+    buyer: wo?.buyer ?? "",
+    style: wo?.style ?? "",
+    order_qty: wo?.order_qty ?? null,
+    inspection_type: i.inspection_type as QCAqlInspectionPdfPayload["inspection_type"],
+    inspection_date: i.inspection_date,
+    inspector_name: prof?.full_name ?? null,
+    planned_ex_factory: wo?.planned_ex_factory ?? null,
+    lot_qty: i.lot_qty,
+    inspection_level: i.inspection_level,
+    code_letter: i.code_letter,
+    sample_size: i.sample_size,
+    classes: [
+      { severity: "critical", aql: Number(i.aql_critical) as AqlValue, ac: i.critical_ac, re: i.critical_re, found: found("critical") },
+      { severity: "major", aql: Number(i.aql_major) as AqlValue, ac: i.major_ac, re: i.major_re, found: found("major") },
+      { severity: "minor", aql: Number(i.aql_minor) as AqlValue, ac: i.minor_ac, re: i.minor_re, found: found("minor") },
+    ],
+    result: i.result as QCAqlInspectionPdfPayload["result"],
+    notes: i.notes,
+    status: "submitted",
+    submitted_at: i.submitted_at,
+    signature_url: sig?.signature_url ?? null,
+    defects: list,
   };
 }
 
@@ -693,6 +1201,13 @@ export async function downloadSingleTrackerPDF(trackerId: string, ctxIn: LoaderC
   downloadBlob(blob, filename.replace(/\s+/g, "-"));
 }
 
+export async function downloadSingleAqlInspectionPDF(inspectionId: string, ctxIn: LoaderCtx) {
+  const payload = await loadAqlInspectionPayload(inspectionId, ctxIn);
+  const blob = await generateQCRecordPDF(payload);
+  const filename = `aql-${payload.inspection_type.replace("_", "-")}-${payload.po_number || inspectionId}-${payload.inspection_date}.pdf`;
+  downloadBlob(blob, filename.replace(/\s+/g, "-"));
+}
+
 export async function downloadBulkSheetsPDF(
   sheetIds: string[],
   ctxIn: LoaderCtx
@@ -0,0 +1,161 @@
+/**
+ * Photo evidence on QC items and issues. Photos are downscaled and
+ * re-encoded as JPEG on the device before upload, with any annotations (an
+ * arrow or a circle over the defect) drawn into the image. Annotation shapes
+ * are kept in 0–1 image coordinates so they land in the same place whatever
+ * size the photo is shown or saved at.
+ */
+
+/** Public bucket for QC photos, under {factory_id}/{submission_id}/… */
+export const QC_PHOTOS_BUCKET = "qc-photos";
+
+/** Photos per item or issue — enough for a close-up and context shots */
+export const MAX_QC_PHOTOS = 6;
+
+/** What a photo is attached to; matches qc_add_photos' p_target */
+export type PhotoTarget = "daily_item" | "tracker_item" | "issue";
+
+export type AnnotationKind = "arrow" | "circle";
+
+/** A drag from (x1, y1) to (x2, y2) in 0–1 image coordinates. Arrows point at the end. */
+export interface Annotation {
+  kind: AnnotationKind;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export const ANNOTATION_COLOUR = "#ef4444";
+
+const MAX_EDGE = 1600;
+const JPEG_QUALITY = 0.8;
+
+// ── Geometry ────────────────────────────────────────────────────────────
+
+/** Scales `width × height` down so the longer edge is at most `max`. Never scales up. */
+export function fitWithin(width: number, height: number, max: number): { width: number; height: number } {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/** The two back corners of an arrowhead whose tip is at (x2, y2). */
+export function arrowHeadPoints(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  size: number
+): [[number, number], [number, number]] {
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const spread = Math.PI / 7;
+  return [
+    [x2 - size * Math.cos(angle - spread), y2 - size * Math.sin(angle - spread)],
+    [x2 - size * Math.cos(angle + spread), y2 - size * Math.sin(angle + spread)],
+  ];
+}
+
+/** The ellipse inscribed in the box dragged from one corner to the other. */
+export function ellipseFromDrag(x1: number, y1: number, x2: number, y2: number) {
+  return { cx: (x1 + x2) / 2, cy: (y1 + y2) / 2, rx: Math.abs(x2 - x1) / 2, ry: Math.abs(y2 - y1) / 2 };
+}
+
+/** True for drags too short to mean anything — usually a tap. */
+export function isTinyAnnotation(a: Annotation, min = 0.02): boolean {
+  return Math.hypot(a.x2 - a.x1, a.y2 - a.y1) < min;
+}
+
+// ── Canvas ──────────────────────────────────────────────────────────────
+
+/** Draws annotations over an image already painted at `width × height`. */
+export function drawAnnotations(ctx: CanvasRenderingContext2D, annotations: Annotation[], width: number, height: number) {
+  const line = Math.max(3, Math.round(Math.min(width, height) / 120));
+  ctx.save();
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  // A white halo under the red keeps the mark visible on red or dark fabric
+  for (const [stroke, extra] of [["rgba(255,255,255,0.85)", line * 0.8], [ANNOTATION_COLOUR, 0]] as const) {
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = line + extra;
+    for (const a of annotations) {
+      const x1 = a.x1 * width;
+      const y1 = a.y1 * height;
+      const x2 = a.x2 * width;
+      const y2 = a.y2 * height;
+      ctx.beginPath();
+      if (a.kind === "circle") {
+        const e = ellipseFromDrag(x1, y1, x2, y2);
+        ctx.ellipse(e.cx, e.cy, Math.max(e.rx, line), Math.max(e.ry, line), 0, 0, Math.PI * 2);
+      } else {
+        const [left, right] = arrowHeadPoints(x1, y1, x2, y2, line * 5);
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.moveTo(left[0], left[1]);
+        ctx.lineTo(x2, y2);
+        ctx.lineTo(right[0], right[1]);
+      }
+      ctx.stroke();
+    }
+  }
+  ctx.restore();
+}
+
+/** Loads a Blob or URL into an <img>. Remote images are requested with CORS so they can be read back. */
+export function loadImage(src: Blob | string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const objectUrl = typeof src === "string" ? null : URL.createObjectURL(src);
+    if (typeof src === "string") img.crossOrigin = "anonymous";
+    img.onload = () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      resolve(img);
+    };
+    img.onerror = () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      reject(new Error("Could not read image"));
+    };
+    img.src = objectUrl ?? (src as string);
+  });
+}
+
+/**
+ * Downscales a photo to at most 1600px on its long edge, draws the
+ * annotations into it and re-encodes it as JPEG. A phone photo of several
+ * MB usually comes out at 200–400 KB.
+ */
+export async function compressPhoto(file: Blob, annotations: Annotation[] = []): Promise<File> {
+  const img = await loadImage(file);
+  const { width, height } = fitWithin(img.naturalWidth, img.naturalHeight, MAX_EDGE);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+  ctx.drawImage(img, 0, 0, width, height);
+  drawAnnotations(ctx, annotations, width, height);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+  if (!blob) throw new Error("Could not compress photo");
+  return new File([blob], `qc-photo-${Date.now()}.jpg`, { type: "image/jpeg" });
+}
+
+/** A small JPEG data URL of a stored photo for embedding in PDFs; null if it can't be loaded. */
+export async function photoThumbnail(
+  url: string,
+  max = 320
+): Promise<{ dataUrl: string; width: number; height: number } | null> {
+  try {
+    const img = await loadImage(url);
+    const { width, height } = fitWithin(img.naturalWidth, img.naturalHeight, max);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.drawImage(img, 0, 0, width, height);
+    return { dataUrl: canvas.toDataURL("image/jpeg", 0.7), width, height };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * QC checklist templates as the designer edits them. A template is stored as
+ * flat rows (section label/order, item code/order) — the same shape sheets
+ * and trackers snapshot when they start — but is edited as a list of
+ * sections, each with its items. Section labels carry a "PHASE n —" or
+ * "SECTION n —" prefix and item codes are "section.item", both renumbered
+ * from position on save.
+ */
+
+export type TemplateKind = "order_manager" | "daily_qc";
+
+export type TemplateStatus = "draft" | "published" | "archived";
+
+export const TEMPLATE_KIND_LABEL: Record<TemplateKind, string> = {
+  order_manager: "Order Tracker",
+  daily_qc: "Daily QC Sheet",
+};
+
+/** Where each kind's templates are managed — under the matching admin review page. */
+export const TEMPLATE_ADMIN_PATH: Record<TemplateKind, string> = {
+  order_manager: "/quality/admin/trackers/templates",
+  daily_qc: "/quality/admin/sheets/templates",
+};
+
+/** A template item row as stored on the template (and copied onto records). */
+export interface TemplateItemLike {
+  section_label: string;
+  section_order: number;
+  item_code: string;
+  item_label: string;
+  item_guidance: string | null;
+  item_order: number;
+  is_required: boolean;
+}
+
+export interface TemplateItemDraft {
+  key: string;
+  label: string;
+  guidance: string;
+  required: boolean;
+}
+
+export interface TemplateSectionDraft {
+  key: string;
+  title: string;
+  items: TemplateItemDraft[];
+}
+
+const SECTION_PREFIX = /^(PHASE|SECTION)\s+\d+\s*[—\-:]\s*/i;
+
+/** "PHASE 2 — PRE-PRODUCTION" → "PRE-PRODUCTION" */
+export function stripSectionPrefix(label: string): string {
+  return label.replace(SECTION_PREFIX, "");
+}
+
+export function sectionLabel(kind: TemplateKind, index: number, title: string): string {
+  return `${kind === "order_manager" ? "PHASE" : "SECTION"} ${index + 1} — ${title.trim()}`;
+}
+
+/** Groups stored rows into editable sections, in section then item order. */
+export function sectionsFromItems(items: TemplateItemLike[]): TemplateSectionDraft[] {
+  const sorted = [...items].sort((a, b) => a.section_order - b.section_order || a.item_order - b.item_order);
+  const sections: TemplateSectionDraft[] = [];
+  let current: { order: number; label: string } | null = null;
+
+  for (const it of sorted) {
+    if (!current || current.order !== it.section_order || current.label !== it.section_label) {
+      current = { order: it.section_order, label: it.section_label };
+      sections.push({ key: `s${sections.length}`, title: stripSectionPrefix(it.section_label), items: [] });
+    }
+    const section = sections[sections.length - 1];
+    section.items.push({
+      key: `${section.key}i${section.items.length}`,
+      label: it.item_label,
+      guidance: it.item_guidance ?? "",
+      required: it.is_required,
+    });
+  }
+  return sections;
+}
+
+/** Flattens sections back to rows, renumbering labels, codes and orders from position. */
+export function itemsFromSections(kind: TemplateKind, sections: TemplateSectionDraft[]): TemplateItemLike[] {
+  return sections.flatMap((section, s) =>
+    section.items.map((item, i) => ({
+      section_label: sectionLabel(kind, s, section.title),
+      section_order: s + 1,
+      item_code: `${s + 1}.${i + 1}`,
+      item_label: item.label.trim(),
+      item_guidance: item.guidance.trim() || null,
+      item_order: i + 1,
+      is_required: item.required,
+    }))
+  );
+}
+
+/** Problems that would stop a draft from being saved; empty when it's fine. */
+export function validateSections(sections: TemplateSectionDraft[]): string[] {
+  const errors: string[] = [];
+  if (sections.length === 0) errors.push("Add at least one section.");
+
+  sections.forEach((section, s) => {
+    const name = section.title.trim() || `Section ${s + 1}`;
+    if (!section.title.trim()) errors.push(`Section ${s + 1} needs a title.`);
+    if (section.items.length === 0) errors.push(`${name} has no items.`);
+    const blank = section.items.filter((i) => !i.label.trim()).length;
+    if (blank > 0) errors.push(`${name} has ${blank} item${blank === 1 ? "" : "s"} without a label.`);
+  });
+  return errors;
+}
+
+/** Returns a copy of `list` with the entry at `index` moved by `delta`; out-of-range moves are no-ops. */
+export function moveEntry<T>(list: T[], index: number, delta: number): T[] {
+  const to = index + delta;
+  if (index < 0 || index >= list.length || to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [entry] = next.splice(index, 1);
+  next.splice(to, 0, entry);
+  return next;
+}
+
+export interface TemplateChanges {
+  added: number;
+  removed: number;
+  edited: number;
+}
+
+/**
+ * Rough item-level diff between two versions, matched by label within the
+ * section title, for the "what changed" line when publishing.
+ */
+export function compareTemplates(before: TemplateItemLike[], after: TemplateItemLike[]): TemplateChanges {
+  const keyOf = (i: TemplateItemLike) =>
+    `${stripSectionPrefix(i.section_label).trim().toLowerCase()}|${i.item_label.trim().toLowerCase()}`;
+  const prev = new Map(before.map((i) => [keyOf(i), i]));
+  const seen = new Set<string>();
+  let added = 0;
+  let edited = 0;
+
+  for (const item of after) {
+    const key = keyOf(item);
+    const old = prev.get(key);
+    if (!old) {
+      added++;
+      continue;
+    }
+    seen.add(key);
+    if ((old.item_guidance ?? "") !== (item.item_guidance ?? "") || old.is_required !== item.is_required) edited++;
+  }
+  return { added, removed: prev.size - seen.size, edited };
+}
@@ -0,0 +1,244 @@
+/**
+ * Sales contract register calculations.
+ *
+ * Business rules:
+ *  - item value = subtotal_value when stored, otherwise quantity × unit_price.
+ *  - Shipped quantity comes from approved dispatches of the linked PO. When
+ *    several items share a PO, shipments fill the items in sort order.
+ *  - Open = contracted − shipped, never below zero. Over-shipment beyond the
+ *    contract tolerance is flagged.
+ *  - Changing an active contract is recorded as a numbered amendment holding a
+ *    field-by-field diff of the header and the items added, removed or changed.
+ */
+
+export type ContractStatus = "draft" | "active" | "completed" | "cancelled";
+
+export const CONTRACT_STATUS_LABELS: Record<ContractStatus, string> = {
+  draft: "Draft",
+  active: "Active",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+export const CONTRACT_STATUS_COLORS: Record<ContractStatus, string> = {
+  draft: "bg-muted text-muted-foreground border-border",
+  active: "bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-950/40 dark:text-blue-400 dark:border-blue-800",
+  completed: "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-950/40 dark:text-emerald-400 dark:border-emerald-800",
+  cancelled: "bg-slate-100 text-slate-600 border-slate-200 dark:bg-slate-900/40 dark:text-slate-400 dark:border-slate-700",
+};
+
+export const SHIPMENT_MODES = ["Sea", "Air", "Sea-Air", "Road"];
+
+/** Storage bucket holding signed contract scans, under `<factory_id>/<contract_id>/`. */
+export const CONTRACT_DOCUMENTS_BUCKET = "sales-contract-documents";
+
+// ── Position ────────────────────────────────────────────────────────────────
+
+export interface ContractItemLike {
+  id: string;
+  work_order_id: string | null;
+  quantity: number;
+  unit_price: number;
+  subtotal_value: number | null;
+  sort_order: number | null;
+}
+
+/** The fields needed to value an item; drafts may not carry a subtotal yet. */
+type ValuedItem = Pick<ContractItemLike, "quantity" | "unit_price"> & { subtotal_value?: number | null };
+
+export function itemValue(item: ValuedItem): number {
+  return round2(item.subtotal_value ?? (item.quantity || 0) * (item.unit_price || 0));
+}
+
+export interface ItemPosition {
+  itemId: string;
+  contractedQty: number;
+  contractedValue: number;
+  shippedQty: number;
+  shippedValue: number;
+  openQty: number;
+  openValue: number;
+}
+
+export interface ContractPosition {
+  items: ItemPosition[];
+  contractedQty: number;
+  contractedValue: number;
+  shippedQty: number;
+  shippedValue: number;
+  openQty: number;
+  openValue: number;
+  shippedPct: number;
+  /** Shipped beyond quantity × (1 + tolerance). */
+  overShipped: boolean;
+}
+
+/**
+ * Contracted vs shipped per item and in total.
+ * @param shippedByWorkOrder approved dispatch quantity per work_order_id
+ */
+export function contractPosition(
+  items: ContractItemLike[],
+  shippedByWorkOrder: Record<string, number>,
+  tolerancePct: number | null = null,
+): ContractPosition {
+  const remaining: Record<string, number> = { ...shippedByWorkOrder };
+  const sorted = [...items].sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0));
+  const lastForWo = new Map<string, string>();
+  sorted.forEach((i) => i.work_order_id && lastForWo.set(i.work_order_id, i.id));
+
+  const byId = new Map<string, ItemPosition>();
+  for (const item of sorted) {
+    const contractedValue = itemValue(item);
+    let shippedQty = 0;
+    if (item.work_order_id) {
+      const avail = remaining[item.work_order_id] ?? 0;
+      // The last item on a PO takes any excess so over-shipment stays visible
+      shippedQty = lastForWo.get(item.work_order_id) === item.id ? avail : Math.min(avail, item.quantity);
+      remaining[item.work_order_id] = avail - shippedQty;
+    }
+    const unitValue = item.quantity > 0 ? contractedValue / item.quantity : item.unit_price;
+    const shippedValue = round2(shippedQty * unitValue);
+    byId.set(item.id, {
+      itemId: item.id,
+      contractedQty: item.quantity,
+      contractedValue,
+      shippedQty,
+      shippedValue,
+      openQty: Math.max(item.quantity - shippedQty, 0),
+      openValue: round2(Math.max(contractedValue - shippedValue, 0)),
+    });
+  }
+
+  const positions = items.map((i) => byId.get(i.id)!);
+  const sum = (k: keyof Omit<ItemPosition, "itemId">) => round2(positions.reduce((s, p) => s + p[k], 0));
+  const contractedQty = sum("contractedQty");
+  const shippedQty = sum("shippedQty");
+  return {
+    items: positions,
+    contractedQty,
+    contractedValue: sum("contractedValue"),
+    shippedQty,
+    shippedValue: sum("shippedValue"),
+    openQty: sum("openQty"),
+    openValue: sum("openValue"),
+    shippedPct: contractedQty > 0 ? Math.round((shippedQty / contractedQty) * 1000) / 10 : 0,
+    overShipped: shippedQty > contractedQty * (1 + (tolerancePct ?? 0) / 100),
+  };
+}
+
+/** Header totals kept on sales_contracts for lists and LC matching. */
+export function contractTotals(items: ValuedItem[]) {
+  return {
+    total_quantity: items.reduce((s, i) => s + (i.quantity || 0), 0),
+    total_value: round2(items.reduce((s, i) => s + itemValue(i), 0)),
+  };
+}
+
+// ── Amendments ──────────────────────────────────────────────────────────────
+
+export interface FieldChange {
+  field: string;
+  from: string | number | boolean | null;
+  to: string | number | boolean | null;
+}
+
+export interface ContractChanges {
+  fields: FieldChange[];
+  itemsAdded: string[];
+  itemsRemoved: string[];
+  itemsChanged: { item: string; changes: FieldChange[] }[];
+}
+
+type Scalar = string | number | boolean | null | undefined;
+
+function diffFields(before: Record<string, unknown>, after: Record<string, unknown>, keys: string[]): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const key of keys) {
+    const a = (before[key] ?? null) as Scalar;
+    const b = (after[key] ?? null) as Scalar;
+    if (a !== b) changes.push({ field: key, from: a ?? null, to: b ?? null });
+  }
+  return changes;
+}
+
+export const TRACKED_HEADER_FIELDS = [
+  "buyer_name",
+  "contract_date",
+  "expiry_date",
+  "currency",
+  "incoterms",
+  "payment_terms",
+  "shipment_mode",
+  "port_of_loading",
+  "port_of_discharge",
+  "tolerance_pct",
+  "lc_required",
+  "season",
+];
+
+export const TRACKED_ITEM_FIELDS = ["style_ref", "po_number", "work_order_id", "color", "quantity", "unit_price", "ship_date"];
+
+export interface ItemSnapshot extends Record<string, unknown> {
+  /** Existing row id; absent for newly added items. */
+  id?: string;
+  style_ref: string;
+  po_number?: string | null;
+}
+
+function itemLabel(item: ItemSnapshot) {
+  return item.po_number ? `${item.style_ref} / PO ${item.po_number}` : item.style_ref;
+}
+
+/** What changed between the saved contract and the edited version. */
+export function diffContract(
+  before: { header: Record<string, unknown>; items: ItemSnapshot[] },
+  after: { header: Record<string, unknown>; items: ItemSnapshot[] },
+): ContractChanges {
+  const afterIds = new Set(after.items.map((i) => i.id).filter(Boolean));
+  const beforeById = new Map(before.items.filter((i) => i.id).map((i) => [i.id!, i]));
+
+  const itemsChanged: ContractChanges["itemsChanged"] = [];
+  for (const item of after.items) {
+    const prev = item.id ? beforeById.get(item.id) : undefined;
+    if (!prev) continue;
+    const changes = diffFields(prev, item, TRACKED_ITEM_FIELDS);
+    if (changes.length > 0) itemsChanged.push({ item: itemLabel(item), changes });
+  }
+
+  return {
+    fields: diffFields(before.header, after.header, TRACKED_HEADER_FIELDS),
+    itemsAdded: after.items.filter((i) => !i.id || !beforeById.has(i.id)).map(itemLabel),
+    itemsRemoved: before.items.filter((i) => i.id && !afterIds.has(i.id)).map(itemLabel),
+    itemsChanged,
+  };
+}
+
+export function hasChanges(c: ContractChanges) {
+  return c.fields.length + c.itemsAdded.length + c.itemsRemoved.length + c.itemsChanged.length > 0;
+}
+
+/** Reads a stored amendment `changes` value back, tolerating older shapes. */
+export function parseContractChanges(value: unknown): ContractChanges {
+  const empty: ContractChanges = { fields: [], itemsAdded: [], itemsRemoved: [], itemsChanged: [] };
+  if (!value || typeof value !== "object" || Array.isArray(value)) return empty;
+  const v = value as Partial<ContractChanges>;
+  return {
+    fields: Array.isArray(v.fields) ? v.fields : [],
+    itemsAdded: Array.isArray(v.itemsAdded) ? v.itemsAdded : [],
+    itemsRemoved: Array.isArray(v.itemsRemoved) ? v.itemsRemoved : [],
+    itemsChanged: Array.isArray(v.itemsChanged) ? v.itemsChanged : [],
+  };
+}
+
+export function fieldLabel(field: string) {
+  return field
+    .replace(/_id$/, "")
+    .split("_")
+    .map((w, i) => (i === 0 ? w.charAt(0).toUpperCase() + w.slice(1) : w))
+    .join(" ");
+}
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
@@ -0,0 +1,94 @@
+import { addDays, format, parseISO } from "date-fns";
+import { isWorkingDay, type WorkingCalendar } from "./working-days";
+
+/**
+ * Plan-level KPIs for comparing a what-if scenario with the live schedule.
+ * All counts look at a fixed horizon of working days so two plans are
+ * measured on the same footing.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export interface KPIBooking {
+  line_id: string;
+  work_order_id: string;
+  start_date: string;
+  /** Finish used for lateness, e.g. the planned end pushed out by a forecast */
+  end_date: string;
+  status?: string;
+}
+
+export interface KPIOrder {
+  id: string;
+  planned_ex_factory: string | null;
+}
+
+export interface PlanKPIs {
+  /** Lines with at least one booked working day in the horizon */
+  linesUtilised: number;
+  lineCount: number;
+  /** Booked POs finishing after their ex-factory date */
+  posLate: number;
+  /** Working days in the horizon with nothing booked, summed over lines */
+  idleLineDays: number;
+}
+
+export interface KPIDelta {
+  key: keyof Omit<PlanKPIs, "lineCount">;
+  value: number;
+  /** value − baseline */
+  delta: number;
+  /** Whether the change is for the better */
+  improved: boolean;
+}
+
+/** Calendar days ahead that plan KPIs look at */
+export const KPI_HORIZON_DAYS = 56;
+
+const toKey = (d: Date) => format(d, "yyyy-MM-dd");
+
+// ── KPIs ───────────────────────────────────────────────────────────────
+
+export function planKPIs(
+  bookings: KPIBooking[],
+  orders: KPIOrder[],
+  lineIds: string[],
+  horizon: { start: string; end: string },
+  cal: WorkingCalendar,
+): PlanKPIs {
+  const workingDates: string[] = [];
+  for (let d = parseISO(horizon.start); toKey(d) <= horizon.end; d = addDays(d, 1)) {
+    const key = toKey(d);
+    if (isWorkingDay(cal, key)) workingDates.push(key);
+  }
+
+  let linesUtilised = 0;
+  let idleLineDays = 0;
+  for (const lineId of lineIds) {
+    const lineBookings = bookings.filter((b) => b.line_id === lineId && b.status !== "completed");
+    const booked = workingDates.filter((d) => lineBookings.some((b) => b.start_date <= d && b.end_date >= d)).length;
+    if (booked > 0) linesUtilised++;
+    idleLineDays += workingDates.length - booked;
+  }
+
+  const finish = new Map<string, string>();
+  for (const b of bookings) {
+    const cur = finish.get(b.work_order_id);
+    if (!cur || b.end_date > cur) finish.set(b.work_order_id, b.end_date);
+  }
+  const posLate = orders.filter((o) => {
+    const end = finish.get(o.id);
+    return !!end && !!o.planned_ex_factory && end > o.planned_ex_factory;
+  }).length;
+
+  return { linesUtilised, lineCount: lineIds.length, posLate, idleLineDays };
+}
+
+/** Each KPI against a baseline plan; more lines in use is better, late POs and idle days are worse. */
+export function compareKPIs(plan: PlanKPIs, baseline: PlanKPIs): KPIDelta[] {
+  const higherIsBetter = { linesUtilised: true, posLate: false, idleLineDays: false } as const;
+  return (Object.keys(higherIsBetter) as KPIDelta["key"][]).map((key) => {
+    const delta = plan[key] - baseline[key];
+    return { key, value: plan[key], delta, improved: higherIsBetter[key] ? delta > 0 : delta < 0 };
+  });
+}
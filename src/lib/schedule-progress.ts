@@ -0,0 +1,216 @@
+import { addDays, format, parseISO } from "date-fns";
+import { addWorkingDays, countWorkingDays, type WorkingCalendar } from "./working-days";
+import { rampFactor } from "./learning-curve";
+
+/**
+ * Plan vs actual for production schedule bookings. Sewing output on a
+ * booking's line and PO is compared with what the plan expected by the same
+ * day, and the booking's status follows from that instead of being set by
+ * hand. When a booking slips, the bookings queued behind it on the line are
+ * pushed right in order.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export type ScheduleStatus = "not_started" | "in_progress" | "completed" | "delayed";
+
+export interface ProgressBooking {
+  id: string;
+  line_id: string;
+  work_order_id: string;
+  start_date: string;
+  end_date: string;
+  target_qty: number | null;
+  daily_target: number | null;
+}
+
+export interface LineActual {
+  line_id: string;
+  work_order_id: string;
+  production_date: string;
+  good_today: number;
+}
+
+export interface ScheduleProgress {
+  /** Good output sewn on this booking's line and PO */
+  actualQty: number;
+  /** What the plan expected by the last reported day */
+  plannedQty: number;
+  targetQty: number;
+  /** actual − planned; negative when behind */
+  variance: number;
+  lastOutputDate: string | null;
+  /** Average good output over the latest days with output */
+  recentPerDay: number;
+  /** Finish at recent pace; null before any output */
+  forecastEnd: string | null;
+  status: ScheduleStatus;
+}
+
+export interface RescheduledBooking {
+  id: string;
+  start_date: string;
+  end_date: string;
+}
+
+/** Share of planned output a booking may fall short by before it counts as delayed */
+export const SLIP_TOLERANCE = 0.1;
+
+// Days of output averaged for the recent pace
+const PACE_WINDOW = 3;
+
+const toKey = (d: Date) => format(d, "yyyy-MM-dd");
+const dayBefore = (date: string) => toKey(addDays(parseISO(date), -1));
+
+// ── Plan ───────────────────────────────────────────────────────────────
+
+/**
+ * Pieces the booking should have sewn by the end of `asOf`: daily_target per
+ * working day (scaled by any changeover ramp), or target_qty spread evenly
+ * over the booked working days when there is no daily target.
+ */
+export function plannedOutput(
+  booking: Pick<ProgressBooking, "start_date" | "end_date" | "target_qty" | "daily_target">,
+  asOf: string,
+  cal: WorkingCalendar,
+  rampSteps: number[] = [],
+): number {
+  if (asOf < booking.start_date) return 0;
+  const until = asOf < booking.end_date ? asOf : booking.end_date;
+  const elapsed = countWorkingDays(cal, booking.start_date, until);
+  const target = booking.target_qty ?? Infinity;
+
+  if (booking.daily_target && booking.daily_target > 0) {
+    let planned = 0;
+    for (let i = 0; i < elapsed; i++) planned += booking.daily_target * rampFactor(rampSteps, i);
+    return Math.round(Math.min(planned, target));
+  }
+  if (booking.target_qty == null) return 0;
+  const total = countWorkingDays(cal, booking.start_date, booking.end_date);
+  return total > 0 ? Math.round((booking.target_qty * elapsed) / total) : booking.target_qty;
+}
+
+// ── Actuals ────────────────────────────────────────────────────────────
+
+/**
+ * Split sewing actuals across bookings by line and PO. When a PO is booked
+ * on a line more than once, each day's output goes to the latest booking
+ * started by then; output before the first booking goes to the first.
+ */
+export function actualsByBooking(bookings: ProgressBooking[], actuals: LineActual[]): Map<string, LineActual[]> {
+  const byPair = new Map<string, ProgressBooking[]>();
+  for (const b of bookings) {
+    const key = `${b.line_id}|${b.work_order_id}`;
+    const list = byPair.get(key) ?? [];
+    list.push(b);
+    byPair.set(key, list);
+  }
+  for (const list of byPair.values()) list.sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+  const result = new Map<string, LineActual[]>(bookings.map((b) => [b.id, []]));
+  for (const a of actuals) {
+    const list = byPair.get(`${a.line_id}|${a.work_order_id}`);
+    if (!list) continue;
+    let owner = list[0];
+    for (const b of list) if (b.start_date <= a.production_date) owner = b;
+    result.get(owner.id)!.push(a);
+  }
+  return result;
+}
+
+// ── Progress ───────────────────────────────────────────────────────────
+
+/**
+ * Where a booking stands against its plan on `today`. Today's plan only
+ * counts once today's output is in, so a line isn't delayed before its
+ * end-of-day report.
+ */
+export function scheduleProgress(
+  booking: ProgressBooking,
+  actuals: LineActual[],
+  targetFallback: number,
+  today: string,
+  cal: WorkingCalendar,
+  rampSteps: number[] = [],
+): ScheduleProgress {
+  const targetQty = booking.target_qty ?? targetFallback;
+  const byDate = new Map<string, number>();
+  for (const a of actuals) byDate.set(a.production_date, (byDate.get(a.production_date) ?? 0) + (a.good_today || 0));
+  const actualQty = Array.from(byDate.values()).reduce((sum, n) => sum + n, 0);
+
+  const outputDays = Array.from(byDate.entries())
+    .filter(([, n]) => n > 0)
+    .map(([d]) => d)
+    .sort();
+  const lastOutputDate = outputDays.length > 0 ? outputDays[outputDays.length - 1] : null;
+  const recent = outputDays.slice(-PACE_WINDOW);
+  const recentPerDay = recent.length > 0 ? recent.reduce((sum, d) => sum + byDate.get(d)!, 0) / recent.length : 0;
+
+  const asOf = lastOutputDate === today ? today : dayBefore(today);
+  const plannedQty = plannedOutput({ ...booking, target_qty: targetQty }, asOf, cal, rampSteps);
+  const remaining = Math.max(targetQty - actualQty, 0);
+
+  let forecastEnd: string | null = null;
+  if (remaining === 0 && lastOutputDate) forecastEnd = lastOutputDate;
+  else if (recentPerDay > 0) forecastEnd = addWorkingDays(cal, asOf, Math.ceil(remaining / recentPerDay));
+
+  let status: ScheduleStatus;
+  if (targetQty > 0 && remaining === 0) status = "completed";
+  else if (actualQty === 0 && plannedQty === 0 && today <= booking.end_date) status = "not_started";
+  else if (today > booking.end_date || actualQty < plannedQty * (1 - SLIP_TOLERANCE)) status = "delayed";
+  else if (forecastEnd && forecastEnd > booking.end_date) status = "delayed";
+  else status = "in_progress";
+
+  return {
+    actualQty,
+    plannedQty,
+    targetQty,
+    variance: actualQty - plannedQty,
+    lastOutputDate,
+    recentPerDay,
+    forecastEnd,
+    status,
+  };
+}
+
+// ── Re-forecast ────────────────────────────────────────────────────────
+
+/**
+ * Move a slipping booking's end to `newEnd` and push the bookings queued
+ * behind it on the same line to the right. A booking is behind another when
+ * it started after that one ended; it keeps its length in working days and
+ * only moves when its predecessor now runs into it. Bookings running in
+ * parallel lanes are left alone. Returns only the bookings that change.
+ */
+export function reforecastLine(
+  lineBookings: Pick<ProgressBooking, "id" | "start_date" | "end_date">[],
+  slippedId: string,
+  newEnd: string,
+  cal: WorkingCalendar,
+): RescheduledBooking[] {
+  const slipped = lineBookings.find((b) => b.id === slippedId);
+  if (!slipped || newEnd <= slipped.end_date) return [];
+
+  const placed: { origEnd: string; end: string }[] = [{ origEnd: slipped.end_date, end: newEnd }];
+  const changes: RescheduledBooking[] = [{ id: slipped.id, start_date: slipped.start_date, end_date: newEnd }];
+
+  const behind = lineBookings
+    .filter((b) => b.id !== slippedId && b.start_date > slipped.end_date)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date) || a.end_date.localeCompare(b.end_date));
+
+  for (const b of behind) {
+    const predecessor = placed
+      .filter((p) => p.origEnd < b.start_date)
+      .reduce<{ origEnd: string; end: string } | null>((latest, p) => (!latest || p.end > latest.end ? p : latest), null);
+    if (!predecessor || predecessor.end < b.start_date) {
+      placed.push({ origEnd: b.end_date, end: b.end_date });
+      continue;
+    }
+    const length = Math.max(1, countWorkingDays(cal, b.start_date, b.end_date));
+    const start = addWorkingDays(cal, predecessor.end, 1);
+    const end = addWorkingDays(cal, start, length - 1);
+    placed.push({ origEnd: b.end_date, end });
+    changes.push({ id: b.id, start_date: start, end_date: end });
+  }
+  return changes;
+}
@@ -0,0 +1,126 @@
+/**
+ * Hour-by-hour sewing board helpers: per-hour status, DHU and the end-of-day
+ * totals derived from the hourly rows. Slots come from the factory's shift
+ * definitions (see ./shifts).
+ */
+
+import { sortBySlots, type HourSlot } from "./shifts";
+
+/** An hour at or above this share of its target is "slightly behind" rather than "behind". */
+export const SLIGHTLY_BEHIND_RATIO = 0.9;
+
+export type HourSlotStatus =
+  | "upcoming"
+  | "current"
+  | "missing"
+  | "on-target"
+  | "slightly-behind"
+  | "behind";
+
+export const HOUR_SLOT_STATUS_LABELS: Record<HourSlotStatus, string> = {
+  upcoming: "Upcoming",
+  current: "Now",
+  missing: "Not logged",
+  "on-target": "On target",
+  "slightly-behind": "Slightly behind",
+  behind: "Behind",
+};
+
+export interface HourlyLogLike {
+  hour_slot: string;
+  target_qty: number;
+  good_qty: number;
+  reject_qty: number;
+  rework_qty: number;
+  defect_count: number;
+}
+
+export interface HourlyTotals {
+  hoursLogged: number;
+  target: number;
+  good: number;
+  reject: number;
+  rework: number;
+  defects: number;
+  /** Pieces the checker looked at: good + reject + rework */
+  checked: number;
+  /** Defects per hundred units, one decimal; null when nothing was checked */
+  dhu: number | null;
+  variance: number;
+}
+
+// ── Status ─────────────────────────────────────────────────────────────
+
+/**
+ * How one hour is going. A logged hour is judged on good output vs target;
+ * an unlogged hour is upcoming, running now, or missing once it has ended.
+ * `now` is minutes on the shift timeline (see shiftClock), or null when
+ * viewing a past date.
+ */
+export function hourSlotStatus(slot: HourSlot, log: HourlyLogLike | undefined, now: number | null): HourSlotStatus {
+  if (log) {
+    if (log.target_qty <= 0 || log.good_qty >= log.target_qty) return "on-target";
+    return log.good_qty >= log.target_qty * SLIGHTLY_BEHIND_RATIO ? "slightly-behind" : "behind";
+  }
+  if (now === null || now >= slot.end) return "missing";
+  if (now >= slot.start) return "current";
+  return "upcoming";
+}
+
+// ── Totals ─────────────────────────────────────────────────────────────
+
+export function dhu(defects: number, checked: number): number | null {
+  if (!(checked > 0)) return null;
+  return Math.round((defects / checked) * 1000) / 10;
+}
+
+export function checkedQty(log: Pick<HourlyLogLike, "good_qty" | "reject_qty" | "rework_qty">): number {
+  return (log.good_qty || 0) + (log.reject_qty || 0) + (log.rework_qty || 0);
+}
+
+export function summarizeHourly(logs: HourlyLogLike[]): HourlyTotals {
+  let target = 0;
+  let good = 0;
+  let reject = 0;
+  let rework = 0;
+  let defects = 0;
+  for (const l of logs) {
+    target += l.target_qty || 0;
+    good += l.good_qty || 0;
+    reject += l.reject_qty || 0;
+    rework += l.rework_qty || 0;
+    defects += l.defect_count || 0;
+  }
+  const checked = good + reject + rework;
+  return {
+    hoursLogged: logs.length,
+    target,
+    good,
+    reject,
+    rework,
+    defects,
+    checked,
+    dhu: dhu(defects, checked),
+    variance: good - target,
+  };
+}
+
+/** Cumulative good minus cumulative target after each logged slot, in slot order. */
+export function runningVariance(logs: HourlyLogLike[], slots: HourSlot[]): Map<string, number> {
+  const result = new Map<string, number>();
+  let running = 0;
+  for (const l of sortBySlots(logs, slots)) {
+    running += (l.good_qty || 0) - (l.target_qty || 0);
+    result.set(l.hour_slot, running);
+  }
+  return result;
+}
+
+/** End-of-day quantities from the hourly rows; null when the line didn't log hourly. */
+export function endOfDayFromHourly(
+  logs: HourlyLogLike[],
+): { good_today: number; reject_today: number; rework_today: number } | null {
+  if (logs.length === 0) return null;
+  const t = summarizeHourly(logs);
+  return { good_today: t.good, reject_today: t.reject, rework_today: t.rework };
+}
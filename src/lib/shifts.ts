@@ -0,0 +1,246 @@
+/**
+ * Per-factory shift definitions and the hour slots derived from them.
+ *
+ * Times are "HH:MM" in factory time. Everything is placed on a timeline of
+ * minutes from midnight of the production date, so a night shift that ends at
+ * or before its start simply runs past 1440 and its early-morning hours still
+ * belong to the date the shift started.
+ */
+
+export interface ShiftBreak {
+  start: string;
+  end: string;
+  label?: string | null;
+}
+
+export interface ShiftDefinition {
+  /** null for the built-in default used before a factory configures shifts */
+  id: string | null;
+  name: string;
+  start_time: string;
+  end_time: string;
+  breaks: ShiftBreak[];
+  /** Number of one-hour overtime slots after the shift ends */
+  ot_slots: number;
+}
+
+export interface HourSlot {
+  /** Value stored in hour_slot columns: "08-09", "02-03", "OT-1" */
+  key: string;
+  /** Minutes from midnight of the production date; past 1440 on night shifts */
+  start: number;
+  end: number;
+  overtime: boolean;
+}
+
+/**
+ * What every factory ran before shifts were configurable: 8 am to 7 pm with a
+ * 1–2 pm lunch. Produces the legacy "08-09" … "06-07" and "OT-1" … "OT-5" slots.
+ */
+export const DEFAULT_SHIFT: ShiftDefinition = {
+  id: null,
+  name: "General",
+  start_time: "08:00",
+  end_time: "19:00",
+  breaks: [{ start: "13:00", end: "14:00", label: "Lunch" }],
+  ot_slots: 5,
+};
+
+export const MAX_OT_SLOTS = 6;
+
+const DAY = 1440;
+
+// ── Time parsing ───────────────────────────────────────────────────────
+
+/** Minutes after midnight for "HH:MM" or "HH:MM:SS"; null when unparseable. */
+export function parseTime(value: string | null | undefined): number | null {
+  const m = /^(\d{1,2}):(\d{2})/.exec(value ?? "");
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return h * 60 + min;
+}
+
+/** "HH:MM" on a 24-hour clock, wrapping past midnight. */
+export function formatTime(minutes: number): string {
+  const m = ((minutes % DAY) + DAY) % DAY;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+}
+
+/** Shift start and end on the production-date timeline. */
+export function shiftSpan(shift: ShiftDefinition): { start: number; end: number } {
+  const start = parseTime(shift.start_time) ?? 0;
+  let end = parseTime(shift.end_time) ?? start;
+  if (end <= start) end += DAY;
+  return { start, end };
+}
+
+/** Last minute of the shift including its overtime slots. */
+export function shiftEndWithOvertime(shift: ShiftDefinition): number {
+  return shiftSpan(shift).end + Math.max(0, shift.ot_slots) * 60;
+}
+
+export function crossesMidnight(shift: ShiftDefinition): boolean {
+  return shiftSpan(shift).end > DAY;
+}
+
+/** Break windows placed on the shift's timeline, clipped to the shift and sorted. */
+function breakWindows(shift: ShiftDefinition): { start: number; end: number }[] {
+  const span = shiftSpan(shift);
+  const windows: { start: number; end: number }[] = [];
+  for (const b of shift.breaks ?? []) {
+    let start = parseTime(b.start);
+    let end = parseTime(b.end);
+    if (start === null || end === null) continue;
+    // A 01:00 break in a night shift happens after midnight
+    if (start < span.start) {
+      start += DAY;
+      end += DAY;
+    }
+    if (end <= start) end += DAY;
+    start = Math.max(start, span.start);
+    end = Math.min(end, span.end);
+    if (end > start) windows.push({ start, end });
+  }
+  return windows.sort((a, b) => a.start - b.start);
+}
+
+// ── Slots ──────────────────────────────────────────────────────────────
+
+/**
+ * Short shop-floor label for a slot on a 12-hour clock, matching the old
+ * fixed slots: 14:00–15:00 is "02-03". Off-the-hour slots keep their minutes.
+ */
+export function slotLabel(start: number, end: number): string {
+  const part = (minutes: number) => {
+    const m = ((minutes % DAY) + DAY) % DAY;
+    const h = ((Math.floor(m / 60) + 11) % 12) + 1;
+    const hh = String(h).padStart(2, "0");
+    return m % 60 === 0 ? hh : `${hh}:${String(m % 60).padStart(2, "0")}`;
+  };
+  return `${part(start)}-${part(end)}`;
+}
+
+/**
+ * Hour slots for a shift: one per working hour with breaks cut out (a slot
+ * that runs into a break ends early), followed by the overtime slots.
+ */
+export function buildHourSlots(shift: ShiftDefinition, opts: { overtime?: boolean } = {}): HourSlot[] {
+  const { start, end } = shiftSpan(shift);
+  const breaks = breakWindows(shift);
+  const slots: HourSlot[] = [];
+
+  let t = start;
+  while (t < end) {
+    const inBreak = breaks.find((b) => t >= b.start && t < b.end);
+    if (inBreak) {
+      t = inBreak.end;
+      continue;
+    }
+    const nextBreak = breaks.find((b) => b.start > t)?.start ?? Infinity;
+    const slotEnd = Math.min(t + 60, end, nextBreak);
+    slots.push({ key: slotLabel(t, slotEnd), start: t, end: slotEnd, overtime: false });
+    t = slotEnd;
+  }
+
+  if (opts.overtime !== false) {
+    for (let i = 1; i <= Math.max(0, shift.ot_slots); i++) {
+      slots.push({ key: `OT-${i}`, start: end + (i - 1) * 60, end: end + i * 60, overtime: true });
+    }
+  }
+  return slots;
+}
+
+/** Regular working time of a shift in hours, breaks excluded. */
+export function workingHours(shift: ShiftDefinition): number {
+  const minutes = buildHourSlots(shift, { overtime: false }).reduce((sum, s) => sum + (s.end - s.start), 0);
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
+/** Orders rows by their slot's position in the shift; unknown slots go last. */
+export function sortBySlots<T extends { hour_slot: string }>(rows: T[], slots: HourSlot[]): T[] {
+  const order = new Map(slots.map((s, i) => [s.key, i]));
+  return [...rows].sort((a, b) => (order.get(a.hour_slot) ?? Infinity) - (order.get(b.hour_slot) ?? Infinity));
+}
+
+// ── Clock ──────────────────────────────────────────────────────────────
+
+/**
+ * Current time on the shift's timeline. Early-morning minutes of a shift that
+ * started yesterday evening are pushed past 1440.
+ */
+export function shiftClock(shift: ShiftDefinition, hour: number, minute = 0): number {
+  const now = hour * 60 + minute;
+  const { start } = shiftSpan(shift);
+  if (now < start && now + DAY < shiftEndWithOvertime(shift)) return now + DAY;
+  return now;
+}
+
+/** The shift running at this time of day (overtime included), or null between shifts. */
+export function currentShift<S extends ShiftDefinition>(shifts: S[], hour: number, minute = 0): S | null {
+  return shifts.find((s) => {
+    const now = shiftClock(s, hour, minute);
+    return now >= shiftSpan(s).start && now < shiftEndWithOvertime(s);
+  }) ?? null;
+}
+
+/**
+ * Production date an entry made now belongs to: yesterday while last night's
+ * shift is still running, otherwise today. `today` is yyyy-MM-dd.
+ */
+export function shiftProductionDate(shift: ShiftDefinition | null, today: string, hour: number, minute = 0): string {
+  if (!shift || shiftClock(shift, hour, minute) < DAY) return today;
+  const d = new Date(`${today}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().slice(0, 10);
+}
+
+export function currentSlot(slots: HourSlot[], now: number): HourSlot | null {
+  return slots.find((s) => now >= s.start && now < s.end) ?? null;
+}
+
+// ── Editing window ─────────────────────────────────────────────────────
+
+/**
+ * Minutes after midnight of the production date when editing closes. A
+ * 00:00 (or missing) cutoff means the end of the production day, which runs
+ * until the last shift ends. When a night shift runs past midnight, an
+ * early-morning cutoff — before the night shift ends or the first day shift
+ * starts — is read as the next morning; later cutoffs stay on the day.
+ */
+export function editDeadline(shifts: ShiftDefinition[], cutoffTime: string | null | undefined): number {
+  const spans = shifts.map(shiftSpan);
+  const lastEnd = Math.max(DAY, ...spans.map((s) => s.end));
+  const cutoff = parseTime(cutoffTime);
+  if (cutoff === null || cutoff === 0) return lastEnd;
+
+  const night = spans.filter((s) => s.end > DAY);
+  if (night.length === 0) return cutoff;
+  // Without a day shift the morning lasts until the night shift starts again
+  const dayStarts = spans.filter((s) => s.end <= DAY).map((s) => s.start);
+  const morningEnds = Math.max(
+    Math.max(...night.map((s) => s.end)) - DAY,
+    Math.min(...(dayStarts.length > 0 ? dayStarts : night.map((s) => s.start))),
+  );
+  return cutoff < morningEnds ? cutoff + DAY : cutoff;
+}
+
+/**
+ * Whether a submission dated `daysAgo` days back (0 = today) is still
+ * editable `nowMinutes` after today's midnight.
+ */
+export function isWithinEditWindow(daysAgo: number, nowMinutes: number, deadline: number): boolean {
+  if (daysAgo < 0) return false;
+  return daysAgo * DAY + nowMinutes < deadline;
+}
+
+/** Rows logged in a shift. Rows saved before shifts were configured belong to the first one. */
+export function rowsForShift<T extends { shift_id: string | null }>(
+  rows: T[],
+  shift: ShiftDefinition,
+  shifts: ShiftDefinition[],
+): T[] {
+  const fallback = shifts[0]?.id ?? null;
+  return rows.filter((r) => (r.shift_id ?? fallback) === shift.id);
+}
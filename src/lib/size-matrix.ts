@@ -0,0 +1,193 @@
+/**
+ * Size × colour quantities. A PO's matrix lists the ordered pieces for each
+ * colour and size (`[{ colour, quantities: { S: 120, M: 240 } }]`); cutting,
+ * sewing and finishing submissions can carry the same shape for what they
+ * produced that day. Roll-ups compare the two to give the balance still to
+ * produce per size and colour.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export type SizeQuantities = Record<string, number>;
+
+export interface ColourBreakdown {
+  colour: string;
+  quantities: SizeQuantities;
+}
+
+export type SizeStage = "cut" | "sewn" | "finished";
+
+export interface SizeRollupCell {
+  ordered: number;
+  cut: number;
+  sewn: number;
+  finished: number;
+  /** ordered − finished; negative once the PO is over-produced */
+  balance: number;
+}
+
+export interface SizeRollupRow {
+  colour: string;
+  cells: Record<string, SizeRollupCell>;
+  total: SizeRollupCell;
+}
+
+export interface SizeRollup {
+  sizes: string[];
+  rows: SizeRollupRow[];
+  total: SizeRollupCell;
+  /** Pieces each stage reported without a size breakdown, so not in the matrix */
+  unallocated: Record<SizeStage, number>;
+}
+
+export interface StageOutput {
+  /** The submission's headline quantity (day cutting, good today, poly) */
+  qty: number;
+  breakdown: ColourBreakdown[] | null;
+}
+
+export const STANDARD_SIZES = ["XS", "S", "M", "L", "XL", "XXL"];
+
+const sum = (q: SizeQuantities) => Object.values(q).reduce((s, n) => s + n, 0);
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+export function breakdownTotal(breakdown: ColourBreakdown[]): number {
+  return breakdown.reduce((s, b) => s + sum(b.quantities), 0);
+}
+
+/** A stored breakdown (JSONB) as typed rows; null when missing or malformed. */
+export function parseBreakdown(value: unknown): ColourBreakdown[] | null {
+  if (!Array.isArray(value)) return null;
+  const out: ColourBreakdown[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") return null;
+    const { colour, quantities } = item as { colour?: unknown; quantities?: unknown };
+    if (typeof colour !== "string" || !quantities || typeof quantities !== "object") return null;
+    const q: SizeQuantities = {};
+    for (const [size, qty] of Object.entries(quantities)) {
+      const n = Number(qty);
+      if (Number.isFinite(n) && n > 0) q[size] = n;
+    }
+    out.push({ colour, quantities: q });
+  }
+  return out.length > 0 ? out : null;
+}
+
+/** True when every colour is named once and some quantity is entered. */
+export function isValidBreakdown(sizes: string[], breakdown: ColourBreakdown[]): boolean {
+  const colours = breakdown.map((b) => b.colour.trim());
+  return (
+    sizes.length > 0 &&
+    colours.length > 0 &&
+    colours.every(Boolean) &&
+    new Set(colours).size === colours.length &&
+    breakdownTotal(breakdown) > 0
+  );
+}
+
+/** Standard sizes first in their usual order, then the rest as listed. */
+export function sortSizes(sizes: string[]): string[] {
+  const unique = Array.from(new Set(sizes));
+  const rank = (s: string) => {
+    const i = STANDARD_SIZES.indexOf(s);
+    return i === -1 ? STANDARD_SIZES.length + unique.indexOf(s) : i;
+  };
+  return unique.sort((a, b) => rank(a) - rank(b));
+}
+
+/** Drops zero quantities and colours left with nothing; null when nothing is left. */
+export function compactBreakdown(breakdown: ColourBreakdown[]): ColourBreakdown[] | null {
+  const out = breakdown
+    .map((b) => ({
+      colour: b.colour.trim(),
+      quantities: Object.fromEntries(Object.entries(b.quantities).filter(([, q]) => q > 0)),
+    }))
+    .filter((b) => b.colour && Object.keys(b.quantities).length > 0);
+  return out.length > 0 ? out : null;
+}
+
+/** An empty entry grid with the PO's colours, for a form to fill in. */
+export function emptyBreakdown(template: ColourBreakdown[]): ColourBreakdown[] {
+  return template.map((b) => ({ colour: b.colour, quantities: {} }));
+}
+
+// ── Roll-up ────────────────────────────────────────────────────────────
+
+const emptyCell = (): SizeRollupCell => ({ ordered: 0, cut: 0, sewn: 0, finished: 0, balance: 0 });
+
+/**
+ * Ordered against cut, sewn and finished pieces for every colour and size.
+ * Only submissions entered by matrix count towards a cell; the rest show up
+ * in `unallocated`.
+ */
+export function sizeRollup(
+  ordered: ColourBreakdown[],
+  sizes: string[],
+  stages: Record<SizeStage, StageOutput[]>
+): SizeRollup {
+  const rows = new Map<string, SizeRollupRow>();
+  const allSizes = new Set(sizes);
+  const total = emptyCell();
+  const unallocated: Record<SizeStage, number> = { cut: 0, sewn: 0, finished: 0 };
+
+  const row = (colour: string) => {
+    let r = rows.get(colour);
+    if (!r) {
+      r = { colour, cells: {}, total: emptyCell() };
+      rows.set(colour, r);
+    }
+    return r;
+  };
+  const add = (colour: string, size: string, key: keyof Omit<SizeRollupCell, "balance">, qty: number) => {
+    const r = row(colour);
+    allSizes.add(size);
+    r.cells[size] ??= emptyCell();
+    r.cells[size][key] += qty;
+    r.total[key] += qty;
+    total[key] += qty;
+  };
+
+  for (const b of ordered) {
+    row(b.colour);
+    for (const [size, qty] of Object.entries(b.quantities)) add(b.colour, size, "ordered", qty);
+  }
+  for (const stage of ["cut", "sewn", "finished"] as SizeStage[]) {
+    for (const output of stages[stage]) {
+      if (!output.breakdown) {
+        unallocated[stage] += output.qty;
+        continue;
+      }
+      for (const b of output.breakdown) {
+        for (const [size, qty] of Object.entries(b.quantities)) add(b.colour, size, stage, qty);
+      }
+    }
+  }
+
+  // The PO's size order, then any size only seen in submissions
+  const orderedSizes = [...sizes, ...sortSizes([...allSizes].filter((s) => !sizes.includes(s)))];
+  for (const r of rows.values()) {
+    for (const s of orderedSizes) {
+      r.cells[s] ??= emptyCell();
+      r.cells[s].balance = r.cells[s].ordered - r.cells[s].finished;
+    }
+    r.total.balance = r.total.ordered - r.total.finished;
+  }
+  total.balance = total.ordered - total.finished;
+
+  return { sizes: orderedSizes, rows: Array.from(rows.values()), total, unallocated };
+}
+
+/** Size total across colours, for a rollup's footer. */
+export function sizeColumnTotal(rollup: SizeRollup, size: string): SizeRollupCell {
+  const out = emptyCell();
+  for (const r of rollup.rows) {
+    const c = r.cells[size];
+    out.ordered += c.ordered;
+    out.cut += c.cut;
+    out.sewn += c.sewn;
+    out.finished += c.finished;
+    out.balance += c.balance;
+  }
+  return out;
+}
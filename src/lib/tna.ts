@@ -0,0 +1,175 @@
+import { addWorkingDays, workingDaysBetween, type WorkingCalendar } from "./working-days";
+
+/**
+ * Time & Action (T&A) calendar. A template lists pre-production and shipping
+ * milestones with how many working days before ex-factory each is due; a PO's
+ * plan is that list counted back from its planned ex-factory date.
+ *
+ * Milestones run in order, so lateness carries forward: a lab dip approved
+ * four days late pushes every open milestone after it — and ex-factory — by
+ * four days, until a milestone is actually done.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export interface TnATemplateItem {
+  milestone_code: string;
+  label: string;
+  /** Working days before ex-factory */
+  days_before: number;
+  item_order: number;
+}
+
+export interface TnATemplate {
+  id: string;
+  name: string;
+  product_category: string | null;
+  is_default: boolean;
+  items: TnATemplateItem[];
+}
+
+export interface PlannedMilestone extends TnATemplateItem {
+  planned_date: string;
+}
+
+export interface POMilestone extends PlannedMilestone {
+  id: string;
+  actual_date: string | null;
+  owner_id: string | null;
+  notes?: string | null;
+}
+
+export type MilestoneState = "done" | "done_late" | "overdue" | "due_soon" | "open";
+
+export interface TrackedMilestone extends POMilestone {
+  state: MilestoneState;
+  /** Expected finish: the actual date, or the planned date pushed out by upstream slip */
+  projectedDate: string;
+  /** Working days behind plan carried into this milestone */
+  slipDays: number;
+}
+
+export interface TnAStatus {
+  milestones: TrackedMilestone[];
+  total: number;
+  done: number;
+  overdue: number;
+  /** First milestone not done yet */
+  next: TrackedMilestone | null;
+  /** Working days the open chain is behind plan */
+  slipDays: number;
+  /** Ex-factory pushed out by the slip; null without an ex-factory date */
+  projectedExFactory: string | null;
+}
+
+/** Open milestones due within this many working days count as due soon */
+export const DUE_SOON_DAYS = 3;
+
+/** Starting point for a new template: a typical woven/knit garment order. */
+export const STANDARD_TNA_ITEMS: TnATemplateItem[] = [
+  { milestone_code: "lab_dip", label: "Lab dip approval", days_before: 55, item_order: 1 },
+  { milestone_code: "fit_sample", label: "Fit sample approval", days_before: 45, item_order: 2 },
+  { milestone_code: "pp_sample", label: "PP sample approval", days_before: 30, item_order: 3 },
+  { milestone_code: "fabric_inhouse", label: "Fabric in-house", days_before: 25, item_order: 4 },
+  { milestone_code: "trims_inhouse", label: "Trims in-house", days_before: 20, item_order: 5 },
+  { milestone_code: "inline_inspection", label: "Inline inspection", days_before: 8, item_order: 6 },
+  { milestone_code: "shipment_booking", label: "Shipment booking", days_before: 5, item_order: 7 },
+  { milestone_code: "final_inspection", label: "Final inspection", days_before: 2, item_order: 8 },
+];
+
+export const MILESTONE_STATE_LABELS: Record<MilestoneState, string> = {
+  done: "Done",
+  done_late: "Done late",
+  overdue: "Overdue",
+  due_soon: "Due soon",
+  open: "Planned",
+};
+
+const normalize = (s: string | null | undefined) => (s ?? "").trim().toLowerCase();
+const byOrder = <T extends { item_order: number }>(a: T, b: T) => a.item_order - b.item_order;
+
+// ── Templates ──────────────────────────────────────────────────────────
+
+/** The product category's template, then the default. */
+export function resolveTemplate(templates: TnATemplate[], category: string | null | undefined): TnATemplate | null {
+  const key = normalize(category);
+  if (key) {
+    const match = templates.find((t) => normalize(t.product_category) === key);
+    if (match) return match;
+  }
+  return templates.find((t) => t.is_default) ?? null;
+}
+
+/** Milestone code from a label: "PP sample approval" → "pp_sample_approval". */
+export function milestoneCode(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+// ── Planning ───────────────────────────────────────────────────────────
+
+/** Count each template milestone back from ex-factory, in working days. */
+export function planMilestones(
+  items: TnATemplateItem[],
+  exFactory: string,
+  cal: WorkingCalendar,
+): PlannedMilestone[] {
+  return [...items]
+    .sort(byOrder)
+    .map((item) => ({ ...item, planned_date: addWorkingDays(cal, exFactory, -item.days_before) }));
+}
+
+/** New planned dates for open milestones after ex-factory moves. Done milestones keep theirs. */
+export function replanMilestones(
+  milestones: POMilestone[],
+  exFactory: string,
+  cal: WorkingCalendar,
+): { id: string; planned_date: string }[] {
+  return milestones.flatMap((m) => {
+    if (m.actual_date) return [];
+    const planned_date = addWorkingDays(cal, exFactory, -m.days_before);
+    return planned_date !== m.planned_date ? [{ id: m.id, planned_date }] : [];
+  });
+}
+
+// ── Tracking ───────────────────────────────────────────────────────────
+
+export function milestoneState(m: POMilestone, today: string, cal: WorkingCalendar): MilestoneState {
+  if (m.actual_date) return m.actual_date > m.planned_date ? "done_late" : "done";
+  if (m.planned_date < today) return "overdue";
+  return workingDaysBetween(cal, today, m.planned_date) <= DUE_SOON_DAYS ? "due_soon" : "open";
+}
+
+/** Where a PO's T&A plan stands today, with slip carried down the chain. */
+export function trackMilestones(
+  milestones: POMilestone[],
+  exFactory: string | null,
+  today: string,
+  cal: WorkingCalendar,
+): TnAStatus {
+  let carried = 0;
+  const tracked = [...milestones].sort(byOrder).map((m): TrackedMilestone => {
+    const state = milestoneState(m, today, cal);
+    if (m.actual_date) {
+      // Done: the chain restarts from how late this one actually was
+      carried = Math.max(0, workingDaysBetween(cal, m.planned_date, m.actual_date));
+      return { ...m, state, projectedDate: m.actual_date, slipDays: carried };
+    }
+    if (state === "overdue") carried = Math.max(carried, workingDaysBetween(cal, m.planned_date, today));
+    return { ...m, state, projectedDate: addWorkingDays(cal, m.planned_date, carried), slipDays: carried };
+  });
+
+  const open = tracked.filter((m) => !m.actual_date);
+  return {
+    milestones: tracked,
+    total: tracked.length,
+    done: tracked.length - open.length,
+    overdue: tracked.filter((m) => m.state === "overdue").length,
+    next: open[0] ?? null,
+    slipDays: carried,
+    projectedExFactory: exFactory ? addWorkingDays(cal, exFactory, carried) : null,
+  };
+}
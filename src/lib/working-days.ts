@@ -0,0 +1,115 @@
+import { addDays, format, parseISO } from "date-fns";
+
+// ── Types ──────────────────────────────────────────────────────────────
+
+export type HolidayKind = "public" | "eid" | "shutdown";
+
+export interface FactoryHolidayRange {
+  name: string;
+  kind: HolidayKind;
+  /** YYYY-MM-DD, inclusive */
+  start_date: string;
+  /** YYYY-MM-DD, inclusive; null for a single day */
+  end_date: string | null;
+}
+
+export interface WorkingCalendar {
+  /** Weekdays the factory is closed, 0 = Sunday … 6 = Saturday */
+  nonWorkingWeekdays: number[];
+  /** Closed dates keyed by YYYY-MM-DD */
+  holidays: Map<string, FactoryHolidayRange>;
+}
+
+export const HOLIDAY_KIND_LABELS: Record<HolidayKind, string> = {
+  public: "Public holiday",
+  eid: "Eid closure",
+  shutdown: "Shutdown",
+};
+
+/** Every day is a working day — the behaviour before a calendar is set up */
+export const EMPTY_CALENDAR: WorkingCalendar = { nonWorkingWeekdays: [], holidays: new Map() };
+
+// Guard for loops walking the calendar: ten years of days
+const MAX_SCAN_DAYS = 3660;
+
+// ── Building ───────────────────────────────────────────────────────────
+
+const toKey = (d: Date) => format(d, "yyyy-MM-dd");
+
+export function buildWorkingCalendar(
+  nonWorkingWeekdays: number[] | null | undefined,
+  holidays: FactoryHolidayRange[],
+): WorkingCalendar {
+  const map = new Map<string, FactoryHolidayRange>();
+  for (const h of holidays) {
+    const start = parseISO(h.start_date);
+    const end = parseISO(h.end_date ?? h.start_date);
+    for (let d = start, i = 0; d <= end && i < MAX_SCAN_DAYS; d = addDays(d, 1), i++) {
+      map.set(toKey(d), h);
+    }
+  }
+  return {
+    // A factory closed every day of the week would make every loop below spin
+    nonWorkingWeekdays: (nonWorkingWeekdays ?? []).length >= 7 ? [] : [...(nonWorkingWeekdays ?? [])],
+    holidays: map,
+  };
+}
+
+// ── Queries ────────────────────────────────────────────────────────────
+
+export function holidayOn(cal: WorkingCalendar, date: string): FactoryHolidayRange | null {
+  return cal.holidays.get(date) ?? null;
+}
+
+export function isWorkingDay(cal: WorkingCalendar, date: string): boolean {
+  if (cal.holidays.has(date)) return false;
+  return !cal.nonWorkingWeekdays.includes(parseISO(date).getDay());
+}
+
+/** Working days in `start`..`end`, both inclusive */
+export function countWorkingDays(cal: WorkingCalendar, start: string, end: string): number {
+  let count = 0;
+  let d = parseISO(start);
+  const last = parseISO(end);
+  for (let i = 0; d <= last && i < MAX_SCAN_DAYS; d = addDays(d, 1), i++) {
+    if (isWorkingDay(cal, toKey(d))) count++;
+  }
+  return count;
+}
+
+/**
+ * Working-day counterpart of `differenceInDays(to, from)`: working days after
+ * `from` up to and including `to`. When `to` is before `from` the result is
+ * negative — at least -1, so a passed date never reads as "today".
+ */
+export function workingDaysBetween(cal: WorkingCalendar, from: string, to: string): number {
+  if (to === from) return 0;
+  if (to < from) return -Math.max(1, workingDaysBetween(cal, to, from));
+  return countWorkingDays(cal, toKey(addDays(parseISO(from), 1)), to);
+}
+
+/**
+ * The date `n` working days after `date`, or before it when `n` is negative.
+ * With `n = 0` returns `date` itself, even when it is not a working day.
+ */
+export function addWorkingDays(cal: WorkingCalendar, date: string, n: number): string {
+  const step = n < 0 ? -1 : 1;
+  let d = parseISO(date);
+  let left = Math.abs(n);
+  for (let i = 0; left > 0 && i < MAX_SCAN_DAYS; i++) {
+    d = addDays(d, step);
+    if (isWorkingDay(cal, toKey(d))) left--;
+  }
+  return toKey(d);
+}
+
+/** The latest `n` working dates up to and including `today`, newest first */
+export function recentWorkingDays(cal: WorkingCalendar, today: string, n: number): string[] {
+  const dates: string[] = [];
+  let d = parseISO(today);
+  for (let i = 0; dates.length < n && i < MAX_SCAN_DAYS; d = addDays(d, -1), i++) {
+    const key = toKey(d);
+    if (isWorkingDay(cal, key)) dates.push(key);
+  }
+  return dates;
+}
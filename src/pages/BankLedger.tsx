@@ -0,0 +1,420 @@
+import { useState, useEffect, useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { Wallet, Plus, Upload, Wand2, Pencil, MoreHorizontal, Link2, Unlink, EyeOff, Undo2, Trash2, Search } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { EmptyState } from "@/components/EmptyState";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { BankAccountDialog } from "@/components/bank/BankAccountDialog";
+import { ImportStatementDialog } from "@/components/bank/ImportStatementDialog";
+import { MatchTransactionDialog } from "@/components/bank/MatchTransactionDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useBankAccounts,
+  useBankTransactions,
+  useMatchCandidates,
+  useBankLedgerMutations,
+  type BankAccount,
+  type LedgerTransaction,
+} from "@/hooks/useBankLedger";
+import {
+  RECONCILIATION_STATUS_COLORS,
+  RECONCILIATION_STATUS_LABELS,
+  accountBalance,
+  toUsd,
+  withRunningBalance,
+  type ReconciliationStatus,
+} from "@/lib/bank-reconciliation";
+import { formatMoney } from "@/lib/lc-utils";
+
+type StatusTab = "all" | ReconciliationStatus;
+
+const STATUS_TABS: { value: StatusTab; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "unmatched", label: "Unmatched" },
+  { value: "matched", label: "Matched" },
+  { value: "ignored", label: "Ignored" },
+];
+
+function statusOf(t: LedgerTransaction): ReconciliationStatus {
+  return (t.reconciliation_status as ReconciliationStatus) || "unmatched";
+}
+
+function matchedLabel(t: LedgerTransaction) {
+  if (t.payments) {
+    return `${t.payments.buyer_name || t.payments.payee_name || t.payments.category} · ${format(parseISO(t.payments.payment_date), "d MMM")}`;
+  }
+  if (t.lc_banking_costs) {
+    const lc = t.lc_banking_costs.master_lcs?.lc_number;
+    return `${t.lc_banking_costs.cost_type}${lc ? ` · LC ${lc}` : ""}`;
+  }
+  return null;
+}
+
+function AccountCard({
+  account,
+  balance,
+  asOf,
+  unmatched,
+  usd,
+  selected,
+  onSelect,
+  onEdit,
+}: {
+  account: BankAccount;
+  balance: number;
+  asOf: string | null;
+  unmatched: number;
+  usd: number | null;
+  selected: boolean;
+  onSelect: () => void;
+  onEdit: () => void;
+}) {
+  const currency = account.currency || "USD";
+  return (
+    <Card
+      className={`cursor-pointer transition-all duration-200 group ${selected ? "ring-2 ring-primary" : "hover:shadow-sm"}`}
+      onClick={onSelect}
+    >
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <div className="text-sm font-semibold truncate">{account.account_label}</div>
+            <div className="text-xs text-muted-foreground truncate">
+              {[account.bank_name, account.account_number].filter(Boolean).join(" · ")}
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 opacity-0 group-hover:opacity-100 shrink-0"
+            onClick={(e) => { e.stopPropagation(); onEdit(); }}
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+        <div>
+          <div className="text-lg font-bold tabular-nums">{formatMoney(balance, currency)}</div>
+          <div className="text-xs text-muted-foreground tabular-nums">
+            {currency !== "USD" && usd != null ? `≈ ${formatMoney(usd, "USD")} · ` : ""}
+            {asOf ? `as of ${format(parseISO(asOf), "d MMM yyyy")}` : "No statements yet"}
+          </div>
+        </div>
+        {unmatched > 0 && <div className="text-[11px] font-medium text-amber-600 dark:text-amber-400">{unmatched} unmatched</div>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function BankLedger() {
+  const { factory } = useAuth();
+  const { accounts, isLoading: accountsLoading } = useBankAccounts();
+  const { transactions, isLoading: txLoading } = useBankTransactions();
+  const { candidates } = useMatchCandidates();
+  const m = useBankLedgerMutations();
+
+  const [accountFilter, setAccountFilter] = useState<string>("all");
+  const [tab, setTab] = useState<StatusTab>("all");
+  const [accountDialog, setAccountDialog] = useState<{ open: boolean; account: BankAccount | null }>({ open: false, account: null });
+  const [deleteAccountOpen, setDeleteAccountOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [matchTarget, setMatchTarget] = useState<LedgerTransaction | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<LedgerTransaction | null>(null);
+
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", "finance");
+    return () => { document.documentElement.removeAttribute("data-theme"); };
+  }, []);
+
+  const bdtRate = factory?.bdt_to_usd_rate ?? null;
+  const currencyOf = useMemo(() => new Map(accounts.map((a) => [a.id, a.currency || "USD"])), [accounts]);
+
+  // Per-account balances and running balance by transaction id
+  const { balances, runningById } = useMemo(() => {
+    const balances = new Map<string, { balance: number; asOf: string | null; unmatched: number }>();
+    const runningById = new Map<string, number>();
+    for (const a of accounts) {
+      // Query order is newest first; balances run oldest first
+      const lines = transactions.filter((t) => t.bank_account_id === a.id).reverse();
+      for (const row of withRunningBalance(lines)) runningById.set(row.id, row.running);
+      balances.set(a.id, { ...accountBalance(lines), unmatched: lines.filter((t) => statusOf(t) === "unmatched").length });
+    }
+    return { balances, runningById };
+  }, [accounts, transactions]);
+
+  const totals = useMemo(() => {
+    let usd = 0;
+    const unconverted = new Set<string>();
+    for (const a of accounts) {
+      const value = toUsd(balances.get(a.id)?.balance ?? 0, a.currency, bdtRate);
+      if (value == null) unconverted.add(a.currency || "USD");
+      else usd += value;
+    }
+    return { usd, unconverted: [...unconverted] };
+  }, [accounts, balances, bdtRate]);
+
+  const inAccount = accountFilter === "all" ? transactions : transactions.filter((t) => t.bank_account_id === accountFilter);
+  const rowsFor = (t: StatusTab) => (t === "all" ? inAccount : inAccount.filter((x) => statusOf(x) === t));
+  const rows = rowsFor(tab);
+  const selectedAccount = accounts.find((a) => a.id === accountFilter) ?? null;
+  const isLoading = accountsLoading || txLoading;
+
+  const lineFor = (t: LedgerTransaction) => ({ ...t, currency: t.bank_account_id ? currencyOf.get(t.bank_account_id) : null });
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-violet-500/10 flex items-center justify-center">
+            <Wallet className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+          </div>
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold">Bank Ledger</h1>
+            <p className="text-sm text-muted-foreground">Statements, reconciliation and balances</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" className="gap-1.5" onClick={() => setAccountDialog({ open: true, account: null })}>
+            <Plus className="h-4 w-4" />
+            Account
+          </Button>
+          <Button variant="outline" className="gap-1.5" disabled={m.autoMatchAll.isPending || transactions.length === 0} onClick={() => m.autoMatchAll.mutate()}>
+            <Wand2 className="h-4 w-4" />
+            {m.autoMatchAll.isPending ? "Matching..." : "Auto-match"}
+          </Button>
+          <Button className="gap-1.5" disabled={accounts.length === 0} onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4" />
+            Import Statement
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {[1, 2, 3].map((i) => <Skeleton key={i} className="h-[112px] rounded-xl" />)}
+          </div>
+          <Skeleton className="h-[320px] w-full rounded-xl" />
+        </div>
+      ) : accounts.length === 0 ? (
+        <EmptyState
+          icon={Wallet}
+          title="No bank accounts yet"
+          description="Add the factory's bank accounts, then import statements to reconcile them against payments and LC charges."
+          action={{ label: "Add Account", onClick: () => setAccountDialog({ open: true, account: null }) }}
+        />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {accounts.map((a) => {
+              const b = balances.get(a.id);
+              return (
+                <AccountCard
+                  key={a.id}
+                  account={a}
+                  balance={b?.balance ?? 0}
+                  asOf={b?.asOf ?? null}
+                  unmatched={b?.unmatched ?? 0}
+                  usd={toUsd(b?.balance ?? 0, a.currency, bdtRate)}
+                  selected={accountFilter === a.id}
+                  onSelect={() => setAccountFilter(accountFilter === a.id ? "all" : a.id)}
+                  onEdit={() => setAccountDialog({ open: true, account: a })}
+                />
+              );
+            })}
+            {accounts.length > 1 && (
+              <Card className="bg-muted/30">
+                <CardContent className="p-4 space-y-2">
+                  <div className="text-[11px] font-semibold text-muted-foreground uppercase tracking-wide">Total in USD</div>
+                  <div className="text-lg font-bold tabular-nums">{formatMoney(totals.usd, "USD")}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {bdtRate ? `BDT at ${bdtRate} / USD` : "Set a BDT rate to include BDT accounts"}
+                    {totals.unconverted.length > 0 ? ` · excludes ${totals.unconverted.join(", ")}` : ""}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <Tabs value={tab} onValueChange={(v) => setTab(v as StatusTab)}>
+            <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center">
+              <TabsList className="w-full sm:w-auto flex flex-wrap h-auto p-1 rounded-xl bg-muted/60 border border-border/50 shrink-0">
+                {STATUS_TABS.map((t) => (
+                  <TabsTrigger key={t.value} value={t.value} className="text-xs sm:text-sm px-3 py-2 rounded-lg data-[state=active]:shadow-sm gap-1.5">
+                    {t.label}
+                    <span className="text-[10px] text-muted-foreground tabular-nums">{rowsFor(t.value).length}</span>
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              <Select value={accountFilter} onValueChange={setAccountFilter}>
+                <SelectTrigger className="h-10 w-full sm:w-[220px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All accounts</SelectItem>
+                  {accounts.map((a) => <SelectItem key={a.id} value={a.id}>{a.account_label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </Tabs>
+
+          {transactions.length === 0 ? (
+            <EmptyState
+              icon={Upload}
+              title="No statements imported"
+              description="Import a CSV or MT940 statement. Lines are matched to recorded payments and LC charges automatically."
+              action={{ label: "Import Statement", onClick: () => setImportOpen(true) }}
+            />
+          ) : rows.length === 0 ? (
+            <EmptyState icon={Search} title="No results" description="No transactions match this filter." />
+          ) : (
+            <div className="rounded-lg border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-[11px] uppercase tracking-wide">Date</TableHead>
+                    <TableHead className="text-[11px] uppercase tracking-wide">Description</TableHead>
+                    {!selectedAccount && <TableHead className="text-[11px] uppercase tracking-wide">Account</TableHead>}
+                    <TableHead className="text-[11px] uppercase tracking-wide text-right">Debit</TableHead>
+                    <TableHead className="text-[11px] uppercase tracking-wide text-right">Credit</TableHead>
+                    <TableHead className="text-[11px] uppercase tracking-wide text-right">Balance</TableHead>
+                    <TableHead className="text-[11px] uppercase tracking-wide">Match</TableHead>
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((t) => {
+                    const status = statusOf(t);
+                    const currency = (t.bank_account_id && currencyOf.get(t.bank_account_id)) || "USD";
+                    const running = runningById.get(t.id);
+                    const matched = matchedLabel(t);
+                    return (
+                      <TableRow key={t.id}>
+                        <TableCell className="whitespace-nowrap tabular-nums">{format(parseISO(t.transaction_date), "d MMM yyyy")}</TableCell>
+                        <TableCell className="max-w-[320px]">
+                          <div className="truncate">{t.description || "—"}</div>
+                          {t.reference && <div className="text-xs text-muted-foreground truncate">{t.reference}</div>}
+                        </TableCell>
+                        {!selectedAccount && (
+                          <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                            {accounts.find((a) => a.id === t.bank_account_id)?.account_label ?? "—"}
+                          </TableCell>
+                        )}
+                        <TableCell className="text-right tabular-nums">{t.debit ? formatMoney(t.debit, currency) : ""}</TableCell>
+                        <TableCell className="text-right tabular-nums text-emerald-600 dark:text-emerald-400">{t.credit ? formatMoney(t.credit, currency) : ""}</TableCell>
+                        <TableCell className="text-right tabular-nums text-muted-foreground">{running != null ? formatMoney(running, currency) : ""}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-col gap-0.5 items-start">
+                            <Badge variant="outline" className={`text-[10px] ${RECONCILIATION_STATUS_COLORS[status]}`}>
+                              {RECONCILIATION_STATUS_LABELS[status]}
+                              {status === "matched" && t.match_confidence ? ` · ${t.match_confidence}` : ""}
+                            </Badge>
+                            {matched && <span className="text-xs text-muted-foreground truncate max-w-[200px]">{matched}</span>}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-8 w-8"><MoreHorizontal className="h-4 w-4" /></Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {status === "unmatched" && (
+                                <>
+                                  <DropdownMenuItem onClick={() => setMatchTarget(t)}>
+                                    <Link2 className="h-4 w-4 mr-2" />Match…
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => m.ignoreTransaction.mutate(t.id)}>
+                                    <EyeOff className="h-4 w-4 mr-2" />Ignore
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                              {status === "matched" && (
+                                <DropdownMenuItem onClick={() => m.unmatchTransaction.mutate(t.id)}>
+                                  <Unlink className="h-4 w-4 mr-2" />Unmatch
+                                </DropdownMenuItem>
+                              )}
+                              {status === "ignored" && (
+                                <DropdownMenuItem onClick={() => m.unmatchTransaction.mutate(t.id)}>
+                                  <Undo2 className="h-4 w-4 mr-2" />Restore
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem className="text-destructive" onClick={() => setDeleteTarget(t)}>
+                                <Trash2 className="h-4 w-4 mr-2" />Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+
+      <BankAccountDialog
+        open={accountDialog.open}
+        onOpenChange={(open) => setAccountDialog((d) => ({ ...d, open }))}
+        account={accountDialog.account}
+        isPending={m.saveAccount.isPending}
+        onDelete={() => setDeleteAccountOpen(true)}
+        onSubmit={(input) => m.saveAccount.mutate(input, { onSuccess: () => setAccountDialog({ open: false, account: null }) })}
+      />
+
+      <ImportStatementDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        accounts={accounts}
+        defaultAccountId={selectedAccount?.id ?? null}
+        isPending={m.importStatement.isPending}
+        onSubmit={(data) => m.importStatement.mutate(data, { onSuccess: () => setImportOpen(false) })}
+      />
+
+      <MatchTransactionDialog
+        open={!!matchTarget}
+        onOpenChange={(open) => !open && setMatchTarget(null)}
+        line={matchTarget ? lineFor(matchTarget) : null}
+        candidates={candidates}
+        isPending={m.matchTransaction.isPending}
+        onSubmit={(candidate) =>
+          matchTarget && m.matchTransaction.mutate({ transactionId: matchTarget.id, candidate }, { onSuccess: () => setMatchTarget(null) })
+        }
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Delete transaction?"
+        description="The statement line is removed from the ledger. Re-importing the statement brings it back."
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => {
+          if (deleteTarget) m.deleteTransaction.mutate(deleteTarget.id);
+          setDeleteTarget(null);
+        }}
+      />
+
+      <ConfirmDialog
+        open={deleteAccountOpen}
+        onOpenChange={setDeleteAccountOpen}
+        title="Remove bank account?"
+        description={`${accountDialog.account?.account_label ?? ""} and all of its imported statement lines will be deleted.`}
+        confirmLabel="Remove"
+        variant="destructive"
+        onConfirm={() => {
+          if (accountDialog.account) m.deleteAccount.mutate(accountDialog.account.id);
+          setDeleteAccountOpen(false);
+          setAccountDialog({ open: false, account: null });
+          setAccountFilter("all");
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useTranslation } from "react-i18next";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { AlertTriangle, CheckCircle2, Loader2, LogIn, LogOut, ScanLine, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { compareLineNames } from "@/lib/sort-lines";
+import { lineWip, staleBundles, type BundleScanAction } from "@/lib/bundles";
+import { useBundleMutations, useOpenBundles } from "@/hooks/useBundles";
+
+interface Line {
+  id: string;
+  line_id: string;
+  name: string | null;
+}
+
+interface ScanLogEntry {
+  key: number;
+  ok: boolean;
+  message: string;
+}
+
+const ALL_LINES = "all";
+
+export default function BundleScan() {
+  const { t } = useTranslation();
+  const { user, profile } = useAuth();
+  const [lines, setLines] = useState<Line[]>([]);
+  const [action, setAction] = useState<BundleScanAction>("issue");
+  const [lineId, setLineId] = useState("");
+  const [code, setCode] = useState("");
+  const [log, setLog] = useState<ScanLogEntry[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { bundles: openBundles, isLoading } = useOpenBundles();
+  const { scanBundle } = useBundleMutations();
+
+  useEffect(() => {
+    if (!profile?.factory_id || !user?.id) return;
+    (async () => {
+      const [linesRes, assignRes] = await Promise.all([
+        supabase.from("lines").select("id, line_id, name").eq("factory_id", profile.factory_id!).eq("is_active", true),
+        supabase.from("user_line_assignments").select("line_id").eq("user_id", user.id).eq("factory_id", profile.factory_id!),
+      ]);
+      if (linesRes.error || assignRes.error) {
+        console.error("Error loading lines:", linesRes.error || assignRes.error);
+        return;
+      }
+      const sorted = [...(linesRes.data || [])].sort((a, b) => compareLineNames(a.name || a.line_id, b.name || b.line_id));
+      setLines(sorted);
+      // Start on the user's own line when they have exactly one
+      if (assignRes.data?.length === 1) setLineId(assignRes.data[0].line_id);
+    })();
+  }, [profile?.factory_id, user?.id]);
+
+  const lineName = (id: string | null) => {
+    const line = lines.find((l) => l.id === id);
+    return line ? line.name || line.line_id : "—";
+  };
+
+  const wip = useMemo(() => lineWip(openBundles), [openBundles]);
+  const stalled = useMemo(() => staleBundles(openBundles, new Date()), [openBundles]);
+
+  const scan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const raw = code.trim();
+    if (!raw) return;
+    setCode("");
+    const target = lineId && lineId !== ALL_LINES ? lineId : null;
+    try {
+      const bundle = await scanBundle.mutateAsync({ raw, action, lineId: target });
+      const message = t(action === "issue" ? "bundles.scanIssued" : "bundles.scanCompleted", {
+        code: bundle.code,
+        qty: bundle.quantity,
+        line: lineName(bundle.line_id),
+      });
+      setLog((prev) => [{ key: Date.now(), ok: true, message }, ...prev].slice(0, 20));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setLog((prev) => [{ key: Date.now(), ok: false, message }, ...prev].slice(0, 20));
+    } finally {
+      inputRef.current?.focus();
+    }
+  };
+
+  if (!profile?.factory_id) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center p-4">
+        <p className="text-muted-foreground">{t("common.noFactoryAssigned")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-5xl py-3 md:py-4 lg:py-6 px-4 pb-24 space-y-5">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="h-10 w-10 rounded-xl bg-blue-500/10 flex items-center justify-center">
+          <ScanLine className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h1 className="text-xl md:text-2xl font-bold">{t("bundles.scanTitle")}</h1>
+          <p className="text-sm text-muted-foreground">{t("bundles.scanDescription")}</p>
+        </div>
+      </div>
+
+      {/* Scanner */}
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Button type="button" variant={action === "issue" ? "default" : "outline"} onClick={() => setAction("issue")}>
+              <LogIn className="h-4 w-4 mr-1.5" />
+              {t("bundles.issueToLine")}
+            </Button>
+            <Button type="button" variant={action === "complete" ? "default" : "outline"} onClick={() => setAction("complete")}>
+              <LogOut className="h-4 w-4 mr-1.5" />
+              {t("bundles.leaveSewing")}
+            </Button>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">{t("bundles.line")}{action === "issue" ? " *" : ""}</Label>
+            <Select value={lineId} onValueChange={setLineId}>
+              <SelectTrigger className="h-10"><SelectValue placeholder={t("forms.selectLine")} /></SelectTrigger>
+              <SelectContent>
+                {action === "complete" && <SelectItem value={ALL_LINES}>{t("bundles.anyLine")}</SelectItem>}
+                {lines.map((l) => (
+                  <SelectItem key={l.id} value={l.id}>{l.name || l.line_id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <form onSubmit={scan} className="flex gap-2">
+            <Input
+              ref={inputRef}
+              autoFocus
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder={t("bundles.scanPlaceholder")}
+              className="h-12 font-mono text-base"
+              disabled={action === "issue" && (!lineId || lineId === ALL_LINES)}
+            />
+            <Button type="submit" className="h-12" disabled={!code.trim() || scanBundle.isPending}>
+              {scanBundle.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanLine className="h-4 w-4" />}
+            </Button>
+          </form>
+
+          {log.length > 0 && (
+            <ul className="space-y-1.5">
+              {log.map((entry) => (
+                <li
+                  key={entry.key}
+                  className={cn(
+                    "flex items-start gap-2 rounded-lg px-3 py-2 text-sm",
+                    entry.ok ? "bg-green-500/10 text-green-800 dark:text-green-300" : "bg-destructive/10 text-destructive"
+                  )}
+                >
+                  {entry.ok ? <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0" /> : <XCircle className="h-4 w-4 mt-0.5 shrink-0" />}
+                  {entry.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          {/* WIP per line */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{t("bundles.wipByLine")}</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {wip.length === 0 ? (
+                <p className="text-center py-6 text-sm text-muted-foreground">{t("bundles.noWip")}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead>{t("bundles.line")}</TableHead>
+                      <TableHead className="text-right">{t("bundles.bundles")}</TableHead>
+                      <TableHead className="text-right">{t("bundles.pieces")}</TableHead>
+                      <TableHead>{t("bundles.oldest")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {wip.map((w) => (
+                      <TableRow key={w.lineId}>
+                        <TableCell className="font-medium">{lineName(w.lineId)}</TableCell>
+                        <TableCell className="text-right font-mono">{w.bundles}</TableCell>
+                        <TableCell className="text-right font-mono">{w.pieces.toLocaleString()}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {w.oldestIssuedAt ? formatDistanceToNow(parseISO(w.oldestIssuedAt), { addSuffix: true }) : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Bundles that stopped moving */}
+          {stalled.length > 0 && (
+            <Card className="border-amber-500/40">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  {t("bundles.stalled")}
+                  <span className="text-sm font-normal text-muted-foreground">{stalled.length}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        <TableHead>{t("bundles.code")}</TableHead>
+                        <TableHead>{t("cutting.po")}</TableHead>
+                        <TableHead>{t("cutting.colour")} / {t("bundles.size")}</TableHead>
+                        <TableHead className="text-right">{t("bundles.quantity")}</TableHead>
+                        <TableHead>{t("bundles.lastSeen")}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stalled.map((b) => (
+                        <TableRow key={b.id}>
+                          <TableCell className="font-mono text-xs">{b.code}</TableCell>
+                          <TableCell className="text-sm">{b.poNumber}</TableCell>
+                          <TableCell className="text-sm">{b.colour} / {b.size}</TableCell>
+                          <TableCell className="text-right font-mono text-sm">{b.quantity}</TableCell>
+                          <TableCell className="text-sm">
+                            {b.status === "issued"
+                              ? t("bundles.onLineSince", {
+                                  line: lineName(b.line_id),
+                                  since: formatDistanceToNow(parseISO(b.issued_at ?? b.created_at), { addSuffix: true }),
+                                })
+                              : t("bundles.inCuttingSince", {
+                                  since: formatDistanceToNow(parseISO(b.created_at), { addSuffix: true }),
+                                })}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
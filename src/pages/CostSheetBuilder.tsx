@@ -0,0 +1,608 @@
+import { useState, useEffect, useMemo } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, Calculator, Save, Send, CheckCircle2, XCircle, RotateCcw, Copy, ArrowRightLeft, AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { EmptyState } from "@/components/EmptyState";
+import { CostLineEditor, type CostColumn } from "@/components/costing/CostLineEditor";
+import { CostSummaryPanel } from "@/components/costing/CostSummaryPanel";
+import { CostSheetStatusBadge } from "@/components/costing/CostSheetStatusBadge";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useCostSheet,
+  useCostSheetMutations,
+  useCostingWorkOrders,
+  detailToDraft,
+  type CostSheetDraft,
+  type FabricDraft,
+  type TrimDraft,
+  type ProcessDraft,
+  type CommercialDraft,
+  type CMDraft,
+} from "@/hooks/useCostSheets";
+import {
+  COMMERCIAL_CATEGORIES,
+  CONSUMPTION_UNITS,
+  COSTING_CURRENCIES,
+  GARMENT_TYPES,
+  PROCESS_CATEGORIES,
+  TRIM_CATEGORIES,
+  analysePricing,
+  applyToWorkOrderBlocker,
+  calcCmPerDozen,
+  calcCostBreakdown,
+  fabricCostPerDozen,
+  formatExchangeRateIssue,
+  missingExchangeRates,
+  processCostPerDozen,
+  toSheetCurrency,
+  trimCostPerDozen,
+  type CostSheetStatus,
+} from "@/lib/cost-sheet";
+import { formatMoney } from "@/lib/lc-utils";
+
+const NONE = "__none";
+const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+const FABRIC_COLUMNS: CostColumn<FabricDraft>[] = [
+  { key: "fabric_type", label: "Fabric", type: "text", placeholder: "Single jersey", className: "min-w-[140px]" },
+  { key: "supplier_name", label: "Supplier", type: "text", className: "min-w-[120px]" },
+  { key: "consumption_per_dozen", label: "Cons. /dz", type: "number", className: "w-[90px]" },
+  { key: "consumption_unit", label: "Unit", type: "select", options: CONSUMPTION_UNITS, className: "w-[90px]" },
+  { key: "price_per_unit", label: "Price /unit", type: "number", className: "w-[90px]" },
+  { key: "wastage_pct", label: "Waste %", type: "number", className: "w-[80px]" },
+  { key: "currency", label: "Cur.", type: "select", options: COSTING_CURRENCIES, className: "w-[84px]" },
+  { key: "exchange_rate", label: "Rate", type: "number", className: "w-[80px]" },
+];
+
+const TRIM_COLUMNS: CostColumn<TrimDraft>[] = [
+  { key: "category", label: "Category", type: "select", options: TRIM_CATEGORIES, className: "w-[120px]" },
+  { key: "item_name", label: "Item", type: "text", placeholder: "Main label", className: "min-w-[140px]" },
+  { key: "qty_per_garment", label: "Qty /pc", type: "number", className: "w-[80px]" },
+  { key: "unit_price", label: "Unit price", type: "number", className: "w-[90px]" },
+  { key: "currency", label: "Cur.", type: "select", options: COSTING_CURRENCIES, className: "w-[84px]" },
+  { key: "exchange_rate", label: "Rate", type: "number", className: "w-[80px]" },
+  { key: "is_buyer_supplied", label: "Buyer supplied", type: "checkbox", className: "w-[80px] text-center" },
+];
+
+const PROCESS_COLUMNS: CostColumn<ProcessDraft>[] = [
+  { key: "category", label: "Category", type: "select", options: PROCESS_CATEGORIES, className: "w-[120px]" },
+  { key: "process_name", label: "Process", type: "text", placeholder: "Enzyme wash", className: "min-w-[140px]" },
+  { key: "placement", label: "Placement", type: "text", className: "min-w-[100px]" },
+  { key: "cost_per_piece", label: "Cost /pc", type: "number", className: "w-[90px]" },
+  { key: "currency", label: "Cur.", type: "select", options: COSTING_CURRENCIES, className: "w-[84px]" },
+  { key: "exchange_rate", label: "Rate", type: "number", className: "w-[80px]" },
+  { key: "is_outsourced", label: "Outsourced", type: "checkbox", className: "w-[80px] text-center" },
+];
+
+const COMMERCIAL_COLUMNS: CostColumn<CommercialDraft>[] = [
+  { key: "category", label: "Category", type: "select", options: COMMERCIAL_CATEGORIES, className: "w-[120px]" },
+  { key: "item_name", label: "Item", type: "text", placeholder: "Buying commission", className: "min-w-[140px]" },
+  { key: "cost_type", label: "Basis", type: "select", options: ["percent", "fixed"], className: "w-[100px]" },
+  { key: "amount", label: "% or /dz", type: "number", className: "w-[90px]" },
+];
+
+function numOrNull(v: string) {
+  return v === "" ? null : parseFloat(v);
+}
+
+// ── Sheet details ──────────────────────────────────────────────────────────
+function DetailsCard({
+  draft,
+  onChange,
+  readOnly,
+  workOrders,
+}: {
+  draft: CostSheetDraft;
+  onChange: (header: CostSheetDraft["header"]) => void;
+  readOnly: boolean;
+  workOrders: { id: string; po_number: string; buyer: string; style: string }[];
+}) {
+  const h = draft.header;
+  const set = (patch: Partial<CostSheetDraft["header"]>) => onChange({ ...h, ...patch });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Style & Pricing</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <fieldset disabled={readOnly} className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {h.is_template && (
+            <div className="space-y-1.5 col-span-2">
+              <Label className={labelCls}>Template Name</Label>
+              <Input value={h.template_name ?? ""} onChange={(e) => set({ template_name: e.target.value })} className="h-9" />
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Style Ref</Label>
+            <Input value={h.style_ref} onChange={(e) => set({ style_ref: e.target.value })} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Buyer</Label>
+            <Input value={h.buyer_name} onChange={(e) => set({ buyer_name: e.target.value })} className="h-9" />
+          </div>
+          {!h.is_template && (
+            <div className="space-y-1.5 col-span-2">
+              <Label className={labelCls}>PO</Label>
+              <Select value={h.work_order_id ?? NONE} onValueChange={(v) => set({ work_order_id: v === NONE ? null : v })} disabled={readOnly}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Not linked</SelectItem>
+                  {workOrders.map((w) => (
+                    <SelectItem key={w.id} value={w.id}>{w.po_number} – {w.buyer} · {w.style}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Garment</Label>
+            <Select value={h.garment_type ?? ""} onValueChange={(v) => set({ garment_type: v })} disabled={readOnly}>
+              <SelectTrigger className="h-9"><SelectValue placeholder="Select" /></SelectTrigger>
+              <SelectContent>
+                {GARMENT_TYPES.map((g) => <SelectItem key={g} value={g}>{g}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Season</Label>
+            <Input value={h.season ?? ""} onChange={(e) => set({ season: e.target.value || null })} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Composition</Label>
+            <Input value={h.fabric_composition ?? ""} onChange={(e) => set({ fabric_composition: e.target.value || null })} placeholder="100% Cotton" className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>GSM</Label>
+            <Input type="number" value={h.gsm ?? ""} onChange={(e) => set({ gsm: numOrNull(e.target.value) })} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Currency</Label>
+            <Select value={h.currency ?? "USD"} onValueChange={(v) => set({ currency: v })} disabled={readOnly}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {COSTING_CURRENCIES.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Price Basis</Label>
+            <Select value={h.target_price_type ?? "per_piece"} onValueChange={(v) => set({ target_price_type: v })} disabled={readOnly}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="per_piece">Per piece</SelectItem>
+                <SelectItem value="per_dozen">Per dozen</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Desired Margin %</Label>
+            <Input type="number" value={h.desired_margin_pct ?? ""} onChange={(e) => set({ desired_margin_pct: numOrNull(e.target.value) })} className="h-9" />
+          </div>
+          {!h.is_template && (
+            <>
+              <div className="space-y-1.5">
+                <Label className={labelCls}>Quantity</Label>
+                <Input type="number" value={h.target_quantity ?? ""} onChange={(e) => set({ target_quantity: numOrNull(e.target.value) })} className="h-9" />
+              </div>
+              <div className="space-y-1.5">
+                <Label className={labelCls}>Buyer Target</Label>
+                <Input type="number" value={h.buyer_target_price ?? ""} onChange={(e) => set({ buyer_target_price: numOrNull(e.target.value) })} className="h-9" />
+              </div>
+              <div className="space-y-1.5">
+                <Label className={labelCls}>Quoted Price</Label>
+                <Input type="number" value={h.quoted_price ?? ""} onChange={(e) => set({ quoted_price: numOrNull(e.target.value) })} className="h-9" />
+              </div>
+            </>
+          )}
+          <div className="space-y-1.5 col-span-2 md:col-span-4">
+            <Label className={labelCls}>Notes</Label>
+            <Textarea value={h.notes ?? ""} onChange={(e) => set({ notes: e.target.value || null })} rows={2} className="text-sm resize-none" />
+          </div>
+        </fieldset>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ── CM ─────────────────────────────────────────────────────────────────────
+function CMCard({
+  cm,
+  onChange,
+  readOnly,
+  currency,
+  poSmv,
+}: {
+  cm: CMDraft;
+  onChange: (cm: CMDraft) => void;
+  readOnly: boolean;
+  currency: string;
+  poSmv: number | null;
+}) {
+  const set = (patch: Partial<CMDraft>) => onChange({ ...cm, ...patch });
+  const computed = calcCmPerDozen({
+    sam: cm.sam ?? null,
+    efficiency_pct: cm.efficiency_pct ?? null,
+    labour_cost_per_minute: cm.labour_cost_per_minute ?? null,
+    overhead_type: cm.overhead_type ?? null,
+    overhead_value: cm.overhead_value ?? null,
+    cm_per_dozen: cm.cm_per_dozen ?? null,
+  });
+  const fromSam = (cm.sam ?? 0) > 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="text-base">CM (Cut & Make)</CardTitle>
+        <span className="text-sm font-semibold tabular-nums">{formatMoney(computed, currency)}<span className="text-xs font-normal text-muted-foreground"> /dz</span></span>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <fieldset disabled={readOnly} className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          <div className="space-y-1.5">
+            <Label className={labelCls}>SAM (min)</Label>
+            <Input type="number" value={cm.sam ?? ""} onChange={(e) => set({ sam: numOrNull(e.target.value) })} placeholder={poSmv ? `PO SMV ${poSmv}` : undefined} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Efficiency %</Label>
+            <Input type="number" value={cm.efficiency_pct ?? ""} onChange={(e) => set({ efficiency_pct: numOrNull(e.target.value) })} placeholder="60" className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Cost / Minute</Label>
+            <Input type="number" value={cm.labour_cost_per_minute ?? ""} onChange={(e) => set({ labour_cost_per_minute: numOrNull(e.target.value) })} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Overhead</Label>
+            <Select value={cm.overhead_type ?? "percent"} onValueChange={(v) => set({ overhead_type: v })} disabled={readOnly}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">% of labour</SelectItem>
+                <SelectItem value="per_dozen">Per dozen</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Overhead Value</Label>
+            <Input type="number" value={cm.overhead_value ?? ""} onChange={(e) => set({ overhead_value: numOrNull(e.target.value) })} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Manual CM /dz</Label>
+            <Input
+              type="number"
+              value={cm.cm_per_dozen ?? ""}
+              onChange={(e) => set({ cm_per_dozen: numOrNull(e.target.value) })}
+              disabled={readOnly || fromSam}
+              placeholder={fromSam ? "From SAM" : undefined}
+              className="h-9"
+            />
+          </div>
+        </fieldset>
+        {fromSam && (
+          <p className="text-xs text-muted-foreground">
+            {cm.sam} SAM × 12 ÷ {cm.efficiency_pct ?? 0}% efficiency × {cm.labour_cost_per_minute ?? 0}/min, plus overhead.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ── Save as template ───────────────────────────────────────────────────────
+function TemplateNameDialog({
+  open,
+  onOpenChange,
+  defaultName,
+  onSubmit,
+  isPending,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName: string;
+  onSubmit: (name: string) => void;
+  isPending: boolean;
+}) {
+  const [name, setName] = useState("");
+  useEffect(() => { if (open) setName(defaultName); }, [open, defaultName]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px] p-0 overflow-hidden">
+        <DialogHeader className="px-6 pt-6 pb-0">
+          <DialogTitle className="text-base font-bold">Save as Template</DialogTitle>
+        </DialogHeader>
+        <div className="px-6 pb-2 pt-4 space-y-1.5">
+          <Label className={labelCls}>Template Name</Label>
+          <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Basic crew-neck tee" className="h-9" />
+          <p className="text-xs text-muted-foreground">Cost lines and CM settings are copied. Prices and the PO link are not.</p>
+        </div>
+        <DialogFooter className="px-6 py-4 bg-muted/30 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="h-9">Cancel</Button>
+          <Button onClick={() => onSubmit(name.trim())} disabled={!name.trim() || isPending} className="h-9 px-5 font-semibold">
+            {isPending ? "Saving..." : "Save Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ── Page ───────────────────────────────────────────────────────────────────
+export default function CostSheetBuilder() {
+  const { sheetId } = useParams<{ sheetId: string }>();
+  const navigate = useNavigate();
+  const { isAdminOrHigher } = useAuth();
+  const { detail, isLoading } = useCostSheet(sheetId);
+  const { workOrders } = useCostingWorkOrders();
+  const m = useCostSheetMutations();
+
+  const [draft, setDraft] = useState<CostSheetDraft | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [templateOpen, setTemplateOpen] = useState(false);
+
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", "finance");
+    return () => { document.documentElement.removeAttribute("data-theme"); };
+  }, []);
+
+  // Reload the editor whenever a fresh copy arrives and there are no unsaved edits
+  useEffect(() => {
+    if (detail && !dirty) setDraft(detailToDraft(detail));
+  }, [detail, dirty]);
+
+  const update = (patch: Partial<CostSheetDraft>) => {
+    setDraft((d) => (d ? { ...d, ...patch } : d));
+    setDirty(true);
+  };
+
+  const currency = draft?.header.currency || "USD";
+
+  const breakdown = useMemo(() => {
+    if (!draft) return null;
+    return calcCostBreakdown({
+      currency,
+      fabrics: draft.fabrics.map((f) => ({ ...f, consumption_per_dozen: f.consumption_per_dozen ?? null, wastage_pct: f.wastage_pct ?? null })),
+      trims: draft.trims.map((t) => ({ ...t, qty_per_garment: t.qty_per_garment ?? null, is_buyer_supplied: t.is_buyer_supplied ?? null })),
+      processes: draft.processes,
+      cm: {
+        sam: draft.cm.sam ?? null,
+        efficiency_pct: draft.cm.efficiency_pct ?? null,
+        labour_cost_per_minute: draft.cm.labour_cost_per_minute ?? null,
+        overhead_type: draft.cm.overhead_type ?? null,
+        overhead_value: draft.cm.overhead_value ?? null,
+        cm_per_dozen: draft.cm.cm_per_dozen ?? null,
+      },
+      commercial: draft.commercial.map((c) => ({ ...c, cost_type: c.cost_type ?? null })),
+    });
+  }, [draft, currency]);
+
+  const pricing = useMemo(() => {
+    if (!draft || !breakdown) return null;
+    const h = draft.header;
+    return analysePricing(
+      {
+        currency,
+        quoted_price: h.quoted_price ?? null,
+        buyer_target_price: h.buyer_target_price ?? null,
+        target_price_type: h.target_price_type ?? null,
+        desired_margin_pct: h.desired_margin_pct ?? null,
+      },
+      breakdown.totalPerPiece,
+    );
+  }, [draft, breakdown, currency]);
+
+  const rateIssues = useMemo(
+    () => (draft ? missingExchangeRates({ currency, ...draft }) : []),
+    [draft, currency],
+  );
+
+  if (isLoading || (detail && !draft)) {
+    return (
+      <div className="py-3 md:py-4 lg:py-6 space-y-5">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-[200px] w-full rounded-xl" />
+        <Skeleton className="h-[320px] w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  if (!detail || !draft || !breakdown || !pricing) {
+    return (
+      <div className="py-6">
+        <EmptyState
+          icon={Calculator}
+          title="Cost sheet not found"
+          description="This cost sheet may have been deleted."
+          action={{ label: "Back to Costing", onClick: () => navigate("/finances/costing") }}
+        />
+      </div>
+    );
+  }
+
+  const sheet = detail.sheet;
+  const status = (sheet.status as CostSheetStatus) || "draft";
+  const isTemplate = !!sheet.is_template;
+  const readOnly = !isTemplate && (status === "submitted" || status === "approved");
+  const poSmv = workOrders.find((w) => w.id === draft.header.work_order_id)?.smv ?? null;
+  const wo = detail.workOrder;
+  const pushPending = wo && (wo.cm_per_dozen !== breakdown.cm || (pricing.quotedPerPiece != null && wo.selling_price !== pricing.quotedPerPiece));
+  const applyBlocker = applyToWorkOrderBlocker(currency, rateIssues);
+  const rateBlocker = rateIssues.length > 0 ? "Add the missing exchange rates first" : undefined;
+
+  const save = () => m.saveSheet.mutate({ id: sheet.id, draft }, { onSuccess: () => setDirty(false) });
+  const changeStatus = (next: CostSheetStatus) => m.setStatus.mutate({ id: sheet.id, status: next });
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={() => navigate("/finances/costing")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h1 className="text-xl md:text-2xl font-bold">{isTemplate ? sheet.template_name || sheet.style_ref : sheet.style_ref}</h1>
+              {isTemplate ? (
+                <span className="inline-flex items-center gap-1 text-xs text-muted-foreground"><Copy className="h-3 w-3" />Template</span>
+              ) : (
+                <CostSheetStatusBadge status={status} />
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground truncate">
+              {sheet.buyer_name}
+              {wo ? ` · PO ${wo.po_number}` : ""}
+              {status === "approved" && sheet.approved_at ? ` · Approved ${format(parseISO(sheet.approved_at), "d MMM yyyy")}` : ""}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 shrink-0">
+          {!readOnly && (
+            <Button onClick={save} disabled={!dirty || m.saveSheet.isPending} className="gap-1.5">
+              <Save className="h-4 w-4" />
+              {m.saveSheet.isPending ? "Saving..." : "Save"}
+            </Button>
+          )}
+          {!isTemplate && (status === "draft" || status === "rejected") && (
+            <Button variant="outline" className="gap-1.5" disabled={dirty || rateIssues.length > 0 || m.setStatus.isPending} title={rateBlocker} onClick={() => changeStatus("submitted")}>
+              <Send className="h-4 w-4" />
+              Submit for Approval
+            </Button>
+          )}
+          {!isTemplate && status === "submitted" && isAdminOrHigher() && (
+            <>
+              <Button className="gap-1.5" disabled={rateIssues.length > 0 || m.setStatus.isPending} title={rateBlocker} onClick={() => changeStatus("approved")}>
+                <CheckCircle2 className="h-4 w-4" />
+                Approve
+              </Button>
+              <Button variant="outline" className="gap-1.5" disabled={m.setStatus.isPending} onClick={() => changeStatus("rejected")}>
+                <XCircle className="h-4 w-4" />
+                Reject
+              </Button>
+            </>
+          )}
+          {!isTemplate && (status === "submitted" || status === "approved") && (
+            <Button variant="outline" className="gap-1.5" disabled={m.setStatus.isPending} onClick={() => changeStatus("draft")}>
+              <RotateCcw className="h-4 w-4" />
+              Revise
+            </Button>
+          )}
+          {!isTemplate && status === "approved" && sheet.work_order_id && (
+            <Button className="gap-1.5" disabled={!!applyBlocker || m.applyToWorkOrder.isPending} title={applyBlocker ?? undefined} onClick={() => m.applyToWorkOrder.mutate(sheet.id)}>
+              <ArrowRightLeft className="h-4 w-4" />
+              Apply to PO
+            </Button>
+          )}
+          {!isTemplate && (
+            <Button variant="outline" className="gap-1.5" disabled={dirty} onClick={() => setTemplateOpen(true)}>
+              <Copy className="h-4 w-4" />
+              Save as Template
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {status === "approved" && wo && pushPending && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30 px-4 py-3 text-sm text-amber-800 dark:text-amber-300">
+          PO {wo.po_number} has CM {wo.cm_per_dozen != null ? formatMoney(wo.cm_per_dozen, currency) : "not set"}/dz
+          {" "}and price {wo.selling_price != null ? formatMoney(wo.selling_price, currency) : "not set"}.
+          {" "}{applyBlocker ?? (
+            <>
+              Apply this sheet to use {formatMoney(breakdown.cm, currency)}/dz
+              {pricing.quotedPerPiece != null ? <> and {formatMoney(pricing.quotedPerPiece, currency)}</> : <> (no quote, so the PO price is kept)</>}.
+            </>
+          )}
+        </div>
+      )}
+
+      {rateIssues.length > 0 && (
+        <div className="rounded-lg border border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/30 px-4 py-3 text-sm text-red-800 dark:text-red-300 space-y-1">
+          <p className="flex items-center gap-1.5 font-semibold">
+            <AlertTriangle className="h-4 w-4" />
+            Missing exchange rates: these rows are counted unconverted and the sheet can't be submitted
+          </p>
+          <ul className="list-disc pl-6 text-xs">
+            {rateIssues.map((i) => (
+              <li key={`${i.section}-${i.row}`}>{formatExchangeRateIssue(i, currency)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-5 items-start">
+        <div className="space-y-5 min-w-0">
+          <DetailsCard draft={draft} readOnly={readOnly} workOrders={workOrders} onChange={(header) => update({ header })} />
+
+          <CostLineEditor
+            title="Fabric"
+            rows={draft.fabrics}
+            columns={FABRIC_COLUMNS}
+            onChange={(fabrics) => update({ fabrics })}
+            newRow={() => ({ fabric_type: "", price_per_unit: 0, consumption_unit: "Kg", wastage_pct: 5, currency })}
+            rowTotal={(f) => fabricCostPerDozen({ ...f, consumption_per_dozen: f.consumption_per_dozen ?? null, wastage_pct: f.wastage_pct ?? null }, currency)}
+            currency={currency}
+            readOnly={readOnly}
+            emptyText="Add the body fabric, rib and any contrast fabrics."
+          />
+
+          <CostLineEditor
+            title="Trims & Accessories"
+            rows={draft.trims}
+            columns={TRIM_COLUMNS}
+            onChange={(trims) => update({ trims })}
+            newRow={() => ({ category: "Sewing", item_name: "", unit_price: 0, qty_per_garment: 1, currency })}
+            rowTotal={(t) => trimCostPerDozen({ ...t, qty_per_garment: t.qty_per_garment ?? null, is_buyer_supplied: t.is_buyer_supplied ?? null }, currency)}
+            currency={currency}
+            readOnly={readOnly}
+            emptyText="Labels, thread, buttons, poly bags, cartons…"
+          />
+
+          <CostLineEditor
+            title="Wash, Print & Embroidery"
+            rows={draft.processes}
+            columns={PROCESS_COLUMNS}
+            onChange={(processes) => update({ processes })}
+            newRow={() => ({ category: "Wash", process_name: "", cost_per_piece: 0, currency })}
+            rowTotal={(p) => processCostPerDozen(p, currency)}
+            currency={currency}
+            readOnly={readOnly}
+            emptyText="No value-add processes on this style."
+          />
+
+          <CMCard cm={draft.cm} onChange={(cm) => update({ cm })} readOnly={readOnly} currency={currency} poSmv={poSmv} />
+
+          <CostLineEditor
+            title="Commercial"
+            rows={draft.commercial}
+            columns={COMMERCIAL_COLUMNS}
+            onChange={(commercial) => update({ commercial })}
+            newRow={() => ({ category: "Freight", item_name: "", cost_type: "fixed", amount: 0, currency })}
+            rowTotal={(c) => (c.cost_type === "percent" ? breakdown.manufacturing * ((c.amount || 0) / 100) : toSheetCurrency(c.amount || 0, c, currency))}
+            currency={currency}
+            readOnly={readOnly}
+            emptyText="Freight, bank charges, commission, testing…"
+          />
+        </div>
+
+        <CostSummaryPanel breakdown={breakdown} pricing={pricing} currency={currency} desiredMarginPct={draft.header.desired_margin_pct ?? null} />
+      </div>
+
+      <TemplateNameDialog
+        open={templateOpen}
+        onOpenChange={setTemplateOpen}
+        defaultName={`${sheet.garment_type || sheet.style_ref} template`}
+        isPending={m.saveAsTemplate.isPending}
+        onSubmit={(templateName) =>
+          m.saveAsTemplate.mutate({ id: sheet.id, templateName }, { onSuccess: () => setTemplateOpen(false) })
+        }
+      />
+    </div>
+  );
+}
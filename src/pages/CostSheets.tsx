@@ -0,0 +1,216 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Calculator, Plus, Search, X, ChevronRight, Copy, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { EmptyState } from "@/components/EmptyState";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { CostSheetStatusBadge } from "@/components/costing/CostSheetStatusBadge";
+import { NewCostSheetDialog } from "@/components/costing/NewCostSheetDialog";
+import { useCostSheets, useCostSheetMutations, useCostingWorkOrders, type CostSheetListItem } from "@/hooks/useCostSheets";
+import { formatMoney } from "@/lib/lc-utils";
+
+type SheetTab = "all" | "draft" | "submitted" | "approved" | "templates";
+
+const SHEET_TABS: { value: SheetTab; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "draft", label: "Drafts" },
+  { value: "submitted", label: "Awaiting Approval" },
+  { value: "approved", label: "Approved" },
+  { value: "templates", label: "Templates" },
+];
+
+function matchesSearch(s: CostSheetListItem, q: string) {
+  const lower = q.toLowerCase();
+  return (
+    s.style_ref.toLowerCase().includes(lower) ||
+    s.buyer_name.toLowerCase().includes(lower) ||
+    (s.template_name?.toLowerCase().includes(lower) ?? false) ||
+    (s.work_orders?.po_number.toLowerCase().includes(lower) ?? false)
+  );
+}
+
+function SheetRow({ sheet, onDelete }: { sheet: CostSheetListItem; onDelete: () => void }) {
+  const navigate = useNavigate();
+  const price = sheet.quoted_price;
+  return (
+    <Card className="cursor-pointer hover:shadow-sm transition-all duration-200 group" onClick={() => navigate(`/finances/costing/${sheet.id}`)}>
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0 space-y-1.5 flex-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-sm font-semibold">{sheet.is_template ? sheet.template_name || sheet.style_ref : sheet.style_ref}</span>
+              {sheet.is_template ? (
+                <span className="inline-flex items-center gap-1 text-[11px] text-muted-foreground"><Copy className="h-3 w-3" />Template</span>
+              ) : (
+                <CostSheetStatusBadge status={sheet.status} />
+              )}
+            </div>
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground flex-wrap">
+              <span className="text-foreground font-medium">{sheet.buyer_name}</span>
+              {sheet.work_orders?.po_number && <><span>·</span><span>PO {sheet.work_orders.po_number}</span></>}
+              {sheet.season && <><span>·</span><span>{sheet.season}</span></>}
+              {sheet.garment_type && <><span>·</span><span>{sheet.garment_type}</span></>}
+              {sheet.updated_at && <><span>·</span><span>Updated {format(parseISO(sheet.updated_at), "d MMM yyyy")}</span></>}
+            </div>
+          </div>
+          <div className="flex items-center gap-4 shrink-0">
+            {!sheet.is_template && (
+              <div className="text-right">
+                <div className="text-sm font-semibold tabular-nums">{price != null ? formatMoney(price, sheet.currency) : "—"}</div>
+                <div className="text-xs text-muted-foreground tabular-nums">
+                  {sheet.buyer_target_price != null ? `Target ${formatMoney(sheet.buyer_target_price, sheet.currency)}` : "No target"}
+                </div>
+              </div>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+              onClick={(e) => { e.stopPropagation(); onDelete(); }}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <ChevronRight className="h-4 w-4 text-muted-foreground group-hover:text-foreground transition-colors" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CostSheets() {
+  const navigate = useNavigate();
+  const { sheets, templates, isLoading } = useCostSheets();
+  const { workOrders } = useCostingWorkOrders();
+  const { createSheet, deleteSheet } = useCostSheetMutations();
+
+  const [tab, setTab] = useState<SheetTab>("all");
+  const [search, setSearch] = useState("");
+  const [newOpen, setNewOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<CostSheetListItem | null>(null);
+
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", "finance");
+    return () => { document.documentElement.removeAttribute("data-theme"); };
+  }, []);
+
+  const rowsFor = (t: SheetTab) => {
+    if (t === "templates") return templates;
+    if (t === "all") return sheets;
+    return sheets.filter((s) => (s.status || "draft") === t);
+  };
+
+  const filtered = rowsFor(tab).filter((s) => !search.trim() || matchesSearch(s, search.trim()));
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-violet-500/10 flex items-center justify-center">
+            <Calculator className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+          </div>
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold">Costing</h1>
+            <p className="text-sm text-muted-foreground">Style cost sheets, quotes and approved CM</p>
+          </div>
+        </div>
+        <Button onClick={() => setNewOpen(true)} className="gap-1.5">
+          <Plus className="h-4 w-4" />
+          New Cost Sheet
+        </Button>
+      </div>
+
+      <Tabs value={tab} onValueChange={(v) => setTab(v as SheetTab)}>
+        <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center">
+          <TabsList className="w-full sm:w-auto flex flex-wrap h-auto p-1 rounded-xl bg-muted/60 border border-border/50 shrink-0">
+            {SHEET_TABS.map((t) => (
+              <TabsTrigger key={t.value} value={t.value} className="text-xs sm:text-sm px-3 py-2 rounded-lg data-[state=active]:shadow-sm gap-1.5">
+                {t.label}
+                {!isLoading && <span className="text-[10px] text-muted-foreground tabular-nums">{rowsFor(t.value).length}</span>}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          <div className="relative w-full sm:max-w-xs">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              placeholder="Style, buyer, PO…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 pr-9 h-10"
+            />
+            {search && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 text-muted-foreground hover:text-foreground"
+                onClick={() => setSearch("")}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => <Skeleton key={i} className="h-[80px] w-full rounded-xl" />)}
+        </div>
+      ) : sheets.length === 0 && templates.length === 0 ? (
+        <EmptyState
+          icon={Calculator}
+          title="No cost sheets yet"
+          description="Build a cost sheet for a style to work out CM, quote a price and push approved numbers to the PO."
+          action={{ label: "New Cost Sheet", onClick: () => setNewOpen(true) }}
+        />
+      ) : filtered.length === 0 ? (
+        <EmptyState icon={Search} title="No results" description="No cost sheets match this filter." />
+      ) : (
+        <div className="space-y-3">
+          {filtered.map((s) => (
+            <SheetRow
+              key={s.id}
+              sheet={s}
+              onDelete={() => setDeleteTarget(s)}
+            />
+          ))}
+        </div>
+      )}
+
+      <NewCostSheetDialog
+        open={newOpen}
+        onOpenChange={setNewOpen}
+        templates={templates}
+        workOrders={workOrders}
+        isPending={createSheet.isPending}
+        onSubmit={(data) =>
+          createSheet.mutate(data, {
+            onSuccess: (id) => {
+              setNewOpen(false);
+              navigate(`/finances/costing/${id}`);
+            },
+          })
+        }
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title={`Delete ${deleteTarget?.is_template ? "template" : "cost sheet"}?`}
+        description={`"${deleteTarget?.template_name || deleteTarget?.style_ref || ""}" and all its cost lines will be removed.`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => {
+          if (deleteTarget) deleteSheet.mutate(deleteTarget.id);
+          setDeleteTarget(null);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState, useEffect, useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { format, parseISO } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Layers, Loader2, Printer, QrCode, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { EmptyState } from "@/components/EmptyState";
+import { BundleGenerateDialog } from "@/components/cutting/BundleGenerateDialog";
+import { BundlesTable } from "@/components/cutting/BundlesTable";
+import { useBundleMutations, useCuttingOutputs, useWorkOrderBundles, type CuttingOutput } from "@/hooks/useBundles";
+import { toPOSizeMatrix } from "@/hooks/useSizeMatrix";
+import { generateBundleTicketsPdf } from "@/lib/bundle-pdf";
+import { downloadFile } from "@/lib/capacitor";
+import type { Json } from "@/integrations/supabase/types";
+
+interface WorkOrderOption {
+  id: string;
+  po_number: string;
+  buyer: string;
+  style: string;
+  order_qty: number;
+  sizes: string[] | null;
+  size_breakdown: Json | null;
+}
+
+export default function CuttingBundles() {
+  const { t } = useTranslation();
+  const { profile, factory } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [workOrders, setWorkOrders] = useState<WorkOrderOption[]>([]);
+  const [lineNames, setLineNames] = useState<Map<string, string>>(new Map());
+  const [workOrderId, setWorkOrderId] = useState("");
+  const [generateFor, setGenerateFor] = useState<CuttingOutput | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [printing, setPrinting] = useState(false);
+
+  const { outputs, isLoading: outputsLoading } = useCuttingOutputs(workOrderId || null);
+  const { bundles, isLoading: bundlesLoading } = useWorkOrderBundles(workOrderId || null);
+  const { createBundles, deleteBundles } = useBundleMutations(workOrderId || null);
+
+  useEffect(() => {
+    if (!profile?.factory_id) return;
+    (async () => {
+      try {
+        const [woRes, linesRes] = await Promise.all([
+          supabase
+            .from("work_orders")
+            .select("id, po_number, buyer, style, order_qty, sizes, size_breakdown")
+            .eq("factory_id", profile.factory_id!)
+            .eq("is_active", true)
+            .order("po_number", { ascending: true }),
+          supabase.from("lines").select("id, line_id, name").eq("factory_id", profile.factory_id!),
+        ]);
+        if (woRes.error) throw woRes.error;
+        if (linesRes.error) throw linesRes.error;
+        setWorkOrders(woRes.data || []);
+        setLineNames(new Map((linesRes.data || []).map((l) => [l.id, l.name || l.line_id])));
+      } catch (error) {
+        console.error("Error loading work orders:", error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [profile?.factory_id]);
+
+  useEffect(() => {
+    setSelected(new Set());
+  }, [workOrderId]);
+
+  const workOrder = workOrders.find((wo) => wo.id === workOrderId);
+  const poMatrix = workOrder ? toPOSizeMatrix(workOrder) : null;
+
+  const bundledByOutput = useMemo(() => {
+    const out = new Map<string, number>();
+    for (const b of bundles) {
+      if (b.cutting_actual_id) out.set(b.cutting_actual_id, (out.get(b.cutting_actual_id) ?? 0) + b.quantity);
+    }
+    return out;
+  }, [bundles]);
+
+  const selectedBundles = bundles.filter((b) => selected.has(b.id));
+  const deletable = selectedBundles.filter((b) => b.status === "cut");
+
+  const printTickets = async () => {
+    if (!workOrder) return;
+    const toPrint = selectedBundles.length > 0 ? selectedBundles : bundles;
+    setPrinting(true);
+    try {
+      const blob = await generateBundleTicketsPdf({
+        factoryName: factory?.name || "",
+        poNumber: workOrder.po_number,
+        buyer: workOrder.buyer,
+        style: workOrder.style,
+        bundles: toPrint,
+      });
+      await downloadFile(blob, `bundles_${workOrder.po_number.replace(/[^\w-]+/g, "_")}.pdf`);
+    } catch (error) {
+      toast.error(`Failed to print bundle tickets: ${error instanceof Error ? error.message : "unknown error"}`);
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!profile?.factory_id) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center p-4">
+        <p className="text-muted-foreground">{t("common.noFactoryAssigned")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-6xl py-3 md:py-4 lg:py-6 px-4 pb-24 space-y-5">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="h-10 w-10 rounded-xl bg-orange-500/10 flex items-center justify-center">
+          <QrCode className="h-5 w-5 text-orange-600 dark:text-orange-400" />
+        </div>
+        <div>
+          <h1 className="text-xl md:text-2xl font-bold">{t("bundles.title")}</h1>
+          <p className="text-sm text-muted-foreground">{t("bundles.description")}</p>
+        </div>
+      </div>
+
+      {/* PO */}
+      <div className="rounded-xl border border-border/50 bg-card p-4 space-y-1.5">
+        <Label className="text-xs font-medium">{t("forms.poNumber")}</Label>
+        <Select value={workOrderId} onValueChange={setWorkOrderId}>
+          <SelectTrigger className="h-10"><SelectValue placeholder={t("forms.selectPO")} /></SelectTrigger>
+          <SelectContent>
+            {workOrders.map((wo) => (
+              <SelectItem key={wo.id} value={wo.id}>{wo.po_number} - {wo.buyer} / {wo.style}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!workOrder ? (
+        <EmptyState icon={QrCode} title={t("cutPlan.selectPrompt")} description={t("bundles.selectPromptHint")} />
+      ) : outputsLoading || bundlesLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{t("bundles.cuttingOutput")}</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {outputs.length === 0 ? (
+                <p className="text-center py-6 text-sm text-muted-foreground">{t("bundles.noOutput")}</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        <TableHead>{t("cutting.date")}</TableHead>
+                        <TableHead>{t("bundles.line")}</TableHead>
+                        <TableHead className="text-right">{t("cutting.dayCutting")}</TableHead>
+                        <TableHead className="text-right">{t("bundles.bundled")}</TableHead>
+                        <TableHead className="w-[140px]"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {outputs.map((o) => {
+                        const bundled = bundledByOutput.get(o.id) ?? 0;
+                        return (
+                          <TableRow key={o.id}>
+                            <TableCell className="font-mono text-sm">{format(parseISO(o.production_date), "dd MMM")}</TableCell>
+                            <TableCell className="text-sm">{o.lineName || "—"}</TableCell>
+                            <TableCell className="text-right font-mono text-sm">{o.day_cutting.toLocaleString()}</TableCell>
+                            <TableCell className="text-right font-mono text-sm">{bundled.toLocaleString()}</TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="outline" size="sm" disabled={bundled >= o.day_cutting} onClick={() => setGenerateFor(o)}>
+                                <Layers className="h-4 w-4 mr-1.5" />
+                                {t("bundles.makeBundles")}
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle className="text-base flex items-center gap-2">
+                <QrCode className="h-4 w-4" />
+                {t("bundles.bundles")}
+                <span className="text-sm font-normal text-muted-foreground">{bundles.length}</span>
+              </CardTitle>
+              <div className="flex gap-2">
+                {deletable.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-destructive"
+                    disabled={deleteBundles.isPending}
+                    onClick={() => deleteBundles.mutate(deletable.map((b) => b.id), { onSuccess: () => setSelected(new Set()) })}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1.5" />
+                    {t("bundles.deleteSelected", { count: deletable.length })}
+                  </Button>
+                )}
+                <Button size="sm" disabled={bundles.length === 0 || printing} onClick={printTickets}>
+                  {printing ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Printer className="h-4 w-4 mr-1.5" />}
+                  {selectedBundles.length > 0
+                    ? t("bundles.printSelected", { count: selectedBundles.length })
+                    : t("bundles.printAll")}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              {bundles.length === 0 ? (
+                <p className="text-center py-6 text-sm text-muted-foreground">{t("bundles.noBundles")}</p>
+              ) : (
+                <BundlesTable bundles={bundles} lineNames={lineNames} selected={selected} onSelectedChange={setSelected} />
+              )}
+            </CardContent>
+          </Card>
+
+          <BundleGenerateDialog
+            output={generateFor}
+            poNumber={workOrder.po_number}
+            poMatrix={poMatrix}
+            existing={bundles}
+            isPending={createBundles.isPending}
+            onOpenChange={(open) => !open && setGenerateFor(null)}
+            onCreate={(drafts) =>
+              createBundles.mutate(
+                { cuttingActualId: generateFor!.id, bundles: drafts },
+                { onSuccess: () => setGenerateFor(null) }
+              )
+            }
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -42,6 +42,12 @@ import { isLateForCutoff, getTodayInTimezone } from "@/lib/date-utils";
 import { useOfflineSubmission } from "@/hooks/useOfflineSubmission";
 import { useHeadcountCost } from "@/hooks/useHeadcountCost";
 import { EstimatedCostDisplay } from "@/components/EstimatedCostDisplay";
+import { CutLayResults, type LayResultDraft } from "@/components/cutting/CutLayResults";
+import { useCutPlan, queueLayResults, recordLayResults } from "@/hooks/useCutPlans";
+import { usePOSizeMatrix } from "@/hooks/useSizeMatrix";
+import { SizeMatrixEntry } from "@/components/size-matrix/SizeMatrixEntry";
+import { breakdownTotal, compactBreakdown, parseBreakdown, type ColourBreakdown } from "@/lib/size-matrix";
+import type { Json } from "@/integrations/supabase/types";
 
 interface WorkOrder {
   id: string;
@@ -82,6 +88,7 @@ interface ExistingActual {
   hours_actual: number | null;
   ot_hours_actual: number | null;
   ot_manpower_actual: number | null;
+  size_breakdown: Json | null;
 }
 
 export default function CuttingEndOfDay() {
@@ -107,6 +114,7 @@ export default function CuttingEndOfDay() {
   // Daily Actuals fields (same as original form)
   const [dayCutting, setDayCutting] = useState("");
   const [dayInput, setDayInput] = useState("");
+  const [sizeBreakdown, setSizeBreakdown] = useState<ColourBreakdown[] | null>(null);
 
   // Actual Capacities fields
   const [manPower, setManPower] = useState("");
@@ -138,6 +146,13 @@ export default function CuttingEndOfDay() {
   const [leftoverNotes, setLeftoverNotes] = useState("");
   const [leftoverLocation, setLeftoverLocation] = useState("");
 
+  // Lays from the PO's cut plan that were cut today
+  const { plan: cutPlan, lays: cutLays } = useCutPlan(selectedWorkOrder?.id);
+  const plannedLays = cutLays.filter((l) => l.status === "planned");
+  const [layResults, setLayResults] = useState<Record<string, LayResultDraft>>({});
+
+  const { matrix: sizeMatrix } = usePOSizeMatrix(selectedWorkOrder?.id);
+
   // Validation
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -161,6 +176,11 @@ export default function CuttingEndOfDay() {
     }
   }, [selectedLine?.id, selectedWorkOrder?.id, profile?.factory_id]);
 
+  useEffect(() => {
+    setLayResults({});
+    setSizeBreakdown(null);
+  }, [selectedWorkOrder?.id]);
+
   // Clear PO selection when line changes
   useEffect(() => {
     if (selectedLine && selectedWorkOrder) {
@@ -234,7 +254,7 @@ export default function CuttingEndOfDay() {
       // Check for today's actual
       const { data: actualData, error } = await supabase
         .from("cutting_actuals")
-        .select("id, day_cutting, day_input, total_cutting, total_input, balance, man_power, marker_capacity, lay_capacity, cutting_capacity, under_qty, leftover_recorded, leftover_type, leftover_unit, leftover_quantity, leftover_notes, leftover_location, leftover_photo_urls, hours_actual, ot_hours_actual, ot_manpower_actual")
+        .select("id, day_cutting, day_input, total_cutting, total_input, balance, man_power, marker_capacity, lay_capacity, cutting_capacity, under_qty, leftover_recorded, leftover_type, leftover_unit, leftover_quantity, leftover_notes, leftover_location, leftover_photo_urls, hours_actual, ot_hours_actual, ot_manpower_actual, size_breakdown")
         .eq("factory_id", profile.factory_id)
         .eq("line_id", selectedLine.id)
         .eq("work_order_id", selectedWorkOrder.id)
@@ -256,6 +276,7 @@ export default function CuttingEndOfDay() {
         setHoursActual(actualData.hours_actual ? String(actualData.hours_actual) : "");
         setOtHoursActual(String(actualData.ot_hours_actual || 0));
         setOtManpowerActual(String(actualData.ot_manpower_actual || 0));
+        setSizeBreakdown(parseBreakdown(actualData.size_breakdown));
         // Load leftover data if it exists
         if (actualData.leftover_recorded) {
           setLeftoverOpen(true);
@@ -344,6 +365,7 @@ export default function CuttingEndOfDay() {
     if (!layCapacity || parseInt(layCapacity) < 0) newErrors.layCapacity = t('cutting.layCapacityRequired');
     if (!cuttingCapacity || parseInt(cuttingCapacity) < 0) newErrors.cuttingCapacity = t('cutting.cuttingCapacityRequired');
     if (!hoursActual || parseFloat(hoursActual) < 0.5) newErrors.hoursActual = t('cutting.hoursRequired');
+    if (sizeBreakdown && breakdownTotal(sizeBreakdown) !== (parseInt(dayCutting) || 0)) newErrors.dayCutting = t('sizeMatrix.mismatch');
 
     // Leftover validation: if leftover is recorded, unit and quantity are required
     if (leftoverRecorded) {
@@ -419,8 +441,15 @@ export default function CuttingEndOfDay() {
         leftover_photo_urls: null,
         estimated_cost_value: estimatedCost.value,
         estimated_cost_currency: estimatedCost.value != null ? estimatedCost.currency : null,
+        size_breakdown: (sizeBreakdown ? compactBreakdown(sizeBreakdown) : null) as unknown as Json,
       };
 
+      const layResultRows = Object.entries(layResults).map(([id, r]) => ({
+        id,
+        actual_plies: parseInt(r.plies) || 0,
+        fabric_used: r.fabric ? parseFloat(r.fabric) : null,
+      }));
+
       if (isEditing && existingActual) {
         const { error } = await supabase
           .from("cutting_actuals")
@@ -428,6 +457,7 @@ export default function CuttingEndOfDay() {
           .eq("id", existingActual.id);
 
         if (error) throw error;
+        if (layResultRows.length > 0) await recordLayResults(layResultRows, today, selectedLine.id);
         toast.success("Cutting actuals updated successfully!");
       } else {
         const result = await offlineSubmit("cutting_actuals", "cutting_actuals", actualData as Record<string, unknown>, {
@@ -436,6 +466,13 @@ export default function CuttingEndOfDay() {
         });
 
         if (result.queued) {
+          if (layResultRows.length > 0) {
+            try {
+              await queueLayResults(layResultRows, today, selectedLine.id, profile.factory_id, user.id);
+            } catch (err) {
+              toast.error(`Lay results could not be saved offline: ${err instanceof Error ? err.message : "unknown error"}. Record them again once you're back online.`);
+            }
+          }
           if (isAdminOrHigher()) {
             navigate("/dashboard");
           } else {
@@ -451,6 +488,7 @@ export default function CuttingEndOfDay() {
           }
           throw new Error(result.error);
         }
+        if (layResultRows.length > 0) await recordLayResults(layResultRows, today, selectedLine.id);
         toast.success("Cutting end-of-day actuals submitted successfully!");
       }
       
@@ -677,8 +715,27 @@ export default function CuttingEndOfDay() {
               {errors.dayInput && <p className="text-xs text-destructive">{errors.dayInput}</p>}
             </div>
           </div>
+          <SizeMatrixEntry
+            matrix={sizeMatrix}
+            value={sizeBreakdown}
+            onChange={setSizeBreakdown}
+            onTotalChange={(total) => setDayCutting(String(total))}
+          />
         </div>
 
+        {cutPlan && plannedLays.length > 0 && (
+          <>
+            <div className="border-t border-border/40" />
+            <CutLayResults
+              lays={plannedLays}
+              sizes={cutPlan.sizes}
+              results={layResults}
+              onChange={setLayResults}
+              onUseAsDayCutting={(pieces) => setDayCutting(String(pieces))}
+            />
+          </>
+        )}
+
       </div>
 
         {/* Computed Totals (only on End of Day form) */}
@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Grid3X3, Layers, Loader2, Scissors, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { EmptyState } from "@/components/EmptyState";
+import { CutPlanEditor } from "@/components/cutting/CutPlanEditor";
+import { CutLaysTable } from "@/components/cutting/CutLaysTable";
+import { CutMatrixTable } from "@/components/cutting/CutMatrixTable";
+import { useCutPlan, useCutPlanMutations } from "@/hooks/useCutPlans";
+import { toPOSizeMatrix } from "@/hooks/useSizeMatrix";
+import { cutMatrix, proposeLays, remainingToCut } from "@/lib/cut-plan";
+import type { Json } from "@/integrations/supabase/types";
+
+interface WorkOrderOption {
+  id: string;
+  po_number: string;
+  buyer: string;
+  style: string;
+  order_qty: number;
+  color: string | null;
+  sizes: string[] | null;
+  size_breakdown: Json | null;
+}
+
+export default function CuttingPlans() {
+  const { t } = useTranslation();
+  const { profile } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [workOrders, setWorkOrders] = useState<WorkOrderOption[]>([]);
+  const [workOrderId, setWorkOrderId] = useState("");
+  const [confirmReplace, setConfirmReplace] = useState(false);
+
+  const { plan, lays, isLoading: planLoading } = useCutPlan(workOrderId || null);
+  const { savePlan, replaceLays, updateLay, deleteLay } = useCutPlanMutations(workOrderId || null);
+
+  useEffect(() => {
+    if (!profile?.factory_id) return;
+    (async () => {
+      try {
+        const { data, error } = await supabase
+          .from("work_orders")
+          .select("id, po_number, buyer, style, order_qty, color, sizes, size_breakdown")
+          .eq("factory_id", profile.factory_id!)
+          .eq("is_active", true)
+          .order("po_number", { ascending: true });
+        if (error) throw error;
+        setWorkOrders(data || []);
+      } catch (error) {
+        console.error("Error loading work orders:", error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [profile?.factory_id]);
+
+  const workOrder = workOrders.find((wo) => wo.id === workOrderId);
+  const poMatrix = workOrder ? toPOSizeMatrix(workOrder) : null;
+  const plannedCount = lays.filter((l) => l.status === "planned").length;
+  const cutCount = lays.length - plannedCount;
+
+  const propose = () => {
+    if (!plan) return;
+    // Re-planning keeps lays already cut and plans only what they left
+    const proposal = proposeLays(remainingToCut(plan, lays), plan.sizes, { ...plan, allowance_pct: 0 });
+    replaceLays.mutate({ planId: plan.id, lays: proposal, existing: lays });
+    setConfirmReplace(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!profile?.factory_id) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center p-4">
+        <p className="text-muted-foreground">{t("common.noFactoryAssigned")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-6xl py-3 md:py-4 lg:py-6 px-4 pb-24 space-y-5">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="h-10 w-10 rounded-xl bg-orange-500/10 flex items-center justify-center">
+          <Scissors className="h-5 w-5 text-orange-600 dark:text-orange-400" />
+        </div>
+        <div>
+          <h1 className="text-xl md:text-2xl font-bold">{t("cutPlan.title")}</h1>
+          <p className="text-sm text-muted-foreground">{t("cutPlan.description")}</p>
+        </div>
+      </div>
+
+      {/* PO */}
+      <div className="rounded-xl border border-border/50 bg-card p-4 grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+        <div className="space-y-1.5 sm:col-span-2">
+          <Label className="text-xs font-medium">{t("forms.poNumber")}</Label>
+          <Select value={workOrderId} onValueChange={setWorkOrderId}>
+            <SelectTrigger className="h-10"><SelectValue placeholder={t("forms.selectPO")} /></SelectTrigger>
+            <SelectContent>
+              {workOrders.map((wo) => (
+                <SelectItem key={wo.id} value={wo.id}>{wo.po_number} - {wo.buyer} / {wo.style}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {workOrder && (
+          <div className="text-sm">
+            <p className="text-muted-foreground text-xs">{t("cutting.orderQtyLabel")}</p>
+            <p className="font-mono font-semibold">{workOrder.order_qty.toLocaleString()}</p>
+          </div>
+        )}
+      </div>
+
+      {!workOrder ? (
+        <EmptyState icon={Scissors} title={t("cutPlan.selectPrompt")} description={t("cutPlan.selectPromptHint")} />
+      ) : planLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{t("cutPlan.breakdown")}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <CutPlanEditor
+                key={`${workOrder.id}-${plan?.id ?? "new"}`}
+                plan={plan}
+                orderQty={workOrder.order_qty}
+                defaultColour={workOrder.color}
+                poSizes={poMatrix?.sizes ?? []}
+                poBreakdown={poMatrix?.breakdown ?? null}
+                isPending={savePlan.isPending}
+                onSave={(input) => savePlan.mutate(input)}
+              />
+            </CardContent>
+          </Card>
+
+          {plan && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Layers className="h-4 w-4" />
+                  {t("cutPlan.lays")}
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {t("cutPlan.layCounts", { planned: plannedCount, cut: cutCount })}
+                  </span>
+                </CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={replaceLays.isPending}
+                  onClick={() => (plannedCount > 0 ? setConfirmReplace(true) : propose())}
+                >
+                  {replaceLays.isPending ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Wand2 className="h-4 w-4 mr-1.5" />}
+                  {t("cutPlan.proposeLays")}
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {lays.length === 0 ? (
+                  <p className="text-center py-6 text-sm text-muted-foreground">{t("cutPlan.noLays")}</p>
+                ) : (
+                  <CutLaysTable
+                    lays={lays}
+                    sizes={plan.sizes}
+                    onUpdate={(id, patch) => updateLay.mutate({ id, patch })}
+                    onDelete={(id) => deleteLay.mutate(id)}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {plan && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Grid3X3 className="h-4 w-4" />
+                  {t("cutPlan.cutToOrder")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CutMatrixTable rows={cutMatrix(plan.breakdown, plan.sizes, lays)} sizes={plan.sizes} />
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <AlertDialog open={confirmReplace} onOpenChange={setConfirmReplace}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("cutPlan.replaceTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>{t("cutPlan.replaceDescription", { count: plannedCount })}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("cutting.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={propose}>{t("cutPlan.proposeLays")}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -33,6 +33,9 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { CutMatrixTable } from "@/components/cutting/CutMatrixTable";
+import { useFactoryCutPlans } from "@/hooks/useCutPlans";
+import { cutMatrix } from "@/lib/cut-plan";
 
 interface CuttingSubmission {
   id: string;
@@ -82,6 +85,8 @@ export default function CuttingSummary() {
   const [selectedLine, setSelectedLine] = useState("all");
   const [selectedPO, setSelectedPO] = useState("all");
 
+  const { plans: cutPlans } = useFactoryCutPlans();
+
   useEffect(() => {
     if (profile?.factory_id) {
       fetchData();
@@ -183,6 +188,13 @@ export default function CuttingSummary() {
     });
   }, [submissions, selectedLine, selectedPO]);
 
+  // Size × colour cut-to-order for POs that have a cut plan
+  const filteredCutPlans = useMemo(() => {
+    if (selectedPO !== "all") return cutPlans.filter(p => p.poNumber === selectedPO);
+    const reported = new Set(filteredSubmissions.map(s => s.work_order_id));
+    return cutPlans.filter(p => reported.has(p.plan.work_order_id));
+  }, [cutPlans, selectedPO, filteredSubmissions]);
+
   const stats = useMemo(() => {
     const today = getTodayInTimezone(factory?.timezone || "Asia/Dhaka");
     const todaySubmissions = submissions.filter(s => s.production_date === today);
@@ -354,6 +366,26 @@ export default function CuttingSummary() {
         </Card>
       </div>
 
+      {/* Cut to order by size & colour */}
+      {filteredCutPlans.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t('cutPlan.cutToOrder')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {filteredCutPlans.map(p => (
+              <div key={p.plan.id} className="space-y-2">
+                <div className="flex items-baseline gap-2">
+                  <span className="font-semibold">{p.poNumber}</span>
+                  <span className="text-sm text-muted-foreground">{p.buyer} · {p.style}</span>
+                </div>
+                <CutMatrixTable rows={cutMatrix(p.plan.breakdown, p.plan.sizes, p.lays)} sizes={p.plan.sizes} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Table */}
       <Card>
         <CardHeader>
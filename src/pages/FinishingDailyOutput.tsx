@@ -20,7 +20,14 @@ import {
   CommandItem,
   CommandList,
 } from "@/components/ui/command";
-import { getTodayInTimezone } from "@/lib/date-utils";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getCurrentTimeInTimezone, getTodayInTimezone } from "@/lib/date-utils";
+import { currentShift, shiftProductionDate } from "@/lib/shifts";
+import { useFactoryShifts } from "@/hooks/useFactoryShifts";
+import { usePOSizeMatrix } from "@/hooks/useSizeMatrix";
+import { SizeMatrixEntry } from "@/components/size-matrix/SizeMatrixEntry";
+import { breakdownTotal, compactBreakdown, parseBreakdown, type ColourBreakdown } from "@/lib/size-matrix";
+import type { Json } from "@/integrations/supabase/types";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 
@@ -102,8 +109,32 @@ export default function FinishingDailyOutput() {
 
   // Validation
   const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Packed (poly) pieces by colour and size, when entered by matrix
+  const [sizeBreakdown, setSizeBreakdown] = useState<ColourBreakdown[] | null>(null);
+  const { matrix: sizeMatrix } = usePOSizeMatrix(selectedWorkOrderId);
   const [poSearchOpen, setPoSearchOpen] = useState(false);
 
+  // Factories running several shifts record which shift each entry is for
+  const { activeShifts, isConfigured } = useFactoryShifts();
+  const [shiftName, setShiftName] = useState("");
+  const hasShiftChoice = isConfigured && activeShifts.length > 1;
+  const selectedShift = isConfigured ? activeShifts.find((s) => s.name === shiftName) ?? activeShifts[0] : null;
+  const shiftValue = hasShiftChoice ? selectedShift?.name ?? null : null;
+
+  useEffect(() => {
+    if (!hasShiftChoice || shiftName) return;
+    const clock = getCurrentTimeInTimezone(factory?.timezone || "Asia/Dhaka");
+    setShiftName((currentShift(activeShifts, clock.getHours(), clock.getMinutes()) ?? activeShifts[0]).name);
+  }, [hasShiftChoice, shiftName, activeShifts, factory?.timezone]);
+
+  /** Today, or yesterday while last night's shift is still running */
+  const productionDate = () => {
+    const timezone = factory?.timezone || "Asia/Dhaka";
+    const clock = getCurrentTimeInTimezone(timezone);
+    return shiftProductionDate(selectedShift, getTodayInTimezone(timezone), clock.getHours(), clock.getMinutes());
+  };
+
   const selectedWorkOrder = useMemo(() => {
     return workOrders.find(wo => wo.id === selectedWorkOrderId);
   }, [workOrders, selectedWorkOrderId]);
@@ -121,7 +152,7 @@ export default function FinishingDailyOutput() {
     } else {
       setPreviousCartonTotal(0);
     }
-  }, [selectedWorkOrderId, profile?.factory_id]);
+  }, [selectedWorkOrderId, profile?.factory_id, shiftValue]);
 
   async function fetchFormData() {
     if (!profile?.factory_id) return;
@@ -152,7 +183,7 @@ export default function FinishingDailyOutput() {
     if (!profile?.factory_id || !selectedWorkOrderId) return;
 
     try {
-      const today = getTodayInTimezone(factory?.timezone || "Asia/Dhaka");
+      const today = productionDate();
 
       // Build query for existing output and target
       const outputQuery = supabase
@@ -174,8 +205,8 @@ export default function FinishingDailyOutput() {
         .eq("log_type", "TARGET");
 
       const [outputRes, targetRes] = await Promise.all([
-        outputQuery.maybeSingle(),
-        targetQuery.maybeSingle()
+        (shiftValue ? outputQuery.eq("shift", shiftValue) : outputQuery.is("shift", null)).maybeSingle(),
+        (shiftValue ? targetQuery.eq("shift", shiftValue) : targetQuery.is("shift", null)).maybeSingle()
       ]);
 
       if (outputRes.error) throw outputRes.error;
@@ -206,6 +237,7 @@ export default function FinishingDailyOutput() {
           poly: outputRes.data.poly?.toString() || "",
           carton: outputRes.data.carton?.toString() || "",
         });
+        setSizeBreakdown(parseBreakdown(outputRes.data.size_breakdown));
         setIsEditing(true);
       } else {
         setExistingLog(null);
@@ -226,6 +258,7 @@ export default function FinishingDailyOutput() {
           poly: "",
           carton: "",
         });
+        setSizeBreakdown(null);
       }
 
       // Fetch previous carton total, passing existing log ID directly to avoid stale state
@@ -290,6 +323,10 @@ export default function FinishingDailyOutput() {
       newErrors.actualHours = "Actual hours must be greater than 0";
     }
 
+    if (sizeBreakdown && breakdownTotal(sizeBreakdown) !== (parseInt(processValues.poly) || 0)) {
+      newErrors.processes = t("sizeMatrix.mismatch");
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   }
@@ -310,14 +347,14 @@ export default function FinishingDailyOutput() {
     setSubmitting(true);
 
     try {
-      const today = getTodayInTimezone(factory?.timezone || "Asia/Dhaka");
+      const today = productionDate();
       const logData = {
         factory_id: profile.factory_id,
         production_date: today,
         line_id: undefined,
         work_order_id: selectedWorkOrderId,
         log_type: "OUTPUT" as const,
-        shift: undefined,
+        shift: shiftValue,
         thread_cutting: processValues.thread_cutting ? parseInt(processValues.thread_cutting) : 0,
         inside_check: processValues.inside_check ? parseInt(processValues.inside_check) : 0,
         top_side_check: processValues.top_side_check ? parseInt(processValues.top_side_check) : 0,
@@ -331,6 +368,7 @@ export default function FinishingDailyOutput() {
         actual_hours: parseFloat(actualHours),
         ot_hours_actual: parseFloat(otHoursActual) || 0,
         ot_manpower_actual: parseInt(otManpowerActual) || 0,
+        size_breakdown: (sizeBreakdown ? compactBreakdown(sizeBreakdown) : null) as unknown as Json,
         submitted_by: user.id,
       };
 
@@ -501,6 +539,20 @@ export default function FinishingDailyOutput() {
           </div>
         </div>
 
+        {hasShiftChoice && (
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Shift *</Label>
+            <Select value={selectedShift?.name ?? ""} onValueChange={setShiftName}>
+              <SelectTrigger className="h-10"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {activeShifts.map((s) => (
+                  <SelectItem key={s.name} value={s.name}>{s.name} ({s.start_time}–{s.end_time})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Order Details */}
         {selectedWorkOrder && (
           <div className="rounded-lg bg-muted/30 border border-border/40 px-4 py-3">
@@ -605,6 +657,12 @@ export default function FinishingDailyOutput() {
               );
             })}
           </div>
+          <SizeMatrixEntry
+            matrix={sizeMatrix}
+            value={sizeBreakdown}
+            onChange={setSizeBreakdown}
+            onTotalChange={(total) => handleProcessValueChange("poly", String(total))}
+          />
         </div>
 
         <div className="border-t border-border/40" />
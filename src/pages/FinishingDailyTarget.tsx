@@ -18,7 +18,10 @@ import {
   CommandItem,
   CommandList,
 } from "@/components/ui/command";
-import { getTodayInTimezone } from "@/lib/date-utils";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getCurrentTimeInTimezone, getTodayInTimezone } from "@/lib/date-utils";
+import { currentShift, shiftProductionDate, workingHours } from "@/lib/shifts";
+import { useFactoryShifts } from "@/hooks/useFactoryShifts";
 
 interface WorkOrder {
   id: string;
@@ -85,6 +88,31 @@ export default function FinishingDailyTarget() {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [poSearchOpen, setPoSearchOpen] = useState(false);
 
+  // Factories running several shifts record which shift each entry is for
+  const { activeShifts, isConfigured } = useFactoryShifts();
+  const [shiftName, setShiftName] = useState("");
+  const hasShiftChoice = isConfigured && activeShifts.length > 1;
+  const selectedShift = isConfigured ? activeShifts.find((s) => s.name === shiftName) ?? activeShifts[0] : null;
+  const shiftValue = hasShiftChoice ? selectedShift?.name ?? null : null;
+
+  useEffect(() => {
+    if (!hasShiftChoice || shiftName) return;
+    const clock = getCurrentTimeInTimezone(factory?.timezone || "Asia/Dhaka");
+    setShiftName((currentShift(activeShifts, clock.getHours(), clock.getMinutes()) ?? activeShifts[0]).name);
+  }, [hasShiftChoice, shiftName, activeShifts, factory?.timezone]);
+
+  /** Today, or yesterday while last night's shift is still running */
+  const productionDate = () => {
+    const timezone = factory?.timezone || "Asia/Dhaka";
+    const clock = getCurrentTimeInTimezone(timezone);
+    return shiftProductionDate(selectedShift, getTodayInTimezone(timezone), clock.getHours(), clock.getMinutes());
+  };
+
+  // Planned hours default to the shift's working time, breaks excluded
+  useEffect(() => {
+    if (selectedShift && !isEditing) setPlannedHours(String(workingHours(selectedShift)));
+  }, [selectedShift, isEditing]);
+
   const selectedWorkOrder = useMemo(() => {
     return workOrders.find(wo => wo.id === selectedWorkOrderId);
   }, [workOrders, selectedWorkOrderId]);
@@ -100,7 +128,7 @@ export default function FinishingDailyTarget() {
     if (selectedWorkOrderId && profile?.factory_id) {
       checkExistingLog();
     }
-  }, [selectedWorkOrderId, profile?.factory_id]);
+  }, [selectedWorkOrderId, profile?.factory_id, shiftValue]);
 
   async function fetchFormData() {
     if (!profile?.factory_id) return;
@@ -131,7 +159,7 @@ export default function FinishingDailyTarget() {
     if (!profile?.factory_id || !selectedWorkOrderId) return;
 
     try {
-      const today = getTodayInTimezone(factory?.timezone || "Asia/Dhaka");
+      const today = productionDate();
       const query = supabase
         .from("finishing_daily_logs")
         .select("*")
@@ -141,7 +169,7 @@ export default function FinishingDailyTarget() {
         .eq("work_order_id", selectedWorkOrderId)
         .eq("log_type", "TARGET");
 
-      const { data, error } = await query.maybeSingle();
+      const { data, error } = await (shiftValue ? query.eq("shift", shiftValue) : query.is("shift", null)).maybeSingle();
 
       if (error) throw error;
 
@@ -231,14 +259,14 @@ export default function FinishingDailyTarget() {
     setSubmitting(true);
 
     try {
-      const today = getTodayInTimezone(factory?.timezone || "Asia/Dhaka");
+      const today = productionDate();
       const logData = {
         factory_id: profile.factory_id,
         production_date: today,
         line_id: undefined,
         work_order_id: selectedWorkOrderId,
         log_type: "TARGET" as const,
-        shift: undefined,
+        shift: shiftValue,
         thread_cutting: processValues.thread_cutting ? parseInt(processValues.thread_cutting) : 0,
         inside_check: processValues.inside_check ? parseInt(processValues.inside_check) : 0,
         top_side_check: processValues.top_side_check ? parseInt(processValues.top_side_check) : 0,
@@ -401,6 +429,20 @@ export default function FinishingDailyTarget() {
           </div>
         </div>
 
+        {hasShiftChoice && (
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Shift *</Label>
+            <Select value={selectedShift?.name ?? ""} onValueChange={setShiftName}>
+              <SelectTrigger className="h-10"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {activeShifts.map((s) => (
+                  <SelectItem key={s.name} value={s.name}>{s.name} ({s.start_time}–{s.end_time})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Order Details */}
         {selectedWorkOrder && (
           <div className="rounded-lg bg-muted/30 border border-border/40 px-4 py-3">
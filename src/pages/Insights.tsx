@@ -1,8 +1,11 @@
 import { useState, useEffect, useMemo } from "react";
+import { format, parseISO, subDays } from "date-fns";
 import { useAuth } from "@/contexts/AuthContext";
 import { getTodayInTimezone } from "@/lib/date-utils";
 import { supabase } from "@/integrations/supabase/client";
 import { compareLineNames } from "@/lib/sort-lines";
+import { toEfficiencyRecord, summarizeEfficiency, efficiencyByDate, efficiencyByLine, efficiencyValue } from "@/lib/efficiency";
+import { countWorkingDays } from "@/lib/working-days";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
@@ -25,6 +28,7 @@ import { LineEfficiencyTargets } from "@/components/insights/LineEfficiencyTarge
 
 import { InteractiveChart } from "@/components/ui/interactive-chart";
 import { useHeadcountCost } from "@/hooks/useHeadcountCost";
+import { useWorkingCalendar } from "@/hooks/useFactoryHolidays";
 import { ReportExportDialog } from "@/components/ReportExportDialog";
 import { InsightsReportDialog } from "@/components/insights/InsightsReportDialog";
 import { AnimatedNumber } from "@/components/ui/animated-number";
@@ -49,6 +53,8 @@ interface LinePerformance {
   totalOutput: number;
   totalTarget: number;
   efficiency: number;
+  /** False when no row had an SMV and manpower, so efficiency is just a 0 placeholder */
+  efficiencyMeasured: boolean;
   avgDailyOutput: number;
   workingDays: number;
   avgManpower: number;
@@ -87,7 +93,6 @@ interface InsightSummary {
   worstPerformingLine: string | null;
   mostCommonBlockerType: string | null;
   efficiencyTrend: 'up' | 'down' | 'stable';
-  outputTrend: 'up' | 'down' | 'stable';
   previousPeriodEfficiency: number;
   previousPeriodOutput: number;
 }
@@ -152,7 +157,6 @@ export default function Insights() {
     worstPerformingLine: null,
     mostCommonBlockerType: null,
     efficiencyTrend: 'stable',
-    outputTrend: 'stable',
     previousPeriodEfficiency: 0,
     previousPeriodOutput: 0,
   });
@@ -192,6 +196,28 @@ export default function Insights() {
   const [selectedLineName, setSelectedLineName] = useState<string | null>(null);
   const [dateRange, setDateRange] = useState({ start: '', end: '' });
 
+  // Working days in the current and previous periods, so a period that
+  // contains Eid or a shutdown is compared on output per working day
+  const { calendar } = useWorkingCalendar();
+  const workingDays = useMemo(() => {
+    if (!dateRange.start) return { current: 0, previous: 0 };
+    const start = parseISO(dateRange.start);
+    const prevStart = format(subDays(start, parseInt(period)), "yyyy-MM-dd");
+    const prevEnd = format(subDays(start, 1), "yyyy-MM-dd");
+    return {
+      current: countWorkingDays(calendar, dateRange.start, dateRange.end),
+      previous: countWorkingDays(calendar, prevStart, prevEnd),
+    };
+  }, [calendar, dateRange, period]);
+
+  const outputTrend = useMemo<'up' | 'down' | 'stable'>(() => {
+    const current = summary.totalSewingOutput / Math.max(1, workingDays.current);
+    const previous = summary.previousPeriodOutput / Math.max(1, workingDays.previous);
+    if (current > previous * 1.1) return 'up';
+    if (current < previous * 0.9) return 'down';
+    return 'stable';
+  }, [summary.totalSewingOutput, summary.previousPeriodOutput, workingDays]);
+
   // Y-axis domain controls for charts
   const [sewingYMin, setSewingYMin] = useState(0);
   const [sewingYMax, setSewingYMax] = useState<number | 'auto'>('auto');
@@ -253,7 +279,7 @@ export default function Insights() {
       // Fetch sewing actuals (end-of-day output, manpower, blockers, hours for cost)
       const { data: sewingActualsData } = await supabase
         .from('sewing_actuals')
-        .select('*, lines(name, line_id), work_orders(po_number, buyer, style, order_qty, cm_per_dozen), blocker_types:blocker_type_id(name)')
+        .select('*, lines(name, line_id), work_orders(po_number, buyer, style, order_qty, cm_per_dozen, smv), blocker_types:blocker_type_id(name)')
         .eq('factory_id', profile.factory_id)
         .gte('production_date', startDateStr)
         .lte('production_date', today)
@@ -270,14 +296,7 @@ export default function Insights() {
       // Fetch previous period sewing data
       const { data: prevSewingActuals } = await supabase
         .from('sewing_actuals')
-        .select('good_today, manpower_actual, has_blocker, production_date, line_id')
-        .eq('factory_id', profile.factory_id)
-        .gte('production_date', prevStartDateStr)
-        .lt('production_date', startDateStr);
-
-      const { data: prevSewingTargets } = await supabase
-        .from('sewing_targets')
-        .select('per_hour_target, line_id, production_date')
+        .select('good_today, manpower_actual, hours_actual, ot_manpower_actual, ot_hours_actual, has_blocker, production_date, line_id, work_order_id, work_orders(smv)')
         .eq('factory_id', profile.factory_id)
         .gte('production_date', prevStartDateStr)
         .lt('production_date', startDateStr);
@@ -411,17 +430,20 @@ export default function Insights() {
         dailyMap.set(t.production_date, existing);
       });
 
-      // Calculate daily efficiency (only for days with sewing data)
+      // SMV efficiency: earned minutes ÷ available minutes
+      const efficiencyRecords = (sewingActualsData || []).map(u => toEfficiencyRecord(u, u.work_orders?.smv));
+      const dailyEfficiency = efficiencyByDate(efficiencyRecords);
+
+      // Calculate daily efficiency (days without sewing submissions have no entry — factory closed)
       const dailyDataArray = Array.from(dailyMap.values()).map(d => ({
         ...d,
-        // Only compute efficiency for days with sewing submissions; 0 submissions = factory closed
-        efficiency: d.sewingTarget > 0 && d.sewingOutput > 0 ? Math.round((d.sewingOutput / d.sewingTarget) * 100) : 0,
+        efficiency: efficiencyValue(dailyEfficiency.get(d.date)),
       })).sort((a, b) => a.date.localeCompare(b.date));
 
       setDailyData(dailyDataArray);
 
       // Process line performance
-      const lineMap = new Map<string, LinePerformance & { _dates: Set<string> }>();
+      const lineMap = new Map<string, Omit<LinePerformance, 'efficiencyMeasured'> & { _dates: Set<string> }>();
 
       // From sewing actuals: output, manpower, blockers
       sewingActualsData?.forEach(u => {
@@ -469,6 +491,7 @@ export default function Insights() {
         lineMap.set(lineId, existing);
       });
 
+      const lineEfficiency = efficiencyByLine(efficiencyRecords);
       const linePerformanceArray = Array.from(lineMap.values()).map(l => {
         const days = l._dates.size;
         return {
@@ -476,7 +499,8 @@ export default function Insights() {
           lineId: l.lineId,
           totalOutput: l.totalOutput,
           totalTarget: l.totalTarget,
-          efficiency: l.totalTarget > 0 ? Math.round((l.totalOutput / l.totalTarget) * 100) : 0,
+          efficiency: efficiencyValue(lineEfficiency.get(l.lineId)),
+          efficiencyMeasured: lineEfficiency.get(l.lineId)?.efficiency != null,
           avgDailyOutput: days > 0 ? Math.round(l.totalOutput / days) : 0,
           workingDays: days,
           avgManpower: l.submissions > 0 ? Math.round(l.avgManpower / l.submissions) : 0,
@@ -537,21 +561,14 @@ export default function Insights() {
 
       // Calculate summary
       const totalSewingOutput = sewingActualsData?.reduce((sum, u) => sum + (u.good_today || 0), 0) || 0;
-      const totalSewingTarget = pairedSewingTargets.reduce((sum, t) => sum + ((t.per_hour_target || 0) * 8), 0) || 0;
       const totalFinishingQcPass = finishingDailyLogs?.reduce((sum, u) => sum + (u.poly || 0) + (u.carton || 0), 0) || 0;
       const totalManpower = sewingActualsData?.reduce((sum, u) => sum + (u.manpower_actual || 0), 0) || 0;
 
       const prevTotalOutput = prevSewingActuals?.reduce((sum, u) => sum + (u.good_today || 0), 0) || 0;
-      // Only count previous-period targets that have matching actuals
-      const prevActualKeys = new Set(
-        prevSewingActuals?.map(u => `${u.line_id}_${u.production_date}`) || []
-      );
-      const pairedPrevTargets = prevSewingTargets?.filter(t =>
-        prevActualKeys.has(`${t.line_id}_${t.production_date}`)
-      ) || [];
-      const prevTotalTarget = pairedPrevTargets.reduce((sum, t) => sum + ((t.per_hour_target || 0) * 8), 0) || 0;
       const prevTotalQcPass = prevFinishingDailyLogs?.reduce((sum, u) => sum + ((u as any).poly || 0) + ((u as any).carton || 0), 0) || 0;
-      const prevEfficiency = prevTotalTarget > 0 ? (prevTotalOutput / prevTotalTarget) * 100 : 0;
+      const prevEfficiency = efficiencyValue(summarizeEfficiency(
+        (prevSewingActuals || []).map(u => toEfficiencyRecord(u, u.work_orders?.smv))
+      ));
       const prevTotalBlockers = prevSewingActuals?.filter(u => u.has_blocker).length || 0;
       const prevTotalManpower = prevSewingActuals?.reduce((sum, u) => sum + (u.manpower_actual || 0), 0) || 0;
       const prevDaysWithData = new Set(prevSewingActuals?.map(u => u.production_date) || []).size;
@@ -569,16 +586,12 @@ export default function Insights() {
       const openBlockers = allBlockers.filter(b => (b as any).blocker_status !== 'resolved').length;
       const resolvedBlockers = allBlockers.filter(b => (b as any).blocker_status === 'resolved').length;
 
-      const avgEfficiency = totalSewingTarget > 0 ? (totalSewingOutput / totalSewingTarget) * 100 : 0;
+      const avgEfficiency = efficiencyValue(summarizeEfficiency(efficiencyRecords));
       
       let efficiencyTrend: 'up' | 'down' | 'stable' = 'stable';
       if (avgEfficiency > prevEfficiency + 5) efficiencyTrend = 'up';
       else if (avgEfficiency < prevEfficiency - 5) efficiencyTrend = 'down';
 
-      let outputTrend: 'up' | 'down' | 'stable' = 'stable';
-      if (totalSewingOutput > prevTotalOutput * 1.1) outputTrend = 'up';
-      else if (totalSewingOutput < prevTotalOutput * 0.9) outputTrend = 'down';
-
       // Count days with actual submissions per section (0 submissions = factory closed)
       const sewingDaysWithData = dailyDataArray.filter(d => d.sewingOutput > 0 || d.sewingTarget > 0).length;
       const finishingDaysWithData = dailyDataArray.filter(d => d.finishingQcPass > 0 || d.finishingPolyTarget > 0).length;
@@ -598,7 +611,6 @@ export default function Insights() {
         worstPerformingLine: linePerformanceArray[linePerformanceArray.length - 1]?.lineName || null,
         mostCommonBlockerType: blockerBreakdownArray[0]?.type || null,
         efficiencyTrend,
-        outputTrend,
         previousPeriodEfficiency: Math.round(prevEfficiency),
         previousPeriodOutput: prevTotalOutput,
       });
@@ -947,7 +959,7 @@ export default function Insights() {
                 <div className="h-11 w-11 rounded-xl bg-gradient-to-br from-blue-500 to-blue-600 flex items-center justify-center shadow-lg shadow-blue-500/25 group-hover:shadow-blue-500/40 transition-shadow">
                   <SewingMachine className="h-5 w-5 text-white" />
                 </div>
-                <TrendIcon trend={summary.outputTrend} />
+                <TrendIcon trend={outputTrend} />
               </div>
             </div>
           </CardContent>
@@ -1055,8 +1067,9 @@ export default function Insights() {
           totalBlockers: summary.totalBlockers,
           avgManpower: summary.avgManpower,
           daysWithData: summary.daysWithData,
+          workingDays: workingDays.current,
         }}
-        previousPeriod={previousPeriodData}
+        previousPeriod={{ ...previousPeriodData, workingDays: workingDays.previous }}
         periodDays={parseInt(period)}
       />
 
@@ -2427,7 +2440,7 @@ export default function Insights() {
       {/* Settings Section - Full width stacked layout */}
       <div className="space-y-6">
         <LineEfficiencyTargets 
-          linePerformance={linePerformance.map(l => ({
+          linePerformance={linePerformance.filter(l => l.efficiencyMeasured).map(l => ({
             lineId: l.lineId,
             lineName: l.lineName,
             efficiency: l.efficiency,
@@ -0,0 +1,565 @@
+import { useState, useEffect, useMemo } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, ScrollText, Save, Send, Ban, RotateCcw, Download, Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EmptyState } from "@/components/EmptyState";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { CostLineEditor, type CostColumn } from "@/components/costing/CostLineEditor";
+import { InvoiceStatusBadge } from "@/components/invoices/InvoiceStatusBadge";
+import { PaymentDialog } from "@/components/invoices/PaymentDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useInvoice,
+  useInvoices,
+  useInvoiceMutations,
+  invoiceDetailToDraft,
+  type InvoiceDraft,
+  type LineItemDraft,
+  type TaxLineDraft,
+  type ChargeDraft,
+} from "@/hooks/useInvoices";
+import { usePaymentMutations } from "@/hooks/usePayments";
+import {
+  INVOICE_CHARGE_TYPES,
+  INVOICE_CURRENCIES,
+  INVOICE_TYPE_LABELS,
+  calcInvoiceTotals,
+  deriveInvoiceStatus,
+  lineAmount,
+  taxAmount,
+  type InvoiceType,
+} from "@/lib/invoice-utils";
+import { bankDetailLines, generateInvoicePdf } from "@/lib/invoice-pdf";
+import { formatMoney } from "@/lib/lc-utils";
+
+const NONE = "__none";
+const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+const LINE_COLUMNS: CostColumn<LineItemDraft>[] = [
+  { key: "description", label: "Description", type: "text", className: "min-w-[200px]" },
+  { key: "style_number", label: "Style", type: "text", className: "min-w-[100px]" },
+  { key: "color", label: "Colour", type: "text", className: "min-w-[90px]" },
+  { key: "hs_code", label: "HS Code", type: "text", className: "w-[100px]" },
+  { key: "quantity", label: "Qty", type: "number", className: "w-[100px]" },
+  { key: "unit", label: "Unit", type: "select", options: ["PCS", "SETS", "DZ"], className: "w-[90px]" },
+  { key: "unit_price", label: "Unit Price", type: "number", className: "w-[100px]" },
+];
+
+const TAX_COLUMNS: CostColumn<TaxLineDraft>[] = [
+  { key: "label", label: "Tax", type: "text", placeholder: "VAT", className: "min-w-[160px]" },
+  { key: "rate_pct", label: "Rate %", type: "number", placeholder: "—", className: "w-[100px]" },
+  { key: "amount", label: "Fixed Amount", type: "number", className: "w-[120px]" },
+];
+
+const CHARGE_COLUMNS: CostColumn<ChargeDraft>[] = [
+  { key: "charge_type", label: "Type", type: "select", options: INVOICE_CHARGE_TYPES, className: "w-[140px]" },
+  { key: "description", label: "Description", type: "text", className: "min-w-[160px]" },
+  { key: "amount", label: "Amount", type: "number", className: "w-[120px]" },
+  { key: "is_deduct", label: "Deduct", type: "checkbox", className: "w-[70px]" },
+];
+
+/** bank_details are edited as free text, one line per row. */
+function bankDetailsText(details: InvoiceDraft["header"]["bank_details"]) {
+  return bankDetailLines(details ?? null).join("\n");
+}
+
+// ── Header cards ───────────────────────────────────────────────────────────
+
+function Field({ label, children, wide }: { label: string; children: React.ReactNode; wide?: boolean }) {
+  return (
+    <div className={`space-y-1.5 ${wide ? "col-span-2" : ""}`}>
+      <Label className={labelCls}>{label}</Label>
+      {children}
+    </div>
+  );
+}
+
+function DetailsCard({ draft, onChange, readOnly }: { draft: InvoiceDraft; onChange: (h: InvoiceDraft["header"]) => void; readOnly: boolean }) {
+  const h = draft.header;
+  const set = (patch: Partial<InvoiceDraft["header"]>) => onChange({ ...h, ...patch });
+  const text = (key: keyof InvoiceDraft["header"]) => ({
+    value: (h[key] as string | null | undefined) ?? "",
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => set({ [key]: e.target.value || null }),
+    className: "h-9",
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Invoice & Buyer</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <fieldset disabled={readOnly} className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Field label="Invoice No">
+            <Input value={h.invoice_number} onChange={(e) => set({ invoice_number: e.target.value })} className="h-9" />
+          </Field>
+          <Field label="Type">
+            <Select value={h.invoice_type ?? "commercial"} onValueChange={(v) => set({ invoice_type: v })} disabled={readOnly}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(INVOICE_TYPE_LABELS) as InvoiceType[]).map((t) => (
+                  <SelectItem key={t} value={t}>{INVOICE_TYPE_LABELS[t]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Field>
+          <Field label="Issue Date">
+            <Input type="date" value={h.issue_date ?? ""} onChange={(e) => set({ issue_date: e.target.value })} className="h-9" />
+          </Field>
+          <Field label="Due Date">
+            <Input type="date" {...text("due_date")} />
+          </Field>
+          <Field label="Buyer" wide>
+            <Input value={h.buyer_name} onChange={(e) => set({ buyer_name: e.target.value })} className="h-9" />
+          </Field>
+          <Field label="Buyer Contact" wide>
+            <Input {...text("buyer_contact")} />
+          </Field>
+          <Field label="Buyer Address" wide>
+            <Input {...text("buyer_address")} />
+          </Field>
+          <Field label="Ship To" wide>
+            <Input {...text("ship_to_address")} />
+          </Field>
+          <Field label="Currency">
+            <Select value={h.currency ?? "USD"} onValueChange={(v) => set({ currency: v })} disabled={readOnly}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {INVOICE_CURRENCIES.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </Field>
+          <Field label="Incoterms">
+            <Input {...text("incoterms")} placeholder="FOB" />
+          </Field>
+          <Field label="PO Numbers" wide>
+            <Input
+              value={(h.po_numbers ?? []).join(", ")}
+              onChange={(e) => {
+                const list = e.target.value.split(",").map((p) => p.trim()).filter(Boolean);
+                set({ po_numbers: list.length ? list : null });
+              }}
+              className="h-9"
+            />
+          </Field>
+          <Field label="L/C No">
+            <Input {...text("lc_number")} />
+          </Field>
+          <Field label="L/C Date">
+            <Input type="date" {...text("lc_date")} />
+          </Field>
+          <Field label="Contract No" wide>
+            <Input {...text("contract_number")} />
+          </Field>
+        </fieldset>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ShipmentCard({ draft, onChange, readOnly }: { draft: InvoiceDraft; onChange: (h: InvoiceDraft["header"]) => void; readOnly: boolean }) {
+  const h = draft.header;
+  const set = (patch: Partial<InvoiceDraft["header"]>) => onChange({ ...h, ...patch });
+  const text = (key: keyof InvoiceDraft["header"]) => ({
+    value: (h[key] as string | null | undefined) ?? "",
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => set({ [key]: e.target.value || null }),
+    className: "h-9",
+  });
+  const num = (key: keyof InvoiceDraft["header"]) => ({
+    type: "number",
+    value: h[key] == null ? "" : String(h[key]),
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => set({ [key]: e.target.value === "" ? null : parseFloat(e.target.value) }),
+    className: "h-9",
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Shipment</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <fieldset disabled={readOnly} className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Field label="Port of Loading"><Input {...text("port_of_loading")} /></Field>
+          <Field label="Port of Discharge"><Input {...text("port_of_discharge")} /></Field>
+          <Field label="Vessel"><Input {...text("vessel_name")} /></Field>
+          <Field label="Container"><Input {...text("container_number")} /></Field>
+          <Field label="B/L No"><Input {...text("bl_number")} /></Field>
+          <Field label="B/L Date"><Input type="date" {...text("bl_date")} /></Field>
+          <Field label="Country of Origin"><Input {...text("country_of_origin")} /></Field>
+          <Field label="Destination"><Input {...text("country_of_dest")} /></Field>
+          <Field label="Cartons"><Input {...num("total_cartons")} /></Field>
+          <Field label="Net Wt (kg)"><Input {...num("total_net_weight")} /></Field>
+          <Field label="Gross Wt (kg)"><Input {...num("total_gross_weight")} /></Field>
+          <Field label="CBM"><Input {...num("total_cbm")} /></Field>
+        </fieldset>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ── Page ───────────────────────────────────────────────────────────────────
+export default function InvoiceDetail() {
+  const { invoiceId } = useParams<{ invoiceId: string }>();
+  const navigate = useNavigate();
+  const { factory } = useAuth();
+  const { detail, isLoading } = useInvoice(invoiceId);
+  const { invoices } = useInvoices();
+  const m = useInvoiceMutations();
+  const { recordPayment } = usePaymentMutations();
+
+  const [draft, setDraft] = useState<InvoiceDraft | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [bankText, setBankText] = useState("");
+  const [paymentOpen, setPaymentOpen] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", "finance");
+    return () => { document.documentElement.removeAttribute("data-theme"); };
+  }, []);
+
+  // Reload the editor whenever a fresh copy arrives and there are no unsaved edits
+  useEffect(() => {
+    if (detail && !dirty) {
+      const d = invoiceDetailToDraft(detail);
+      setDraft(d);
+      setBankText(bankDetailsText(d.header.bank_details));
+    }
+  }, [detail, dirty]);
+
+  const update = (patch: Partial<InvoiceDraft>) => {
+    setDraft((d) => (d ? { ...d, ...patch } : d));
+    setDirty(true);
+  };
+  const updateHeader = (header: InvoiceDraft["header"]) => update({ header });
+
+  const totals = useMemo(() => {
+    if (!draft) return null;
+    return calcInvoiceTotals({
+      lines: draft.lines.map((l) => ({ ...l, quantity: l.quantity ?? 0, unit_price: l.unit_price ?? 0 })),
+      taxes: draft.taxes.map((t) => ({ amount: t.amount ?? 0, rate_pct: t.rate_pct ?? null })),
+      charges: draft.charges.map((c) => ({ amount: c.amount ?? 0, is_deduct: c.is_deduct ?? null })),
+      discount: draft.header,
+    });
+  }, [draft]);
+
+  if (isLoading || (detail && !draft)) {
+    return (
+      <div className="py-3 md:py-4 lg:py-6 space-y-5">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-[200px] w-full rounded-xl" />
+        <Skeleton className="h-[320px] w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  if (!detail || !draft || !totals) {
+    return (
+      <div className="py-6">
+        <EmptyState
+          icon={ScrollText}
+          title="Invoice not found"
+          description="This invoice may have been deleted."
+          action={{ label: "Back to Invoices", onClick: () => navigate("/finances/invoices") }}
+        />
+      </div>
+    );
+  }
+
+  const invoice = detail.invoice;
+  const currency = draft.header.currency || "USD";
+  const paid = Math.round(detail.allocations.reduce((s, a) => s + a.allocated_amount, 0) * 100) / 100;
+  const status = deriveInvoiceStatus(invoice.status, totals.total, paid);
+  const readOnly = status !== "draft";
+  const outstanding = Math.max(Math.round((totals.total - paid) * 100) / 100, 0);
+  const openInvoices = invoices.filter((i) => (i.derivedStatus === "issued" || i.derivedStatus === "partially_paid") && i.outstanding > 0);
+
+  const save = () =>
+    m.saveInvoice.mutate(
+      { id: invoice.id, draft: { ...draft, header: { ...draft.header, bank_details: bankText.trim() || null } } },
+      { onSuccess: () => setDirty(false) },
+    );
+
+  const downloadPdf = () =>
+    generateInvoicePdf({
+      factoryName: factory?.name || "Factory",
+      invoice,
+      lines: detail.lines,
+      taxes: detail.taxes,
+      charges: detail.charges,
+    });
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={() => navigate("/finances/invoices")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h1 className="text-xl md:text-2xl font-bold">{invoice.invoice_number}</h1>
+              <InvoiceStatusBadge status={status} />
+            </div>
+            <p className="text-sm text-muted-foreground truncate">
+              {INVOICE_TYPE_LABELS[invoice.invoice_type as InvoiceType] ?? invoice.invoice_type} · {invoice.buyer_name} · {format(parseISO(invoice.issue_date), "d MMM yyyy")}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 shrink-0">
+          {!readOnly && (
+            <Button onClick={save} disabled={!dirty || m.saveInvoice.isPending} className="gap-1.5">
+              <Save className="h-4 w-4" />
+              {m.saveInvoice.isPending ? "Saving..." : "Save"}
+            </Button>
+          )}
+          {status === "draft" && (
+            <Button
+              variant="outline"
+              className="gap-1.5"
+              disabled={dirty || draft.lines.length === 0 || m.setInvoiceStatus.isPending}
+              onClick={() => m.setInvoiceStatus.mutate({ id: invoice.id, status: "issued" })}
+            >
+              <Send className="h-4 w-4" />
+              Issue
+            </Button>
+          )}
+          {status === "issued" && paid === 0 && (
+            <Button variant="outline" className="gap-1.5" onClick={() => m.setInvoiceStatus.mutate({ id: invoice.id, status: "draft" })}>
+              <RotateCcw className="h-4 w-4" />
+              Reopen
+            </Button>
+          )}
+          {(status === "issued" || status === "partially_paid") && (
+            <Button variant="outline" className="gap-1.5" onClick={() => setPaymentOpen(true)}>
+              <Wallet className="h-4 w-4" />
+              Record Payment
+            </Button>
+          )}
+          {status !== "cancelled" && status !== "draft" && paid === 0 && (
+            <Button variant="outline" className="gap-1.5 text-destructive hover:text-destructive" onClick={() => setCancelOpen(true)}>
+              <Ban className="h-4 w-4" />
+              Cancel
+            </Button>
+          )}
+          <Button variant="outline" className="gap-1.5" disabled={dirty} onClick={downloadPdf}>
+            <Download className="h-4 w-4" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-5 md:gap-6 items-start">
+        <div className="xl:col-span-2 space-y-5 md:space-y-6">
+          <DetailsCard draft={draft} onChange={updateHeader} readOnly={readOnly} />
+
+          <CostLineEditor
+            title="Line Items"
+            rows={draft.lines}
+            columns={LINE_COLUMNS}
+            onChange={(lines) => update({ lines })}
+            newRow={() => ({ description: "", quantity: 0, unit: "PCS", unit_price: 0 })}
+            rowTotal={(l) => lineAmount({ ...l, quantity: l.quantity ?? 0, unit_price: l.unit_price ?? 0 })}
+            currency={currency}
+            readOnly={readOnly}
+            emptyText="No line items. Add goods shipped on this invoice."
+            totalLabel="Amount"
+            totalSuffix=""
+          />
+
+          <CostLineEditor
+            title="Taxes"
+            rows={draft.taxes}
+            columns={TAX_COLUMNS}
+            onChange={(taxes) => update({ taxes })}
+            newRow={() => ({ label: "", rate_pct: null, amount: 0 })}
+            rowTotal={(t) => taxAmount({ amount: t.amount ?? 0, rate_pct: t.rate_pct ?? null }, totals.taxable)}
+            currency={currency}
+            readOnly={readOnly}
+            emptyText="No taxes. Use a rate % to charge on the discounted subtotal, or a fixed amount."
+            totalLabel="Amount"
+            totalSuffix=""
+          />
+
+          <CostLineEditor
+            title="Charges & Deductions"
+            rows={draft.charges}
+            columns={CHARGE_COLUMNS}
+            onChange={(charges) => update({ charges })}
+            newRow={() => ({ charge_type: "Freight", description: "", amount: 0, is_deduct: false })}
+            rowTotal={(c) => (c.is_deduct ? -(c.amount ?? 0) : c.amount ?? 0)}
+            currency={currency}
+            readOnly={readOnly}
+            emptyText="No additional charges."
+            totalLabel="Amount"
+            totalSuffix=""
+          />
+
+          <ShipmentCard draft={draft} onChange={updateHeader} readOnly={readOnly} />
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Terms & Bank</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <fieldset disabled={readOnly} className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className={labelCls}>Payment Terms</Label>
+                  <Textarea
+                    value={draft.header.payment_terms_text ?? ""}
+                    onChange={(e) => updateHeader({ ...draft.header, payment_terms_text: e.target.value || null })}
+                    rows={3}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <div className="flex items-center justify-between">
+                    <Label className={labelCls}>Bank Details</Label>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      Print
+                      <Switch
+                        checked={draft.header.show_bank_details !== false}
+                        onCheckedChange={(v) => updateHeader({ ...draft.header, show_bank_details: v })}
+                        disabled={readOnly}
+                      />
+                    </div>
+                  </div>
+                  <Textarea
+                    value={bankText}
+                    onChange={(e) => { setBankText(e.target.value); setDirty(true); }}
+                    rows={3}
+                    placeholder={"Bank: …\nA/C No: …\nSWIFT: …"}
+                  />
+                </div>
+                <div className="space-y-1.5 md:col-span-2">
+                  <Label className={labelCls}>Notes</Label>
+                  <Textarea
+                    value={draft.header.notes ?? ""}
+                    onChange={(e) => updateHeader({ ...draft.header, notes: e.target.value || null })}
+                    rows={2}
+                  />
+                </div>
+              </fieldset>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Summary */}
+        <div className="space-y-5 md:space-y-6 xl:sticky xl:top-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <fieldset disabled={readOnly} className="grid grid-cols-2 gap-2">
+                <Select
+                  value={draft.header.discount_type ?? NONE}
+                  onValueChange={(v) => updateHeader({ ...draft.header, discount_type: v === NONE ? null : v })}
+                  disabled={readOnly}
+                >
+                  <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No discount</SelectItem>
+                    <SelectItem value="percent">Discount %</SelectItem>
+                    <SelectItem value="amount">Discount amount</SelectItem>
+                  </SelectContent>
+                </Select>
+                {draft.header.discount_type && (
+                  <Input
+                    type="number"
+                    value={String((draft.header.discount_type === "percent" ? draft.header.discount_pct : draft.header.discount_value) ?? "")}
+                    onChange={(e) => {
+                      const v = e.target.value === "" ? null : parseFloat(e.target.value);
+                      updateHeader(
+                        draft.header.discount_type === "percent"
+                          ? { ...draft.header, discount_pct: v }
+                          : { ...draft.header, discount_value: v },
+                      );
+                    }}
+                    className="h-9 text-right"
+                  />
+                )}
+              </fieldset>
+
+              <div className="space-y-1.5 tabular-nums">
+                <div className="flex justify-between"><span className="text-muted-foreground">Quantity</span><span>{totals.quantity.toLocaleString()}</span></div>
+                <div className="flex justify-between"><span className="text-muted-foreground">Subtotal</span><span>{formatMoney(totals.subtotal, currency)}</span></div>
+                {totals.discount > 0 && (
+                  <div className="flex justify-between"><span className="text-muted-foreground">Discount</span><span>−{formatMoney(totals.discount, currency)}</span></div>
+                )}
+                {totals.tax > 0 && (
+                  <div className="flex justify-between"><span className="text-muted-foreground">Tax</span><span>{formatMoney(totals.tax, currency)}</span></div>
+                )}
+                {totals.charges > 0 && (
+                  <div className="flex justify-between"><span className="text-muted-foreground">Charges</span><span>{formatMoney(totals.charges, currency)}</span></div>
+                )}
+                {totals.deductions > 0 && (
+                  <div className="flex justify-between"><span className="text-muted-foreground">Deductions</span><span>−{formatMoney(totals.deductions, currency)}</span></div>
+                )}
+                <div className="flex justify-between border-t pt-2 font-semibold text-base"><span>Total</span><span>{formatMoney(totals.total, currency)}</span></div>
+                <div className="flex justify-between"><span className="text-muted-foreground">Received</span><span>{formatMoney(paid, currency)}</span></div>
+                <div className="flex justify-between font-semibold"><span>Outstanding</span><span>{formatMoney(outstanding, currency)}</span></div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Payments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {detail.allocations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No payments applied yet.</p>
+              ) : (
+                <div className="divide-y text-sm">
+                  {detail.allocations.map((a) => (
+                    <div key={a.id} className="flex items-center justify-between py-2">
+                      <div>
+                        <div className="font-medium">{a.payments ? format(parseISO(a.payments.payment_date), "d MMM yyyy") : "—"}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {[a.payments?.payment_method, a.payments?.bank_reference].filter(Boolean).join(" · ") || "No reference"}
+                        </div>
+                      </div>
+                      <span className="tabular-nums font-medium">{formatMoney(a.allocated_amount, a.allocated_currency || currency)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <PaymentDialog
+        open={paymentOpen}
+        onOpenChange={setPaymentOpen}
+        openInvoices={openInvoices}
+        defaultBuyer={invoice.buyer_name}
+        isPending={recordPayment.isPending}
+        onSubmit={(data) => recordPayment.mutate(data, { onSuccess: () => setPaymentOpen(false) })}
+      />
+
+      <ConfirmDialog
+        open={cancelOpen}
+        onOpenChange={setCancelOpen}
+        title="Cancel invoice?"
+        description={`${invoice.invoice_number} will be excluded from receivables and its dispatches can be invoiced again.`}
+        confirmLabel="Cancel Invoice"
+        variant="destructive"
+        onConfirm={() => {
+          m.setInvoiceStatus.mutate({ id: invoice.id, status: "cancelled" });
+          setCancelOpen(false);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { ScrollText, Plus, Search, X, ChevronRight, Trash2, Wallet, Users } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { EmptyState } from "@/components/EmptyState";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { InvoiceStatusBadge } from "@/components/invoices/InvoiceStatusBadge";
+import { NewInvoiceDialog } from "@/components/invoices/NewInvoiceDialog";
+import { PaymentDialog } from "@/components/invoices/PaymentDialog";
+import { ReceivablesTable } from "@/components/invoices/ReceivablesTable";
+import { useInvoices, useInvoiceMutations, useInvoiceableDispatches, type InvoiceWithTotals } from "@/hooks/useInvoices";
+import { usePayments, usePaymentMutations, type PaymentWithAllocations } from "@/hooks/usePayments";
+import { INVOICE_TYPE_LABELS, linesFromDispatches, receivablesByBuyer, type InvoiceType } from "@/lib/invoice-utils";
+import { formatMoney } from "@/lib/lc-utils";
+
+type PageTab = "invoices" | "payments" | "receivables";
+type StatusFilter = "all" | "draft" | "open" | "paid" | "cancelled";
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "draft", label: "Drafts" },
+  { value: "open", label: "Unpaid" },
+  { value: "paid", label: "Paid" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+function matchesFilter(inv: InvoiceWithTotals, f: StatusFilter) {
+  if (f === "all") return true;
+  if (f === "open") return inv.derivedStatus === "issued" || inv.derivedStatus === "partially_paid";
+  return inv.derivedStatus === f;
+}
+
+function matchesSearch(inv: InvoiceWithTotals, q: string) {
+  const lower = q.toLowerCase();
+  return (
+    inv.invoice_number.toLowerCase().includes(lower) ||
+    inv.buyer_name.toLowerCase().includes(lower) ||
+    (inv.lc_number?.toLowerCase().includes(lower) ?? false) ||
+    (inv.po_numbers ?? []).some((p) => p.toLowerCase().includes(lower))
+  );
+}
+
+function InvoiceRow({ invoice, onDelete }: { invoice: InvoiceWithTotals; onDelete: () => void }) {
+  const navigate = useNavigate();
+  return (
+    <Card className="cursor-pointer hover:shadow-sm transition-all duration-200 group" onClick={() => navigate(`/finances/invoices/${invoice.id}`)}>
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0 space-y-1.5 flex-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-sm font-semibold">{invoice.invoice_number}</span>
+              <InvoiceStatusBadge status={invoice.derivedStatus} />
+              {invoice.invoice_type === "proforma" && (
+                <span className="text-[11px] text-muted-foreground">{INVOICE_TYPE_LABELS.proforma}</span>
+              )}
+            </div>
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground flex-wrap">
+              <span className="text-foreground font-medium">{invoice.buyer_name}</span>
+              <span>·</span>
+              <span>{format(parseISO(invoice.issue_date), "d MMM yyyy")}</span>
+              {invoice.po_numbers && invoice.po_numbers.length > 0 && <><span>·</span><span>PO {invoice.po_numbers.join(", ")}</span></>}
+              {invoice.due_date && <><span>·</span><span>Due {format(parseISO(invoice.due_date), "d MMM yyyy")}</span></>}
+            </div>
+          </div>
+          <div className="flex items-center gap-4 shrink-0">
+            <div className="text-right">
+              <div className="text-sm font-semibold tabular-nums">{formatMoney(invoice.totals.total, invoice.currency)}</div>
+              <div className="text-xs text-muted-foreground tabular-nums">
+                {invoice.derivedStatus === "draft" || invoice.derivedStatus === "cancelled"
+                  ? `${invoice.totals.quantity.toLocaleString()} pcs`
+                  : `Due ${formatMoney(invoice.outstanding, invoice.currency)}`}
+              </div>
+            </div>
+            {invoice.status === "draft" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                onClick={(e) => { e.stopPropagation(); onDelete(); }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <ChevronRight className="h-4 w-4 text-muted-foreground group-hover:text-foreground transition-colors" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PaymentRow({ payment, onDelete }: { payment: PaymentWithAllocations; onDelete: () => void }) {
+  const allocated = payment.payment_allocations.reduce((s, a) => s + a.allocated_amount, 0);
+  const unallocated = Math.round((payment.original_amount - allocated) * 100) / 100;
+  return (
+    <Card className="group">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0 space-y-1.5 flex-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-sm font-semibold">{payment.buyer_name || "Unknown buyer"}</span>
+              {payment.payment_method && <span className="text-[11px] text-muted-foreground">{payment.payment_method}</span>}
+            </div>
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground flex-wrap">
+              <span>{format(parseISO(payment.payment_date), "d MMM yyyy")}</span>
+              {payment.bank_reference && <><span>·</span><span>Ref {payment.bank_reference}</span></>}
+              {payment.payment_allocations.length > 0 && (
+                <><span>·</span><span>{payment.payment_allocations.map((a) => a.invoices?.invoice_number).filter(Boolean).join(", ")}</span></>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-4 shrink-0">
+            <div className="text-right">
+              <div className="text-sm font-semibold tabular-nums">{formatMoney(payment.original_amount, payment.original_currency)}</div>
+              <div className={`text-xs tabular-nums ${unallocated > 0 ? "text-amber-600 dark:text-amber-400" : "text-muted-foreground"}`}>
+                {unallocated > 0 ? `${formatMoney(unallocated, payment.original_currency)} unallocated` : "Fully allocated"}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+              onClick={onDelete}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Invoices() {
+  const navigate = useNavigate();
+  const { invoices, isLoading } = useInvoices();
+  const { dispatches } = useInvoiceableDispatches();
+  const { payments, isLoading: paymentsLoading } = usePayments();
+  const { saveInvoice, deleteInvoice } = useInvoiceMutations();
+  const { recordPayment, deletePayment } = usePaymentMutations();
+
+  const [tab, setTab] = useState<PageTab>("invoices");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [search, setSearch] = useState("");
+  const [newOpen, setNewOpen] = useState(false);
+  const [paymentOpen, setPaymentOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<InvoiceWithTotals | null>(null);
+  const [deletePaymentTarget, setDeletePaymentTarget] = useState<PaymentWithAllocations | null>(null);
+
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", "finance");
+    return () => { document.documentElement.removeAttribute("data-theme"); };
+  }, []);
+
+  const openInvoices = useMemo(
+    () => invoices.filter((i) => (i.derivedStatus === "issued" || i.derivedStatus === "partially_paid") && i.outstanding > 0),
+    [invoices],
+  );
+
+  const receivables = useMemo(
+    () =>
+      receivablesByBuyer(
+        invoices.map((i) => ({ ...i, total: i.totals.total, status: i.derivedStatus })),
+        format(new Date(), "yyyy-MM-dd"),
+      ),
+    [invoices],
+  );
+
+  const filtered = invoices
+    .filter((i) => matchesFilter(i, statusFilter))
+    .filter((i) => !search.trim() || matchesSearch(i, search.trim()));
+
+  const filteredPayments = payments.filter((p) => {
+    const q = search.trim().toLowerCase();
+    return !q || (p.buyer_name?.toLowerCase().includes(q) ?? false) || (p.bank_reference?.toLowerCase().includes(q) ?? false);
+  });
+
+  function handleCreate(data: { invoiceType: InvoiceType; buyerName: string; currency: string; dispatches: typeof dispatches }) {
+    const lines = linesFromDispatches(data.dispatches);
+    const poNumbers = Array.from(new Set(data.dispatches.map((d) => d.work_orders?.po_number).filter((p): p is string => !!p)));
+    saveInvoice.mutate(
+      {
+        draft: {
+          header: {
+            invoice_number: "",
+            invoice_type: data.invoiceType,
+            buyer_name: data.buyerName,
+            currency: data.currency,
+            issue_date: format(new Date(), "yyyy-MM-dd"),
+            po_numbers: poNumbers.length > 0 ? poNumbers : null,
+            work_order_id: data.dispatches.length === 1 ? data.dispatches[0].work_order_id : null,
+            port_of_discharge: data.dispatches[0]?.destination ?? null,
+          },
+          lines,
+          taxes: [],
+          charges: [],
+          dispatchIds: data.dispatches.map((d) => d.id),
+        },
+      },
+      {
+        onSuccess: (id) => {
+          setNewOpen(false);
+          navigate(`/finances/invoices/${id}`);
+        },
+      },
+    );
+  }
+
+  const loading = tab === "payments" ? paymentsLoading : isLoading;
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-violet-500/10 flex items-center justify-center">
+            <ScrollText className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+          </div>
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold">Invoices</h1>
+            <p className="text-sm text-muted-foreground">Export invoices, buyer payments and receivables</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setPaymentOpen(true)} className="gap-1.5">
+            <Wallet className="h-4 w-4" />
+            <span className="hidden sm:inline">Record Payment</span>
+          </Button>
+          <Button onClick={() => setNewOpen(true)} className="gap-1.5">
+            <Plus className="h-4 w-4" />
+            New Invoice
+          </Button>
+        </div>
+      </div>
+
+      <Tabs value={tab} onValueChange={(v) => setTab(v as PageTab)}>
+        <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center">
+          <TabsList className="w-full sm:w-auto flex flex-wrap h-auto p-1 rounded-xl bg-muted/60 border border-border/50 shrink-0">
+            <TabsTrigger value="invoices" className="text-xs sm:text-sm px-3 py-2 rounded-lg data-[state=active]:shadow-sm gap-1.5">
+              Invoices
+              {!isLoading && <span className="text-[10px] text-muted-foreground tabular-nums">{invoices.length}</span>}
+            </TabsTrigger>
+            <TabsTrigger value="payments" className="text-xs sm:text-sm px-3 py-2 rounded-lg data-[state=active]:shadow-sm gap-1.5">
+              Payments
+              {!paymentsLoading && <span className="text-[10px] text-muted-foreground tabular-nums">{payments.length}</span>}
+            </TabsTrigger>
+            <TabsTrigger value="receivables" className="text-xs sm:text-sm px-3 py-2 rounded-lg data-[state=active]:shadow-sm">
+              Receivables
+            </TabsTrigger>
+          </TabsList>
+
+          {tab !== "receivables" && (
+            <div className="relative w-full sm:max-w-xs">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+              <Input
+                placeholder={tab === "invoices" ? "Invoice, buyer, PO, LC…" : "Buyer, bank reference…"}
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9 pr-9 h-10"
+              />
+              {search && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 text-muted-foreground hover:text-foreground"
+                  onClick={() => setSearch("")}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </Tabs>
+
+      {tab === "invoices" && (
+        <div className="flex flex-wrap gap-1.5">
+          {STATUS_FILTERS.map((f) => (
+            <Button
+              key={f.value}
+              size="sm"
+              variant={statusFilter === f.value ? "secondary" : "ghost"}
+              className="h-7 text-xs"
+              onClick={() => setStatusFilter(f.value)}
+            >
+              {f.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => <Skeleton key={i} className="h-[80px] w-full rounded-xl" />)}
+        </div>
+      ) : tab === "invoices" ? (
+        invoices.length === 0 ? (
+          <EmptyState
+            icon={ScrollText}
+            title="No invoices yet"
+            description="Create a commercial or proforma invoice, optionally from approved dispatches."
+            action={{ label: "New Invoice", onClick: () => setNewOpen(true) }}
+          />
+        ) : filtered.length === 0 ? (
+          <EmptyState icon={Search} title="No results" description="No invoices match this filter." />
+        ) : (
+          <div className="space-y-3">
+            {filtered.map((inv) => (
+              <InvoiceRow key={inv.id} invoice={inv} onDelete={() => setDeleteTarget(inv)} />
+            ))}
+          </div>
+        )
+      ) : tab === "payments" ? (
+        payments.length === 0 ? (
+          <EmptyState
+            icon={Wallet}
+            title="No payments recorded"
+            description="Record buyer remittances and apply them against open invoices."
+            action={{ label: "Record Payment", onClick: () => setPaymentOpen(true) }}
+          />
+        ) : filteredPayments.length === 0 ? (
+          <EmptyState icon={Search} title="No results" description="No payments match this search." />
+        ) : (
+          <div className="space-y-3">
+            {filteredPayments.map((p) => (
+              <PaymentRow key={p.id} payment={p} onDelete={() => setDeletePaymentTarget(p)} />
+            ))}
+          </div>
+        )
+      ) : receivables.length === 0 ? (
+        <EmptyState icon={Users} title="No receivables" description="Issued invoices appear here grouped by buyer, with their ageing." />
+      ) : (
+        <ReceivablesTable rows={receivables} />
+      )}
+
+      <NewInvoiceDialog
+        open={newOpen}
+        onOpenChange={setNewOpen}
+        dispatches={dispatches}
+        isPending={saveInvoice.isPending}
+        onSubmit={handleCreate}
+      />
+
+      <PaymentDialog
+        open={paymentOpen}
+        onOpenChange={setPaymentOpen}
+        openInvoices={openInvoices}
+        isPending={recordPayment.isPending}
+        onSubmit={(data) => recordPayment.mutate(data, { onSuccess: () => setPaymentOpen(false) })}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Delete draft invoice?"
+        description={`${deleteTarget?.invoice_number ?? ""} and its line items will be removed.`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => {
+          if (deleteTarget) deleteInvoice.mutate(deleteTarget.id);
+          setDeleteTarget(null);
+        }}
+      />
+
+      <ConfirmDialog
+        open={!!deletePaymentTarget}
+        onOpenChange={(open) => !open && setDeletePaymentTarget(null)}
+        title="Delete payment?"
+        description="Its allocations are released and the affected invoices go back to unpaid or partially paid."
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => {
+          if (deletePaymentTarget) deletePayment.mutate({ payment: deletePaymentTarget, reason: "" });
+          setDeletePaymentTarget(null);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,531 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, Pencil, FilePlus2, Plus, Trash2, AlertTriangle, Landmark, Ship } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { EmptyState } from "@/components/EmptyState";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { LCStatusBadge } from "@/components/lc/LCStatusBadge";
+import { LCFormDialog } from "@/components/lc/LCFormDialog";
+import { LCAmendmentDialog } from "@/components/lc/LCAmendmentDialog";
+import { LCShipmentDialog } from "@/components/lc/LCShipmentDialog";
+import { LCDiscrepancyDialog } from "@/components/lc/LCDiscrepancyDialog";
+import { LCDocChecklist } from "@/components/lc/LCDocChecklist";
+import { LCLinkedOrders } from "@/components/lc/LCLinkedOrders";
+import {
+  useLetterOfCredit,
+  useLCLinkOptions,
+  useLCMutations,
+  type LCShipment,
+  type LCDiscrepancy,
+  type LCWithStatus,
+} from "@/hooks/useLetterOfCredits";
+import {
+  LC_SHIPMENT_STATUS_LABELS,
+  LC_DISCREPANCY_TYPES,
+  formatMoney,
+  parseDiscrepancyItems,
+  presentationDeadline,
+  type LCShipmentStatus,
+} from "@/lib/lc-utils";
+import { cn } from "@/lib/utils";
+
+function fmtDate(d: string | null | undefined) {
+  return d ? format(parseISO(d), "d MMM yyyy") : "—";
+}
+
+// ── Summary ────────────────────────────────────────────────────────────────
+function SummaryCards({ lc }: { lc: LCWithStatus }) {
+  const u = lc.utilisation;
+  const tiles = [
+    { label: "LC Value", value: formatMoney(lc.lc_value, lc.currency), sub: `±${lc.tolerance_pct ?? 0}% · max ${formatMoney(u.ceiling, lc.currency)}` },
+    { label: "Shipped", value: formatMoney(u.shipped, lc.currency), sub: `${u.pct}% of face value` },
+    { label: "Open Balance", value: formatMoney(Math.max(u.remaining, 0), lc.currency), sub: u.remaining < 0 ? "Drawn into tolerance" : "Available to ship" },
+    { label: "Expiry", value: fmtDate(lc.expiry_date), sub: `Ship by ${fmtDate(lc.latest_shipment_date)}` },
+  ];
+
+  return (
+    <Card>
+      <CardContent className="p-4 md:p-5 space-y-4">
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {tiles.map((t) => (
+            <div key={t.label} className="space-y-1 min-w-0">
+              <p className="text-[10px] md:text-xs font-semibold uppercase tracking-wider text-muted-foreground">{t.label}</p>
+              <p className="font-mono text-lg md:text-xl font-bold tracking-tight truncate">{t.value}</p>
+              <p className="text-[10px] md:text-xs text-muted-foreground">{t.sub}</p>
+            </div>
+          ))}
+        </div>
+        <Progress
+          value={Math.min(u.pct, 100)}
+          className={cn("h-2", u.overTolerance && "[&>div]:bg-red-500")}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+function WarningList({ lc }: { lc: LCWithStatus }) {
+  if (lc.warnings.length === 0) return null;
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30 px-4 py-3 space-y-1.5">
+      {lc.warnings.map((w, i) => (
+        <div
+          key={i}
+          className={cn(
+            "flex items-center gap-2 text-sm",
+            w.severity === "critical" ? "text-red-700 dark:text-red-400" : "text-amber-800 dark:text-amber-300",
+          )}
+        >
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {w.message}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ── Shipments ──────────────────────────────────────────────────────────────
+function ShipmentsTable({
+  lc,
+  shipments,
+  onEdit,
+  onDelete,
+}: {
+  lc: LCWithStatus;
+  shipments: LCShipment[];
+  onEdit: (s: LCShipment) => void;
+  onDelete: (s: LCShipment) => void;
+}) {
+  if (shipments.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">No shipments drawn against this LC yet.</p>;
+  }
+  return (
+    <div className="rounded-lg border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>#</TableHead>
+            <TableHead>Shipped</TableHead>
+            <TableHead>Invoice</TableHead>
+            <TableHead className="text-right">Value</TableHead>
+            <TableHead>B/L</TableHead>
+            <TableHead>Present By</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="w-[60px]" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {shipments.map((s) => {
+            const deadline = presentationDeadline(lc, s.shipment_date);
+            return (
+              <TableRow key={s.id} className="cursor-pointer group" onClick={() => onEdit(s)}>
+                <TableCell className="font-medium">{s.shipment_number}</TableCell>
+                <TableCell>{fmtDate(s.shipment_date)}</TableCell>
+                <TableCell className="text-muted-foreground">{s.invoice_number || "—"}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatMoney(s.invoice_value, lc.currency)}</TableCell>
+                <TableCell className="text-muted-foreground">{s.bl_number || "—"}</TableCell>
+                <TableCell>
+                  {s.docs_submitted_date ? (
+                    <span className="text-muted-foreground">Presented {fmtDate(s.docs_submitted_date)}</span>
+                  ) : (
+                    fmtDate(deadline)
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="text-[10px]">
+                    {LC_SHIPMENT_STATUS_LABELS[(s.status as LCShipmentStatus) ?? "shipped"] ?? s.status}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                    onClick={(e) => { e.stopPropagation(); onDelete(s); }}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// ── Discrepancies ──────────────────────────────────────────────────────────
+function DiscrepancyList({
+  discrepancies,
+  shipments,
+  currency,
+  onEdit,
+}: {
+  discrepancies: LCDiscrepancy[];
+  shipments: LCShipment[];
+  currency: string | null;
+  onEdit: (d: LCDiscrepancy) => void;
+}) {
+  if (discrepancies.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">No discrepancies raised by the bank.</p>;
+  }
+  const shipmentNo = new Map(shipments.map((s) => [s.id, s.shipment_number]));
+  const typeLabel = new Map(LC_DISCREPANCY_TYPES.map((t) => [t.value, t.label]));
+
+  return (
+    <div className="space-y-3">
+      {discrepancies.map((d) => {
+        const items = parseDiscrepancyItems(d.discrepancy_items);
+        const open = d.status === "open";
+        return (
+          <Card key={d.id} className="cursor-pointer hover:shadow-sm transition-all" onClick={() => onEdit(d)}>
+            <CardContent className="p-4 space-y-2">
+              <div className="flex items-center gap-2 flex-wrap text-xs">
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    "text-[10px]",
+                    open
+                      ? "bg-red-100 text-red-700 border-red-200 dark:bg-red-950/40 dark:text-red-400 dark:border-red-800"
+                      : "bg-emerald-100 text-emerald-700 border-emerald-200 dark:bg-emerald-950/40 dark:text-emerald-400 dark:border-emerald-800",
+                  )}
+                >
+                  {open ? "Open" : d.status === "waived" ? "Waived" : "Resolved"}
+                </Badge>
+                <span className="font-medium">{typeLabel.get(d.discrepancy_type ?? "") ?? "Discrepancy"}</span>
+                <span className="text-muted-foreground">· Notice {fmtDate(d.notice_date)}</span>
+                {d.shipment_id && shipmentNo.has(d.shipment_id) && (
+                  <span className="text-muted-foreground">· Shipment #{shipmentNo.get(d.shipment_id)}</span>
+                )}
+                {d.bank_charges ? (
+                  <span className="ml-auto tabular-nums text-muted-foreground">Fee {formatMoney(d.bank_charges, currency)}</span>
+                ) : null}
+              </div>
+              <ul className="list-disc pl-5 text-sm space-y-0.5">
+                {items.map((item, i) => <li key={i}>{item}</li>)}
+              </ul>
+              {!open && d.resolution && (
+                <p className="text-xs text-muted-foreground">
+                  {d.resolution}{d.resolution_date ? ` (${fmtDate(d.resolution_date)})` : ""}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+// ── Terms ──────────────────────────────────────────────────────────────────
+function TermsGrid({ lc, contractNumber }: { lc: LCWithStatus; contractNumber: string | null }) {
+  const yesNo = (v: boolean | null) => (v == null ? "—" : v ? "Allowed" : "Not allowed");
+  const rows: [string, string][] = [
+    ["Applicant", lc.applicant_name || lc.buyer_name],
+    ["Sales Contract", contractNumber || "—"],
+    ["LC Type", lc.lc_type || "—"],
+    ["Payment", [lc.payment_type, lc.tenor_days ? `${lc.tenor_days} days` : null].filter(Boolean).join(" · ") || "—"],
+    ["Issue Date", fmtDate(lc.issue_date)],
+    ["Presentation Period", `${lc.presentation_period ?? 21} days`],
+    ["Incoterms", lc.incoterms || "—"],
+    ["Route", [lc.port_of_loading, lc.port_of_discharge].filter(Boolean).join(" → ") || "—"],
+    ["Partial Shipment", yesNo(lc.partial_shipment_allowed)],
+    ["Transhipment", yesNo(lc.transhipment_allowed)],
+    ["Issuing Bank", [lc.applicant_bank_name, lc.applicant_bank_swift].filter(Boolean).join(" · ") || "—"],
+    ["Advising Bank", [lc.advising_bank_name, lc.advising_bank_swift].filter(Boolean).join(" · ") || "—"],
+    ["Confirming Bank", [lc.confirming_bank_name, lc.confirming_bank_swift].filter(Boolean).join(" · ") || "—"],
+    ["Beneficiary Bank", [lc.beneficiary_bank_name, lc.beneficiary_bank_branch].filter(Boolean).join(", ") || "—"],
+  ];
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-3">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-4 border-b border-border/50 pb-2">
+            <dt className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{label}</dt>
+            <dd className="text-sm text-right">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {(lc.goods_description || lc.special_conditions || lc.notes) && (
+        <div className="space-y-3 text-sm">
+          {lc.goods_description && <div><p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">Goods</p><p className="whitespace-pre-wrap">{lc.goods_description}</p></div>}
+          {lc.special_conditions && <div><p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">Special Conditions</p><p className="whitespace-pre-wrap">{lc.special_conditions}</p></div>}
+          {lc.notes && <div><p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">Notes</p><p className="whitespace-pre-wrap">{lc.notes}</p></div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ── Page ───────────────────────────────────────────────────────────────────
+export default function LetterOfCreditDetail() {
+  const { lcId } = useParams<{ lcId: string }>();
+  const navigate = useNavigate();
+  const { lc, amendments, shipments, checklist, discrepancies, contract, linkedWorkOrders, isLoading } = useLetterOfCredit(lcId);
+  const { workOrders, contracts } = useLCLinkOptions();
+  const m = useLCMutations(lcId);
+
+  const [editOpen, setEditOpen] = useState(false);
+  const [amendOpen, setAmendOpen] = useState(false);
+  const [shipmentOpen, setShipmentOpen] = useState(false);
+  const [editShipment, setEditShipment] = useState<LCShipment | null>(null);
+  const [discrepancyOpen, setDiscrepancyOpen] = useState(false);
+  const [editDiscrepancy, setEditDiscrepancy] = useState<LCDiscrepancy | null>(null);
+  const [deleteShipment, setDeleteShipment] = useState<LCShipment | null>(null);
+
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", "finance");
+    return () => { document.documentElement.removeAttribute("data-theme"); };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="py-3 md:py-4 lg:py-6 space-y-5">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-[140px] w-full rounded-xl" />
+        <Skeleton className="h-[320px] w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  if (!lc) {
+    return (
+      <div className="py-6">
+        <EmptyState
+          icon={Landmark}
+          title="LC not found"
+          description="This letter of credit may have been deleted."
+          action={{ label: "Back to LCs", onClick: () => navigate("/finances/lcs") }}
+        />
+      </div>
+    );
+  }
+
+  const nextShipmentNumber = shipments.reduce((max, s) => Math.max(max, s.shipment_number), 0) + 1;
+  const otherShipped = lc.utilisation.shipped - (editShipment?.invoice_value ?? 0);
+  const openDiscrepancies = discrepancies.filter((d) => d.status === "open").length;
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={() => navigate("/finances/lcs")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h1 className="text-xl md:text-2xl font-bold font-mono tracking-tight">{lc.lc_number}</h1>
+              <LCStatusBadge status={lc.derivedStatus} />
+            </div>
+            <p className="text-sm text-muted-foreground truncate">
+              {lc.buyer_name}{lc.applicant_bank_name ? ` · ${lc.applicant_bank_name}` : ""}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" className="gap-1.5" onClick={() => setEditOpen(true)}>
+            <Pencil className="h-4 w-4" />
+            Edit
+          </Button>
+          <Button variant="outline" className="gap-1.5" onClick={() => setAmendOpen(true)}>
+            <FilePlus2 className="h-4 w-4" />
+            Amend
+          </Button>
+        </div>
+      </div>
+
+      <SummaryCards lc={lc} />
+      <WarningList lc={lc} />
+
+      <Tabs defaultValue="shipments">
+        <TabsList className="h-auto p-1 rounded-xl bg-muted/60 border border-border/50 flex-wrap justify-start">
+          <TabsTrigger value="shipments" className="text-xs sm:text-sm">Shipments</TabsTrigger>
+          <TabsTrigger value="documents" className="text-xs sm:text-sm">Documents</TabsTrigger>
+          <TabsTrigger value="discrepancies" className="text-xs sm:text-sm gap-1.5">
+            Discrepancies
+            {openDiscrepancies > 0 && <span className="text-[10px] text-red-600 tabular-nums">{openDiscrepancies}</span>}
+          </TabsTrigger>
+          <TabsTrigger value="amendments" className="text-xs sm:text-sm">Amendments</TabsTrigger>
+          <TabsTrigger value="orders" className="text-xs sm:text-sm">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="terms" className="text-xs sm:text-sm">Terms</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="shipments" className="mt-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+              <CardTitle className="text-base flex items-center gap-2"><Ship className="h-4 w-4" />Shipments</CardTitle>
+              <Button size="sm" className="gap-1.5" onClick={() => { setEditShipment(null); setShipmentOpen(true); }}>
+                <Plus className="h-4 w-4" />
+                Add Shipment
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <ShipmentsTable
+                lc={lc}
+                shipments={shipments}
+                onEdit={(s) => { setEditShipment(s); setShipmentOpen(true); }}
+                onDelete={setDeleteShipment}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="documents" className="mt-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Required Documents</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LCDocChecklist
+                items={checklist}
+                onToggle={(id, completed) => m.setChecklistStatus.mutate({ id, completed })}
+                onAdd={(name) => m.addChecklistItem.mutate({ lcId: lc.id, document_name: name, sortOrder: checklist.length })}
+                onDelete={(id) => m.deleteChecklistItem.mutate(id)}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="discrepancies" className="mt-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+              <CardTitle className="text-base">Bank Discrepancies</CardTitle>
+              <Button size="sm" variant="outline" className="gap-1.5" onClick={() => { setEditDiscrepancy(null); setDiscrepancyOpen(true); }}>
+                <Plus className="h-4 w-4" />
+                Log Discrepancy
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <DiscrepancyList
+                discrepancies={discrepancies}
+                shipments={shipments}
+                currency={lc.currency}
+                onEdit={(d) => { setEditDiscrepancy(d); setDiscrepancyOpen(true); }}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="amendments" className="mt-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Amendment History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {amendments.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-6 text-center">No amendments.</p>
+              ) : (
+                <div className="space-y-3">
+                  {[...amendments].reverse().map((a) => (
+                    <div key={a.id} className="rounded-lg border px-4 py-3 space-y-1">
+                      <div className="flex items-center gap-2 text-xs">
+                        <span className="font-semibold">Amendment {a.amendment_number}</span>
+                        <span className="text-muted-foreground">· {fmtDate(a.amendment_date)}</span>
+                      </div>
+                      <p className="text-sm">{a.description}</p>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                        {a.new_expiry_date && <span>Expiry → {fmtDate(a.new_expiry_date)}</span>}
+                        {a.new_shipment_date && <span>Latest shipment → {fmtDate(a.new_shipment_date)}</span>}
+                        {a.value_change ? (
+                          <span>Value {a.value_change > 0 ? "+" : "−"}{formatMoney(Math.abs(a.value_change), lc.currency)}</span>
+                        ) : null}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="orders" className="mt-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Purchase Orders</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <LCLinkedOrders
+                linked={linkedWorkOrders}
+                options={workOrders}
+                contractNumber={contract?.contract_number ?? null}
+                isLinking={m.linkWorkOrder.isPending}
+                onLink={(workOrderId) => m.linkWorkOrder.mutate({ lcId: lc.id, workOrderId })}
+                onUnlink={(linkId) => m.unlinkWorkOrder.mutate(linkId)}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="terms" className="mt-4">
+          <Card>
+            <CardContent className="p-4 md:p-6">
+              <TermsGrid lc={lc} contractNumber={contract?.contract_number ?? null} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <LCFormDialog
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        editLC={lc}
+        contracts={contracts}
+        isPending={m.saveLC.isPending}
+        onSubmit={(data) => m.saveLC.mutate(data, { onSuccess: () => setEditOpen(false) })}
+      />
+      <LCAmendmentDialog
+        open={amendOpen}
+        onOpenChange={setAmendOpen}
+        lc={lc}
+        isPending={m.addAmendment.isPending}
+        onSubmit={(data) => m.addAmendment.mutate({ lc, data }, { onSuccess: () => setAmendOpen(false) })}
+      />
+      <LCShipmentDialog
+        open={shipmentOpen}
+        onOpenChange={setShipmentOpen}
+        lc={lc}
+        editShipment={editShipment}
+        otherShipped={otherShipped}
+        isPending={m.saveShipment.isPending}
+        onSubmit={(data) =>
+          m.saveShipment.mutate(
+            { lcId: lc.id, nextNumber: nextShipmentNumber, data },
+            { onSuccess: () => setShipmentOpen(false) },
+          )
+        }
+      />
+      <LCDiscrepancyDialog
+        open={discrepancyOpen}
+        onOpenChange={setDiscrepancyOpen}
+        shipments={shipments}
+        editDiscrepancy={editDiscrepancy}
+        isPending={m.saveDiscrepancy.isPending}
+        onSubmit={(data) =>
+          m.saveDiscrepancy.mutate({ lcId: lc.id, data }, { onSuccess: () => setDiscrepancyOpen(false) })
+        }
+      />
+      <ConfirmDialog
+        open={!!deleteShipment}
+        onOpenChange={(open) => !open && setDeleteShipment(null)}
+        title={`Delete shipment #${deleteShipment?.shipment_number ?? ""}?`}
+        description="The shipment is removed from this LC and the shipped balance is recalculated."
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => {
+          if (deleteShipment) m.deleteShipment.mutate({ lcId: lc.id, shipmentId: deleteShipment.id });
+          setDeleteShipment(null);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, useMemo, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Landmark, Plus, Search, X, ChevronRight, AlertTriangle, FileText, Wallet } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { EmptyState } from "@/components/EmptyState";
+import { LCFormDialog } from "@/components/lc/LCFormDialog";
+import { LCStatusBadge, LCWarningChips } from "@/components/lc/LCStatusBadge";
+import { useLetterOfCredits, useLCLinkOptions, useLCMutations, type LCWithStatus } from "@/hooks/useLetterOfCredits";
+import { formatMoney } from "@/lib/lc-utils";
+
+type StatusTab = "open" | "attention" | "shipped" | "all";
+
+const STATUS_TABS: { value: StatusTab; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "attention", label: "Needs Attention" },
+  { value: "shipped", label: "Shipped / Closed" },
+  { value: "all", label: "All" },
+];
+
+function matchesTab(lc: LCWithStatus, tab: StatusTab) {
+  switch (tab) {
+    case "open": return ["active", "partially_shipped", "draft"].includes(lc.derivedStatus);
+    case "attention": return lc.warnings.length > 0;
+    case "shipped": return ["fully_shipped", "closed", "expired"].includes(lc.derivedStatus);
+    default: return true;
+  }
+}
+
+function matchesSearch(lc: LCWithStatus, q: string) {
+  const lower = q.toLowerCase();
+  return (
+    lc.lc_number.toLowerCase().includes(lower) ||
+    lc.buyer_name.toLowerCase().includes(lower) ||
+    (lc.applicant_name?.toLowerCase().includes(lower) ?? false) ||
+    (lc.applicant_bank_name?.toLowerCase().includes(lower) ?? false)
+  );
+}
+
+// ── KPI strip ──────────────────────────────────────────────────────────────
+function KpiStrip({ lcs }: { lcs: LCWithStatus[] }) {
+  const open = lcs.filter((l) => l.derivedStatus === "active" || l.derivedStatus === "partially_shipped");
+  // Mixed currencies can't be summed meaningfully; headline the USD book.
+  const openUsd = open.filter((l) => (l.currency || "USD") === "USD");
+  const openBalance = openUsd.reduce((s, l) => s + Math.max(l.utilisation.remaining, 0), 0);
+  const critical = lcs.filter((l) => l.warnings.some((w) => w.severity === "critical")).length;
+  const expiring = lcs.filter((l) => l.warnings.some((w) => w.kind === "expiry" && (w.daysLeft ?? -1) >= 0)).length;
+
+  const tiles = [
+    { label: "Open LCs", value: open.length.toLocaleString(), sub: `${lcs.length} on file`, icon: FileText, tone: "text-violet-600 bg-violet-500/10" },
+    { label: "Unshipped Balance", value: formatMoney(openBalance, "USD"), sub: "USD LCs only", icon: Wallet, tone: "text-blue-600 bg-blue-500/10" },
+    { label: "Expiring Soon", value: expiring.toLocaleString(), sub: "Inside warning window", icon: AlertTriangle, tone: "text-amber-600 bg-amber-500/10" },
+    { label: "Critical", value: critical.toLocaleString(), sub: "Expired, late or over-drawn", icon: AlertTriangle, tone: "text-red-600 bg-red-500/10" },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-3 md:gap-4 lg:grid-cols-4">
+      {tiles.map((t) => (
+        <Card key={t.label}>
+          <CardContent className="p-4 md:p-5 flex items-start justify-between">
+            <div className="space-y-1 min-w-0">
+              <p className="text-[10px] md:text-xs font-semibold uppercase tracking-wider text-muted-foreground">{t.label}</p>
+              <p className="font-mono text-xl md:text-2xl font-bold tracking-tight truncate">{t.value}</p>
+              <p className="text-[10px] md:text-xs text-muted-foreground">{t.sub}</p>
+            </div>
+            <div className={`rounded-xl p-2.5 ${t.tone}`}>
+              <t.icon className="h-5 w-5" />
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+// ── LC row ─────────────────────────────────────────────────────────────────
+function LCRow({ lc }: { lc: LCWithStatus }) {
+  const navigate = useNavigate();
+  return (
+    <Card className="cursor-pointer hover:shadow-sm transition-all duration-200 group" onClick={() => navigate(`/finances/lcs/${lc.id}`)}>
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0 space-y-1.5 flex-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-mono text-sm font-semibold tracking-tight">{lc.lc_number}</span>
+              <LCStatusBadge status={lc.derivedStatus} />
+              {(lc.amendment_count ?? 0) > 0 && (
+                <span className="text-[11px] text-muted-foreground">{lc.amendment_count} amendment{lc.amendment_count === 1 ? "" : "s"}</span>
+              )}
+            </div>
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground flex-wrap">
+              <span className="text-foreground font-medium">{lc.buyer_name}</span>
+              {lc.applicant_bank_name && <><span>·</span><span>{lc.applicant_bank_name}</span></>}
+              <span>·</span>
+              <span>Expires {format(parseISO(lc.expiry_date), "d MMM yyyy")}</span>
+              {lc.latest_shipment_date && <><span>·</span><span>Ship by {format(parseISO(lc.latest_shipment_date), "d MMM yyyy")}</span></>}
+            </div>
+            <LCWarningChips warnings={lc.warnings} />
+          </div>
+          <div className="flex items-center gap-4 shrink-0">
+            <div className="w-40 hidden sm:block space-y-1">
+              <div className="flex justify-between text-[11px] text-muted-foreground">
+                <span>Shipped</span>
+                <span className="tabular-nums">{lc.utilisation.pct}%</span>
+              </div>
+              <Progress value={Math.min(lc.utilisation.pct, 100)} className="h-1.5" />
+            </div>
+            <div className="text-right">
+              <div className="text-sm font-semibold tabular-nums">{formatMoney(lc.lc_value, lc.currency)}</div>
+              <div className="text-xs text-muted-foreground tabular-nums">
+                {formatMoney(Math.max(lc.utilisation.remaining, 0), lc.currency)} open
+              </div>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground group-hover:text-foreground transition-colors" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ── Page ───────────────────────────────────────────────────────────────────
+export default function LetterOfCredits() {
+  const navigate = useNavigate();
+  const { lcs, isLoading } = useLetterOfCredits();
+  const { contracts } = useLCLinkOptions();
+  const { saveLC } = useLCMutations();
+
+  const [tab, setTab] = useState<StatusTab>("open");
+  const [search, setSearch] = useState("");
+  const [formOpen, setFormOpen] = useState(false);
+
+  // Finance (purple) theme, same as the Finances page
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", "finance");
+    return () => { document.documentElement.removeAttribute("data-theme"); };
+  }, []);
+
+  const filtered = useMemo(() => {
+    return lcs
+      .filter((lc) => matchesTab(lc, tab))
+      .filter((lc) => !search.trim() || matchesSearch(lc, search.trim()));
+  }, [lcs, tab, search]);
+
+  const countFor = (t: StatusTab) => lcs.filter((lc) => matchesTab(lc, t)).length;
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-violet-500/10 flex items-center justify-center">
+            <Landmark className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+          </div>
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold">Letters of Credit</h1>
+            <p className="text-sm text-muted-foreground">Export LCs, shipments drawn against them and document status</p>
+          </div>
+        </div>
+        <Button onClick={() => setFormOpen(true)} className="gap-1.5">
+          <Plus className="h-4 w-4" />
+          New LC
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-2 gap-3 md:gap-4 lg:grid-cols-4">
+          {[1, 2, 3, 4].map((i) => <Skeleton key={i} className="h-[96px] w-full rounded-xl" />)}
+        </div>
+      ) : lcs.length > 0 ? (
+        <KpiStrip lcs={lcs} />
+      ) : null}
+
+      {/* Tabs + search */}
+      <Tabs value={tab} onValueChange={(v) => setTab(v as StatusTab)}>
+        <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center">
+          <TabsList className="w-full sm:w-auto grid grid-cols-4 sm:flex h-auto p-1 rounded-xl bg-muted/60 border border-border/50 shrink-0">
+            {STATUS_TABS.map((t) => (
+              <TabsTrigger key={t.value} value={t.value} className="text-xs sm:text-sm px-3 py-2 rounded-lg data-[state=active]:shadow-sm gap-1.5">
+                {t.label}
+                {!isLoading && <span className="text-[10px] text-muted-foreground tabular-nums">{countFor(t.value)}</span>}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          <div className="relative w-full sm:max-w-xs">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              placeholder="LC no., buyer, bank…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 pr-9 h-10"
+            />
+            {search && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 text-muted-foreground hover:text-foreground"
+                onClick={() => setSearch("")}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => <Skeleton key={i} className="h-[96px] w-full rounded-xl" />)}
+        </div>
+      ) : lcs.length === 0 ? (
+        <EmptyState
+          icon={Landmark}
+          title="No letters of credit yet"
+          description="Record your first export LC to track shipments, documents and expiry dates."
+          action={{ label: "New LC", onClick: () => setFormOpen(true) }}
+        />
+      ) : filtered.length === 0 ? (
+        <EmptyState icon={Search} title="No results" description="No LCs match this filter." />
+      ) : (
+        <div className="space-y-3">
+          {filtered.map((lc) => <LCRow key={lc.id} lc={lc} />)}
+        </div>
+      )}
+
+      <LCFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        editLC={null}
+        contracts={contracts}
+        isPending={saveLC.isPending}
+        onSubmit={(data) =>
+          saveLC.mutate(data, {
+            onSuccess: (id) => {
+              setFormOpen(false);
+              navigate(`/finances/lcs/${id}`);
+            },
+          })
+        }
+      />
+    </div>
+  );
+}
@@ -10,7 +10,9 @@ import { LinePerformanceSummary } from "@/components/lines/LinePerformanceSummar
 import { LinePerformanceCards } from "@/components/lines/LinePerformanceCards";
 import { LineDrilldownDrawer } from "@/components/lines/LineDrilldownDrawer";
 import { LineExportButton } from "@/components/lines/LineExportButton";
+import { LineWipPanel } from "@/components/lines/LineWipPanel";
 import { useQCLineSheets } from "@/components/lines/useQCLineSheets";
+import { useLineWip } from "@/components/lines/useLineWip";
 
 export default function Lines() {
   const navigate = useNavigate();
@@ -35,6 +37,9 @@ export default function Lines() {
     endDate: dateRange.end,
   });
 
+  // WIP as it stood at the end of the selected period
+  const wip = useLineWip(dateRange.end);
+
   const [drawerLineId, setDrawerLineId] = useState<string | null>(null);
 
   const drawerLine = useMemo(
@@ -94,6 +99,16 @@ export default function Lines() {
         activeLineCount={filteredLines.length}
       />
 
+      {/* WIP between cutting input and sewing output */}
+      <LineWipPanel
+        lines={filteredLines}
+        wip={wip.lines}
+        poInfo={wip.poInfo}
+        limits={wip.limits}
+        loading={wip.loading}
+        onLineClick={(id) => setDrawerLineId(id)}
+      />
+
       {/* Line rows */}
       <LinePerformanceCards
         lines={filteredLines}
@@ -110,6 +125,9 @@ export default function Lines() {
         timeRange={timeRange}
         dateLabel={dateLabel}
         dateRange={dateRange}
+        wip={drawerLineId ? wip.byLineId.get(drawerLineId) ?? null : null}
+        wipPOInfo={wip.poInfo}
+        wipLimits={wip.limits}
         open={!!drawerLineId}
         onClose={() => setDrawerLineId(null)}
       />
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { CloudOff, Cloud, RefreshCw, Trash2, AlertTriangle, GitCompare, Image, Loader2, History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { EmptyState } from "@/components/EmptyState";
+import { ConflictReviewDialog } from "@/components/offline/ConflictReviewDialog";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+import { useOfflineQueue } from "@/hooks/useOfflineQueue";
+import { cn } from "@/lib/utils";
+import type { QueuedSubmission } from "@/lib/offline-queue";
+
+const STATUS_BADGE: Record<QueuedSubmission["status"], { label: string; variant: "secondary" | "default" | "destructive" | "outline" }> = {
+  pending: { label: "Pending", variant: "secondary" },
+  syncing: { label: "Syncing", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+  conflict: { label: "Needs review", variant: "outline" },
+};
+
+export default function PendingSync() {
+  const { isOnline, isSyncing, manualSync } = useNetworkStatus();
+  const { submissions, isLoading, resolvingId, retry, discard, resolve } = useOfflineQueue();
+  const [reviewing, setReviewing] = useState<QueuedSubmission | null>(null);
+  const [discarding, setDiscarding] = useState<QueuedSubmission | null>(null);
+
+  const hasPending = submissions.some((s) => s.status === "pending" || s.status === "syncing");
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-3xl py-3 md:py-4 lg:py-6 px-4 pb-24 space-y-5">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-amber-500/10 flex items-center justify-center">
+            <Cloud className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+          </div>
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold">Pending Sync</h1>
+            <p className="text-sm text-muted-foreground">Submissions saved on this device that haven't reached the server yet</p>
+          </div>
+        </div>
+        {hasPending && (
+          <Button className="h-9" onClick={manualSync} disabled={!isOnline || isSyncing}>
+            <RefreshCw className={cn("h-4 w-4 mr-1.5", isSyncing && "animate-spin")} />
+            Sync Now
+          </Button>
+        )}
+      </div>
+
+      {!isOnline && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/30 bg-destructive/5 px-3 py-2 text-sm text-destructive">
+          <CloudOff className="h-4 w-4 shrink-0" />
+          You're offline. Items will sync automatically when the connection is back.
+        </div>
+      )}
+
+      {submissions.length === 0 ? (
+        <EmptyState icon={Cloud} title="All caught up" description="Nothing is waiting to sync from this device." />
+      ) : (
+        <div className="space-y-3">
+          {submissions.map((sub) => {
+            const badge = STATUS_BADGE[sub.status];
+            return (
+              <div key={sub.id} className="rounded-xl border border-border/50 bg-card p-4 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium capitalize">{sub.formType.replace(/_/g, " ")}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Saved {format(new Date(sub.timestamp), "MMM d, h:mm a")}
+                      {typeof sub.payload.production_date === "string" && ` · for ${sub.payload.production_date}`}
+                      {sub.attachments.length > 0 && (
+                        <span className="inline-flex items-center gap-1 ml-1">
+                          · <Image className="h-3 w-3" /> {sub.attachments.length}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <Badge
+                    variant={badge.variant}
+                    className={cn("shrink-0", sub.status === "conflict" && "border-amber-300 text-amber-700 dark:text-amber-400")}
+                  >
+                    {badge.label}
+                  </Badge>
+                </div>
+
+                {sub.errorMessage && (
+                  <div className="flex items-start gap-2 text-xs text-destructive">
+                    <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                    <span className="break-words">{sub.errorMessage}</span>
+                  </div>
+                )}
+
+                {sub.attempts.length > 0 && (
+                  <Collapsible>
+                    <CollapsibleTrigger className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground">
+                      <History className="h-3.5 w-3.5" />
+                      {sub.attempts.length} sync attempt{sub.attempts.length === 1 ? "" : "s"}
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                      <ul className="mt-2 space-y-1 border-l pl-3">
+                        {sub.attempts.map((a, i) => (
+                          <li key={i} className="text-xs">
+                            <span className="font-mono text-muted-foreground">{format(new Date(a.at), "MMM d, h:mm:ss a")}</span>
+                            <span className="ml-2">{a.error ?? "OK"}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+
+                <div className="flex gap-2 justify-end">
+                  {sub.status === "conflict" && (
+                    <Button size="sm" variant="outline" className="h-8" onClick={() => setReviewing(sub)}>
+                      <GitCompare className="h-3.5 w-3.5 mr-1.5" />
+                      Review
+                    </Button>
+                  )}
+                  {sub.status === "failed" && (
+                    <Button size="sm" variant="outline" className="h-8" disabled={!isOnline || isSyncing} onClick={() => retry(sub.id)}>
+                      <RefreshCw className="h-3.5 w-3.5 mr-1.5" />
+                      Retry
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 text-destructive"
+                    disabled={sub.status === "syncing"}
+                    onClick={() => setDiscarding(sub)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 mr-1.5" />
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <ConflictReviewDialog
+        submission={reviewing}
+        onOpenChange={(open) => !open && setReviewing(null)}
+        isPending={!!reviewing && resolvingId === reviewing.id}
+        onResolve={async (resolution, choices) => {
+          if (!reviewing) return;
+          if (await resolve(reviewing.id, resolution, choices)) setReviewing(null);
+        }}
+      />
+
+      <ConfirmDialog
+        open={!!discarding}
+        onOpenChange={(open) => !open && setDiscarding(null)}
+        title="Discard queued submission?"
+        description="This entry only exists on this device. Discarding it deletes it for good."
+        confirmLabel="Discard"
+        variant="destructive"
+        onConfirm={() => {
+          if (discarding) discard(discarding.id);
+          setDiscarding(null);
+        }}
+      />
+    </div>
+  );
+}
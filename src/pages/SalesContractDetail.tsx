@@ -0,0 +1,429 @@
+import { useState, useEffect, useMemo } from "react";
+import { useParams, useNavigate, Link } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, FileSignature, Save, CheckCircle2, Ban, RotateCcw, Play, AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EmptyState } from "@/components/EmptyState";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { ContractStatusBadge } from "@/components/contracts/ContractStatusBadge";
+import { ContractItemsTable } from "@/components/contracts/ContractItemsTable";
+import { ContractAmendmentDialog } from "@/components/contracts/ContractAmendmentDialog";
+import { ContractChangeList } from "@/components/contracts/ContractChangeList";
+import { ContractDocuments } from "@/components/contracts/ContractDocuments";
+import {
+  useSalesContract,
+  useSalesContractMutations,
+  useContractWorkOrders,
+  type ContractHeader,
+  type ContractItemDraft,
+  type SalesContract,
+  type SalesContractItem,
+} from "@/hooks/useSalesContracts";
+import {
+  SHIPMENT_MODES,
+  diffContract,
+  hasChanges,
+  parseContractChanges,
+  type ContractStatus,
+} from "@/lib/sales-contract";
+import { INVOICE_CURRENCIES } from "@/lib/invoice-utils";
+import { formatMoney } from "@/lib/lc-utils";
+
+const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+interface ContractDraft {
+  header: ContractHeader;
+  items: ContractItemDraft[];
+}
+
+function toDraft(contract: SalesContract, items: SalesContractItem[]): ContractDraft {
+  const { id, factory_id, created_by, created_at, updated_at, status, total_quantity, total_value, ...header } = contract;
+  return {
+    header,
+    items: items.map(({ contract_id, created_at: _c, sort_order, ...rest }) => rest),
+  };
+}
+
+function Field({ label, children, wide }: { label: string; children: React.ReactNode; wide?: boolean }) {
+  return (
+    <div className={`space-y-1.5 ${wide ? "col-span-2" : ""}`}>
+      <Label className={labelCls}>{label}</Label>
+      {children}
+    </div>
+  );
+}
+
+function TermsCard({ header, onChange, readOnly }: { header: ContractHeader; onChange: (h: ContractHeader) => void; readOnly: boolean }) {
+  const set = (patch: Partial<ContractHeader>) => onChange({ ...header, ...patch });
+  const text = (key: keyof ContractHeader) => ({
+    value: (header[key] as string | null | undefined) ?? "",
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => set({ [key]: e.target.value || null }),
+    className: "h-9",
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Contract Terms</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <fieldset disabled={readOnly} className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <Field label="Contract No">
+            <Input value={header.contract_number} onChange={(e) => set({ contract_number: e.target.value })} className="h-9" />
+          </Field>
+          <Field label="Contract Date">
+            <Input type="date" value={header.contract_date} onChange={(e) => set({ contract_date: e.target.value })} className="h-9" />
+          </Field>
+          <Field label="Expiry">
+            <Input type="date" {...text("expiry_date")} />
+          </Field>
+          <Field label="Season">
+            <Input {...text("season")} />
+          </Field>
+          <Field label="Buyer" wide>
+            <Input value={header.buyer_name} onChange={(e) => set({ buyer_name: e.target.value })} className="h-9" />
+          </Field>
+          <Field label="Buyer Address" wide>
+            <Input {...text("buyer_address")} />
+          </Field>
+          <Field label="Currency">
+            <Select value={header.currency ?? "USD"} onValueChange={(v) => set({ currency: v })} disabled={readOnly}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {INVOICE_CURRENCIES.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </Field>
+          <Field label="Tolerance %">
+            <Input
+              type="number"
+              value={header.tolerance_pct == null ? "" : String(header.tolerance_pct)}
+              onChange={(e) => set({ tolerance_pct: e.target.value === "" ? null : parseFloat(e.target.value) })}
+              className="h-9"
+            />
+          </Field>
+          <Field label="Incoterms">
+            <Input {...text("incoterms")} placeholder="FOB" />
+          </Field>
+          <Field label="Shipment Mode">
+            <Select value={header.shipment_mode ?? ""} onValueChange={(v) => set({ shipment_mode: v })} disabled={readOnly}>
+              <SelectTrigger className="h-9"><SelectValue placeholder="Select" /></SelectTrigger>
+              <SelectContent>
+                {SHIPMENT_MODES.map((m) => <SelectItem key={m} value={m}>{m}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </Field>
+          <Field label="Port of Loading"><Input {...text("port_of_loading")} /></Field>
+          <Field label="Port of Discharge"><Input {...text("port_of_discharge")} /></Field>
+          <Field label="Payment Terms" wide><Input {...text("payment_terms")} placeholder="e.g. LC at sight" /></Field>
+          <Field label="L/C Required">
+            <div className="h-9 flex items-center">
+              <Switch checked={!!header.lc_required} onCheckedChange={(v) => set({ lc_required: v })} disabled={readOnly} />
+            </div>
+          </Field>
+          <Field label="L/C No"><Input {...text("lc_number")} /></Field>
+          <div className="space-y-1.5 col-span-2 md:col-span-4">
+            <Label className={labelCls}>Notes</Label>
+            <Textarea value={header.notes ?? ""} onChange={(e) => set({ notes: e.target.value || null })} rows={2} />
+          </div>
+        </fieldset>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ── Page ───────────────────────────────────────────────────────────────────
+export default function SalesContractDetail() {
+  const { contractId } = useParams<{ contractId: string }>();
+  const navigate = useNavigate();
+  const { detail, position, isLoading } = useSalesContract(contractId);
+  const { workOrders } = useContractWorkOrders();
+  const m = useSalesContractMutations();
+
+  const [draft, setDraft] = useState<ContractDraft | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [amendOpen, setAmendOpen] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", "finance");
+    return () => { document.documentElement.removeAttribute("data-theme"); };
+  }, []);
+
+  // Reload the editor whenever a fresh copy arrives and there are no unsaved edits
+  useEffect(() => {
+    if (detail && !dirty) setDraft(toDraft(detail.contract, detail.items));
+  }, [detail, dirty]);
+
+  const update = (patch: Partial<ContractDraft>) => {
+    setDraft((d) => (d ? { ...d, ...patch } : d));
+    setDirty(true);
+  };
+
+  const pendingChanges = useMemo(() => {
+    if (!detail || !draft) return null;
+    return diffContract(
+      { header: detail.contract, items: detail.items },
+      { header: { ...detail.contract, ...draft.header }, items: draft.items },
+    );
+  }, [detail, draft]);
+
+  if (isLoading || (detail && !draft)) {
+    return (
+      <div className="py-3 md:py-4 lg:py-6 space-y-5">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-[120px] w-full rounded-xl" />
+        <Skeleton className="h-[320px] w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  if (!detail || !draft || !position || !pendingChanges) {
+    return (
+      <div className="py-6">
+        <EmptyState
+          icon={FileSignature}
+          title="Contract not found"
+          description="This contract may have been deleted."
+          action={{ label: "Back to Contracts", onClick: () => navigate("/finances/contracts") }}
+        />
+      </div>
+    );
+  }
+
+  const contract = detail.contract;
+  const status = (contract.status as ContractStatus) || "draft";
+  const readOnly = status === "completed" || status === "cancelled";
+  const currency = draft.header.currency || "USD";
+  const nextAmendment = (detail.amendments[0]?.amendment_number ?? 0) + 1;
+  const canSave = dirty && draft.header.contract_number.trim() && draft.header.buyer_name.trim() && draft.items.every((i) => i.style_ref.trim());
+
+  const save = (amendment?: { date: string; description: string }) =>
+    m.saveContract.mutate(
+      {
+        contract,
+        savedItems: detail.items,
+        header: draft.header,
+        items: draft.items,
+        amendment,
+      },
+      {
+        onSuccess: () => {
+          setDirty(false);
+          setAmendOpen(false);
+        },
+      },
+    );
+
+  // Once a contract is live, tracked changes go through an amendment
+  const handleSave = () => {
+    if (status === "active" && hasChanges(pendingChanges)) setAmendOpen(true);
+    else save();
+  };
+
+  const changeStatus = (next: ContractStatus) => m.setStatus.mutate({ id: contract.id, status: next });
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Button variant="ghost" size="icon" className="h-9 w-9 shrink-0" onClick={() => navigate("/finances/contracts")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h1 className="text-xl md:text-2xl font-bold">{contract.contract_number}</h1>
+              <ContractStatusBadge status={status} />
+              {detail.amendments.length > 0 && (
+                <span className="text-xs text-muted-foreground">Amendment {detail.amendments[0].amendment_number}</span>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground truncate">
+              {contract.buyer_name} · {format(parseISO(contract.contract_date), "d MMM yyyy")}
+              {contract.expiry_date ? ` · Expires ${format(parseISO(contract.expiry_date), "d MMM yyyy")}` : ""}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 shrink-0">
+          {!readOnly && (
+            <Button onClick={handleSave} disabled={!canSave || m.saveContract.isPending} className="gap-1.5">
+              <Save className="h-4 w-4" />
+              {m.saveContract.isPending ? "Saving..." : status === "active" && hasChanges(pendingChanges) ? "Save as Amendment" : "Save"}
+            </Button>
+          )}
+          {status === "draft" && (
+            <Button variant="outline" className="gap-1.5" disabled={dirty || detail.items.length === 0} onClick={() => changeStatus("active")}>
+              <Play className="h-4 w-4" />
+              Activate
+            </Button>
+          )}
+          {status === "active" && (
+            <>
+              <Button variant="outline" className="gap-1.5" disabled={dirty} onClick={() => changeStatus("completed")}>
+                <CheckCircle2 className="h-4 w-4" />
+                Mark Completed
+              </Button>
+              <Button variant="outline" className="gap-1.5 text-destructive hover:text-destructive" disabled={dirty} onClick={() => setCancelOpen(true)}>
+                <Ban className="h-4 w-4" />
+                Cancel
+              </Button>
+            </>
+          )}
+          {readOnly && (
+            <Button variant="outline" className="gap-1.5" onClick={() => changeStatus("active")}>
+              <RotateCcw className="h-4 w-4" />
+              Reopen
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Position */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: "Contracted", value: formatMoney(position.contractedValue, currency), sub: `${position.contractedQty.toLocaleString()} pcs` },
+          { label: "Shipped", value: formatMoney(position.shippedValue, currency), sub: `${position.shippedQty.toLocaleString()} pcs · ${position.shippedPct}%` },
+          { label: "Open", value: formatMoney(position.openValue, currency), sub: `${position.openQty.toLocaleString()} pcs` },
+          { label: "Tolerance", value: contract.tolerance_pct != null ? `±${contract.tolerance_pct}%` : "—", sub: contract.lc_required ? "L/C required" : "No L/C required" },
+        ].map((k) => (
+          <Card key={k.label}>
+            <CardContent className="p-4">
+              <div className={labelCls}>{k.label}</div>
+              <div className="text-lg font-bold tabular-nums mt-1">{k.value}</div>
+              <div className="text-xs text-muted-foreground tabular-nums">{k.sub}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {position.overShipped && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/30 bg-destructive/5 px-4 py-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          Shipped quantity exceeds the contract quantity plus tolerance. Record an amendment or check the linked POs.
+        </div>
+      )}
+
+      <Tabs defaultValue="items">
+        <TabsList className="flex flex-wrap h-auto p-1 rounded-xl bg-muted/60 border border-border/50">
+          <TabsTrigger value="items" className="text-xs sm:text-sm px-3 py-2 rounded-lg">Items</TabsTrigger>
+          <TabsTrigger value="terms" className="text-xs sm:text-sm px-3 py-2 rounded-lg">Terms</TabsTrigger>
+          <TabsTrigger value="amendments" className="text-xs sm:text-sm px-3 py-2 rounded-lg gap-1.5">
+            Amendments
+            <span className="text-[10px] text-muted-foreground tabular-nums">{detail.amendments.length}</span>
+          </TabsTrigger>
+          <TabsTrigger value="documents" className="text-xs sm:text-sm px-3 py-2 rounded-lg gap-1.5">
+            Documents
+            <span className="text-[10px] text-muted-foreground tabular-nums">{detail.documents.length}</span>
+          </TabsTrigger>
+          <TabsTrigger value="lcs" className="text-xs sm:text-sm px-3 py-2 rounded-lg gap-1.5">
+            L/Cs
+            <span className="text-[10px] text-muted-foreground tabular-nums">{detail.lcs.length}</span>
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="items" className="mt-4">
+          <ContractItemsTable
+            items={draft.items}
+            onChange={(items) => update({ items })}
+            workOrders={workOrders}
+            position={position}
+            currency={currency}
+            readOnly={readOnly}
+          />
+        </TabsContent>
+
+        <TabsContent value="terms" className="mt-4">
+          <TermsCard header={draft.header} onChange={(header) => update({ header })} readOnly={readOnly} />
+        </TabsContent>
+
+        <TabsContent value="amendments" className="mt-4">
+          {detail.amendments.length === 0 ? (
+            <EmptyState
+              icon={FileSignature}
+              title="No amendments"
+              description="Once the contract is active, saved changes to terms or items are recorded here as numbered amendments."
+            />
+          ) : (
+            <div className="space-y-3">
+              {detail.amendments.map((a) => (
+                <Card key={a.id}>
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-semibold">Amendment #{a.amendment_number}</span>
+                      <span className="text-xs text-muted-foreground">{format(parseISO(a.amendment_date), "d MMM yyyy")}</span>
+                    </div>
+                    <p className="text-sm">{a.description}</p>
+                    <ContractChangeList changes={parseContractChanges(a.changes)} />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="documents" className="mt-4">
+          <ContractDocuments
+            documents={detail.documents}
+            isUploading={m.uploadDocument.isPending}
+            onUpload={(file) => m.uploadDocument.mutate({ contractId: contract.id, file })}
+            onDelete={(doc) => m.deleteDocument.mutate(doc)}
+          />
+        </TabsContent>
+
+        <TabsContent value="lcs" className="mt-4">
+          {detail.lcs.length === 0 ? (
+            <EmptyState icon={FileSignature} title="No L/Cs" description="Letters of credit opened against this contract appear here." />
+          ) : (
+            <div className="space-y-3">
+              {detail.lcs.map((lc) => (
+                <Link key={lc.id} to={`/finances/lcs/${lc.id}`} className="block">
+                  <Card className="hover:shadow-sm transition-all duration-200">
+                    <CardContent className="p-4 flex items-center justify-between">
+                      <div>
+                        <div className="text-sm font-semibold">{lc.lc_number}</div>
+                        <div className="text-xs text-muted-foreground">Expires {format(parseISO(lc.expiry_date), "d MMM yyyy")}</div>
+                      </div>
+                      <div className="text-sm font-semibold tabular-nums">{formatMoney(lc.lc_value, lc.currency)}</div>
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <ContractAmendmentDialog
+        open={amendOpen}
+        onOpenChange={setAmendOpen}
+        amendmentNumber={nextAmendment}
+        changes={pendingChanges}
+        isPending={m.saveContract.isPending}
+        onSubmit={(data) => save(data)}
+      />
+
+      <ConfirmDialog
+        open={cancelOpen}
+        onOpenChange={setCancelOpen}
+        title="Cancel contract?"
+        description={`${contract.contract_number} will be marked cancelled. You can reopen it later.`}
+        confirmLabel="Cancel Contract"
+        variant="destructive"
+        onConfirm={() => {
+          changeStatus("cancelled");
+          setCancelOpen(false);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { FileSignature, Plus, Search, X, ChevronRight, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { EmptyState } from "@/components/EmptyState";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { ContractStatusBadge } from "@/components/contracts/ContractStatusBadge";
+import { NewContractDialog } from "@/components/contracts/NewContractDialog";
+import { useSalesContracts, useSalesContractMutations, type ContractListItem } from "@/hooks/useSalesContracts";
+import type { ContractStatus } from "@/lib/sales-contract";
+import { formatMoney } from "@/lib/lc-utils";
+
+type ContractTab = "all" | ContractStatus;
+
+const CONTRACT_TABS: { value: ContractTab; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "draft", label: "Drafts" },
+  { value: "active", label: "Active" },
+  { value: "completed", label: "Completed" },
+  { value: "cancelled", label: "Cancelled" },
+];
+
+function matchesSearch(c: ContractListItem, q: string) {
+  const lower = q.toLowerCase();
+  return (
+    c.contract_number.toLowerCase().includes(lower) ||
+    c.buyer_name.toLowerCase().includes(lower) ||
+    (c.season?.toLowerCase().includes(lower) ?? false) ||
+    (c.lc_number?.toLowerCase().includes(lower) ?? false)
+  );
+}
+
+function ContractRow({ contract, onDelete }: { contract: ContractListItem; onDelete: () => void }) {
+  const navigate = useNavigate();
+  const p = contract.position;
+  return (
+    <Card className="cursor-pointer hover:shadow-sm transition-all duration-200 group" onClick={() => navigate(`/finances/contracts/${contract.id}`)}>
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0 space-y-1.5 flex-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-sm font-semibold">{contract.contract_number}</span>
+              <ContractStatusBadge status={contract.status} />
+              {contract.amendmentCount > 0 && (
+                <span className="text-[11px] text-muted-foreground">Amd. {contract.amendmentCount}</span>
+              )}
+              {p.overShipped && <span className="text-[11px] font-medium text-destructive">Over-shipped</span>}
+            </div>
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground flex-wrap">
+              <span className="text-foreground font-medium">{contract.buyer_name}</span>
+              <span>·</span>
+              <span>{format(parseISO(contract.contract_date), "d MMM yyyy")}</span>
+              {contract.season && <><span>·</span><span>{contract.season}</span></>}
+              {contract.expiry_date && <><span>·</span><span>Expires {format(parseISO(contract.expiry_date), "d MMM yyyy")}</span></>}
+            </div>
+            {p.contractedQty > 0 && (
+              <div className="flex items-center gap-2 max-w-[320px]">
+                <Progress value={Math.min(p.shippedPct, 100)} className="h-1.5" />
+                <span className="text-[11px] text-muted-foreground tabular-nums shrink-0">{p.shippedPct}% shipped</span>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-4 shrink-0">
+            <div className="text-right">
+              <div className="text-sm font-semibold tabular-nums">{formatMoney(p.contractedValue, contract.currency)}</div>
+              <div className="text-xs text-muted-foreground tabular-nums">
+                Open {formatMoney(p.openValue, contract.currency)} · {p.openQty.toLocaleString()} pcs
+              </div>
+            </div>
+            {(contract.status || "draft") === "draft" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive"
+                onClick={(e) => { e.stopPropagation(); onDelete(); }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <ChevronRight className="h-4 w-4 text-muted-foreground group-hover:text-foreground transition-colors" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SalesContracts() {
+  const navigate = useNavigate();
+  const { contracts, isLoading } = useSalesContracts();
+  const { createContract, deleteContract } = useSalesContractMutations();
+
+  const [tab, setTab] = useState<ContractTab>("all");
+  const [search, setSearch] = useState("");
+  const [newOpen, setNewOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<ContractListItem | null>(null);
+
+  useEffect(() => {
+    document.documentElement.setAttribute("data-theme", "finance");
+    return () => { document.documentElement.removeAttribute("data-theme"); };
+  }, []);
+
+  const rowsFor = (t: ContractTab) => (t === "all" ? contracts : contracts.filter((c) => (c.status || "draft") === t));
+  const filtered = rowsFor(tab).filter((c) => !search.trim() || matchesSearch(c, search.trim()));
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-violet-500/10 flex items-center justify-center">
+            <FileSignature className="h-5 w-5 text-violet-600 dark:text-violet-400" />
+          </div>
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold">Sales Contracts</h1>
+            <p className="text-sm text-muted-foreground">Buyer contracts, amendments and open quantity</p>
+          </div>
+        </div>
+        <Button onClick={() => setNewOpen(true)} className="gap-1.5">
+          <Plus className="h-4 w-4" />
+          New Contract
+        </Button>
+      </div>
+
+      <Tabs value={tab} onValueChange={(v) => setTab(v as ContractTab)}>
+        <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center">
+          <TabsList className="w-full sm:w-auto flex flex-wrap h-auto p-1 rounded-xl bg-muted/60 border border-border/50 shrink-0">
+            {CONTRACT_TABS.map((t) => (
+              <TabsTrigger key={t.value} value={t.value} className="text-xs sm:text-sm px-3 py-2 rounded-lg data-[state=active]:shadow-sm gap-1.5">
+                {t.label}
+                {!isLoading && <span className="text-[10px] text-muted-foreground tabular-nums">{rowsFor(t.value).length}</span>}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          <div className="relative w-full sm:max-w-xs">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+            <Input
+              placeholder="Contract, buyer, season, LC…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 pr-9 h-10"
+            />
+            {search && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 text-muted-foreground hover:text-foreground"
+                onClick={() => setSearch("")}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => <Skeleton key={i} className="h-[88px] w-full rounded-xl" />)}
+        </div>
+      ) : contracts.length === 0 ? (
+        <EmptyState
+          icon={FileSignature}
+          title="No sales contracts yet"
+          description="Register buyer contracts, break them into POs and track what is still open to ship."
+          action={{ label: "New Contract", onClick: () => setNewOpen(true) }}
+        />
+      ) : filtered.length === 0 ? (
+        <EmptyState icon={Search} title="No results" description="No contracts match this filter." />
+      ) : (
+        <div className="space-y-3">
+          {filtered.map((c) => (
+            <ContractRow key={c.id} contract={c} onDelete={() => setDeleteTarget(c)} />
+          ))}
+        </div>
+      )}
+
+      <NewContractDialog
+        open={newOpen}
+        onOpenChange={setNewOpen}
+        isPending={createContract.isPending}
+        onSubmit={(header) =>
+          createContract.mutate(
+            { header, items: [] },
+            {
+              onSuccess: (id) => {
+                setNewOpen(false);
+                navigate(`/finances/contracts/${id}`);
+              },
+            },
+          )
+        }
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title="Delete draft contract?"
+        description={`${deleteTarget?.contract_number ?? ""}, its items and documents will be removed.`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => {
+          if (deleteTarget) deleteContract.mutate(deleteTarget.id);
+          setDeleteTarget(null);
+        }}
+      />
+    </div>
+  );
+}
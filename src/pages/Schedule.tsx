@@ -1,15 +1,24 @@
-import { useState, useCallback, useRef, useEffect } from "react";
-import { CalendarRange } from "lucide-react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import { CalendarRange, Wand2 } from "lucide-react";
 import { Loader2 } from "lucide-react";
 import { DndContext, DragOverlay, PointerSensor, useSensor, useSensors, type DragStartEvent, type DragEndEvent } from "@dnd-kit/core";
 import { addDays, differenceInDays, format, parseISO } from "date-fns";
 import { useProductionSchedule, type ScheduleWithDetails, type ScheduleFormData, type UnscheduledPO, type WorkOrder } from "@/hooks/useProductionSchedule";
 import { useTimelineState } from "@/hooks/useTimelineState";
+import { useWorkingCalendar } from "@/hooks/useFactoryHolidays";
+import { useScenarioLiveChanges, useScheduleScenarios, useScheduleScenarioMutations } from "@/hooks/useScheduleScenarios";
+import { addWorkingDays } from "@/lib/working-days";
+import type { RescheduledBooking } from "@/lib/schedule-progress";
 import { ScheduleKPIStrip } from "@/components/schedule/ScheduleKPIStrip";
 import { ScheduleControls } from "@/components/schedule/ScheduleControls";
 import { TimelinePlanner } from "@/components/schedule/TimelinePlanner";
 import { UnscheduledSidebar } from "@/components/schedule/UnscheduledSidebar";
 import { ScheduleModal } from "@/components/schedule/ScheduleModal";
+import { AutoPlanDialog } from "@/components/schedule/AutoPlanDialog";
+import { ScenarioBar } from "@/components/schedule/ScenarioBar";
+import { NewScenarioDialog } from "@/components/schedule/NewScenarioDialog";
+import { WhatIfOrderDialog } from "@/components/schedule/WhatIfOrderDialog";
+import { Button } from "@/components/ui/button";
 import { ScheduleDetailDrawer } from "@/components/schedule/ScheduleDetailDrawer";
 import { MiniCalendar } from "@/components/schedule/MiniCalendar";
 import { useSidebar } from "@/components/ui/sidebar";
@@ -25,6 +34,7 @@ export default function Schedule() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
   const timeline = useTimelineState();
+  const { calendar } = useWorkingCalendar();
 
   const [selectedLine, setSelectedLine] = useState("all");
   const [selectedBuyer, setSelectedBuyer] = useState("all");
@@ -33,9 +43,20 @@ export default function Schedule() {
   const [rowSize, setRowSize] = useState<RowSize>("default");
   const [visibleMonthLabel, setVisibleMonthLabel] = useState("");
 
+  // Scenario state — null means the live plan
+  const [scenarioId, setScenarioId] = useState<string | null>(null);
+  const [compare, setCompare] = useState(false);
+  const [newScenarioOpen, setNewScenarioOpen] = useState(false);
+  const [whatIfOpen, setWhatIfOpen] = useState(false);
+  const { scenarios } = useScheduleScenarios();
+  const { createScenario, deleteScenario, promoteScenario, addWhatIfOrder, removeWhatIfOrder } = useScheduleScenarioMutations();
+  const scenario = scenarios.find((s) => s.id === scenarioId) ?? null;
+  const { liveChanges, isChecking: liveChangesLoading, refetch: refetchLiveChanges } = useScenarioLiveChanges(scenario);
+
   const {
-    lines, schedulesByLine, visibleSchedules, unscheduledPOs, schedulesWithDetails,
-    deadlines, buyers, kpis, isLoading, createSchedule, updateSchedule, deleteSchedule,
+    lines, lineManpower, learningCurves, rampStepsFor, reforecastPlan, schedulesByLine, visibleSchedules, unscheduledPOs,
+    schedulesWithDetails, liveSchedulesByLine, livePlanKpis, whatIfOrders, deadlines, buyers, kpis, isLoading,
+    createSchedule, updateSchedule, deleteSchedule, applyPlan, reforecast,
   } = useProductionSchedule({
     visibleRange: timeline.visibleRange,
     filters: {
@@ -44,13 +65,27 @@ export default function Schedule() {
       riskOnly,
       search: search || undefined,
     },
+    scenarioId,
   });
 
+  const whatIfBooked = useMemo(
+    () => schedulesWithDetails.some((s) => s.workOrder.is_what_if),
+    [schedulesWithDetails]
+  );
+
+  const handleScenarioChange = useCallback((id: string | null) => {
+    setScenarioId(id);
+    if (!id) setCompare(false);
+  }, []);
+
   // Modal state
   const [modalOpen, setModalOpen] = useState(false);
   const [modalWorkOrder, setModalWorkOrder] = useState<WorkOrder | null>(null);
   const [editingSchedule, setEditingSchedule] = useState<ScheduleWithDetails | null>(null);
 
+  // Auto-plan state
+  const [autoPlanOpen, setAutoPlanOpen] = useState(false);
+
   // Drawer state
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [selectedSchedule, setSelectedSchedule] = useState<ScheduleWithDetails | null>(null);
@@ -87,6 +122,10 @@ export default function Schedule() {
     deleteSchedule.mutate(id);
   }, [deleteSchedule]);
 
+  const handleReforecast = useCallback((changes: RescheduledBooking[]) => {
+    reforecast.mutate(changes, { onSuccess: () => setDrawerOpen(false) });
+  }, [reforecast]);
+
   // ── Drag & Drop ──────────────────────────────────────────────────────
 
   const sensors = useSensors(
@@ -148,18 +187,19 @@ export default function Schedule() {
       const dayOffset = Math.max(0, Math.floor((dropX ?? 0) / dayWidth));
       const newStart = addDays(visibleStart, dayOffset);
 
-      // Default 7-day duration for new schedules from drag
+      // Default 7-working-day duration for new schedules from drag
       const defaultDuration = 7;
-      const newEnd = addDays(newStart, defaultDuration - 1);
+      const startStr = format(newStart, "yyyy-MM-dd");
+      const newEnd = addWorkingDays(calendar, startStr, defaultDuration - 1);
 
       createSchedule.mutate({
         work_order_id: workOrder.id,
         line_id: targetLineId,
-        start_date: format(newStart, "yyyy-MM-dd"),
-        end_date: format(newEnd, "yyyy-MM-dd"),
+        start_date: startStr,
+        end_date: newEnd,
       });
     }
-  }, [updateSchedule, createSchedule]);
+  }, [updateSchedule, createSchedule, calendar]);
 
   const handleDragCancel = useCallback(() => {
     setActiveDrag(null);
@@ -185,10 +225,43 @@ export default function Schedule() {
             <h1 className="text-xl font-bold text-slate-900">Production Schedule</h1>
             <p className="text-sm text-slate-500">Plan and track production line allocation across orders</p>
           </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto h-9"
+            disabled={unscheduledPOs.length === 0}
+            onClick={() => setAutoPlanOpen(true)}
+          >
+            <Wand2 className="h-4 w-4 mr-1.5" />
+            Auto-plan
+          </Button>
         </div>
 
+        {/* Scenario sandbox */}
+        <ScenarioBar
+          scenarios={scenarios}
+          scenario={scenario}
+          onScenarioChange={handleScenarioChange}
+          whatIfOrders={whatIfOrders}
+          whatIfBooked={whatIfBooked}
+          compare={compare}
+          onCompareChange={setCompare}
+          onNew={() => setNewScenarioOpen(true)}
+          onAddWhatIf={() => setWhatIfOpen(true)}
+          onRemoveWhatIf={(id) => removeWhatIfOrder.mutate(id)}
+          liveChanges={liveChanges}
+          liveChangesLoading={liveChangesLoading}
+          onReviewPromote={() => refetchLiveChanges()}
+          onPromote={(confirmedRevision) =>
+            scenario &&
+            promoteScenario.mutate({ scenario, confirmedRevision }, { onSuccess: () => handleScenarioChange(null) })
+          }
+          onDiscard={() => scenario && deleteScenario.mutate(scenario, { onSuccess: () => handleScenarioChange(null) })}
+          isPromoting={promoteScenario.isPending}
+        />
+
         {/* KPI Strip */}
-        <ScheduleKPIStrip kpis={kpis} />
+        <ScheduleKPIStrip kpis={kpis} baseline={livePlanKpis} />
 
         {/* Controls */}
         <ScheduleControls
@@ -224,6 +297,7 @@ export default function Schedule() {
                   anchorDate={timeline.anchorDate}
                   visibleRange={timeline.visibleRange}
                   onDateClick={timeline.goToDate}
+                  calendar={calendar}
                 />
               </div>
               <UnscheduledSidebar unscheduledPOs={unscheduledPOs} onSchedule={handleScheduleUnscheduled} />
@@ -245,9 +319,30 @@ export default function Schedule() {
               viewMode={timeline.viewMode}
               rowSize={rowSize}
               todayOffset={timeline.todayOffset}
+              calendar={calendar}
               onBarClick={handleBarClick}
               onVisibleMonthChange={setVisibleMonthLabel}
             />
+
+            {/* Live plan, read-only, for side-by-side comparison */}
+            {scenario && compare && liveSchedulesByLine && (
+              <div className="mt-4 space-y-1.5">
+                <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Live plan</p>
+                <TimelinePlanner
+                  lines={lines}
+                  schedulesByLine={liveSchedulesByLine}
+                  deadlines={deadlines}
+                  visibleRange={timeline.visibleRange}
+                  viewMode={timeline.viewMode}
+                  rowSize={rowSize}
+                  todayOffset={timeline.todayOffset}
+                  calendar={calendar}
+                  onBarClick={() => {}}
+                  onVisibleMonthChange={() => {}}
+                  readOnly
+                />
+              </div>
+            )}
           </div>
         </div>
 
@@ -261,6 +356,45 @@ export default function Schedule() {
           existingSchedules={schedulesWithDetails}
           onSubmit={handleModalSubmit}
           isPending={createSchedule.isPending || updateSchedule.isPending}
+          calendar={calendar}
+          rampStepsFor={rampStepsFor}
+        />
+
+        {/* Auto-plan preview */}
+        <AutoPlanDialog
+          open={autoPlanOpen}
+          onOpenChange={setAutoPlanOpen}
+          unscheduledPOs={unscheduledPOs}
+          lines={lines}
+          lineManpower={lineManpower}
+          learningCurves={learningCurves}
+          schedules={schedulesWithDetails}
+          calendar={calendar}
+          onApply={(rows) => applyPlan.mutate(rows, { onSuccess: () => setAutoPlanOpen(false) })}
+          isPending={applyPlan.isPending}
+        />
+
+        {/* Scenario dialogs */}
+        <NewScenarioDialog
+          open={newScenarioOpen}
+          onOpenChange={setNewScenarioOpen}
+          onCreate={(input) =>
+            createScenario.mutate(input, {
+              onSuccess: (id) => {
+                setNewScenarioOpen(false);
+                setScenarioId(id);
+              },
+            })
+          }
+          isPending={createScenario.isPending}
+        />
+        <WhatIfOrderDialog
+          open={whatIfOpen}
+          onOpenChange={setWhatIfOpen}
+          onSave={(input) =>
+            scenarioId && addWhatIfOrder.mutate({ scenarioId, input }, { onSuccess: () => setWhatIfOpen(false) })
+          }
+          isPending={addWhatIfOrder.isPending}
         />
 
         {/* Drawer */}
@@ -270,6 +404,10 @@ export default function Schedule() {
           onOpenChange={setDrawerOpen}
           onEdit={handleEdit}
           onDelete={handleDelete}
+          calendar={calendar}
+          reforecastPlan={reforecastPlan}
+          onReforecast={handleReforecast}
+          isReforecasting={reforecast.isPending}
         />
       </div>
 
@@ -20,12 +20,19 @@ import {
   Factory,
   Bug,
   DollarSign,
-  Copy
+  Copy,
+  Layers
 } from "lucide-react";
 import { EmptyState } from "@/components/EmptyState";
 import { DEV_FACTORY_ID_PREFIX } from "@/lib/constants";
+import { DEFAULT_WIP_LIMITS } from "@/lib/line-wip";
 import { OnboardingChecklist } from "@/components/dashboard/OnboardingChecklist";
 import { useOnboardingChecklist } from "@/hooks/useOnboardingChecklist";
+import { ShiftSettingsCard } from "@/components/setup/ShiftSettingsCard";
+import { HolidayCalendarCard } from "@/components/setup/HolidayCalendarCard";
+import { LearningCurvesCard } from "@/components/setup/LearningCurvesCard";
+import { TnATemplatesCard } from "@/components/setup/TnATemplatesCard";
+import { DefectCatalogueCard } from "@/components/setup/DefectCatalogueCard";
 
 interface FactoryStats {
   linesCount: number;
@@ -55,6 +62,9 @@ export default function SetupHome() {
   const [headcountCostValue, setHeadcountCostValue] = useState("");
   const [headcountCostCurrency, setHeadcountCostCurrency] = useState("BDT");
   const [isSavingCost, setIsSavingCost] = useState(false);
+  const [wipMinDays, setWipMinDays] = useState(String(DEFAULT_WIP_LIMITS.minDays));
+  const [wipMaxDays, setWipMaxDays] = useState(String(DEFAULT_WIP_LIMITS.maxDays));
+  const [isSavingWip, setIsSavingWip] = useState(false);
 
   const timezones = [
     { value: "Asia/Dhaka", label: "Bangladesh (GMT+6)" },
@@ -84,6 +94,8 @@ export default function SetupHome() {
     if (factory?.timezone) setTimezone(factory.timezone);
     if (factory?.headcount_cost_value != null) setHeadcountCostValue(String(factory.headcount_cost_value));
     if (factory?.headcount_cost_currency) setHeadcountCostCurrency(factory.headcount_cost_currency);
+    if (factory?.wip_min_days != null) setWipMinDays(String(factory.wip_min_days));
+    if (factory?.wip_max_days != null) setWipMaxDays(String(factory.wip_max_days));
   }, [factory]);
 
   async function fetchStats() {
@@ -159,6 +171,34 @@ export default function SetupHome() {
     }
   }
 
+  async function handleSaveWipLimits() {
+    if (!profile?.factory_id) return;
+    const min = parseFloat(wipMinDays);
+    const max = parseFloat(wipMaxDays);
+    if (isNaN(min) || min < 0 || isNaN(max) || max <= 0) {
+      toast.error("WIP limits must be positive numbers of days");
+      return;
+    }
+    if (max <= min) {
+      toast.error("Maximum WIP must be more than the minimum");
+      return;
+    }
+    setIsSavingWip(true);
+    try {
+      const { error } = await supabase
+        .from('factory_accounts')
+        .update({ wip_min_days: min, wip_max_days: max })
+        .eq('id', profile.factory_id);
+      if (error) throw error;
+      await refreshFactory();
+      toast.success("WIP limits updated");
+    } catch (error) {
+      toast.error("Error", { description: error instanceof Error ? error.message : "An error occurred" });
+    } finally {
+      setIsSavingWip(false);
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex min-h-[400px] items-center justify-center">
@@ -381,6 +421,59 @@ export default function SetupHome() {
               </Button>
             </CardContent>
           </Card>
+
+          {/* Line WIP limits */}
+          <Card className="border-border/50">
+            <CardHeader className="pb-4">
+              <CardTitle className="text-sm flex items-center gap-2">
+                <div className="h-7 w-7 rounded-lg bg-gradient-to-br from-orange-500 to-amber-600 shadow-md shadow-orange-500/20 flex items-center justify-center">
+                  <Layers className="h-3.5 w-3.5 text-white" />
+                </div>
+                Line WIP Limits
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium text-muted-foreground">Minimum (days)</Label>
+                  <Input
+                    type="number" step="0.1" min="0"
+                    value={wipMinDays}
+                    onChange={(e) => setWipMinDays(e.target.value)}
+                    className="h-9 text-sm"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium text-muted-foreground">Maximum (days)</Label>
+                  <Input
+                    type="number" step="0.1" min="0"
+                    value={wipMaxDays}
+                    onChange={(e) => setWipMaxDays(e.target.value)}
+                    className="h-9 text-sm"
+                  />
+                </div>
+              </div>
+              <p className="text-[11px] text-muted-foreground">Cut pieces waiting on a sewing line, in days of its recent output. Lines below the minimum are flagged as starved, above the maximum as overloaded.</p>
+              <Button size="sm" onClick={handleSaveWipLimits} disabled={isSavingWip}>
+                {isSavingWip ? <><Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> Saving...</> : 'Save'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Shifts */}
+          <ShiftSettingsCard />
+
+          {/* Holidays */}
+          <HolidayCalendarCard />
+
+          {/* Learning curves */}
+          <LearningCurvesCard />
+
+          {/* T&A templates */}
+          <TnATemplatesCard />
+
+          {/* QC defect catalogue */}
+          <DefectCatalogueCard />
         </div>
       </div>
 
@@ -28,6 +28,11 @@ import {
   CommandList,
 } from "@/components/ui/command";
 import { useEditPermission } from "@/hooks/useEditPermission";
+import { useHourlyEndOfDay } from "@/hooks/useSewingHourlyLogs";
+import { usePOSizeMatrix } from "@/hooks/useSizeMatrix";
+import { SizeMatrixEntry } from "@/components/size-matrix/SizeMatrixEntry";
+import { breakdownTotal, compactBreakdown, type ColourBreakdown } from "@/lib/size-matrix";
+import type { Json } from "@/integrations/supabase/types";
 
 interface Line {
   id: string;
@@ -106,6 +111,7 @@ export default function SewingEndOfDay() {
   const [selectedLineId, setSelectedLineId] = useState("");
   const [selectedWorkOrderId, setSelectedWorkOrderId] = useState("");
   const [goodToday, setGoodToday] = useState("");
+  const [sizeBreakdown, setSizeBreakdown] = useState<ColourBreakdown[] | null>(null);
   const [rejectToday, setRejectToday] = useState("");
   const [reworkToday, setReworkToday] = useState("");
   const [previousCumulativeTotal, setPreviousCumulativeTotal] = useState(0);
@@ -134,6 +140,26 @@ export default function SewingEndOfDay() {
     return workOrders.find(wo => wo.id === selectedWorkOrderId);
   }, [workOrders, selectedWorkOrderId]);
 
+  // Lines that log on the hourly board get good/reject/rework from there
+  const { fromHourly, hoursLogged } = useHourlyEndOfDay({
+    lineId: selectedLineId,
+    workOrderId: selectedWorkOrderId,
+    date: getTodayInTimezone(factory?.timezone || "Asia/Dhaka"),
+  });
+
+  useEffect(() => {
+    if (!fromHourly) return;
+    setGoodToday(String(fromHourly.good_today));
+    setRejectToday(String(fromHourly.reject_today));
+    setReworkToday(String(fromHourly.rework_today));
+  }, [fromHourly]);
+
+  const { matrix: sizeMatrix } = usePOSizeMatrix(selectedWorkOrderId);
+
+  useEffect(() => {
+    setSizeBreakdown(null);
+  }, [selectedWorkOrderId]);
+
   // Auto-calculate cumulative good total: previous cumulative + today's good + today's rework
   const cumulativeGoodTotal = useMemo(() => {
     const good = parseInt(goodToday) || 0;
@@ -286,6 +312,11 @@ export default function SewingEndOfDay() {
       return false;
     }
 
+    if (sizeBreakdown && breakdownTotal(sizeBreakdown) !== formData.good_today) {
+      setErrors({ goodToday: t("sizeMatrix.mismatch") });
+      return false;
+    }
+
     setErrors({});
     return true;
   }
@@ -332,6 +363,7 @@ export default function SewingEndOfDay() {
         actual_stage_id: actualStageId,
         actual_stage_progress: parseInt(actualStageProgress),
         remarks: remarks || null,
+        size_breakdown: (sizeBreakdown ? compactBreakdown(sizeBreakdown) : null) as unknown as Json,
       };
 
       // If a submission already exists for today+line+PO, update it (only if still within edit window)
@@ -495,22 +527,33 @@ export default function SewingEndOfDay() {
         {/* ── Output ── */}
         <div className="space-y-4">
           <p className="text-xs font-semibold uppercase tracking-wider text-foreground">{t("forms.todaysOutput")}</p>
+          {fromHourly && (
+            <p className="text-xs text-muted-foreground rounded-lg bg-blue-500/5 border border-blue-500/20 px-3 py-2">
+              {t("sewingHourly.fromHourly", { count: hoursLogged })}
+            </p>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div className="space-y-1.5">
               <Label className="text-xs font-medium">{t("forms.goodOutput")} *</Label>
-              <Input type="number" value={goodToday} onChange={(e) => setGoodToday(e.target.value)} placeholder="0" className={`h-10 ${errors.goodToday ? "border-destructive" : ""}`} />
+              <Input type="number" value={goodToday} onChange={(e) => setGoodToday(e.target.value)} readOnly={!!fromHourly} placeholder="0" className={`h-10 ${fromHourly ? "bg-muted" : ""} ${errors.goodToday ? "border-destructive" : ""}`} />
               {errors.goodToday && <p className="text-xs text-destructive">{errors.goodToday}</p>}
             </div>
             <div className="space-y-1.5">
               <Label className="text-xs font-medium">{t("forms.reject")} *</Label>
-              <Input type="number" value={rejectToday} onChange={(e) => setRejectToday(e.target.value)} placeholder="0" className={`h-10 ${errors.rejectToday ? "border-destructive" : ""}`} />
+              <Input type="number" value={rejectToday} onChange={(e) => setRejectToday(e.target.value)} readOnly={!!fromHourly} placeholder="0" className={`h-10 ${fromHourly ? "bg-muted" : ""} ${errors.rejectToday ? "border-destructive" : ""}`} />
               {errors.rejectToday && <p className="text-xs text-destructive">{errors.rejectToday}</p>}
             </div>
           </div>
+          <SizeMatrixEntry
+            matrix={sizeMatrix}
+            value={sizeBreakdown}
+            onChange={setSizeBreakdown}
+            onTotalChange={(total) => !fromHourly && setGoodToday(String(total))}
+          />
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div className="space-y-1.5">
               <Label className="text-xs font-medium">{t("forms.rework")} *</Label>
-              <Input type="number" value={reworkToday} onChange={(e) => setReworkToday(e.target.value)} placeholder="0" className={`h-10 ${errors.reworkToday ? "border-destructive" : ""}`} />
+              <Input type="number" value={reworkToday} onChange={(e) => setReworkToday(e.target.value)} readOnly={!!fromHourly} placeholder="0" className={`h-10 ${fromHourly ? "bg-muted" : ""} ${errors.reworkToday ? "border-destructive" : ""}`} />
               {errors.reworkToday && <p className="text-xs text-destructive">{errors.reworkToday}</p>}
             </div>
             <div className="space-y-1.5">
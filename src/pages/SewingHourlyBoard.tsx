@@ -0,0 +1,281 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Link } from "react-router-dom";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { getCurrentTimeInTimezone, getTodayInTimezone } from "@/lib/date-utils";
+import { cn } from "@/lib/utils";
+import { Loader2, Clock, ClipboardCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EmptyState } from "@/components/EmptyState";
+import { SewingHourlyGrid } from "@/components/sewing/SewingHourlyGrid";
+import { SewingHourlyEntryDialog } from "@/components/sewing/SewingHourlyEntryDialog";
+import {
+  useSewingHourlyLogs,
+  useSewingHourlyMutations,
+  useSewingPerHourTarget,
+} from "@/hooks/useSewingHourlyLogs";
+import { useFactoryShifts } from "@/hooks/useFactoryShifts";
+import { hourSlotStatus, summarizeHourly } from "@/lib/sewing-hourly";
+import { buildHourSlots, currentShift, rowsForShift, shiftProductionDate, sortBySlots } from "@/lib/shifts";
+import { sortByLineName } from "@/lib/sort-lines";
+
+interface LineOption {
+  id: string;
+  line_id: string;
+  name: string | null;
+}
+
+interface WorkOrderOption {
+  id: string;
+  po_number: string;
+  style: string;
+  buyer: string;
+  line_id: string | null;
+}
+
+export default function SewingHourlyBoard() {
+  const { t } = useTranslation();
+  const { user, profile, factory, isAdminOrHigher } = useAuth();
+  const timezone = factory?.timezone || "Asia/Dhaka";
+  const today = getTodayInTimezone(timezone);
+
+  const [loading, setLoading] = useState(true);
+  const [lines, setLines] = useState<LineOption[]>([]);
+  const [workOrders, setWorkOrders] = useState<WorkOrderOption[]>([]);
+  const [lineId, setLineId] = useState("");
+  const [workOrderId, setWorkOrderId] = useState("");
+  const [date, setDate] = useState(today);
+  const [shiftKey, setShiftKey] = useState("");
+  const [showOvertime, setShowOvertime] = useState(false);
+  const [entrySlot, setEntrySlot] = useState<string | null>(null);
+  const [clock, setClock] = useState(() => getCurrentTimeInTimezone(timezone));
+
+  const scope = { lineId, workOrderId, date };
+  const { logs, isLoading: logsLoading } = useSewingHourlyLogs(scope);
+  const { perHourTarget } = useSewingPerHourTarget(scope);
+  const { saveLog, toggleLock } = useSewingHourlyMutations(scope);
+  const { activeShifts, isLoading: shiftsLoading } = useFactoryShifts();
+  const keyOf = (s: { id: string | null }) => s.id ?? "default";
+
+  // Open on the shift that's running; a night shift after midnight is still yesterday's
+  const initialised = useRef(false);
+  useEffect(() => {
+    if (shiftsLoading || initialised.current) return;
+    initialised.current = true;
+    const running = currentShift(activeShifts, clock.getHours(), clock.getMinutes());
+    if (!running) return;
+    setShiftKey(keyOf(running));
+    setDate(shiftProductionDate(running, today, clock.getHours(), clock.getMinutes()));
+  }, [shiftsLoading, activeShifts, clock, today]);
+
+  // Re-evaluate which hour is running once a minute
+  useEffect(() => {
+    const id = setInterval(() => setClock(getCurrentTimeInTimezone(timezone)), 60_000);
+    return () => clearInterval(id);
+  }, [timezone]);
+
+  useEffect(() => {
+    if (!profile?.factory_id) return;
+    (async () => {
+      try {
+        const [linesRes, woRes, assignmentsRes] = await Promise.all([
+          supabase.from("lines").select("id, line_id, name").eq("factory_id", profile.factory_id!).eq("is_active", true),
+          supabase.from("work_orders").select("id, po_number, style, buyer, line_id").eq("factory_id", profile.factory_id!).eq("is_active", true),
+          supabase.from("user_line_assignments").select("line_id").eq("user_id", user?.id || ""),
+        ]);
+        let available = linesRes.data || [];
+        if (!isAdminOrHigher() && assignmentsRes.data && assignmentsRes.data.length > 0) {
+          const assigned = new Set(assignmentsRes.data.map((a) => a.line_id));
+          available = available.filter((l) => assigned.has(l.id));
+        }
+        setLines(sortByLineName(available, (l) => l.name || l.line_id));
+        setWorkOrders(woRes.data || []);
+      } catch (error) {
+        console.error("Error loading hourly board:", error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [profile?.factory_id, user?.id, isAdminOrHigher]);
+
+  const lineWorkOrders = useMemo(
+    () => workOrders.filter((wo) => !lineId || wo.line_id === lineId || !wo.line_id),
+    [workOrders, lineId],
+  );
+
+  const shift = activeShifts.find((s) => keyOf(s) === shiftKey) ?? activeShifts[0];
+  const allSlots = useMemo(() => buildHourSlots(shift), [shift]);
+  const shiftLogs = sortBySlots(rowsForShift(logs, shift, activeShifts), allSlots);
+  const hasOvertimeLogs = shiftLogs.some((l) => allSlots.find((s) => s.key === l.hour_slot)?.overtime);
+  const hourSlots = showOvertime || hasOvertimeLogs ? allSlots : allSlots.filter((s) => !s.overtime);
+
+  // Minutes on the selected date's timeline; yesterday's night shift is still running after midnight
+  const daysAgo = differenceInCalendarDays(parseISO(today), parseISO(date));
+  const now = daysAgo === 0 || daysAgo === 1 ? clock.getHours() * 60 + clock.getMinutes() + daysAgo * 1440 : null;
+
+  const totals = summarizeHourly(shiftLogs);
+  const bySlot = new Map(shiftLogs.map((l) => [l.hour_slot, l]));
+  const statuses = hourSlots.map((s) => hourSlotStatus(s, bySlot.get(s.key), now));
+  const behindCount = statuses.filter((s) => s === "behind" || s === "slightly-behind").length;
+  const missingCount = statuses.filter((s) => s === "missing").length;
+  const entryLog = entrySlot ? bySlot.get(entrySlot) ?? null : null;
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!profile?.factory_id) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center p-4">
+        <p className="text-muted-foreground">{t("common.noFactoryAssigned")}</p>
+      </div>
+    );
+  }
+
+  const kpis = [
+    { label: t("sewingHourly.target"), value: totals.target.toLocaleString(), cls: "text-blue-600 dark:text-blue-400" },
+    { label: t("sewingHourly.good"), value: totals.good.toLocaleString(), cls: "text-emerald-600 dark:text-emerald-400" },
+    {
+      label: t("sewingHourly.variance"),
+      value: `${totals.variance > 0 ? "+" : ""}${totals.variance.toLocaleString()}`,
+      cls: totals.variance < 0 ? "text-destructive" : "text-emerald-600 dark:text-emerald-400",
+    },
+    { label: t("sewingHourly.dhu"), value: totals.dhu != null ? `${totals.dhu}%` : "—", cls: "text-foreground" },
+    {
+      label: t("sewingHourly.hoursBehind"),
+      value: String(behindCount),
+      cls: behindCount > 0 ? "text-destructive" : "text-muted-foreground",
+    },
+  ];
+
+  return (
+    <div className="container max-w-5xl py-3 md:py-4 lg:py-6 px-4 pb-24 space-y-5">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-xl bg-blue-500/10 flex items-center justify-center">
+            <Clock className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+          </div>
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold">{t("sewingHourly.title")}</h1>
+            <p className="text-sm text-muted-foreground">{t("sewingHourly.description")}</p>
+          </div>
+        </div>
+        <Button variant="outline" asChild className="h-9">
+          <Link to="/sewing/end-of-day">
+            <ClipboardCheck className="h-4 w-4 mr-1.5" />
+            {t("nav.sewingEndOfDay")}
+          </Link>
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="rounded-xl border border-border/50 bg-card p-4 grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">{t("forms.lineNo")}</Label>
+          <Select value={lineId} onValueChange={(v) => { setLineId(v); setWorkOrderId(""); }}>
+            <SelectTrigger className="h-10"><SelectValue placeholder={t("forms.selectLine")} /></SelectTrigger>
+            <SelectContent>
+              {lines.map((l) => <SelectItem key={l.id} value={l.id}>{l.name || l.line_id}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">{t("forms.poNumber")}</Label>
+          <Select value={workOrderId} onValueChange={setWorkOrderId} disabled={!lineId}>
+            <SelectTrigger className="h-10"><SelectValue placeholder={t("forms.selectPO")} /></SelectTrigger>
+            <SelectContent>
+              {lineWorkOrders.map((wo) => (
+                <SelectItem key={wo.id} value={wo.id}>{wo.po_number} - {wo.style}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">{t("sewingHourly.date")}</Label>
+          <Input type="date" value={date} max={today} onChange={(e) => setDate(e.target.value || today)} className="h-10" />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">{t("sewingHourly.shift")}</Label>
+          <Select value={keyOf(shift)} onValueChange={setShiftKey} disabled={activeShifts.length < 2}>
+            <SelectTrigger className="h-10"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {activeShifts.map((s) => (
+                <SelectItem key={keyOf(s)} value={keyOf(s)}>{s.name} ({s.start_time}–{s.end_time})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 h-10">
+          <Switch
+            id="show-ot"
+            checked={showOvertime || hasOvertimeLogs}
+            disabled={hasOvertimeLogs || shift.ot_slots === 0}
+            onCheckedChange={setShowOvertime}
+          />
+          <Label htmlFor="show-ot" className="text-sm">{t("sewingHourly.showOvertime")}</Label>
+        </div>
+      </div>
+
+      {!lineId || !workOrderId ? (
+        <EmptyState icon={Clock} title={t("sewingHourly.selectPrompt")} description={t("sewingHourly.selectPromptHint")} />
+      ) : logsLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            {kpis.map((k) => (
+              <div key={k.label} className="rounded-xl border border-border/50 bg-card px-4 py-3">
+                <p className="text-[11px] text-muted-foreground font-medium">{k.label}</p>
+                <p className={cn("text-xl font-bold font-mono tabular-nums", k.cls)}>{k.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {missingCount > 0 && now !== null && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              {t("sewingHourly.missingHours", { count: missingCount })}
+            </p>
+          )}
+
+          <div className="rounded-xl border border-border/50 bg-card overflow-x-auto">
+            <SewingHourlyGrid
+              hourSlots={hourSlots}
+              logs={shiftLogs}
+              now={now}
+              isAdmin={isAdminOrHigher()}
+              userId={user?.id || ""}
+              onLogHour={setEntrySlot}
+              onToggleLock={(log) => toggleLock.mutate(log)}
+            />
+          </div>
+        </>
+      )}
+
+      <SewingHourlyEntryDialog
+        open={!!entrySlot}
+        onOpenChange={(open) => !open && setEntrySlot(null)}
+        hourSlot={entrySlot || ""}
+        existingLog={entryLog}
+        defaultTarget={perHourTarget}
+        isAdmin={isAdminOrHigher()}
+        isPending={saveLog.isPending}
+        onSave={(input) =>
+          saveLog.mutate({ input, shiftId: shift.id, existing: entryLog }, { onSuccess: () => setEntrySlot(null) })
+        }
+      />
+    </div>
+  );
+}
@@ -27,6 +27,7 @@ import { Calendar } from "@/components/ui/calendar";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useOfflineSubmission } from "@/hooks/useOfflineSubmission";
+import { PRODUCTION_PHOTOS_BUCKET } from "@/lib/offline-queue";
 import { useHeadcountCost } from "@/hooks/useHeadcountCost";
 
 interface Line {
@@ -366,6 +367,7 @@ export default function SewingUpdate() {
       const result = await offlineSubmit("production_updates_sewing", "production_updates_sewing", insertData as Record<string, unknown>, {
         showSuccessToast: false,
         showQueuedToast: true,
+        attachments: photos.length > 0 ? [{ field: "photo_urls", bucket: PRODUCTION_PHOTOS_BUCKET, files: photos }] : [],
       });
 
       if (result.queued) {
@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Warehouse, Search, FileText, AlertTriangle, Download, Calendar, CalendarIcon, X, XCircle, Layers, ChevronRight, ArrowDownToLine, ArrowUpFromLine, Scale } from "lucide-react";
 import { EmptyState } from "@/components/EmptyState";
+import { MaterialReadinessCard } from "@/components/MaterialReadinessCard";
 import { format, subDays } from "date-fns";
 import { useNavigate } from "react-router-dom";
 import {
@@ -587,6 +588,9 @@ export default function StorageDashboard() {
             </Card>
           </div>
 
+          {/* Materials for scheduled production */}
+          <MaterialReadinessCard />
+
           {/* Filters */}
           <Card>
             <CardContent className="pt-4">
@@ -28,12 +28,15 @@ import {
   ArrowLeft,
   ArrowRight,
   Check,
-  X
+  X,
+  Grid3X3
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { EmptyState } from "@/components/EmptyState";
 import { AutocompleteCombobox } from "@/components/ui/autocomplete-combobox";
+import { WorkOrderSizeMatrixDialog } from "@/components/size-matrix/WorkOrderSizeMatrixDialog";
+import type { Json } from "@/integrations/supabase/types";
 import { normalizeName, cleanDisplayName } from "@/lib/normalize-name";
 
 interface WorkOrder {
@@ -53,6 +56,8 @@ interface WorkOrder {
   is_active: boolean | null;
   line_id: string | null;
   order_number: string | null;
+  sizes: string[] | null;
+  size_breakdown: Json | null;
 }
 
 interface Line {
@@ -148,6 +153,9 @@ export default function WorkOrders() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
 
+  // Size × colour breakdown
+  const [matrixItem, setMatrixItem] = useState<WorkOrder | null>(null);
+
   // ── Autocomplete option lists derived from existing work_orders ──
   // Distinct buyers, dedup'd by normalized form, displayed with first-seen casing.
   const buyerOptions = useMemo<string[]>(() => {
@@ -862,6 +870,9 @@ export default function WorkOrders() {
                         />
                       </TableCell>
                       <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" title="Size & colour breakdown" onClick={() => setMatrixItem(wo)}>
+                          <Grid3X3 className={`h-4 w-4 ${wo.size_breakdown ? 'text-primary' : ''}`} />
+                        </Button>
                         <Button variant="ghost" size="icon" onClick={() => openEditDialog(wo)}>
                           <Pencil className="h-4 w-4" />
                         </Button>
@@ -1239,6 +1250,12 @@ export default function WorkOrders() {
         variant="destructive"
         onConfirm={handleDelete}
       />
+
+      <WorkOrderSizeMatrixDialog
+        workOrder={matrixItem}
+        onOpenChange={(open) => !open && setMatrixItem(null)}
+        onSaved={fetchWorkOrders}
+      />
     </div>
   );
 }
@@ -268,6 +268,7 @@ export default function WorkOrdersView() {
                 detailLoading={detailLoading}
                 onToggleExpand={toggleExpand}
                 onViewExtras={handleViewLedger}
+                onMilestonesChange={() => refetch({ background: true })}
               />
             ))
           )}
@@ -284,6 +285,7 @@ export default function WorkOrdersView() {
           detailLoading={detailLoading}
           onToggleExpand={toggleExpand}
           onViewExtras={handleViewLedger}
+          onMilestonesChange={() => refetch({ background: true })}
           header={
             activeTab === "not_started"
               ? {
@@ -5,6 +5,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { getTodayInTimezone, getCurrentTimeInTimezone } from "@/lib/date-utils";
 import { format } from "date-fns";
 import { useBuyerPOAccess } from "@/hooks/useBuyerPOAccess";
+import { useWorkingCalendar } from "@/hooks/useFactoryHolidays";
 import { AnimatedNumber } from "@/components/ui/animated-number";
 import { CompactPOCard } from "@/components/buyer/CompactPOCard";
 import { Card, CardContent } from "@/components/ui/card";
@@ -43,6 +44,7 @@ export default function BuyerDashboard() {
   const navigate = useNavigate();
   const { factory } = useAuth();
   const { workOrderIds, workOrders, loading: accessLoading } = useBuyerPOAccess();
+  const { calendar } = useWorkingCalendar();
   const [aggregates, setAggregates] = useState<Map<string, POAggregates>>(new Map());
   const [meta, setMeta] = useState<DashboardMeta>(EMPTY_META);
   const [dataLoading, setDataLoading] = useState(true);
@@ -398,7 +400,7 @@ export default function BuyerDashboard() {
         >
           {workOrders.map((wo) => {
             const agg = aggregates.get(wo.id) || EMPTY_AGGREGATES;
-            const health = computeHealth(wo, agg);
+            const health = computeHealth(wo, agg, calendar);
             const tAgg = meta.todayAgg.get(wo.id);
             const yAgg = meta.yesterdayAgg.get(wo.id);
             return (
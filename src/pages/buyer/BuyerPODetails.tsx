@@ -1,6 +1,11 @@
 import { useState, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useBuyerPODetails } from "@/hooks/useBuyerPODetails";
+import { useWorkingCalendar } from "@/hooks/useFactoryHolidays";
+import { usePOSizeRollup } from "@/hooks/useSizeMatrix";
+import { SizeRollupTable } from "@/components/size-matrix/SizeRollupTable";
+import { usePOAqlInspections } from "@/hooks/useQCAqlInspections";
+import { AqlResultsTable } from "@/components/quality/AqlResultsTable";
 import { computeHealth, healthColors, type HealthStatus } from "@/lib/buyer-health";
 import { computeBuyerAlerts, sortAlerts } from "@/lib/buyer-alerts";
 import { formatTimeInTimezone, formatShortDate } from "@/lib/date-utils";
@@ -94,6 +99,7 @@ const STAGE_CARD_STYLES = [
 export default function BuyerPODetails() {
   const { poId } = useParams<{ poId: string }>();
   const navigate = useNavigate();
+  const { calendar } = useWorkingCalendar();
   const [period, setPeriod] = useState<"7" | "14" | "30">("14");
 
   const {
@@ -109,6 +115,8 @@ export default function BuyerPODetails() {
     timezone,
     todayStr,
   } = useBuyerPODetails(poId);
+  const { data: sizeRollup } = usePOSizeRollup(poId);
+  const { rows: aqlInspections } = usePOAqlInspections(isAuthorized ? poId : undefined, { submittedOnly: true });
 
   const filteredTrend = useMemo(() => {
     const days = parseInt(period);
@@ -169,7 +177,7 @@ export default function BuyerPODetails() {
     );
   }
 
-  const health = computeHealth(workOrder, aggregates);
+  const health = computeHealth(workOrder, aggregates, calendar);
   const producedPct = workOrder.order_qty > 0 ? Math.min(100, Math.round((aggregates.cumulativeGood / workOrder.order_qty) * 100)) : 0;
   const packedPct = workOrder.order_qty > 0 ? Math.min(100, Math.round((aggregates.finishingPoly / workOrder.order_qty) * 100)) : 0;
   const accent = healthAccent[health.status] || healthAccent.no_deadline;
@@ -344,6 +352,34 @@ export default function BuyerPODetails() {
       </Card>
       </motion.div>
 
+      {/* Balance by size & colour, when the PO has a matrix */}
+      {sizeRollup?.breakdown && (
+        <motion.div variants={fadeUp}>
+        <Card className="rounded-xl">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Balance by Size & Colour</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SizeRollupTable rollup={sizeRollup.rollup} />
+          </CardContent>
+        </Card>
+        </motion.div>
+      )}
+
+      {/* Submitted AQL inspections */}
+      {aqlInspections.length > 0 && (
+        <motion.div variants={fadeUp}>
+        <Card className="rounded-xl">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Quality Inspections</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AqlResultsTable rows={aqlInspections} />
+          </CardContent>
+        </Card>
+        </motion.div>
+      )}
+
       {/* Today Timeline */}
       <motion.div variants={fadeUp}>
       <Card className="rounded-xl">
@@ -2,6 +2,7 @@ import { useState, useEffect, useMemo } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useBuyerPOAccess } from "@/hooks/useBuyerPOAccess";
+import { useWorkingCalendar } from "@/hooks/useFactoryHolidays";
 import { EMPTY_AGGREGATES, POAggregates } from "@/lib/buyer-health";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -93,6 +94,7 @@ interface StorageTransaction {
 export default function BuyerTodayUpdates() {
   const { factory } = useAuth();
   const { workOrderIds, workOrders, loading: accessLoading } = useBuyerPOAccess();
+  const { calendar } = useWorkingCalendar();
 
   const timezone = factory?.timezone || "Asia/Dhaka";
   const todayStr = getTodayInTimezone(timezone);
@@ -561,6 +563,7 @@ export default function BuyerTodayUpdates() {
                         timeline={timeline}
                         timezone={timezone}
                         lastSubmittedAt={timeline[0]?.time ?? null}
+                        calendar={calendar}
                       />
                     </motion.div>
                   ))}
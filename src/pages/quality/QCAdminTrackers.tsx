@@ -18,6 +18,7 @@ import {
   CheckSquare,
   X,
   Loader2,
+  LayoutList,
 } from "lucide-react";
 import { toast } from "sonner";
 import { Input } from "@/components/ui/input";
@@ -261,21 +262,29 @@ export default function QCAdminTrackers() {
             </div>
           </div>
           <div className="shrink-0 flex flex-col items-stretch sm:items-end gap-2 w-full sm:w-auto">
-            <Button
-              size="sm"
-              variant={selectMode ? "default" : "outline"}
-              className={cn(
-                "gap-1.5 w-full sm:w-auto",
-                selectMode && "bg-violet-600 hover:bg-violet-700 text-white"
-              )}
-              onClick={() => {
-                setSelectMode((s) => !s);
-                if (selectMode) setSelectedIds(new Set());
-              }}
-            >
-              {selectMode ? <X className="h-3.5 w-3.5" /> : <CheckSquare className="h-3.5 w-3.5" />}
-              {selectMode ? "Cancel export" : "Export PDFs"}
-            </Button>
+            <div className="flex gap-2">
+              <Button asChild size="sm" variant="outline" className="gap-1.5 flex-1 sm:flex-none">
+                <Link to="/quality/admin/trackers/templates">
+                  <LayoutList className="h-3.5 w-3.5" />
+                  Templates
+                </Link>
+              </Button>
+              <Button
+                size="sm"
+                variant={selectMode ? "default" : "outline"}
+                className={cn(
+                  "gap-1.5 flex-1 sm:flex-none",
+                  selectMode && "bg-violet-600 hover:bg-violet-700 text-white"
+                )}
+                onClick={() => {
+                  setSelectMode((s) => !s);
+                  if (selectMode) setSelectedIds(new Set());
+                }}
+              >
+                {selectMode ? <X className="h-3.5 w-3.5" /> : <CheckSquare className="h-3.5 w-3.5" />}
+                {selectMode ? "Cancel export" : "Export PDFs"}
+              </Button>
+            </div>
             {selectMode && (
               <p className="text-[11px] text-muted-foreground sm:text-right sm:max-w-[200px]">
                 Tick any signed-off rows. Only signed-off trackers can be exported.
@@ -0,0 +1,530 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import {
+  ClipboardCheck,
+  ArrowLeft,
+  Loader2,
+  Send,
+  RotateCcw,
+  Trash2,
+  Calendar,
+  User,
+  Package,
+  Layers,
+  Truck,
+  Building2,
+  Tag,
+  Download,
+  Plus,
+  Minus,
+  Save,
+  Stamp,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { cn } from "@/lib/utils";
+import { formatShortDate } from "@/lib/date-utils";
+import {
+  DEFECT_CATALOGUE,
+  DEFECT_SEVERITIES,
+  aqlVerdict,
+  countDefects,
+  formatAql,
+  type DefectSeverity,
+} from "@/lib/aql";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useQCAqlInspection,
+  inspectionPlans,
+  updateAqlPlan,
+  updateAqlNotes,
+  addAqlDefect,
+  updateAqlDefectQty,
+  deleteAqlDefect,
+  submitAqlInspection,
+  reopenAqlInspection,
+  deleteAqlInspection,
+  INSPECTION_TYPE_LABEL,
+} from "@/hooks/useQCAqlInspections";
+import { DetailCell } from "@/components/quality/detail-cell";
+import { AqlVerdictBadge } from "@/components/quality/AqlResultsTable";
+import { AqlPlanFields, type AqlPlanInput } from "@/components/quality/AqlPlanFields";
+import { downloadSingleAqlInspectionPDF } from "@/lib/qc-pdf";
+
+const SEVERITY_CLS: Record<DefectSeverity, string> = {
+  critical: "bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-400",
+  major: "bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-400",
+  minor: "bg-slate-100 text-slate-700 dark:bg-slate-500/20 dark:text-slate-300",
+};
+
+export default function QCAqlDetail() {
+  const { inspectionId } = useParams<{ inspectionId: string }>();
+  const navigate = useNavigate();
+  const { user, isAdminOrHigher, factory } = useAuth();
+  const { data, loading, error, refetch } = useQCAqlInspection(inspectionId);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
+  const [plan, setPlan] = useState<AqlPlanInput | null>(null);
+  const [notes, setNotes] = useState("");
+  const [defectCode, setDefectCode] = useState("");
+  const [defectQty, setDefectQty] = useState("1");
+  const [defectNotes, setDefectNotes] = useState("");
+
+  // Reset local form state whenever the server data changes (mount, refetch, route swap).
+  useEffect(() => {
+    if (!data) return;
+    setPlan({
+      lotQty: String(data.lot_qty),
+      level: data.inspection_level,
+      aqls: { critical: data.aql_critical, major: data.aql_major, minor: data.aql_minor },
+    });
+    setNotes(data.notes ?? "");
+  }, [data]);
+
+  const verdict = useMemo(
+    () => (data ? aqlVerdict(inspectionPlans(data), countDefects(data.defects)) : null),
+    [data]
+  );
+
+  if (loading && !data) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data || !verdict) {
+    return (
+      <div className="py-10 text-center">
+        <p className="text-sm text-muted-foreground mb-4">{error ?? "Inspection not found"}</p>
+        <Button variant="outline" onClick={() => navigate("/quality/aql")}>
+          Back to list
+        </Button>
+      </div>
+    );
+  }
+
+  const isLocked = data.status === "submitted";
+  const plans = inspectionPlans(data);
+  const found = data.defects_found;
+  const planDirty =
+    !!plan &&
+    (Number(plan.lotQty) !== data.lot_qty ||
+      plan.level !== data.inspection_level ||
+      plan.aqls.critical !== data.aql_critical ||
+      plan.aqls.major !== data.aql_major ||
+      plan.aqls.minor !== data.aql_minor);
+  const planLotQty = plan ? Number(plan.lotQty) : 0;
+  const planValid = Number.isInteger(planLotQty) && planLotQty > 0;
+
+  async function run(action: () => Promise<unknown>, success?: string) {
+    setActionLoading(true);
+    try {
+      await action();
+      if (success) toast.success(success);
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
+  function handleSavePlan() {
+    if (!user?.id || !plan || !planValid) return;
+    run(() => updateAqlPlan(data!.id, { lotQty: planLotQty, level: plan.level, aqls: plan.aqls }, user.id), "Sampling plan updated");
+  }
+
+  function handleAddDefect() {
+    const defect = DEFECT_CATALOGUE.find((d) => d.code === defectCode);
+    const qty = Number(defectQty);
+    if (!user?.id || !defect || !Number.isInteger(qty) || qty <= 0) return;
+    run(async () => {
+      await addAqlDefect({
+        inspectionId: data!.id,
+        defect,
+        quantity: qty,
+        notes: defectNotes.trim() || null,
+        createdBy: user.id,
+      });
+      setDefectCode("");
+      setDefectQty("1");
+      setDefectNotes("");
+    });
+  }
+
+  function handleSaveNotes() {
+    if (!user?.id || notes === (data!.notes ?? "")) return;
+    run(() => updateAqlNotes(data!.id, notes.trim() || null, user.id));
+  }
+
+  async function handleSubmit() {
+    if (!user?.id || !data) return;
+    setActionLoading(true);
+    try {
+      const result = await submitAqlInspection(data, user.id);
+      toast.success(result === "pass" ? "Inspection submitted — lot passed" : "Inspection submitted — lot failed");
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!data) return;
+    setActionLoading(true);
+    try {
+      await deleteAqlInspection(data.id);
+      toast.success("Inspection deleted");
+      navigate("/quality/aql");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete");
+    } finally {
+      setActionLoading(false);
+      setConfirmDeleteOpen(false);
+    }
+  }
+
+  async function handleDownloadPDF() {
+    if (!data) return;
+    setActionLoading(true);
+    try {
+      await downloadSingleAqlInspectionPDF(data.id, {
+        factoryName: factory?.name ?? "Factory",
+        factoryTimezone: factory?.timezone ?? "Asia/Dhaka",
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to generate PDF");
+    } finally {
+      setActionLoading(false);
+    }
+  }
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5">
+      <div>
+        <Link
+          to="/quality/aql"
+          className="inline-flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Back to AQL inspections
+        </Link>
+      </div>
+
+      {/* ── Action bar ──────────────────────────────────────────────── */}
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {isLocked && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1.5 text-blue-700 border-blue-300/60 hover:bg-blue-500/10 dark:text-blue-300"
+            onClick={handleDownloadPDF}
+            disabled={actionLoading}
+          >
+            <Download className="h-3.5 w-3.5" />
+            Download PDF
+          </Button>
+        )}
+        {!isLocked && (
+          <Button
+            size="sm"
+            className="gap-1.5"
+            onClick={handleSubmit}
+            disabled={actionLoading || planDirty}
+            title={planDirty ? "Save the sampling plan first" : ""}
+          >
+            <Send className="h-3.5 w-3.5" />
+            Submit verdict
+          </Button>
+        )}
+        {isLocked && isAdminOrHigher() && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1.5"
+            onClick={() => user?.id && run(() => reopenAqlInspection(data.id, user.id), "Inspection reopened")}
+            disabled={actionLoading}
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            Reopen
+          </Button>
+        )}
+        {isAdminOrHigher() && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1.5 text-destructive hover:text-destructive border-destructive/30 hover:bg-destructive/10"
+            onClick={() => setConfirmDeleteOpen(true)}
+            disabled={actionLoading}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {/* ── Page title ─────────────────────────────────────────────── */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="h-11 w-11 rounded-xl bg-gradient-to-br from-teal-500 to-emerald-600 flex items-center justify-center shadow-lg shadow-teal-500/25 shrink-0">
+            <ClipboardCheck className="h-5 w-5 text-white" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-[10px] font-semibold uppercase tracking-[0.14em] text-teal-600 dark:text-teal-400">
+              {INSPECTION_TYPE_LABEL[data.inspection_type]} AQL Inspection
+            </p>
+            <h1 className="text-xl md:text-2xl font-bold tracking-tight truncate">{data.po_number}</h1>
+          </div>
+        </div>
+        <AqlVerdictBadge result={data.result} className="text-xs px-2.5 py-1 self-start sm:self-auto" />
+      </div>
+
+      {/* ── PO details ─────────────────────────────────────────────── */}
+      <div className="relative overflow-hidden rounded-2xl border border-border/60 bg-card shadow-sm">
+        <div className="h-[3px] bg-gradient-to-r from-teal-500 via-emerald-500 to-teal-600" />
+        <div className="grid grid-cols-2 md:grid-cols-4 divide-x divide-y divide-border/60 [&>*]:border-border/60">
+          <DetailCell icon={Tag} label="Order / PO No." value={data.po_number} mono />
+          <DetailCell icon={Building2} label="Buyer" value={data.buyer} />
+          <DetailCell icon={Layers} label="Style" value={data.style} mono />
+          <DetailCell
+            icon={Package}
+            label="Order Qty"
+            value={data.order_qty ? data.order_qty.toLocaleString() + " pcs" : "—"}
+          />
+          <DetailCell icon={Calendar} label="Inspection Date" value={formatShortDate(data.inspection_date)} />
+          <DetailCell icon={User} label="Inspector" value={data.inspector_name || "—"} />
+          <DetailCell
+            icon={Truck}
+            label="FOB / Ex-Factory"
+            value={data.planned_ex_factory ? formatShortDate(data.planned_ex_factory) : "—"}
+          />
+          <DetailCell
+            icon={Stamp}
+            label="Submitted"
+            value={data.submitted_at ? formatShortDate(data.submitted_at) : "Not yet"}
+          />
+        </div>
+      </div>
+
+      <ConfirmDialog
+        open={confirmDeleteOpen}
+        onOpenChange={setConfirmDeleteOpen}
+        title="Delete this AQL inspection?"
+        description={`This will permanently delete the ${INSPECTION_TYPE_LABEL[data.inspection_type].toLowerCase()} inspection for ${data.po_number} (${formatShortDate(data.inspection_date)}) and every defect logged on it. This cannot be undone.`}
+        confirmLabel="Delete inspection"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+
+      <div className="grid gap-5 lg:grid-cols-2">
+        {/* ── Sampling plan ─────────────────────────────────────────── */}
+        <section className="rounded-xl border border-border/60 bg-card p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Sampling Plan</p>
+            {!isLocked && planDirty && (
+              <Button size="sm" className="h-7 gap-1.5 text-xs" onClick={handleSavePlan} disabled={actionLoading || !planValid}>
+                <Save className="h-3 w-3" />
+                Save plan
+              </Button>
+            )}
+          </div>
+          {plan && <AqlPlanFields value={plan} onChange={setPlan} disabled={isLocked} />}
+        </section>
+
+        {/* ── Verdict ───────────────────────────────────────────────── */}
+        <section className="rounded-xl border border-border/60 bg-card p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              {isLocked ? "Verdict" : "Verdict so far"}
+            </p>
+            <span
+              className={cn(
+                "text-xs font-semibold",
+                verdict.result === "pass" ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"
+              )}
+            >
+              {verdict.result === "pass" ? "Within AQL" : "Lot rejected"}
+            </span>
+          </div>
+          <div className="overflow-hidden rounded-lg border">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="bg-muted/50 text-[10px] uppercase tracking-wide text-muted-foreground">
+                  <th className="px-3 py-2 text-left font-medium">Class</th>
+                  <th className="px-3 py-2 text-right font-medium">AQL</th>
+                  <th className="px-3 py-2 text-right font-medium">Ac</th>
+                  <th className="px-3 py-2 text-right font-medium">Re</th>
+                  <th className="px-3 py-2 text-right font-medium">Found</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {DEFECT_SEVERITIES.map((s) => {
+                  const failed = verdict.failedClasses.includes(s);
+                  return (
+                    <tr key={s} className={cn(failed && "bg-red-50/60 dark:bg-red-500/10")}>
+                      <td className="px-3 py-2 capitalize font-medium">{s}</td>
+                      <td className="px-3 py-2 text-right font-mono tabular-nums">{formatAql(plans[s].aql)}</td>
+                      <td className="px-3 py-2 text-right font-mono tabular-nums">{plans[s].ac}</td>
+                      <td className="px-3 py-2 text-right font-mono tabular-nums">{plans[s].re}</td>
+                      <td
+                        className={cn(
+                          "px-3 py-2 text-right font-mono tabular-nums font-semibold",
+                          failed && "text-red-600 dark:text-red-400"
+                        )}
+                      >
+                        {found[s]}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            Code letter <span className="font-mono">{data.code_letter}</span>, sample of{" "}
+            <span className="font-mono">{data.sample_size.toLocaleString()}</span> from a lot of{" "}
+            <span className="font-mono">{data.lot_qty.toLocaleString()}</span>.
+          </p>
+        </section>
+      </div>
+
+      {/* ── Defect log ───────────────────────────────────────────────── */}
+      <section className="rounded-xl border border-border/60 bg-card p-4 space-y-3">
+        <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Defects Found</p>
+
+        {!isLocked && (
+          <div className="grid gap-2 sm:grid-cols-[1fr_80px_1fr_auto] sm:items-end rounded-lg border border-border/60 bg-muted/20 p-3">
+            <div className="space-y-1.5">
+              <Label className="text-[11px] font-semibold">Defect</Label>
+              <Select value={defectCode} onValueChange={setDefectCode}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select from catalogue" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEFECT_SEVERITIES.map((s) => (
+                    <SelectGroup key={s}>
+                      <SelectLabel className="capitalize">{s}</SelectLabel>
+                      {DEFECT_CATALOGUE.filter((d) => d.severity === s).map((d) => (
+                        <SelectItem key={d.code} value={d.code}>
+                          <span className="font-mono text-muted-foreground">{d.code}</span> {d.name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-[11px] font-semibold">Qty</Label>
+              <Input
+                type="number"
+                min={1}
+                value={defectQty}
+                onChange={(e) => setDefectQty(e.target.value)}
+                className="tabular-nums"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-[11px] font-semibold">Note</Label>
+              <Input
+                placeholder="Where on the garment, carton no…"
+                value={defectNotes}
+                onChange={(e) => setDefectNotes(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleAddDefect} disabled={actionLoading || !defectCode} className="gap-1.5">
+              <Plus className="h-4 w-4" />
+              Log
+            </Button>
+          </div>
+        )}
+
+        {data.defects.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No defects logged.</p>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {data.defects.map((d) => (
+              <div key={d.id} className="flex items-center gap-3 px-3 py-2">
+                <span className={cn("text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded", SEVERITY_CLS[d.severity])}>
+                  {d.severity}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm truncate">
+                    <span className="font-mono text-xs text-muted-foreground">{d.defect_code}</span> {d.defect_name}
+                  </p>
+                  {d.notes && <p className="text-[11px] text-muted-foreground truncate">{d.notes}</p>}
+                </div>
+                {!isLocked && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    disabled={actionLoading}
+                    onClick={() =>
+                      run(() => (d.quantity > 1 ? updateAqlDefectQty(d.id, d.quantity - 1) : deleteAqlDefect(d.id)))
+                    }
+                  >
+                    <Minus className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                <span className="w-8 text-center font-mono tabular-nums text-sm font-semibold">{d.quantity}</span>
+                {!isLocked && (
+                  <>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      disabled={actionLoading}
+                      onClick={() => run(() => updateAqlDefectQty(d.id, d.quantity + 1))}
+                    >
+                      <Plus className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      disabled={actionLoading}
+                      onClick={() => run(() => deleteAqlDefect(d.id))}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* ── Notes ────────────────────────────────────────────────────── */}
+      <section className="rounded-xl border border-border/60 bg-card p-4 space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Inspector Notes</p>
+        <Textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={handleSaveNotes}
+          placeholder="Cartons drawn, packing and labelling remarks…"
+          disabled={isLocked}
+          rows={3}
+        />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,446 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ClipboardCheck, Search, Plus, Loader2, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatShortDate, getTodayInTimezone } from "@/lib/date-utils";
+import { DEFAULT_AQL_LEVELS, DEFAULT_INSPECTION_LEVEL } from "@/lib/aql";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  useQCAqlInspections,
+  startAqlInspection,
+  INSPECTION_TYPE_LABEL,
+  type AqlInspectionType,
+} from "@/hooks/useQCAqlInspections";
+import { AqlVerdictBadge } from "@/components/quality/AqlResultsTable";
+import { AqlPlanFields, type AqlPlanInput } from "@/components/quality/AqlPlanFields";
+
+type FilterTab = "all" | "in_progress" | "pass" | "fail";
+
+const TAB_META: Record<FilterTab, string> = {
+  all: "All",
+  in_progress: "In Progress",
+  pass: "Passed",
+  fail: "Failed",
+};
+
+export default function QCAqlList() {
+  const navigate = useNavigate();
+  const { isQCUser } = useAuth();
+  const canStart = isQCUser();
+  const { rows, loading, refetch } = useQCAqlInspections({ sinceDays: 90 });
+  const [search, setSearch] = useState("");
+  const [tab, setTab] = useState<FilterTab>("all");
+  const [newOpen, setNewOpen] = useState(false);
+
+  const counts = useMemo(() => {
+    const c: Record<FilterTab, number> = { all: rows.length, in_progress: 0, pass: 0, fail: 0 };
+    for (const r of rows) {
+      if (r.status === "in_progress") c.in_progress += 1;
+      else if (r.result === "pass") c.pass += 1;
+      else if (r.result === "fail") c.fail += 1;
+    }
+    return c;
+  }, [rows]);
+
+  const filtered = useMemo(() => {
+    let list = rows;
+    if (tab === "in_progress") list = list.filter((r) => r.status === "in_progress");
+    else if (tab !== "all") list = list.filter((r) => r.status === "submitted" && r.result === tab);
+    if (search) {
+      const q = search.toLowerCase();
+      list = list.filter(
+        (r) =>
+          r.po_number.toLowerCase().includes(q) ||
+          r.buyer.toLowerCase().includes(q) ||
+          r.style.toLowerCase().includes(q) ||
+          (r.inspector_name ?? "").toLowerCase().includes(q)
+      );
+    }
+    return list;
+  }, [rows, tab, search]);
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      {/* ── Header ───────────────────────────────────────────────────── */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-start gap-4 min-w-0">
+          <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-teal-500 to-emerald-600 flex items-center justify-center shadow-lg shadow-teal-500/25 shrink-0">
+            <ClipboardCheck className="h-6 w-6 text-white" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-[11px] font-semibold uppercase tracking-[0.14em] text-teal-600 dark:text-teal-400">
+              Quality Control
+            </p>
+            <h1 className="text-2xl md:text-3xl font-bold tracking-tight">AQL Inspections</h1>
+            <p className="text-sm text-muted-foreground mt-1 max-w-xl">
+              Pre-final and final lot inspections sampled per ISO 2859-1. The lot passes while every
+              defect class stays under its reject number.
+            </p>
+          </div>
+        </div>
+        {canStart && (
+          <Button
+            onClick={() => setNewOpen(true)}
+            className="gap-1.5 shrink-0 w-full sm:w-auto bg-gradient-to-r from-teal-500 to-emerald-600 hover:from-teal-600 hover:to-emerald-700 shadow-md shadow-teal-500/25 text-white"
+          >
+            <Plus className="h-4 w-4" />
+            New inspection
+          </Button>
+        )}
+      </div>
+
+      {/* ── Filter bar ─────────────────────────────────────────────── */}
+      <div className="rounded-xl border border-border/60 bg-card p-3 shadow-sm">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+          <div className="relative flex-1 max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by PO, buyer, style, or inspector…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 h-9"
+            />
+          </div>
+          <div className="flex flex-wrap gap-1 lg:ml-auto">
+            {(Object.keys(TAB_META) as FilterTab[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setTab(key)}
+                className={cn(
+                  "inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors text-muted-foreground hover:text-foreground hover:bg-muted/60",
+                  tab === key && "bg-muted text-foreground shadow-sm"
+                )}
+              >
+                {TAB_META[key]}
+                <span className="text-[10px] tabular-nums font-mono text-muted-foreground/70">{counts[key]}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* ── Inspections ──────────────────────────────────────────────── */}
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map((i) => (
+            <div key={i} className="h-12 bg-muted/40 rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border/60 bg-card/40 py-16 text-center">
+          <div className="inline-flex h-12 w-12 rounded-xl items-center justify-center mx-auto mb-3 bg-gradient-to-br from-teal-500/15 to-emerald-500/15 ring-1 ring-teal-500/20">
+            <Sparkles className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+          </div>
+          <p className="text-sm font-medium">
+            {rows.length === 0 ? "No AQL inspections in the last 90 days." : "No inspections match this filter."}
+          </p>
+          {rows.length === 0 && canStart && (
+            <Button onClick={() => setNewOpen(true)} size="sm" className="mt-3 gap-1.5">
+              <Plus className="h-3.5 w-3.5" />
+              Start an inspection
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="rounded-xl border border-border/60 bg-card shadow-sm overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>PO</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="hidden md:table-cell">Date</TableHead>
+                <TableHead className="text-right">Lot</TableHead>
+                <TableHead className="text-right hidden sm:table-cell">Sample</TableHead>
+                <TableHead className="text-right hidden lg:table-cell">Critical / Major / Minor</TableHead>
+                <TableHead className="hidden lg:table-cell">Inspector</TableHead>
+                <TableHead className="text-right">Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((r) => (
+                <TableRow
+                  key={r.id}
+                  className="cursor-pointer hover:bg-muted/40"
+                  onClick={() => navigate(`/quality/aql/${r.id}`)}
+                >
+                  <TableCell className="min-w-0 max-w-[240px]">
+                    <p className="text-xs font-mono font-semibold truncate">{r.po_number}</p>
+                    <p className="text-[11px] text-muted-foreground truncate">
+                      {r.buyer} · {r.style}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-xs">{INSPECTION_TYPE_LABEL[r.inspection_type]}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground hidden md:table-cell">
+                    {formatShortDate(r.inspection_date)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono tabular-nums text-xs">{r.lot_qty.toLocaleString()}</TableCell>
+                  <TableCell className="text-right font-mono tabular-nums text-xs hidden sm:table-cell">
+                    {r.sample_size.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right font-mono tabular-nums text-xs hidden lg:table-cell">
+                    {r.defects_found.critical} / {r.defects_found.major} / {r.defects_found.minor}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground hidden lg:table-cell">
+                    {r.inspector_name || "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <AqlVerdictBadge result={r.result} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <NewInspectionDialog
+        open={newOpen}
+        onOpenChange={setNewOpen}
+        onCreated={() => {
+          setNewOpen(false);
+          refetch();
+        }}
+      />
+    </div>
+  );
+}
+
+// ── New Inspection Dialog ──────────────────────────────────────────────
+
+interface POOpt {
+  id: string;
+  po_number: string;
+  buyer: string;
+  style: string;
+  order_qty: number;
+}
+
+function NewInspectionDialog({
+  open,
+  onOpenChange,
+  onCreated,
+}: {
+  open: boolean;
+  onOpenChange: (v: boolean) => void;
+  onCreated: (inspectionId: string) => void;
+}) {
+  const navigate = useNavigate();
+  const { profile, user, factory } = useAuth();
+  const timezone = factory?.timezone || "Asia/Dhaka";
+  const today = getTodayInTimezone(timezone);
+
+  const [workOrders, setWorkOrders] = useState<POOpt[]>([]);
+  const [workOrderId, setWorkOrderId] = useState("");
+  const [inspectionType, setInspectionType] = useState<AqlInspectionType>("final");
+  const [date, setDate] = useState(today);
+  const [plan, setPlan] = useState<AqlPlanInput>({
+    lotQty: "",
+    level: DEFAULT_INSPECTION_LEVEL,
+    aqls: DEFAULT_AQL_LEVELS,
+  });
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const factoryId = profile?.factory_id;
+    if (!open || !factoryId) return;
+    setLoading(true);
+    (async () => {
+      const { data } = await supabase
+        .from("work_orders")
+        .select("id, po_number, buyer, style, order_qty")
+        .eq("factory_id", factoryId)
+        .eq("is_active", true)
+        .order("po_number");
+      setWorkOrders((data as POOpt[]) || []);
+      setLoading(false);
+    })();
+  }, [open, profile?.factory_id]);
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setWorkOrderId("");
+      setInspectionType("final");
+      setDate(today);
+      setPlan({ lotQty: "", level: DEFAULT_INSPECTION_LEVEL, aqls: DEFAULT_AQL_LEVELS });
+    }
+  }, [open, today]);
+
+  // The lot defaults to the whole order; pre-final lots are usually smaller and edited down.
+  function handlePOChange(nextWorkOrderId: string) {
+    setWorkOrderId(nextWorkOrderId);
+    const wo = workOrders.find((w) => w.id === nextWorkOrderId);
+    if (wo) setPlan((p) => ({ ...p, lotQty: String(wo.order_qty) }));
+  }
+
+  const lotQty = Number(plan.lotQty);
+  const canSubmit =
+    workOrderId && date && Number.isInteger(lotQty) && lotQty > 0 && profile?.factory_id && user?.id;
+
+  async function handleCreate() {
+    if (!canSubmit) return;
+    setSubmitting(true);
+    try {
+      const inspectionId = await startAqlInspection({
+        factoryId: profile.factory_id!,
+        workOrderId,
+        inspectionType,
+        inspectionDate: date,
+        lotQty,
+        level: plan.level,
+        aqls: plan.aqls,
+        inspectorId: user!.id,
+      });
+      toast.success("AQL inspection started");
+      onCreated(inspectionId);
+      navigate(`/quality/aql/${inspectionId}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not start inspection");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className={cn(
+          "sm:max-w-lg p-0 gap-0 overflow-hidden flex flex-col",
+          "top-4 translate-y-0 max-h-[calc(100dvh-2rem)]",
+          "sm:top-[50%] sm:-translate-y-[50%] sm:max-h-[90vh]"
+        )}
+      >
+        <div className="h-[3px] bg-gradient-to-r from-teal-500 via-emerald-500 to-teal-600 shrink-0" />
+
+        <DialogHeader className="px-6 pt-5 pb-4 border-b border-border/60 shrink-0">
+          <div className="flex items-start gap-3">
+            <div className="h-10 w-10 rounded-xl bg-gradient-to-br from-teal-500 to-emerald-600 flex items-center justify-center shadow-lg shadow-teal-500/25 shrink-0">
+              <ClipboardCheck className="h-5 w-5 text-white" />
+            </div>
+            <div className="min-w-0 text-left">
+              <DialogTitle className="text-base">New AQL Inspection</DialogTitle>
+              <DialogDescription className="text-xs mt-1">
+                The sample size and accept/reject numbers follow from the lot, level and AQLs.
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto px-6 py-5">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label className="text-xs uppercase tracking-wide text-muted-foreground font-semibold">
+                  Work Order <span className="text-red-500 normal-case">*</span>
+                </Label>
+                <Select value={workOrderId} onValueChange={handlePOChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a PO" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workOrders.map((wo) => (
+                      <SelectItem key={wo.id} value={wo.id}>
+                        <span className="font-mono">{wo.po_number}</span>
+                        <span className="text-muted-foreground">
+                          {" "}
+                          · {wo.buyer} · {wo.style}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-[11px] font-semibold">Inspection</Label>
+                  <Select value={inspectionType} onValueChange={(v) => setInspectionType(v as AqlInspectionType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(INSPECTION_TYPE_LABEL) as AqlInspectionType[]).map((t) => (
+                        <SelectItem key={t} value={t}>
+                          {INSPECTION_TYPE_LABEL[t]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-[11px] font-semibold">
+                    Inspection Date <span className="text-red-500">*</span>
+                  </Label>
+                  <Input
+                    type="date"
+                    value={date}
+                    max={today}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="tabular-nums"
+                  />
+                </div>
+              </div>
+
+              <div className="rounded-lg border border-border/60 bg-muted/20 p-3 space-y-3">
+                <p className="text-[10px] uppercase tracking-[0.1em] font-semibold text-muted-foreground">
+                  Sampling Plan
+                </p>
+                <AqlPlanFields value={plan} onChange={setPlan} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter
+          className="px-6 py-4 border-t border-border/60 bg-muted/30 shrink-0 sm:justify-end gap-2"
+          style={{ paddingBottom: "max(1rem, env(safe-area-inset-bottom))" }}
+        >
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={!canSubmit || submitting}
+            className="gap-1.5 bg-gradient-to-r from-teal-500 to-emerald-600 hover:from-teal-600 hover:to-emerald-700 shadow-md shadow-teal-500/25 text-white disabled:opacity-50"
+          >
+            {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Start inspection
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
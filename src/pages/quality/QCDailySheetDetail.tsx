@@ -31,6 +31,7 @@ import { Badge } from "@/components/ui/badge";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { cn } from "@/lib/utils";
 import { formatShortDate } from "@/lib/date-utils";
+import { stripSectionPrefix } from "@/lib/qc-templates";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   useQCDailySheet,
@@ -42,6 +43,7 @@ import {
   type DailySheetStatus,
 } from "@/hooks/useQCDailySheets";
 import { DailyItemRow } from "@/components/quality/DailyItemRow";
+import { MeasurementChecksSection } from "@/components/quality/MeasurementChecksSection";
 import { SECTION_PALETTE } from "@/components/quality/section-palette";
 import { DetailCell } from "@/components/quality/detail-cell";
 import { downloadSingleDailySheetPDF } from "@/lib/qc-pdf";
@@ -470,7 +472,7 @@ export default function QCDailySheetDetail() {
                   <h2 className="text-sm md:text-base font-bold text-white uppercase tracking-wide truncate">
                     {/* Strip any leading "SECTION N —" / "PHASE N —" the template label
                         already carries, otherwise we render the number twice. */}
-                    {g.label.replace(/^(PHASE|SECTION)\s+\d+\s*[—\-:]\s*/i, "")}
+                    {stripSectionPrefix(g.label)}
                   </h2>
                 </div>
                 <div className="flex items-center gap-2 sm:gap-2.5 text-[11px] shrink-0 font-mono tabular-nums flex-wrap">
@@ -519,6 +521,15 @@ export default function QCDailySheetDetail() {
           );
         })}
       </div>
+
+      <MeasurementChecksSection
+        sourceType="daily_sheet"
+        sourceId={data.id}
+        factoryId={data.factory_id}
+        workOrderId={data.work_order_id}
+        style={data.style}
+        disabled={isLocked}
+      />
     </div>
   );
 }
@@ -18,10 +18,13 @@ import {
   Sparkles,
   Flame,
   Rows3,
+  Bug,
 } from "lucide-react";
+import { format, parseISO, subDays } from "date-fns";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { formatShortDate, formatTimeInTimezone, getTodayInTimezone, toISODate } from "@/lib/date-utils";
 import { DateFilter } from "@/components/quality/date-filter";
@@ -33,7 +36,19 @@ import {
   type POWithTracker,
 } from "@/hooks/useQCOrderTrackers";
 import { useQCDailySheets, type DailySheetRow } from "@/hooks/useQCDailySheets";
+import { useQCDefectChecks, type DefectCheckRow } from "@/hooks/useQCDefectChecks";
+import {
+  CHECK_POINT_LABEL,
+  checkDefects,
+  defectPareto,
+  dhuByLine,
+  dhuByOperation,
+  dhuByOperator,
+  dhuSummary,
+  type CheckPoint,
+} from "@/lib/qc-defects";
 import { QCIssueCard } from "@/components/quality/QCIssueCard";
+import { DefectParetoChart, DhuTable } from "@/components/quality/DefectAnalytics";
 import {
   STATUS_VIS,
   StatusPill,
@@ -49,6 +64,7 @@ export default function QCDashboard() {
   const { data, loading, refetch } = useQCDashboard();
   const { rows: dailySheets, loading: loadingSheets } = useQCDailySheets({ sinceDays: 30 });
   const { rows: trackerRows, loading: loadingTrackers } = useQCOrderTrackers();
+  const { rows: defectChecks, loading: loadingDefects } = useQCDefectChecks({ sinceDays: 30 });
   const [tab, setTab] = useState("overview");
   // Dashboard mirrors the normal Dashboard: default scope = today.
   // Users can pick another date via the DateFilter to drill into the past.
@@ -232,7 +248,7 @@ export default function QCDashboard() {
 
       {/* ── Tabs ─────────────────────────────────────────────────────── */}
       <Tabs value={tab} onValueChange={setTab} className="w-full">
-        <TabsList className="w-full grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 h-auto p-1 rounded-xl bg-muted/60 border border-border/50">
+        <TabsList className="w-full grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-7 h-auto p-1 rounded-xl bg-muted/60 border border-border/50">
           <TabsTrigger
             value="overview"
             className="flex items-center justify-center gap-1.5 text-xs sm:text-sm px-2 py-2.5 rounded-lg data-[state=active]:shadow-sm data-[state=active]:bg-indigo-50 data-[state=active]:text-indigo-700 dark:data-[state=active]:bg-indigo-950/40 dark:data-[state=active]:text-indigo-300"
@@ -264,6 +280,13 @@ export default function QCDashboard() {
             Trackers
             <CountBadge n={trackersOnly.length} />
           </TabsTrigger>
+          <TabsTrigger
+            value="defects"
+            className="flex items-center justify-center gap-1.5 text-xs sm:text-sm px-2 py-2.5 rounded-lg data-[state=active]:shadow-sm data-[state=active]:bg-rose-50 data-[state=active]:text-rose-700 dark:data-[state=active]:bg-rose-950/40 dark:data-[state=active]:text-rose-300"
+          >
+            <Bug className="h-3.5 w-3.5" />
+            Defects
+          </TabsTrigger>
           <TabsTrigger
             value="issues"
             className={cn(
@@ -565,6 +588,11 @@ export default function QCDashboard() {
           <OrderTrackersTable rows={filteredTrackers} loading={loadingTrackers} />
         </TabsContent>
 
+        {/* DEFECTS / DHU */}
+        <TabsContent value="defects" className="mt-6 space-y-4">
+          <DefectsPanel checks={defectChecks} loading={loadingDefects} today={today} />
+        </TabsContent>
+
         {/* OPEN ISSUES */}
         <TabsContent value="issues" className="mt-6 space-y-3">
           {data.openIssues.length === 0 ? (
@@ -1199,6 +1227,161 @@ function ActionTile({
   );
 }
 
+// ── Defects / DHU ────────────────────────────────────────────────────
+
+type CheckPointFilter = "all" | CheckPoint;
+
+const DEFECT_WINDOWS = [
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+];
+
+function DefectsPanel({
+  checks,
+  loading,
+  today,
+}: {
+  checks: DefectCheckRow[];
+  loading: boolean;
+  today: string;
+}) {
+  const [days, setDays] = useState(7);
+  // End-line is the headline DHU; in-line checks sample single stations
+  const [checkPoint, setCheckPoint] = useState<CheckPointFilter>("endline");
+  const [paretoPO, setParetoPO] = useState("");
+
+  const windowed = useMemo(() => {
+    const since = format(subDays(parseISO(today), days - 1), "yyyy-MM-dd");
+    return checks.filter((c) => c.check_date >= since);
+  }, [checks, today, days]);
+  const scoped = useMemo(
+    () => windowed.filter((c) => checkPoint === "all" || c.check_point === checkPoint),
+    [windowed, checkPoint]
+  );
+
+  const summary = dhuSummary(scoped);
+  const lineNames = new Map(scoped.map((c) => [c.line_id, c.line_name]));
+  const byLine = dhuByLine(scoped).map((r) => ({ ...r, label: lineNames.get(r.key) || "Unassigned line" }));
+  const byOperation = dhuByOperation(scoped);
+  // Operators are only recorded on in-line checks, whichever check point is picked
+  const byOperator = dhuByOperator(windowed);
+
+  // POs ranked by defects found, so the Pareto opens on the worst one
+  const pos = useMemo(() => {
+    const map = new Map<string, { id: string; label: string; defects: number }>();
+    for (const c of scoped) {
+      const po = map.get(c.work_order_id) ?? { id: c.work_order_id, label: `${c.po_number} · ${c.style}`, defects: 0 };
+      po.defects += checkDefects(c);
+      map.set(c.work_order_id, po);
+    }
+    return [...map.values()].sort((a, b) => b.defects - a.defects);
+  }, [scoped]);
+  const selectedPO = pos.find((p) => p.id === paretoPO) ?? pos[0];
+  const pareto = selectedPO ? defectPareto(scoped.filter((c) => c.work_order_id === selectedPO.id)) : [];
+
+  return (
+    <>
+      <SectionHeader
+        description="Defects per hundred units from in-line and end-line checks, logged per line and hour against the factory defect catalogue."
+        ctaLabel="Open defect log"
+        ctaTo="/quality/defects"
+      />
+      <div className="flex items-center gap-2 flex-wrap">
+        <div className="inline-flex rounded-lg border bg-card p-0.5">
+          {DEFECT_WINDOWS.map((w) => (
+            <button
+              key={w.days}
+              type="button"
+              onClick={() => setDays(w.days)}
+              className={cn(
+                "px-2.5 py-1 text-[11px] font-medium rounded-md",
+                days === w.days ? "bg-rose-500 text-white" : "text-muted-foreground hover:bg-muted"
+              )}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+        <div className="inline-flex rounded-lg border bg-card p-0.5">
+          {(["endline", "inline", "all"] as CheckPointFilter[]).map((cp) => (
+            <button
+              key={cp}
+              type="button"
+              onClick={() => setCheckPoint(cp)}
+              className={cn(
+                "px-2.5 py-1 text-[11px] font-medium rounded-md",
+                checkPoint === cp ? "bg-rose-500 text-white" : "text-muted-foreground hover:bg-muted"
+              )}
+            >
+              {cp === "all" ? "All checks" : CHECK_POINT_LABEL[cp]}
+            </button>
+          ))}
+        </div>
+        <p className="text-[11px] text-muted-foreground tabular-nums">
+          <span className="font-semibold text-foreground">{summary.defects.toLocaleString()}</span> defects in{" "}
+          <span className="font-semibold text-foreground">{summary.checked.toLocaleString()}</span> pieces · DHU{" "}
+          <span className="font-semibold text-foreground">{summary.dhu ?? "—"}</span>
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-48 bg-muted/40 rounded-xl animate-pulse" />
+          ))}
+        </div>
+      ) : scoped.length === 0 ? (
+        <EmptyHint icon={Bug} text="No defect checks logged in this period." />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <Section icon={Rows3} title="DHU by Line" accent="red">
+              <DhuTable rows={byLine} label="Line" emptyText="No lines checked." />
+            </Section>
+            <Section icon={ListChecks} title="DHU by Operation" accent="amber">
+              <DhuTable rows={byOperation} label="Operation" emptyText="No defects found." />
+            </Section>
+            <Section
+              icon={Activity}
+              title="DHU by Operator"
+              hint="in-line checks"
+              accent="violet"
+            >
+              <DhuTable rows={byOperator} label="Operator" emptyText="No in-line checks with an operator." />
+            </Section>
+          </div>
+
+          <Section
+            icon={TrendingUp}
+            title="Top Defects by PO"
+            accent="indigo"
+            action={
+              <Select value={selectedPO?.id ?? ""} onValueChange={setParetoPO}>
+                <SelectTrigger className="h-8 w-56 text-xs">
+                  <SelectValue placeholder="Select PO" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pos.map((p) => (
+                    <SelectItem key={p.id} value={p.id} className="text-xs">
+                      {p.label} ({p.defects})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            }
+          >
+            {pareto.length === 0 ? (
+              <EmptyHint icon={Sparkles} text="No defects found on this PO." tone="emerald" />
+            ) : (
+              <DefectParetoChart rows={pareto} />
+            )}
+          </Section>
+        </>
+      )}
+    </>
+  );
+}
+
 // ── Sections ─────────────────────────────────────────────────────────
 
 function Section({
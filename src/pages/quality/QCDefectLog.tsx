@@ -0,0 +1,338 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Bug, Edit2, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EmptyState } from "@/components/EmptyState";
+import { cn } from "@/lib/utils";
+import { getCurrentTimeInTimezone, getTodayInTimezone } from "@/lib/date-utils";
+import { dhu } from "@/lib/sewing-hourly";
+import { buildHourSlots, currentShift, currentSlot, rowsForShift, shiftProductionDate } from "@/lib/shifts";
+import { sortByLineName } from "@/lib/sort-lines";
+import { CHECK_POINT_LABEL, checkDefects, dhuSummary } from "@/lib/qc-defects";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { useFactoryShifts } from "@/hooks/useFactoryShifts";
+import { useDefectCatalogue } from "@/hooks/useDefectCatalogue";
+import {
+  deleteDefectCheck,
+  saveDefectCheck,
+  useLineDefectChecks,
+  type DefectCheckInput,
+  type DefectCheckRow,
+} from "@/hooks/useQCDefectChecks";
+import { DefectCheckDialog } from "@/components/quality/DefectCheckDialog";
+
+interface LineOption {
+  id: string;
+  line_id: string;
+  name: string | null;
+}
+
+interface WorkOrderOption {
+  id: string;
+  po_number: string;
+  style: string;
+  line_id: string | null;
+}
+
+export default function QCDefectLog() {
+  const { user, profile, factory } = useAuth();
+  const timezone = factory?.timezone || "Asia/Dhaka";
+  const today = getTodayInTimezone(timezone);
+
+  const [loading, setLoading] = useState(true);
+  const [lines, setLines] = useState<LineOption[]>([]);
+  const [workOrders, setWorkOrders] = useState<WorkOrderOption[]>([]);
+  const [lineId, setLineId] = useState("");
+  const [workOrderId, setWorkOrderId] = useState("");
+  const [date, setDate] = useState(today);
+  const [shiftKey, setShiftKey] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<DefectCheckRow | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const { rows, loading: checksLoading, refetch } = useLineDefectChecks({ lineId, workOrderId, date });
+  const { activeTypes } = useDefectCatalogue();
+  const { activeShifts, isLoading: shiftsLoading } = useFactoryShifts();
+  const keyOf = (s: { id: string | null }) => s.id ?? "default";
+
+  // Open on the running shift, like the hourly board
+  const initialised = useRef(false);
+  useEffect(() => {
+    if (shiftsLoading || initialised.current) return;
+    initialised.current = true;
+    const clock = getCurrentTimeInTimezone(timezone);
+    const running = currentShift(activeShifts, clock.getHours(), clock.getMinutes());
+    if (!running) return;
+    setShiftKey(keyOf(running));
+    setDate(shiftProductionDate(running, today, clock.getHours(), clock.getMinutes()));
+  }, [shiftsLoading, activeShifts, timezone, today]);
+
+  useEffect(() => {
+    const factoryId = profile?.factory_id;
+    if (!factoryId) return;
+    (async () => {
+      try {
+        const [linesRes, woRes] = await Promise.all([
+          supabase.from("lines").select("id, line_id, name").eq("factory_id", factoryId).eq("is_active", true),
+          supabase.from("work_orders").select("id, po_number, style, line_id").eq("factory_id", factoryId).eq("is_active", true),
+        ]);
+        setLines(sortByLineName(linesRes.data || [], (l) => l.name || l.line_id));
+        setWorkOrders(woRes.data || []);
+      } catch (error) {
+        console.error("Error loading defect log:", error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [profile?.factory_id]);
+
+  const lineWorkOrders = useMemo(
+    () => workOrders.filter((wo) => !lineId || wo.line_id === lineId || !wo.line_id),
+    [workOrders, lineId],
+  );
+
+  const shift = activeShifts.find((s) => keyOf(s) === shiftKey) ?? activeShifts[0];
+  const hourSlots = useMemo(() => buildHourSlots(shift), [shift]);
+  const shiftChecks = rowsForShift(rows, shift, activeShifts);
+  const slotIndex = new Map(hourSlots.map((s, i) => [s.key, i]));
+  const bySlot = hourSlots
+    .map((s) => ({ slot: s, checks: shiftChecks.filter((c) => c.hour_slot === s.key) }))
+    .filter((g) => g.checks.length > 0)
+    .reverse();
+  const orphaned = shiftChecks.filter((c) => !slotIndex.has(c.hour_slot));
+
+  const clock = getCurrentTimeInTimezone(timezone);
+  const defaultSlot =
+    (date === today ? currentSlot(hourSlots, clock.getHours() * 60 + clock.getMinutes())?.key : undefined) ??
+    hourSlots[0]?.key ??
+    "";
+
+  const inline = dhuSummary(shiftChecks.filter((c) => c.check_point === "inline"));
+  const endline = dhuSummary(shiftChecks.filter((c) => c.check_point === "endline"));
+
+  const openDialog = (check: DefectCheckRow | null) => {
+    setEditing(check);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (input: DefectCheckInput) => {
+    const factoryId = profile?.factory_id;
+    if (!factoryId || !user) return;
+    setSaving(true);
+    try {
+      await saveDefectCheck({
+        id: editing?.id,
+        factoryId,
+        lineId,
+        workOrderId,
+        date,
+        shiftId: shift.id,
+        input,
+      });
+      toast.success("Check saved");
+      setDialogOpen(false);
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save check");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (check: DefectCheckRow) => {
+    try {
+      await deleteDefectCheck(check.id);
+      toast.success("Check removed");
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove check");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[50vh] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const kpis = [
+    { label: "Pieces checked", value: (inline.checked + endline.checked).toLocaleString(), cls: "text-foreground" },
+    { label: "Defects", value: (inline.defects + endline.defects).toLocaleString(), cls: "text-red-600 dark:text-red-400" },
+    { label: "In-line DHU", value: inline.dhu != null ? String(inline.dhu) : "—", cls: "text-foreground" },
+    { label: "End-line DHU", value: endline.dhu != null ? String(endline.dhu) : "—", cls: "text-foreground" },
+  ];
+
+  const renderCheck = (c: DefectCheckRow) => {
+    const defects = checkDefects(c);
+    return (
+      <div key={c.id} className="flex items-start gap-3 px-4 py-2.5">
+        <span
+          className={cn(
+            "mt-0.5 inline-flex shrink-0 items-center rounded-md px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide",
+            c.check_point === "inline"
+              ? "bg-violet-100 text-violet-700 dark:bg-violet-500/20 dark:text-violet-300"
+              : "bg-sky-100 text-sky-700 dark:bg-sky-500/20 dark:text-sky-300"
+          )}
+        >
+          {CHECK_POINT_LABEL[c.check_point]}
+        </span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm">
+            {c.operator_name && <span className="font-medium">{c.operator_name} · </span>}
+            <span className="tabular-nums">{c.pieces_checked} checked</span>
+            {" · "}
+            <span className={cn("tabular-nums", defects > 0 && "text-red-600 dark:text-red-400 font-medium")}>
+              {defects} defect{defects !== 1 ? "s" : ""}
+            </span>
+          </p>
+          {c.items.length > 0 && (
+            <p className="text-[11px] text-muted-foreground truncate">
+              {c.items.map((i) => `${i.defect_name} ×${i.quantity}`).join(", ")}
+            </p>
+          )}
+        </div>
+        <span className="font-mono text-sm tabular-nums shrink-0">{dhu(defects, c.pieces_checked)}</span>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(c)}>
+          <Edit2 className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(c)}>
+          <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      {/* ── Header ───────────────────────────────────────────────────── */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-start gap-4 min-w-0">
+          <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-rose-500 to-red-600 flex items-center justify-center shadow-lg shadow-rose-500/25 shrink-0">
+            <Bug className="h-6 w-6 text-white" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-[11px] font-semibold uppercase tracking-[0.14em] text-rose-600 dark:text-rose-400">
+              Quality Control
+            </p>
+            <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Defect Log</h1>
+            <p className="text-sm text-muted-foreground mt-1 max-w-xl">
+              In-line and end-line checks per line and hour, counted against the factory defect catalogue.
+            </p>
+          </div>
+        </div>
+        <Button
+          onClick={() => openDialog(null)}
+          disabled={!lineId || !workOrderId}
+          className="gap-1.5 shrink-0 w-full sm:w-auto bg-gradient-to-r from-rose-500 to-red-600 hover:from-rose-600 hover:to-red-700 shadow-md shadow-rose-500/25 text-white"
+        >
+          <Plus className="h-4 w-4" />
+          Log check
+        </Button>
+      </div>
+
+      {/* ── Filters ──────────────────────────────────────────────────── */}
+      <div className="rounded-xl border border-border/60 bg-card p-4 shadow-sm grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">Line</Label>
+          <Select value={lineId} onValueChange={(v) => { setLineId(v); setWorkOrderId(""); }}>
+            <SelectTrigger className="h-10"><SelectValue placeholder="Select line" /></SelectTrigger>
+            <SelectContent>
+              {lines.map((l) => <SelectItem key={l.id} value={l.id}>{l.name || l.line_id}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">PO</Label>
+          <Select value={workOrderId} onValueChange={setWorkOrderId} disabled={!lineId}>
+            <SelectTrigger className="h-10"><SelectValue placeholder="Select PO" /></SelectTrigger>
+            <SelectContent>
+              {lineWorkOrders.map((wo) => (
+                <SelectItem key={wo.id} value={wo.id}>{wo.po_number} - {wo.style}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">Date</Label>
+          <Input type="date" value={date} max={today} onChange={(e) => setDate(e.target.value || today)} className="h-10" />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs font-medium">Shift</Label>
+          <Select value={keyOf(shift)} onValueChange={setShiftKey} disabled={activeShifts.length < 2}>
+            <SelectTrigger className="h-10"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {activeShifts.map((s) => (
+                <SelectItem key={keyOf(s)} value={keyOf(s)}>{s.name} ({s.start_time}–{s.end_time})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!lineId || !workOrderId ? (
+        <EmptyState icon={Bug} title="Pick a line and PO" description="Checks are logged per line, PO and hour." />
+      ) : checksLoading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {kpis.map((k) => (
+              <div key={k.label} className="rounded-xl border border-border/50 bg-card px-4 py-3">
+                <p className="text-[11px] text-muted-foreground font-medium">{k.label}</p>
+                <p className={cn("text-xl font-bold font-mono tabular-nums", k.cls)}>{k.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {bySlot.length === 0 && orphaned.length === 0 ? (
+            <p className="rounded-xl border border-dashed px-4 py-8 text-center text-sm text-muted-foreground">
+              No checks logged for this shift yet.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {bySlot.map(({ slot, checks }) => {
+                const s = dhuSummary(checks);
+                return (
+                  <div key={slot.key} className="rounded-xl border border-border/50 bg-card overflow-hidden">
+                    <div className="flex items-center justify-between px-4 py-2 bg-muted/40 border-b">
+                      <p className="text-sm font-semibold font-mono">{slot.key}</p>
+                      <p className="text-xs text-muted-foreground tabular-nums">
+                        {s.defects} / {s.checked} · DHU <span className="font-semibold text-foreground">{s.dhu ?? "—"}</span>
+                      </p>
+                    </div>
+                    <div className="divide-y">{checks.map(renderCheck)}</div>
+                  </div>
+                );
+              })}
+              {orphaned.length > 0 && (
+                <div className="rounded-xl border border-border/50 bg-card overflow-hidden">
+                  <div className="px-4 py-2 bg-muted/40 border-b text-sm font-semibold">Other hours</div>
+                  <div className="divide-y">{orphaned.map(renderCheck)}</div>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      <DefectCheckDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        hourSlots={hourSlots}
+        defaultSlot={defaultSlot}
+        check={editing}
+        defectTypes={activeTypes}
+        submitting={saving}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
@@ -30,6 +30,7 @@ import { Badge } from "@/components/ui/badge";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { cn } from "@/lib/utils";
 import { formatShortDate } from "@/lib/date-utils";
+import { stripSectionPrefix } from "@/lib/qc-templates";
 import { useAuth } from "@/contexts/AuthContext";
 import {
   useQCOrderTracker,
@@ -41,6 +42,7 @@ import {
   type TrackerStatus,
 } from "@/hooks/useQCOrderTrackers";
 import { TrackerItemRow } from "@/components/quality/TrackerItemRow";
+import { MeasurementChecksSection } from "@/components/quality/MeasurementChecksSection";
 import { SECTION_PALETTE } from "@/components/quality/section-palette";
 import { DetailCell } from "@/components/quality/detail-cell";
 import { downloadSingleTrackerPDF } from "@/lib/qc-pdf";
@@ -457,7 +459,7 @@ export default function QCOrderManagerDetail() {
                   <h2 className="text-sm md:text-base font-bold text-white uppercase tracking-wide truncate">
                     {/* Strip any leading "PHASE N —" / "SECTION N —" the template label
                         already carries, otherwise we render the phase number twice. */}
-                    {g.label.replace(/^(PHASE|SECTION)\s+\d+\s*[—\-:]\s*/i, "")}
+                    {stripSectionPrefix(g.label)}
                   </h2>
                 </div>
                 <div className="flex items-center gap-2 sm:gap-2.5 text-[11px] shrink-0 font-mono tabular-nums flex-wrap">
@@ -506,6 +508,15 @@ export default function QCOrderManagerDetail() {
           );
         })}
       </div>
+
+      <MeasurementChecksSection
+        sourceType="order_tracker"
+        sourceId={data.id}
+        factoryId={data.factory_id}
+        workOrderId={data.work_order_id}
+        style={data.style}
+        disabled={isLocked}
+      />
     </div>
   );
 }
@@ -0,0 +1,436 @@
+import { useEffect, useState } from "react";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import { ArrowLeft, Loader2, Plus, Ruler, Save, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { MEASURE_UNITS, formatMeasure, parseMeasure, type MeasureUnit, type SpecPoint } from "@/lib/measurements";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useQCSpecSheet,
+  saveSpecSheet,
+  deleteSpecSheet,
+  type SpecSheetDetail,
+  type SpecSheetInput,
+} from "@/hooks/useQCMeasurements";
+
+/** Editable copy of a point — values stay as typed until save so fractions work */
+interface DraftPoint {
+  key: string;
+  code: string;
+  name: string;
+  tol_minus: string;
+  tol_plus: string;
+  specs: Record<string, string>;
+}
+
+let draftSeq = 0;
+const nextKey = () => `p${++draftSeq}`;
+
+function toDraft(points: SpecSheetDetail["points"]): DraftPoint[] {
+  return points.map((p) => ({
+    key: nextKey(),
+    code: p.code,
+    name: p.name,
+    tol_minus: formatMeasure(p.tol_minus),
+    tol_plus: formatMeasure(p.tol_plus),
+    specs: Object.fromEntries(Object.entries(p.specs).map(([size, v]) => [size, formatMeasure(v)])),
+  }));
+}
+
+/** Draft rows → spec points, or the first problem found */
+function fromDraft(draft: DraftPoint[], sizes: string[]): { points: SpecPoint[] } | { error: string } {
+  const points: SpecPoint[] = [];
+  const codes = new Set<string>();
+  for (const [idx, d] of draft.entries()) {
+    const label = d.name.trim() || `Row ${idx + 1}`;
+    if (!d.name.trim()) return { error: `Row ${idx + 1} needs a description.` };
+    const code = d.code.trim() || String(idx + 1);
+    if (codes.has(code)) return { error: `Code ${code} is used twice.` };
+    codes.add(code);
+    const tolMinus = parseMeasure(d.tol_minus);
+    const tolPlus = parseMeasure(d.tol_plus);
+    if (tolMinus == null || tolPlus == null) return { error: `${label}: tolerance is not a number.` };
+    const specs: Record<string, number> = {};
+    for (const size of sizes) {
+      const raw = d.specs[size]?.trim();
+      if (!raw) continue;
+      const value = parseMeasure(raw);
+      if (value == null) return { error: `${label}: "${raw}" is not a measurement for ${size}.` };
+      specs[size] = value;
+    }
+    if (Object.keys(specs).length === 0) return { error: `${label}: enter a measurement for at least one size.` };
+    points.push({ code, name: d.name.trim(), tol_minus: Math.abs(tolMinus), tol_plus: Math.abs(tolPlus), specs });
+  }
+  return { points };
+}
+
+export default function QCSpecSheetDetail() {
+  const { specId } = useParams<{ specId: string }>();
+  const navigate = useNavigate();
+  const { isQCUser, isAdminOrHigher } = useAuth();
+  const canEdit = isQCUser() || isAdminOrHigher();
+  const { data, loading, error, refetch } = useQCSpecSheet(specId);
+
+  const [header, setHeader] = useState<SpecSheetInput | null>(null);
+  const [draft, setDraft] = useState<DraftPoint[]>([]);
+  const [newSize, setNewSize] = useState("");
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false);
+
+  useEffect(() => {
+    if (!data) return;
+    setHeader({
+      style: data.style,
+      buyer: data.buyer,
+      name: data.name,
+      unit: data.unit,
+      sizes: data.sizes,
+      notes: data.notes,
+      is_active: data.is_active,
+    });
+    setDraft(toDraft(data.points));
+    setDirty(false);
+  }, [data]);
+
+  if (loading && !data) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data || !header) {
+    return (
+      <div className="py-10 text-center">
+        <p className="text-sm text-muted-foreground mb-4">{error ?? "Spec sheet not found"}</p>
+        <Button variant="outline" onClick={() => navigate("/quality/specs")}>
+          Back to list
+        </Button>
+      </div>
+    );
+  }
+
+  function patchHeader(patch: Partial<SpecSheetInput>) {
+    setHeader((h) => (h ? { ...h, ...patch } : h));
+    setDirty(true);
+  }
+
+  function patchPoint(key: string, patch: Partial<DraftPoint>) {
+    setDraft((rows) => rows.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+    setDirty(true);
+  }
+
+  function addSize() {
+    const size = newSize.trim();
+    if (!size || !header) return;
+    if (header.sizes.some((s) => s.toLowerCase() === size.toLowerCase())) {
+      toast.error(`Size ${size} is already on the sheet`);
+      return;
+    }
+    patchHeader({ sizes: [...header.sizes, size] });
+    setNewSize("");
+  }
+
+  function removeSize(size: string) {
+    if (!header) return;
+    patchHeader({ sizes: header.sizes.filter((s) => s !== size) });
+    setDraft((rows) =>
+      rows.map((r) => {
+        const { [size]: _dropped, ...rest } = r.specs;
+        return { ...r, specs: rest };
+      })
+    );
+  }
+
+  async function handleSave() {
+    if (!data || !header) return;
+    if (!header.style.trim() || !header.name.trim()) {
+      toast.error("Style and spec name are required");
+      return;
+    }
+    if (header.sizes.length === 0) {
+      toast.error("Add at least one size");
+      return;
+    }
+    const parsed = fromDraft(draft, header.sizes);
+    if ("error" in parsed) {
+      toast.error(parsed.error);
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveSpecSheet({ id: data.id, factoryId: data.factory_id, input: header, points: parsed.points });
+      toast.success("Spec sheet saved");
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!data) return;
+    setSaving(true);
+    try {
+      await deleteSpecSheet(data.id);
+      toast.success("Spec sheet deleted");
+      navigate("/quality/specs");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete");
+    } finally {
+      setSaving(false);
+      setConfirmDeleteOpen(false);
+    }
+  }
+
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+  const cellCls = "h-10 text-sm font-mono tabular-nums text-center px-1.5";
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5">
+      <div>
+        <Link
+          to="/quality/specs"
+          className="inline-flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Back to measurement specs
+        </Link>
+      </div>
+
+      {/* ── Action bar ──────────────────────────────────────────────── */}
+      {canEdit && (
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <Button size="sm" className="gap-1.5" onClick={handleSave} disabled={saving || !dirty}>
+            {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
+            Save changes
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1.5 text-destructive hover:text-destructive border-destructive/30 hover:bg-destructive/10"
+            onClick={() => setConfirmDeleteOpen(true)}
+            disabled={saving}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+            Delete
+          </Button>
+        </div>
+      )}
+
+      {/* ── Page title ─────────────────────────────────────────────── */}
+      <div className="flex items-center gap-3 min-w-0">
+        <div className="h-11 w-11 rounded-xl bg-gradient-to-br from-teal-500 to-emerald-600 flex items-center justify-center shadow-lg shadow-teal-500/25 shrink-0">
+          <Ruler className="h-5 w-5 text-white" />
+        </div>
+        <div className="min-w-0">
+          <p className="text-[10px] font-semibold uppercase tracking-[0.14em] text-teal-600 dark:text-teal-400">
+            Measurement Spec · {data.style}
+          </p>
+          <h1 className="text-xl md:text-2xl font-bold tracking-tight truncate">{data.name}</h1>
+        </div>
+      </div>
+
+      {/* ── Sheet details ──────────────────────────────────────────── */}
+      <div className="rounded-xl border border-border/60 bg-card p-4 shadow-sm space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Style</Label>
+            <Input value={header.style} onChange={(e) => patchHeader({ style: e.target.value })} disabled={!canEdit} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Buyer</Label>
+            <Input
+              value={header.buyer ?? ""}
+              onChange={(e) => patchHeader({ buyer: e.target.value || null })}
+              disabled={!canEdit}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Name</Label>
+            <Input value={header.name} onChange={(e) => patchHeader({ name: e.target.value })} disabled={!canEdit} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Unit</Label>
+            <Select value={header.unit} onValueChange={(v) => patchHeader({ unit: v as MeasureUnit })} disabled={!canEdit}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {MEASURE_UNITS.map((u) => <SelectItem key={u} value={u}>{u}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex flex-col md:flex-row gap-3">
+          <div className="space-y-1.5 flex-1">
+            <Label className={labelCls}>Notes</Label>
+            <Textarea
+              value={header.notes ?? ""}
+              onChange={(e) => patchHeader({ notes: e.target.value || null })}
+              disabled={!canEdit}
+              rows={2}
+              placeholder="How to measure, buyer remarks…"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm md:self-end md:pb-2">
+            <Switch checked={header.is_active} onCheckedChange={(v) => patchHeader({ is_active: v })} disabled={!canEdit} />
+            Active — offered for new checks
+          </label>
+        </div>
+      </div>
+
+      {/* ── Points × sizes ─────────────────────────────────────────── */}
+      <div className="rounded-xl border border-border/60 bg-card shadow-sm overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2.5 border-b bg-muted/40">
+          <h2 className="text-sm font-semibold">
+            Points of measure <span className="text-muted-foreground font-normal">({header.unit})</span>
+          </h2>
+          {canEdit && (
+            <div className="flex items-center gap-2">
+              <Input
+                value={newSize}
+                onChange={(e) => setNewSize(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addSize()}
+                placeholder="New size"
+                className="h-8 w-28"
+              />
+              <Button size="sm" variant="outline" className="h-8 gap-1" onClick={addSize} disabled={!newSize.trim()}>
+                <Plus className="h-3.5 w-3.5" />
+                Size
+              </Button>
+            </div>
+          )}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                <th className="px-2 py-2 text-left font-medium w-16">Code</th>
+                <th className="px-2 py-2 text-left font-medium min-w-[12rem]">Description</th>
+                <th className="px-1 py-2 text-center font-medium w-16">Tol −</th>
+                <th className="px-1 py-2 text-center font-medium w-16">Tol +</th>
+                {header.sizes.map((size) => (
+                  <th key={size} className="px-1 py-2 text-center font-medium w-20">
+                    <span className="inline-flex items-center gap-0.5">
+                      {size}
+                      {canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => removeSize(size)}
+                          className="text-muted-foreground/60 hover:text-destructive"
+                          aria-label={`Remove size ${size}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </span>
+                  </th>
+                ))}
+                {canEdit && <th className="w-10" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {draft.map((p) => (
+                <tr key={p.key}>
+                  <td className="px-2 py-1">
+                    <Input value={p.code} onChange={(e) => patchPoint(p.key, { code: e.target.value })} disabled={!canEdit} className={cellCls} />
+                  </td>
+                  <td className="px-2 py-1">
+                    <Input value={p.name} onChange={(e) => patchPoint(p.key, { name: e.target.value })} disabled={!canEdit} className="h-10 text-sm" />
+                  </td>
+                  <td className="px-1 py-1">
+                    <Input
+                      value={p.tol_minus}
+                      onChange={(e) => patchPoint(p.key, { tol_minus: e.target.value })}
+                      disabled={!canEdit}
+                      inputMode="decimal"
+                      className={cellCls}
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <Input
+                      value={p.tol_plus}
+                      onChange={(e) => patchPoint(p.key, { tol_plus: e.target.value })}
+                      disabled={!canEdit}
+                      inputMode="decimal"
+                      className={cellCls}
+                    />
+                  </td>
+                  {header.sizes.map((size) => (
+                    <td key={size} className="px-1 py-1">
+                      <Input
+                        value={p.specs[size] ?? ""}
+                        onChange={(e) => patchPoint(p.key, { specs: { ...p.specs, [size]: e.target.value } })}
+                        disabled={!canEdit}
+                        inputMode="decimal"
+                        className={cellCls}
+                      />
+                    </td>
+                  ))}
+                  {canEdit && (
+                    <td className="px-1 py-1 text-center">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => {
+                          setDraft((rows) => rows.filter((r) => r.key !== p.key));
+                          setDirty(true);
+                        }}
+                        aria-label={`Remove ${p.name || "point"}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {canEdit && (
+          <div className="px-4 py-2.5 border-t">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="gap-1.5"
+              onClick={() => {
+                setDraft((rows) => [
+                  ...rows,
+                  { key: nextKey(), code: String(rows.length + 1), name: "", tol_minus: "", tol_plus: "", specs: {} },
+                ]);
+                setDirty(true);
+              }}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              Add point of measure
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        Edits apply to new checks only. Checks already taken keep the spec they were measured against.
+      </p>
+
+      <ConfirmDialog
+        open={confirmDeleteOpen}
+        onOpenChange={setConfirmDeleteOpen}
+        title="Delete this spec sheet?"
+        description={`This will permanently delete "${data.name}" for style ${data.style}. Measurement checks already taken against it are kept.`}
+        confirmLabel="Delete spec sheet"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+}
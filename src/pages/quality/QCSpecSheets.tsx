@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Ruler, Search, Upload, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatShortDate } from "@/lib/date-utils";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { useQCSpecSheets, saveSpecSheet, type SpecSheetInput } from "@/hooks/useQCMeasurements";
+import { SpecSheetImportDialog } from "@/components/quality/SpecSheetImportDialog";
+import type { SpecPoint } from "@/lib/measurements";
+
+type FilterTab = "active" | "inactive" | "all";
+
+const TAB_META: Record<FilterTab, string> = {
+  active: "Active",
+  inactive: "Inactive",
+  all: "All",
+};
+
+export default function QCSpecSheets() {
+  const navigate = useNavigate();
+  const { profile, isQCUser, isAdminOrHigher } = useAuth();
+  const canEdit = isQCUser() || isAdminOrHigher();
+  const { rows, loading, refetch } = useQCSpecSheets();
+  const [search, setSearch] = useState("");
+  const [tab, setTab] = useState<FilterTab>("active");
+  const [importOpen, setImportOpen] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [styles, setStyles] = useState<string[]>([]);
+
+  // PO styles for the import dialog's suggestions
+  useEffect(() => {
+    const factoryId = profile?.factory_id;
+    if (!factoryId) return;
+    (async () => {
+      const { data } = await supabase
+        .from("work_orders")
+        .select("style")
+        .eq("factory_id", factoryId)
+        .eq("is_active", true);
+      setStyles(Array.from(new Set((data || []).map((w) => w.style).filter(Boolean))).sort());
+    })();
+  }, [profile?.factory_id]);
+
+  const counts = useMemo(() => {
+    const active = rows.filter((r) => r.is_active).length;
+    return { active, inactive: rows.length - active, all: rows.length } as Record<FilterTab, number>;
+  }, [rows]);
+
+  const filtered = useMemo(() => {
+    let list = rows;
+    if (tab !== "all") list = list.filter((r) => r.is_active === (tab === "active"));
+    if (search) {
+      const q = search.toLowerCase();
+      list = list.filter(
+        (r) =>
+          r.style.toLowerCase().includes(q) ||
+          r.name.toLowerCase().includes(q) ||
+          (r.buyer ?? "").toLowerCase().includes(q)
+      );
+    }
+    return list;
+  }, [rows, tab, search]);
+
+  async function handleImport(data: { input: SpecSheetInput; points: SpecPoint[] }) {
+    const factoryId = profile?.factory_id;
+    if (!factoryId) return;
+    setImporting(true);
+    try {
+      const id = await saveSpecSheet({ factoryId, input: data.input, points: data.points });
+      toast.success(`Imported ${data.points.length} points of measure`);
+      setImportOpen(false);
+      navigate(`/quality/specs/${id}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to import");
+      refetch();
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      {/* ── Header ───────────────────────────────────────────────────── */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-start gap-4 min-w-0">
+          <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-teal-500 to-emerald-600 flex items-center justify-center shadow-lg shadow-teal-500/25 shrink-0">
+            <Ruler className="h-6 w-6 text-white" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-[11px] font-semibold uppercase tracking-[0.14em] text-teal-600 dark:text-teal-400">
+              Quality Control
+            </p>
+            <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Measurement Specs</h1>
+            <p className="text-sm text-muted-foreground mt-1 max-w-xl">
+              Points of measure per style with the target for each size and its −/+ tolerance.
+              Inspectors measure samples against these on daily sheets and order trackers.
+            </p>
+          </div>
+        </div>
+        {canEdit && (
+          <Button
+            onClick={() => setImportOpen(true)}
+            className="gap-1.5 shrink-0 w-full sm:w-auto bg-gradient-to-r from-teal-500 to-emerald-600 hover:from-teal-600 hover:to-emerald-700 shadow-md shadow-teal-500/25 text-white"
+          >
+            <Upload className="h-4 w-4" />
+            Import CSV
+          </Button>
+        )}
+      </div>
+
+      {/* ── Filter bar ─────────────────────────────────────────────── */}
+      <div className="rounded-xl border border-border/60 bg-card p-3 shadow-sm">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+          <div className="relative flex-1 max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by style, spec name or buyer…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 h-9"
+            />
+          </div>
+          <div className="flex flex-wrap gap-1 lg:ml-auto">
+            {(Object.keys(TAB_META) as FilterTab[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setTab(key)}
+                className={cn(
+                  "inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors text-muted-foreground hover:text-foreground hover:bg-muted/60",
+                  tab === key && "bg-muted text-foreground shadow-sm"
+                )}
+              >
+                {TAB_META[key]}
+                <span className="text-[10px] tabular-nums font-mono text-muted-foreground/70">{counts[key]}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* ── Spec sheets ──────────────────────────────────────────────── */}
+      {loading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map((i) => (
+            <div key={i} className="h-12 bg-muted/40 rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : filtered.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border/60 bg-card/40 py-16 text-center">
+          <div className="inline-flex h-12 w-12 rounded-xl items-center justify-center mx-auto mb-3 bg-gradient-to-br from-teal-500/15 to-emerald-500/15 ring-1 ring-teal-500/20">
+            <Sparkles className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+          </div>
+          <p className="text-sm font-medium">
+            {rows.length === 0 ? "No spec sheets yet." : "No spec sheets match this filter."}
+          </p>
+          {rows.length === 0 && canEdit && (
+            <Button onClick={() => setImportOpen(true)} size="sm" className="mt-3 gap-1.5">
+              <Upload className="h-3.5 w-3.5" />
+              Import the buyer's spec
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="rounded-xl border border-border/60 bg-card shadow-sm overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Style</TableHead>
+                <TableHead>Spec</TableHead>
+                <TableHead className="hidden md:table-cell">Sizes</TableHead>
+                <TableHead className="text-right">Points</TableHead>
+                <TableHead className="hidden lg:table-cell">Updated</TableHead>
+                <TableHead className="text-right">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((r) => (
+                <TableRow
+                  key={r.id}
+                  className="cursor-pointer hover:bg-muted/40"
+                  onClick={() => navigate(`/quality/specs/${r.id}`)}
+                >
+                  <TableCell className="min-w-0 max-w-[220px]">
+                    <p className="text-xs font-mono font-semibold truncate">{r.style}</p>
+                    {r.buyer && <p className="text-[11px] text-muted-foreground truncate">{r.buyer}</p>}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {r.name}
+                    <span className="ml-1.5 text-muted-foreground">({r.unit})</span>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground hidden md:table-cell">
+                    {r.sizes.join(", ") || "—"}
+                  </TableCell>
+                  <TableCell className="text-right font-mono tabular-nums text-xs">{r.points_count}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground hidden lg:table-cell">
+                    {formatShortDate(r.updated_at)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={r.is_active ? "default" : "secondary"} className="text-[10px]">
+                      {r.is_active ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <SpecSheetImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        styles={styles}
+        onSubmit={handleImport}
+        isPending={importing}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,498 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  FilePen,
+  LayoutList,
+  Loader2,
+  Plus,
+  Rocket,
+  Save,
+  Trash2,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { cn } from "@/lib/utils";
+import { formatShortDate } from "@/lib/date-utils";
+import {
+  TEMPLATE_ADMIN_PATH,
+  TEMPLATE_KIND_LABEL,
+  compareTemplates,
+  itemsFromSections,
+  moveEntry,
+  sectionsFromItems,
+  validateSections,
+  type TemplateItemDraft,
+  type TemplateSectionDraft,
+} from "@/lib/qc-templates";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useQCTemplate,
+  createTemplateDraft,
+  saveTemplateDraft,
+  publishTemplate,
+  discardTemplateDraft,
+  type TemplateHeaderInput,
+} from "@/hooks/useQCTemplates";
+import { SECTION_PALETTE } from "@/components/quality/section-palette";
+
+let draftSeq = 0;
+const nextKey = () => `t${++draftSeq}`;
+
+const newItem = (): TemplateItemDraft => ({ key: nextKey(), label: "", guidance: "", required: false });
+
+export default function QCTemplateEditor() {
+  const { templateId } = useParams<{ templateId: string }>();
+  const navigate = useNavigate();
+  const { user, profile } = useAuth();
+  const { data, loading, error, refetch } = useQCTemplate(templateId);
+
+  const [header, setHeader] = useState<TemplateHeaderInput | null>(null);
+  const [sections, setSections] = useState<TemplateSectionDraft[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [confirmPublishOpen, setConfirmPublishOpen] = useState(false);
+  const [confirmDiscardOpen, setConfirmDiscardOpen] = useState(false);
+
+  useEffect(() => {
+    if (!data) return;
+    setHeader({ name: data.name, buyer: data.buyer, change_note: data.change_note });
+    setSections(sectionsFromItems(data.items));
+    setDirty(false);
+  }, [data]);
+
+  const isDraft = data?.status === "draft";
+  const errors = useMemo(() => validateSections(sections), [sections]);
+  const changes = useMemo(
+    () => (data?.previous ? compareTemplates(data.previous.items, itemsFromSections(data.kind, sections)) : null),
+    [data, sections]
+  );
+  const itemCount = sections.reduce((n, s) => n + s.items.length, 0);
+  const requiredCount = sections.reduce((n, s) => n + s.items.filter((i) => i.required).length, 0);
+
+  if (loading && !data) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data || !header) {
+    return (
+      <div className="py-10 text-center">
+        <p className="text-sm text-muted-foreground mb-4">{error ?? "Template not found"}</p>
+        <Button variant="outline" onClick={() => navigate("/quality/admin/sheets")}>
+          Back to review
+        </Button>
+      </div>
+    );
+  }
+
+  const basePath = TEMPLATE_ADMIN_PATH[data.kind];
+  const labelCls = "text-[11px] font-semibold text-muted-foreground uppercase tracking-wide";
+
+  function patchHeader(patch: Partial<TemplateHeaderInput>) {
+    setHeader((h) => (h ? { ...h, ...patch } : h));
+    setDirty(true);
+  }
+
+  function patchSections(update: (prev: TemplateSectionDraft[]) => TemplateSectionDraft[]) {
+    setSections(update);
+    setDirty(true);
+  }
+
+  function patchSection(key: string, update: (s: TemplateSectionDraft) => TemplateSectionDraft) {
+    patchSections((prev) => prev.map((s) => (s.key === key ? update(s) : s)));
+  }
+
+  function patchItem(sectionKey: string, itemKey: string, patch: Partial<TemplateItemDraft>) {
+    patchSection(sectionKey, (s) => ({
+      ...s,
+      items: s.items.map((i) => (i.key === itemKey ? { ...i, ...patch } : i)),
+    }));
+  }
+
+  /** Saves the draft; returns false (after telling the user why) when it can't be saved. */
+  async function save(): Promise<boolean> {
+    if (!data || !header) return false;
+    if (!header.name.trim()) {
+      toast.error("Give the template a name");
+      return false;
+    }
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return false;
+    }
+    await saveTemplateDraft(data.id, header, itemsFromSections(data.kind, sections));
+    setDirty(false);
+    return true;
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      if (await save()) {
+        toast.success("Draft saved");
+        refetch();
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handlePublish() {
+    if (!data) return;
+    setSaving(true);
+    try {
+      if (dirty && !(await save())) return;
+      await publishTemplate(data.id, header?.change_note ?? null);
+      toast.success(`Version ${data.version} published`);
+      navigate(basePath);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to publish");
+      refetch();
+    } finally {
+      setSaving(false);
+      setConfirmPublishOpen(false);
+    }
+  }
+
+  async function handleDiscard() {
+    if (!data) return;
+    try {
+      await discardTemplateDraft(data.id);
+      toast.success("Draft discarded");
+      navigate(basePath);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to discard");
+    } finally {
+      setConfirmDiscardOpen(false);
+    }
+  }
+
+  async function handleNewVersion() {
+    const factoryId = profile?.factory_id;
+    if (!data || !factoryId || !user?.id) return;
+    setSaving(true);
+    try {
+      const id = await createTemplateDraft({ sourceId: data.id, factoryId, userId: user.id });
+      navigate(`${basePath}/${id}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to open a draft");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const changeSummary = changes
+    ? [
+        changes.added && `${changes.added} added`,
+        changes.removed && `${changes.removed} removed`,
+        changes.edited && `${changes.edited} changed`,
+      ]
+        .filter(Boolean)
+        .join(", ") || "no item changes"
+    : null;
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5">
+      <div>
+        <Link
+          to={basePath}
+          className="inline-flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          Back to templates
+        </Link>
+      </div>
+
+      {/* ── Action bar ──────────────────────────────────────────────── */}
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {isDraft ? (
+          <>
+            <Button size="sm" variant="outline" className="gap-1.5" onClick={handleSave} disabled={saving || !dirty}>
+              {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
+              Save draft
+            </Button>
+            <Button
+              size="sm"
+              className="gap-1.5"
+              onClick={() => setConfirmPublishOpen(true)}
+              disabled={saving || errors.length > 0}
+              title={errors[0] ?? ""}
+            >
+              <Rocket className="h-3.5 w-3.5" />
+              Publish v{data.version}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-1.5 text-destructive hover:text-destructive border-destructive/30 hover:bg-destructive/10"
+              onClick={() => setConfirmDiscardOpen(true)}
+              disabled={saving}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+              Discard draft
+            </Button>
+          </>
+        ) : (
+          <Button size="sm" className="gap-1.5" onClick={handleNewVersion} disabled={saving}>
+            {saving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <FilePen className="h-3.5 w-3.5" />}
+            {data.factory_id === null ? "Customise" : "Edit as new version"}
+          </Button>
+        )}
+      </div>
+
+      {/* ── Page title ─────────────────────────────────────────────── */}
+      <div className="flex items-center gap-3 min-w-0">
+        <div className="h-11 w-11 rounded-xl bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center shadow-lg shadow-blue-500/25 shrink-0">
+          <LayoutList className="h-5 w-5 text-white" />
+        </div>
+        <div className="min-w-0">
+          <p className="text-[10px] font-semibold uppercase tracking-[0.14em] text-blue-600 dark:text-blue-400">
+            {TEMPLATE_KIND_LABEL[data.kind]} Template · v{data.version}
+          </p>
+          <h1 className="text-xl md:text-2xl font-bold tracking-tight truncate">{data.name}</h1>
+        </div>
+        <Badge variant={data.is_active ? "default" : "secondary"} className="text-[10px] capitalize ml-auto shrink-0">
+          {data.is_active ? "Live" : data.status}
+        </Badge>
+      </div>
+
+      {!isDraft && (
+        <p className="rounded-lg border border-border/60 bg-muted/30 px-3 py-2 text-xs text-muted-foreground">
+          {data.status === "published" ? "Published" : "Archived"} versions are read-only
+          {data.published_at && ` (published ${formatShortDate(data.published_at)})`}. Records started on this
+          version keep it; edit a new version to change what future records get.
+        </p>
+      )}
+
+      {/* ── Template details ───────────────────────────────────────── */}
+      <div className="rounded-xl border border-border/60 bg-card p-4 shadow-sm space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Name</Label>
+            <Input value={header.name} onChange={(e) => patchHeader({ name: e.target.value })} disabled={!isDraft} className="h-9" />
+          </div>
+          <div className="space-y-1.5">
+            <Label className={labelCls}>Buyer</Label>
+            <Input
+              value={header.buyer ?? ""}
+              onChange={(e) => patchHeader({ buyer: e.target.value || null })}
+              disabled={!isDraft}
+              placeholder="All buyers"
+              className="h-9"
+            />
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label className={labelCls}>What changed</Label>
+          <Textarea
+            value={header.change_note ?? ""}
+            onChange={(e) => patchHeader({ change_note: e.target.value || null })}
+            disabled={!isDraft}
+            rows={2}
+            placeholder="Shown in the version history, e.g. added shade band check for the new buyer"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {sections.length} section{sections.length === 1 ? "" : "s"} · {itemCount} items · {requiredCount} required
+          {changeSummary && data.previous && <> · vs live v{data.previous.version}: {changeSummary}</>}
+        </p>
+      </div>
+
+      {/* ── Sections ───────────────────────────────────────────────── */}
+      <div className="space-y-3">
+        {sections.map((section, s) => {
+          const palette = SECTION_PALETTE[s % SECTION_PALETTE.length];
+          return (
+            <section key={section.key} className="rounded-xl border border-border/60 overflow-hidden bg-card shadow-sm">
+              <div className={cn("px-3 md:px-4 py-2 flex items-center gap-2", palette.banner)}>
+                <span className="text-xs font-mono font-bold text-white/80 shrink-0">{s + 1}</span>
+                <Input
+                  value={section.title}
+                  onChange={(e) => patchSection(section.key, (sec) => ({ ...sec, title: e.target.value }))}
+                  disabled={!isDraft}
+                  placeholder="Section title"
+                  className="h-8 bg-white/15 border-white/20 text-white placeholder:text-white/60 font-semibold uppercase disabled:opacity-100"
+                />
+                {isDraft && (
+                  <div className="flex items-center shrink-0">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-white hover:bg-white/15 hover:text-white"
+                      onClick={() => patchSections((prev) => moveEntry(prev, s, -1))}
+                      disabled={s === 0}
+                      aria-label="Move section up"
+                    >
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-white hover:bg-white/15 hover:text-white"
+                      onClick={() => patchSections((prev) => moveEntry(prev, s, 1))}
+                      disabled={s === sections.length - 1}
+                      aria-label="Move section down"
+                    >
+                      <ArrowDown className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-white hover:bg-white/15 hover:text-white"
+                      onClick={() => patchSections((prev) => prev.filter((x) => x.key !== section.key))}
+                      aria-label="Remove section"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="divide-y">
+                {section.items.map((item, i) => (
+                  <div key={item.key} className="p-3 md:px-4 flex items-start gap-3">
+                    <span className="font-mono text-xs text-muted-foreground w-10 pt-2.5 shrink-0">
+                      {s + 1}.{i + 1}
+                    </span>
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <Input
+                        value={item.label}
+                        onChange={(e) => patchItem(section.key, item.key, { label: e.target.value })}
+                        disabled={!isDraft}
+                        placeholder="Checkpoint"
+                        className="h-9 font-medium"
+                      />
+                      {(isDraft || item.guidance) && (
+                        <Textarea
+                          value={item.guidance}
+                          onChange={(e) => patchItem(section.key, item.key, { guidance: e.target.value })}
+                          disabled={!isDraft}
+                          rows={1}
+                          placeholder="Guidance for the inspector (optional)"
+                          className="text-xs min-h-[2.25rem]"
+                        />
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0 pt-1">
+                      <label className="flex items-center gap-1.5 text-[11px] text-muted-foreground mr-1">
+                        <Switch
+                          checked={item.required}
+                          onCheckedChange={(v) => patchItem(section.key, item.key, { required: v })}
+                          disabled={!isDraft}
+                        />
+                        Required
+                      </label>
+                      {isDraft && (
+                        <>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => patchSection(section.key, (sec) => ({ ...sec, items: moveEntry(sec.items, i, -1) }))}
+                            disabled={i === 0}
+                            aria-label="Move item up"
+                          >
+                            <ArrowUp className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            onClick={() => patchSection(section.key, (sec) => ({ ...sec, items: moveEntry(sec.items, i, 1) }))}
+                            disabled={i === section.items.length - 1}
+                            aria-label="Move item down"
+                          >
+                            <ArrowDown className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            onClick={() =>
+                              patchSection(section.key, (sec) => ({ ...sec, items: sec.items.filter((x) => x.key !== item.key) }))
+                            }
+                            aria-label="Remove item"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {isDraft && (
+                  <div className="px-3 md:px-4 py-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="gap-1.5 text-muted-foreground"
+                      onClick={() => patchSection(section.key, (sec) => ({ ...sec, items: [...sec.items, newItem()] }))}
+                    >
+                      <Plus className="h-3.5 w-3.5" />
+                      Add item
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </section>
+          );
+        })}
+
+        {isDraft && (
+          <Button
+            variant="outline"
+            className="w-full gap-1.5 border-dashed"
+            onClick={() => patchSections((prev) => [...prev, { key: nextKey(), title: "", items: [newItem()] }])}
+          >
+            <Plus className="h-4 w-4" />
+            Add section
+          </Button>
+        )}
+      </div>
+
+      {isDraft && errors.length > 0 && (
+        <ul className="rounded-lg border border-amber-300/60 bg-amber-50/50 dark:bg-amber-950/10 px-4 py-2 text-xs text-amber-800 dark:text-amber-300 list-disc list-inside">
+          {errors.map((e) => <li key={e}>{e}</li>)}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        open={confirmPublishOpen}
+        onOpenChange={setConfirmPublishOpen}
+        title={`Publish version ${data.version}?`}
+        description={
+          `New ${data.kind === "daily_qc" ? "daily sheets" : "order trackers"}` +
+          `${header.buyer ? ` for ${header.buyer}` : ""} will use this version` +
+          `${changeSummary && data.previous ? ` (${changeSummary} since v${data.previous.version})` : ""}. ` +
+          "Records already started keep the version they began on."
+        }
+        confirmLabel="Publish"
+        onConfirm={handlePublish}
+      />
+      <ConfirmDialog
+        open={confirmDiscardOpen}
+        onOpenChange={setConfirmDiscardOpen}
+        title="Discard this draft?"
+        description="All unpublished changes in this draft will be lost. Published versions are not affected."
+        confirmLabel="Discard draft"
+        variant="destructive"
+        onConfirm={handleDiscard}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Copy, FilePen, History, LayoutList, Loader2, Sparkles, Archive } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { cn } from "@/lib/utils";
+import { formatShortDate } from "@/lib/date-utils";
+import { TEMPLATE_ADMIN_PATH, TEMPLATE_KIND_LABEL, type TemplateKind } from "@/lib/qc-templates";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  useQCTemplates,
+  createTemplateDraft,
+  retireTemplate,
+  type TemplateFamily,
+  type TemplateRow,
+} from "@/hooks/useQCTemplates";
+import { CloneTemplateDialog } from "@/components/quality/CloneTemplateDialog";
+
+interface Props {
+  kind: TemplateKind;
+}
+
+const REVIEW_PAGE: Record<TemplateKind, { path: string; label: string }> = {
+  daily_qc: { path: "/quality/admin/sheets", label: "Back to daily sheet review" },
+  order_manager: { path: "/quality/admin/trackers", label: "Back to tracker review" },
+};
+
+const STATUS_BADGE: Record<TemplateRow["status"], string> = {
+  draft: "bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-300",
+  published: "bg-emerald-100 text-emerald-800 dark:bg-emerald-500/20 dark:text-emerald-300",
+  archived: "bg-muted text-muted-foreground",
+};
+
+export default function QCTemplates({ kind }: Props) {
+  const navigate = useNavigate();
+  const { user, profile } = useAuth();
+  const { rows, loading, refetch } = useQCTemplates(kind);
+  const [buyers, setBuyers] = useState<string[]>([]);
+  const [busyFamily, setBusyFamily] = useState<string | null>(null);
+  const [cloning, setCloning] = useState<TemplateFamily | null>(null);
+  const [retiring, setRetiring] = useState<TemplateFamily | null>(null);
+  const [historyOpen, setHistoryOpen] = useState<Set<string>>(new Set());
+
+  // PO buyers for the clone dialog's suggestions
+  useEffect(() => {
+    const factoryId = profile?.factory_id;
+    if (!factoryId) return;
+    (async () => {
+      const { data } = await supabase
+        .from("work_orders")
+        .select("buyer")
+        .eq("factory_id", factoryId)
+        .eq("is_active", true);
+      setBuyers(Array.from(new Set((data || []).map((w) => w.buyer).filter(Boolean))).sort());
+    })();
+  }, [profile?.factory_id]);
+
+  const basePath = TEMPLATE_ADMIN_PATH[kind];
+
+  async function handleEdit(family: TemplateFamily) {
+    const factoryId = profile?.factory_id;
+    const source = family.draft ?? family.live ?? family.versions[0];
+    if (!factoryId || !user?.id || !source) return;
+    if (family.draft) {
+      navigate(`${basePath}/${family.draft.id}`);
+      return;
+    }
+    setBusyFamily(family.family_id);
+    try {
+      const id = await createTemplateDraft({ sourceId: source.id, factoryId, userId: user.id });
+      navigate(`${basePath}/${id}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to open a draft");
+    } finally {
+      setBusyFamily(null);
+    }
+  }
+
+  async function handleClone(data: { name: string; buyer: string }) {
+    const factoryId = profile?.factory_id;
+    const source = cloning?.live ?? cloning?.versions[0];
+    if (!factoryId || !user?.id || !source) return;
+    setBusyFamily(cloning!.family_id);
+    try {
+      const id = await createTemplateDraft({ sourceId: source.id, factoryId, userId: user.id, newFamily: data });
+      setCloning(null);
+      navigate(`${basePath}/${id}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to clone template");
+    } finally {
+      setBusyFamily(null);
+    }
+  }
+
+  async function handleRetire() {
+    if (!retiring?.live) return;
+    try {
+      await retireTemplate(retiring.live.id);
+      toast.success(`${retiring.name} retired`);
+      refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to retire template");
+    } finally {
+      setRetiring(null);
+    }
+  }
+
+  function toggleHistory(familyId: string) {
+    setHistoryOpen((prev) => {
+      const next = new Set(prev);
+      if (next.has(familyId)) next.delete(familyId);
+      else next.add(familyId);
+      return next;
+    });
+  }
+
+  return (
+    <div className="py-3 md:py-4 lg:py-6 space-y-5 md:space-y-6">
+      <div>
+        <Link
+          to={REVIEW_PAGE[kind].path}
+          className="inline-flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-3 w-3" />
+          {REVIEW_PAGE[kind].label}
+        </Link>
+      </div>
+
+      {/* ── Header ───────────────────────────────────────────────────── */}
+      <div className="flex items-start gap-4 min-w-0">
+        <div className="h-12 w-12 rounded-xl bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center shadow-lg shadow-blue-500/25 shrink-0">
+          <LayoutList className="h-6 w-6 text-white" />
+        </div>
+        <div className="min-w-0">
+          <p className="text-[11px] font-semibold uppercase tracking-[0.14em] text-blue-600 dark:text-blue-400">
+            Checklist Templates
+          </p>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">{TEMPLATE_KIND_LABEL[kind]} Templates</h1>
+          <p className="text-sm text-muted-foreground mt-1 max-w-xl">
+            Edits are made on a draft and go live when published. Records already started keep the
+            version they began on; a buyer's template is used for that buyer's POs.
+          </p>
+        </div>
+      </div>
+
+      {/* ── Families ─────────────────────────────────────────────────── */}
+      {loading && rows.length === 0 ? (
+        <div className="space-y-2">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="h-20 bg-muted/40 rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border/60 bg-card/40 py-16 text-center">
+          <div className="inline-flex h-12 w-12 rounded-xl items-center justify-center mx-auto mb-3 bg-gradient-to-br from-blue-500/15 to-indigo-500/15 ring-1 ring-blue-500/20">
+            <Sparkles className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+          </div>
+          <p className="text-sm font-medium">No templates found.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {rows.map((family) => {
+            const current = family.live ?? family.versions[0];
+            const busy = busyFamily === family.family_id;
+            const showHistory = historyOpen.has(family.family_id);
+            return (
+              <div
+                key={family.family_id}
+                className={cn(
+                  "rounded-xl border border-border/60 bg-card shadow-sm overflow-hidden",
+                  !family.live && !family.draft && "opacity-70"
+                )}
+              >
+                <div className="p-4 flex flex-col md:flex-row md:items-center gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-semibold truncate">{family.name}</p>
+                      <Badge variant="outline" className="text-[10px]">
+                        {family.buyer ?? "All buyers"}
+                      </Badge>
+                      {family.builtIn && (
+                        <Badge variant="secondary" className="text-[10px]">Built-in</Badge>
+                      )}
+                      {family.draft && (
+                        <span className={cn("rounded px-1.5 py-px text-[10px] font-semibold uppercase", STATUS_BADGE.draft)}>
+                          Draft v{family.draft.version}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {family.live ? (
+                        <>
+                          Live v{family.live.version} · {family.live.items_count} items
+                          {family.live.published_at && <> · published {formatShortDate(family.live.published_at)}</>}
+                        </>
+                      ) : (
+                        <>Not live · last version v{current.version}</>
+                      )}
+                      {family.live && family.live.open_records > 0 && (
+                        <> · {family.live.open_records} open record{family.live.open_records === 1 ? "" : "s"}</>
+                      )}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 shrink-0">
+                    <Button size="sm" className="gap-1.5" onClick={() => handleEdit(family)} disabled={busy}>
+                      {busy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <FilePen className="h-3.5 w-3.5" />}
+                      {family.draft ? "Continue draft" : family.builtIn ? "Customise" : "Edit"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-1.5"
+                      onClick={() => setCloning(family)}
+                      disabled={busy}
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                      Clone for buyer
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="gap-1.5"
+                      onClick={() => toggleHistory(family.family_id)}
+                    >
+                      <History className="h-3.5 w-3.5" />
+                      {family.versions.length} version{family.versions.length === 1 ? "" : "s"}
+                    </Button>
+                    {family.live && !family.builtIn && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="gap-1.5 text-muted-foreground hover:text-destructive"
+                        onClick={() => setRetiring(family)}
+                        disabled={busy}
+                      >
+                        <Archive className="h-3.5 w-3.5" />
+                        Retire
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {showHistory && (
+                  <div className="border-t divide-y bg-muted/20">
+                    {family.versions.map((v) => (
+                      <button
+                        key={v.id}
+                        onClick={() => navigate(`${basePath}/${v.id}`)}
+                        className="w-full px-4 py-2.5 flex items-center gap-3 text-left hover:bg-muted/50 transition-colors"
+                      >
+                        <span className="font-mono text-xs font-semibold w-10 shrink-0">v{v.version}</span>
+                        <span className={cn("rounded px-1.5 py-px text-[10px] font-semibold uppercase shrink-0", STATUS_BADGE[v.status])}>
+                          {v.is_active ? "Live" : v.status}
+                        </span>
+                        <span className="text-xs text-muted-foreground truncate flex-1">
+                          {v.change_note || (v.status === "draft" ? "Unpublished changes" : "—")}
+                        </span>
+                        <span className="text-[11px] text-muted-foreground shrink-0 hidden sm:inline">
+                          {v.items_count} items
+                          {v.open_records > 0 && ` · ${v.open_records} open`}
+                        </span>
+                        <span className="text-[11px] text-muted-foreground shrink-0 w-20 text-right">
+                          {formatShortDate(v.published_at ?? v.created_at)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <CloneTemplateDialog
+        open={!!cloning}
+        onOpenChange={(open) => !open && setCloning(null)}
+        sourceName={cloning?.name ?? ""}
+        buyers={buyers}
+        onSubmit={handleClone}
+        isPending={!!cloning && busyFamily === cloning.family_id}
+      />
+      <ConfirmDialog
+        open={!!retiring}
+        onOpenChange={(open) => !open && setRetiring(null)}
+        title={`Retire ${retiring?.name ?? "template"}?`}
+        description={
+          retiring?.buyer
+            ? `New records for ${retiring.buyer} will use the general template. Records already started keep this version.`
+            : "New records will fall back to the built-in template. Records already started keep this version."
+        }
+        confirmLabel="Retire"
+        variant="destructive"
+        onConfirm={handleRetire}
+      />
+    </div>
+  );
+}
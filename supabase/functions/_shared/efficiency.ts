@@ -0,0 +1,151 @@
+/**
+ * SMV line efficiency, shared by the web app (re-exported from
+ * src/lib/efficiency.ts) and the edge functions. Keep this file free of
+ * imports so both Vite and Deno can load it.
+ *
+ *   earned minutes    = good output × SMV
+ *   available minutes = (manpower × hours + OT manpower × OT hours) × 60
+ *   efficiency %      = earned ÷ available × 100
+ *
+ * A row without an SMV or without manpower can't be measured. It is left out
+ * of both earned and available minutes and its output is reported as
+ * unmeasured, so one PO missing an SMV doesn't drag a line's number down.
+ */
+
+/** Regular hours assumed when an end-of-day submission doesn't record them. */
+export const DEFAULT_WORK_HOURS = 8;
+
+export interface EfficiencyRecord {
+  date: string;
+  lineId: string;
+  workOrderId: string | null;
+  floor?: string | null;
+  unit?: string | null;
+  output: number;
+  smv: number | null;
+  manpower: number;
+  hours: number | null;
+  otManpower: number | null;
+  otHours: number | null;
+}
+
+export interface EfficiencyTotals {
+  output: number;
+  /** Output from rows with an SMV and manpower */
+  measuredOutput: number;
+  unmeasuredOutput: number;
+  earnedMinutes: number;
+  availableMinutes: number;
+  /** Percent to one decimal; null when nothing could be measured */
+  efficiency: number | null;
+}
+
+export function earnedMinutes(output: number, smv: number | null | undefined): number {
+  return (output || 0) * (smv || 0);
+}
+
+export function availableMinutes(
+  manpower: number,
+  hours: number | null | undefined,
+  otManpower: number | null | undefined = 0,
+  otHours: number | null | undefined = 0,
+): number {
+  return ((manpower || 0) * (hours ?? DEFAULT_WORK_HOURS) + (otManpower || 0) * (otHours || 0)) * 60;
+}
+
+export function efficiencyPct(earned: number, available: number): number | null {
+  if (!(available > 0)) return null;
+  return Math.round((earned / available) * 1000) / 10;
+}
+
+/** Earned and available minutes of one row, or null when it can't be measured. */
+export function recordMinutes(r: EfficiencyRecord): { earned: number; available: number } | null {
+  if (!r.smv || r.smv <= 0) return null;
+  const available = availableMinutes(r.manpower, r.hours, r.otManpower, r.otHours);
+  if (available <= 0) return null;
+  return { earned: earnedMinutes(r.output, r.smv), available };
+}
+
+export function summarizeEfficiency(records: EfficiencyRecord[]): EfficiencyTotals {
+  let output = 0;
+  let measuredOutput = 0;
+  let earned = 0;
+  let available = 0;
+  for (const r of records) {
+    output += r.output || 0;
+    const m = recordMinutes(r);
+    if (!m) continue;
+    measuredOutput += r.output || 0;
+    earned += m.earned;
+    available += m.available;
+  }
+  return {
+    output,
+    measuredOutput,
+    unmeasuredOutput: output - measuredOutput,
+    earnedMinutes: Math.round(earned * 100) / 100,
+    availableMinutes: Math.round(available * 100) / 100,
+    efficiency: efficiencyPct(earned, available),
+  };
+}
+
+/** Totals per key; records whose key is null or empty are skipped. */
+export function groupEfficiency(
+  records: EfficiencyRecord[],
+  keyOf: (r: EfficiencyRecord) => string | null | undefined,
+): Map<string, EfficiencyTotals> {
+  const groups = new Map<string, EfficiencyRecord[]>();
+  for (const r of records) {
+    const key = keyOf(r);
+    if (!key) continue;
+    const list = groups.get(key);
+    if (list) list.push(r);
+    else groups.set(key, [r]);
+  }
+  const result = new Map<string, EfficiencyTotals>();
+  groups.forEach((list, key) => result.set(key, summarizeEfficiency(list)));
+  return result;
+}
+
+export const efficiencyByLine = (records: EfficiencyRecord[]) => groupEfficiency(records, (r) => r.lineId);
+export const efficiencyByWorkOrder = (records: EfficiencyRecord[]) => groupEfficiency(records, (r) => r.workOrderId);
+export const efficiencyByDate = (records: EfficiencyRecord[]) => groupEfficiency(records, (r) => r.date);
+export const efficiencyByFloor = (records: EfficiencyRecord[]) => groupEfficiency(records, (r) => r.floor);
+export const efficiencyByUnit = (records: EfficiencyRecord[]) => groupEfficiency(records, (r) => r.unit);
+
+/** The sewing_actuals columns the engine reads. */
+export interface SewingActualLike {
+  production_date: string;
+  line_id: string;
+  work_order_id: string | null;
+  good_today: number | null;
+  manpower_actual: number | null;
+  hours_actual?: number | null;
+  ot_manpower_actual?: number | null;
+  ot_hours_actual?: number | null;
+}
+
+export function toEfficiencyRecord(
+  row: SewingActualLike,
+  smv: number | null | undefined,
+  location: { floor?: string | null; unit?: string | null } = {},
+): EfficiencyRecord {
+  return {
+    date: row.production_date,
+    lineId: row.line_id,
+    workOrderId: row.work_order_id,
+    floor: location.floor ?? null,
+    unit: location.unit ?? null,
+    output: row.good_today || 0,
+    smv: smv ?? null,
+    manpower: row.manpower_actual || 0,
+    hours: row.hours_actual ?? null,
+    otManpower: row.ot_manpower_actual ?? null,
+    otHours: row.ot_hours_actual ?? null,
+  };
+}
+
+/** Whole-percent display value; 0 when nothing could be measured. */
+export function efficiencyValue(totals: EfficiencyTotals | undefined): number {
+  return Math.round(totals?.efficiency ?? 0);
+}
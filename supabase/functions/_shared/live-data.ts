@@ -2,6 +2,7 @@
 // Classifies user messages → fetches relevant production data → formats for LLM context
 
 import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { toEfficiencyRecord, summarizeEfficiency, efficiencyByLine, efficiencyValue } from "./efficiency.ts";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -278,6 +279,7 @@ interface LineAggregates {
   linesWithOutputToday: number;
   linesOnTarget: number;
   linesBehindTarget: number;
+  /** SMV efficiency (earned ÷ available minutes) across all lines reporting today */
   avgEfficiency: number;
   topPerformers: { name: string; efficiency: number }[];
   needsAttention: { name: string; efficiency: number }[];
@@ -732,7 +734,7 @@ async function fetchLines(
   try {
     const [linesR, actR, tgtR] = await Promise.all([
       sb.from("lines").select("id, line_id, name, is_active").eq("factory_id", factoryId).eq("is_active", true).order("line_id"),
-      sb.from("sewing_actuals").select("line_id, good_today").eq("factory_id", factoryId).eq("production_date", today),
+      sb.from("sewing_actuals").select("line_id, work_order_id, production_date, good_today, manpower_actual, hours_actual, ot_manpower_actual, ot_hours_actual, work_orders(smv)").eq("factory_id", factoryId).eq("production_date", today),
       sb.from("sewing_targets").select("line_id, per_hour_target").eq("factory_id", factoryId).eq("production_date", today),
     ]);
     if (linesR.error) throw linesR.error;
@@ -753,30 +755,29 @@ function computeLineAggregates(lines: any[], actuals: any[], targets: any[]): Li
     targetByLine.set(t.line_id, (targetByLine.get(t.line_id) || 0) + ((t.per_hour_target || 0) * 8));
   }
   
+  const efficiencyRecords = actuals.map((a) => toEfficiencyRecord(a, a.work_orders?.smv));
+  const lineEfficiency = efficiencyByLine(efficiencyRecords);
+  
   const totalActiveLines = lines.length;
   const linesWithOutputToday = outputByLine.size;
   
   let linesOnTarget = 0;
   let linesBehindTarget = 0;
-  let totalEfficiency = 0;
   const efficiencies: { name: string; efficiency: number }[] = [];
   
   for (const line of lines) {
     const output = outputByLine.get(line.id) || 0;
     const target = targetByLine.get(line.id) || 0;
-    const efficiency = target > 0 ? Math.round((output / target) * 100) : 0;
     
     if (target > 0) {
-      totalEfficiency += efficiency;
-      if (efficiency >= 100) linesOnTarget++;
+      if (output >= target) linesOnTarget++;
       else linesBehindTarget++;
     }
     
-    efficiencies.push({ name: line.name || line.line_id, efficiency });
+    efficiencies.push({ name: line.name || line.line_id, efficiency: efficiencyValue(lineEfficiency.get(line.id)) });
   }
   
-  const linesWithTargets = targetByLine.size;
-  const avgEfficiency = linesWithTargets > 0 ? Math.round(totalEfficiency / linesWithTargets) : 0;
+  const avgEfficiency = efficiencyValue(summarizeEfficiency(efficiencyRecords));
   
   efficiencies.sort((a, b) => b.efficiency - a.efficiency);
   const topPerformers = efficiencies.filter(e => e.efficiency > 0).slice(0, 3);
@@ -800,7 +801,7 @@ async function fetchFactorySummary(
     // Fetch all key metrics in parallel
     const [sewingActR, sewingTgtR, cuttingR, finishingR, blockersR, linesR, workOrdersR] = await Promise.all([
       sb.from("sewing_actuals")
-        .select("good_today, reject_today, rework_today, manpower_actual, has_blocker")
+        .select("line_id, work_order_id, production_date, good_today, reject_today, rework_today, manpower_actual, hours_actual, ot_manpower_actual, ot_hours_actual, has_blocker, work_orders(smv)")
         .eq("factory_id", factoryId)
         .eq("production_date", today),
       sb.from("sewing_targets")
@@ -844,7 +845,9 @@ async function fetchFactorySummary(
     const sewingTotalReject = sewingActuals.reduce((s, r) => s + (r.reject_today || 0), 0);
     const sewingTotalManpower = sewingActuals.reduce((s, r) => s + (r.manpower_actual || 0), 0);
     const sewingDailyTarget = sewingTargets.reduce((s, r) => s + ((r.per_hour_target || 0) * 8), 0);
-    const sewingEfficiency = sewingDailyTarget > 0 ? Math.round((sewingTotalGood / sewingDailyTarget) * 100) : 0;
+    const sewingEfficiency = efficiencyValue(summarizeEfficiency(
+      sewingActuals.map((r) => toEfficiencyRecord(r, r.work_orders?.smv)),
+    ));
     
     const cuttingTotalDay = cuttingActuals.reduce((s, r) => s + (r.day_cutting || 0), 0);
     const cuttingTotalInput = cuttingActuals.reduce((s, r) => s + (r.day_input || 0), 0);
@@ -1368,7 +1371,7 @@ function fmtLines(lines: any[], actuals: any[], targets: any[], today: string, a
     return { name: line.name || line.line_id, output, target, pct };
   });
 
-  // Sort by efficiency ascending — behind-target lines first
+  // Sort by achievement ascending — behind-target lines first
   statuses.sort((a, b) => a.pct - b.pct);
 
   let t = `===== LINE PERFORMANCE AGGREGATES (${today}) =====\n`;
@@ -1,17 +1,21 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
 import { getCorsHeaders } from "../_shared/security.ts";
 
 // This function is designed to be called by an external cron service (e.g., cron-job.org)
 // every 5 minutes. It checks factory timezones and triggers:
 // 1. late_submission notifications (cutoff + 30 min)
 // 2. daily_summary notifications (cutoff + 60 min)
+// 3. tna_overdue notifications (from 08:00, once per overdue milestone)
 
 const logStep = (step: string, details?: unknown) => {
   const detailsStr = details ? ` - ${JSON.stringify(details)}` : "";
   console.log(`[SCHEDULED-NOTIFICATIONS] ${step}${detailsStr}`);
 };
 
+// Factory-local hour from which overdue T&A milestones are announced
+const TNA_ALERT_HOUR = 8;
+
 const handler = async (req: Request): Promise<Response> => {
   logStep("Function called");
 
@@ -40,7 +44,7 @@ const handler = async (req: Request): Promise<Response> => {
 
     logStep("Factories found", { count: factories?.length || 0 });
 
-    const results = { lateSubmissions: 0, dailySummaries: 0, errors: [] as string[] };
+    const results = { lateSubmissions: 0, dailySummaries: 0, tnaOverdue: 0, errors: [] as string[] };
 
     for (const factory of factories || []) {
       try {
@@ -72,6 +76,11 @@ const handler = async (req: Request): Promise<Response> => {
         if (factoryHour === summaryHour && factoryMinute >= summaryMin && factoryMinute < summaryMin + 5) {
           await processDailySummary(supabase, factory.id, factory.name, todayStr, nowUTC, results);
         }
+
+        // --- T&A OVERDUE CHECK (any run from 08:00; each milestone alerts once) ---
+        if (factoryHour >= TNA_ALERT_HOUR) {
+          await processOverdueMilestones(supabase, factory.id, factory.name, todayStr, results);
+        }
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : String(err);
         logStep(`Error processing factory ${factory.id}`, msg);
@@ -110,6 +119,16 @@ async function processLateSubmissions(
 ) {
   logStep(`Checking late submissions for ${factoryName}`);
 
+  // Nothing is late on a weekly off-day, holiday or shutdown
+  const { data: isWorkingDay } = await supabase.rpc("is_factory_working_day", {
+    p_factory_id: factoryId,
+    p_date: todayStr,
+  });
+  if (isWorkingDay === false) {
+    logStep(`${factoryName} is closed on ${todayStr}, skipping late submission check`);
+    return;
+  }
+
   // Check if we already sent late_submission notifications for today
   const { data: existing } = await supabase
     .from("notifications")
@@ -398,4 +417,115 @@ async function processDailySummary(
   }
 }
 
+// --- T&A Overdue Milestone Logic ---
+interface OverdueMilestone {
+  id: string;
+  label: string;
+  planned_date: string;
+  owner_id: string | null;
+  work_order_id: string;
+  work_orders: { po_number: string; buyer: string | null; style: string | null } | null;
+}
+
+async function processOverdueMilestones(
+  supabase: SupabaseClient,
+  factoryId: string,
+  factoryName: string,
+  todayStr: string,
+  results: { tnaOverdue: number; errors: string[] }
+) {
+  // A milestone due before a closed day is chased on the next working day
+  const { data: isWorkingDay } = await supabase.rpc("is_factory_working_day", {
+    p_factory_id: factoryId,
+    p_date: todayStr,
+  });
+  if (isWorkingDay === false) return;
+
+  const { data: overdue, error: overdueError } = await supabase
+    .from("po_milestones")
+    .select("id, label, planned_date, owner_id, work_order_id, work_orders(po_number, buyer, style)")
+    .eq("factory_id", factoryId)
+    .is("actual_date", null)
+    .is("overdue_notified_at", null)
+    .lt("planned_date", todayStr)
+    .returns<OverdueMilestone[]>();
+
+  if (overdueError) {
+    results.errors.push(`T&A overdue for ${factoryName}: ${overdueError.message}`);
+    return;
+  }
+  if (!overdue || overdue.length === 0) return;
+
+  logStep(`${overdue.length} overdue T&A milestones in ${factoryName}`);
+
+  // Unowned milestones go to the factory's admins/owners
+  let adminUserIds: string[] = [];
+  if (overdue.some((m) => !m.owner_id)) {
+    const { data: adminUsers } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("factory_id", factoryId)
+      .eq("is_active", true);
+    const { data: adminRoles } = await supabase
+      .from("user_roles")
+      .select("user_id")
+      .in("role", ["admin", "owner"])
+      .in("user_id", (adminUsers || []).map((u: { id: string }) => u.id));
+    adminUserIds = (adminRoles || []).map((r: { user_id: string }) => r.user_id);
+  }
+
+  const recipientIds = new Set<string>(adminUserIds);
+  overdue.forEach((m) => m.owner_id && recipientIds.add(m.owner_id));
+
+  const { data: prefs } = await supabase
+    .from("notification_preferences")
+    .select("user_id, in_app_enabled")
+    .eq("notification_type", "tna_overdue")
+    .in("user_id", Array.from(recipientIds));
+
+  const prefsMap = new Map((prefs || []).map((p: { user_id: string; in_app_enabled: boolean }) => [p.user_id, p.in_app_enabled]));
+
+  const notifications = [];
+  for (const m of overdue) {
+    const po = m.work_orders;
+    const recipients = m.owner_id ? [m.owner_id] : adminUserIds;
+    for (const userId of recipients) {
+      // Default to true if no preference set
+      if ((prefsMap.get(userId) ?? true) === false) continue;
+      notifications.push({
+        factory_id: factoryId,
+        user_id: userId,
+        title: "T&A milestone overdue",
+        message: `${m.label} for ${po?.po_number ?? "PO"}${po?.buyer ? ` (${po.buyer})` : ""} was due ${m.planned_date}`,
+        type: "tna_overdue",
+        data: {
+          milestone_id: m.id,
+          work_order_id: m.work_order_id,
+          po_number: po?.po_number ?? null,
+          planned_date: m.planned_date,
+        },
+      });
+    }
+  }
+
+  if (notifications.length > 0) {
+    const { error } = await supabase.from("notifications").insert(notifications);
+    if (error) {
+      logStep("Error inserting T&A overdue notifications", error.message);
+      results.errors.push(`T&A overdue for ${factoryName}: ${error.message}`);
+      return;
+    }
+    results.tnaOverdue += notifications.length;
+  }
+
+  // Each milestone alerts once; moving its planned date re-arms it
+  const { error: markError } = await supabase
+    .from("po_milestones")
+    .update({ overdue_notified_at: new Date().toISOString() })
+    .in("id", overdue.map((m) => m.id));
+  if (markError) {
+    results.errors.push(`T&A overdue for ${factoryName}: ${markError.message}`);
+  }
+}
+
 serve(handler);
@@ -3,6 +3,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.4";
 import { Resend } from "https://esm.sh/resend@2.0.0";
 import { jsPDF } from "https://esm.sh/jspdf@2.5.1";
 import { getCorsHeaders } from "../_shared/security.ts";
+import { toEfficiencyRecord, summarizeEfficiency, efficiencyByDate, groupEfficiency, efficiencyValue } from "../_shared/efficiency.ts";
 
 interface LineData {
   id: string;
@@ -99,7 +100,7 @@ const handler = async (req: Request): Promise<Response> => {
         .order("production_date"),
       supabase
         .from("sewing_actuals")
-        .select("*, lines(name, line_id)")
+        .select("*, lines(name, line_id), work_orders(smv)")
         .eq("factory_id", factoryId)
         .gte("production_date", startDateStr)
         .lte("production_date", todayStr)
@@ -293,8 +294,10 @@ const handler = async (req: Request): Promise<Response> => {
     // ============ WEEKLY REPORT ============
     // Calculate insights
     const totalSewingOutput = (sewingActuals || []).reduce((sum, a) => sum + (a.good_today || 0), 0);
-    const totalSewingTarget = (sewingTargets || []).reduce((sum, t) => sum + ((t.per_hour_target || 0) * 8), 0);
-    const avgEfficiency = totalSewingTarget > 0 ? Math.round((totalSewingOutput / totalSewingTarget) * 100) : 0;
+    // SMV efficiency, same engine as the app's Insights page
+    const efficiencyRecords = (sewingActuals || []).map(a => toEfficiencyRecord(a, a.work_orders?.smv));
+    const avgEfficiency = efficiencyValue(summarizeEfficiency(efficiencyRecords));
+    const dailyEfficiency = efficiencyByDate(efficiencyRecords);
     
     const totalFinishingPoly = (finishingDailySheets || []).reduce((sum, s) => {
       const logs = s.finishing_hourly_logs || [];
@@ -346,7 +349,7 @@ const handler = async (req: Request): Promise<Response> => {
     const dailyStats = Array.from(dailyMap.values())
       .map(d => ({
         ...d,
-        efficiency: d.sewingTarget > 0 ? Math.round((d.sewingOutput / d.sewingTarget) * 100) : 0,
+        efficiency: efficiencyValue(dailyEfficiency.get(d.date)),
       }))
       .sort((a, b) => a.date.localeCompare(b.date));
 
@@ -374,10 +377,14 @@ const handler = async (req: Request): Promise<Response> => {
       }
     });
 
+    const lineNameById = new Map<string, string>();
+    (sewingActuals || []).forEach(a => lineNameById.set(a.line_id, a.lines?.name || a.lines?.line_id || "Unknown"));
+    const lineEfficiency = groupEfficiency(efficiencyRecords, r => lineNameById.get(r.lineId));
+
     const linePerformance = Array.from(lineMap.values())
       .map(l => ({
         ...l,
-        efficiency: l.totalTarget > 0 ? Math.round((l.totalOutput / l.totalTarget) * 100) : 0,
+        efficiency: efficiencyValue(lineEfficiency.get(l.lineName)),
       }))
       .sort((a, b) => b.efficiency - a.efficiency);
 
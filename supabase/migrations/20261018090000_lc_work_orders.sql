@@ -0,0 +1,37 @@
+-- LC ↔ work order links
+-- master_lcs only references a sales contract. Many LCs are opened directly
+-- against one or more POs, so this join table lets the LC workspace link them.
+
+CREATE TABLE IF NOT EXISTS public.lc_work_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  lc_id UUID NOT NULL REFERENCES public.master_lcs(id) ON DELETE CASCADE,
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (lc_id, work_order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lc_work_orders_factory ON public.lc_work_orders(factory_id);
+CREATE INDEX IF NOT EXISTS idx_lc_work_orders_wo ON public.lc_work_orders(work_order_id);
+
+-- RLS
+ALTER TABLE public.lc_work_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view LC links in their factory"
+  ON public.lc_work_orders FOR SELECT TO authenticated
+  USING (factory_id = (SELECT factory_id FROM profiles WHERE id = auth.uid()));
+
+CREATE POLICY "Admins can insert LC links"
+  ON public.lc_work_orders FOR INSERT TO authenticated
+  WITH CHECK (
+    factory_id = (SELECT factory_id FROM profiles WHERE id = auth.uid())
+    AND is_admin_or_higher(auth.uid())
+  );
+
+CREATE POLICY "Admins can delete LC links"
+  ON public.lc_work_orders FOR DELETE TO authenticated
+  USING (
+    factory_id = (SELECT factory_id FROM profiles WHERE id = auth.uid())
+    AND is_admin_or_higher(auth.uid())
+  );
@@ -0,0 +1,19 @@
+-- Signed sales contract scans, stored under <factory_id>/<contract_id>/
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('sales-contract-documents', 'sales-contract-documents', false, 20971520)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "sales_contract_documents_select" ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'sales-contract-documents' AND (storage.foldername(name))[1] IN (
+    SELECT factory_id::text FROM public.profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "sales_contract_documents_insert" ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'sales-contract-documents' AND (storage.foldername(name))[1] IN (
+    SELECT factory_id::text FROM public.profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "sales_contract_documents_delete" ON storage.objects FOR DELETE TO authenticated
+  USING (bucket_id = 'sales-contract-documents' AND is_admin_or_higher(auth.uid()) AND (storage.foldername(name))[1] IN (
+    SELECT factory_id::text FROM public.profiles WHERE id = auth.uid()
+  ));
@@ -0,0 +1,25 @@
+-- Bank ledger reconciliation
+-- Statement lines match either a payment (matched_payment_id) or an LC banking
+-- cost, which had no column of its own. bank_account_id points at the
+-- factory's own account the statement was imported for.
+
+ALTER TABLE public.bank_transactions
+  ADD COLUMN IF NOT EXISTS matched_lc_cost_id UUID REFERENCES public.lc_banking_costs(id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'bank_transactions_bank_account_id_fkey'
+  ) THEN
+    ALTER TABLE public.bank_transactions
+      ADD CONSTRAINT bank_transactions_bank_account_id_fkey
+      FOREIGN KEY (bank_account_id) REFERENCES public.factory_bank_accounts(id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_account_date
+  ON public.bank_transactions(bank_account_id, transaction_date);
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_status
+  ON public.bank_transactions(factory_id, reconciliation_status);
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,54 @@
+-- Sewing hourly production log
+-- The sewing counterpart of finishing_hourly_logs: line chiefs record target,
+-- good output, rejects, rework and defects found for each hour of the shift.
+-- Once a line logs hourly, the end-of-day good/reject/rework are summed from
+-- these rows instead of being typed again.
+
+CREATE TABLE IF NOT EXISTS public.sewing_hourly_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  production_date DATE NOT NULL,
+  line_id UUID NOT NULL REFERENCES public.lines(id) ON DELETE CASCADE,
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  -- '08-09' … '06-07' for regular hours, 'OT-1' … for overtime
+  hour_slot TEXT NOT NULL,
+  target_qty INTEGER NOT NULL DEFAULT 0 CHECK (target_qty >= 0),
+  good_qty INTEGER NOT NULL DEFAULT 0 CHECK (good_qty >= 0),
+  reject_qty INTEGER NOT NULL DEFAULT 0 CHECK (reject_qty >= 0),
+  rework_qty INTEGER NOT NULL DEFAULT 0 CHECK (rework_qty >= 0),
+  -- Total defects found by the in-line checker this hour (DHU numerator)
+  defect_count INTEGER NOT NULL DEFAULT 0 CHECK (defect_count >= 0),
+  remarks TEXT,
+  is_locked BOOLEAN NOT NULL DEFAULT false,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  submitted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (factory_id, production_date, line_id, work_order_id, hour_slot)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sewing_hourly_logs_factory_date ON public.sewing_hourly_logs(factory_id, production_date);
+CREATE INDEX IF NOT EXISTS idx_sewing_hourly_logs_line ON public.sewing_hourly_logs(line_id, production_date);
+
+-- RLS
+ALTER TABLE public.sewing_hourly_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view sewing hourly logs in their factory"
+  ON public.sewing_hourly_logs FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Users can insert sewing hourly logs"
+  ON public.sewing_hourly_logs FOR INSERT TO authenticated
+  WITH CHECK (factory_id = get_user_factory_id(auth.uid()) AND submitted_by = auth.uid());
+
+CREATE POLICY "Admins can update sewing hourly logs"
+  ON public.sewing_hourly_logs FOR UPDATE TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid())));
+
+CREATE POLICY "Workers can update their own unlocked sewing hourly logs"
+  ON public.sewing_hourly_logs FOR UPDATE TO authenticated
+  USING (submitted_by = auth.uid() AND is_locked = false AND factory_id = get_user_factory_id(auth.uid()));
+
+CREATE POLICY "Admins can delete sewing hourly logs"
+  ON public.sewing_hourly_logs FOR DELETE TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid())));
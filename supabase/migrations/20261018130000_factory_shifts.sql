@@ -0,0 +1,290 @@
+-- Configurable shifts and hour slots
+-- Replaces the fixed finishing_hour_slot enum ('08-09' … '06-07', 'OT-1' …
+-- 'OT-5') with per-factory shift definitions. Hour slots are derived from each
+-- shift's start, end, breaks and overtime count in the app, so hour_slot
+-- columns become plain text. A factory with no shifts keeps the old 8 am to
+-- 7 pm day with a 1–2 pm lunch.
+
+-- 1. Shift definitions
+CREATE TABLE IF NOT EXISTS public.factory_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  start_time TIME NOT NULL,
+  -- At or before start_time means the shift runs past midnight
+  end_time TIME NOT NULL,
+  -- [{"start": "13:00", "end": "14:00", "label": "Lunch"}]
+  breaks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ot_slots INTEGER NOT NULL DEFAULT 0 CHECK (ot_slots >= 0 AND ot_slots <= 6),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (factory_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_factory_shifts_factory ON public.factory_shifts(factory_id);
+
+CREATE TRIGGER factory_shifts_updated_at
+  BEFORE UPDATE ON public.factory_shifts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.factory_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shifts in their factory"
+  ON public.factory_shifts FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can manage shifts"
+  ON public.factory_shifts FOR ALL TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()));
+
+-- 2. Hour slots become text; rows remember which shift they were logged in
+ALTER TABLE public.finishing_hourly_logs ALTER COLUMN hour_slot TYPE TEXT USING hour_slot::text;
+DROP TYPE IF EXISTS public.finishing_hour_slot;
+
+ALTER TABLE public.finishing_hourly_logs
+  ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.factory_shifts(id) ON DELETE SET NULL;
+ALTER TABLE public.sewing_hourly_logs
+  ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.factory_shifts(id) ON DELETE SET NULL;
+
+-- A day and a night shift can both have an "08-09" slot, so uniqueness is per
+-- shift. NULL shift_id is the factory's default shift.
+ALTER TABLE public.finishing_hourly_logs DROP CONSTRAINT IF EXISTS finishing_hourly_logs_sheet_id_hour_slot_key;
+CREATE UNIQUE INDEX IF NOT EXISTS finishing_hourly_logs_unique_slot
+  ON public.finishing_hourly_logs (
+    sheet_id,
+    COALESCE(shift_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    hour_slot
+  );
+
+DO $$
+DECLARE
+  con TEXT;
+BEGIN
+  SELECT conname INTO con FROM pg_constraint
+  WHERE conrelid = 'public.sewing_hourly_logs'::regclass AND contype = 'u';
+  IF con IS NOT NULL THEN
+    EXECUTE format('ALTER TABLE public.sewing_hourly_logs DROP CONSTRAINT %I', con);
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS sewing_hourly_logs_unique_slot
+  ON public.sewing_hourly_logs (
+    factory_id,
+    production_date,
+    line_id,
+    work_order_id,
+    COALESCE(shift_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    hour_slot
+  );
+
+-- 3. Finishing daily target/output: one per shift when a factory runs several
+DROP INDEX IF EXISTS public.finishing_daily_logs_unique_entry;
+CREATE UNIQUE INDEX finishing_daily_logs_unique_entry
+  ON public.finishing_daily_logs (
+    factory_id,
+    production_date,
+    COALESCE(line_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    work_order_id,
+    log_type,
+    COALESCE(shift, '')
+  );
+
+-- 4. Shift reminders: one per shift, 30 min before it starts
+DROP FUNCTION IF EXISTS public.process_shift_reminders(UUID, TEXT, TEXT, TIME);
+
+CREATE OR REPLACE FUNCTION public.process_shift_reminders(
+  p_factory_id UUID,
+  p_factory_name TEXT,
+  p_today TEXT,
+  p_morning_cutoff TIME,
+  p_shift_id UUID DEFAULT NULL,
+  p_shift_name TEXT DEFAULT NULL,
+  p_shift_start TIME DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_record RECORD;
+  pref_enabled BOOLEAN;
+  cutoff_display TEXT;
+  reminder_message TEXT;
+BEGIN
+  -- Check if already sent today (per shift when shifts are configured)
+  IF EXISTS (
+    SELECT 1 FROM notifications
+    WHERE factory_id = p_factory_id AND type = 'shift_reminder'
+      AND created_at >= (p_today || 'T00:00:00Z')::timestamptz
+      AND (p_shift_id IS NULL OR data->>'shift_id' = p_shift_id::text)
+  ) THEN
+    RETURN;
+  END IF;
+
+  cutoff_display := to_char(COALESCE(p_morning_cutoff, '10:00:00'::time), 'HH12:MI AM');
+
+  IF p_shift_id IS NULL THEN
+    reminder_message := 'Morning targets are due by ' || cutoff_display || '. Don''t forget to submit your targets!';
+  ELSE
+    reminder_message := p_shift_name || ' shift starts at ' || to_char(p_shift_start, 'HH12:MI AM')
+      || '. Don''t forget to submit your targets!';
+  END IF;
+
+  -- Notify ALL active users in the factory (shift reminders are for everyone)
+  FOR user_record IN
+    SELECT p.id as user_id
+    FROM profiles p
+    WHERE p.factory_id = p_factory_id
+      AND p.is_active = true
+  LOOP
+    SELECT COALESCE(in_app_enabled, true) INTO pref_enabled
+    FROM notification_preferences
+    WHERE user_id = user_record.user_id AND notification_type = 'shift_reminder';
+
+    IF pref_enabled IS NULL OR pref_enabled = true THEN
+      INSERT INTO notifications (factory_id, user_id, title, message, type, data)
+      VALUES (
+        p_factory_id,
+        user_record.user_id,
+        'Shift Reminder',
+        reminder_message,
+        'shift_reminder',
+        jsonb_build_object(
+          'production_date', p_today,
+          'cutoff_time', p_morning_cutoff,
+          'shift_id', p_shift_id,
+          'shift_name', p_shift_name,
+          'shift_start', p_shift_start
+        )
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- 5. Scheduler: same as before except for the per-shift reminder block
+CREATE OR REPLACE FUNCTION public.process_scheduled_notifications()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  factory_rec RECORD;
+  factory_now TIMESTAMPTZ;
+  factory_hour INT;
+  factory_minute INT;
+  today_str TEXT;
+  cutoff_hour INT;
+  cutoff_min INT;
+  target_cutoff_hour INT;
+  target_cutoff_min INT;
+  shift_rec RECORD;
+  results jsonb := '{"late_submissions":0,"daily_summaries":0,"shift_reminders":0}'::jsonb;
+BEGIN
+  FOR factory_rec IN
+    SELECT id, name, timezone, evening_actual_cutoff, morning_target_cutoff
+    FROM factory_accounts
+    WHERE subscription_status IN ('active', 'trialing', 'trial')
+      AND is_active = true
+  LOOP
+    BEGIN
+      -- Get current time in factory timezone
+      factory_now := now() AT TIME ZONE COALESCE(factory_rec.timezone, 'Asia/Dhaka');
+      factory_hour := EXTRACT(HOUR FROM factory_now);
+      factory_minute := EXTRACT(MINUTE FROM factory_now);
+      today_str := to_char(factory_now, 'YYYY-MM-DD');
+
+      -- Parse evening cutoff (default 18:00)
+      cutoff_hour := EXTRACT(HOUR FROM COALESCE(factory_rec.evening_actual_cutoff, '18:00:00'::time));
+      cutoff_min := EXTRACT(MINUTE FROM COALESCE(factory_rec.evening_actual_cutoff, '18:00:00'::time));
+
+      -- Parse morning cutoff (default 10:00)
+      target_cutoff_hour := EXTRACT(HOUR FROM COALESCE(factory_rec.morning_target_cutoff, '10:00:00'::time));
+      target_cutoff_min := EXTRACT(MINUTE FROM COALESCE(factory_rec.morning_target_cutoff, '10:00:00'::time));
+
+      -- --- LATE SUBMISSION (cutoff + 30 min, 5-min window) ---
+      DECLARE
+        late_total_min INT := cutoff_hour * 60 + cutoff_min + 30;
+        late_h INT := (late_total_min / 60) % 24;
+        late_m INT := late_total_min % 60;
+      BEGIN
+        IF factory_hour = late_h AND factory_minute >= late_m AND factory_minute < late_m + 5 THEN
+          PERFORM process_late_submissions(factory_rec.id, factory_rec.name, today_str);
+          results := jsonb_set(results, '{late_submissions}', to_jsonb((results->>'late_submissions')::int + 1));
+        END IF;
+      END;
+
+      -- --- DAILY SUMMARY (cutoff + 60 min, 5-min window) ---
+      DECLARE
+        summary_total_min INT := cutoff_hour * 60 + cutoff_min + 60;
+        summary_h INT := (summary_total_min / 60) % 24;
+        summary_m INT := summary_total_min % 60;
+      BEGIN
+        IF factory_hour = summary_h AND factory_minute >= summary_m AND factory_minute < summary_m + 5 THEN
+          PERFORM process_daily_summary(factory_rec.id, factory_rec.name, today_str);
+          results := jsonb_set(results, '{daily_summaries}', to_jsonb((results->>'daily_summaries')::int + 1));
+        END IF;
+      END;
+
+      -- --- SHIFT REMINDER (30 min before each shift starts, 5-min window) ---
+      -- Factories that haven't configured shifts keep the single reminder
+      -- 30 min before the morning cutoff.
+      IF EXISTS (SELECT 1 FROM factory_shifts WHERE factory_id = factory_rec.id AND is_active = true) THEN
+        FOR shift_rec IN
+          SELECT id, name, start_time FROM factory_shifts
+          WHERE factory_id = factory_rec.id AND is_active = true
+        LOOP
+          DECLARE
+            reminder_total_min INT := EXTRACT(HOUR FROM shift_rec.start_time)::int * 60
+                                      + EXTRACT(MINUTE FROM shift_rec.start_time)::int - 30;
+            reminder_h INT;
+            reminder_m INT;
+          BEGIN
+            IF reminder_total_min < 0 THEN
+              reminder_total_min := reminder_total_min + 1440;
+            END IF;
+            reminder_h := (reminder_total_min / 60) % 24;
+            reminder_m := reminder_total_min % 60;
+
+            IF factory_hour = reminder_h AND factory_minute >= reminder_m AND factory_minute < reminder_m + 5 THEN
+              PERFORM process_shift_reminders(
+                factory_rec.id, factory_rec.name, today_str, factory_rec.morning_target_cutoff,
+                shift_rec.id, shift_rec.name, shift_rec.start_time
+              );
+              results := jsonb_set(results, '{shift_reminders}', to_jsonb((results->>'shift_reminders')::int + 1));
+            END IF;
+          END;
+        END LOOP;
+      ELSE
+        DECLARE
+          reminder_total_min INT := target_cutoff_hour * 60 + target_cutoff_min - 30;
+          reminder_h INT;
+          reminder_m INT;
+        BEGIN
+          -- Handle wrap-around for very early cutoffs
+          IF reminder_total_min < 0 THEN
+            reminder_total_min := reminder_total_min + 1440;
+          END IF;
+          reminder_h := (reminder_total_min / 60) % 24;
+          reminder_m := reminder_total_min % 60;
+
+          IF factory_hour = reminder_h AND factory_minute >= reminder_m AND factory_minute < reminder_m + 5 THEN
+            PERFORM process_shift_reminders(factory_rec.id, factory_rec.name, today_str, factory_rec.morning_target_cutoff);
+            results := jsonb_set(results, '{shift_reminders}', to_jsonb((results->>'shift_reminders')::int + 1));
+          END IF;
+        END;
+      END IF;
+
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Error processing factory %: %', factory_rec.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN results;
+END;
+$$;
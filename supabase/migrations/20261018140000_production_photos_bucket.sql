@@ -0,0 +1,24 @@
+-- Photos attached to production updates. Offline submissions upload these
+-- before replaying the row, under {factory_id}/{submission_id}/…
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('production-photos', 'production-photos', true, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "production_photos_select" ON storage.objects FOR SELECT
+  USING (bucket_id = 'production-photos');
+
+CREATE POLICY "production_photos_insert" ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'production-photos' AND (storage.foldername(name))[1] IN (
+    SELECT factory_id::text FROM public.profiles WHERE id = auth.uid()
+  ));
+
+-- Replays upload with upsert so a retried photo overwrites its own object
+CREATE POLICY "production_photos_update" ON storage.objects FOR UPDATE TO authenticated
+  USING (bucket_id = 'production-photos' AND (storage.foldername(name))[1] IN (
+    SELECT factory_id::text FROM public.profiles WHERE id = auth.uid()
+  ));
+
+CREATE POLICY "production_photos_delete" ON storage.objects FOR DELETE TO authenticated
+  USING (bucket_id = 'production-photos' AND is_admin_or_higher(auth.uid()) AND (storage.foldername(name))[1] IN (
+    SELECT factory_id::text FROM public.profiles WHERE id = auth.uid()
+  ));
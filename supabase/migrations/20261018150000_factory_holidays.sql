@@ -0,0 +1,153 @@
+-- Factory holiday calendar
+-- factory_accounts.non_working_days only covers the weekly off-days. Public
+-- holidays, Eid closures and ad-hoc shutdowns live here as date ranges so
+-- deadline maths, projections and late-submission alerts can skip them.
+
+ALTER TABLE public.factory_accounts
+  ADD COLUMN IF NOT EXISTS non_working_days INTEGER[] DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS public.factory_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'public' CHECK (kind IN ('public', 'eid', 'shutdown')),
+  start_date DATE NOT NULL,
+  -- NULL for a single-day holiday
+  end_date DATE CHECK (end_date IS NULL OR end_date >= start_date),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_factory_holidays_factory_dates
+  ON public.factory_holidays(factory_id, start_date);
+
+CREATE TRIGGER factory_holidays_updated_at
+  BEFORE UPDATE ON public.factory_holidays
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.factory_holidays ENABLE ROW LEVEL SECURITY;
+
+-- Buyers see the calendar too, so their PO health uses the same working days
+CREATE POLICY "Users can view holidays in their factory"
+  ON public.factory_holidays FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can manage holidays"
+  ON public.factory_holidays FOR ALL TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()));
+
+-- Working-day check shared by scheduled notifications and the edge function
+CREATE OR REPLACE FUNCTION public.is_factory_working_day(p_factory_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+      SELECT 1 FROM factory_accounts
+      WHERE id = p_factory_id
+        AND EXTRACT(DOW FROM p_date)::int = ANY(COALESCE(non_working_days, '{}'))
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM factory_holidays
+      WHERE factory_id = p_factory_id
+        AND p_date BETWEEN start_date AND COALESCE(end_date, start_date)
+    )
+$$;
+
+-- Late-submission alerts: nothing is late on a day the factory is closed
+CREATE OR REPLACE FUNCTION public.process_late_submissions(
+  p_factory_id UUID,
+  p_factory_name TEXT,
+  p_today TEXT
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  missing_lines jsonb;
+  missing_count INT;
+  admin_record RECORD;
+  pref_enabled BOOLEAN;
+  lines_summary TEXT;
+BEGIN
+  IF NOT is_factory_working_day(p_factory_id, p_today::date) THEN
+    RETURN;
+  END IF;
+
+  -- Check if already sent today
+  IF EXISTS (
+    SELECT 1 FROM notifications
+    WHERE factory_id = p_factory_id AND type = 'late_submission'
+      AND created_at >= (p_today || 'T00:00:00Z')::timestamptz
+  ) THEN
+    RETURN;
+  END IF;
+
+  -- Find lines that haven't submitted
+  SELECT jsonb_agg(jsonb_build_object('id', l.id, 'name', COALESCE(l.name, l.line_id))),
+         count(*)
+  INTO missing_lines, missing_count
+  FROM lines l
+  WHERE l.factory_id = p_factory_id
+    AND l.is_active = true
+    AND NOT EXISTS (
+      SELECT 1 FROM sewing_actuals sa
+      WHERE sa.line_id = l.id AND sa.production_date = p_today::date
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM finishing_actuals fa
+      WHERE fa.line_id = l.id AND fa.production_date = p_today::date
+    );
+
+  IF missing_count = 0 OR missing_lines IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Build summary text
+  SELECT string_agg(elem->>'name', ', ')
+  INTO lines_summary
+  FROM (SELECT jsonb_array_elements(missing_lines) AS elem LIMIT 5) sub;
+
+  IF missing_count > 5 THEN
+    lines_summary := lines_summary || ' +' || (missing_count - 5) || ' more';
+  END IF;
+
+  -- Notify admin/owner users
+  FOR admin_record IN
+    SELECT p.id as user_id
+    FROM profiles p
+    JOIN user_roles ur ON ur.user_id = p.id
+    WHERE p.factory_id = p_factory_id
+      AND ur.role IN ('admin', 'owner')
+      AND p.is_active = true
+  LOOP
+    SELECT COALESCE(in_app_enabled, true) INTO pref_enabled
+    FROM notification_preferences
+    WHERE user_id = admin_record.user_id AND notification_type = 'late_submission';
+
+    IF pref_enabled IS NULL OR pref_enabled = true THEN
+      INSERT INTO notifications (factory_id, user_id, title, message, type, data)
+      VALUES (
+        p_factory_id,
+        admin_record.user_id,
+        'Late Submission Alert',
+        missing_count || ' line' || CASE WHEN missing_count > 1 THEN 's' ELSE '' END
+          || ' missing end-of-day submissions: ' || lines_summary,
+        'late_submission',
+        jsonb_build_object(
+          'production_date', p_today,
+          'missing_count', missing_count,
+          'missing_lines', missing_lines
+        )
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
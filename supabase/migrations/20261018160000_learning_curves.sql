@@ -0,0 +1,42 @@
+-- Learning curves for style changeovers
+-- A line starting a new style sews a share of its peak output for the first
+-- few working days. `steps` holds those shares in percent, one per day
+-- (e.g. {40,60,80,100}); days past the last step run at 100%.
+-- A curve applies to one line, to a product category (work_orders.item) or,
+-- when is_default, to everything else.
+
+CREATE TABLE IF NOT EXISTS public.learning_curves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  steps NUMERIC[] NOT NULL DEFAULT '{}'
+    CHECK (array_length(steps, 1) IS NULL OR array_length(steps, 1) <= 30),
+  line_id UUID REFERENCES public.lines(id) ON DELETE CASCADE,
+  product_category TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_learning_curves_factory
+  ON public.learning_curves(factory_id);
+
+-- One default curve per factory
+CREATE UNIQUE INDEX IF NOT EXISTS idx_learning_curves_one_default
+  ON public.learning_curves(factory_id) WHERE is_default;
+
+CREATE TRIGGER learning_curves_updated_at
+  BEFORE UPDATE ON public.learning_curves
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.learning_curves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view learning curves in their factory"
+  ON public.learning_curves FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can manage learning curves"
+  ON public.learning_curves FOR ALL TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()));
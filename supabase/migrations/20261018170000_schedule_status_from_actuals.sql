@@ -0,0 +1,54 @@
+-- Derive production_schedule.status from sewing output instead of setting it by hand.
+-- The schedule page refines "delayed" against the daily plan; this keeps the
+-- stored status honest for anything reading the table directly (e.g. the
+-- schedule-start notifications, which only look at 'not_started' rows).
+
+CREATE OR REPLACE FUNCTION public.refresh_schedule_status(p_line_id UUID, p_work_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  sewn BIGINT;
+  order_qty INTEGER;
+BEGIN
+  SELECT COALESCE(SUM(sa.good_today), 0) INTO sewn
+  FROM sewing_actuals sa
+  WHERE sa.line_id = p_line_id AND sa.work_order_id = p_work_order_id;
+
+  SELECT wo.order_qty INTO order_qty FROM work_orders wo WHERE wo.id = p_work_order_id;
+
+  UPDATE production_schedule ps
+  SET status = CASE
+    WHEN sewn >= COALESCE(ps.target_qty, order_qty) AND sewn > 0 THEN 'completed'
+    WHEN ps.end_date < CURRENT_DATE THEN 'delayed'
+    WHEN sewn > 0 OR ps.start_date <= CURRENT_DATE THEN 'in_progress'
+    ELSE 'not_started'
+  END
+  WHERE ps.line_id = p_line_id
+    AND ps.work_order_id = p_work_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_schedule_status_from_actuals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_schedule_status(OLD.line_id, OLD.work_order_id);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM refresh_schedule_status(NEW.line_id, NEW.work_order_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_sync_schedule_status_from_actuals
+  AFTER INSERT OR UPDATE OF good_today, line_id, work_order_id OR DELETE ON public.sewing_actuals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_schedule_status_from_actuals();
@@ -0,0 +1,183 @@
+-- What-if scenarios for the production schedule
+-- A scenario is a named copy of production_schedule that planners can edit
+-- freely. It may also hold what-if orders that don't exist as work orders yet
+-- ("what if we take this 20k order"). Promoting a scenario replaces the live
+-- schedule with its bookings in one transaction.
+
+CREATE TABLE IF NOT EXISTS public.schedule_scenarios (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'promoted')),
+  promoted_at TIMESTAMPTZ,
+  promoted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Orders that only exist inside a scenario
+CREATE TABLE IF NOT EXISTS public.schedule_scenario_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scenario_id UUID NOT NULL REFERENCES public.schedule_scenarios(id) ON DELETE CASCADE,
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  po_number TEXT NOT NULL,
+  buyer TEXT NOT NULL,
+  style TEXT NOT NULL,
+  item TEXT,
+  order_qty INTEGER NOT NULL CHECK (order_qty > 0),
+  planned_ex_factory DATE,
+  smv NUMERIC,
+  target_per_day INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Same shape as production_schedule; each booking is for a real work order
+-- or a scenario order, never both
+CREATE TABLE IF NOT EXISTS public.schedule_scenario_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scenario_id UUID NOT NULL REFERENCES public.schedule_scenarios(id) ON DELETE CASCADE,
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  work_order_id UUID REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  scenario_order_id UUID REFERENCES public.schedule_scenario_orders(id) ON DELETE CASCADE,
+  line_id UUID NOT NULL REFERENCES public.lines(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  target_qty INTEGER,
+  daily_target INTEGER,
+  priority INTEGER DEFAULT 0,
+  colour TEXT,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((work_order_id IS NULL) <> (scenario_order_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_scenarios_factory ON public.schedule_scenarios(factory_id);
+CREATE INDEX IF NOT EXISTS idx_schedule_scenario_orders_scenario ON public.schedule_scenario_orders(scenario_id);
+CREATE INDEX IF NOT EXISTS idx_schedule_scenario_entries_scenario ON public.schedule_scenario_entries(scenario_id);
+
+CREATE TRIGGER schedule_scenarios_updated_at
+  BEFORE UPDATE ON public.schedule_scenarios
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER schedule_scenario_entries_updated_at
+  BEFORE UPDATE ON public.schedule_scenario_entries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS: everyone in the factory can look, admins plan (as for production_schedule)
+ALTER TABLE public.schedule_scenarios ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.schedule_scenario_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.schedule_scenario_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view schedule scenarios in their factory"
+  ON public.schedule_scenarios FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can manage schedule scenarios"
+  ON public.schedule_scenarios FOR ALL TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()));
+
+CREATE POLICY "Users can view scenario orders in their factory"
+  ON public.schedule_scenario_orders FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can manage scenario orders"
+  ON public.schedule_scenario_orders FOR ALL TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()));
+
+CREATE POLICY "Users can view scenario bookings in their factory"
+  ON public.schedule_scenario_entries FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can manage scenario bookings"
+  ON public.schedule_scenario_entries FOR ALL TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()));
+
+-- Copy the live schedule into a new draft scenario
+CREATE OR REPLACE FUNCTION public.create_schedule_scenario(p_name TEXT, p_notes TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_factory UUID := get_user_factory_id(auth.uid());
+  v_id UUID;
+BEGIN
+  IF v_factory IS NULL OR NOT is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can create schedule scenarios';
+  END IF;
+
+  INSERT INTO schedule_scenarios (factory_id, name, notes, created_by)
+  VALUES (v_factory, p_name, p_notes, auth.uid())
+  RETURNING id INTO v_id;
+
+  INSERT INTO schedule_scenario_entries
+    (scenario_id, factory_id, work_order_id, line_id, start_date, end_date, target_qty, daily_target, priority, colour, notes)
+  SELECT v_id, ps.factory_id, ps.work_order_id, ps.line_id, ps.start_date, ps.end_date,
+         ps.target_qty, ps.daily_target, ps.priority, ps.colour, ps.notes
+  FROM production_schedule ps
+  WHERE ps.factory_id = v_factory;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Replace the live schedule with a scenario's bookings. What-if orders must be
+-- removed (or entered as real POs and re-booked) first.
+CREATE OR REPLACE FUNCTION public.promote_schedule_scenario(p_scenario_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_factory UUID;
+  v_status TEXT;
+  v_what_if INTEGER;
+  v_count INTEGER;
+BEGIN
+  SELECT factory_id, status INTO v_factory, v_status
+  FROM schedule_scenarios WHERE id = p_scenario_id
+  FOR UPDATE;
+
+  IF v_factory IS NULL OR v_factory <> get_user_factory_id(auth.uid()) OR NOT is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Scenario not found';
+  END IF;
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Scenario has already been promoted';
+  END IF;
+
+  SELECT count(*) INTO v_what_if
+  FROM schedule_scenario_entries
+  WHERE scenario_id = p_scenario_id AND scenario_order_id IS NOT NULL;
+  IF v_what_if > 0 THEN
+    RAISE EXCEPTION 'Scenario still books % what-if order(s); remove them before promoting', v_what_if;
+  END IF;
+
+  DELETE FROM production_schedule WHERE factory_id = v_factory;
+
+  INSERT INTO production_schedule
+    (factory_id, work_order_id, line_id, start_date, end_date, target_qty, daily_target, priority, colour, notes, created_by)
+  SELECT v_factory, e.work_order_id, e.line_id, e.start_date, e.end_date,
+         e.target_qty, e.daily_target, e.priority, e.colour, e.notes, auth.uid()
+  FROM schedule_scenario_entries e
+  WHERE e.scenario_id = p_scenario_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  -- Bring derived statuses in line with output already sewn
+  PERFORM refresh_schedule_status(ps.line_id, ps.work_order_id)
+  FROM (SELECT DISTINCT line_id, work_order_id FROM production_schedule WHERE factory_id = v_factory) ps;
+
+  UPDATE schedule_scenarios
+  SET status = 'promoted', promoted_at = now(), promoted_by = auth.uid()
+  WHERE id = p_scenario_id;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,131 @@
+-- Time & Action (T&A) calendar: pre-production and shipping milestones per PO
+-- A template lists milestones with how many working days before ex-factory
+-- each is due. Generating a PO's plan snapshots the template into
+-- po_milestones, so later template edits don't move existing plans.
+-- A template applies to a product category (work_orders.item) or, when
+-- is_default, to everything else.
+
+CREATE TABLE IF NOT EXISTS public.tna_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  product_category TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tna_templates_factory
+  ON public.tna_templates(factory_id);
+
+-- One default template per factory
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tna_templates_one_default
+  ON public.tna_templates(factory_id) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS public.tna_template_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.tna_templates(id) ON DELETE CASCADE,
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  milestone_code TEXT NOT NULL,
+  label TEXT NOT NULL,
+  days_before INT NOT NULL CHECK (days_before >= 0),
+  item_order INT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (template_id, milestone_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tna_template_items_template
+  ON public.tna_template_items(template_id);
+
+CREATE TABLE IF NOT EXISTS public.po_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  template_id UUID REFERENCES public.tna_templates(id) ON DELETE SET NULL,
+  -- Snapshot from the template at generate time
+  milestone_code TEXT NOT NULL,
+  label TEXT NOT NULL,
+  days_before INT NOT NULL,
+  item_order INT NOT NULL,
+  planned_date DATE NOT NULL,
+  actual_date DATE,
+  owner_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  notes TEXT,
+  -- Set when the overdue alert goes out; cleared when the planned date moves
+  overdue_notified_at TIMESTAMPTZ,
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (work_order_id, milestone_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_po_milestones_work_order
+  ON public.po_milestones(work_order_id);
+
+-- Open milestones, for the daily overdue sweep
+CREATE INDEX IF NOT EXISTS idx_po_milestones_open
+  ON public.po_milestones(factory_id, planned_date) WHERE actual_date IS NULL;
+
+CREATE TRIGGER tna_templates_updated_at
+  BEFORE UPDATE ON public.tna_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER po_milestones_updated_at
+  BEFORE UPDATE ON public.po_milestones
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tna_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tna_template_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.po_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view T&A templates in their factory"
+  ON public.tna_templates FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can manage T&A templates"
+  ON public.tna_templates FOR ALL TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()));
+
+CREATE POLICY "Users can view T&A template items in their factory"
+  ON public.tna_template_items FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can manage T&A template items"
+  ON public.tna_template_items FOR ALL TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()));
+
+CREATE POLICY "Users can view PO milestones in their factory"
+  ON public.po_milestones FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins can manage PO milestones"
+  ON public.po_milestones FOR ALL TO authenticated
+  USING (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (is_admin_or_higher(auth.uid()) AND factory_id = get_user_factory_id(auth.uid()));
+
+-- Milestone owners record their own actual dates
+CREATE POLICY "Owners can update their PO milestones"
+  ON public.po_milestones FOR UPDATE TO authenticated
+  USING (owner_id = auth.uid() AND factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (owner_id = auth.uid() AND factory_id = get_user_factory_id(auth.uid()));
+
+-- A new planned date is a new deadline: allow the overdue alert to fire again
+CREATE OR REPLACE FUNCTION public.reset_milestone_overdue_notice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.planned_date IS DISTINCT FROM OLD.planned_date THEN
+    NEW.overdue_notified_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_reset_milestone_overdue_notice
+  BEFORE UPDATE ON public.po_milestones
+  FOR EACH ROW EXECUTE FUNCTION public.reset_milestone_overdue_notice();
@@ -0,0 +1,40 @@
+-- Material requirement per PO, for checking materials are in-house before a
+-- booking starts. Without a row here the requirement comes from the PO's cost
+-- sheet fabric consumption; a row overrides it with a manually entered
+-- quantity, in the same unit the store records on the PO's bin card.
+
+CREATE TABLE IF NOT EXISTS public.po_material_requirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  required_qty NUMERIC NOT NULL CHECK (required_qty > 0),
+  notes TEXT,
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (work_order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_po_material_requirements_factory
+  ON public.po_material_requirements(factory_id);
+
+CREATE TRIGGER po_material_requirements_updated_at
+  BEFORE UPDATE ON public.po_material_requirements
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.po_material_requirements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view material requirements in their factory"
+  ON public.po_material_requirements FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Storage users and admins can manage material requirements"
+  ON public.po_material_requirements FOR ALL TO authenticated
+  USING (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (has_storage_role(auth.uid()) OR is_admin_or_higher(auth.uid()))
+  )
+  WITH CHECK (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (has_storage_role(auth.uid()) OR is_admin_or_higher(auth.uid()))
+  );
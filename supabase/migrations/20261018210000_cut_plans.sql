@@ -0,0 +1,89 @@
+-- Cut planning before cutting. A PO's cut plan holds the quantity to cut by
+-- colour and size (`breakdown`: [{ "colour": "Navy", "quantities": { "S": 120,
+-- "M": 240 } }]) and the lays proposed to cover it. Each lay is one colour
+-- spread `plies` high under a marker cutting `marker_ratio` garments per size
+-- per ply. The cutting end-of-day report records what each lay actually gave.
+
+CREATE TABLE IF NOT EXISTS public.cut_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  sizes TEXT[] NOT NULL DEFAULT '{}',
+  breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  allowance_pct NUMERIC NOT NULL DEFAULT 3 CHECK (allowance_pct >= 0 AND allowance_pct <= 50),
+  max_plies INTEGER NOT NULL DEFAULT 100 CHECK (max_plies > 0),
+  max_marker_pieces INTEGER NOT NULL DEFAULT 6 CHECK (max_marker_pieces > 0),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (work_order_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.cut_lays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  cut_plan_id UUID NOT NULL REFERENCES public.cut_plans(id) ON DELETE CASCADE,
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  lay_no INTEGER NOT NULL,
+  colour TEXT NOT NULL,
+  marker_ratio JSONB NOT NULL DEFAULT '{}'::jsonb,
+  plies INTEGER NOT NULL CHECK (plies > 0),
+  -- Fabric per ply, in the cost sheet's consumption unit
+  marker_length NUMERIC CHECK (marker_length > 0),
+  marker_efficiency NUMERIC CHECK (marker_efficiency > 0 AND marker_efficiency <= 100),
+  status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'cut')),
+  actual_plies INTEGER CHECK (actual_plies >= 0),
+  fabric_used NUMERIC CHECK (fabric_used >= 0),
+  cut_date DATE,
+  line_id UUID REFERENCES public.lines(id) ON DELETE SET NULL,
+  recorded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (cut_plan_id, lay_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cut_plans_factory ON public.cut_plans(factory_id);
+CREATE INDEX IF NOT EXISTS idx_cut_lays_work_order ON public.cut_lays(work_order_id);
+CREATE INDEX IF NOT EXISTS idx_cut_lays_cut_date ON public.cut_lays(factory_id, cut_date);
+
+CREATE TRIGGER cut_plans_updated_at
+  BEFORE UPDATE ON public.cut_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER cut_lays_updated_at
+  BEFORE UPDATE ON public.cut_lays
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.cut_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cut_lays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cut plans in their factory"
+  ON public.cut_plans FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins and cutting users can manage cut plans"
+  ON public.cut_plans FOR ALL TO authenticated
+  USING (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (has_role(auth.uid(), 'cutting') OR is_admin_or_higher(auth.uid()))
+  )
+  WITH CHECK (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (has_role(auth.uid(), 'cutting') OR is_admin_or_higher(auth.uid()))
+  );
+
+CREATE POLICY "Users can view cut lays in their factory"
+  ON public.cut_lays FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins and cutting users can manage cut lays"
+  ON public.cut_lays FOR ALL TO authenticated
+  USING (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (has_role(auth.uid(), 'cutting') OR is_admin_or_higher(auth.uid()))
+  )
+  WITH CHECK (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (has_role(auth.uid(), 'cutting') OR is_admin_or_higher(auth.uid()))
+  );
@@ -0,0 +1,23 @@
+-- Size × colour quantities for POs and the submissions that produce them.
+-- `size_breakdown` is [{ "colour": "Navy", "quantities": { "S": 120, "M": 240 } }].
+-- On a work order it is the ordered quantity per colour and size, with
+-- `sizes` giving the size order; on a submission it is that day's output split
+-- the same way. NULL means the quantity was only entered as a total.
+
+ALTER TABLE public.work_orders
+  ADD COLUMN IF NOT EXISTS sizes TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS size_breakdown JSONB;
+
+ALTER TABLE public.cutting_actuals
+  ADD COLUMN IF NOT EXISTS size_breakdown JSONB;
+
+ALTER TABLE public.sewing_actuals
+  ADD COLUMN IF NOT EXISTS size_breakdown JSONB;
+
+ALTER TABLE public.finishing_daily_logs
+  ADD COLUMN IF NOT EXISTS size_breakdown JSONB;
+
+COMMENT ON COLUMN public.work_orders.size_breakdown IS 'Ordered pieces by colour and size: [{colour, quantities: {size: qty}}]';
+COMMENT ON COLUMN public.cutting_actuals.size_breakdown IS 'day_cutting split by colour and size, when entered by matrix';
+COMMENT ON COLUMN public.sewing_actuals.size_breakdown IS 'good_today split by colour and size, when entered by matrix';
+COMMENT ON COLUMN public.finishing_daily_logs.size_breakdown IS 'Packed (poly) pieces split by colour and size, when entered by matrix';
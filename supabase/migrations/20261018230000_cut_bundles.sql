@@ -0,0 +1,66 @@
+-- Cut bundles made from cutting output. Each bundle is one colour and size
+-- of a PO, `quantity` pieces from plies `ply_from`–`ply_to`, and is printed
+-- as a ticket whose QR code holds `code`. Sewing scans the ticket when the
+-- bundle is issued to a line (status 'issued', `line_id` set) and again when
+-- the sewn bundle leaves the line (status 'completed').
+
+CREATE TABLE IF NOT EXISTS public.cut_bundles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  work_order_id UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  cutting_actual_id UUID REFERENCES public.cutting_actuals(id) ON DELETE SET NULL,
+  bundle_no INTEGER NOT NULL CHECK (bundle_no > 0),
+  code TEXT NOT NULL,
+  colour TEXT NOT NULL,
+  size TEXT NOT NULL,
+  shade TEXT,
+  ply_from INTEGER NOT NULL CHECK (ply_from > 0),
+  ply_to INTEGER NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status TEXT NOT NULL DEFAULT 'cut' CHECK (status IN ('cut', 'issued', 'completed')),
+  line_id UUID REFERENCES public.lines(id) ON DELETE SET NULL,
+  issued_at TIMESTAMPTZ,
+  issued_by UUID REFERENCES auth.users(id),
+  completed_at TIMESTAMPTZ,
+  completed_by UUID REFERENCES auth.users(id),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ply_to >= ply_from),
+  UNIQUE (work_order_id, bundle_no),
+  UNIQUE (factory_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cut_bundles_work_order ON public.cut_bundles(work_order_id);
+CREATE INDEX IF NOT EXISTS idx_cut_bundles_open ON public.cut_bundles(factory_id, status) WHERE status <> 'completed';
+CREATE INDEX IF NOT EXISTS idx_cut_bundles_line ON public.cut_bundles(line_id, status);
+
+CREATE TRIGGER cut_bundles_updated_at
+  BEFORE UPDATE ON public.cut_bundles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.cut_bundles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view cut bundles in their factory"
+  ON public.cut_bundles FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+CREATE POLICY "Admins and cutting users can create cut bundles"
+  ON public.cut_bundles FOR INSERT TO authenticated
+  WITH CHECK (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (has_role(auth.uid(), 'cutting') OR is_admin_or_higher(auth.uid()))
+  );
+
+CREATE POLICY "Admins and cutting users can delete cut bundles"
+  ON public.cut_bundles FOR DELETE TO authenticated
+  USING (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (has_role(auth.uid(), 'cutting') OR is_admin_or_higher(auth.uid()))
+  );
+
+-- Scanning happens on the sewing floor, so any factory user can move a bundle
+CREATE POLICY "Factory users can scan cut bundles"
+  ON public.cut_bundles FOR UPDATE TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()))
+  WITH CHECK (factory_id = get_user_factory_id(auth.uid()));
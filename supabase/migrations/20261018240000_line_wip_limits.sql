@@ -0,0 +1,13 @@
+-- Line WIP limits
+-- WIP on a sewing line (cutting input not yet sewn) is measured in days at the
+-- line's recent run rate. Below the minimum a line is about to run out of work;
+-- above the maximum it is holding more cut panels than it can sew. NULL falls
+-- back to the app defaults (half a day and three days).
+
+ALTER TABLE public.factory_accounts
+  ADD COLUMN IF NOT EXISTS wip_min_days NUMERIC CHECK (wip_min_days IS NULL OR wip_min_days >= 0),
+  ADD COLUMN IF NOT EXISTS wip_max_days NUMERIC CHECK (wip_max_days IS NULL OR wip_max_days > 0);
+
+-- Input per line is read from cutting submissions by line
+CREATE INDEX IF NOT EXISTS idx_cutting_actuals_line_work_order
+  ON public.cutting_actuals(line_id, work_order_id);
@@ -0,0 +1,130 @@
+-- AQL inspections: final and pre-final lot inspections sampled per
+-- ISO 2859-1 / ANSI Z1.4. The sampling plan (code letter, sample size and
+-- Ac/Re per defect class) is computed in the app from the lot quantity,
+-- inspection level and AQLs, and stored on the record so a submitted
+-- inspection keeps the plan it was judged against. Defects found in the
+-- sample are logged per catalogue defect with a name snapshot.
+
+CREATE TABLE IF NOT EXISTS public.qc_aql_inspections (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id        UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  work_order_id     UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  inspection_type   TEXT NOT NULL DEFAULT 'final'
+                    CHECK (inspection_type IN ('pre_final','final')),
+  inspection_date   DATE NOT NULL,
+  lot_qty           INT NOT NULL CHECK (lot_qty > 0),
+  inspection_level  TEXT NOT NULL DEFAULT 'II'
+                    CHECK (inspection_level IN ('I','II','III')),
+  aql_critical      NUMERIC(3,1) NOT NULL DEFAULT 0,
+  aql_major         NUMERIC(3,1) NOT NULL DEFAULT 2.5,
+  aql_minor         NUMERIC(3,1) NOT NULL DEFAULT 4.0,
+  code_letter       TEXT NOT NULL,
+  sample_size       INT NOT NULL CHECK (sample_size > 0),
+  critical_ac       INT NOT NULL CHECK (critical_ac >= 0),
+  critical_re       INT NOT NULL,
+  major_ac          INT NOT NULL CHECK (major_ac >= 0),
+  major_re          INT NOT NULL,
+  minor_ac          INT NOT NULL CHECK (minor_ac >= 0),
+  minor_re          INT NOT NULL,
+  result            TEXT NOT NULL DEFAULT 'pending'
+                    CHECK (result IN ('pending','pass','fail')),
+  status            TEXT NOT NULL DEFAULT 'in_progress'
+                    CHECK (status IN ('in_progress','submitted')),
+  inspector_id      UUID NOT NULL,
+  submitted_at      TIMESTAMPTZ,
+  notes             TEXT,
+  created_by        UUID NOT NULL,
+  updated_by        UUID,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (aql_critical IN (0, 1.0, 1.5, 2.5, 4.0)),
+  CHECK (aql_major IN (0, 1.0, 1.5, 2.5, 4.0)),
+  CHECK (aql_minor IN (0, 1.0, 1.5, 2.5, 4.0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_aql_inspections_factory_date ON public.qc_aql_inspections(factory_id, inspection_date DESC);
+CREATE INDEX IF NOT EXISTS idx_qc_aql_inspections_wo ON public.qc_aql_inspections(work_order_id);
+
+CREATE TABLE IF NOT EXISTS public.qc_aql_defects (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  inspection_id   UUID NOT NULL REFERENCES public.qc_aql_inspections(id) ON DELETE CASCADE,
+  defect_code     TEXT NOT NULL,
+  defect_name     TEXT NOT NULL,
+  severity        TEXT NOT NULL CHECK (severity IN ('critical','major','minor')),
+  quantity        INT NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  notes           TEXT,
+  created_by      UUID,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_aql_defects_inspection ON public.qc_aql_defects(inspection_id);
+
+CREATE TRIGGER trg_qc_aql_inspections_updated_at
+  BEFORE UPDATE ON public.qc_aql_inspections
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.qc_aql_inspections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qc_aql_defects     ENABLE ROW LEVEL SECURITY;
+
+-- ---- Inspections
+CREATE POLICY "QC: qc + admins manage AQL inspections"
+  ON public.qc_aql_inspections FOR ALL
+  TO authenticated
+  USING (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+  )
+  WITH CHECK (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+  );
+
+-- Buyers see the outcome of submitted inspections on POs assigned to them
+CREATE POLICY "Buyers can view submitted AQL inspections for assigned POs"
+  ON public.qc_aql_inspections FOR SELECT
+  TO authenticated
+  USING (
+    is_buyer_role(auth.uid())
+    AND status = 'submitted'
+    AND factory_id = get_user_factory_id(auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.buyer_po_access bpa
+      WHERE bpa.work_order_id = qc_aql_inspections.work_order_id AND bpa.user_id = auth.uid()
+    )
+  );
+
+-- ---- Defects
+CREATE POLICY "QC: qc + admins manage AQL defects"
+  ON public.qc_aql_defects FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.qc_aql_inspections i
+      WHERE i.id = inspection_id
+        AND i.factory_id = get_user_factory_id(auth.uid())
+        AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.qc_aql_inspections i
+      WHERE i.id = inspection_id
+        AND i.factory_id = get_user_factory_id(auth.uid())
+        AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    )
+  );
+
+CREATE POLICY "Buyers can view defects on submitted AQL inspections for assigned POs"
+  ON public.qc_aql_defects FOR SELECT
+  TO authenticated
+  USING (
+    is_buyer_role(auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM public.qc_aql_inspections i
+      JOIN public.buyer_po_access bpa ON bpa.work_order_id = i.work_order_id
+      WHERE i.id = inspection_id
+        AND i.status = 'submitted'
+        AND i.factory_id = get_user_factory_id(auth.uid())
+        AND bpa.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,124 @@
+-- Defect catalogue and in-line / end-line defect checks.
+-- Each factory keeps its own catalogue of sewing defects grouped by the
+-- operation that causes them. Checkers record how many pieces they looked at
+-- on a line for an hour and how many of each catalogue defect they found, so
+-- DHU (defects per hundred units) can be broken down by line, operation and
+-- operator. In-line checks are per operator; end-line checks leave it blank.
+
+CREATE TABLE IF NOT EXISTS public.qc_defect_types (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id      UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  code            TEXT NOT NULL,
+  name            TEXT NOT NULL,
+  operation       TEXT NOT NULL,
+  severity        TEXT NOT NULL DEFAULT 'major'
+                  CHECK (severity IN ('critical','major','minor')),
+  sort_order      INT NOT NULL DEFAULT 0,
+  is_active       BOOLEAN NOT NULL DEFAULT true,
+  created_by      UUID,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (factory_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_defect_types_factory ON public.qc_defect_types(factory_id, operation, sort_order);
+
+CREATE TABLE IF NOT EXISTS public.qc_defect_checks (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id      UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  work_order_id   UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  line_id         UUID NOT NULL REFERENCES public.lines(id) ON DELETE CASCADE,
+  check_date      DATE NOT NULL,
+  shift_id        UUID REFERENCES public.factory_shifts(id) ON DELETE SET NULL,
+  -- Same keys as sewing_hourly_logs: '08-09', 'OT-1' …
+  hour_slot       TEXT NOT NULL,
+  check_point     TEXT NOT NULL CHECK (check_point IN ('inline','endline')),
+  operator_name   TEXT,
+  pieces_checked  INT NOT NULL CHECK (pieces_checked > 0),
+  notes           TEXT,
+  checked_by      UUID NOT NULL,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_defect_checks_factory_date ON public.qc_defect_checks(factory_id, check_date DESC);
+CREATE INDEX IF NOT EXISTS idx_qc_defect_checks_line ON public.qc_defect_checks(line_id, check_date);
+CREATE INDEX IF NOT EXISTS idx_qc_defect_checks_wo ON public.qc_defect_checks(work_order_id);
+
+-- Code, name and operation are snapshots so history survives catalogue edits
+CREATE TABLE IF NOT EXISTS public.qc_defect_check_items (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  check_id        UUID NOT NULL REFERENCES public.qc_defect_checks(id) ON DELETE CASCADE,
+  defect_type_id  UUID REFERENCES public.qc_defect_types(id) ON DELETE SET NULL,
+  defect_code     TEXT NOT NULL,
+  defect_name     TEXT NOT NULL,
+  operation       TEXT NOT NULL,
+  quantity        INT NOT NULL CHECK (quantity > 0),
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_defect_check_items_check ON public.qc_defect_check_items(check_id);
+
+CREATE TRIGGER trg_qc_defect_types_updated_at
+  BEFORE UPDATE ON public.qc_defect_types
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER trg_qc_defect_checks_updated_at
+  BEFORE UPDATE ON public.qc_defect_checks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.qc_defect_types       ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qc_defect_checks      ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qc_defect_check_items ENABLE ROW LEVEL SECURITY;
+
+-- ---- Catalogue: everyone in the factory reads it, admins maintain it
+CREATE POLICY "Users can view defect types in their factory"
+  ON public.qc_defect_types FOR SELECT
+  TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()));
+
+CREATE POLICY "Admins manage defect types"
+  ON public.qc_defect_types FOR ALL
+  TO authenticated
+  USING (
+    factory_id = get_user_factory_id(auth.uid())
+    AND is_admin_or_higher(auth.uid())
+  )
+  WITH CHECK (
+    factory_id = get_user_factory_id(auth.uid())
+    AND is_admin_or_higher(auth.uid())
+  );
+
+-- ---- Checks
+CREATE POLICY "QC: qc + admins manage defect checks"
+  ON public.qc_defect_checks FOR ALL
+  TO authenticated
+  USING (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+  )
+  WITH CHECK (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+  );
+
+-- ---- Check items (scoped through the parent check)
+CREATE POLICY "QC: qc + admins manage defect check items"
+  ON public.qc_defect_check_items FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.qc_defect_checks c
+      WHERE c.id = qc_defect_check_items.check_id
+        AND c.factory_id = get_user_factory_id(auth.uid())
+        AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.qc_defect_checks c
+      WHERE c.id = qc_defect_check_items.check_id
+        AND c.factory_id = get_user_factory_id(auth.uid())
+        AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    )
+  );
@@ -0,0 +1,217 @@
+-- Measurement spec sheets and point-of-measure checks.
+-- A spec sheet belongs to a style and lists each point of measure (POM) with
+-- its target per size (`specs` = {"S": 48, "M": 50}) and a −/+ tolerance.
+-- A measurement check measures a few samples of one size against it and is
+-- attached to a daily QC sheet or an order tracker, the same polymorphic
+-- source used by qc_issues. The points are snapshotted onto the check so
+-- later spec edits don't change what a signed-off record was judged against.
+
+CREATE TABLE IF NOT EXISTS public.qc_spec_sheets (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id      UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  style           TEXT NOT NULL,
+  buyer           TEXT,
+  name            TEXT NOT NULL,
+  unit            TEXT NOT NULL DEFAULT 'cm' CHECK (unit IN ('cm','inch')),
+  sizes           TEXT[] NOT NULL DEFAULT '{}',
+  notes           TEXT,
+  is_active       BOOLEAN NOT NULL DEFAULT true,
+  created_by      UUID,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (factory_id, style, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_spec_sheets_factory_style ON public.qc_spec_sheets(factory_id, style);
+
+CREATE TABLE IF NOT EXISTS public.qc_spec_points (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  spec_sheet_id   UUID NOT NULL REFERENCES public.qc_spec_sheets(id) ON DELETE CASCADE,
+  code            TEXT NOT NULL,
+  name            TEXT NOT NULL,
+  tol_minus       NUMERIC(8,3) NOT NULL DEFAULT 0 CHECK (tol_minus >= 0),
+  tol_plus        NUMERIC(8,3) NOT NULL DEFAULT 0 CHECK (tol_plus >= 0),
+  specs           JSONB NOT NULL DEFAULT '{}',
+  sort_order      INT NOT NULL DEFAULT 0,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (spec_sheet_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_spec_points_sheet ON public.qc_spec_points(spec_sheet_id, sort_order);
+
+CREATE TABLE IF NOT EXISTS public.qc_measurement_checks (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  factory_id        UUID NOT NULL REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  work_order_id     UUID NOT NULL REFERENCES public.work_orders(id) ON DELETE CASCADE,
+  source_type       TEXT NOT NULL CHECK (source_type IN ('order_tracker','daily_sheet')),
+  source_record_id  UUID NOT NULL,        -- tracker_id or sheet_id (polymorphic, no FK)
+  spec_sheet_id     UUID REFERENCES public.qc_spec_sheets(id) ON DELETE SET NULL,
+  spec_name         TEXT NOT NULL,
+  unit              TEXT NOT NULL CHECK (unit IN ('cm','inch')),
+  size              TEXT NOT NULL,
+  colour            TEXT,
+  sample_count      INT NOT NULL CHECK (sample_count BETWEEN 1 AND 10),
+  notes             TEXT,
+  inspector_id      UUID NOT NULL,
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_measurement_checks_source ON public.qc_measurement_checks(source_type, source_record_id);
+CREATE INDEX IF NOT EXISTS idx_qc_measurement_checks_wo ON public.qc_measurement_checks(work_order_id);
+
+-- One row per point of measure; `measured` holds a reading per sample (NULL = not measured yet)
+CREATE TABLE IF NOT EXISTS public.qc_measurement_points (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  check_id        UUID NOT NULL REFERENCES public.qc_measurement_checks(id) ON DELETE CASCADE,
+  code            TEXT NOT NULL,
+  name            TEXT NOT NULL,
+  spec            NUMERIC(8,3) NOT NULL,
+  tol_minus       NUMERIC(8,3) NOT NULL,
+  tol_plus        NUMERIC(8,3) NOT NULL,
+  sort_order      INT NOT NULL DEFAULT 0,
+  measured        NUMERIC(8,3)[] NOT NULL DEFAULT '{}',
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (check_id, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_measurement_points_check ON public.qc_measurement_points(check_id, sort_order);
+
+CREATE TRIGGER trg_qc_spec_sheets_updated_at
+  BEFORE UPDATE ON public.qc_spec_sheets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER trg_qc_measurement_checks_updated_at
+  BEFORE UPDATE ON public.qc_measurement_checks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER trg_qc_measurement_points_updated_at
+  BEFORE UPDATE ON public.qc_measurement_points
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ───────────────────────────────────────────────────────────────────
+-- Sign-off lock — measurements follow their parent sheet / tracker, like
+-- the checklist items (see qc_phase5_lock_and_audit).
+-- ───────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.qc_measurement_parent_status(p_source_type TEXT, p_source_id UUID)
+RETURNS TEXT LANGUAGE sql STABLE AS $$
+  SELECT CASE p_source_type
+    WHEN 'daily_sheet'   THEN (SELECT status FROM public.qc_daily_sheets WHERE id = p_source_id)
+    WHEN 'order_tracker' THEN (SELECT status FROM public.qc_order_trackers WHERE id = p_source_id)
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.qc_block_measurement_check_when_locked()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_row public.qc_measurement_checks;
+BEGIN
+  v_row := COALESCE(NEW, OLD);
+  IF public.qc_measurement_parent_status(v_row.source_type, v_row.source_record_id) = 'signed_off'
+     AND NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Parent QC record is signed off and read-only.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END $$;
+
+DROP TRIGGER IF EXISTS trg_qc_measurement_checks_lock ON public.qc_measurement_checks;
+CREATE TRIGGER trg_qc_measurement_checks_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.qc_measurement_checks
+  FOR EACH ROW EXECUTE FUNCTION public.qc_block_measurement_check_when_locked();
+
+CREATE OR REPLACE FUNCTION public.qc_block_measurement_point_when_locked()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT public.qc_measurement_parent_status(c.source_type, c.source_record_id) INTO v_status
+    FROM public.qc_measurement_checks c
+   WHERE c.id = COALESCE(NEW.check_id, OLD.check_id);
+
+  IF v_status = 'signed_off'
+     AND NOT public.is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Parent QC record is signed off and read-only.'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END $$;
+
+DROP TRIGGER IF EXISTS trg_qc_measurement_points_lock ON public.qc_measurement_points;
+CREATE TRIGGER trg_qc_measurement_points_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.qc_measurement_points
+  FOR EACH ROW EXECUTE FUNCTION public.qc_block_measurement_point_when_locked();
+
+-- ───────────────────────────────────────────────────────────────────
+-- RLS
+-- ───────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.qc_spec_sheets        ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qc_spec_points        ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qc_measurement_checks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qc_measurement_points ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "QC: qc + admins manage spec sheets"
+  ON public.qc_spec_sheets FOR ALL
+  TO authenticated
+  USING (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+  )
+  WITH CHECK (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+  );
+
+CREATE POLICY "QC: qc + admins manage spec points"
+  ON public.qc_spec_points FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.qc_spec_sheets s
+      WHERE s.id = qc_spec_points.spec_sheet_id
+        AND s.factory_id = get_user_factory_id(auth.uid())
+        AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.qc_spec_sheets s
+      WHERE s.id = qc_spec_points.spec_sheet_id
+        AND s.factory_id = get_user_factory_id(auth.uid())
+        AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    )
+  );
+
+CREATE POLICY "QC: qc + admins manage measurement checks"
+  ON public.qc_measurement_checks FOR ALL
+  TO authenticated
+  USING (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+  )
+  WITH CHECK (
+    factory_id = get_user_factory_id(auth.uid())
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+  );
+
+CREATE POLICY "QC: qc + admins manage measurement points"
+  ON public.qc_measurement_points FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.qc_measurement_checks c
+      WHERE c.id = qc_measurement_points.check_id
+        AND c.factory_id = get_user_factory_id(auth.uid())
+        AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.qc_measurement_checks c
+      WHERE c.id = qc_measurement_points.check_id
+        AND c.factory_id = get_user_factory_id(auth.uid())
+        AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    )
+  );
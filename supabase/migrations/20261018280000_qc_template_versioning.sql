@@ -0,0 +1,324 @@
+-- QC checklist template designer: draft → publish versioning, per-buyer
+-- templates and required items.
+--
+-- Admins never edit a live template in place. They edit a draft copy, and
+-- publishing the draft makes it the active version and archives the one it
+-- replaces. Versions of one template share a family_id. Sheets and trackers
+-- keep pointing at the version they started on (template_id is ON DELETE
+-- RESTRICT and items are snapshotted), so publishing never changes work
+-- already in progress.
+
+-- ───────────────────────────────────────────────────────────────────
+-- 1) Template versioning columns
+-- ───────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.qc_checklist_templates
+  ADD COLUMN IF NOT EXISTS family_id    UUID,
+  ADD COLUMN IF NOT EXISTS buyer        TEXT,   -- NULL = every buyer
+  ADD COLUMN IF NOT EXISTS status       TEXT NOT NULL DEFAULT 'published'
+                                        CHECK (status IN ('draft','published','archived')),
+  ADD COLUMN IF NOT EXISTS change_note  TEXT,
+  ADD COLUMN IF NOT EXISTS created_by   UUID,
+  ADD COLUMN IF NOT EXISTS published_by UUID,
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+UPDATE public.qc_checklist_templates SET family_id = id WHERE family_id IS NULL;
+UPDATE public.qc_checklist_templates SET status = 'archived' WHERE NOT is_active AND status = 'published';
+UPDATE public.qc_checklist_templates SET published_at = created_at WHERE status <> 'draft' AND published_at IS NULL;
+
+-- A new template starts its own family
+CREATE OR REPLACE FUNCTION public.qc_template_default_family()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.family_id := COALESCE(NEW.family_id, NEW.id);
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trg_qc_templates_default_family ON public.qc_checklist_templates;
+CREATE TRIGGER trg_qc_templates_default_family
+  BEFORE INSERT ON public.qc_checklist_templates
+  FOR EACH ROW EXECUTE FUNCTION public.qc_template_default_family();
+
+ALTER TABLE public.qc_checklist_templates ALTER COLUMN family_id SET NOT NULL;
+
+ALTER TABLE public.qc_checklist_templates
+  ADD CONSTRAINT qc_checklist_templates_active_is_published CHECK (NOT is_active OR status = 'published');
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_qc_templates_family_version
+  ON public.qc_checklist_templates(family_id, version);
+
+-- One open draft per template
+CREATE UNIQUE INDEX IF NOT EXISTS uq_qc_templates_family_draft
+  ON public.qc_checklist_templates(family_id) WHERE status = 'draft';
+
+-- One live template per factory (or global), kind and buyer
+CREATE UNIQUE INDEX IF NOT EXISTS uq_qc_templates_active_scope
+  ON public.qc_checklist_templates(
+    COALESCE(factory_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    kind,
+    lower(COALESCE(buyer, ''))
+  ) WHERE is_active;
+
+-- ───────────────────────────────────────────────────────────────────
+-- 2) Required items — on the template and snapshotted onto records
+-- ───────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.qc_checklist_template_items
+  ADD COLUMN IF NOT EXISTS is_required BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.qc_daily_sheet_items
+  ADD COLUMN IF NOT EXISTS is_required BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.qc_order_tracker_items
+  ADD COLUMN IF NOT EXISTS is_required BOOLEAN NOT NULL DEFAULT false;
+
+-- Published and archived versions are frozen; only drafts take item edits.
+CREATE OR REPLACE FUNCTION public.qc_block_template_item_unless_draft()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status
+    FROM public.qc_checklist_templates
+   WHERE id = COALESCE(NEW.template_id, OLD.template_id);
+
+  -- v_status is NULL when the template itself is being deleted (cascade)
+  IF v_status IS NOT NULL AND v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Template version is % and read-only. Edit a draft instead.', v_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END $$;
+
+DROP TRIGGER IF EXISTS trg_qc_template_items_draft_only ON public.qc_checklist_template_items;
+CREATE TRIGGER trg_qc_template_items_draft_only
+  BEFORE INSERT OR UPDATE OR DELETE ON public.qc_checklist_template_items
+  FOR EACH ROW EXECUTE FUNCTION public.qc_block_template_item_unless_draft();
+
+-- A required item has to actually be checked — it can't be marked N/A.
+CREATE OR REPLACE FUNCTION public.qc_block_na_on_required_item()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.is_required AND NEW.status = 'na' THEN
+    RAISE EXCEPTION 'Item % is required and cannot be marked N/A.', NEW.item_code
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trg_qc_daily_sheet_items_required_na ON public.qc_daily_sheet_items;
+CREATE TRIGGER trg_qc_daily_sheet_items_required_na
+  BEFORE INSERT OR UPDATE OF status ON public.qc_daily_sheet_items
+  FOR EACH ROW EXECUTE FUNCTION public.qc_block_na_on_required_item();
+
+DROP TRIGGER IF EXISTS trg_qc_order_tracker_items_required_na ON public.qc_order_tracker_items;
+CREATE TRIGGER trg_qc_order_tracker_items_required_na
+  BEFORE INSERT OR UPDATE OF status ON public.qc_order_tracker_items
+  FOR EACH ROW EXECUTE FUNCTION public.qc_block_na_on_required_item();
+
+-- Sign-off can't be requested (or given) while a required item is pending.
+CREATE OR REPLACE FUNCTION public.qc_require_items_before_signoff()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_pending INT;
+BEGIN
+  IF OLD.status = 'in_progress' AND NEW.status IN ('awaiting_signoff','signed_off') THEN
+    IF TG_TABLE_NAME = 'qc_daily_sheets' THEN
+      SELECT count(*) INTO v_pending
+        FROM public.qc_daily_sheet_items
+       WHERE sheet_id = NEW.id AND is_required AND status = 'pending';
+    ELSE
+      SELECT count(*) INTO v_pending
+        FROM public.qc_order_tracker_items
+       WHERE tracker_id = NEW.id AND is_required AND status = 'pending';
+    END IF;
+
+    IF v_pending > 0 THEN
+      RAISE EXCEPTION '% required item(s) still pending.', v_pending
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trg_qc_daily_sheets_require_items ON public.qc_daily_sheets;
+CREATE TRIGGER trg_qc_daily_sheets_require_items
+  BEFORE UPDATE ON public.qc_daily_sheets
+  FOR EACH ROW EXECUTE FUNCTION public.qc_require_items_before_signoff();
+
+DROP TRIGGER IF EXISTS trg_qc_order_trackers_require_items ON public.qc_order_trackers;
+CREATE TRIGGER trg_qc_order_trackers_require_items
+  BEFORE UPDATE ON public.qc_order_trackers
+  FOR EACH ROW EXECUTE FUNCTION public.qc_require_items_before_signoff();
+
+-- ───────────────────────────────────────────────────────────────────
+-- 3) Publish — the draft goes live and whatever it replaces is archived
+-- ───────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.qc_publish_template(
+  p_template_id UUID,
+  p_change_note TEXT DEFAULT NULL
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_t public.qc_checklist_templates;
+BEGIN
+  SELECT * INTO v_t FROM public.qc_checklist_templates WHERE id = p_template_id FOR UPDATE;
+  IF v_t.id IS NULL THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+  IF v_t.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only drafts can be published (this version is %).', v_t.status;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.qc_checklist_template_items WHERE template_id = p_template_id) THEN
+    RAISE EXCEPTION 'A template needs at least one item before it can be published.';
+  END IF;
+
+  -- Retire the live template for the same scope and any older live version
+  -- of this family (its buyer may have changed in the draft).
+  UPDATE public.qc_checklist_templates
+     SET is_active = false, status = 'archived'
+   WHERE id <> p_template_id
+     AND status = 'published'
+     AND (
+       family_id = v_t.family_id
+       OR (
+         kind = v_t.kind
+         AND factory_id IS NOT DISTINCT FROM v_t.factory_id
+         AND lower(COALESCE(buyer, '')) = lower(COALESCE(v_t.buyer, ''))
+       )
+     );
+
+  UPDATE public.qc_checklist_templates
+     SET status       = 'published',
+         is_active    = true,
+         published_at = now(),
+         published_by = auth.uid(),
+         change_note  = COALESCE(NULLIF(trim(p_change_note), ''), change_note)
+   WHERE id = p_template_id;
+END $$;
+
+COMMENT ON FUNCTION public.qc_publish_template IS
+  'Publishes a draft checklist template version and archives the version(s) it replaces. Records already started keep their own version.';
+
+-- ───────────────────────────────────────────────────────────────────
+-- 4) Start RPCs — prefer a template for the PO''s buyer and snapshot
+--    is_required. Otherwise unchanged from phase 3 / phase 5.
+-- ───────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.qc_start_order_tracker(
+  p_factory_id UUID,
+  p_work_order_id UUID,
+  p_created_by UUID
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_template_id UUID;
+  v_template_version INT;
+  v_tracker_id UUID;
+  v_buyer TEXT;
+BEGIN
+  SELECT buyer INTO v_buyer FROM public.work_orders WHERE id = p_work_order_id;
+
+  -- Buyer template first, then factory-specific, then global.
+  SELECT id, version INTO v_template_id, v_template_version
+    FROM public.qc_checklist_templates
+   WHERE kind = 'order_manager'
+     AND is_active = true
+     AND (factory_id = p_factory_id OR factory_id IS NULL)
+     AND (buyer IS NULL OR lower(buyer) = lower(v_buyer))
+   ORDER BY (buyer IS NULL), factory_id NULLS LAST
+   LIMIT 1;
+
+  IF v_template_id IS NULL THEN
+    RAISE EXCEPTION 'No active order_manager template found for factory %', p_factory_id;
+  END IF;
+
+  INSERT INTO public.qc_order_trackers
+    (factory_id, work_order_id, template_id, template_version, created_by)
+  VALUES
+    (p_factory_id, p_work_order_id, v_template_id, v_template_version, p_created_by)
+  RETURNING id INTO v_tracker_id;
+
+  INSERT INTO public.qc_order_tracker_items
+    (tracker_id, section_label, section_order, item_code, item_label, item_guidance, item_order, is_required)
+  SELECT
+    v_tracker_id, section_label, section_order, item_code, item_label, item_guidance, item_order, is_required
+  FROM public.qc_checklist_template_items
+  WHERE template_id = v_template_id;
+
+  RETURN v_tracker_id;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.qc_start_daily_sheet(
+  p_factory_id        UUID,
+  p_work_order_id     UUID,
+  p_line_id           UUID,
+  p_inspection_date   DATE,
+  p_shift             TEXT,
+  p_inspector_id      UUID,
+  p_product_type      TEXT DEFAULT NULL,
+  p_fabric            TEXT DEFAULT NULL,
+  p_target_qty        INT  DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_template_id      UUID;
+  v_template_version INT;
+  v_sheet_id         UUID;
+  v_creator          UUID;
+  v_buyer            TEXT;
+BEGIN
+  SELECT id INTO v_sheet_id
+    FROM public.qc_daily_sheets
+   WHERE work_order_id  = p_work_order_id
+     AND line_id        = p_line_id
+     AND inspection_date = p_inspection_date
+     AND shift          = p_shift;
+  IF v_sheet_id IS NOT NULL THEN
+    RETURN v_sheet_id;
+  END IF;
+
+  SELECT buyer INTO v_buyer FROM public.work_orders WHERE id = p_work_order_id;
+
+  SELECT id, version INTO v_template_id, v_template_version
+    FROM public.qc_checklist_templates
+   WHERE kind = 'daily_qc'
+     AND is_active = true
+     AND (factory_id = p_factory_id OR factory_id IS NULL)
+     AND (buyer IS NULL OR lower(buyer) = lower(v_buyer))
+   ORDER BY (buyer IS NULL), factory_id NULLS LAST
+   LIMIT 1;
+
+  IF v_template_id IS NULL THEN
+    RAISE EXCEPTION 'No active daily_qc template found for factory %', p_factory_id;
+  END IF;
+
+  v_creator := COALESCE(auth.uid(), p_inspector_id);
+
+  INSERT INTO public.qc_daily_sheets
+    (factory_id, work_order_id, line_id, inspection_date, shift,
+     template_id, template_version, inspector_id, created_by,
+     product_type, fabric, target_qty)
+  VALUES
+    (p_factory_id, p_work_order_id, p_line_id, p_inspection_date, p_shift,
+     v_template_id, v_template_version, p_inspector_id, v_creator,
+     p_product_type, p_fabric, p_target_qty)
+  RETURNING id INTO v_sheet_id;
+
+  INSERT INTO public.qc_daily_sheet_items
+    (sheet_id, section_label, section_order, item_code, item_label, item_guidance, item_order, is_required)
+  SELECT
+    v_sheet_id, section_label, section_order, item_code, item_label, item_guidance, item_order, is_required
+  FROM public.qc_checklist_template_items
+  WHERE template_id = v_template_id;
+
+  RETURN v_sheet_id;
+END $$;
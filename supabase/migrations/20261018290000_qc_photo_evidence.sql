@@ -0,0 +1,142 @@
+-- Photo evidence on QC checklist items and issues.
+--
+-- Photos are compressed (and optionally annotated) on the device, uploaded
+-- to the qc-photos bucket under {factory_id}/{submission_id}/… and their
+-- public URLs kept in photo_urls, the same way production updates keep
+-- theirs. Appends go through qc_add_photos so an offline replay can safely
+-- run twice.
+
+ALTER TABLE public.qc_daily_sheet_items
+  ADD COLUMN IF NOT EXISTS photo_urls TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.qc_order_tracker_items
+  ADD COLUMN IF NOT EXISTS photo_urls TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.qc_issues
+  ADD COLUMN IF NOT EXISTS photo_urls TEXT[] NOT NULL DEFAULT '{}';
+
+-- ───────────────────────────────────────────────────────────────────
+-- 1) Storage bucket
+-- ───────────────────────────────────────────────────────────────────
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('qc-photos', 'qc-photos', true, 10485760)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "qc_photos_select" ON storage.objects FOR SELECT
+  USING (bucket_id = 'qc-photos');
+
+CREATE POLICY "qc_photos_insert" ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'qc-photos'
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    AND (storage.foldername(name))[1] = get_user_factory_id(auth.uid())::text
+  );
+
+-- Replays upload with upsert so a retried photo overwrites its own object
+CREATE POLICY "qc_photos_update" ON storage.objects FOR UPDATE TO authenticated
+  USING (
+    bucket_id = 'qc-photos'
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    AND (storage.foldername(name))[1] = get_user_factory_id(auth.uid())::text
+  );
+
+CREATE POLICY "qc_photos_delete" ON storage.objects FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'qc-photos'
+    AND (is_admin_or_higher(auth.uid()) OR is_qc_role(auth.uid()))
+    AND (storage.foldername(name))[1] = get_user_factory_id(auth.uid())::text
+  );
+
+-- ───────────────────────────────────────────────────────────────────
+-- 2) Append / remove
+-- ───────────────────────────────────────────────────────────────────
+
+-- Appends URLs not already on the row. Photos added to an item also go on
+-- its open issue, so the evidence is in front of whoever reviews it.
+CREATE OR REPLACE FUNCTION public.qc_add_photos(
+  p_target TEXT,
+  p_id     UUID,
+  p_urls   TEXT[]
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_target = 'daily_item' THEN
+    UPDATE public.qc_daily_sheet_items
+       SET photo_urls = photo_urls || ARRAY(SELECT u FROM unnest(p_urls) u WHERE u <> ALL (photo_urls))
+     WHERE id = p_id;
+  ELSIF p_target = 'tracker_item' THEN
+    UPDATE public.qc_order_tracker_items
+       SET photo_urls = photo_urls || ARRAY(SELECT u FROM unnest(p_urls) u WHERE u <> ALL (photo_urls))
+     WHERE id = p_id;
+  ELSIF p_target = 'issue' THEN
+    UPDATE public.qc_issues
+       SET photo_urls = photo_urls || ARRAY(SELECT u FROM unnest(p_urls) u WHERE u <> ALL (photo_urls))
+     WHERE id = p_id;
+    RETURN;
+  ELSE
+    RAISE EXCEPTION 'Unknown photo target %', p_target;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'QC item not found';
+  END IF;
+
+  UPDATE public.qc_issues
+     SET photo_urls = photo_urls || ARRAY(SELECT u FROM unnest(p_urls) u WHERE u <> ALL (photo_urls))
+   WHERE source_item_id = p_id AND status = 'open';
+END $$;
+
+CREATE OR REPLACE FUNCTION public.qc_remove_photo(
+  p_target TEXT,
+  p_id     UUID,
+  p_url    TEXT
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_target = 'daily_item' THEN
+    UPDATE public.qc_daily_sheet_items SET photo_urls = array_remove(photo_urls, p_url) WHERE id = p_id;
+  ELSIF p_target = 'tracker_item' THEN
+    UPDATE public.qc_order_tracker_items SET photo_urls = array_remove(photo_urls, p_url) WHERE id = p_id;
+  ELSIF p_target = 'issue' THEN
+    UPDATE public.qc_issues SET photo_urls = array_remove(photo_urls, p_url) WHERE id = p_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown photo target %', p_target;
+  END IF;
+END $$;
+
+-- ───────────────────────────────────────────────────────────────────
+-- 3) Issues raised (or reopened) from an item pick up the item's photos
+-- ───────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.qc_issue_copy_item_photos()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_item_photos TEXT[];
+BEGIN
+  IF NEW.source_item_id IS NULL OR NEW.status <> 'open' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.status = 'open' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.source_type = 'daily_sheet' THEN
+    SELECT photo_urls INTO v_item_photos FROM public.qc_daily_sheet_items WHERE id = NEW.source_item_id;
+  ELSE
+    SELECT photo_urls INTO v_item_photos FROM public.qc_order_tracker_items WHERE id = NEW.source_item_id;
+  END IF;
+
+  NEW.photo_urls := NEW.photo_urls
+    || ARRAY(SELECT u FROM unnest(COALESCE(v_item_photos, '{}')) u WHERE u <> ALL (NEW.photo_urls));
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS trg_qc_issues_copy_item_photos ON public.qc_issues;
+CREATE TRIGGER trg_qc_issues_copy_item_photos
+  BEFORE INSERT OR UPDATE OF status ON public.qc_issues
+  FOR EACH ROW EXECUTE FUNCTION public.qc_issue_copy_item_photos();
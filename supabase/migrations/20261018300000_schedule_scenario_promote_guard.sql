@@ -0,0 +1,254 @@
+-- Guard scenario promotion against overwriting newer live changes
+-- Promoting replaces the whole live schedule, so anything planners changed on
+-- the live plan after the scenario was copied would be lost without warning.
+-- The live schedule now carries a per-factory revision that moves on every
+-- planning change; scenarios remember the revision they were copied from,
+-- and promotion is refused unless nothing changed or the caller confirms the
+-- exact revision they reviewed.
+--
+-- Status is not a planning change: it is derived from output by
+-- refresh_schedule_status, which promotion re-runs.
+
+-- ───────────────────────────────────────────────────────────────────
+-- 1) Live schedule revision
+-- ───────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.production_schedule_revisions (
+  factory_id UUID PRIMARY KEY REFERENCES public.factory_accounts(id) ON DELETE CASCADE,
+  revision BIGINT NOT NULL DEFAULT 0,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.production_schedule_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; only the trigger below writes it
+CREATE POLICY "Users can view schedule revisions in their factory"
+  ON public.production_schedule_revisions FOR SELECT TO authenticated
+  USING (factory_id = get_user_factory_id(auth.uid()) OR is_superadmin(auth.uid()));
+
+-- When a booking's plan (not its derived status) last changed
+ALTER TABLE public.production_schedule
+  ADD COLUMN IF NOT EXISTS plan_changed_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+UPDATE public.production_schedule SET plan_changed_at = updated_at;
+
+CREATE OR REPLACE FUNCTION public.production_schedule_plan_changed(o public.production_schedule, n public.production_schedule)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (o.work_order_id, o.line_id, o.start_date, o.end_date, o.target_qty,
+          o.daily_target, o.priority, o.colour, o.notes)
+    IS DISTINCT FROM
+         (n.work_order_id, n.line_id, n.start_date, n.end_date, n.target_qty,
+          n.daily_target, n.priority, n.colour, n.notes);
+$$;
+
+CREATE OR REPLACE FUNCTION public.production_schedule_stamp_plan_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR production_schedule_plan_changed(OLD, NEW) THEN
+    NEW.plan_changed_at := now();
+  ELSE
+    NEW.plan_changed_at := OLD.plan_changed_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.production_schedule_bump_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_factory UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.factory_id ELSE NEW.factory_id END;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NOT production_schedule_plan_changed(OLD, NEW) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO production_schedule_revisions (factory_id, revision, changed_at)
+  VALUES (v_factory, 1, now())
+  ON CONFLICT (factory_id) DO UPDATE
+    SET revision = production_schedule_revisions.revision + 1,
+        changed_at = now();
+
+  -- A booking moved between factories changes both plans
+  IF TG_OP = 'UPDATE' AND OLD.factory_id <> NEW.factory_id THEN
+    INSERT INTO production_schedule_revisions (factory_id, revision, changed_at)
+    VALUES (OLD.factory_id, 1, now())
+    ON CONFLICT (factory_id) DO UPDATE
+      SET revision = production_schedule_revisions.revision + 1,
+          changed_at = now();
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS production_schedule_stamp_plan_change ON public.production_schedule;
+CREATE TRIGGER production_schedule_stamp_plan_change
+  BEFORE INSERT OR UPDATE ON public.production_schedule
+  FOR EACH ROW EXECUTE FUNCTION public.production_schedule_stamp_plan_change();
+
+DROP TRIGGER IF EXISTS production_schedule_bump_revision ON public.production_schedule;
+CREATE TRIGGER production_schedule_bump_revision
+  AFTER INSERT OR UPDATE OR DELETE ON public.production_schedule
+  FOR EACH ROW EXECUTE FUNCTION public.production_schedule_bump_revision();
+
+-- ───────────────────────────────────────────────────────────────────
+-- 2) Scenarios remember the revision they were copied from
+-- ───────────────────────────────────────────────────────────────────
+
+-- NULL for scenarios copied before this migration: treated as changed
+ALTER TABLE public.schedule_scenarios
+  ADD COLUMN IF NOT EXISTS base_revision BIGINT;
+
+CREATE OR REPLACE FUNCTION public.create_schedule_scenario(p_name TEXT, p_notes TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_factory UUID := get_user_factory_id(auth.uid());
+  v_revision BIGINT;
+  v_id UUID;
+BEGIN
+  IF v_factory IS NULL OR NOT is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can create schedule scenarios';
+  END IF;
+
+  -- Share-lock the revision so the copy and the revision it records agree
+  SELECT revision INTO v_revision
+  FROM production_schedule_revisions WHERE factory_id = v_factory
+  FOR SHARE;
+
+  INSERT INTO schedule_scenarios (factory_id, name, notes, created_by, base_revision)
+  VALUES (v_factory, p_name, p_notes, auth.uid(), COALESCE(v_revision, 0))
+  RETURNING id INTO v_id;
+
+  INSERT INTO schedule_scenario_entries
+    (scenario_id, factory_id, work_order_id, line_id, start_date, end_date, target_qty, daily_target, priority, colour, notes)
+  SELECT v_id, ps.factory_id, ps.work_order_id, ps.line_id, ps.start_date, ps.end_date,
+         ps.target_qty, ps.daily_target, ps.priority, ps.colour, ps.notes
+  FROM production_schedule ps
+  WHERE ps.factory_id = v_factory;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ───────────────────────────────────────────────────────────────────
+-- 3) What promoting would overwrite
+-- ───────────────────────────────────────────────────────────────────
+
+-- Live bookings added or replanned since the scenario was copied. Bookings
+-- deleted from the live plan since then can't be listed; they only show up
+-- as a revision that moved with nothing listed here.
+CREATE OR REPLACE FUNCTION public.schedule_scenario_live_changes(p_scenario_id UUID)
+RETURNS TABLE (
+  schedule_id UUID,
+  po_number TEXT,
+  line_name TEXT,
+  start_date DATE,
+  end_date DATE,
+  is_new BOOLEAN,
+  plan_changed_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT ps.id, wo.po_number, COALESCE(l.name, l.line_id), ps.start_date, ps.end_date,
+         ps.created_at > s.created_at, ps.plan_changed_at
+  FROM schedule_scenarios s
+  JOIN production_schedule ps ON ps.factory_id = s.factory_id
+  JOIN work_orders wo ON wo.id = ps.work_order_id
+  LEFT JOIN lines l ON l.id = ps.line_id
+  WHERE s.id = p_scenario_id
+    AND ps.plan_changed_at > s.created_at
+  ORDER BY ps.plan_changed_at DESC;
+$$;
+
+-- ───────────────────────────────────────────────────────────────────
+-- 4) Promote only over a live plan the caller has seen
+-- ───────────────────────────────────────────────────────────────────
+
+DROP FUNCTION IF EXISTS public.promote_schedule_scenario(UUID);
+
+-- p_confirmed_revision: the live revision the caller reviewed and agreed to
+-- overwrite. Not needed when the live plan hasn't changed since the copy.
+CREATE OR REPLACE FUNCTION public.promote_schedule_scenario(
+  p_scenario_id UUID,
+  p_confirmed_revision BIGINT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_factory UUID;
+  v_status TEXT;
+  v_base BIGINT;
+  v_live BIGINT;
+  v_what_if INTEGER;
+  v_count INTEGER;
+BEGIN
+  SELECT factory_id, status, base_revision INTO v_factory, v_status, v_base
+  FROM schedule_scenarios WHERE id = p_scenario_id
+  FOR UPDATE;
+
+  IF v_factory IS NULL OR v_factory <> get_user_factory_id(auth.uid()) OR NOT is_admin_or_higher(auth.uid()) THEN
+    RAISE EXCEPTION 'Scenario not found';
+  END IF;
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Scenario has already been promoted';
+  END IF;
+
+  SELECT count(*) INTO v_what_if
+  FROM schedule_scenario_entries
+  WHERE scenario_id = p_scenario_id AND scenario_order_id IS NOT NULL;
+  IF v_what_if > 0 THEN
+    RAISE EXCEPTION 'Scenario still books % what-if order(s); remove them before promoting', v_what_if;
+  END IF;
+
+  -- Lock the live revision so nothing lands between the check and the swap
+  INSERT INTO production_schedule_revisions (factory_id) VALUES (v_factory)
+  ON CONFLICT (factory_id) DO NOTHING;
+  SELECT revision INTO v_live
+  FROM production_schedule_revisions WHERE factory_id = v_factory
+  FOR UPDATE;
+
+  IF v_live IS DISTINCT FROM v_base AND v_live IS DISTINCT FROM p_confirmed_revision THEN
+    RAISE EXCEPTION 'The live schedule has changed since this scenario was copied; review the changes and confirm to overwrite them'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  DELETE FROM production_schedule WHERE factory_id = v_factory;
+
+  INSERT INTO production_schedule
+    (factory_id, work_order_id, line_id, start_date, end_date, target_qty, daily_target, priority, colour, notes, created_by)
+  SELECT v_factory, e.work_order_id, e.line_id, e.start_date, e.end_date,
+         e.target_qty, e.daily_target, e.priority, e.colour, e.notes, auth.uid()
+  FROM schedule_scenario_entries e
+  WHERE e.scenario_id = p_scenario_id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  -- Bring derived statuses in line with output already sewn
+  PERFORM refresh_schedule_status(ps.line_id, ps.work_order_id)
+  FROM (SELECT DISTINCT line_id, work_order_id FROM production_schedule WHERE factory_id = v_factory) ps;
+
+  UPDATE schedule_scenarios
+  SET status = 'promoted', promoted_at = now(), promoted_by = auth.uid()
+  WHERE id = p_scenario_id;
+
+  RETURN v_count;
+END;
+$$;
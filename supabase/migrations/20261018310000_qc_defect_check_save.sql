@@ -0,0 +1,66 @@
+-- Save a defect check and its counts in one transaction.
+-- Editing a check used to update the header, delete its items and insert the
+-- new ones as three separate calls, so a failure part-way left the check with
+-- no defect counts at all. The whole save now happens in one RPC.
+
+CREATE OR REPLACE FUNCTION public.qc_save_defect_check(
+  p_factory_id     UUID,
+  p_line_id        UUID,
+  p_work_order_id  UUID,
+  p_check_date     DATE,
+  p_hour_slot      TEXT,
+  p_check_point    TEXT,
+  p_pieces_checked INT,
+  -- [{defect_type_id, defect_code, defect_name, operation, quantity}]
+  p_items          JSONB,
+  p_shift_id       UUID DEFAULT NULL,
+  p_operator_name  TEXT DEFAULT NULL,
+  p_notes          TEXT DEFAULT NULL,
+  -- Existing check to rewrite; NULL records a new one
+  p_check_id       UUID DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_check_id UUID;
+BEGIN
+  IF p_check_id IS NOT NULL THEN
+    UPDATE public.qc_defect_checks
+       SET hour_slot      = p_hour_slot,
+           check_point    = p_check_point,
+           operator_name  = CASE WHEN p_check_point = 'inline' THEN p_operator_name END,
+           pieces_checked = p_pieces_checked,
+           notes          = p_notes
+     WHERE id = p_check_id
+    RETURNING id INTO v_check_id;
+
+    IF v_check_id IS NULL THEN
+      RAISE EXCEPTION 'Defect check not found';
+    END IF;
+
+    DELETE FROM public.qc_defect_check_items WHERE check_id = v_check_id;
+  ELSE
+    INSERT INTO public.qc_defect_checks
+      (factory_id, line_id, work_order_id, check_date, shift_id, hour_slot,
+       check_point, operator_name, pieces_checked, notes, checked_by)
+    VALUES
+      (p_factory_id, p_line_id, p_work_order_id, p_check_date, p_shift_id, p_hour_slot,
+       p_check_point, CASE WHEN p_check_point = 'inline' THEN p_operator_name END,
+       p_pieces_checked, p_notes, auth.uid())
+    RETURNING id INTO v_check_id;
+  END IF;
+
+  INSERT INTO public.qc_defect_check_items
+    (check_id, defect_type_id, defect_code, defect_name, operation, quantity)
+  SELECT v_check_id, i.defect_type_id, i.defect_code, i.defect_name, i.operation, i.quantity
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+           defect_type_id UUID, defect_code TEXT, defect_name TEXT, operation TEXT, quantity INT)
+   WHERE i.quantity > 0;
+
+  RETURN v_check_id;
+END $$;
+
+COMMENT ON FUNCTION public.qc_save_defect_check IS
+  'Records a defect check with its defect counts, or rewrites an existing one, in a single transaction.';
@@ -0,0 +1,45 @@
+-- Save a template draft's header and items in one transaction.
+-- The editor used to update the header, delete the items and insert the new
+-- ones as three separate calls, so a failure part-way left the draft with its
+-- items gone. Like qc_publish_template, the save is now a single RPC.
+
+CREATE OR REPLACE FUNCTION public.qc_save_template_draft(
+  p_template_id UUID,
+  p_name        TEXT,
+  -- [{section_label, section_order, item_code, item_label, item_guidance, item_order, is_required}]
+  p_items       JSONB,
+  p_buyer       TEXT DEFAULT NULL,
+  p_change_note TEXT DEFAULT NULL
+) RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  UPDATE public.qc_checklist_templates
+     SET name        = trim(p_name),
+         buyer       = NULLIF(trim(p_buyer), ''),
+         change_note = NULLIF(trim(p_change_note), '')
+   WHERE id = p_template_id
+     AND status = 'draft'
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'Draft not found — it may have been published or discarded.';
+  END IF;
+
+  DELETE FROM public.qc_checklist_template_items WHERE template_id = p_template_id;
+
+  INSERT INTO public.qc_checklist_template_items
+    (template_id, section_label, section_order, item_code, item_label, item_guidance, item_order, is_required)
+  SELECT p_template_id, i.section_label, i.section_order, i.item_code, i.item_label, i.item_guidance,
+         i.item_order, COALESCE(i.is_required, false)
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS i(
+           section_label TEXT, section_order INT, item_code TEXT, item_label TEXT,
+           item_guidance TEXT, item_order INT, is_required BOOLEAN);
+END $$;
+
+COMMENT ON FUNCTION public.qc_save_template_draft IS
+  'Saves a draft checklist template''s header and replaces its items in a single transaction.';
@@ -0,0 +1,40 @@
+-- Record what the lays cut on a day actually gave in one call.
+-- The cutting end-of-day report used to update each lay separately, so a
+-- dropped connection could leave some lays marked cut and others not, and the
+-- results couldn't be queued offline with the report. As one RPC the results
+-- are saved together and can be replayed from the offline queue.
+
+CREATE OR REPLACE FUNCTION public.record_cut_lay_results(
+  p_cut_date DATE,
+  p_line_id  UUID,
+  -- [{id, actual_plies, fabric_used}]
+  p_results  JSONB
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_expected INTEGER := jsonb_array_length(COALESCE(p_results, '[]'::jsonb));
+  v_count INTEGER;
+BEGIN
+  UPDATE public.cut_lays l
+     SET status       = 'cut',
+         actual_plies = r.actual_plies,
+         fabric_used  = r.fabric_used,
+         cut_date     = p_cut_date,
+         line_id      = p_line_id,
+         recorded_by  = auth.uid()
+    FROM jsonb_to_recordset(COALESCE(p_results, '[]'::jsonb)) AS r(id UUID, actual_plies INT, fabric_used NUMERIC)
+   WHERE l.id = r.id;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count < v_expected THEN
+    RAISE EXCEPTION '% lay(s) could not be found; the cut plan may have changed', v_expected - v_count;
+  END IF;
+
+  RETURN v_count;
+END $$;
+
+COMMENT ON FUNCTION public.record_cut_lay_results IS
+  'Marks cut lays with the plies and fabric they actually gave, all or nothing.';
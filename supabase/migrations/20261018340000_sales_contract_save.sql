@@ -0,0 +1,165 @@
+-- Save a sales contract's header, items and amendment in one transaction.
+-- Saving used to update the header, delete removed items and upsert the rest
+-- as separate calls. New items have no id, so the upsert sent them with a
+-- NULL id and failed after the header and deletes had already gone through,
+-- leaving a half-written contract. The whole save is now one RPC, and the
+-- amendment number is assigned under a lock on the contract so two users
+-- can't both record amendment N.
+
+-- ───────────────────────────────────────────────────────────────────
+-- 1) Shared steps
+-- ───────────────────────────────────────────────────────────────────
+
+-- Editable header fields; keys missing from p_header keep their value
+CREATE OR REPLACE FUNCTION public.apply_sales_contract_header(p_contract_id UUID, p_header JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE sales_contracts c
+     SET (additional_clauses, agent_bank_account, agent_bank_address, agent_bank_iban,
+         agent_bank_name, agent_bank_swift, agent_name, applicant_address,
+         applicant_bank_account, applicant_bank_address, applicant_bank_iban,
+         applicant_bank_name, applicant_bank_swift, applicant_name,
+         beneficiary_bank_account, beneficiary_bank_address, beneficiary_bank_branch,
+         beneficiary_bank_name, beneficiary_bank_swift, buyer_address, buyer_contact,
+         buyer_name, commission_pct, commission_per_piece, contract_date, contract_number,
+         contract_title, country_of_origin, currency, delivery_terms, documents_required,
+         end_customer, exchange_rate, expiry_date, incoterms, internal_notes, lc_date,
+         lc_expiry_date, lc_number, lc_required, notes, notify_party_address,
+         notify_party_contact, notify_party_name, notify_party_note, payment_terms,
+         place_of_delivery, port_of_discharge, port_of_loading, season, shipment_mode,
+         tolerance_pct, total_quantity, total_value, total_value_text) =
+         (SELECT h.additional_clauses, h.agent_bank_account, h.agent_bank_address,
+            h.agent_bank_iban, h.agent_bank_name, h.agent_bank_swift, h.agent_name,
+            h.applicant_address, h.applicant_bank_account, h.applicant_bank_address,
+            h.applicant_bank_iban, h.applicant_bank_name, h.applicant_bank_swift,
+            h.applicant_name, h.beneficiary_bank_account, h.beneficiary_bank_address,
+            h.beneficiary_bank_branch, h.beneficiary_bank_name, h.beneficiary_bank_swift,
+            h.buyer_address, h.buyer_contact, h.buyer_name, h.commission_pct,
+            h.commission_per_piece, h.contract_date, h.contract_number, h.contract_title,
+            h.country_of_origin, h.currency, h.delivery_terms, h.documents_required,
+            h.end_customer, h.exchange_rate, h.expiry_date, h.incoterms, h.internal_notes,
+            h.lc_date, h.lc_expiry_date, h.lc_number, h.lc_required, h.notes,
+            h.notify_party_address, h.notify_party_contact, h.notify_party_name,
+            h.notify_party_note, h.payment_terms, h.place_of_delivery, h.port_of_discharge,
+            h.port_of_loading, h.season, h.shipment_mode, h.tolerance_pct,
+            h.total_quantity, h.total_value, h.total_value_text
+            FROM jsonb_populate_record(c, p_header) h)
+   WHERE c.id = p_contract_id;
+$$;
+
+-- Items carrying an id are updated in place (amendments diff them by id),
+-- items without one are added, and items no longer listed are removed.
+-- sort_order follows the order of p_items.
+CREATE OR REPLACE FUNCTION public.write_sales_contract_items(p_contract_id UUID, p_items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM sales_contract_items i
+   WHERE i.contract_id = p_contract_id
+     AND NOT EXISTS (
+       SELECT 1 FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) e
+        WHERE (e->>'id')::uuid = i.id
+     );
+
+  UPDATE sales_contract_items i
+     SET (
+           work_order_id, po_number, style_ref, style_description, color, hs_code,
+           garment_type, fabric_composition, size_range, end_customer, price_type,
+           quantity, unit_price, subtotal_value, ship_date, delivery_date, ex_factory_date, remarks,
+           sort_order
+         ) = (
+           SELECT
+             r.work_order_id, r.po_number, r.style_ref, r.style_description, r.color, r.hs_code,
+             r.garment_type, r.fabric_composition, r.size_range, r.end_customer, r.price_type,
+             r.quantity, r.unit_price, r.subtotal_value, r.ship_date, r.delivery_date, r.ex_factory_date, r.remarks,
+             x.ord - 1
+             FROM jsonb_populate_record(i, x.item) r
+         )
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY AS x(item, ord)
+   WHERE i.contract_id = p_contract_id
+     AND i.id = (x.item->>'id')::uuid;
+
+  INSERT INTO sales_contract_items (
+    contract_id, sort_order,
+    work_order_id, po_number, style_ref, style_description, color, hs_code,
+    garment_type, fabric_composition, size_range, end_customer, price_type,
+    quantity, unit_price, subtotal_value, ship_date, delivery_date, ex_factory_date, remarks
+  )
+  SELECT
+    p_contract_id, x.ord - 1,
+    r.work_order_id, r.po_number, r.style_ref, r.style_description, r.color, r.hs_code,
+    r.garment_type, r.fabric_composition, r.size_range, r.end_customer, r.price_type,
+    r.quantity, r.unit_price, r.subtotal_value, r.ship_date, r.delivery_date, r.ex_factory_date, r.remarks
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) WITH ORDINALITY AS x(item, ord)
+   CROSS JOIN LATERAL jsonb_populate_record(NULL::sales_contract_items, x.item) r
+   WHERE x.item->>'id' IS NULL;
+END;
+$$;
+
+-- ───────────────────────────────────────────────────────────────────
+-- 2) Create and save
+-- ───────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.create_sales_contract(p_header JSONB, p_items JSONB DEFAULT '[]'::jsonb)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO sales_contracts (factory_id, contract_number, buyer_name, status, created_by)
+  VALUES (get_user_factory_id(auth.uid()), p_header->>'contract_number', p_header->>'buyer_name', 'draft', auth.uid())
+  RETURNING id INTO v_id;
+
+  PERFORM apply_sales_contract_header(v_id, p_header);
+  PERFORM write_sales_contract_items(v_id, p_items);
+  RETURN v_id;
+END;
+$$;
+
+-- p_amendment: {amendment_date, description, changes} when the save is
+-- recorded as an amendment. Returns the amendment number, or NULL.
+CREATE OR REPLACE FUNCTION public.save_sales_contract(
+  p_contract_id UUID,
+  p_header JSONB,
+  p_items JSONB,
+  p_amendment JSONB DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_number INTEGER;
+BEGIN
+  PERFORM 1 FROM sales_contracts WHERE id = p_contract_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contract not found';
+  END IF;
+
+  PERFORM apply_sales_contract_header(p_contract_id, p_header);
+  PERFORM write_sales_contract_items(p_contract_id, p_items);
+
+  IF p_amendment IS NOT NULL THEN
+    SELECT COALESCE(max(amendment_number), 0) + 1 INTO v_number
+    FROM sales_contract_amendments WHERE contract_id = p_contract_id;
+
+    INSERT INTO sales_contract_amendments
+      (contract_id, amendment_number, amendment_date, description, changes, changed_by)
+    VALUES
+      (p_contract_id, v_number, COALESCE((p_amendment->>'amendment_date')::date, CURRENT_DATE),
+       p_amendment->>'description', p_amendment->'changes', auth.uid());
+  END IF;
+
+  RETURN v_number;
+END;
+$$;
@@ -0,0 +1,159 @@
+-- Save a cost sheet's header and lines in one transaction.
+-- Saving used to delete every fabric, trim, process, CM and commercial line
+-- and reinsert them with parallel calls, so one failed insert left an
+-- approved sheet or a template with lines missing and nothing rolled back.
+-- Creating, saving and saving as a template now each happen in one RPC.
+
+-- ───────────────────────────────────────────────────────────────────
+-- 1) Shared steps
+-- ───────────────────────────────────────────────────────────────────
+
+-- Editable header fields; keys missing from p_header keep their value
+CREATE OR REPLACE FUNCTION public.apply_cost_sheet_header(p_sheet_id UUID, p_header JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE cost_sheets c
+     SET (
+           buyer_name, buyer_target_price, currency, desired_margin_pct, exchange_rate,
+           fabric_composition, garment_type, gsm, is_template, notes, program_name,
+           quoted_price, season, style_description, style_ref, target_price_type,
+           target_quantity, template_name, work_order_id
+         ) = (
+           SELECT
+             h.buyer_name, h.buyer_target_price, h.currency, h.desired_margin_pct,
+             h.exchange_rate, h.fabric_composition, h.garment_type, h.gsm, h.is_template,
+             h.notes, h.program_name, h.quoted_price, h.season, h.style_description,
+             h.style_ref, h.target_price_type, h.target_quantity, h.template_name,
+             h.work_order_id
+             FROM jsonb_populate_record(c, p_header) h
+         )
+   WHERE c.id = p_sheet_id;
+$$;
+
+-- p_lines: {fabrics, trims, processes, commercial: [...], cm: {...}}. Every
+-- line is replaced; sort_order follows the order of each list.
+CREATE OR REPLACE FUNCTION public.replace_cost_sheet_lines(p_sheet_id UUID, p_lines JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_cm_id UUID;
+BEGIN
+  DELETE FROM cost_sheet_fabrics WHERE cost_sheet_id = p_sheet_id;
+  INSERT INTO cost_sheet_fabrics (
+    cost_sheet_id, sort_order,
+    composition, construction, consumption_per_dozen, consumption_unit, currency,
+    description, dyeing_finishing_cost, exchange_rate, fabric_type, greige_cost, gsm,
+    marker_efficiency, price_per_unit, price_unit, source, supplier_name, wastage_pct,
+    width
+  )
+  SELECT
+    p_sheet_id, x.ord - 1,
+    r.composition, r.construction, r.consumption_per_dozen, r.consumption_unit, r.currency,
+    r.description, r.dyeing_finishing_cost, r.exchange_rate, r.fabric_type, r.greige_cost,
+    r.gsm, r.marker_efficiency, r.price_per_unit, r.price_unit, r.source, r.supplier_name,
+    r.wastage_pct, r.width
+    FROM jsonb_array_elements(COALESCE(p_lines->'fabrics', '[]'::jsonb)) WITH ORDINALITY AS x(line, ord)
+   CROSS JOIN LATERAL jsonb_populate_record(NULL::cost_sheet_fabrics, x.line) r;
+
+  DELETE FROM cost_sheet_trims WHERE cost_sheet_id = p_sheet_id;
+  INSERT INTO cost_sheet_trims (
+    cost_sheet_id, sort_order,
+    category, currency, description, exchange_rate, is_buyer_supplied, item_name,
+    qty_per_garment, specifications, supplier_name, unit_of_measure, unit_price
+  )
+  SELECT
+    p_sheet_id, x.ord - 1,
+    r.category, r.currency, r.description, r.exchange_rate, r.is_buyer_supplied,
+    r.item_name, r.qty_per_garment, r.specifications, r.supplier_name, r.unit_of_measure,
+    r.unit_price
+    FROM jsonb_array_elements(COALESCE(p_lines->'trims', '[]'::jsonb)) WITH ORDINALITY AS x(line, ord)
+   CROSS JOIN LATERAL jsonb_populate_record(NULL::cost_sheet_trims, x.line) r;
+
+  DELETE FROM cost_sheet_processes WHERE cost_sheet_id = p_sheet_id;
+  INSERT INTO cost_sheet_processes (
+    cost_sheet_id, sort_order,
+    category, cost_per_piece, currency, description, exchange_rate, is_outsourced,
+    placement, process_name, supplier_name
+  )
+  SELECT
+    p_sheet_id, x.ord - 1,
+    r.category, r.cost_per_piece, r.currency, r.description, r.exchange_rate,
+    r.is_outsourced, r.placement, r.process_name, r.supplier_name
+    FROM jsonb_array_elements(COALESCE(p_lines->'processes', '[]'::jsonb)) WITH ORDINALITY AS x(line, ord)
+   CROSS JOIN LATERAL jsonb_populate_record(NULL::cost_sheet_processes, x.line) r;
+
+  DELETE FROM cost_sheet_commercial WHERE cost_sheet_id = p_sheet_id;
+  INSERT INTO cost_sheet_commercial (
+    cost_sheet_id, sort_order,
+    amount, category, cost_type, currency, description, exchange_rate, item_name
+  )
+  SELECT
+    p_sheet_id, x.ord - 1,
+    r.amount, r.category, r.cost_type, r.currency, r.description, r.exchange_rate,
+    r.item_name
+    FROM jsonb_array_elements(COALESCE(p_lines->'commercial', '[]'::jsonb)) WITH ORDINALITY AS x(line, ord)
+   CROSS JOIN LATERAL jsonb_populate_record(NULL::cost_sheet_commercial, x.line) r;
+
+  -- One CM row per sheet; fields the draft leaves out keep their defaults
+  DELETE FROM cost_sheet_cm WHERE cost_sheet_id = p_sheet_id;
+  INSERT INTO cost_sheet_cm (cost_sheet_id) VALUES (p_sheet_id) RETURNING id INTO v_cm_id;
+  UPDATE cost_sheet_cm c
+     SET (
+           cm_per_dozen, efficiency_pct, labour_cost_per_minute, overhead_type,
+           overhead_value, sam
+         ) = (
+           SELECT
+             r.cm_per_dozen, r.efficiency_pct, r.labour_cost_per_minute, r.overhead_type,
+             r.overhead_value, r.sam
+             FROM jsonb_populate_record(c, COALESCE(p_lines->'cm', '{}'::jsonb)) r
+         )
+   WHERE c.id = v_cm_id;
+END;
+$$;
+
+-- ───────────────────────────────────────────────────────────────────
+-- 2) Create and save
+-- ───────────────────────────────────────────────────────────────────
+
+-- New draft sheet or template with its lines
+CREATE OR REPLACE FUNCTION public.create_cost_sheet(p_header JSONB, p_lines JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO cost_sheets (factory_id, buyer_name, style_ref, status, created_by)
+  VALUES (get_user_factory_id(auth.uid()), p_header->>'buyer_name', p_header->>'style_ref', 'draft', auth.uid())
+  RETURNING id INTO v_id;
+
+  PERFORM apply_cost_sheet_header(v_id, p_header);
+  PERFORM replace_cost_sheet_lines(v_id, p_lines);
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.save_cost_sheet(p_sheet_id UUID, p_header JSONB, p_lines JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM cost_sheets WHERE id = p_sheet_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cost sheet not found';
+  END IF;
+
+  PERFORM apply_cost_sheet_header(p_sheet_id, p_header);
+  PERFORM replace_cost_sheet_lines(p_sheet_id, p_lines);
+END;
+$$;
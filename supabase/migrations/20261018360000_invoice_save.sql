@@ -0,0 +1,186 @@
+-- Save an invoice's header and lines in one transaction.
+-- Saving used to write the header, then delete and reinsert the line items,
+-- tax lines and charges with separate calls, so a failure part-way left an
+-- invoice whose totals didn't match its lines. New invoices also took their
+-- number from a client-side scan of existing numbers, which two users could
+-- both read before either saved. Numbering and the line replace now happen
+-- server-side in one RPC.
+
+-- ───────────────────────────────────────────────────────────────────
+-- 1) Shared steps
+-- ───────────────────────────────────────────────────────────────────
+
+-- Editable header fields; keys missing from p_header keep their value
+CREATE OR REPLACE FUNCTION public.apply_invoice_header(p_invoice_id UUID, p_header JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE invoices c
+     SET (
+           attachment_refs, bank_details, bl_date, bl_number, buyer_address, buyer_contact,
+           buyer_name, cbm, container_number, contract_number, contract_ref, copy_marking,
+           country_of_dest, country_of_origin, currency, custom_fields, discount_pct,
+           discount_type, discount_value, due_date, exchange_rate, gross_weight, incoterms,
+           internal_memo, internal_notes, invoice_number, invoice_type, issue_date,
+           lc_date, lc_number, net_weight, notes, packing_type, paper_size, payment_terms,
+           payment_terms_text, po_numbers, port_of_discharge, port_of_loading, remarks,
+           selected_bank_account_id, ship_to_address, show_bank_details, total_cartons,
+           total_cbm, total_gross_weight, total_net_weight, vessel_name, work_order_id
+         ) = (
+           SELECT
+             h.attachment_refs, h.bank_details, h.bl_date, h.bl_number, h.buyer_address,
+             h.buyer_contact, h.buyer_name, h.cbm, h.container_number, h.contract_number,
+             h.contract_ref, h.copy_marking, h.country_of_dest, h.country_of_origin,
+             h.currency, h.custom_fields, h.discount_pct, h.discount_type,
+             h.discount_value, h.due_date, h.exchange_rate, h.gross_weight, h.incoterms,
+             h.internal_memo, h.internal_notes, h.invoice_number, h.invoice_type,
+             h.issue_date, h.lc_date, h.lc_number, h.net_weight, h.notes, h.packing_type,
+             h.paper_size, h.payment_terms, h.payment_terms_text, h.po_numbers,
+             h.port_of_discharge, h.port_of_loading, h.remarks, h.selected_bank_account_id,
+             h.ship_to_address, h.show_bank_details, h.total_cartons, h.total_cbm,
+             h.total_gross_weight, h.total_net_weight, h.vessel_name, h.work_order_id
+             FROM jsonb_populate_record(c, p_header) h
+         )
+   WHERE c.id = p_invoice_id;
+$$;
+
+-- Rows are added first and then filled from the draft, so columns a draft
+-- leaves out keep their defaults. sort_order follows the order of each list.
+CREATE OR REPLACE FUNCTION public.replace_invoice_lines(
+  p_invoice_id UUID,
+  p_lines JSONB,
+  p_taxes JSONB,
+  p_charges JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM invoice_line_items WHERE invoice_id = p_invoice_id;
+  INSERT INTO invoice_line_items (invoice_id, sort_order, description)
+  SELECT p_invoice_id, x.ord - 1, x.line->>'description'
+    FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) WITH ORDINALITY AS x(line, ord);
+  UPDATE invoice_line_items t
+     SET (
+           color, description, discount_pct, discount_type, discount_value, hs_code,
+           quantity, size_range, style_name, style_number, unit, unit_price
+         ) = (
+           SELECT
+             r.color, r.description, r.discount_pct, r.discount_type, r.discount_value,
+             r.hs_code, r.quantity, r.size_range, r.style_name, r.style_number, r.unit,
+             r.unit_price
+             FROM jsonb_populate_record(t, x.line) r
+         )
+    FROM jsonb_array_elements(COALESCE(p_lines, '[]'::jsonb)) WITH ORDINALITY AS x(line, ord)
+   WHERE t.invoice_id = p_invoice_id
+     AND t.sort_order = x.ord - 1;
+
+  DELETE FROM invoice_tax_lines WHERE invoice_id = p_invoice_id;
+  INSERT INTO invoice_tax_lines (invoice_id, sort_order)
+  SELECT p_invoice_id, x.ord - 1
+    FROM jsonb_array_elements(COALESCE(p_taxes, '[]'::jsonb)) WITH ORDINALITY AS x(line, ord);
+  UPDATE invoice_tax_lines t
+     SET (
+           amount, description, label, rate, rate_pct
+         ) = (
+           SELECT
+             r.amount, r.description, r.label, r.rate, r.rate_pct
+             FROM jsonb_populate_record(t, x.line) r
+         )
+    FROM jsonb_array_elements(COALESCE(p_taxes, '[]'::jsonb)) WITH ORDINALITY AS x(line, ord)
+   WHERE t.invoice_id = p_invoice_id
+     AND t.sort_order = x.ord - 1;
+
+  DELETE FROM invoice_charges WHERE invoice_id = p_invoice_id;
+  INSERT INTO invoice_charges (invoice_id, sort_order, description)
+  SELECT p_invoice_id, x.ord - 1, x.line->>'description'
+    FROM jsonb_array_elements(COALESCE(p_charges, '[]'::jsonb)) WITH ORDINALITY AS x(line, ord);
+  UPDATE invoice_charges t
+     SET (
+           amount, charge_type, description, is_deduct, label
+         ) = (
+           SELECT
+             r.amount, r.charge_type, r.description, r.is_deduct, r.label
+             FROM jsonb_populate_record(t, x.line) r
+         )
+    FROM jsonb_array_elements(COALESCE(p_charges, '[]'::jsonb)) WITH ORDINALITY AS x(line, ord)
+   WHERE t.invoice_id = p_invoice_id
+     AND t.sort_order = x.ord - 1;
+END;
+$$;
+
+-- Next number in the INV-YYYY-NNNN / PI-YYYY-NNNN series. Holds a per-factory
+-- lock until the transaction ends so concurrent saves can't take the same one.
+CREATE OR REPLACE FUNCTION public.next_invoice_number(p_factory_id UUID, p_invoice_type TEXT, p_issue_date DATE)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_prefix TEXT := CASE WHEN p_invoice_type = 'proforma' THEN 'PI' ELSE 'INV' END
+                   || '-' || EXTRACT(YEAR FROM p_issue_date)::INT || '-';
+  v_max INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('invoice_number:' || p_factory_id));
+
+  SELECT COALESCE(max(substring(invoice_number FROM length(v_prefix) + 1)::INT), 0) INTO v_max
+  FROM invoices
+  WHERE factory_id = p_factory_id
+    AND invoice_number ~ ('^' || v_prefix || '[0-9]+$');
+
+  RETURN v_prefix || lpad((v_max + 1)::TEXT, 4, '0');
+END;
+$$;
+
+-- ───────────────────────────────────────────────────────────────────
+-- 2) Save
+-- ───────────────────────────────────────────────────────────────────
+
+-- p_invoice_id NULL creates a draft; a blank invoice_number is assigned the
+-- next in its series. Returns the invoice id.
+CREATE OR REPLACE FUNCTION public.save_invoice(
+  p_header JSONB,
+  p_lines JSONB,
+  p_taxes JSONB,
+  p_charges JSONB,
+  p_invoice_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_factory UUID := get_user_factory_id(auth.uid());
+  v_id UUID := p_invoice_id;
+  v_header JSONB := p_header;
+BEGIN
+  IF v_id IS NOT NULL THEN
+    PERFORM 1 FROM invoices WHERE id = v_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice not found';
+    END IF;
+  ELSE
+    IF NULLIF(trim(v_header->>'invoice_number'), '') IS NULL THEN
+      v_header := v_header || jsonb_build_object('invoice_number', next_invoice_number(
+        v_factory,
+        COALESCE(v_header->>'invoice_type', 'commercial'),
+        COALESCE((v_header->>'issue_date')::DATE, CURRENT_DATE)
+      ));
+    END IF;
+
+    INSERT INTO invoices (factory_id, invoice_number, buyer_name, status, created_by)
+    VALUES (v_factory, v_header->>'invoice_number', v_header->>'buyer_name', 'draft', auth.uid())
+    RETURNING id INTO v_id;
+  END IF;
+
+  PERFORM apply_invoice_header(v_id, v_header);
+  PERFORM replace_invoice_lines(v_id, p_lines, p_taxes, p_charges);
+  RETURN v_id;
+END;
+$$;
@@ -0,0 +1,127 @@
+-- Create an LC with its checklist, and record amendments, in one transaction.
+-- Creating an LC used to insert it and then seed the document checklist as a
+-- second call, so a failure left an LC with no checklist. Amendments were
+-- inserted and then applied to master_lcs separately, numbered from the
+-- cached amendment_count, so two users amending at once both recorded
+-- amendment N. Both writes are now RPCs, and the amendment number and its
+-- before/after values are taken from the LC under a row lock.
+
+-- ───────────────────────────────────────────────────────────────────
+-- 1) Create
+-- ───────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.create_master_lc(
+  p_lc        JSONB,
+  -- [{document_name, originals_required, copies_required}], in checklist order
+  p_documents JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO master_lcs (factory_id, lc_number, buyer_name, issue_date, expiry_date, lc_value, created_by)
+  VALUES (get_user_factory_id(auth.uid()), p_lc->>'lc_number', p_lc->>'buyer_name',
+          (p_lc->>'issue_date')::date, (p_lc->>'expiry_date')::date, (p_lc->>'lc_value')::numeric,
+          auth.uid())
+  RETURNING id INTO v_id;
+
+  -- Keys missing from p_lc keep their column defaults
+  UPDATE master_lcs c
+     SET (advising_bank_name, advising_bank_swift, applicant_bank_name, applicant_bank_swift,
+         applicant_name, bank_relationship_id, beneficiary_bank_account, beneficiary_bank_branch,
+         beneficiary_bank_name, beneficiary_bank_swift, confirming_bank_name, confirming_bank_swift,
+         contract_id, currency, docs_submitted_date, documents_required, expected_payment_date,
+         goods_description, hs_code, incoterms, insurance_details, insurance_required,
+         latest_shipment_date, lc_type, notes, partial_shipment_allowed, payment_terms,
+         payment_type, port_of_discharge, port_of_loading, presentation_period,
+         special_conditions, status, tenor_days, tolerance_pct, transhipment_allowed) =
+         (SELECT h.advising_bank_name, h.advising_bank_swift, h.applicant_bank_name,
+            h.applicant_bank_swift, h.applicant_name, h.bank_relationship_id,
+            h.beneficiary_bank_account, h.beneficiary_bank_branch, h.beneficiary_bank_name,
+            h.beneficiary_bank_swift, h.confirming_bank_name, h.confirming_bank_swift,
+            h.contract_id, h.currency, h.docs_submitted_date, h.documents_required,
+            h.expected_payment_date, h.goods_description, h.hs_code, h.incoterms,
+            h.insurance_details, h.insurance_required, h.latest_shipment_date, h.lc_type,
+            h.notes, h.partial_shipment_allowed, h.payment_terms, h.payment_type,
+            h.port_of_discharge, h.port_of_loading, h.presentation_period,
+            h.special_conditions, h.status, h.tenor_days, h.tolerance_pct,
+            h.transhipment_allowed
+            FROM jsonb_populate_record(c, p_lc) h)
+   WHERE c.id = v_id;
+
+  INSERT INTO lc_doc_checklist (lc_id, document_name, originals_required, copies_required, sort_order, status)
+  SELECT v_id, d.document_name, d.originals_required, d.copies_required, x.ord - 1, 'pending'
+    FROM jsonb_array_elements(COALESCE(p_documents, '[]'::jsonb)) WITH ORDINALITY AS x(doc, ord)
+   CROSS JOIN LATERAL jsonb_to_record(x.doc) AS d(document_name TEXT, originals_required INT, copies_required INT);
+
+  RETURN v_id;
+END;
+$$;
+
+-- ───────────────────────────────────────────────────────────────────
+-- 2) Amend
+-- ───────────────────────────────────────────────────────────────────
+
+-- p_amendment: {amendment_date, description, new_expiry_date,
+-- new_shipment_date, value_change}. Returns the amendment number.
+CREATE OR REPLACE FUNCTION public.record_lc_amendment(p_lc_id UUID, p_amendment JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_lc master_lcs;
+  v_number INTEGER;
+  v_expiry DATE := (p_amendment->>'new_expiry_date')::date;
+  v_shipment DATE := (p_amendment->>'new_shipment_date')::date;
+  v_value_change NUMERIC := NULLIF((p_amendment->>'value_change')::numeric, 0);
+  v_changes JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO v_lc FROM master_lcs WHERE id = p_lc_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'LC not found';
+  END IF;
+
+  IF v_expiry IS NOT DISTINCT FROM v_lc.expiry_date THEN
+    v_expiry := NULL;
+  ELSIF v_expiry IS NOT NULL THEN
+    v_changes := v_changes || jsonb_build_object('expiry_date', jsonb_build_object('from', v_lc.expiry_date, 'to', v_expiry));
+  END IF;
+
+  IF v_shipment IS NOT DISTINCT FROM v_lc.latest_shipment_date THEN
+    v_shipment := NULL;
+  ELSIF v_shipment IS NOT NULL THEN
+    v_changes := v_changes || jsonb_build_object('latest_shipment_date', jsonb_build_object('from', v_lc.latest_shipment_date, 'to', v_shipment));
+  END IF;
+
+  IF v_value_change IS NOT NULL THEN
+    v_changes := v_changes || jsonb_build_object('lc_value', jsonb_build_object('from', v_lc.lc_value, 'to', v_lc.lc_value + v_value_change));
+  END IF;
+
+  SELECT COALESCE(max(amendment_number), 0) + 1 INTO v_number
+  FROM lc_amendments WHERE lc_id = p_lc_id;
+
+  INSERT INTO lc_amendments
+    (lc_id, amendment_number, amendment_date, description, new_expiry_date, new_shipment_date,
+     value_change, changes, created_by)
+  VALUES
+    (p_lc_id, v_number, COALESCE((p_amendment->>'amendment_date')::date, CURRENT_DATE),
+     p_amendment->>'description', (p_amendment->>'new_expiry_date')::date,
+     (p_amendment->>'new_shipment_date')::date, (p_amendment->>'value_change')::numeric,
+     v_changes, auth.uid());
+
+  UPDATE master_lcs
+     SET amendment_count      = v_number,
+         expiry_date          = COALESCE(v_expiry, expiry_date),
+         latest_shipment_date = COALESCE(v_shipment, latest_shipment_date),
+         lc_value             = lc_value + COALESCE(v_value_change, 0)
+   WHERE id = p_lc_id;
+
+  RETURN v_number;
+END;
+$$;
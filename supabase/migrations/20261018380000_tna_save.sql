@@ -0,0 +1,119 @@
+-- Save T&A templates and PO plans without losing tracked progress.
+-- Generating a PO's plan used to delete every milestone on the PO and insert
+-- the template again, so re-running it threw away actual dates, owners, notes
+-- and overdue notices. Saving a template deleted and re-inserted its items the
+-- same way, outside any transaction. Both now run as one RPC that matches rows
+-- by milestone_code: existing rows are updated in place, completed milestones
+-- are kept even when the template no longer lists them, and only open ones
+-- that dropped out are removed.
+
+-- ───────────────────────────────────────────────────────────────────
+-- 1) Templates
+-- ───────────────────────────────────────────────────────────────────
+
+-- p_template: {name, product_category, is_default}
+-- p_items: [{milestone_code, label, days_before, item_order}]
+CREATE OR REPLACE FUNCTION public.save_tna_template(
+  p_template    JSONB,
+  p_items       JSONB,
+  p_template_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_factory_id UUID := get_user_factory_id(auth.uid());
+  v_is_default BOOLEAN := COALESCE((p_template->>'is_default')::boolean, false);
+  v_id UUID;
+BEGIN
+  -- Only one default per factory: clear the old one first
+  IF v_is_default THEN
+    UPDATE tna_templates
+       SET is_default = false
+     WHERE factory_id = v_factory_id
+       AND is_default
+       AND id IS DISTINCT FROM p_template_id;
+  END IF;
+
+  IF p_template_id IS NOT NULL THEN
+    UPDATE tna_templates
+       SET name             = p_template->>'name',
+           product_category = p_template->>'product_category',
+           is_default       = v_is_default
+     WHERE id = p_template_id
+    RETURNING id INTO v_id;
+
+    IF v_id IS NULL THEN
+      RAISE EXCEPTION 'T&A template not found';
+    END IF;
+  ELSE
+    INSERT INTO tna_templates (factory_id, name, product_category, is_default, created_by)
+    VALUES (v_factory_id, p_template->>'name', p_template->>'product_category', v_is_default, auth.uid())
+    RETURNING id INTO v_id;
+  END IF;
+
+  DELETE FROM tna_template_items t
+   WHERE t.template_id = v_id
+     AND NOT EXISTS (
+       SELECT 1 FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) e
+        WHERE e->>'milestone_code' = t.milestone_code
+     );
+
+  INSERT INTO tna_template_items (template_id, factory_id, milestone_code, label, days_before, item_order)
+  SELECT v_id, v_factory_id, i.milestone_code, i.label, i.days_before, i.item_order
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb))
+           AS i(milestone_code TEXT, label TEXT, days_before INT, item_order INT)
+  ON CONFLICT (template_id, milestone_code) DO UPDATE
+     SET label       = EXCLUDED.label,
+         days_before = EXCLUDED.days_before,
+         item_order  = EXCLUDED.item_order;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ───────────────────────────────────────────────────────────────────
+-- 2) PO plans
+-- ───────────────────────────────────────────────────────────────────
+
+-- p_plan: [{milestone_code, label, days_before, item_order, planned_date}]
+-- Completed milestones keep the planned date they were tracked against;
+-- open ones move to the new plan, which also re-arms their overdue alert.
+CREATE OR REPLACE FUNCTION public.apply_tna_plan(
+  p_work_order_id UUID,
+  p_template_id   UUID,
+  p_plan          JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM po_milestones m
+   WHERE m.work_order_id = p_work_order_id
+     AND m.actual_date IS NULL
+     AND NOT EXISTS (
+       SELECT 1 FROM jsonb_array_elements(COALESCE(p_plan, '[]'::jsonb)) e
+        WHERE e->>'milestone_code' = m.milestone_code
+     );
+
+  INSERT INTO po_milestones
+    (factory_id, work_order_id, template_id, milestone_code, label, days_before, item_order,
+     planned_date, updated_by)
+  SELECT get_user_factory_id(auth.uid()), p_work_order_id, p_template_id, p.milestone_code, p.label,
+         p.days_before, p.item_order, p.planned_date, auth.uid()
+    FROM jsonb_to_recordset(COALESCE(p_plan, '[]'::jsonb))
+           AS p(milestone_code TEXT, label TEXT, days_before INT, item_order INT, planned_date DATE)
+  ON CONFLICT (work_order_id, milestone_code) DO UPDATE
+     SET template_id  = EXCLUDED.template_id,
+         label        = EXCLUDED.label,
+         days_before  = EXCLUDED.days_before,
+         item_order   = EXCLUDED.item_order,
+         planned_date = CASE WHEN po_milestones.actual_date IS NULL
+                             THEN EXCLUDED.planned_date ELSE po_milestones.planned_date END,
+         updated_by   = EXCLUDED.updated_by;
+END;
+$$;
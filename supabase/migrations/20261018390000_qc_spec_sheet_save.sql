@@ -0,0 +1,65 @@
+-- Save a spec sheet and its points of measure in one transaction.
+-- Editing a sheet used to update the header, delete its points and insert the
+-- new ones as three separate calls, so a failure part-way left the sheet with
+-- no measurements. Checks already taken keep their own snapshot, so replacing
+-- the points wholesale is still fine — it just happens in one RPC now.
+
+CREATE OR REPLACE FUNCTION public.qc_save_spec_sheet(
+  p_factory_id UUID,
+  p_style      TEXT,
+  p_name       TEXT,
+  p_unit       TEXT,
+  p_sizes      TEXT[],
+  p_is_active  BOOLEAN,
+  -- [{code, name, tol_minus, tol_plus, specs}], in display order
+  p_points     JSONB,
+  p_buyer      TEXT DEFAULT NULL,
+  p_notes      TEXT DEFAULT NULL,
+  -- Existing sheet to rewrite; NULL creates a new one
+  p_sheet_id   UUID DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_sheet_id UUID;
+BEGIN
+  IF p_sheet_id IS NOT NULL THEN
+    UPDATE public.qc_spec_sheets
+       SET style     = trim(p_style),
+           buyer     = NULLIF(trim(p_buyer), ''),
+           name      = trim(p_name),
+           unit      = p_unit,
+           sizes     = COALESCE(p_sizes, '{}'),
+           notes     = NULLIF(trim(p_notes), ''),
+           is_active = p_is_active
+     WHERE id = p_sheet_id
+    RETURNING id INTO v_sheet_id;
+
+    IF v_sheet_id IS NULL THEN
+      RAISE EXCEPTION 'Spec sheet not found';
+    END IF;
+
+    DELETE FROM public.qc_spec_points WHERE spec_sheet_id = v_sheet_id;
+  ELSE
+    INSERT INTO public.qc_spec_sheets
+      (factory_id, style, buyer, name, unit, sizes, notes, is_active, created_by)
+    VALUES
+      (p_factory_id, trim(p_style), NULLIF(trim(p_buyer), ''), trim(p_name), p_unit,
+       COALESCE(p_sizes, '{}'), NULLIF(trim(p_notes), ''), p_is_active, auth.uid())
+    RETURNING id INTO v_sheet_id;
+  END IF;
+
+  INSERT INTO public.qc_spec_points (spec_sheet_id, code, name, tol_minus, tol_plus, specs, sort_order)
+  SELECT v_sheet_id, trim(p.code), trim(p.name), p.tol_minus, p.tol_plus,
+         COALESCE(p.specs, '{}'::jsonb), x.ord
+    FROM jsonb_array_elements(COALESCE(p_points, '[]'::jsonb)) WITH ORDINALITY AS x(point, ord)
+   CROSS JOIN LATERAL jsonb_to_record(x.point) AS p(
+           code TEXT, name TEXT, tol_minus NUMERIC, tol_plus NUMERIC, specs JSONB);
+
+  RETURN v_sheet_id;
+END $$;
+
+COMMENT ON FUNCTION public.qc_save_spec_sheet IS
+  'Creates a spec sheet with its points of measure, or rewrites an existing one, in a single transaction.';
@@ -0,0 +1,73 @@
+-- Line WIP totals, aggregated server-side.
+-- The line WIP dashboard read every cutting and sewing submission on active
+-- POs to work out running balances, and PostgREST's 1000-row cap silently
+-- cut that history short once a factory had been running for a while. These
+-- return one row per line and PO instead: the cutting input summed, and the
+-- latest sewing cumulative plus only the recent days the run rate needs.
+-- Rows keep the cutting_actuals / sewing_actuals shape the client already
+-- computes from.
+
+-- ───────────────────────────────────────────────────────────────────
+-- 1) Input per line and PO
+-- ───────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.line_wip_input(p_factory_id UUID, p_as_of DATE)
+RETURNS TABLE (
+  line_id UUID,
+  work_order_id UUID,
+  production_date DATE,
+  day_input INTEGER,
+  po_number TEXT,
+  buyer TEXT,
+  style TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT c.line_id, c.work_order_id, max(c.production_date), COALESCE(sum(c.day_input), 0)::integer,
+         wo.po_number, wo.buyer, wo.style
+    FROM cutting_actuals c
+    JOIN work_orders wo ON wo.id = c.work_order_id AND wo.is_active
+   WHERE c.factory_id = p_factory_id
+     AND c.line_id IS NOT NULL
+     AND c.production_date <= p_as_of
+   GROUP BY c.line_id, c.work_order_id, wo.po_number, wo.buyer, wo.style;
+$$;
+
+-- ───────────────────────────────────────────────────────────────────
+-- 2) Output per line and PO
+-- ───────────────────────────────────────────────────────────────────
+
+-- Each line/PO's latest submission on or before p_as_of (its cumulative is
+-- the line's output), plus every submission from p_since for the run rate.
+CREATE OR REPLACE FUNCTION public.line_wip_output(p_factory_id UUID, p_as_of DATE, p_since DATE)
+RETURNS TABLE (
+  line_id UUID,
+  work_order_id UUID,
+  production_date DATE,
+  good_today INTEGER,
+  rework_today INTEGER,
+  cumulative_good_total INTEGER,
+  po_number TEXT,
+  buyer TEXT,
+  style TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT s.line_id, s.work_order_id, s.production_date, s.good_today, s.rework_today,
+         s.cumulative_good_total, wo.po_number, wo.buyer, wo.style
+    FROM (
+      SELECT a.*,
+             row_number() OVER (PARTITION BY a.line_id, a.work_order_id ORDER BY a.production_date DESC) AS rn
+        FROM sewing_actuals a
+       WHERE a.factory_id = p_factory_id
+         AND a.production_date <= p_as_of
+    ) s
+    JOIN work_orders wo ON wo.id = s.work_order_id AND wo.is_active
+   WHERE s.rn = 1 OR s.production_date >= p_since;
+$$;